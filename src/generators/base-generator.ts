@@ -1,6 +1,7 @@
 import { Faker, en, fr, de, es, ja } from '@faker-js/faker';
-import { SupportedLocale } from '../types/schema.js';
-import { getOrGenerateSeed } from '../utils/seed-manager.js';
+import { SupportedLocale, type FieldSparsity, type IdStrategy } from '../types/schema.js';
+import { getOrGenerateSeed, resolveReferenceDate } from '../utils/seed-manager.js';
+import { createIdFactory, type IdFactory } from '../utils/id-strategies.js';
 
 /**
  * Locale mapping for Faker.js
@@ -21,7 +22,8 @@ const LOCALE_MAP = {
  * ```typescript
  * const options: BaseGeneratorOptions = {
  *   locale: SupportedLocale.FR,
- *   seed: 12345
+ *   seed: 12345,
+ *   referenceDate: '2024-06-01'
  * };
  * ```
  */
@@ -32,6 +34,52 @@ export interface BaseGeneratorOptions {
   seed?: number;
   /** String to hash into a seed (alternative to numeric seed) */
   seedString?: string;
+  /**
+   * Date that anchors all relative dates (recent dates, ages, founding years, `{{year}}`).
+   * Defaults to 2025-01-01T00:00:00Z for seeded runs and to the current time otherwise.
+   */
+  referenceDate?: Date | string;
+}
+
+/**
+ * Number of records generated between two yields to the event loop.
+ *
+ * @constant
+ */
+export const GENERATION_BATCH_SIZE = 1000;
+
+/**
+ * Options for reporting on and cancelling a long-running generation.
+ *
+ * @interface GenerationControl
+ * @example
+ * ```typescript
+ * const control: GenerationControl = {
+ *   onProgress: (completed, total) => context.reportProgress(completed, total),
+ *   signal: context.signal,
+ * };
+ * ```
+ */
+export interface GenerationControl {
+  /** Called after each batch with the number of records generated so far and the total */
+  onProgress?: (completed: number, total: number) => void | Promise<void>;
+  /** Stops the generation at the next batch boundary once aborted */
+  signal?: AbortSignal;
+}
+
+/**
+ * Yields to the event loop so pending I/O, such as a cancellation notification, is handled,
+ * then throws if the generation was cancelled meanwhile.
+ *
+ * @param {AbortSignal} [signal] - Signal of the generation
+ * @returns {Promise<void>} Resolves once the event loop had a turn
+ * @throws {Error} If the signal is aborted
+ */
+export async function yieldBetweenBatches(signal?: AbortSignal): Promise<void> {
+  await new Promise((resolve) => setImmediate(resolve));
+  if (signal?.aborted) {
+    throw new Error('Generation cancelled');
+  }
 }
 
 /**
@@ -60,6 +108,7 @@ export abstract class BaseGenerator {
   protected readonly faker: Faker;
   protected readonly seed: number;
   protected readonly locale: SupportedLocale;
+  protected readonly referenceDate: Date;
 
   /**
    * Creates a new BaseGenerator instance with specified options.
@@ -67,7 +116,7 @@ export abstract class BaseGenerator {
    *
    * @constructor
    * @param {BaseGeneratorOptions} [options={}] - Generator configuration options
-   * @throws {Error} If locale is unsupported or locale data is not found
+   * @throws {Error} If locale is unsupported, locale data is not found, or the reference date is invalid
    * @example
    * ```typescript
    * const generator = new PersonGenerator({
@@ -98,6 +147,11 @@ export abstract class BaseGenerator {
 
     this.faker = new Faker({ locale: localeData });
     this.faker.seed(seed);
+
+    // Anchor relative dates so the same seed yields the same data on any day
+    const seeded = options.seed !== undefined || options.seedString !== undefined;
+    this.referenceDate = resolveReferenceDate(options.referenceDate, seeded);
+    this.faker.setDefaultRefDate(this.referenceDate);
   }
 
   /**
@@ -115,6 +169,20 @@ export abstract class BaseGenerator {
     return this.seed;
   }
 
+  /**
+   * Gets the reference date that anchors relative dates of this generator.
+   * Together with the seed, it reproduces the same data in future runs.
+   *
+   * @returns {Date} A copy of the reference date
+   * @example
+   * ```typescript
+   * const referenceDate = generator.getReferenceDate().toISOString();
+   * ```
+   */
+  public getReferenceDate(): Date {
+    return new Date(this.referenceDate);
+  }
+
   /**
    * Gets the locale used by this generator.
    *
@@ -148,45 +216,124 @@ export abstract class BaseGenerator {
   }
 
   /**
-   * Helper method to batch generate records efficiently.
-   * Processes records in batches to allow garbage collection for large datasets.
+   * Creates the ID factory of one generation run. Without a strategy it produces the
+   * default `{prefix}_{seed}_{index}` IDs of generateId.
    *
    * @protected
+   * @param {string} prefix - Record kind (e.g. 'person'), used by default and prefixed IDs
+   * @param {IdStrategy} [strategy] - How IDs are generated
+   * @returns {IdFactory} Factory producing the ID of each record index
+   * @example
+   * ```typescript
+   * const nextId = this.createIdFactory('person', { type: IdStrategyType.ULID });
+   * const id = nextId(0);
+   * ```
+   */
+  protected createIdFactory(prefix: string, strategy?: IdStrategy): IdFactory {
+    return createIdFactory(strategy, this.faker, {
+      referenceDate: this.referenceDate,
+      prefix: `${prefix}_`,
+      fallback: (index) => this.generateId(prefix, index),
+    });
+  }
+
+  /**
+   * Nulls or removes a field of a record according to its sparsity. Fields without rates
+   * draw nothing from the seeded generator, so records without sparsity are unchanged.
+   *
+   * @protected
+   * @template T - Type of the record
+   * @param {T} record - Record holding the field (updated in place)
+   * @param {string} field - Field name
+   * @param {FieldSparsity} [sparsity] - Null and omit probabilities of the field
+   * @returns {void}
+   * @example
+   * ```typescript
+   * this.applySparsity(person, 'phone', { nullRate: 0.2, omitRate: 0.1 });
+   * ```
+   */
+  protected applySparsity<T extends object>(
+    record: T,
+    field: keyof T & string,
+    sparsity?: FieldSparsity
+  ): void {
+    const omitRate = sparsity?.omitRate ?? 0;
+    const nullRate = sparsity?.nullRate ?? 0;
+    if ((omitRate === 0 && nullRate === 0) || !(field in record)) {
+      return;
+    }
+
+    const roll = this.faker.number.float({ min: 0, max: 1 });
+    if (roll < omitRate) {
+      delete record[field];
+    } else if (roll < omitRate + nullRate) {
+      (record as Record<string, unknown>)[field] = null;
+    }
+  }
+
+  /**
+   * Helper method to generate an array of records in batches.
+   * Between batches it reports progress and yields to the event loop, so a cancelled
+   * generation stops at the next batch boundary. The whole array is held in memory; use
+   * `streamGenerate` for counts above a few thousand.
+   *
+   * @protected
+   * @async
    * @template T - Type of generated records
    * @param {number} count - Total number of records to generate
    * @param {Function} generateFn - Function that generates a single record given an index
-   * @param {number} [batchSize=1000] - Number of records per batch
-   * @returns {T[]} Array of generated records
+   * @param {GenerationControl} [control={}] - Progress callback and cancellation signal
+   * @returns {Promise<T[]>} Array of generated records
+   * @throws {Error} If the generation is cancelled
    * @example
    * ```typescript
-   * const persons = this.batchGenerate(5000, (index) => ({
+   * const persons = await this.batchGenerate(5000, (index) => ({
    *   id: this.generateId('person', index),
    *   name: this.faker.person.fullName()
    * }));
    * ```
    */
-  protected batchGenerate<T>(
+  protected async batchGenerate<T>(
     count: number,
     generateFn: (index: number) => T,
-    batchSize = 1000
-  ): T[] {
+    control: GenerationControl = {}
+  ): Promise<T[]> {
     const results: T[] = [];
-    const batches = Math.ceil(count / batchSize);
 
-    for (let i = 0; i < batches; i++) {
-      const currentBatchSize = Math.min(batchSize, count - i * batchSize);
-      const batch = Array.from({ length: currentBatchSize }, (_, idx) =>
-        generateFn(i * batchSize + idx)
-      );
-      results.push(...batch);
-
-      // Allow GC between batches for large datasets
-      if (count > 5000) {
-        // Small delay to allow event loop processing
-        // In Node.js this doesn't block synchronously
+    for (let start = 0; start < count; start += GENERATION_BATCH_SIZE) {
+      if (start > 0) {
+        await yieldBetweenBatches(control.signal);
       }
+      const end = Math.min(start + GENERATION_BATCH_SIZE, count);
+      for (let index = start; index < end; index++) {
+        results.push(generateFn(index));
+      }
+      await control.onProgress?.(end, count);
     }
 
     return results;
   }
+
+  /**
+   * Helper method to lazily generate records one at a time.
+   * Only the current record is held in memory, so consumers can write millions of records
+   * to a sink. For the same seed the records are identical to those of `batchGenerate`.
+   *
+   * @protected
+   * @template T - Type of generated records
+   * @param {number} count - Total number of records to generate
+   * @param {Function} generateFn - Function that generates a single record given an index
+   * @returns {Generator<T>} Iterator over the generated records
+   * @example
+   * ```typescript
+   * for (const person of this.streamGenerate(1_000_000, (index) => this.buildPerson(index))) {
+   *   sink.write(person);
+   * }
+   * ```
+   */
+  protected *streamGenerate<T>(count: number, generateFn: (index: number) => T): Generator<T> {
+    for (let index = 0; index < count; index++) {
+      yield generateFn(index);
+    }
+  }
 }
@@ -1,5 +1,13 @@
-import { BaseGenerator, BaseGeneratorOptions } from './base-generator.js';
+import { BaseGenerator, BaseGeneratorOptions, type GenerationControl } from './base-generator.js';
 import { CompanyData } from '../types/responses.js';
+import {
+  CompanyOptionalField,
+  CompanyUniqueField,
+  type FieldSparsity,
+  type IdStrategy,
+} from '../types/schema.js';
+import { UniqueValueTracker } from '../utils/unique-values.js';
+import type { IdFactory } from '../utils/id-strategies.js';
 
 /**
  * Options for controlling company data generation.
@@ -11,7 +19,9 @@ import { CompanyData } from '../types/responses.js';
  *   includeAddress: true,
  *   includeWebsite: true,
  *   includeFoundedYear: true,
- *   includeEmployeeCount: true
+ *   includeEmployeeCount: true,
+ *   unique: [CompanyUniqueField.NAME],
+ *   sparsity: { [CompanyOptionalField.WEBSITE]: { omitRate: 0.1 } }
  * };
  * ```
  */
@@ -26,6 +36,12 @@ export interface CompanyGenerationOptions {
   includeFoundedYear?: boolean;
   /** Whether to include employee count (defaults to false) */
   includeEmployeeCount?: boolean;
+  /** Fields whose values must be distinct across the generated records (defaults to none) */
+  unique?: CompanyUniqueField[];
+  /** How often each optional field is null or omitted (defaults to never) */
+  sparsity?: Partial<Record<CompanyOptionalField, FieldSparsity>>;
+  /** How record IDs are generated (defaults to `company_{seed}_{index}`) */
+  idStrategy?: IdStrategy;
 }
 
 /**
@@ -133,6 +149,81 @@ export class CompanyGenerator extends BaseGenerator {
    * ```
    */
   public generate(options: CompanyGenerationOptions = {}): CompanyData {
+    return this.buildCompany(
+      0,
+      options,
+      new UniqueValueTracker(),
+      this.createIdFactory('company', options.idStrategy)
+    );
+  }
+
+  /**
+   * Generates multiple company records efficiently.
+   * Records are generated in batches that report progress and can be cancelled.
+   * Employee counts are weighted toward smaller companies (realistic distribution).
+   * Unique fields are redrawn on collision, deterministically for a given seed.
+   *
+   * @async
+   * @param {number} count - Number of company records to generate
+   * @param {CompanyGenerationOptions} [options={}] - Options controlling which fields to include
+   * @param {GenerationControl} [control] - Progress callback and cancellation signal
+   * @returns {Promise<CompanyData[]>} Array of company data objects
+   * @throws {UniqueValuesExhaustedError} If a unique field runs out of distinct values
+   * @throws {Error} If the generation is cancelled
+   * @example
+   * ```typescript
+   * const companies = await generator.generateMany(100, {
+   *   includeAddress: true,
+   *   includeWebsite: true,
+   *   includeFoundedYear: true,
+   *   includeEmployeeCount: true
+   * });
+   * console.log(`Generated ${companies.length} companies`);
+   * ```
+   */
+  public generateMany(
+    count: number,
+    options: CompanyGenerationOptions = {},
+    control?: GenerationControl
+  ): Promise<CompanyData[]> {
+    const unique = new UniqueValueTracker(options.unique);
+    const nextId = this.createIdFactory('company', options.idStrategy);
+    return this.batchGenerate(
+      count,
+      (index) => this.buildCompany(index, options, unique, nextId),
+      control
+    );
+  }
+
+  /**
+   * Lazily generates company records one at a time, for counts too large to hold in memory.
+   * Yields exactly the same records as `generateMany` for the same seed and options.
+   *
+   * @param {number} count - Number of company records to generate
+   * @param {CompanyGenerationOptions} [options={}] - Options controlling which fields to include
+   * @returns {Generator<CompanyData>} Iterator over the generated records
+   * @example
+   * ```typescript
+   * for (const company of generator.stream(500_000, { includeEmployeeCount: true })) {
+   *   sink.write(company);
+   * }
+   * ```
+   */
+  public stream(count: number, options: CompanyGenerationOptions = {}): Generator<CompanyData> {
+    const unique = new UniqueValueTracker(options.unique);
+    const nextId = this.createIdFactory('company', options.idStrategy);
+    return this.streamGenerate(count, (index) => this.buildCompany(index, options, unique, nextId));
+  }
+
+  /**
+   * Lists the CSV/TSV columns of company records generated with the given options: the
+   * flattened keys of a complete record, in record order. Sparse records lacking a field
+   * leave its cells empty, so inline and streamed output share the same columns.
+   *
+   * @param {CompanyGenerationOptions} [options={}] - Options controlling which fields to include
+   * @returns {string[]} Column names, e.g. `address.city` for nested fields
+   */
+  public getColumns(options: CompanyGenerationOptions = {}): string[] {
     const {
       includeAddress = true,
       includePhone = true,
@@ -140,33 +231,74 @@ export class CompanyGenerator extends BaseGenerator {
       includeFoundedYear = false,
       includeEmployeeCount = false,
     } = options;
+    return [
+      'id',
+      'name',
+      'industry',
+      'email',
+      ...(includePhone ? ['phone'] : []),
+      ...(includeWebsite ? ['website'] : []),
+      ...(includeFoundedYear ? ['founded'] : []),
+      ...(includeEmployeeCount ? ['employeeCount'] : []),
+      ...(includeAddress
+        ? ['street', 'city', 'state', 'postalCode', 'country'].map((key) => `address.${key}`)
+        : []),
+    ];
+  }
 
-    const companyName = this.faker.company.name();
+  /**
+   * Builds the company record at the given index.
+   *
+   * @private
+   * @param {number} index - Index of the record (used in the ID)
+   * @param {CompanyGenerationOptions} options - Options controlling which fields to include
+   * @param {UniqueValueTracker} unique - Values of the unique fields generated so far
+   * @param {IdFactory} nextId - Produces the record's ID from its index
+   * @returns {CompanyData} A company data object
+   */
+  private buildCompany(
+    index: number,
+    options: CompanyGenerationOptions,
+    unique: UniqueValueTracker,
+    nextId: IdFactory
+  ): CompanyData {
+    const {
+      includeAddress = true,
+      includePhone = true,
+      includeWebsite = true,
+      includeFoundedYear = false,
+      includeEmployeeCount = false,
+      sparsity = {},
+    } = options;
+
+    const companyName = unique.next(CompanyUniqueField.NAME, () => this.faker.company.name());
 
     const company: CompanyData = {
-      id: this.generateId('company', 0),
+      id: nextId(index),
       name: companyName,
       industry: this.getIndustry(),
-      email: this.faker.internet
-        .email({
-          firstName: companyName.split(' ')[0]?.toLowerCase() ?? 'info',
-          lastName: 'contact',
-        })
-        .toLowerCase(),
+      email: unique.next(CompanyUniqueField.EMAIL, () =>
+        this.faker.internet
+          .email({
+            firstName: companyName.split(' ')[0]?.toLowerCase() ?? 'info',
+            lastName: 'contact',
+          })
+          .toLowerCase()
+      ),
     };
 
     if (includePhone) {
-      company.phone = this.faker.phone.number();
+      company.phone = unique.next(CompanyUniqueField.PHONE, () => this.faker.phone.number());
     }
 
     if (includeWebsite) {
-      company.website = this.faker.internet.url();
+      company.website = unique.next(CompanyUniqueField.WEBSITE, () => this.faker.internet.url());
     }
 
     if (includeFoundedYear) {
       company.founded = this.faker.date
-        .between({ from: '1900-01-01', to: new Date() })
-        .getFullYear();
+        .between({ from: '1900-01-01', to: this.referenceDate })
+        .getUTCFullYear();
     }
 
     if (includeEmployeeCount) {
@@ -179,7 +311,8 @@ export class CompanyGenerator extends BaseGenerator {
         { min: 5001, max: 50000 },
       ];
 
-      const rand = Math.random();
+      // Drawn from the seeded Faker instance so the same seed yields the same sizes
+      const rand = this.faker.number.float({ min: 0, max: 1 });
       let cumulative = 0;
       let range = ranges[0] ?? { min: 1, max: 50 };
 
@@ -204,101 +337,10 @@ export class CompanyGenerator extends BaseGenerator {
       };
     }
 
-    return company;
-  }
-
-  /**
-   * Generates multiple company records efficiently.
-   * Uses batch processing for large datasets to optimize memory usage.
-   * Employee counts are weighted toward smaller companies (realistic distribution).
-   *
-   * @param {number} count - Number of company records to generate
-   * @param {CompanyGenerationOptions} [options={}] - Options controlling which fields to include
-   * @returns {CompanyData[]} Array of company data objects
-   * @example
-   * ```typescript
-   * const companies = generator.generateMany(100, {
-   *   includeAddress: true,
-   *   includeWebsite: true,
-   *   includeFoundedYear: true,
-   *   includeEmployeeCount: true
-   * });
-   * console.log(`Generated ${companies.length} companies`);
-   * ```
-   */
-  public generateMany(count: number, options: CompanyGenerationOptions = {}): CompanyData[] {
-    return this.batchGenerate(count, (index) => {
-      const {
-        includeAddress = true,
-        includePhone = true,
-        includeWebsite = true,
-        includeFoundedYear = false,
-        includeEmployeeCount = false,
-      } = options;
-
-      const companyName = this.faker.company.name();
-
-      const company: CompanyData = {
-        id: this.generateId('company', index),
-        name: companyName,
-        industry: this.getIndustry(),
-        email: this.faker.internet
-          .email({
-            firstName: companyName.split(' ')[0]?.toLowerCase() ?? 'info',
-            lastName: 'contact',
-          })
-          .toLowerCase(),
-      };
-
-      if (includePhone) {
-        company.phone = this.faker.phone.number();
-      }
-
-      if (includeWebsite) {
-        company.website = this.faker.internet.url();
-      }
-
-      if (includeFoundedYear) {
-        company.founded = this.faker.date
-          .between({ from: '1900-01-01', to: new Date() })
-          .getFullYear();
-      }
-
-      if (includeEmployeeCount) {
-        const weights = [0.5, 0.3, 0.15, 0.05];
-        const ranges = [
-          { min: 1, max: 50 },
-          { min: 51, max: 500 },
-          { min: 501, max: 5000 },
-          { min: 5001, max: 50000 },
-        ];
-
-        const rand = Math.random();
-        let cumulative = 0;
-        let range = ranges[0] ?? { min: 1, max: 50 };
-
-        for (let i = 0; i < weights.length; i++) {
-          cumulative += weights[i] ?? 0;
-          if (rand < cumulative) {
-            range = ranges[i] ?? { min: 1, max: 50 };
-            break;
-          }
-        }
-
-        company.employeeCount = this.faker.number.int({ min: range.min, max: range.max });
-      }
-
-      if (includeAddress) {
-        company.address = {
-          street: this.faker.location.streetAddress(),
-          city: this.faker.location.city(),
-          state: this.faker.location.state(),
-          postalCode: this.faker.location.zipCode(),
-          country: this.faker.location.country(),
-        };
-      }
+    for (const field of Object.values(CompanyOptionalField)) {
+      this.applySparsity(company, field, sparsity[field]);
+    }
 
-      return company;
-    });
+    return company;
   }
 }
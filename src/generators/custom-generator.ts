@@ -1,20 +1,29 @@
 import RandExp from 'randexp';
-import { BaseGenerator } from './base-generator.js';
-import { PatternType, type CustomPattern, type RangePattern } from '../types/schema.js';
+import { BaseGenerator, type GenerationControl } from './base-generator.js';
+import {
+  PatternType,
+  type CustomPattern,
+  type IdStrategy,
+  type RangePattern,
+} from '../types/schema.js';
+import { UniqueValueTracker } from '../utils/unique-values.js';
+import type { IdFactory } from '../utils/id-strategies.js';
 
 /**
  * Custom data generation options
  */
 export interface CustomGenerationOptions {
   patterns: Record<string, CustomPattern>;
+  /** How record IDs are generated (defaults to `custom_{seed}_{index}`) */
+  idStrategy?: IdStrategy;
 }
 
 /**
  * Generated custom record
  */
 export interface CustomData {
-  id: string;
-  [key: string]: string | number | boolean;
+  id: string | number;
+  [key: string]: string | number | boolean | null;
 }
 
 /**
@@ -28,38 +37,88 @@ export class CustomGenerator extends BaseGenerator {
    * Generate a single custom data record
    */
   public generate(options: CustomGenerationOptions): CustomData {
-    const record: CustomData = {
-      id: this.generateId('custom', this.recordIndex++),
-    };
+    return this.buildRecord(
+      this.recordIndex++,
+      options,
+      new UniqueValueTracker(),
+      this.createIdFactory('custom', options.idStrategy)
+    );
+  }
 
-    for (const [fieldName, pattern] of Object.entries(options.patterns)) {
-      record[fieldName] = this.generateFieldValue(pattern);
-    }
+  /**
+   * Generate multiple custom data records in cancellable batches.
+   * Fields whose pattern is `unique` are redrawn on collision; patterns with a null or omit
+   * rate leave their field null or out of some records.
+   */
+  public generateMany(
+    count: number,
+    options: CustomGenerationOptions,
+    control?: GenerationControl
+  ): Promise<CustomData[]> {
+    const unique = this.createUniqueTracker(options);
+    const nextId = this.createIdFactory('custom', options.idStrategy);
+    return this.batchGenerate(
+      count,
+      (index) => this.buildRecord(index, options, unique, nextId),
+      control
+    );
+  }
 
-    return record;
+  /**
+   * Lazily generate custom data records (same records as generateMany for the same seed)
+   */
+  public stream(count: number, options: CustomGenerationOptions): Generator<CustomData> {
+    const unique = this.createUniqueTracker(options);
+    const nextId = this.createIdFactory('custom', options.idStrategy);
+    return this.streamGenerate(count, (index) => this.buildRecord(index, options, unique, nextId));
   }
 
   /**
-   * Generate multiple custom data records
+   * List the CSV/TSV columns of records generated with the given patterns, in record order.
+   * Fields with an omit rate may be missing from some records, so the columns come from the
+   * patterns rather than from the first record.
    */
-  public generateMany(count: number, options: CustomGenerationOptions): CustomData[] {
-    return this.batchGenerate(count, (index) => {
-      const record: CustomData = {
-        id: this.generateId('custom', index),
-      };
+  public getColumns(options: CustomGenerationOptions): string[] {
+    return ['id', ...Object.keys(options.patterns)];
+  }
 
-      for (const [fieldName, pattern] of Object.entries(options.patterns)) {
-        record[fieldName] = this.generateFieldValue(pattern);
-      }
+  /**
+   * Track the fields whose pattern is marked unique
+   */
+  private createUniqueTracker(options: CustomGenerationOptions): UniqueValueTracker {
+    return new UniqueValueTracker(
+      Object.entries(options.patterns)
+        .filter(([, pattern]) => pattern.unique)
+        .map(([fieldName]) => fieldName)
+    );
+  }
 
-      return record;
-    });
+  /**
+   * Build the custom data record at the given index
+   */
+  private buildRecord(
+    index: number,
+    options: CustomGenerationOptions,
+    unique: UniqueValueTracker,
+    nextId: IdFactory
+  ): CustomData {
+    const record: CustomData = {
+      id: nextId(index),
+    };
+
+    for (const [fieldName, pattern] of Object.entries(options.patterns)) {
+      record[fieldName] = unique.next(fieldName, () => this.generateFieldValue(pattern));
+      this.applySparsity(record, fieldName, pattern);
+    }
+
+    return record;
   }
 
   /**
-   * Generate value for a single field based on pattern
+   * Generate value for a single field based on pattern.
+   * Also used by DatasetGenerator for pattern-backed dataset fields.
    */
-  private generateFieldValue(pattern: CustomPattern): string | number {
+  public generateFieldValue(pattern: CustomPattern): string | number {
     switch (pattern.type) {
       case PatternType.REGEX:
         return this.generateRegexPattern(pattern.value as string);
@@ -76,19 +135,25 @@ export class CustomGenerator extends BaseGenerator {
   }
 
   /**
-   * Generate data matching a regex pattern
+   * Generate data matching a regex pattern. Unbounded quantifiers (`*`, `+`, `{n,}`) repeat
+   * at most `maxRepeat` extra times (100 by default).
+   * Also used by JsonSchemaGenerator to keep pattern strings within a maxLength.
    */
-  private generateRegexPattern(regexValue: string): string {
+  public generateRegexPattern(regexValue: string, maxRepeat?: number): string {
     try {
       // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment, @typescript-eslint/no-unsafe-call
       const randexp = new RandExp(regexValue) as {
         gen: () => string;
         randInt?: (min: number, max: number) => number;
+        max?: number;
       };
       // Use faker's random generator for consistency with seed
       randexp.randInt = (min: number, max: number) => {
         return this.faker.number.int({ min, max });
       };
+      if (maxRepeat !== undefined) {
+        randexp.max = maxRepeat;
+      }
       // eslint-disable-next-line @typescript-eslint/no-unsafe-return, @typescript-eslint/no-unsafe-call
       return randexp.gen();
     } catch (error) {
@@ -109,15 +174,15 @@ export class CustomGenerator extends BaseGenerator {
   /**
    * Generate data using format template with placeholders
    * Supported placeholders:
-   * - {{year}}: Current year
+   * - {{year}}: Year of the reference date (current year unless seeded or set)
    * - {{random:N}}: N random alphanumeric characters
    * - {{number:N}}: N random digits
    */
   private generateFormatPattern(formatValue: string): string {
     let result = formatValue;
 
-    // Replace {{year}} with current year
-    result = result.replace(/\{\{year\}\}/g, new Date().getFullYear().toString());
+    // Replace {{year}} with the year of the reference date
+    result = result.replace(/\{\{year\}\}/g, this.referenceDate.getUTCFullYear().toString());
 
     // Replace {{random:N}} with N random alphanumeric characters
     result = result.replace(/\{\{random:(\d+)\}\}/g, (_match, length: string) => {
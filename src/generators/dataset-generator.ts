@@ -1,9 +1,49 @@
-import { BaseGenerator, BaseGeneratorOptions } from './base-generator.js';
+import {
+  BaseGenerator,
+  BaseGeneratorOptions,
+  yieldBetweenBatches,
+  type GenerationControl,
+} from './base-generator.js';
 import { PersonGenerator } from './person-generator.js';
 import { CompanyGenerator } from './company-generator.js';
-import { EntityType, type DatasetSchema } from '../types/schema.js';
-import type { PersonData, CompanyData } from '../types/responses.js';
+import { ProductGenerator } from './product-generator.js';
+import { OrderGenerator, type OrderProduct } from './order-generator.js';
+import { FinancialGenerator } from './financial-generator.js';
+import { CustomGenerator } from './custom-generator.js';
+import {
+  CardinalityDistribution,
+  CompanyUniqueField,
+  EntityType,
+  FieldType,
+  PersonUniqueField,
+  ProductUniqueField,
+  RelationshipType,
+  type CardinalityDefinition,
+  type DatasetSchema,
+  type EntityDefinition,
+  type FieldConstraint,
+  type FieldDefinition,
+  type FieldSparsity,
+  type IdStrategy,
+  type RelationshipDefinition,
+} from '../types/schema.js';
+import type {
+  PersonData,
+  CompanyData,
+  ProductData,
+  OrderData,
+  AccountData,
+  LedgerTransactionData,
+} from '../types/responses.js';
 import type { Faker } from '@faker-js/faker';
+import { distributeCounts, paretoWeights, zipfWeights } from '../utils/distributions.js';
+import { MAX_UNIQUE_ATTEMPTS, UniqueValueTracker } from '../utils/unique-values.js';
+import {
+  ConstraintUnsatisfiedError,
+  describeConstraint,
+  satisfiesConstraint,
+} from '../utils/constraints.js';
+import { createIdFactory, type IdFactory } from '../utils/id-strategies.js';
 
 /**
  * Represents a generated dataset with multiple entities
@@ -14,24 +54,99 @@ export interface GeneratedDataset {
     entityCounts: Record<string, number>;
     totalRecords: number;
     seed: number;
+    /** ISO 8601 reference date that anchored relative dates */
+    referenceDate: string;
   };
 }
 
+/**
+ * Naive singular form of an entity name, used for default junction column names
+ */
+function singularize(name: string): string {
+  if (name.endsWith('ies')) {
+    return `${name.slice(0, -3)}y`;
+  }
+  if (name.endsWith('s') && !name.endsWith('ss')) {
+    return name.slice(0, -1);
+  }
+  return name;
+}
+
+/**
+ * Resolve the junction column names of a many-to-many relationship
+ */
+export function getJunctionKeys(
+  entityName: string,
+  relationship: RelationshipDefinition
+): { sourceKey: string; targetKey: string } {
+  return {
+    sourceKey: relationship.sourceKey ?? `${singularize(entityName)}Id`,
+    targetKey: relationship.targetKey ?? `${singularize(relationship.references)}Id`,
+  };
+}
+
+/**
+ * Resolve the field holding an entity's IDs: `id`, the single field of its primary key, or
+ * none when its primary key is composite
+ */
+export function getIdField(entityDef: EntityDefinition | undefined): string | undefined {
+  const primaryKey = entityDef?.primaryKey;
+  if (!primaryKey) {
+    return 'id';
+  }
+  return primaryKey.length === 1 ? primaryKey[0] : undefined;
+}
+
+/**
+ * Find the relationship holding the line items of an order entity: the one referencing a
+ * product entity. Its field holds line items instead of bare foreign keys.
+ */
+export function findLineItemRelationship(
+  entityDef: EntityDefinition,
+  schema: DatasetSchema
+): [string, RelationshipDefinition] | undefined {
+  if (entityDef.type !== EntityType.ORDER) {
+    return undefined;
+  }
+  return Object.entries(entityDef.relationships ?? {}).find(
+    ([, relationship]) => schema.entities[relationship.references]?.type === EntityType.PRODUCT
+  );
+}
+
+/**
+ * Read the ID, price and currency of a generated record referenced by order line items
+ */
+function toOrderProduct(record: unknown): OrderProduct {
+  const { id, price, currency } = record as Record<string, unknown>;
+  return {
+    id: id as string | number,
+    price: typeof price === 'number' ? price : undefined,
+    currency: typeof currency === 'string' ? currency : undefined,
+  };
+}
+
+/**
+ * Probability of a null foreign key for nullable relationships without a `nullRate`.
+ *
+ * @constant
+ */
+export const DEFAULT_NULL_RATE = 0.2;
+
 /**
  * ID pool for tracking generated entity IDs
  */
 class IDPool {
-  private pools: Map<string, string[]> = new Map();
+  private pools: Map<string, Array<string | number>> = new Map();
   private counters: Map<string, number> = new Map();
 
   /**
-   * Generate and track a new entity ID
+   * Generate and track a new entity ID with the entity's ID factory
    */
-  public generateEntityId(entityName: string): string {
+  public generateEntityId(entityName: string, nextId: IdFactory): string | number {
     const counter = (this.counters.get(entityName) || 0) + 1;
     this.counters.set(entityName, counter);
 
-    const id = `${entityName.toLowerCase()}_${counter}`;
+    const id = nextId(counter - 1);
 
     const pool = this.pools.get(entityName);
     if (!pool) {
@@ -46,18 +161,19 @@ class IDPool {
   /**
    * Get all IDs for an entity
    */
-  public getEntityIds(entityName: string): string[] {
+  public getEntityIds(entityName: string): Array<string | number> {
     return this.pools.get(entityName) || [];
   }
 
   /**
-   * Select a random foreign key value from the pool
+   * Select a random foreign key value from the pool (null with probability `nullRate` if nullable)
    */
   public selectForeignKeyValue(
     entityName: string,
     faker: Faker,
-    nullable: boolean = false
-  ): string | null {
+    nullable: boolean = false,
+    nullRate: number = DEFAULT_NULL_RATE
+  ): string | number | null {
     const ids = this.getEntityIds(entityName);
 
     if (ids.length === 0) {
@@ -65,7 +181,7 @@ class IDPool {
     }
 
     // Handle nullable relationships
-    if (nullable && faker.datatype.boolean({ probability: 0.2 })) {
+    if (nullable && faker.datatype.boolean({ probability: nullRate })) {
       return null;
     }
 
@@ -74,10 +190,115 @@ class IDPool {
     return selectedId;
   }
 
+  /**
+   * Plan the foreign key values of a whole child entity up front so that every parent
+   * receives a number of children within the cardinality bounds, spread according to
+   * the requested distribution. Values are returned in shuffled order.
+   */
+  public planForeignKeyValues(
+    entityName: string,
+    childCount: number,
+    cardinality: CardinalityDefinition,
+    faker: Faker,
+    nullable: boolean = false,
+    nullRate: number = DEFAULT_NULL_RATE
+  ): Array<string | number | null> {
+    const ids = this.getEntityIds(entityName);
+
+    if (ids.length === 0) {
+      throw new Error(`No IDs available for entity '${entityName}'`);
+    }
+
+    const min = cardinality.min ?? 0;
+    const max = cardinality.max ?? Infinity;
+
+    // Nullable children use the relationship's null rate, but never eat into the minimums;
+    // children that would exceed every parent's maximum become null as well
+    let nullCount = 0;
+    if (nullable) {
+      for (let i = 0; i < childCount; i++) {
+        if (faker.datatype.boolean({ probability: nullRate })) {
+          nullCount++;
+        }
+      }
+      nullCount = Math.min(nullCount, Math.max(0, childCount - ids.length * min));
+      nullCount = Math.max(nullCount, childCount - ids.length * max);
+    }
+
+    let counts: number[];
+    try {
+      counts = distributeCounts(
+        childCount - nullCount,
+        this.parentWeights(ids.length, cardinality, faker),
+        faker,
+        min,
+        max
+      );
+    } catch (error) {
+      throw new Error(
+        `Cardinality for entity '${entityName}' cannot be satisfied: ${(error as Error).message}`
+      );
+    }
+
+    const values: Array<string | number | null> = [];
+    counts.forEach((count, index) => {
+      const id = ids[index];
+      for (let i = 0; i < count && id !== undefined; i++) {
+        values.push(id);
+      }
+    });
+    for (let i = 0; i < nullCount; i++) {
+      values.push(null);
+    }
+
+    return faker.helpers.shuffle(values);
+  }
+
+  /**
+   * Relative weight of each parent for the cardinality distribution
+   */
+  private parentWeights(
+    parentCount: number,
+    cardinality: CardinalityDefinition,
+    faker: Faker
+  ): number[] {
+    switch (cardinality.distribution ?? CardinalityDistribution.UNIFORM) {
+      case CardinalityDistribution.ZIPF:
+        // Shuffle ranks so the heaviest parents are not always the first ones generated
+        return faker.helpers.shuffle(zipfWeights(parentCount, cardinality.skew ?? 1));
+      case CardinalityDistribution.PARETO:
+        return paretoWeights(parentCount, faker, cardinality.skew ?? 1.16);
+      default:
+        return new Array<number>(parentCount).fill(1);
+    }
+  }
+
+  /**
+   * Select a set of distinct foreign key values from the pool.
+   * The link count is clamped to the pool size so no ID is ever picked twice.
+   */
+  public selectManyForeignKeyValues(
+    entityName: string,
+    faker: Faker,
+    minLinks: number,
+    maxLinks: number
+  ): Array<string | number> {
+    const ids = this.getEntityIds(entityName);
+
+    if (ids.length === 0) {
+      throw new Error(`No IDs available for entity '${entityName}'`);
+    }
+
+    const max = Math.min(maxLinks, ids.length);
+    const min = Math.min(minLinks, max);
+
+    return faker.helpers.arrayElements(ids, faker.number.int({ min, max }));
+  }
+
   /**
    * Track existing IDs
    */
-  public trackEntityIds(entityName: string, ids: string[]): void {
+  public trackEntityIds(entityName: string, ids: Array<string | number>): void {
     this.pools.set(entityName, ids);
     this.counters.set(entityName, ids.length);
   }
@@ -89,33 +310,79 @@ class IDPool {
 export class DatasetGenerator extends BaseGenerator {
   private personGenerator: PersonGenerator;
   private companyGenerator: CompanyGenerator;
+  private productGenerator: ProductGenerator;
+  private orderGenerator: OrderGenerator;
+  private financialGenerator: FinancialGenerator;
+  private customGenerator: CustomGenerator;
   private idPool: IDPool;
+  private junctions: Map<string, Record<string, unknown>[]>;
+  private records: Map<string, unknown[]>;
+  private plannedForeignKeys: Map<RelationshipDefinition, Array<string | number | null>>;
 
   constructor(options: BaseGeneratorOptions = {}) {
     super(options);
-    this.personGenerator = new PersonGenerator(options);
-    this.companyGenerator = new CompanyGenerator(options);
+    // Share the resolved seed and reference date so unseeded runs are reproducible from metadata
+    const resolved = { ...options, seed: this.seed, referenceDate: this.referenceDate };
+    this.personGenerator = new PersonGenerator(resolved);
+    this.companyGenerator = new CompanyGenerator(resolved);
+    this.productGenerator = new ProductGenerator(resolved);
+    this.orderGenerator = new OrderGenerator(resolved);
+    this.financialGenerator = new FinancialGenerator(resolved);
+    this.customGenerator = new CustomGenerator(resolved);
     this.idPool = new IDPool();
+    this.junctions = new Map();
+    this.records = new Map();
+    this.plannedForeignKeys = new Map();
   }
 
   /**
-   * Generate a complete dataset based on schema
+   * Generate a complete dataset based on schema.
+   * Progress counts the records of the schema's entities (junction rows are not counted) and is
+   * reported per batch and per entity; a cancelled generation stops at the next batch boundary.
    */
-  public generateDataset(schema: DatasetSchema): GeneratedDataset {
+  public async generateDataset(
+    schema: DatasetSchema,
+    control: GenerationControl = {}
+  ): Promise<GeneratedDataset> {
     const dataset: Record<string, unknown[]> = {};
     const entityCounts: Record<string, number> = {};
+    this.junctions.clear();
+    this.records.clear();
 
     // Sort entities by dependencies (topological sort)
     const sortedEntities = this.topologicalSort(schema);
+    const total = sortedEntities.reduce(
+      (sum, entityName) => sum + (schema.entities[entityName]?.count ?? 0),
+      0
+    );
+    let completed = 0;
 
     // Generate each entity in dependency order
     for (const entityName of sortedEntities) {
       const entityDef = schema.entities[entityName];
       if (!entityDef) continue;
 
-      const entities = this.generateEntity(entityName, entityDef, schema);
+      if (completed > 0) {
+        await yieldBetweenBatches(control.signal);
+      }
+      const entities = await this.generateEntity(entityName, entityDef, schema, {
+        signal: control.signal,
+        onProgress: (generated) => control.onProgress?.(completed + generated, total),
+      });
+      completed += entityDef.count;
       dataset[entityName] = entities;
       entityCounts[entityName] = entities.length;
+      this.records.set(entityName, entities);
+
+      // Junction entities for many-to-many relationships follow their owning entity
+      for (const relationship of Object.values(entityDef.relationships ?? {})) {
+        if (relationship.type !== RelationshipType.MANY_TO_MANY || !relationship.through) {
+          continue;
+        }
+        const links = this.junctions.get(relationship.through) ?? [];
+        dataset[relationship.through] = links;
+        entityCounts[relationship.through] = links.length;
+      }
     }
 
     const totalRecords = Object.values(entityCounts).reduce((sum, count) => sum + count, 0);
@@ -126,6 +393,7 @@ export class DatasetGenerator extends BaseGenerator {
         entityCounts,
         totalRecords,
         seed: this.getSeed(),
+        referenceDate: this.referenceDate.toISOString(),
       },
     };
   }
@@ -136,19 +404,97 @@ export class DatasetGenerator extends BaseGenerator {
   private generateEntity(
     entityName: string,
     entityDef: DatasetSchema['entities'][string],
-    schema: DatasetSchema
-  ): unknown[] {
-    const { count, type, fields, relationships } = entityDef;
+    schema: DatasetSchema,
+    control: GenerationControl
+  ): Promise<unknown[]> {
+    const {
+      count,
+      type,
+      fields,
+      relationships,
+      unique,
+      uniqueKeys,
+      constraints,
+      idStrategy,
+      primaryKey,
+    } = entityDef;
+    const nextId = this.createEntityIdFactory(entityName, idStrategy);
+
+    // Relationships with cardinality constraints get their foreign keys planned up front
+    this.plannedForeignKeys.clear();
+    for (const relationship of Object.values(relationships ?? {})) {
+      if (
+        relationship.type === RelationshipType.ONE_TO_MANY &&
+        relationship.cardinality &&
+        relationship.references !== entityName
+      ) {
+        this.plannedForeignKeys.set(
+          relationship,
+          this.idPool.planForeignKeyValues(
+            relationship.references,
+            count,
+            relationship.cardinality,
+            this.faker,
+            relationship.nullable || false,
+            relationship.nullRate
+          )
+        );
+      }
+    }
 
     switch (type) {
       case EntityType.PERSON:
-        return this.generatePersonEntities(entityName, count);
+        return this.generatePersonEntities(
+          entityName,
+          nextId,
+          count,
+          relationships,
+          (unique ?? []) as PersonUniqueField[],
+          control
+        );
 
       case EntityType.COMPANY:
-        return this.generateCompanyEntities(entityName, count);
+        return this.generateCompanyEntities(
+          entityName,
+          nextId,
+          count,
+          relationships,
+          (unique ?? []) as CompanyUniqueField[],
+          control
+        );
+
+      case EntityType.PRODUCT:
+        return this.generateProductEntities(
+          entityName,
+          nextId,
+          count,
+          relationships,
+          (unique ?? []) as ProductUniqueField[],
+          control
+        );
+
+      case EntityType.ORDER:
+        return this.generateOrderEntities(entityName, nextId, count, entityDef, schema, control);
+
+      case EntityType.ACCOUNT:
+        return this.generateAccountEntities(entityName, nextId, count, relationships, control);
+
+      case EntityType.LEDGER:
+        return this.generateLedgerEntities(entityName, nextId, count, relationships, control);
 
       case EntityType.CUSTOM:
-        return this.generateCustomEntities(entityName, count, fields || [], relationships, schema);
+        return this.generateCustomEntities(
+          entityName,
+          nextId,
+          count,
+          fields || [],
+          relationships,
+          schema,
+          control,
+          uniqueKeys,
+          constraints,
+          primaryKey
+        );
 
       default: {
         const exhaustiveCheck: never = type;
@@ -158,20 +504,48 @@ export class DatasetGenerator extends BaseGenerator {
   }
 
   /**
-   * Generate person entities
+   * Create the ID factory of an entity: its strategy, or `<entity>_<n>` counting from 1
    */
-  private generatePersonEntities(entityName: string, count: number): PersonData[] {
-    const entities = this.personGenerator.generateMany(count, {
-      includeAddress: true,
-      includePhone: true,
-      includeDateOfBirth: false,
+  private createEntityIdFactory(entityName: string, strategy?: IdStrategy): IdFactory {
+    const prefix = entityName.toLowerCase();
+    return createIdFactory(strategy, this.faker, {
+      referenceDate: this.referenceDate,
+      prefix: `${prefix}_`,
+      fallback: (index) => `${prefix}_${index + 1}`,
     });
+  }
 
-    // Update IDs to match entity name
-    const updatedEntities = entities.map((entity) => ({
-      ...entity,
-      id: this.idPool.generateEntityId(entityName),
-    }));
+  /**
+   * Generate person entities
+   */
+  private async generatePersonEntities(
+    entityName: string,
+    nextId: IdFactory,
+    count: number,
+    relationships: DatasetSchema['entities'][string]['relationships'],
+    unique: PersonUniqueField[],
+    control: GenerationControl
+  ): Promise<PersonData[]> {
+    const entities = await this.personGenerator.generateMany(
+      count,
+      {
+        includeAddress: true,
+        includePhone: true,
+        includeDateOfBirth: false,
+        unique,
+      },
+      control
+    );
+
+    // Update IDs to match entity name and attach relationship fields
+    const updatedEntities = entities.map((entity) => {
+      const id = this.idPool.generateEntityId(entityName, nextId);
+      return {
+        ...entity,
+        id,
+        ...this.generateRelationshipFields(entityName, id, relationships),
+      };
+    });
 
     return updatedEntities;
   }
@@ -179,62 +553,430 @@ export class DatasetGenerator extends BaseGenerator {
   /**
    * Generate company entities
    */
-  private generateCompanyEntities(entityName: string, count: number): CompanyData[] {
-    const entities = this.companyGenerator.generateMany(count, {
-      includeAddress: true,
-      includePhone: true,
-      includeWebsite: true,
+  private async generateCompanyEntities(
+    entityName: string,
+    nextId: IdFactory,
+    count: number,
+    relationships: DatasetSchema['entities'][string]['relationships'],
+    unique: CompanyUniqueField[],
+    control: GenerationControl
+  ): Promise<CompanyData[]> {
+    const entities = await this.companyGenerator.generateMany(
+      count,
+      {
+        includeAddress: true,
+        includePhone: true,
+        includeWebsite: true,
+        unique,
+      },
+      control
+    );
+
+    // Update IDs to match entity name and attach relationship fields
+    const updatedEntities = entities.map((entity) => {
+      const id = this.idPool.generateEntityId(entityName, nextId);
+      return {
+        ...entity,
+        id,
+        ...this.generateRelationshipFields(entityName, id, relationships),
+      };
     });
 
-    // Update IDs to match entity name
-    const updatedEntities = entities.map((entity) => ({
-      ...entity,
-      id: this.idPool.generateEntityId(entityName),
-    }));
+    return updatedEntities;
+  }
+
+  /**
+   * Generate product entities
+   */
+  private async generateProductEntities(
+    entityName: string,
+    nextId: IdFactory,
+    count: number,
+    relationships: DatasetSchema['entities'][string]['relationships'],
+    unique: ProductUniqueField[],
+    control: GenerationControl
+  ): Promise<ProductData[]> {
+    const entities = await this.productGenerator.generateMany(
+      count,
+      {
+        includeDimensions: true,
+        unique,
+      },
+      control
+    );
+
+    // Update IDs to match entity name and attach relationship fields
+    const updatedEntities = entities.map((entity) => {
+      const id = this.idPool.generateEntityId(entityName, nextId);
+      return {
+        ...entity,
+        id,
+        ...this.generateRelationshipFields(entityName, id, relationships),
+      };
+    });
 
     return updatedEntities;
   }
 
   /**
-   * Generate custom entities with specified fields and relationships
+   * Generate order entities. Line items reference the product entity of the line item
+   * relationship at the products' prices; other relationships are plain foreign keys.
+   */
+  private async generateOrderEntities(
+    entityName: string,
+    nextId: IdFactory,
+    count: number,
+    entityDef: DatasetSchema['entities'][string],
+    schema: DatasetSchema,
+    control: GenerationControl
+  ): Promise<Array<Record<string, unknown>>> {
+    const lineItems = findLineItemRelationship(entityDef, schema);
+    const [itemsField, itemsRelationship] = lineItems ?? ['items', undefined];
+    const products = itemsRelationship
+      ? (this.records.get(itemsRelationship.references) ?? []).map(toOrderProduct)
+      : undefined;
+    const relationships = Object.fromEntries(
+      Object.entries(entityDef.relationships ?? {}).filter(([field]) => field !== itemsField)
+    );
+
+    const orders: OrderData[] = await this.orderGenerator.generateMany(
+      count,
+      {
+        products,
+        minItems: itemsRelationship?.minLinks,
+        maxItems: itemsRelationship?.maxLinks,
+      },
+      control
+    );
+
+    // Update IDs to match entity name, name the line items after their relationship field and
+    // attach the other relationship fields
+    return orders.map((order) => {
+      const id = this.idPool.generateEntityId(entityName, nextId);
+      const fields = Object.entries({ ...order, id }).map(([key, value]): [string, unknown] => [
+        key === 'items' ? itemsField : key,
+        value,
+      ]);
+      return {
+        ...Object.fromEntries(fields),
+        ...this.generateRelationshipFields(entityName, id, relationships),
+      };
+    });
+  }
+
+  /**
+   * Generate bank account entities
+   */
+  private async generateAccountEntities(
+    entityName: string,
+    nextId: IdFactory,
+    count: number,
+    relationships: DatasetSchema['entities'][string]['relationships'],
+    control: GenerationControl
+  ): Promise<AccountData[]> {
+    const entities = await this.financialGenerator.generateAccounts(count, {}, control);
+
+    // Update IDs to match entity name and attach relationship fields
+    return entities.map((entity) => {
+      const id = this.idPool.generateEntityId(entityName, nextId);
+      return {
+        ...entity,
+        id,
+        ...this.generateRelationshipFields(entityName, id, relationships),
+      };
+    });
+  }
+
+  /**
+   * Generate ledger transaction entities. Entries post to the built-in chart of accounts;
+   * relationships (e.g. to the bank account a transaction cleared through) are plain foreign keys.
+   */
+  private async generateLedgerEntities(
+    entityName: string,
+    nextId: IdFactory,
+    count: number,
+    relationships: DatasetSchema['entities'][string]['relationships'],
+    control: GenerationControl
+  ): Promise<LedgerTransactionData[]> {
+    const entities = await this.financialGenerator.generateTransactions(count, {}, control);
+
+    // Update IDs to match entity name and attach relationship fields
+    return entities.map((entity) => {
+      const id = this.idPool.generateEntityId(entityName, nextId);
+      return {
+        ...entity,
+        id,
+        ...this.generateRelationshipFields(entityName, id, relationships),
+      };
+    });
+  }
+
+  /**
+   * Generate custom entities with specified fields and relationships.
+   * Fields marked `unique` (on the field or its pattern) are redrawn on collision. Records
+   * violating a constraint or repeating a unique key get the fields involved redrawn until
+   * they pass; foreign keys fixed by a cardinality plan or junction rows are never redrawn.
+   * Null and omit rates are applied after the rules are met. A composite primary key is a
+   * unique key and replaces the ID field; a single-field one renames it.
    */
   private generateCustomEntities(
     entityName: string,
+    nextId: IdFactory,
     count: number,
-    fields: string[],
+    fields: Array<string | FieldDefinition>,
     relationships: DatasetSchema['entities'][string]['relationships'],
-    _schema: DatasetSchema
-  ): Record<string, unknown>[] {
-    const entities: Record<string, unknown>[] = [];
+    _schema: DatasetSchema,
+    control: GenerationControl,
+    declaredKeys: string[][] = [],
+    constraints: FieldConstraint[] = [],
+    primaryKey?: string[]
+  ): Promise<Record<string, unknown>[]> {
+    const idField = getIdField({ count, type: EntityType.CUSTOM, primaryKey });
+    const uniqueKeys =
+      primaryKey &&
+      !idField &&
+      !declaredKeys.some((key) => [...key].sort().join() === [...primaryKey].sort().join())
+        ? [...declaredKeys, primaryKey]
+        : declaredKeys;
+    const unique = new UniqueValueTracker(
+      fields
+        .filter(
+          (fieldDef) =>
+            typeof fieldDef !== 'string' && (fieldDef.unique || fieldDef.pattern?.unique)
+        )
+        .map((fieldDef) => (fieldDef as FieldDefinition).name)
+    );
+    const fieldDefs = new Map(
+      fields.map((fieldDef) => [typeof fieldDef === 'string' ? fieldDef : fieldDef.name, fieldDef])
+    );
+    const seenKeys = uniqueKeys.map(() => new Set<string>());
+
+    // Redraws one field of a record that broke a rule; returns false if the field is fixed
+    const redraw = (
+      entity: Record<string, unknown>,
+      id: string | number,
+      field: string
+    ): boolean => {
+      const fieldDef = fieldDefs.get(field);
+      const relationship = relationships?.[field];
+      if (
+        fieldDef === undefined ||
+        (relationship &&
+          (this.plannedForeignKeys.has(relationship) ||
+            (relationship.type === RelationshipType.MANY_TO_MANY && relationship.through)))
+      ) {
+        return false;
+      }
+      entity[field] = this.generateCustomFieldValue(
+        entityName,
+        id,
+        fieldDef,
+        relationships,
+        unique
+      );
+      return true;
+    };
+
+    // Enforces constraints and unique keys by redrawing the fields of the rules a record breaks
+    const enforceRules = (entity: Record<string, unknown>, id: string | number): void => {
+      for (let attempt = 0; ; attempt++) {
+        const violated = constraints.find((constraint) => !satisfiesConstraint(entity, constraint));
+        const keys = uniqueKeys.map((key) => JSON.stringify(key.map((field) => entity[field])));
+        const repeated = keys.findIndex((key, index) => seenKeys[index]?.has(key));
+        if (!violated && repeated === -1) {
+          keys.forEach((key, index) => seenKeys[index]?.add(key));
+          return;
+        }
+
+        const rule = violated
+          ? describeConstraint(violated)
+          : `unique key (${uniqueKeys[repeated]?.join(', ')})`;
+        const involved = violated ? [violated.field, violated.other] : uniqueKeys[repeated];
+        const redrawn = (involved ?? []).filter((field) => redraw(entity, id, field));
+        if (redrawn.length === 0 || attempt + 1 >= MAX_UNIQUE_ATTEMPTS) {
+          throw new ConstraintUnsatisfiedError(entityName, rule);
+        }
+      }
+    };
 
-    for (let i = 0; i < count; i++) {
-      const entity: Record<string, unknown> = {};
+    // Null and omit rates of a field definition take precedence over those of its pattern
+    const sparseFields = fields.flatMap((fieldDef): Array<[string, FieldSparsity]> => {
+      if (typeof fieldDef === 'string' || relationships?.[fieldDef.name]) {
+        return [];
+      }
+      const hasRates = fieldDef.nullRate !== undefined || fieldDef.omitRate !== undefined;
+      const sparsity = hasRates ? fieldDef : fieldDef.pattern;
+      return sparsity ? [[fieldDef.name, sparsity]] : [];
+    });
 
-      // Always include ID
-      entity['id'] = this.idPool.generateEntityId(entityName);
+    return this.batchGenerate(
+      count,
+      () => {
+        const entity: Record<string, unknown> = {};
 
-      // Generate fields
-      for (const field of fields) {
-        // Check if field is a relationship
-        const relationship = relationships?.[field];
+        // Include the ID unless a composite primary key replaces it
+        const id = this.idPool.generateEntityId(entityName, nextId);
+        if (idField) {
+          entity[idField] = id;
+        }
 
-        if (relationship) {
-          // Generate foreign key
-          entity[field] = this.idPool.selectForeignKeyValue(
-            relationship.references,
-            this.faker,
-            relationship.nullable || false
+        // Generate fields (junction-backed links produce no column)
+        for (const fieldDef of fields) {
+          const field = typeof fieldDef === 'string' ? fieldDef : fieldDef.name;
+          const value = this.generateCustomFieldValue(
+            entityName,
+            id,
+            fieldDef,
+            relationships,
+            unique
           );
-        } else {
-          // Generate random field value based on field name
-          entity[field] = this.generateFieldValue(field);
+          if (value !== undefined) {
+            entity[field] = value;
+          }
         }
+
+        if (uniqueKeys.length > 0 || constraints.length > 0) {
+          enforceRules(entity, id);
+        }
+
+        // Null or omit sparse fields last, so rules are checked on complete records
+        for (const [field, sparsity] of sparseFields) {
+          this.applySparsity(entity, field, sparsity);
+        }
+
+        return entity;
+      },
+      control
+    );
+  }
+
+  /**
+   * Generate the value of one custom entity field: a foreign key for relationships,
+   * otherwise from the field's pattern, type or name
+   */
+  private generateCustomFieldValue(
+    entityName: string,
+    id: string | number,
+    fieldDef: string | FieldDefinition,
+    relationships: DatasetSchema['entities'][string]['relationships'],
+    unique: UniqueValueTracker
+  ): unknown {
+    const field = typeof fieldDef === 'string' ? fieldDef : fieldDef.name;
+    const pattern = typeof fieldDef === 'string' ? undefined : fieldDef.pattern;
+    const fieldType = typeof fieldDef === 'string' ? undefined : fieldDef.type;
+
+    // Check if field is a relationship
+    const relationship = relationships?.[field];
+
+    if (relationship) {
+      // Generate foreign key
+      return this.generateRelationshipValue(entityName, id, relationship);
+    } else if (pattern) {
+      // Generate value from the field's custom pattern
+      return unique.next(field, () => this.customGenerator.generateFieldValue(pattern));
+    } else if (fieldType) {
+      // Generate value of the declared type
+      return unique.next(field, () => this.generateTypedFieldValue(field, fieldType));
+    }
+    // Generate random field value based on field name
+    return unique.next(field, () => this.generateFieldValue(field));
+  }
+
+  /**
+   * Generate relationship fields for person and company records
+   */
+  private generateRelationshipFields(
+    entityName: string,
+    ownerId: string | number,
+    relationships: DatasetSchema['entities'][string]['relationships']
+  ): Record<string, unknown> {
+    const fields: Record<string, unknown> = {};
+
+    for (const [field, relationship] of Object.entries(relationships ?? {})) {
+      const value = this.generateRelationshipValue(entityName, ownerId, relationship);
+      if (value !== undefined) {
+        fields[field] = value;
       }
+    }
+
+    return fields;
+  }
+
+  /**
+   * Generate the value of a relationship field.
+   * One-to-many yields a single foreign key (taken from the cardinality plan when one exists);
+   * many-to-many yields an array of distinct
+   * foreign keys, or records junction rows and yields undefined when `through` is set.
+   */
+  private generateRelationshipValue(
+    entityName: string,
+    ownerId: string | number,
+    relationship: RelationshipDefinition
+  ): unknown {
+    if (relationship.type !== RelationshipType.MANY_TO_MANY) {
+      const planned = this.plannedForeignKeys.get(relationship);
+      if (planned) {
+        return planned.pop() ?? null;
+      }
+
+      return this.idPool.selectForeignKeyValue(
+        relationship.references,
+        this.faker,
+        relationship.nullable || false,
+        relationship.nullRate
+      );
+    }
 
-      entities.push(entity);
+    const minLinks = relationship.minLinks ?? 1;
+    const linkedIds = this.idPool.selectManyForeignKeyValues(
+      relationship.references,
+      this.faker,
+      minLinks,
+      relationship.maxLinks ?? Math.max(3, minLinks)
+    );
+
+    if (!relationship.through) {
+      return linkedIds;
+    }
+
+    const { sourceKey, targetKey } = getJunctionKeys(entityName, relationship);
+
+    const links = this.junctions.get(relationship.through) ?? [];
+    for (const linkedId of linkedIds) {
+      links.push({ [sourceKey]: ownerId, [targetKey]: linkedId });
     }
+    this.junctions.set(relationship.through, links);
+
+    return undefined;
+  }
 
-    return entities;
+  /**
+   * Generate a field value of a declared type (string fields still use name heuristics)
+   */
+  private generateTypedFieldValue(fieldName: string, fieldType: FieldType): unknown {
+    switch (fieldType) {
+      case FieldType.INTEGER:
+        return this.faker.number.int({ min: 1, max: 1000 });
+      case FieldType.NUMBER:
+        return parseFloat(
+          this.faker.number.float({ min: 0, max: 1000, multipleOf: 0.01 }).toFixed(2)
+        );
+      case FieldType.BOOLEAN:
+        return this.faker.datatype.boolean();
+      case FieldType.DATE:
+        return this.faker.date.past().toISOString().slice(0, 10);
+      case FieldType.DATETIME:
+        return this.faker.date.past().toISOString();
+      case FieldType.UUID:
+        return this.faker.string.uuid();
+      case FieldType.JSON:
+        // Arrays stay a single column in tabular and SQL exports
+        return this.faker.lorem.words({ min: 1, max: 3 }).split(' ');
+      default: {
+        const value = this.generateFieldValue(fieldName);
+        return typeof value === 'string' ? value : String(value);
+      }
+    }
   }
 
   /**
@@ -311,9 +1053,11 @@ export class DatasetGenerator extends BaseGenerator {
   }
 
   /**
-   * Topological sort of entities based on dependencies
+   * Topological sort of entities based on dependencies.
+   * Parents always precede the entities referencing them, which is also the order
+   * in which exported tables must be created and filled.
    */
-  private topologicalSort(schema: DatasetSchema): string[] {
+  public topologicalSort(schema: DatasetSchema): string[] {
     const graph = new Map<string, string[]>();
     const inDegree = new Map<string, number>();
 
@@ -0,0 +1,446 @@
+import { BaseGenerator, BaseGeneratorOptions, type GenerationControl } from './base-generator.js';
+import type {
+  AccountData,
+  LedgerEntry,
+  LedgerTransactionData,
+  PaymentCard,
+} from '../types/responses.js';
+import { BankCountry, CardNetwork, type IdStrategy } from '../types/schema.js';
+import { ibanCheckDigits, luhnCheckDigit } from '../utils/financial-codes.js';
+import {
+  COUNTRY_CURRENCIES,
+  LOCALE_COUNTRIES,
+  LOCALE_CURRENCIES,
+  minorUnitFactor,
+} from '../utils/money.js';
+import type { IdFactory } from '../utils/id-strategies.js';
+
+/**
+ * Options for controlling bank account generation.
+ *
+ * @interface AccountGenerationOptions
+ * @example
+ * ```typescript
+ * const options: AccountGenerationOptions = {
+ *   country: BankCountry.NL,
+ *   cardNetworks: [CardNetwork.VISA, CardNetwork.MASTERCARD]
+ * };
+ * ```
+ */
+export interface AccountGenerationOptions {
+  /** Country of the banks (defaults to the locale's: GB, FR, DE, ES or JP) */
+  country?: BankCountry;
+  /** ISO 4217 currency code of balances (defaults to the country's currency) */
+  currency?: string;
+  /** Whether to include a payment card (defaults to true) */
+  includeCard?: boolean;
+  /** Networks that cards are drawn from (defaults to all) */
+  cardNetworks?: CardNetwork[];
+  /** How record IDs are generated (defaults to `account_{seed}_{index}`) */
+  idStrategy?: IdStrategy;
+}
+
+/**
+ * Options for controlling ledger transaction generation.
+ *
+ * @interface LedgerGenerationOptions
+ */
+export interface LedgerGenerationOptions {
+  /** ISO 4217 currency code of amounts (defaults to the currency of the locale's bank country, as for accounts) */
+  currency?: string;
+  /** How record IDs are generated (defaults to `transaction_{seed}_{index}`) */
+  idStrategy?: IdStrategy;
+}
+
+/**
+ * Leading digits and length of the card numbers of each network
+ */
+const CARD_FORMATS: Record<CardNetwork, { prefixes: string[]; length: number }> = {
+  [CardNetwork.VISA]: { prefixes: ['4'], length: 16 },
+  [CardNetwork.MASTERCARD]: {
+    prefixes: ['51', '52', '53', '54', '55', '2221', '2720'],
+    length: 16,
+  },
+  [CardNetwork.AMEX]: { prefixes: ['34', '37'], length: 15 },
+  [CardNetwork.DISCOVER]: { prefixes: ['6011', '65'], length: 16 },
+};
+
+/**
+ * Chart of accounts that ledger entries post to
+ */
+const CHART_OF_ACCOUNTS: Record<string, string> = {
+  '1000': 'Cash',
+  '1100': 'Accounts Receivable',
+  '1200': 'Inventory',
+  '1500': 'Equipment',
+  '2000': 'Accounts Payable',
+  '2100': 'Sales Tax Payable',
+  '2200': 'Payroll Liabilities',
+  '2500': 'Loans Payable',
+  '4000': 'Sales Revenue',
+  '4100': 'Service Revenue',
+  '6000': 'Salaries Expense',
+  '6100': 'Rent Expense',
+  '6200': 'Utilities Expense',
+  '6300': 'Interest Expense',
+  '6400': 'Office Supplies Expense',
+};
+
+/**
+ * Kinds of transactions: the accounts debited and credited. The first account of each side
+ * takes the bulk of the amount and the others a smaller share (e.g. sales tax).
+ */
+const TRANSACTION_TEMPLATES: Array<{ description: string; debits: string[]; credits: string[] }> = [
+  { description: 'Cash sale', debits: ['1000'], credits: ['4000', '2100'] },
+  { description: 'Customer invoice', debits: ['1100'], credits: ['4000', '2100'] },
+  { description: 'Customer payment received', debits: ['1000'], credits: ['1100'] },
+  { description: 'Service invoice', debits: ['1100'], credits: ['4100'] },
+  { description: 'Supplier invoice', debits: ['1200'], credits: ['2000'] },
+  { description: 'Supplier payment', debits: ['2000'], credits: ['1000'] },
+  { description: 'Payroll', debits: ['6000'], credits: ['1000', '2200'] },
+  { description: 'Monthly rent', debits: ['6100'], credits: ['1000'] },
+  { description: 'Utilities bill', debits: ['6200'], credits: ['2000'] },
+  { description: 'Loan repayment', debits: ['2500', '6300'], credits: ['1000'] },
+  { description: 'Equipment purchase', debits: ['1500'], credits: ['1000', '2500'] },
+  { description: 'Office supplies', debits: ['6400'], credits: ['1000'] },
+];
+
+/**
+ * Generator for financial test data: bank accounts and double-entry ledger transactions.
+ * Accounts carry IBANs with valid check digits in the format of the locale's country, BIC
+ * codes and Luhn-valid test card numbers by network; ledger transactions balance their
+ * debits and credits exactly in the currency's minor unit.
+ * Supports multiple locales and reproducible generation via seeds.
+ *
+ * @class FinancialGenerator
+ * @extends BaseGenerator
+ * @example
+ * ```typescript
+ * const generator = new FinancialGenerator({ locale: SupportedLocale.DE, seed: 12345 });
+ *
+ * const accounts = await generator.generateAccounts(10); // German IBANs
+ * const transactions = await generator.generateTransactions(100);
+ * ```
+ */
+export class FinancialGenerator extends BaseGenerator {
+  /**
+   * Creates a new FinancialGenerator instance.
+   *
+   * @constructor
+   * @param {BaseGeneratorOptions} [options={}] - Generator configuration options
+   */
+  constructor(options: BaseGeneratorOptions = {}) {
+    super(options);
+  }
+
+  /**
+   * Generates a single bank account record.
+   *
+   * @param {AccountGenerationOptions} [options={}] - Country, currency and card options
+   * @returns {AccountData} A bank account data object
+   * @example
+   * ```typescript
+   * const account = generator.generateAccount({ country: BankCountry.FR });
+   * // Returns: { id: 'account_12345_0', holder: 'Camille Roux', country: 'FR',
+   * //   iban: 'FR7630006000011234567890189', bic: 'BNPAFRPP', ... }
+   * ```
+   */
+  public generateAccount(options: AccountGenerationOptions = {}): AccountData {
+    return this.buildAccount(0, options, this.createIdFactory('account', options.idStrategy));
+  }
+
+  /**
+   * Generates multiple bank account records efficiently.
+   * Records are generated in batches that report progress and can be cancelled.
+   *
+   * @async
+   * @param {number} count - Number of account records to generate
+   * @param {AccountGenerationOptions} [options={}] - Country, currency and card options
+   * @param {GenerationControl} [control] - Progress callback and cancellation signal
+   * @returns {Promise<AccountData[]>} Array of bank account data objects
+   * @throws {Error} If the generation is cancelled
+   */
+  public generateAccounts(
+    count: number,
+    options: AccountGenerationOptions = {},
+    control?: GenerationControl
+  ): Promise<AccountData[]> {
+    const nextId = this.createIdFactory('account', options.idStrategy);
+    return this.batchGenerate(count, (index) => this.buildAccount(index, options, nextId), control);
+  }
+
+  /**
+   * Lazily generates bank account records one at a time, for counts too large to hold in
+   * memory. Yields exactly the same records as `generateAccounts` for the same seed and options.
+   *
+   * @param {number} count - Number of account records to generate
+   * @param {AccountGenerationOptions} [options={}] - Country, currency and card options
+   * @returns {Generator<AccountData>} Iterator over the generated records
+   */
+  public streamAccounts(
+    count: number,
+    options: AccountGenerationOptions = {}
+  ): Generator<AccountData> {
+    const nextId = this.createIdFactory('account', options.idStrategy);
+    return this.streamGenerate(count, (index) => this.buildAccount(index, options, nextId));
+  }
+
+  /**
+   * Generates a single ledger transaction.
+   *
+   * @param {LedgerGenerationOptions} [options={}] - Currency and ID options
+   * @returns {LedgerTransactionData} A balanced ledger transaction
+   */
+  public generateTransaction(options: LedgerGenerationOptions = {}): LedgerTransactionData {
+    return this.buildTransaction(
+      0,
+      options,
+      this.createIdFactory('transaction', options.idStrategy)
+    );
+  }
+
+  /**
+   * Generates multiple ledger transactions efficiently.
+   * Records are generated in batches that report progress and can be cancelled.
+   *
+   * @async
+   * @param {number} count - Number of transactions to generate
+   * @param {LedgerGenerationOptions} [options={}] - Currency and ID options
+   * @param {GenerationControl} [control] - Progress callback and cancellation signal
+   * @returns {Promise<LedgerTransactionData[]>} Array of balanced ledger transactions
+   * @throws {Error} If the generation is cancelled
+   * @example
+   * ```typescript
+   * const transactions = await generator.generateTransactions(500, { currency: 'EUR' });
+   * ```
+   */
+  public generateTransactions(
+    count: number,
+    options: LedgerGenerationOptions = {},
+    control?: GenerationControl
+  ): Promise<LedgerTransactionData[]> {
+    const nextId = this.createIdFactory('transaction', options.idStrategy);
+    return this.batchGenerate(
+      count,
+      (index) => this.buildTransaction(index, options, nextId),
+      control
+    );
+  }
+
+  /**
+   * Lazily generates ledger transactions one at a time, for counts too large to hold in
+   * memory. Yields exactly the same records as `generateTransactions` for the same seed and
+   * options.
+   *
+   * @param {number} count - Number of transactions to generate
+   * @param {LedgerGenerationOptions} [options={}] - Currency and ID options
+   * @returns {Generator<LedgerTransactionData>} Iterator over the generated records
+   */
+  public streamTransactions(
+    count: number,
+    options: LedgerGenerationOptions = {}
+  ): Generator<LedgerTransactionData> {
+    const nextId = this.createIdFactory('transaction', options.idStrategy);
+    return this.streamGenerate(count, (index) => this.buildTransaction(index, options, nextId));
+  }
+
+  /**
+   * Builds the bank account record at the given index.
+   *
+   * @private
+   * @param {number} index - Index of the record (used in the ID)
+   * @param {AccountGenerationOptions} options - Country, currency and card options
+   * @param {IdFactory} nextId - Produces the record's ID from its index
+   * @returns {AccountData} A bank account data object
+   */
+  private buildAccount(
+    index: number,
+    options: AccountGenerationOptions,
+    nextId: IdFactory
+  ): AccountData {
+    const {
+      country = LOCALE_COUNTRIES[this.locale],
+      currency = COUNTRY_CURRENCIES[country],
+      includeCard = true,
+      cardNetworks = Object.values(CardNetwork),
+    } = options;
+
+    const holder = this.faker.person.fullName();
+    const { bankCode, bban, accountNumber } = this.buildBban(country);
+    const location = this.faker.string.fromCharacters('ABCDEFGHJKLMNPQRSTUVWXYZ23456789', 2);
+    const factor = minorUnitFactor(currency);
+    const balance = Math.round(this.faker.number.float({ min: -500, max: 25000 }) * factor);
+
+    const account: AccountData = {
+      id: nextId(index),
+      holder,
+      country,
+      iban: bban ? `${country}${ibanCheckDigits(country, bban)}${bban}` : null,
+      bic: `${bankCode}${country}${location}`,
+      accountNumber,
+      currency,
+      balance: balance / factor,
+    };
+
+    if (includeCard) {
+      account.card = this.buildCard(this.faker.helpers.arrayElement(cardNetworks));
+    }
+
+    return account;
+  }
+
+  /**
+   * Draws the domestic account details of a country: the letters used as BIC bank code, the
+   * BBAN that the IBAN wraps (null where IBANs are not used) and the account number.
+   *
+   * @private
+   * @param {BankCountry} country - Country of the bank
+   * @returns {Object} Bank code, BBAN and account number
+   */
+  private buildBban(country: BankCountry): {
+    bankCode: string;
+    bban: string | null;
+    accountNumber: string;
+  } {
+    const { string } = this.faker;
+    const digits = (length: number) => string.numeric({ length, allowLeadingZeros: true });
+    const letters = () => string.alpha({ length: 4, casing: 'upper' });
+
+    switch (country) {
+      case BankCountry.GB: {
+        // Bank code, sort code and account number; the bank code doubles as BIC bank code
+        const bankCode = letters();
+        const accountNumber = digits(8);
+        return { bankCode, bban: `${bankCode}${digits(6)}${accountNumber}`, accountNumber };
+      }
+      case BankCountry.NL: {
+        const bankCode = letters();
+        const accountNumber = digits(10);
+        return { bankCode, bban: `${bankCode}${accountNumber}`, accountNumber };
+      }
+      case BankCountry.DE: {
+        // Bankleitzahl (never starting with 0) and account number
+        const blz = `${string.numeric({ length: 1, exclude: ['0', '9'] })}${digits(7)}`;
+        const accountNumber = digits(10);
+        return { bankCode: letters(), bban: `${blz}${accountNumber}`, accountNumber };
+      }
+      case BankCountry.FR: {
+        // Bank, branch and account numbers, then the RIB key: 97 - (89 b + 15 g + 3 a) mod 97
+        const bank = digits(5);
+        const branch = digits(5);
+        const accountNumber = digits(11);
+        const key =
+          97 - ((89 * Number(bank) + 15 * Number(branch) + 3 * Number(accountNumber)) % 97);
+        return {
+          bankCode: letters(),
+          bban: `${bank}${branch}${accountNumber}${String(key).padStart(2, '0')}`,
+          accountNumber,
+        };
+      }
+      case BankCountry.ES: {
+        // Bank and branch, two control digits (one over each half) and account number
+        const bank = digits(4);
+        const branch = digits(4);
+        const accountNumber = digits(10);
+        const control = (value: string) => {
+          const weights = [1, 2, 4, 8, 5, 10, 9, 7, 3, 6];
+          const sum = [...value].reduce(
+            (acc, digit, i) => acc + Number(digit) * (weights[i] ?? 0),
+            0
+          );
+          const digit = 11 - (sum % 11);
+          return digit === 11 ? 0 : digit === 10 ? 1 : digit;
+        };
+        const controlDigits = `${control(`00${bank}${branch}`)}${control(accountNumber)}`;
+        return {
+          bankCode: letters(),
+          bban: `${bank}${branch}${controlDigits}${accountNumber}`,
+          accountNumber,
+        };
+      }
+      case BankCountry.JP:
+        return { bankCode: letters(), bban: null, accountNumber: digits(7) };
+    }
+  }
+
+  /**
+   * Draws a test card of a network: a Luhn-valid number with one of the network's prefixes,
+   * an expiry one to five years after the reference date and a CVV.
+   *
+   * @private
+   * @param {CardNetwork} network - Card network
+   * @returns {PaymentCard} The card
+   */
+  private buildCard(network: CardNetwork): PaymentCard {
+    const { prefixes, length } = CARD_FORMATS[network];
+    const prefix = this.faker.helpers.arrayElement(prefixes);
+    const payload =
+      prefix +
+      this.faker.string.numeric({ length: length - prefix.length - 1, allowLeadingZeros: true });
+    const month = this.faker.number.int({ min: 1, max: 12 });
+    const year = this.referenceDate.getUTCFullYear() + this.faker.number.int({ min: 1, max: 5 });
+
+    return {
+      number: `${payload}${luhnCheckDigit(payload)}`,
+      network,
+      expiry: `${String(month).padStart(2, '0')}/${String(year % 100).padStart(2, '0')}`,
+      cvv: this.faker.string.numeric({
+        length: network === CardNetwork.AMEX ? 4 : 3,
+        allowLeadingZeros: true,
+      }),
+    };
+  }
+
+  /**
+   * Builds the ledger transaction at the given index. The amount is split across the accounts
+   * of each side in minor units, so the debits and credits balance exactly.
+   *
+   * @private
+   * @param {number} index - Index of the record (used in the ID and journal reference)
+   * @param {LedgerGenerationOptions} options - Currency and ID options
+   * @param {IdFactory} nextId - Produces the record's ID from its index
+   * @returns {LedgerTransactionData} A balanced ledger transaction
+   */
+  private buildTransaction(
+    index: number,
+    options: LedgerGenerationOptions,
+    nextId: IdFactory
+  ): LedgerTransactionData {
+    const { currency = LOCALE_CURRENCIES[this.locale] } = options;
+    const factor = minorUnitFactor(currency);
+
+    const template = this.faker.helpers.arrayElement(TRANSACTION_TEMPLATES);
+    const amount = Math.round(this.faker.number.float({ min: 10, max: 10000 }) * factor);
+    const age = this.faker.number.int({ min: 0, max: 365 * 24 * 3600 });
+    const postedAt = new Date(Math.floor(this.referenceDate.getTime() / 1000 - age) * 1000);
+
+    // The first account of a side takes what the others leave
+    const split = (accounts: string[]): number[] => {
+      const shares = accounts
+        .slice(1)
+        .map(() => Math.round(amount * this.faker.number.float({ min: 0.05, max: 0.25 })));
+      return [amount - shares.reduce((sum, share) => sum + share, 0), ...shares];
+    };
+    const entry = (account: string, debit: number, credit: number): LedgerEntry => ({
+      account,
+      accountName: CHART_OF_ACCOUNTS[account] ?? account,
+      debit: debit / factor,
+      credit: credit / factor,
+    });
+    const debits = split(template.debits);
+    const credits = split(template.credits);
+
+    return {
+      id: nextId(index),
+      reference: `JE-${String(index + 1).padStart(6, '0')}`,
+      postedAt: postedAt.toISOString(),
+      description: template.description,
+      currency,
+      entries: [
+        ...template.debits.map((account, i) => entry(account, debits[i] ?? 0, 0)),
+        ...template.credits.map((account, i) => entry(account, 0, credits[i] ?? 0)),
+      ],
+      amount: amount / factor,
+    };
+  }
+}
@@ -0,0 +1,705 @@
+import {
+  BaseGenerator,
+  type BaseGeneratorOptions,
+  type GenerationControl,
+} from './base-generator.js';
+import { CustomGenerator } from './custom-generator.js';
+import type { JsonSchema, JsonSchemaType } from '../types/schema.js';
+import { matchesSchema, resolveLocalRef } from '../utils/json-schema-match.js';
+
+/**
+ * Nesting depth from which optional properties are left out and arrays use their minimum
+ * length, so recursive schemas (trees, linked lists) terminate.
+ */
+const OPTIONAL_DEPTH_LIMIT = 5;
+
+/**
+ * Nesting depth at which generation fails; only reached by required recursion.
+ */
+const MAX_DEPTH = 32;
+
+/**
+ * Draws of a formatted string before one is built to fit its length bounds.
+ */
+const MAX_FORMAT_ATTEMPTS = 10;
+
+/**
+ * Draws of a pattern string before giving up on fitting it to its length bounds.
+ */
+const MAX_PATTERN_ATTEMPTS = 100;
+
+/**
+ * Draws of a oneOf value before giving up on one that matches exactly one alternative.
+ */
+const MAX_ONE_OF_ATTEMPTS = 20;
+
+/**
+ * Shortest and longest string that can be built for the formats of variable length
+ */
+const FORMAT_LENGTHS: Record<string, [number, number]> = {
+  email: [6, 254],
+  uri: [12, 2048],
+  url: [12, 2048],
+  hostname: [1, 253],
+  ipv4: [7, 15],
+};
+
+/**
+ * Attempts to draw a distinct item for arrays with `uniqueItems` before giving up.
+ */
+const UNIQUE_ITEM_ATTEMPTS = 50;
+
+/**
+ * JSON Schema generation options
+ */
+export interface JsonSchemaGenerationOptions {
+  /** Schema every record must conform to */
+  schema: JsonSchema;
+  /** Whether optional (non-required) properties are generated (defaults to true) */
+  includeOptional?: boolean;
+  /** Document that `$ref`s are resolved against, e.g. an OpenAPI document (defaults to schema) */
+  root?: object;
+}
+
+/**
+ * Generator for records conforming to a JSON Schema document.
+ * Supports type, format, enum, const, pattern, numeric and length bounds, required,
+ * additionalProperties, nested objects and arrays, local $ref, allOf, anyOf and oneOf.
+ */
+export class JsonSchemaGenerator extends BaseGenerator {
+  private customGenerator: CustomGenerator;
+
+  constructor(options: BaseGeneratorOptions = {}) {
+    super(options);
+    // Patterns reuse the seeded RandExp integration of CustomGenerator
+    this.customGenerator = new CustomGenerator({
+      ...options,
+      seed: this.seed,
+      referenceDate: this.referenceDate,
+    });
+  }
+
+  /**
+   * Generate a single record
+   */
+  public generate(options: JsonSchemaGenerationOptions): unknown {
+    return this.generateValue(options.schema, options, 0);
+  }
+
+  /**
+   * Generate multiple records in cancellable batches
+   */
+  public generateMany(
+    count: number,
+    options: JsonSchemaGenerationOptions,
+    control?: GenerationControl
+  ): Promise<unknown[]> {
+    return this.batchGenerate(count, () => this.generateValue(options.schema, options, 0), control);
+  }
+
+  /**
+   * Generate a value for a (sub-)schema
+   */
+  private generateValue(
+    schema: JsonSchema,
+    options: JsonSchemaGenerationOptions,
+    depth: number
+  ): unknown {
+    if (depth > MAX_DEPTH) {
+      throw new Error(
+        `Schema nesting exceeds ${MAX_DEPTH} levels; make recursive properties optional`
+      );
+    }
+
+    const resolved = this.resolveSchema(schema, options.root ?? options.schema);
+
+    if (resolved.oneOf !== undefined) {
+      return this.generateOneOf(resolved, resolved.oneOf, options, depth);
+    }
+
+    if (resolved.const !== undefined) {
+      return structuredClone(resolved.const);
+    }
+
+    if (resolved.enum !== undefined) {
+      if (resolved.enum.length === 0) {
+        throw new Error('enum must have at least one value');
+      }
+      return structuredClone(this.faker.helpers.arrayElement(resolved.enum));
+    }
+
+    switch (this.selectType(resolved)) {
+      case 'object':
+        return this.generateObject(resolved, options, depth);
+      case 'array':
+        return this.generateArray(resolved, options, depth);
+      case 'integer':
+        return this.generateNumber(resolved, true);
+      case 'number':
+        return this.generateNumber(resolved, false);
+      case 'boolean':
+        return this.faker.datatype.boolean();
+      case 'null':
+        return null;
+      default:
+        return this.generateString(resolved);
+    }
+  }
+
+  /**
+   * Resolve $ref, allOf and anyOf into a single schema. `oneOf` is kept, as its value must be
+   * checked against every alternative.
+   */
+  private resolveSchema(schema: JsonSchema, root: object): JsonSchema {
+    let resolved = schema;
+
+    if (resolved.$ref !== undefined) {
+      const { $ref, ...siblings } = resolved;
+      resolved = { ...resolveLocalRef($ref, root), ...siblings };
+      return this.resolveSchema(resolved, root);
+    }
+
+    if (resolved.allOf !== undefined) {
+      const { allOf, ...rest } = resolved;
+      resolved = allOf.reduce<JsonSchema>(
+        (merged, part) => mergeSchemas(merged, this.resolveSchema(part, root)),
+        rest
+      );
+    }
+
+    if (resolved.anyOf !== undefined) {
+      const { anyOf, ...rest } = resolved;
+      if (anyOf.length === 0) {
+        throw new Error('anyOf must have at least one schema');
+      }
+      const choice = this.faker.helpers.arrayElement(anyOf);
+      resolved = mergeSchemas(rest, this.resolveSchema(choice, root));
+    }
+
+    return resolved;
+  }
+
+  /**
+   * Generate a value from a random oneOf alternative, redrawing until the value matches
+   * exactly one alternative (and the rest of the schema)
+   */
+  private generateOneOf(
+    schema: JsonSchema,
+    oneOf: JsonSchema[],
+    options: JsonSchemaGenerationOptions,
+    depth: number
+  ): unknown {
+    if (oneOf.length === 0) {
+      throw new Error('oneOf must have at least one schema');
+    }
+
+    const root = options.root ?? options.schema;
+    const rest: JsonSchema = { ...schema };
+    delete rest.oneOf;
+
+    for (let attempt = 0; attempt < MAX_ONE_OF_ATTEMPTS; attempt++) {
+      const choice = this.faker.helpers.arrayElement(oneOf);
+      const value = this.generateValue(
+        mergeSchemas(rest, this.resolveSchema(choice, root)),
+        options,
+        depth
+      );
+      if (matchesSchema(value, schema, root)) {
+        return value;
+      }
+    }
+
+    throw new Error(`No value matching exactly one of the ${oneOf.length} oneOf schemas was found`);
+  }
+
+  /**
+   * Select the type to generate, inferring it from keywords when `type` is absent.
+   * `null` is only produced when it is the only allowed type.
+   */
+  private selectType(schema: JsonSchema): JsonSchemaType {
+    if (Array.isArray(schema.type)) {
+      const types = schema.type.filter((type) => type !== 'null');
+      return types.length > 0 ? this.faker.helpers.arrayElement(types) : 'null';
+    }
+    if (schema.type !== undefined) {
+      return schema.type;
+    }
+    if (
+      schema.properties !== undefined ||
+      schema.required !== undefined ||
+      schema.additionalProperties !== undefined
+    ) {
+      return 'object';
+    }
+    if (schema.items !== undefined || schema.prefixItems !== undefined) {
+      return 'array';
+    }
+    if (schema.minimum !== undefined || schema.maximum !== undefined) {
+      return 'number';
+    }
+    return 'string';
+  }
+
+  /**
+   * Generate an object with all required and, unless disabled or too deep, optional properties
+   */
+  private generateObject(
+    schema: JsonSchema,
+    options: JsonSchemaGenerationOptions,
+    depth: number
+  ): Record<string, unknown> {
+    const required = new Set(schema.required ?? []);
+    const includeOptional = options.includeOptional !== false && depth < OPTIONAL_DEPTH_LIMIT;
+    const record: Record<string, unknown> = {};
+
+    for (const [name, property] of Object.entries(schema.properties ?? {})) {
+      if (required.has(name) || includeOptional) {
+        record[name] = this.generateValue(property, options, depth + 1);
+      }
+    }
+
+    // Required properties without a definition follow additionalProperties
+    for (const name of required) {
+      if (name in record) {
+        continue;
+      }
+      const additional = schema.additionalProperties;
+      if (additional === false) {
+        throw new Error(
+          `Required property ${name} is not defined in properties and additionalProperties is false`
+        );
+      }
+      record[name] =
+        typeof additional === 'object'
+          ? this.generateValue(additional, options, depth + 1)
+          : this.faker.lorem.word();
+    }
+
+    return record;
+  }
+
+  /**
+   * Generate an array honoring tuple items, minItems/maxItems and uniqueItems
+   */
+  private generateArray(
+    schema: JsonSchema,
+    options: JsonSchemaGenerationOptions,
+    depth: number
+  ): unknown[] {
+    const tuple = schema.prefixItems ?? (Array.isArray(schema.items) ? schema.items : []);
+    const itemSchema = Array.isArray(schema.items) ? undefined : schema.items;
+    const deep = depth >= OPTIONAL_DEPTH_LIMIT;
+
+    const min = schema.minItems ?? (deep ? 0 : Math.min(1, schema.maxItems ?? 1));
+    const max = schema.maxItems ?? (deep ? min : Math.max(min, 3));
+    if (min > max) {
+      throw new Error(
+        `Invalid array: minItems (${min}) must be less than or equal to maxItems (${max})`
+      );
+    }
+
+    const length = Math.max(this.faker.number.int({ min, max }), Math.min(tuple.length, max));
+    const items: unknown[] = [];
+    const seen = new Set<string>();
+
+    for (let index = 0; index < length; index++) {
+      const item = tuple[index] ?? itemSchema ?? {};
+
+      for (let attempt = 0; ; attempt++) {
+        const value = this.generateValue(item, options, depth + 1);
+        const key = JSON.stringify(value);
+        if (!schema.uniqueItems || !seen.has(key)) {
+          seen.add(key);
+          items.push(value);
+          break;
+        }
+        if (attempt >= UNIQUE_ITEM_ATTEMPTS) {
+          if (index >= min) {
+            return items;
+          }
+          throw new Error(`Cannot generate ${min} unique array items from the item schema`);
+        }
+      }
+    }
+
+    return items;
+  }
+
+  /**
+   * Generate a number within minimum/maximum (inclusive or exclusive) as a multiple of
+   * `multipleOf` (1 for integers, 0.01 for numbers by default)
+   */
+  private generateNumber(schema: JsonSchema, integer: boolean): number {
+    const step = schema.multipleOf ?? (integer ? 1 : 0.01);
+    if (step <= 0) {
+      throw new Error(`multipleOf must be greater than 0, got ${step}`);
+    }
+
+    let lower = schema.minimum;
+    let upper = schema.maximum;
+    let lowerExclusive = schema.exclusiveMinimum === true;
+    let upperExclusive = schema.exclusiveMaximum === true;
+
+    if (typeof schema.exclusiveMinimum === 'number') {
+      if (lower === undefined || schema.exclusiveMinimum >= lower) {
+        lower = schema.exclusiveMinimum;
+        lowerExclusive = true;
+      }
+    }
+    if (typeof schema.exclusiveMaximum === 'number') {
+      if (upper === undefined || schema.exclusiveMaximum <= upper) {
+        upper = schema.exclusiveMaximum;
+        upperExclusive = true;
+      }
+    }
+
+    lower ??= upper !== undefined && upper < 0 ? upper - 1000 : 0;
+    upper ??= lower + 1000;
+
+    // Pick a multiple of the step: integers need integral multiples, numbers any multiple
+    const unit = integer ? lcmWithOne(step) : step;
+    let first = Math.ceil(lower / unit);
+    let last = Math.floor(upper / unit);
+    if (lowerExclusive && first * unit <= lower) first++;
+    if (upperExclusive && last * unit >= upper) last--;
+
+    if (first > last) {
+      throw new Error(
+        `No ${integer ? 'integer' : 'number'} multiple of ${step} between ${lower} and ${upper}`
+      );
+    }
+
+    const value = this.faker.number.int({ min: first, max: last }) * unit;
+    return parseFloat(value.toFixed(decimalPlaces(unit)));
+  }
+
+  /**
+   * Generate a string from `format`, `pattern` or lorem words fitted to minLength/maxLength
+   */
+  private generateString(schema: JsonSchema): string {
+    const minLength = schema.minLength ?? 0;
+    const maxLength = schema.maxLength ?? Math.max(minLength, 50);
+    if (minLength > maxLength) {
+      throw new Error(
+        `Invalid string: minLength (${minLength}) must be less than or equal to maxLength (${maxLength})`
+      );
+    }
+
+    if (schema.format !== undefined) {
+      const formatted = this.generateFormattedString(schema.format, schema, minLength, maxLength);
+      if (formatted !== undefined) {
+        return formatted;
+      }
+    }
+
+    if (schema.pattern !== undefined) {
+      return this.generatePatternString(schema.pattern, schema, minLength, maxLength);
+    }
+
+    let text = this.faker.lorem.words({ min: 1, max: 3 });
+    while (text.length < minLength) {
+      text += ` ${this.faker.lorem.word()}`;
+    }
+    return text.slice(0, maxLength);
+  }
+
+  /**
+   * Generate a string matching a pattern within the length bounds. Unbounded quantifiers
+   * repeat at most maxLength times and values outside the bounds are redrawn.
+   */
+  private generatePatternString(
+    pattern: string,
+    schema: JsonSchema,
+    minLength: number,
+    maxLength: number
+  ): string {
+    for (let attempt = 0; attempt < MAX_PATTERN_ATTEMPTS; attempt++) {
+      const value = this.customGenerator.generateRegexPattern(pattern, schema.maxLength);
+      if (
+        value.length >= minLength &&
+        (schema.maxLength === undefined || value.length <= maxLength)
+      ) {
+        return value;
+      }
+    }
+    throw new Error(
+      `No string matching ${pattern} with a length ${
+        schema.maxLength === undefined
+          ? `of at least ${minLength}`
+          : `between ${minLength} and ${maxLength}`
+      } was found`
+    );
+  }
+
+  /**
+   * Generate a string of a known format within the length bounds, or undefined for unknown
+   * formats. Values outside the bounds are redrawn; emails, URIs, hostnames and IPv4
+   * addresses that still do not fit are built to a length within the bounds.
+   */
+  private generateFormattedString(
+    format: string,
+    schema: JsonSchema,
+    minLength: number,
+    maxLength: number
+  ): string | undefined {
+    const fits = (value: string) =>
+      value.length >= minLength && (schema.maxLength === undefined || value.length <= maxLength);
+
+    for (let attempt = 0; attempt < MAX_FORMAT_ATTEMPTS; attempt++) {
+      const value = this.generateFormat(format);
+      if (value === undefined || fits(value)) {
+        return value;
+      }
+    }
+
+    // Only formats with a length range can be built to size; the others cannot fit
+    const [shortest, longest] = FORMAT_LENGTHS[format] ?? [Infinity, 0];
+    const length = Math.max(minLength, shortest);
+    if (length > maxLength || length > longest) {
+      throw new Error(`No ${format} string has a length between ${minLength} and ${maxLength}`);
+    }
+
+    const letters = (count: number) => this.faker.string.alpha({ length: count, casing: 'lower' });
+    if (format === 'email') {
+      const domain = length >= 17 ? 'example.com' : 'b.co';
+      return `${letters(length - domain.length - 1)}@${domain}`;
+    }
+    if (format === 'hostname') {
+      // Labels are at most 63 characters long
+      return Array.from(letters(length), (letter, index) =>
+        index % 64 === 63 ? '.' : letter
+      ).join('');
+    }
+    if (format === 'ipv4') {
+      // Spread the digits over the four octets, e.g. 9 digits as 3.2.2.2
+      return [0, 1, 2, 3]
+        .map((octet) => {
+          const digits = Math.floor((length - 3) / 4) + (octet < (length - 3) % 4 ? 1 : 0);
+          return this.faker.number.int({
+            min: digits === 1 ? 0 : 10 ** (digits - 1),
+            max: Math.min(255, 10 ** digits - 1),
+          });
+        })
+        .join('.');
+    }
+    const base = length >= 19 ? 'https://example.com' : 'https://b.co';
+    return length > base.length ? `${base}/${letters(length - base.length - 1)}` : base;
+  }
+
+  /**
+   * Generate a string for a known format, or undefined for unknown formats
+   */
+  private generateFormat(format: string): string | undefined {
+    switch (format) {
+      case 'email':
+        return this.faker.internet.email().toLowerCase();
+      case 'uri':
+      case 'url':
+        return this.faker.internet.url();
+      case 'date-time':
+        return this.faker.date.past().toISOString();
+      case 'date':
+        return this.faker.date.past().toISOString().slice(0, 10);
+      case 'time':
+        return this.faker.date.past().toISOString().slice(11);
+      case 'uuid':
+        return this.faker.string.uuid();
+      case 'hostname':
+        return this.faker.internet.domainName();
+      case 'ipv4':
+        return this.faker.internet.ipv4();
+      case 'ipv6':
+        return this.faker.internet.ipv6();
+      default:
+        return undefined;
+    }
+  }
+}
+
+/**
+ * Merge two schemas that both apply (allOf, or a schema and its chosen alternative): bounds
+ * keep their tightest value, types and enums are intersected, required lists are combined and
+ * properties or items defined on both sides must match both.
+ */
+function mergeSchemas(base: JsonSchema, extra: JsonSchema): JsonSchema {
+  const left = normalizeExclusiveBounds(base);
+  const right = normalizeExclusiveBounds(extra);
+  const merged: JsonSchema = { ...left, ...right };
+
+  for (const key of ['minimum', 'minLength', 'minItems'] as const) {
+    merged[key] = tightest(left[key], right[key], Math.max);
+  }
+  for (const key of ['maximum', 'maxLength', 'maxItems'] as const) {
+    merged[key] = tightest(left[key], right[key], Math.min);
+  }
+  merged.exclusiveMinimum = tightest(
+    left.exclusiveMinimum as number | undefined,
+    right.exclusiveMinimum as number | undefined,
+    Math.max
+  );
+  merged.exclusiveMaximum = tightest(
+    left.exclusiveMaximum as number | undefined,
+    right.exclusiveMaximum as number | undefined,
+    Math.min
+  );
+  merged.multipleOf = tightest(left.multipleOf, right.multipleOf, lcm);
+  merged.uniqueItems = left.uniqueItems === true || right.uniqueItems === true || undefined;
+
+  if (left.type !== undefined && right.type !== undefined) {
+    merged.type = intersectTypes(left.type, right.type);
+  }
+
+  if (left.const !== undefined && right.const !== undefined) {
+    if (JSON.stringify(left.const) !== JSON.stringify(right.const)) {
+      throw new Error(
+        `allOf schemas require different constants: ${JSON.stringify(left.const)} and ${JSON.stringify(right.const)}`
+      );
+    }
+  }
+  if (left.enum !== undefined && right.enum !== undefined) {
+    const allowed = new Set(right.enum.map((value) => JSON.stringify(value)));
+    merged.enum = left.enum.filter((value) => allowed.has(JSON.stringify(value)));
+    if (merged.enum.length === 0) {
+      throw new Error('allOf schemas have no enum value in common');
+    }
+  }
+
+  if (left.required !== undefined || right.required !== undefined) {
+    merged.required = [...new Set([...(left.required ?? []), ...(right.required ?? [])])];
+  }
+  if (left.properties !== undefined || right.properties !== undefined) {
+    merged.properties = { ...left.properties, ...right.properties };
+    for (const [name, property] of Object.entries(left.properties ?? {})) {
+      const other = right.properties?.[name];
+      if (other !== undefined) {
+        merged.properties[name] = { allOf: [property, other] };
+      }
+    }
+  }
+  if (left.additionalProperties === false || right.additionalProperties === false) {
+    merged.additionalProperties = false;
+  } else if (
+    typeof left.additionalProperties === 'object' &&
+    typeof right.additionalProperties === 'object'
+  ) {
+    merged.additionalProperties = {
+      allOf: [left.additionalProperties, right.additionalProperties],
+    };
+  }
+  if (isItemSchema(left.items) && isItemSchema(right.items)) {
+    merged.items = { allOf: [left.items, right.items] };
+  }
+
+  // A second oneOf must hold as well; it is resolved once the first one is chosen
+  if (left.oneOf !== undefined && right.oneOf !== undefined) {
+    merged.oneOf = left.oneOf;
+    merged.allOf = [...(left.allOf ?? []), ...(right.allOf ?? []), { oneOf: right.oneOf }];
+  } else if (left.allOf !== undefined && right.allOf !== undefined) {
+    merged.allOf = [...left.allOf, ...right.allOf];
+  }
+
+  for (const key of Object.keys(merged) as (keyof JsonSchema)[]) {
+    if (merged[key] === undefined) {
+      delete merged[key];
+    }
+  }
+  return merged;
+}
+
+/**
+ * Rewrite draft-04 boolean exclusive bounds into the numeric form of later drafts
+ */
+function normalizeExclusiveBounds(schema: JsonSchema): JsonSchema {
+  const normalized: JsonSchema = { ...schema };
+  if (typeof schema.exclusiveMinimum === 'boolean') {
+    delete normalized.exclusiveMinimum;
+    if (schema.exclusiveMinimum && schema.minimum !== undefined) {
+      normalized.exclusiveMinimum = schema.minimum;
+      delete normalized.minimum;
+    }
+  }
+  if (typeof schema.exclusiveMaximum === 'boolean') {
+    delete normalized.exclusiveMaximum;
+    if (schema.exclusiveMaximum && schema.maximum !== undefined) {
+      normalized.exclusiveMaximum = schema.maximum;
+      delete normalized.maximum;
+    }
+  }
+  return normalized;
+}
+
+/**
+ * Combine a bound set on either or both sides, e.g. the larger of two minimums
+ */
+function tightest(
+  left: number | undefined,
+  right: number | undefined,
+  pick: (left: number, right: number) => number
+): number | undefined {
+  if (left === undefined || right === undefined) {
+    return left ?? right;
+  }
+  return pick(left, right);
+}
+
+/**
+ * Types allowed by both schemas; integers are the numbers both accept
+ */
+function intersectTypes(
+  left: JsonSchemaType | JsonSchemaType[],
+  right: JsonSchemaType | JsonSchemaType[]
+): JsonSchemaType | JsonSchemaType[] {
+  const rights = Array.isArray(right) ? right : [right];
+  const lefts = Array.isArray(left) ? left : [left];
+  const accepts = (types: JsonSchemaType[], type: JsonSchemaType) =>
+    types.includes(type) || (type === 'integer' && types.includes('number'));
+
+  const types = [
+    ...new Set([
+      ...lefts.filter((type) => accepts(rights, type)),
+      ...rights.filter((type) => accepts(lefts, type)),
+    ]),
+  ];
+  if (types.length === 0) {
+    throw new Error(
+      `allOf schemas have no type in common: ${lefts.join(', ')} and ${rights.join(', ')}`
+    );
+  }
+  const [only] = types;
+  return types.length === 1 && only !== undefined ? only : types;
+}
+
+/**
+ * Whether `items` holds a single schema for all items (rather than a tuple)
+ */
+function isItemSchema(items: JsonSchema | JsonSchema[] | undefined): items is JsonSchema {
+  return items !== undefined && !Array.isArray(items);
+}
+
+/**
+ * Least common multiple of two steps, which may be decimals (e.g. 0.5 and 0.2 -> 1)
+ */
+function lcm(left: number, right: number): number {
+  const scale = Math.pow(10, Math.max(decimalPlaces(left), decimalPlaces(right)));
+  const [a, b] = [Math.round(left * scale), Math.round(right * scale)];
+  const gcd = (x: number, y: number): number => (y === 0 ? x : gcd(y, x % y));
+  return ((a / gcd(a, b)) * b) / scale;
+}
+
+/**
+ * Smallest multiple of a step that is also an integer (e.g. 0.5 -> 1, 2 -> 2)
+ */
+function lcmWithOne(step: number): number {
+  const scale = Math.pow(10, decimalPlaces(step));
+  const scaled = Math.round(step * scale);
+  const gcd = (a: number, b: number): number => (b === 0 ? a : gcd(b, a % b));
+  return scaled / gcd(scaled, scale);
+}
+
+/**
+ * Number of decimal places of a step (e.g. 0.01 -> 2)
+ */
+function decimalPlaces(value: number): number {
+  const [, decimals = ''] = value.toString().split('.');
+  return decimals.length;
+}
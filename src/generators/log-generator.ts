@@ -0,0 +1,580 @@
+import { BaseGenerator, BaseGeneratorOptions, type GenerationControl } from './base-generator.js';
+import type { AccessLogData, AppLogData, AuthLogData, LogData } from '../types/responses.js';
+import { AuthEvent, LogLevel, LogType, type IdStrategy } from '../types/schema.js';
+import type { IdFactory } from '../utils/id-strategies.js';
+
+/**
+ * Options for controlling log generation.
+ *
+ * @interface LogGenerationOptions
+ * @example
+ * ```typescript
+ * const options: LogGenerationOptions = {
+ *   type: LogType.AUTH,
+ *   eventsPerMinute: 600
+ * };
+ * ```
+ */
+export interface LogGenerationOptions {
+  /** Kind of log records (defaults to access logs) */
+  type?: LogType;
+  /** Average number of records per minute, which sets the time span of the log (defaults to 60) */
+  eventsPerMinute?: number;
+  /** How record IDs are generated (defaults to `log_{seed}_{index}`) */
+  idStrategy?: IdStrategy;
+}
+
+/**
+ * A client session: its requests share an IP address, user agent and user.
+ */
+interface LogSession {
+  id: string;
+  ip: string;
+  userAgent: string;
+  user: string;
+  /** Whether access log records show the user (signed-in sessions) */
+  authenticated: boolean;
+}
+
+/**
+ * State shared by the records of one generation run: the clock, the servers and the
+ * sessions still active, so that later records can continue earlier sessions.
+ */
+interface LogRun {
+  nextId: IdFactory;
+  /** Start of the log (epoch milliseconds) and width of each record's time slot */
+  start: number;
+  interval: number;
+  instances: Array<{ service: string; host: string; pid: number }>;
+  sessions: LogSession[];
+}
+
+/**
+ * Requests served by the web servers, weighted by how often they occur
+ */
+const ROUTES: Array<{
+  weight: number;
+  value: { method: string; path: string; kind: 'page' | 'api' | 'static' };
+}> = [
+  { weight: 10, value: { method: 'GET', path: '/', kind: 'page' } },
+  { weight: 8, value: { method: 'GET', path: '/products', kind: 'page' } },
+  { weight: 10, value: { method: 'GET', path: '/products/{slug}', kind: 'page' } },
+  { weight: 4, value: { method: 'GET', path: '/search?q={term}', kind: 'page' } },
+  { weight: 3, value: { method: 'GET', path: '/cart', kind: 'page' } },
+  { weight: 2, value: { method: 'GET', path: '/account', kind: 'page' } },
+  { weight: 10, value: { method: 'GET', path: '/api/v1/products?page={page}', kind: 'api' } },
+  { weight: 5, value: { method: 'GET', path: '/api/v1/users/{id}', kind: 'api' } },
+  { weight: 5, value: { method: 'GET', path: '/api/v1/orders/{id}', kind: 'api' } },
+  { weight: 3, value: { method: 'GET', path: '/health', kind: 'api' } },
+  { weight: 12, value: { method: 'GET', path: '/static/js/app.{hash}.js', kind: 'static' } },
+  { weight: 8, value: { method: 'GET', path: '/static/css/main.{hash}.css', kind: 'static' } },
+  { weight: 8, value: { method: 'GET', path: '/images/{slug}.jpg', kind: 'static' } },
+  { weight: 2, value: { method: 'GET', path: '/favicon.ico', kind: 'static' } },
+  { weight: 4, value: { method: 'POST', path: '/api/v1/orders', kind: 'api' } },
+  { weight: 3, value: { method: 'POST', path: '/api/v1/cart/items', kind: 'api' } },
+  { weight: 2, value: { method: 'POST', path: '/login', kind: 'page' } },
+  { weight: 2, value: { method: 'PUT', path: '/api/v1/users/{id}', kind: 'api' } },
+  { weight: 1, value: { method: 'PATCH', path: '/api/v1/cart/items/{id}', kind: 'api' } },
+  { weight: 1, value: { method: 'DELETE', path: '/api/v1/cart/items/{id}', kind: 'api' } },
+  { weight: 1, value: { method: 'HEAD', path: '/', kind: 'page' } },
+  { weight: 1, value: { method: 'OPTIONS', path: '/api/v1/products', kind: 'api' } },
+];
+
+/**
+ * Error statuses of the requests that fail (about 7%), weighted by how often they occur
+ */
+const ERROR_STATUSES: Array<{ weight: number; value: number }> = [
+  { weight: 3, value: 400 },
+  { weight: 2, value: 401 },
+  { weight: 1, value: 403 },
+  { weight: 6, value: 404 },
+  { weight: 1, value: 429 },
+  { weight: 2, value: 500 },
+  { weight: 1, value: 502 },
+  { weight: 1, value: 503 },
+];
+
+const PRODUCT_SLUGS = [
+  'wireless-headphones',
+  'running-shoes',
+  'espresso-machine',
+  'yoga-mat',
+  'smart-watch',
+  'backpack',
+  'desk-lamp',
+  'water-bottle',
+  'mechanical-keyboard',
+  'rain-jacket',
+];
+
+const SEARCH_TERMS = ['shoes', 'laptop', 'gift+ideas', 'sale', 'coffee', 'usb-c+cable', 'tent'];
+
+/** Origin of the web site whose requests are logged (a reserved example domain) */
+const SITE = 'https://shop.example.com';
+
+const EXTERNAL_REFERRERS = [
+  'https://www.google.com/',
+  'https://www.bing.com/',
+  'https://duckduckgo.com/',
+  'https://t.co/',
+  'https://www.facebook.com/',
+];
+
+/**
+ * Crawlers and scripted clients, which make up a small share of the traffic
+ */
+const BOT_USER_AGENTS = [
+  'Mozilla/5.0 (compatible; Googlebot/2.1; +http://www.google.com/bot.html)',
+  'Mozilla/5.0 (compatible; bingbot/2.0; +http://www.bing.com/bingbot.htm)',
+  'curl/8.4.0',
+  'python-requests/2.31.0',
+  'Go-http-client/1.1',
+];
+
+const AUTH_EVENTS: Array<{ weight: number; value: AuthEvent }> = [
+  { weight: 50, value: AuthEvent.LOGIN },
+  { weight: 15, value: AuthEvent.LOGOUT },
+  { weight: 20, value: AuthEvent.TOKEN_REFRESH },
+  { weight: 3, value: AuthEvent.PASSWORD_CHANGE },
+  { weight: 12, value: AuthEvent.MFA_CHALLENGE },
+];
+
+/**
+ * Failure rate and failure reasons of each authentication event
+ */
+const AUTH_FAILURES: Record<AuthEvent, { rate: number; reasons: string[] }> = {
+  [AuthEvent.LOGIN]: {
+    rate: 0.18,
+    reasons: ['invalid_password', 'invalid_password', 'unknown_user', 'account_locked'],
+  },
+  [AuthEvent.LOGOUT]: { rate: 0, reasons: [] },
+  [AuthEvent.TOKEN_REFRESH]: { rate: 0.05, reasons: ['token_expired', 'token_revoked'] },
+  [AuthEvent.PASSWORD_CHANGE]: { rate: 0.05, reasons: ['password_too_weak', 'password_reused'] },
+  [AuthEvent.MFA_CHALLENGE]: { rate: 0.1, reasons: ['invalid_code', 'code_expired'] },
+};
+
+const SERVICES = [
+  'api-gateway',
+  'auth-service',
+  'order-service',
+  'payment-service',
+  'inventory-service',
+  'notification-service',
+];
+
+const LOG_LEVELS: Array<{ weight: number; value: LogLevel }> = [
+  { weight: 15, value: LogLevel.DEBUG },
+  { weight: 65, value: LogLevel.INFO },
+  { weight: 12, value: LogLevel.WARN },
+  { weight: 7, value: LogLevel.ERROR },
+  { weight: 1, value: LogLevel.FATAL },
+];
+
+/**
+ * Message templates of each level; `{ms}`, `{id}`, `{user}`, `{service}` and `{attempt}`
+ * are filled in per record
+ */
+const LOG_MESSAGES: Record<LogLevel, string[]> = {
+  [LogLevel.DEBUG]: [
+    'Loaded configuration from /etc/app/config.yaml',
+    'Opening connection to postgres:5432',
+    'Cache miss for key product:{id}',
+    'Acquired lock order:{id}',
+  ],
+  [LogLevel.INFO]: [
+    'Request completed in {ms} ms',
+    'Handled GET /api/v1/orders/{id} in {ms} ms',
+    'User {user} signed in',
+    'Order {id} created',
+    'Published event order.created for order {id}',
+    'Scheduled job cleanup-sessions finished in {ms} ms',
+  ],
+  [LogLevel.WARN]: [
+    'Slow query took {ms} ms',
+    'Retrying request to {service} (attempt {attempt} of 3)',
+    'Connection pool at 90% capacity',
+    'Deprecated API version v1 called by {user}',
+  ],
+  [LogLevel.ERROR]: [
+    'Upstream {service} returned 503',
+    'Database connection timed out after {ms} ms',
+    'Payment declined for order {id}',
+    "Unhandled exception: TypeError: Cannot read properties of undefined (reading 'id')",
+  ],
+  [LogLevel.FATAL]: [
+    'Out of memory: JavaScript heap limit reached',
+    'Failed to bind to port 8080: address already in use',
+    'Lost connection to message broker, shutting down',
+  ],
+};
+
+/** Sessions kept open for later records to continue */
+const MAX_ACTIVE_SESSIONS = 50;
+
+/**
+ * Generator for web access logs, authentication events and application logs.
+ * Records are in chronological order, spread over a span set by `eventsPerMinute` that ends
+ * at the reference date. Requests of a session share client details; statuses, methods,
+ * response sizes and latencies follow realistic distributions.
+ * Supports reproducible generation via seeds.
+ *
+ * @class LogGenerator
+ * @extends BaseGenerator
+ * @example
+ * ```typescript
+ * const generator = new LogGenerator({ seed: 12345 });
+ *
+ * const requests = await generator.generateMany(1000);
+ * const events = await generator.generateMany(200, { type: LogType.AUTH });
+ * ```
+ */
+export class LogGenerator extends BaseGenerator {
+  /**
+   * Creates a new LogGenerator instance.
+   *
+   * @constructor
+   * @param {BaseGeneratorOptions} [options={}] - Generator configuration options
+   */
+  constructor(options: BaseGeneratorOptions = {}) {
+    super(options);
+  }
+
+  /**
+   * Generates a single log record, stamped within the last interval before the reference date.
+   *
+   * @param {LogGenerationOptions} [options={}] - Log type and rate
+   * @returns {LogData} A log record
+   * @example
+   * ```typescript
+   * const request = generator.generate();
+   * // Returns: { id: 'log_12345_0', type: 'access', method: 'GET', path: '/', status: 200, ... }
+   * ```
+   */
+  public generate(options: LogGenerationOptions = {}): LogData {
+    return this.buildLog(0, options, this.createRun(1, options));
+  }
+
+  /**
+   * Generates multiple log records efficiently, in chronological order.
+   * Records are generated in batches that report progress and can be cancelled.
+   *
+   * @async
+   * @param {number} count - Number of log records to generate
+   * @param {LogGenerationOptions} [options={}] - Log type and rate
+   * @param {GenerationControl} [control] - Progress callback and cancellation signal
+   * @returns {Promise<LogData[]>} Array of log records
+   * @throws {Error} If the generation is cancelled
+   */
+  public generateMany(
+    count: number,
+    options: LogGenerationOptions = {},
+    control?: GenerationControl
+  ): Promise<LogData[]> {
+    const run = this.createRun(count, options);
+    return this.batchGenerate(count, (index) => this.buildLog(index, options, run), control);
+  }
+
+  /**
+   * Lazily generates log records one at a time, for counts too large to hold in memory.
+   * Yields exactly the same records as `generateMany` for the same seed and options.
+   *
+   * @param {number} count - Number of log records to generate
+   * @param {LogGenerationOptions} [options={}] - Log type and rate
+   * @returns {Generator<LogData>} Iterator over the generated records
+   */
+  public stream(count: number, options: LogGenerationOptions = {}): Generator<LogData> {
+    const run = this.createRun(count, options);
+    return this.streamGenerate(count, (index) => this.buildLog(index, options, run));
+  }
+
+  /**
+   * Sets up the state of a run: its clock, web site and service instances.
+   *
+   * @private
+   * @param {number} count - Number of records in the run
+   * @param {LogGenerationOptions} options - Log type and rate
+   * @returns {LogRun} Fresh run state
+   */
+  private createRun(count: number, options: LogGenerationOptions): LogRun {
+    const interval = 60_000 / (options.eventsPerMinute ?? 60);
+    const { string, number } = this.faker;
+
+    return {
+      nextId: this.createIdFactory('log', options.idStrategy),
+      start: this.referenceDate.getTime() - count * interval,
+      interval,
+      instances: SERVICES.flatMap((service) =>
+        [1, 2].map(() => ({
+          service,
+          host: `${service}-${string.hexadecimal({ length: 9, casing: 'lower', prefix: '' })}-${string.alphanumeric({ length: 5, casing: 'lower' })}`,
+          pid: number.int({ min: 1, max: 32768 }),
+        }))
+      ),
+      sessions: [],
+    };
+  }
+
+  /**
+   * Builds the log record at the given index. Each record gets its own slot of the span, so
+   * the records come out in chronological order without passing the reference date.
+   *
+   * @private
+   * @param {number} index - Index of the record (used in the ID and timestamp)
+   * @param {LogGenerationOptions} options - Log type and rate
+   * @param {LogRun} run - State shared by the records of the run
+   * @returns {LogData} A log record
+   */
+  private buildLog(index: number, options: LogGenerationOptions, run: LogRun): LogData {
+    const id = run.nextId(index);
+    const offset = this.faker.number.float({ min: 0, max: run.interval });
+    const timestamp = new Date(Math.floor(run.start + index * run.interval + offset)).toISOString();
+
+    switch (options.type ?? LogType.ACCESS) {
+      case LogType.ACCESS:
+        return { id, ...this.buildAccessLog(timestamp, run) };
+      case LogType.AUTH:
+        return { id, ...this.buildAuthLog(timestamp, run) };
+      case LogType.APP:
+        return { id, ...this.buildAppLog(timestamp, run) };
+    }
+  }
+
+  /**
+   * Draws an HTTP request: a weighted route, a status fitting its method, and a response
+   * size and latency fitting the kind of resource and the outcome.
+   *
+   * @private
+   * @param {string} timestamp - Time of the request
+   * @param {LogRun} run - State shared by the records of the run
+   * @returns {Omit<AccessLogData, 'id'>} The request without its ID
+   */
+  private buildAccessLog(timestamp: string, run: LogRun): Omit<AccessLogData, 'id'> {
+    const { helpers, number, datatype, string } = this.faker;
+    const session = this.pickSession(run);
+    const route = helpers.weightedArrayElement(ROUTES);
+    const path = route.path
+      .replace('{slug}', helpers.arrayElement(PRODUCT_SLUGS))
+      .replace('{term}', helpers.arrayElement(SEARCH_TERMS))
+      .replace('{page}', String(number.int({ min: 1, max: 20 })))
+      .replace('{id}', String(number.int({ min: 1, max: 99999 })))
+      .replace('{hash}', string.hexadecimal({ length: 8, casing: 'lower', prefix: '' }));
+
+    let status: number;
+    if (datatype.boolean({ probability: 0.07 })) {
+      status = helpers.weightedArrayElement(ERROR_STATUSES);
+    } else if (route.method === 'POST') {
+      status = route.path === '/login' ? 302 : 201;
+    } else if (route.method === 'DELETE') {
+      status = 204;
+    } else if (route.kind === 'static' && datatype.boolean({ probability: 0.25 })) {
+      status = 304;
+    } else if (route.kind === 'page' && datatype.boolean({ probability: 0.02 })) {
+      status = 301;
+    } else {
+      status = 200;
+    }
+
+    const hasBody = ![204, 304].includes(status) && !['HEAD', 'OPTIONS'].includes(route.method);
+    const bytes = !hasBody
+      ? 0
+      : status >= 300
+        ? number.int({ min: 150, max: 600 })
+        : route.kind === 'static'
+          ? number.int({ min: 2_000, max: 400_000 })
+          : route.kind === 'page'
+            ? number.int({ min: 8_000, max: 80_000 })
+            : number.int({ min: 200, max: 20_000 });
+
+    // Latencies are log-normal around a median per kind; writes and server errors are slower
+    const median =
+      (route.kind === 'static' ? 4 : route.kind === 'page' ? 80 : 40) *
+      (route.method === 'GET' ? 1 : 1.5) *
+      (status >= 500 ? 10 : 1);
+
+    const referrer =
+      route.kind === 'api' || datatype.boolean({ probability: 0.3 })
+        ? null
+        : route.kind === 'static' || datatype.boolean({ probability: 0.5 })
+          ? `${SITE}${helpers.arrayElement(['/', '/products', '/cart'])}`
+          : helpers.arrayElement(EXTERNAL_REFERRERS);
+
+    return {
+      type: LogType.ACCESS,
+      timestamp,
+      host: `web-0${number.int({ min: 1, max: 4 })}`,
+      clientIp: session.ip,
+      user: session.authenticated ? session.user : null,
+      method: route.method,
+      path,
+      protocol: datatype.boolean({ probability: 0.6 }) ? 'HTTP/1.1' : 'HTTP/2.0',
+      status,
+      bytes,
+      referrer,
+      userAgent: session.userAgent,
+      latencyMs: Math.max(1, Math.round(this.logNormal(median, 0.7))),
+      sessionId: session.id,
+    };
+  }
+
+  /**
+   * Draws an authentication event; successful logins, refreshes and MFA challenges issue a
+   * JWT-shaped token for the session.
+   *
+   * @private
+   * @param {string} timestamp - Time of the event
+   * @param {LogRun} run - State shared by the records of the run
+   * @returns {Omit<AuthLogData, 'id'>} The event without its ID
+   */
+  private buildAuthLog(timestamp: string, run: LogRun): Omit<AuthLogData, 'id'> {
+    const { helpers, datatype, number } = this.faker;
+    const session = this.pickSession(run);
+    const event = helpers.weightedArrayElement(AUTH_EVENTS);
+    const failures = AUTH_FAILURES[event];
+    const failed = datatype.boolean({ probability: failures.rate });
+
+    const authMethod =
+      event === AuthEvent.LOGIN
+        ? helpers.weightedArrayElement([
+            { weight: 60, value: 'password' },
+            { weight: 30, value: 'sso' },
+            { weight: 10, value: 'api_key' },
+          ])
+        : event === AuthEvent.MFA_CHALLENGE
+          ? 'totp'
+          : event === AuthEvent.TOKEN_REFRESH
+            ? 'refresh_token'
+            : event === AuthEvent.PASSWORD_CHANGE
+              ? 'password'
+              : 'session';
+    const issuesToken =
+      !failed &&
+      [AuthEvent.LOGIN, AuthEvent.TOKEN_REFRESH, AuthEvent.MFA_CHALLENGE].includes(event);
+
+    return {
+      type: LogType.AUTH,
+      timestamp,
+      host: `auth-0${number.int({ min: 1, max: 2 })}`,
+      sourceIp: session.ip,
+      user: session.user,
+      event,
+      authMethod,
+      outcome: failed ? 'failure' : 'success',
+      reason: failed ? helpers.arrayElement(failures.reasons) : null,
+      userAgent: session.userAgent,
+      sessionId: session.id,
+      token: issuesToken ? this.buildToken(session, timestamp) : null,
+    };
+  }
+
+  /**
+   * Draws an application log message of a service instance, with trace context.
+   *
+   * @private
+   * @param {string} timestamp - Time of the message
+   * @param {LogRun} run - State shared by the records of the run
+   * @returns {Omit<AppLogData, 'id'>} The record without its ID
+   */
+  private buildAppLog(timestamp: string, run: LogRun): Omit<AppLogData, 'id'> {
+    const { helpers, number, string, datatype } = this.faker;
+    const instance = helpers.arrayElement(run.instances);
+    const level = helpers.weightedArrayElement(LOG_LEVELS);
+    const slow = level === LogLevel.WARN || level === LogLevel.ERROR;
+    const message = helpers
+      .arrayElement(LOG_MESSAGES[level])
+      .replace(
+        '{ms}',
+        String(slow ? number.int({ min: 1000, max: 30000 }) : number.int({ min: 2, max: 400 }))
+      )
+      .replace('{id}', String(number.int({ min: 1, max: 99999 })))
+      .replace('{user}', this.faker.internet.userName().toLowerCase())
+      .replace(
+        '{service}',
+        helpers.arrayElement(SERVICES.filter((name) => name !== instance.service))
+      )
+      .replace('{attempt}', String(number.int({ min: 1, max: 3 })));
+
+    return {
+      type: LogType.APP,
+      timestamp,
+      host: instance.host,
+      service: instance.service,
+      pid: instance.pid,
+      level,
+      message,
+      traceId: string.hexadecimal({ length: 32, casing: 'lower', prefix: '' }),
+      spanId: string.hexadecimal({ length: 16, casing: 'lower', prefix: '' }),
+      sessionId: datatype.boolean({ probability: 0.6 }) ? this.pickSession(run).id : null,
+    };
+  }
+
+  /**
+   * Continues an active session (70% of the time) or opens a new one; the oldest sessions
+   * are dropped once too many are open.
+   *
+   * @private
+   * @param {LogRun} run - State shared by the records of the run
+   * @returns {LogSession} The session of the next record
+   */
+  private pickSession(run: LogRun): LogSession {
+    const { datatype, helpers, internet, string } = this.faker;
+    if (run.sessions.length > 0 && datatype.boolean({ probability: 0.7 })) {
+      return helpers.arrayElement(run.sessions);
+    }
+
+    // Crawlers and scripts never sign in
+    const bot = datatype.boolean({ probability: 0.08 });
+    const session: LogSession = {
+      id: string.hexadecimal({ length: 32, casing: 'lower', prefix: '' }),
+      ip: datatype.boolean({ probability: 0.85 }) ? internet.ipv4() : internet.ipv6(),
+      userAgent: bot ? helpers.arrayElement(BOT_USER_AGENTS) : internet.userAgent(),
+      user: internet.userName().toLowerCase(),
+      authenticated: !bot && datatype.boolean({ probability: 0.4 }),
+    };
+    run.sessions.push(session);
+    if (run.sessions.length > MAX_ACTIVE_SESSIONS) {
+      run.sessions.shift();
+    }
+    return session;
+  }
+
+  /**
+   * Builds a JWT-shaped access token: base64url JSON header and claims (subject, session,
+   * issued at, one hour expiry, token ID) and a random signature. It is not signed with any key.
+   *
+   * @private
+   * @param {LogSession} session - Session the token is issued to
+   * @param {string} timestamp - Time of issue
+   * @returns {string} The token
+   */
+  private buildToken(session: LogSession, timestamp: string): string {
+    const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url');
+    const issuedAt = Math.floor(new Date(timestamp).getTime() / 1000);
+    const claims = {
+      sub: session.user,
+      sid: session.id,
+      iat: issuedAt,
+      exp: issuedAt + 3600,
+      jti: this.faker.string.uuid(),
+    };
+    const signature = this.faker.string.fromCharacters(
+      'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-_',
+      43
+    );
+
+    return `${encode({ alg: 'HS256', typ: 'JWT' })}.${encode(claims)}.${signature}`;
+  }
+
+  /**
+   * Draws from a log-normal distribution (Box-Muller transform of two uniform draws).
+   *
+   * @private
+   * @param {number} median - Median of the distribution
+   * @param {number} sigma - Standard deviation of the logarithm
+   * @returns {number} The drawn value
+   */
+  private logNormal(median: number, sigma: number): number {
+    const u = Math.max(this.faker.number.float({ min: 0, max: 1 }), Number.EPSILON);
+    const v = this.faker.number.float({ min: 0, max: 1 });
+    return median * Math.exp(sigma * Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v));
+  }
+}
@@ -0,0 +1,265 @@
+import { BaseGenerator, BaseGeneratorOptions, type GenerationControl } from './base-generator.js';
+import type { OrderData, OrderLineItem } from '../types/responses.js';
+import { OrderStatus, SupportedLocale, type IdStrategy } from '../types/schema.js';
+import { LOCALE_CURRENCIES, minorUnitFactor } from '../utils/money.js';
+import type { IdFactory } from '../utils/id-strategies.js';
+
+/**
+ * A product that order line items can reference.
+ *
+ * @interface OrderProduct
+ */
+export interface OrderProduct {
+  /** ID written to the line item's `productId` */
+  id: string | number;
+  /** Unit price of the product; a price is drawn when missing */
+  price?: number;
+  /** Currency of the price */
+  currency?: string;
+}
+
+/**
+ * Options for controlling order data generation.
+ *
+ * @interface OrderGenerationOptions
+ * @example
+ * ```typescript
+ * const options: OrderGenerationOptions = {
+ *   products: [{ id: 'sku_1', price: 19.99 }, { id: 'sku_2', price: 5 }],
+ *   maxItems: 2,
+ *   taxRate: 0.2
+ * };
+ * ```
+ */
+export interface OrderGenerationOptions {
+  /** Products that line items reference, each at most once per order (defaults to none) */
+  products?: readonly OrderProduct[];
+  /** Fewest line items per order (defaults to 1) */
+  minItems?: number;
+  /** Most line items per order, capped at the number of products (defaults to 3) */
+  maxItems?: number;
+  /** ISO 4217 currency code (defaults to the products' currency, then to the locale's) */
+  currency?: string;
+  /** Tax rate applied to the subtotal (defaults to a typical rate of the locale) */
+  taxRate?: number;
+  /** How record IDs are generated (defaults to `order_{seed}_{index}`) */
+  idStrategy?: IdStrategy;
+}
+
+/**
+ * Typical sales tax or VAT rate of each locale
+ */
+const LOCALE_TAX_RATES: Record<SupportedLocale, number> = {
+  [SupportedLocale.EN]: 0.08,
+  [SupportedLocale.FR]: 0.2,
+  [SupportedLocale.DE]: 0.19,
+  [SupportedLocale.ES]: 0.21,
+  [SupportedLocale.JA]: 0.1,
+};
+
+/**
+ * How often each status occurs: most orders completed, a few in flight, cancelled or refunded
+ */
+const STATUS_WEIGHTS: Array<{ weight: number; value: OrderStatus }> = [
+  { weight: 7, value: OrderStatus.PENDING },
+  { weight: 8, value: OrderStatus.PAID },
+  { weight: 10, value: OrderStatus.SHIPPED },
+  { weight: 55, value: OrderStatus.DELIVERED },
+  { weight: 12, value: OrderStatus.CANCELLED },
+  { weight: 8, value: OrderStatus.REFUNDED },
+];
+
+const MINUTE = 60;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+/**
+ * Generator for orders whose amounts and timestamps are consistent.
+ * Line item totals, subtotals, discounts, tax and totals are computed in the currency's
+ * minor unit, so they add up exactly; timestamps follow the status lifecycle and never
+ * pass the reference date.
+ *
+ * @class OrderGenerator
+ * @extends BaseGenerator
+ * @example
+ * ```typescript
+ * const generator = new OrderGenerator({ seed: 12345 });
+ *
+ * const orders = await generator.generateMany(100, {
+ *   products: [{ id: 'product_1', price: 24.5 }, { id: 'product_2', price: 99 }]
+ * });
+ * ```
+ */
+export class OrderGenerator extends BaseGenerator {
+  /**
+   * Creates a new OrderGenerator instance.
+   *
+   * @constructor
+   * @param {BaseGeneratorOptions} [options={}] - Generator configuration options
+   */
+  constructor(options: BaseGeneratorOptions = {}) {
+    super(options);
+  }
+
+  /**
+   * Generates a single order record.
+   *
+   * @param {OrderGenerationOptions} [options={}] - Products, currency and tax of the order
+   * @returns {OrderData} An order data object
+   * @example
+   * ```typescript
+   * const order = generator.generate({ products });
+   * // Returns: {
+   * //   id: 'order_12345_0',
+   * //   status: 'delivered',
+   * //   currency: 'GBP',
+   * //   items: [{ productId: 'product_1', quantity: 2, unitPrice: 24.5, discount: 0, lineTotal: 49 }],
+   * //   subtotal: 49,
+   * //   ...
+   * // }
+   * ```
+   */
+  public generate(options: OrderGenerationOptions = {}): OrderData {
+    return this.buildOrder(0, options, this.createIdFactory('order', options.idStrategy));
+  }
+
+  /**
+   * Generates multiple order records efficiently.
+   * Records are generated in batches that report progress and can be cancelled.
+   *
+   * @async
+   * @param {number} count - Number of order records to generate
+   * @param {OrderGenerationOptions} [options={}] - Products, currency and tax of the orders
+   * @param {GenerationControl} [control] - Progress callback and cancellation signal
+   * @returns {Promise<OrderData[]>} Array of order data objects
+   * @throws {Error} If the generation is cancelled
+   */
+  public generateMany(
+    count: number,
+    options: OrderGenerationOptions = {},
+    control?: GenerationControl
+  ): Promise<OrderData[]> {
+    const nextId = this.createIdFactory('order', options.idStrategy);
+    return this.batchGenerate(count, (index) => this.buildOrder(index, options, nextId), control);
+  }
+
+  /**
+   * Builds the order record at the given index.
+   *
+   * @private
+   * @param {number} index - Index of the record (used in the ID)
+   * @param {OrderGenerationOptions} options - Products, currency and tax of the order
+   * @param {IdFactory} nextId - Produces the record's ID from its index
+   * @returns {OrderData} An order data object
+   */
+  private buildOrder(index: number, options: OrderGenerationOptions, nextId: IdFactory): OrderData {
+    const { products = [], minItems = 1, maxItems = 3 } = options;
+    const currency = options.currency ?? products[0]?.currency ?? LOCALE_CURRENCIES[this.locale];
+    const taxRate = options.taxRate ?? LOCALE_TAX_RATES[this.locale];
+    const factor = minorUnitFactor(currency);
+
+    const status = this.faker.helpers.weightedArrayElement(STATUS_WEIGHTS);
+
+    // Each product appears on at most one line of an order
+    const itemCount = this.faker.number.int({
+      min: products.length > 0 ? Math.min(minItems, products.length) : minItems,
+      max: products.length > 0 ? Math.min(maxItems, products.length) : maxItems,
+    });
+    const lines: Array<OrderProduct | undefined> =
+      products.length > 0
+        ? this.faker.helpers.arrayElements(products, itemCount)
+        : Array.from({ length: itemCount }, () => undefined);
+
+    // Amounts are integers in the currency's minor unit until they are written out
+    let subtotal = 0;
+    let discount = 0;
+    const items = lines.map((product): OrderLineItem => {
+      const quantity = this.faker.number.int({ min: 1, max: 4 });
+      const unitPrice = Math.round(
+        (product?.price ?? this.faker.number.float({ min: 1, max: 1000 })) * factor
+      );
+      const gross = quantity * unitPrice;
+      const lineDiscount = this.faker.datatype.boolean({ probability: 0.2 })
+        ? Math.round((gross * this.faker.helpers.arrayElement([5, 10, 15, 20, 25])) / 100)
+        : 0;
+      subtotal += gross - lineDiscount;
+      discount += lineDiscount;
+
+      return {
+        ...(product && { productId: product.id }),
+        quantity,
+        unitPrice: unitPrice / factor,
+        discount: lineDiscount / factor,
+        lineTotal: (gross - lineDiscount) / factor,
+      };
+    });
+    const tax = Math.round(subtotal * taxRate);
+
+    return {
+      id: nextId(index),
+      status,
+      currency,
+      items,
+      subtotal: subtotal / factor,
+      discount: discount / factor,
+      taxRate,
+      tax: tax / factor,
+      total: (subtotal + tax) / factor,
+      ...this.buildTimeline(status),
+    };
+  }
+
+  /**
+   * Draws the timestamps of an order's lifecycle up to its status.
+   * Stages are drawn as delays after the previous one and the whole timeline is then placed
+   * before the reference date: orders still in flight within the last two weeks, others
+   * within the last year.
+   *
+   * @private
+   * @param {OrderStatus} status - Status the order reached
+   * @returns {Object} Placed, paid, shipped, delivered, cancelled and refunded timestamps
+   */
+  private buildTimeline(
+    status: OrderStatus
+  ): Pick<
+    OrderData,
+    'placedAt' | 'paidAt' | 'shippedAt' | 'deliveredAt' | 'cancelledAt' | 'refundedAt'
+  > {
+    const { number, datatype } = this.faker;
+    const delay = (min: number, max: number) => number.int({ min, max });
+
+    // Offsets in seconds from the moment the order was placed
+    let elapsed = 0;
+    const after = (min: number, max: number) => (elapsed += delay(min, max));
+    const paid =
+      status !== OrderStatus.PENDING &&
+      (status !== OrderStatus.CANCELLED || datatype.boolean({ probability: 0.5 }))
+        ? after(MINUTE, 2 * DAY)
+        : null;
+    const shipped = [OrderStatus.SHIPPED, OrderStatus.DELIVERED, OrderStatus.REFUNDED].includes(
+      status
+    )
+      ? after(2 * HOUR, 4 * DAY)
+      : null;
+    const delivered = [OrderStatus.DELIVERED, OrderStatus.REFUNDED].includes(status)
+      ? after(DAY, 8 * DAY)
+      : null;
+    const cancelled = status === OrderStatus.CANCELLED ? after(10 * MINUTE, 3 * DAY) : null;
+    const refunded = status === OrderStatus.REFUNDED ? after(DAY, 30 * DAY) : null;
+
+    const inFlight = [OrderStatus.PENDING, OrderStatus.PAID, OrderStatus.SHIPPED].includes(status);
+    const age = delay(0, inFlight ? 14 * DAY : 365 * DAY);
+    const placed = Math.floor(this.referenceDate.getTime() / 1000) - elapsed - age;
+    const at = (offset: number | null) =>
+      offset === null ? null : new Date((placed + offset) * 1000).toISOString();
+
+    return {
+      placedAt: new Date(placed * 1000).toISOString(),
+      paidAt: at(paid),
+      shippedAt: at(shipped),
+      deliveredAt: at(delivered),
+      cancelledAt: at(cancelled),
+      refundedAt: at(refunded),
+    };
+  }
+}
@@ -1,5 +1,13 @@
-import { BaseGenerator, BaseGeneratorOptions } from './base-generator.js';
+import { BaseGenerator, BaseGeneratorOptions, type GenerationControl } from './base-generator.js';
 import { PersonData } from '../types/responses.js';
+import {
+  PersonOptionalField,
+  PersonUniqueField,
+  type FieldSparsity,
+  type IdStrategy,
+} from '../types/schema.js';
+import { UniqueValueTracker } from '../utils/unique-values.js';
+import type { IdFactory } from '../utils/id-strategies.js';
 
 /**
  * Options for controlling person data generation.
@@ -10,7 +18,9 @@ import { PersonData } from '../types/responses.js';
  * const options: PersonGenerationOptions = {
  *   includeAddress: true,
  *   includePhone: true,
- *   includeDateOfBirth: false
+ *   includeDateOfBirth: false,
+ *   unique: [PersonUniqueField.EMAIL],
+ *   sparsity: { [PersonOptionalField.PHONE]: { nullRate: 0.2 } }
  * };
  * ```
  */
@@ -21,6 +31,12 @@ export interface PersonGenerationOptions {
   includePhone?: boolean;
   /** Whether to include date of birth (defaults to false) */
   includeDateOfBirth?: boolean;
+  /** Fields whose values must be distinct across the generated records (defaults to none) */
+  unique?: PersonUniqueField[];
+  /** How often each optional field is null or omitted (defaults to never) */
+  sparsity?: Partial<Record<PersonOptionalField, FieldSparsity>>;
+  /** How record IDs are generated (defaults to `person_{seed}_{index}`) */
+  idStrategy?: IdStrategy;
 }
 
 /**
@@ -91,22 +107,145 @@ export class PersonGenerator extends BaseGenerator {
    * ```
    */
   public generate(options: PersonGenerationOptions = {}): PersonData {
+    return this.buildPerson(
+      0,
+      options,
+      new UniqueValueTracker(),
+      this.createIdFactory('person', options.idStrategy)
+    );
+  }
+
+  /**
+   * Generates multiple person records efficiently.
+   * Records are generated in batches that report progress and can be cancelled.
+   * Unique fields are redrawn on collision with the seeded generator, so seeded runs stay
+   * reproducible.
+   *
+   * @async
+   * @param {number} count - Number of person records to generate
+   * @param {PersonGenerationOptions} [options={}] - Options controlling which fields to include
+   * @param {GenerationControl} [control] - Progress callback and cancellation signal
+   * @returns {Promise<PersonData[]>} Array of person data objects
+   * @throws {UniqueValuesExhaustedError} If a unique field runs out of distinct values
+   * @throws {Error} If the generation is cancelled
+   * @example
+   * ```typescript
+   * const persons = await generator.generateMany(1000, {
+   *   includeAddress: true,
+   *   includePhone: true,
+   *   includeDateOfBirth: true
+   * });
+   * console.log(`Generated ${persons.length} persons`);
+   * ```
+   */
+  public generateMany(
+    count: number,
+    options: PersonGenerationOptions = {},
+    control?: GenerationControl
+  ): Promise<PersonData[]> {
+    const unique = new UniqueValueTracker(options.unique);
+    const nextId = this.createIdFactory('person', options.idStrategy);
+    return this.batchGenerate(
+      count,
+      (index) => this.buildPerson(index, options, unique, nextId),
+      control
+    );
+  }
+
+  /**
+   * Lazily generates person records one at a time, for counts too large to hold in memory.
+   * Yields exactly the same records as `generateMany` for the same seed and options.
+   *
+   * @param {number} count - Number of person records to generate
+   * @param {PersonGenerationOptions} [options={}] - Options controlling which fields to include
+   * @returns {Generator<PersonData>} Iterator over the generated records
+   * @example
+   * ```typescript
+   * for (const person of generator.stream(1_000_000)) {
+   *   sink.write(person);
+   * }
+   * ```
+   */
+  public stream(count: number, options: PersonGenerationOptions = {}): Generator<PersonData> {
+    const unique = new UniqueValueTracker(options.unique);
+    const nextId = this.createIdFactory('person', options.idStrategy);
+    return this.streamGenerate(count, (index) => this.buildPerson(index, options, unique, nextId));
+  }
+
+  /**
+   * Lists the CSV/TSV columns of person records generated with the given options: the
+   * flattened keys of a complete record, in record order. Sparse records lacking a field
+   * leave its cells empty, so inline and streamed output share the same columns.
+   *
+   * @param {PersonGenerationOptions} [options={}] - Options controlling which fields to include
+   * @returns {string[]} Column names, e.g. `address.city` for nested fields
+   * @example
+   * ```typescript
+   * generator.getColumns({ includeAddress: false });
+   * // ['id', 'firstName', 'lastName', 'fullName', 'email', 'phone']
+   * ```
+   */
+  public getColumns(options: PersonGenerationOptions = {}): string[] {
     const { includeAddress = true, includePhone = true, includeDateOfBirth = false } = options;
+    return [
+      'id',
+      'firstName',
+      'lastName',
+      'fullName',
+      'email',
+      ...(includePhone ? ['phone'] : []),
+      ...(includeDateOfBirth ? ['dateOfBirth'] : []),
+      ...(includeAddress
+        ? ['street', 'city', 'state', 'postalCode', 'country'].map((key) => `address.${key}`)
+        : []),
+    ];
+  }
 
-    const firstName = this.faker.person.firstName();
-    const lastName = this.faker.person.lastName();
-    const fullName = `${firstName} ${lastName}`;
+  /**
+   * Builds the person record at the given index.
+   *
+   * @private
+   * @param {number} index - Index of the record (used in the ID)
+   * @param {PersonGenerationOptions} options - Options controlling which fields to include
+   * @param {UniqueValueTracker} unique - Values of the unique fields generated so far
+   * @param {IdFactory} nextId - Produces the record's ID from its index
+   * @returns {PersonData} A person data object
+   */
+  private buildPerson(
+    index: number,
+    options: PersonGenerationOptions,
+    unique: UniqueValueTracker,
+    nextId: IdFactory
+  ): PersonData {
+    const {
+      includeAddress = true,
+      includePhone = true,
+      includeDateOfBirth = false,
+      sparsity = {},
+    } = options;
+
+    const { firstName, lastName, fullName } = unique.next(
+      PersonUniqueField.FULL_NAME,
+      () => {
+        const first = this.faker.person.firstName();
+        const last = this.faker.person.lastName();
+        return { firstName: first, lastName: last, fullName: `${first} ${last}` };
+      },
+      (name) => name.fullName
+    );
 
     const person: PersonData = {
-      id: this.generateId('person', 0),
+      id: nextId(index),
       firstName,
       lastName,
       fullName,
-      email: this.faker.internet.email({ firstName, lastName }).toLowerCase(),
+      email: unique.next(PersonUniqueField.EMAIL, () =>
+        this.faker.internet.email({ firstName, lastName }).toLowerCase()
+      ),
     };
 
     if (includePhone) {
-      person.phone = this.faker.phone.number();
+      person.phone = unique.next(PersonUniqueField.PHONE, () => this.faker.phone.number());
     }
 
     if (includeDateOfBirth) {
@@ -126,64 +265,10 @@ export class PersonGenerator extends BaseGenerator {
       };
     }
 
-    return person;
-  }
-
-  /**
-   * Generates multiple person records efficiently.
-   * Uses batch processing for large datasets to optimize memory usage.
-   *
-   * @param {number} count - Number of person records to generate
-   * @param {PersonGenerationOptions} [options={}] - Options controlling which fields to include
-   * @returns {PersonData[]} Array of person data objects
-   * @example
-   * ```typescript
-   * const persons = generator.generateMany(1000, {
-   *   includeAddress: true,
-   *   includePhone: true,
-   *   includeDateOfBirth: true
-   * });
-   * console.log(`Generated ${persons.length} persons`);
-   * ```
-   */
-  public generateMany(count: number, options: PersonGenerationOptions = {}): PersonData[] {
-    return this.batchGenerate(count, (index) => {
-      const { includeAddress = true, includePhone = true, includeDateOfBirth = false } = options;
-
-      const firstName = this.faker.person.firstName();
-      const lastName = this.faker.person.lastName();
-      const fullName = `${firstName} ${lastName}`;
-
-      const person: PersonData = {
-        id: this.generateId('person', index),
-        firstName,
-        lastName,
-        fullName,
-        email: this.faker.internet.email({ firstName, lastName }).toLowerCase(),
-      };
-
-      if (includePhone) {
-        person.phone = this.faker.phone.number();
-      }
-
-      if (includeDateOfBirth) {
-        person.dateOfBirth = this.faker.date
-          .birthdate({ min: 18, max: 100, mode: 'age' })
-          .toISOString()
-          .split('T')[0];
-      }
-
-      if (includeAddress) {
-        person.address = {
-          street: this.faker.location.streetAddress(),
-          city: this.faker.location.city(),
-          state: this.faker.location.state(),
-          postalCode: this.faker.location.zipCode(),
-          country: this.faker.location.country(),
-        };
-      }
+    for (const field of Object.values(PersonOptionalField)) {
+      this.applySparsity(person, field, sparsity[field]);
+    }
 
-      return person;
-    });
+    return person;
   }
 }
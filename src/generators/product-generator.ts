@@ -0,0 +1,395 @@
+import { BaseGenerator, BaseGeneratorOptions, type GenerationControl } from './base-generator.js';
+import { ProductData } from '../types/responses.js';
+import {
+  ProductOptionalField,
+  ProductUniqueField,
+  type FieldSparsity,
+  type IdStrategy,
+} from '../types/schema.js';
+import { UniqueValueTracker } from '../utils/unique-values.js';
+import { gtinCheckDigit } from '../utils/barcodes.js';
+import { LOCALE_CURRENCIES, minorUnitFactor } from '../utils/money.js';
+import type { IdFactory } from '../utils/id-strategies.js';
+
+/**
+ * Options for controlling product data generation.
+ *
+ * @interface ProductGenerationOptions
+ * @example
+ * ```typescript
+ * const options: ProductGenerationOptions = {
+ *   includeDimensions: true,
+ *   currency: 'EUR',
+ *   priceRange: { min: 5, max: 250 },
+ *   unique: [ProductUniqueField.SKU],
+ *   sparsity: { [ProductOptionalField.DESCRIPTION]: { nullRate: 0.1 } }
+ * };
+ * ```
+ */
+export interface ProductGenerationOptions {
+  /** Whether to include a description (defaults to true) */
+  includeDescription?: boolean;
+  /** Whether to include the stock level (defaults to true) */
+  includeStock?: boolean;
+  /** Whether to include package dimensions and weight (defaults to false) */
+  includeDimensions?: boolean;
+  /** Whether to include EAN-13 and UPC-A barcodes (defaults to true) */
+  includeBarcodes?: boolean;
+  /** Whether to include an image URL (defaults to true) */
+  includeImage?: boolean;
+  /** ISO 4217 currency code of prices (defaults to GBP, EUR for fr/de/es and JPY for ja) */
+  currency?: string;
+  /** Bounds of generated prices in `currency` (defaults to 1-1000) */
+  priceRange?: { min: number; max: number };
+  /** Fields whose values must be distinct across the generated records (defaults to none) */
+  unique?: ProductUniqueField[];
+  /** How often each optional field is null or omitted (defaults to never) */
+  sparsity?: Partial<Record<ProductOptionalField, FieldSparsity>>;
+  /** How record IDs are generated (defaults to `product_{seed}_{index}`) */
+  idStrategy?: IdStrategy;
+}
+
+/**
+ * Catalog taxonomy: departments, their subcategories and the product types of each
+ */
+const PRODUCT_CATEGORIES: Record<string, Record<string, string[]>> = {
+  Electronics: {
+    Audio: ['Headphones', 'Earbuds', 'Bluetooth Speaker', 'Soundbar'],
+    Computers: ['Laptop', 'Monitor', 'Keyboard', 'Mouse', 'Webcam'],
+    Phones: ['Smartphone', 'Phone Case', 'Charger', 'Power Bank'],
+  },
+  Home: {
+    Kitchen: ['Blender', 'Knife Set', 'Coffee Maker', 'Frying Pan'],
+    Furniture: ['Office Chair', 'Desk', 'Bookshelf', 'Side Table'],
+    Decor: ['Table Lamp', 'Vase', 'Wall Clock', 'Throw Pillow'],
+  },
+  Clothing: {
+    Men: ['Shirt', 'Jacket', 'Jeans', 'Sneakers'],
+    Women: ['Dress', 'Blouse', 'Skirt', 'Boots'],
+    Accessories: ['Belt', 'Scarf', 'Watch', 'Sunglasses'],
+  },
+  Sports: {
+    Fitness: ['Yoga Mat', 'Dumbbell Set', 'Jump Rope', 'Resistance Band'],
+    Outdoor: ['Tent', 'Hiking Backpack', 'Water Bottle', 'Sleeping Bag'],
+    Cycling: ['Bike Helmet', 'Bike Light', 'Saddle', 'Cycling Gloves'],
+  },
+  Toys: {
+    'Board Games': ['Strategy Game', 'Party Game', 'Chess Set'],
+    'Building Sets': ['Brick Set', 'Model Kit', 'Marble Run'],
+    Puzzles: ['Jigsaw Puzzle', '3D Puzzle', 'Puzzle Cube'],
+  },
+  Beauty: {
+    Skincare: ['Moisturizer', 'Cleanser', 'Face Serum', 'Sunscreen'],
+    Haircare: ['Shampoo', 'Conditioner', 'Hair Dryer', 'Hair Brush'],
+  },
+};
+
+/**
+ * Every [department, subcategory, product type] path of the taxonomy
+ */
+const CATEGORY_PATHS: Array<[string, string, string]> = Object.entries(PRODUCT_CATEGORIES).flatMap(
+  ([department, subcategories]) =>
+    Object.entries(subcategories).flatMap(([subcategory, types]) =>
+      types.map((type): [string, string, string] => [department, subcategory, type])
+    )
+);
+
+/**
+ * Adjectives for product names in locales without commerce data
+ */
+const FALLBACK_ADJECTIVES = ['Classic', 'Compact', 'Deluxe', 'Essential', 'Premium', 'Smart'];
+
+/**
+ * Generator for realistic product catalog data.
+ * Generates product records with SKUs, names and category paths drawn from one taxonomy,
+ * prices in a currency, stock levels, package dimensions and weights, EAN-13 and UPC-A
+ * barcodes with valid check digits, and image URLs.
+ * Supports multiple locales and reproducible generation via seeds.
+ *
+ * @class ProductGenerator
+ * @extends BaseGenerator
+ * @example
+ * ```typescript
+ * const generator = new ProductGenerator({
+ *   locale: SupportedLocale.EN,
+ *   seed: 12345
+ * });
+ *
+ * // Generate a single product
+ * const product = generator.generate({ includeDimensions: true });
+ *
+ * // Generate multiple products
+ * const products = await generator.generateMany(50, { currency: 'EUR' });
+ * ```
+ */
+export class ProductGenerator extends BaseGenerator {
+  /**
+   * Creates a new ProductGenerator instance.
+   *
+   * @constructor
+   * @param {BaseGeneratorOptions} [options={}] - Generator configuration options
+   * @example
+   * ```typescript
+   * const generator = new ProductGenerator({
+   *   locale: SupportedLocale.FR,
+   *   seed: 12345
+   * });
+   * ```
+   */
+  constructor(options: BaseGeneratorOptions = {}) {
+    super(options);
+  }
+
+  /**
+   * Generates a single product record.
+   *
+   * @param {ProductGenerationOptions} [options={}] - Options controlling which fields to include
+   * @returns {ProductData} A product data object
+   * @example
+   * ```typescript
+   * const product = generator.generate({ includeDimensions: true });
+   * // Returns: {
+   * //   id: 'product_12345_0',
+   * //   sku: 'ELE-AUD-04821',
+   * //   name: 'Kuhn Ergonomic Headphones',
+   * //   category: 'Headphones',
+   * //   categoryPath: 'Electronics > Audio > Headphones',
+   * //   price: 129.99,
+   * //   currency: 'GBP',
+   * //   ...
+   * // }
+   * ```
+   */
+  public generate(options: ProductGenerationOptions = {}): ProductData {
+    return this.buildProduct(
+      0,
+      options,
+      new UniqueValueTracker(),
+      this.createIdFactory('product', options.idStrategy)
+    );
+  }
+
+  /**
+   * Generates multiple product records efficiently.
+   * Records are generated in batches that report progress and can be cancelled.
+   * Unique fields are redrawn on collision, deterministically for a given seed.
+   *
+   * @async
+   * @param {number} count - Number of product records to generate
+   * @param {ProductGenerationOptions} [options={}] - Options controlling which fields to include
+   * @param {GenerationControl} [control] - Progress callback and cancellation signal
+   * @returns {Promise<ProductData[]>} Array of product data objects
+   * @throws {UniqueValuesExhaustedError} If a unique field runs out of distinct values
+   * @throws {Error} If the generation is cancelled
+   * @example
+   * ```typescript
+   * const products = await generator.generateMany(100, {
+   *   unique: [ProductUniqueField.SKU, ProductUniqueField.UPC]
+   * });
+   * ```
+   */
+  public generateMany(
+    count: number,
+    options: ProductGenerationOptions = {},
+    control?: GenerationControl
+  ): Promise<ProductData[]> {
+    const unique = new UniqueValueTracker(options.unique);
+    const nextId = this.createIdFactory('product', options.idStrategy);
+    return this.batchGenerate(
+      count,
+      (index) => this.buildProduct(index, options, unique, nextId),
+      control
+    );
+  }
+
+  /**
+   * Lazily generates product records one at a time, for counts too large to hold in memory.
+   * Yields exactly the same records as `generateMany` for the same seed and options.
+   *
+   * @param {number} count - Number of product records to generate
+   * @param {ProductGenerationOptions} [options={}] - Options controlling which fields to include
+   * @returns {Generator<ProductData>} Iterator over the generated records
+   * @example
+   * ```typescript
+   * for (const product of generator.stream(500_000)) {
+   *   sink.write(product);
+   * }
+   * ```
+   */
+  public stream(count: number, options: ProductGenerationOptions = {}): Generator<ProductData> {
+    const unique = new UniqueValueTracker(options.unique);
+    const nextId = this.createIdFactory('product', options.idStrategy);
+    return this.streamGenerate(count, (index) => this.buildProduct(index, options, unique, nextId));
+  }
+
+  /**
+   * Draws a commerce text, falling back for locales without commerce data.
+   *
+   * @private
+   * @param {Function} draw - Locale-specific draw
+   * @param {Function} fallback - Draw used when the locale lacks the data
+   * @returns {string} The drawn text
+   */
+  private commerceText(draw: () => string, fallback: () => string): string {
+    try {
+      return draw();
+    } catch {
+      return fallback();
+    }
+  }
+
+  /**
+   * Lists the CSV/TSV columns of product records generated with the given options: the
+   * flattened keys of a complete record, in record order. Sparse records lacking a field
+   * leave its cells empty, so inline and streamed output share the same columns.
+   *
+   * @param {ProductGenerationOptions} [options={}] - Options controlling which fields to include
+   * @returns {string[]} Column names, e.g. `dimensions.length` for nested fields
+   */
+  public getColumns(options: ProductGenerationOptions = {}): string[] {
+    const {
+      includeDescription = true,
+      includeStock = true,
+      includeDimensions = false,
+      includeBarcodes = true,
+      includeImage = true,
+    } = options;
+    return [
+      'id',
+      'sku',
+      'name',
+      'category',
+      'categoryPath',
+      ...(includeDescription ? ['description'] : []),
+      'price',
+      'currency',
+      ...(includeStock ? ['stock'] : []),
+      ...(includeDimensions
+        ? [
+            'dimensions.length',
+            'dimensions.width',
+            'dimensions.height',
+            'dimensions.unit',
+            'weight.value',
+            'weight.unit',
+          ]
+        : []),
+      ...(includeBarcodes ? ['ean', 'upc'] : []),
+      ...(includeImage ? ['imageUrl'] : []),
+    ];
+  }
+
+  /**
+   * Builds the product record at the given index.
+   *
+   * @private
+   * @param {number} index - Index of the record (used in the ID)
+   * @param {ProductGenerationOptions} options - Options controlling which fields to include
+   * @param {UniqueValueTracker} unique - Values of the unique fields generated so far
+   * @param {IdFactory} nextId - Produces the record's ID from its index
+   * @returns {ProductData} A product data object
+   */
+  private buildProduct(
+    index: number,
+    options: ProductGenerationOptions,
+    unique: UniqueValueTracker,
+    nextId: IdFactory
+  ): ProductData {
+    const {
+      includeDescription = true,
+      includeStock = true,
+      includeDimensions = false,
+      includeBarcodes = true,
+      includeImage = true,
+      currency = LOCALE_CURRENCIES[this.locale],
+      priceRange = { min: 1, max: 1000 },
+      sparsity = {},
+    } = options;
+
+    const [department, subcategory, type] = this.faker.helpers.arrayElement(CATEGORY_PATHS);
+    const code = (name: string) =>
+      name
+        .replace(/[^A-Za-z]/g, '')
+        .slice(0, 3)
+        .toUpperCase();
+
+    const sku = unique.next(
+      ProductUniqueField.SKU,
+      () =>
+        `${code(department)}-${code(subcategory)}-` +
+        this.faker.string.numeric({ length: 5, allowLeadingZeros: true })
+    );
+    const name = unique.next(ProductUniqueField.NAME, () => {
+      const adjective = this.commerceText(
+        () => this.faker.commerce.productAdjective(),
+        () => this.faker.helpers.arrayElement(FALLBACK_ADJECTIVES)
+      );
+      return `${this.faker.person.lastName()} ${adjective} ${type}`;
+    });
+
+    // Prices in currencies with a minor unit have two decimals
+    const amount = this.faker.number.float({ min: priceRange.min, max: priceRange.max });
+    const factor = minorUnitFactor(currency);
+    const price = Math.round(amount * factor) / factor;
+
+    const product: ProductData = {
+      id: nextId(index),
+      sku,
+      name,
+      category: type,
+      categoryPath: `${department} > ${subcategory} > ${type}`,
+      ...(includeDescription && {
+        description: this.commerceText(
+          () => this.faker.commerce.productDescription(),
+          () => `${name} from our ${subcategory.toLowerCase()} range.`
+        ),
+      }),
+      price,
+      currency,
+    };
+
+    if (includeStock) {
+      // About one product in ten is sold out
+      product.stock = this.faker.datatype.boolean({ probability: 0.1 })
+        ? 0
+        : this.faker.number.int({ min: 1, max: 500 });
+    }
+
+    if (includeDimensions) {
+      const round = (value: number) => Math.round(value * 10) / 10;
+      const dimensions = {
+        length: round(this.faker.number.float({ min: 5, max: 80 })),
+        width: round(this.faker.number.float({ min: 5, max: 60 })),
+        height: round(this.faker.number.float({ min: 1, max: 40 })),
+      };
+      // Weight follows the package volume at a plausible density (0.1-0.6 kg per liter)
+      const liters = (dimensions.length * dimensions.width * dimensions.height) / 1000;
+      const density = this.faker.number.float({ min: 0.1, max: 0.6 });
+      product.dimensions = { ...dimensions, unit: 'cm' };
+      product.weight = {
+        value: Math.max(0.01, Math.round(liters * density * 100) / 100),
+        unit: 'kg',
+      };
+    }
+
+    if (includeBarcodes) {
+      // The EAN-13 of a UPC-A product is the UPC with a leading zero
+      const upc = unique.next(ProductUniqueField.UPC, () => {
+        const digits = this.faker.string.numeric({ length: 11, allowLeadingZeros: true });
+        return `${digits}${gtinCheckDigit(digits)}`;
+      });
+      product.ean = `0${upc}`;
+      product.upc = upc;
+    }
+
+    if (includeImage) {
+      product.imageUrl = `https://picsum.photos/seed/${encodeURIComponent(sku)}/640/480`;
+    }
+
+    for (const field of Object.values(ProductOptionalField)) {
+      this.applySparsity(product, field, sparsity[field]);
+    }
+
+    return product;
+  }
+}
@@ -0,0 +1,314 @@
+import { BaseGenerator, BaseGeneratorOptions, type GenerationControl } from './base-generator.js';
+import type { TimeSeriesAnomaly, TimeSeriesPoint } from '../types/responses.js';
+import { TimeSeriesSpacing, type TimeSeriesMetric } from '../types/schema.js';
+
+const HOUR = 3_600_000;
+const DAY = 86_400_000;
+
+/**
+ * Options for controlling time series generation.
+ *
+ * @interface TimeSeriesGenerationOptions
+ * @example
+ * ```typescript
+ * const options: TimeSeriesGenerationOptions = {
+ *   metrics: [{ name: 'cpu', baseline: 40, seasonality: { daily: 15 }, noise: 3, min: 0, max: 100 }],
+ *   start: '2024-12-01T00:00:00Z',
+ *   interval: 300_000,
+ *   gaps: { rate: 0.001, maxLength: 12 }
+ * };
+ * ```
+ */
+export interface TimeSeriesGenerationOptions {
+  /** Metrics recorded at each point */
+  metrics: TimeSeriesMetric[];
+  /** Time of the first point (ISO 8601, defaults to one day before `end`) */
+  start?: string;
+  /** End of the series, exclusive (ISO 8601, defaults to the reference date) */
+  end?: string;
+  /** Milliseconds between points (defaults to one hour) */
+  interval?: number;
+  /** Whether points fall on interval boundaries or at random within their interval */
+  spacing?: TimeSeriesSpacing;
+  /** Chance that an outage starts at each point, and its longest length in points (defaults to 5) */
+  gaps?: { rate: number; maxLength?: number };
+}
+
+/**
+ * Time span of a series, divided into intervals that each hold at most one point.
+ *
+ * @interface TimeSeriesWindow
+ */
+export interface TimeSeriesWindow {
+  /** Start and exclusive end of the series (epoch milliseconds) */
+  start: number;
+  end: number;
+  interval: number;
+  /** Number of intervals, which is the number of points before gaps are removed */
+  slots: number;
+}
+
+/**
+ * Generated time series and the anomalies placed in it.
+ *
+ * @interface TimeSeriesData
+ */
+export interface TimeSeriesData {
+  points: TimeSeriesPoint[];
+  anomalies: TimeSeriesAnomaly[];
+}
+
+/**
+ * State shared by the points of one generation run: the window, the level of each metric's
+ * random walk and the points left in the current gap.
+ */
+interface TimeSeriesRun {
+  window: TimeSeriesWindow;
+  walks: number[];
+  gapLeft: number;
+  onAnomaly: (anomaly: TimeSeriesAnomaly) => void;
+}
+
+/**
+ * Generator for time series of one or more metrics, for dashboards and anomaly detection
+ * tests. Each metric combines a linear trend, daily and weekly seasonality, a random walk,
+ * Gaussian noise and spikes; outages remove runs of points from all metrics.
+ * Supports reproducible generation via seeds.
+ *
+ * @class TimeSeriesGenerator
+ * @extends BaseGenerator
+ * @example
+ * ```typescript
+ * const generator = new TimeSeriesGenerator({ seed: 12345 });
+ *
+ * const { points, anomalies } = await generator.generateMany({
+ *   metrics: [{ name: 'latency_ms', baseline: 120, noise: 8, spikes: { rate: 0.01, magnitude: 900 } }],
+ *   interval: 60_000
+ * });
+ * ```
+ */
+export class TimeSeriesGenerator extends BaseGenerator {
+  /**
+   * Creates a new TimeSeriesGenerator instance.
+   *
+   * @constructor
+   * @param {BaseGeneratorOptions} [options={}] - Generator configuration options
+   */
+  constructor(options: BaseGeneratorOptions = {}) {
+    super(options);
+  }
+
+  /**
+   * Resolves the time span and interval of a series, filling in the defaults: a span of one
+   * day that ends at the reference date, and one point per hour.
+   *
+   * @param {TimeSeriesGenerationOptions} options - Series options
+   * @returns {TimeSeriesWindow} The window; it has no slots when the start is not before the end
+   * @example
+   * ```typescript
+   * generator.getWindow({ metrics, interval: 900_000 }).slots; // 96
+   * ```
+   */
+  public getWindow(options: TimeSeriesGenerationOptions): TimeSeriesWindow {
+    const end = options.end ? new Date(options.end).getTime() : this.referenceDate.getTime();
+    const start = options.start ? new Date(options.start).getTime() : end - DAY;
+    const interval = options.interval ?? HOUR;
+
+    return { start, end, interval, slots: Math.max(0, Math.ceil((end - start) / interval)) };
+  }
+
+  /**
+   * Generates a whole series in memory, with the list of its spikes and gaps.
+   * Points are generated in batches that report progress (counted in intervals) and can be
+   * cancelled.
+   *
+   * @async
+   * @param {TimeSeriesGenerationOptions} options - Metrics, window, spacing and gaps
+   * @param {GenerationControl} [control] - Progress callback and cancellation signal
+   * @returns {Promise<TimeSeriesData>} Points in chronological order and their anomalies
+   * @throws {Error} If the generation is cancelled
+   */
+  public async generateMany(
+    options: TimeSeriesGenerationOptions,
+    control?: GenerationControl
+  ): Promise<TimeSeriesData> {
+    const anomalies: TimeSeriesAnomaly[] = [];
+    const run = this.createRun(options, (anomaly) => anomalies.push(anomaly));
+    const slots = await this.batchGenerate(
+      run.window.slots,
+      (index) => this.buildPoint(index, options, run),
+      control
+    );
+
+    return {
+      points: slots.filter((point): point is TimeSeriesPoint => point !== undefined),
+      anomalies,
+    };
+  }
+
+  /**
+   * Lazily generates the points of a series one at a time, for series too long to hold in
+   * memory. Yields exactly the same points as `generateMany` for the same seed and options.
+   *
+   * @param {TimeSeriesGenerationOptions} options - Metrics, window, spacing and gaps
+   * @param {Function} [onAnomaly] - Called with each spike and gap as it is generated
+   * @returns {Generator<TimeSeriesPoint>} Iterator over the points
+   */
+  public *stream(
+    options: TimeSeriesGenerationOptions,
+    onAnomaly: (anomaly: TimeSeriesAnomaly) => void = () => {}
+  ): Generator<TimeSeriesPoint> {
+    const run = this.createRun(options, onAnomaly);
+    const slots = this.streamGenerate(run.window.slots, (index) =>
+      this.buildPoint(index, options, run)
+    );
+    for (const point of slots) {
+      if (point) {
+        yield point;
+      }
+    }
+  }
+
+  /**
+   * Sets up the state of a run.
+   *
+   * @private
+   * @param {TimeSeriesGenerationOptions} options - Series options
+   * @param {Function} onAnomaly - Receives the spikes and gaps of the run
+   * @returns {TimeSeriesRun} Fresh run state
+   */
+  private createRun(
+    options: TimeSeriesGenerationOptions,
+    onAnomaly: (anomaly: TimeSeriesAnomaly) => void
+  ): TimeSeriesRun {
+    return {
+      window: this.getWindow(options),
+      walks: options.metrics.map(() => 0),
+      gapLeft: 0,
+      onAnomaly,
+    };
+  }
+
+  /**
+   * Builds the point of the given interval. Values are drawn even for intervals inside a
+   * gap, so random walks carry on through outages; those points are then dropped.
+   *
+   * @private
+   * @param {number} index - Index of the interval
+   * @param {TimeSeriesGenerationOptions} options - Series options
+   * @param {TimeSeriesRun} run - State shared by the points of the run
+   * @returns {TimeSeriesPoint | undefined} The point, or undefined inside a gap
+   */
+  private buildPoint(
+    index: number,
+    options: TimeSeriesGenerationOptions,
+    run: TimeSeriesRun
+  ): TimeSeriesPoint | undefined {
+    const { number, datatype } = this.faker;
+    const { start, end, interval, slots } = run.window;
+    const slotStart = start + index * interval;
+
+    if (run.gapLeft === 0 && options.gaps && datatype.boolean({ probability: options.gaps.rate })) {
+      const length = Math.min(
+        number.int({ min: 1, max: options.gaps.maxLength ?? 5 }),
+        slots - index
+      );
+      run.gapLeft = length;
+      run.onAnomaly({
+        kind: 'gap',
+        start: new Date(slotStart).toISOString(),
+        end: new Date(Math.min(slotStart + length * interval, end)).toISOString(),
+        points: length,
+      });
+    }
+    const missing = run.gapLeft > 0;
+    if (missing) {
+      run.gapLeft--;
+    }
+
+    // Irregular points keep to their own interval, so they stay in chronological order
+    const time =
+      options.spacing === TimeSeriesSpacing.IRREGULAR
+        ? slotStart +
+          number.int({ min: 0, max: Math.max(0, Math.min(interval, end - slotStart) - 1) })
+        : slotStart;
+    const timestamp = new Date(time).toISOString();
+
+    const point: TimeSeriesPoint = { timestamp };
+    options.metrics.forEach((metric, position) => {
+      point[metric.name] = this.buildValue(metric, position, time, timestamp, missing, run);
+    });
+
+    return missing ? undefined : point;
+  }
+
+  /**
+   * Computes the value of one metric at a point in time.
+   * Daily waves peak at 14:00 UTC and bottom out at 02:00; weekly waves peak on Wednesday
+   * and bottom out on Sunday. Components without a setting draw nothing from the seeded
+   * generator.
+   *
+   * @private
+   * @param {TimeSeriesMetric} metric - Metric definition
+   * @param {number} position - Index of the metric, which selects its random walk
+   * @param {number} time - Time of the point (epoch milliseconds)
+   * @param {string} timestamp - Time of the point, reported with spikes
+   * @param {boolean} missing - Whether the point falls in a gap (its spikes are not reported)
+   * @param {TimeSeriesRun} run - State shared by the points of the run
+   * @returns {number} The clamped and rounded value
+   */
+  private buildValue(
+    metric: TimeSeriesMetric,
+    position: number,
+    time: number,
+    timestamp: string,
+    missing: boolean,
+    run: TimeSeriesRun
+  ): number {
+    const days = (time - run.window.start) / DAY;
+    const hourOfDay = (((time % DAY) + DAY) % DAY) / HOUR;
+    // The epoch fell on a Thursday; weeks are counted from Sunday 00:00
+    const dayOfWeek = (((time / DAY + 4) % 7) + 7) % 7;
+
+    let value =
+      (metric.baseline ?? 0) +
+      (metric.trend ?? 0) * days +
+      (metric.seasonality?.daily ?? 0) * -Math.cos((2 * Math.PI * (hourOfDay - 2)) / 24) +
+      (metric.seasonality?.weekly ?? 0) * -Math.cos((2 * Math.PI * dayOfWeek) / 7);
+
+    if (metric.randomWalk) {
+      run.walks[position] = (run.walks[position] ?? 0) + metric.randomWalk * this.gaussian();
+    }
+    value += run.walks[position] ?? 0;
+
+    if (metric.noise) {
+      value += metric.noise * this.gaussian();
+    }
+
+    const factor = 10 ** (metric.decimals ?? 2);
+    const round = (amount: number) => Math.round(amount * factor) / factor;
+
+    if (metric.spikes && this.faker.datatype.boolean({ probability: metric.spikes.rate })) {
+      const delta = metric.spikes.magnitude * this.faker.number.float({ min: 0.5, max: 1.5 });
+      value += delta;
+      if (!missing) {
+        run.onAnomaly({ kind: 'spike', timestamp, metric: metric.name, delta: round(delta) });
+      }
+    }
+
+    const clamped = Math.min(Math.max(value, metric.min ?? -Infinity), metric.max ?? Infinity);
+    return round(clamped);
+  }
+
+  /**
+   * Draws a standard normal value with the Box-Muller transform.
+   *
+   * @private
+   * @returns {number} Value with mean 0 and standard deviation 1
+   */
+  private gaussian(): number {
+    const u = Math.max(this.faker.number.float({ min: 0, max: 1 }), Number.EPSILON);
+    const v = this.faker.number.float({ min: 0, max: 1 });
+    return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+  }
+}
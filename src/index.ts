@@ -4,16 +4,71 @@
  * Faker MCP Server Entry Point
  *
  * This is the main entry point for the Faker MCP server.
- * It initializes the server, registers all tools, and starts listening for MCP requests.
+ * It initializes the server, registers all tools, and starts listening for MCP requests
+ * on stdio or HTTP as selected by command line flags or FAKER_MCP_* environment variables.
  */
 
-import { FakerMCPServer } from './server.js';
+import { FakerMCPServer, TransportType } from './server.js';
 import { generatePersonTool, handleGeneratePerson } from './tools/generate-person.js';
 import { generateCompanyTool, handleGenerateCompany } from './tools/generate-company.js';
+import { generateProductTool, handleGenerateProduct } from './tools/generate-product.js';
+import { generateFinancialTool, handleGenerateFinancial } from './tools/generate-financial.js';
+import { generateLogsTool, handleGenerateLogs } from './tools/generate-logs.js';
+import { generateTimeSeriesTool, handleGenerateTimeSeries } from './tools/generate-timeseries.js';
 import { generateDatasetTool, handleGenerateDataset } from './tools/generate-dataset.js';
 import { generateCustomTool, handleGenerateCustom } from './tools/generate-custom.js';
+import {
+  generateFromJsonSchemaTool,
+  handleGenerateFromJsonSchema,
+} from './tools/generate-from-json-schema.js';
+import {
+  generateFromOpenApiTool,
+  handleGenerateFromOpenApi,
+} from './tools/generate-from-openapi.js';
+import {
+  generateFromDbSchemaTool,
+  handleGenerateFromDbSchema,
+} from './tools/generate-from-db-schema.js';
+
+import { FIXTURE_SCENARIOS, handleFixturePrompt } from './prompts/fixture-prompts.js';
+import { CLI_USAGE, parseCliOptions, type CliOptions } from './utils/cli-options.js';
+
+/**
+ * Closes the server on SIGINT and SIGTERM so open HTTP sessions end cleanly.
+ * A second signal exits immediately.
+ */
+function registerShutdown(server: FakerMCPServer): void {
+  let closing = false;
+  const shutdown = () => {
+    if (closing) {
+      process.exit(1);
+    }
+    closing = true;
+    server.close().then(
+      () => process.exit(0),
+      (error: unknown) => {
+        console.error('Failed to shut down Faker MCP server cleanly:', error);
+        process.exit(1);
+      }
+    );
+  };
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+}
 
 async function main() {
+  let options: CliOptions;
+  try {
+    options = parseCliOptions(process.argv.slice(2), process.env);
+  } catch (error) {
+    console.error(`${error instanceof Error ? error.message : String(error)}\n\n${CLI_USAGE}`);
+    process.exit(2);
+  }
+  if (options.help) {
+    console.error(CLI_USAGE);
+    process.exit(0);
+  }
+
   try {
     const server = new FakerMCPServer();
 
@@ -22,18 +77,46 @@ async function main() {
     server.registerTool(generateCompanyTool, handleGenerateCompany);
 
     // Register User Story 2 tool: generate-dataset
-    server.registerTool(generateDatasetTool, async (args) => {
-      await Promise.resolve();
-      return handleGenerateDataset(args);
-    });
+    server.registerTool(generateDatasetTool, handleGenerateDataset);
 
     // Register User Story 3 tool: generate-custom
     server.registerTool(generateCustomTool, handleGenerateCustom);
 
-    await server.start();
+    // Register schema-driven tools: generate-from-json-schema, generate-from-openapi and
+    // generate-from-db-schema
+    server.registerTool(generateFromJsonSchemaTool, handleGenerateFromJsonSchema);
+    server.registerTool(generateFromOpenApiTool, handleGenerateFromOpenApi);
+    server.registerTool(generateFromDbSchemaTool, handleGenerateFromDbSchema);
+
+    // Register catalog tool: generate-product
+    server.registerTool(generateProductTool, handleGenerateProduct);
+
+    // Register payments tool: generate-financial
+    server.registerTool(generateFinancialTool, handleGenerateFinancial);
+
+    // Register observability tool: generate-logs
+    server.registerTool(generateLogsTool, handleGenerateLogs);
+
+    // Register metrics tool: generate-timeseries
+    server.registerTool(generateTimeSeriesTool, handleGenerateTimeSeries);
+
+    // Register fixture scenario prompts: ecommerce-test-database, saas-multi-tenant-users, hr-directory
+    for (const scenario of FIXTURE_SCENARIOS) {
+      server.registerPrompt(scenario.prompt, (args) => handleFixturePrompt(scenario, args));
+    }
+
+    await server.start(options);
+    registerShutdown(server);
 
-    // Server is now running and listening on stdio
-    // No need to log anything as MCP uses stdio for communication
+    // With stdio, stdout carries the protocol, so nothing is logged there
+    if (options.transport === TransportType.HTTP) {
+      const address = server.getHttpAddress();
+      console.error(
+        `Faker MCP server listening on http://${address?.address ?? options.host}:${
+          address?.port ?? options.port
+        } (streamable HTTP at /mcp, SSE at /sse)`
+      );
+    }
   } catch (error) {
     console.error('Failed to start Faker MCP server:', error);
     process.exit(1);
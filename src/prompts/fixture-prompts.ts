@@ -0,0 +1,439 @@
+import { z } from 'zod';
+import { Prompt } from '@modelcontextprotocol/sdk/types.js';
+import {
+  CardinalityDistribution,
+  EntityType,
+  FieldType,
+  PatternType,
+  RelationshipType,
+  SupportedLocale,
+  type DatasetSchema,
+  type EntityDefinition,
+} from '../types/schema.js';
+import { validateDatasetSchema } from '../utils/validators.js';
+
+/**
+ * Record count multipliers of the fixture scales.
+ *
+ * @constant
+ */
+export const FIXTURE_SCALES = {
+  small: 1,
+  medium: 10,
+  large: 100,
+} as const;
+
+/**
+ * Seed used when a fixture prompt is expanded without one, so fixtures are reproducible.
+ *
+ * @constant
+ */
+export const DEFAULT_FIXTURE_SEED = 42;
+
+/**
+ * Maximum records per entity accepted by generate-dataset.
+ */
+const MAX_ENTITY_COUNT = 10000;
+
+/**
+ * Fixture scale name.
+ *
+ * @typedef {keyof typeof FIXTURE_SCALES} FixtureScale
+ */
+export type FixtureScale = keyof typeof FIXTURE_SCALES;
+
+/**
+ * Zod validation schema for fixture prompt arguments.
+ * MCP prompt arguments are strings, so the seed is parsed from its decimal text.
+ *
+ * @constant
+ * @type {z.ZodObject}
+ */
+export const FixturePromptArgsSchema = z.object({
+  scale: z.enum(Object.keys(FIXTURE_SCALES) as [FixtureScale, ...FixtureScale[]]).default('small'),
+  locale: z.nativeEnum(SupportedLocale).default(SupportedLocale.EN),
+  seed: z
+    .string()
+    .regex(/^\d+$/, 'seed must be a non-negative integer')
+    .transform(Number)
+    .optional(),
+});
+
+/**
+ * Type definition for fixture prompt arguments, inferred from Zod schema.
+ *
+ * @typedef {z.infer<typeof FixturePromptArgsSchema>} FixturePromptArgs
+ */
+export type FixturePromptArgs = z.infer<typeof FixturePromptArgsSchema>;
+
+/**
+ * Fixture scenario published as an MCP prompt.
+ *
+ * @interface FixtureScenario
+ */
+export interface FixtureScenario {
+  /** MCP prompt definition */
+  prompt: Prompt;
+  /** What the generated fixture contains, used in the expanded prompt */
+  summary: string;
+  /** Entities at the small scale; counts are multiplied for larger scales */
+  entities: Record<string, EntityDefinition>;
+  /** Entities whose count does not grow with the scale (e.g. a fixed list of departments) */
+  fixed?: string[];
+}
+
+/**
+ * Arguments shared by every fixture prompt
+ */
+const FIXTURE_ARGUMENTS: Prompt['arguments'] = [
+  {
+    name: 'scale',
+    description: `Dataset size: ${Object.entries(FIXTURE_SCALES)
+      .map(([scale, multiplier]) => `${scale} (x${multiplier})`)
+      .join(', ')}. Defaults to small`,
+    required: false,
+  },
+  {
+    name: 'locale',
+    description: `Locale for generated data: ${Object.values(SupportedLocale).join(', ')}. Defaults to en`,
+    required: false,
+  },
+  {
+    name: 'seed',
+    description: `Seed for reproducible generation. Defaults to ${DEFAULT_FIXTURE_SEED}`,
+    required: false,
+  },
+];
+
+/**
+ * Fixture scenarios published as MCP prompts.
+ *
+ * @constant
+ * @type {FixtureScenario[]}
+ */
+export const FIXTURE_SCENARIOS: FixtureScenario[] = [
+  {
+    prompt: {
+      name: 'ecommerce-test-database',
+      description:
+        'E-commerce test database: customers, products, orders and order items with referential integrity',
+      arguments: FIXTURE_ARGUMENTS,
+    },
+    summary:
+      'customers, a product catalog, orders placed by customers (a few customers order a lot) and 1-5 line items per order',
+    entities: {
+      customers: { count: 20, type: EntityType.PERSON },
+      products: {
+        count: 30,
+        type: EntityType.CUSTOM,
+        fields: [
+          'productName',
+          { name: 'sku', pattern: { type: PatternType.REGEX, value: 'SKU-[A-Z]{3}-\\d{5}' } },
+          {
+            name: 'category',
+            pattern: {
+              type: PatternType.ENUM,
+              value: ['electronics', 'clothing', 'home', 'garden', 'toys', 'books'],
+            },
+          },
+          'price',
+          {
+            name: 'stock',
+            pattern: { type: PatternType.RANGE, value: { min: 0, max: 500 } },
+          },
+        ],
+      },
+      orders: {
+        count: 50,
+        type: EntityType.CUSTOM,
+        fields: [
+          'customerId',
+          {
+            name: 'status',
+            pattern: {
+              type: PatternType.ENUM,
+              value: ['pending', 'paid', 'shipped', 'delivered', 'cancelled'],
+            },
+          },
+          { name: 'orderedAt', type: FieldType.DATETIME },
+        ],
+        relationships: {
+          customerId: {
+            references: 'customers',
+            type: RelationshipType.ONE_TO_MANY,
+            cardinality: { distribution: CardinalityDistribution.ZIPF },
+          },
+        },
+      },
+      order_items: {
+        count: 150,
+        type: EntityType.CUSTOM,
+        fields: [
+          'orderId',
+          'productId',
+          { name: 'quantity', pattern: { type: PatternType.RANGE, value: { min: 1, max: 5 } } },
+          'unitPrice',
+        ],
+        relationships: {
+          orderId: {
+            references: 'orders',
+            type: RelationshipType.ONE_TO_MANY,
+            cardinality: { min: 1, max: 5 },
+          },
+          productId: { references: 'products', type: RelationshipType.ONE_TO_MANY },
+        },
+      },
+    },
+  },
+  {
+    prompt: {
+      name: 'saas-multi-tenant-users',
+      description:
+        'SaaS multi-tenant users: tenant companies, their users and subscriptions, plus role memberships',
+      arguments: FIXTURE_ARGUMENTS,
+    },
+    summary:
+      'tenant companies, users belonging to one tenant each (tenant sizes are skewed), one subscription per tenant and one role membership per user',
+    entities: {
+      tenants: { count: 10, type: EntityType.COMPANY },
+      users: {
+        count: 50,
+        type: EntityType.PERSON,
+        relationships: {
+          tenantId: {
+            references: 'tenants',
+            type: RelationshipType.ONE_TO_MANY,
+            cardinality: { min: 1, distribution: CardinalityDistribution.PARETO },
+          },
+        },
+      },
+      subscriptions: {
+        count: 10,
+        type: EntityType.CUSTOM,
+        fields: [
+          'tenantId',
+          {
+            name: 'plan',
+            pattern: { type: PatternType.ENUM, value: ['free', 'starter', 'pro', 'enterprise'] },
+          },
+          {
+            name: 'status',
+            pattern: {
+              type: PatternType.ENUM,
+              value: ['trialing', 'active', 'past_due', 'canceled'],
+            },
+          },
+          { name: 'seats', pattern: { type: PatternType.RANGE, value: { min: 1, max: 250 } } },
+          { name: 'renewsOn', type: FieldType.DATE },
+        ],
+        relationships: {
+          tenantId: {
+            references: 'tenants',
+            type: RelationshipType.ONE_TO_MANY,
+            cardinality: { min: 1, max: 1 },
+          },
+        },
+      },
+      memberships: {
+        count: 50,
+        type: EntityType.CUSTOM,
+        fields: [
+          'userId',
+          {
+            name: 'role',
+            pattern: { type: PatternType.ENUM, value: ['owner', 'admin', 'member', 'viewer'] },
+          },
+          { name: 'invitedAt', type: FieldType.DATETIME },
+        ],
+        relationships: {
+          userId: {
+            references: 'users',
+            type: RelationshipType.ONE_TO_MANY,
+            cardinality: { min: 1, max: 1 },
+          },
+        },
+      },
+    },
+  },
+  {
+    prompt: {
+      name: 'hr-directory',
+      description: 'HR directory: departments, employees and their employment records',
+      arguments: FIXTURE_ARGUMENTS,
+    },
+    summary:
+      'departments with cost centers, employees assigned to departments and one employment record (title, contract, salary, start date) per employee',
+    fixed: ['departments'],
+    entities: {
+      departments: {
+        count: 8,
+        type: EntityType.CUSTOM,
+        fields: [
+          {
+            name: 'name',
+            pattern: {
+              type: PatternType.ENUM,
+              value: [
+                'Engineering',
+                'Sales',
+                'Marketing',
+                'Finance',
+                'Human Resources',
+                'Operations',
+                'Legal',
+                'Customer Support',
+              ],
+            },
+          },
+          { name: 'costCenter', pattern: { type: PatternType.FORMAT, value: 'CC-{{number:4}}' } },
+        ],
+      },
+      employees: {
+        count: 40,
+        type: EntityType.PERSON,
+        relationships: {
+          departmentId: {
+            references: 'departments',
+            type: RelationshipType.ONE_TO_MANY,
+            cardinality: { min: 1 },
+          },
+        },
+      },
+      employments: {
+        count: 40,
+        type: EntityType.CUSTOM,
+        fields: [
+          'employeeId',
+          {
+            name: 'jobTitle',
+            pattern: {
+              type: PatternType.ENUM,
+              value: [
+                'Associate',
+                'Specialist',
+                'Senior Specialist',
+                'Team Lead',
+                'Manager',
+                'Director',
+              ],
+            },
+          },
+          {
+            name: 'employmentType',
+            pattern: { type: PatternType.ENUM, value: ['full-time', 'part-time', 'contractor'] },
+          },
+          {
+            name: 'salary',
+            pattern: { type: PatternType.RANGE, value: { min: 35000, max: 180000 } },
+          },
+          { name: 'startDate', type: FieldType.DATE },
+        ],
+        relationships: {
+          employeeId: {
+            references: 'employees',
+            type: RelationshipType.ONE_TO_MANY,
+            cardinality: { min: 1, max: 1 },
+          },
+        },
+      },
+    },
+  },
+];
+
+/**
+ * Builds the dataset schema of a fixture scenario at a scale.
+ * Counts of entities that are not fixed are multiplied by the scale and capped at 10,000
+ * records per entity.
+ *
+ * @param {FixtureScenario} scenario - Fixture scenario
+ * @param {FixtureScale} scale - Fixture scale
+ * @returns {DatasetSchema} Dataset schema for generate-dataset
+ * @throws {Error} If the scaled schema is invalid
+ * @example
+ * ```typescript
+ * const schema = buildFixtureSchema(FIXTURE_SCENARIOS[0], 'medium');
+ * // schema.entities.orders.count → 500
+ * ```
+ */
+export function buildFixtureSchema(scenario: FixtureScenario, scale: FixtureScale): DatasetSchema {
+  const multiplier = FIXTURE_SCALES[scale];
+  const schema: DatasetSchema = {
+    entities: Object.fromEntries(
+      Object.entries(scenario.entities).map(([name, entity]) => [
+        name,
+        scenario.fixed?.includes(name)
+          ? entity
+          : { ...entity, count: Math.min(entity.count * multiplier, MAX_ENTITY_COUNT) },
+      ])
+    ),
+  };
+
+  const validation = validateDatasetSchema(schema);
+  if (!validation.valid) {
+    throw new Error(
+      `Invalid ${scenario.prompt.name} schema at ${scale} scale: ${validation.errors.join(', ')}`
+    );
+  }
+  return schema;
+}
+
+/**
+ * Expands a fixture prompt into a user message asking to call generate-dataset with a
+ * ready-made schema.
+ *
+ * @param {FixtureScenario} scenario - Fixture scenario
+ * @param {Record<string, string>} [args] - Raw prompt arguments from the MCP client
+ * @returns {Promise<{ description: string; messages: unknown[] }>} MCP prompt result
+ * @throws {Error} If argument validation fails
+ * @example
+ * ```typescript
+ * const result = await handleFixturePrompt(FIXTURE_SCENARIOS[0], { scale: 'medium', locale: 'de' });
+ * ```
+ */
+export function handleFixturePrompt(
+  scenario: FixtureScenario,
+  args?: Record<string, string>
+): Promise<{ description: string; messages: unknown[] }> {
+  try {
+    const params = FixturePromptArgsSchema.parse(args ?? {});
+    const schema = buildFixtureSchema(scenario, params.scale);
+    const toolArguments = {
+      schema,
+      locale: params.locale,
+      seed: params.seed ?? DEFAULT_FIXTURE_SEED,
+    };
+    const counts = Object.entries(schema.entities)
+      .map(([name, entity]) => `${entity.count} ${name}`)
+      .join(', ');
+
+    return Promise.resolve({
+      description: `${scenario.prompt.description} (${params.scale}: ${counts})`,
+      messages: [
+        {
+          role: 'user',
+          content: {
+            type: 'text',
+            text: [
+              `Generate a ${scenario.prompt.name} fixture: ${scenario.summary}.`,
+              '',
+              'Call the generate-dataset tool with exactly these arguments:',
+              '',
+              '```json',
+              JSON.stringify(toolArguments, null, 2),
+              '```',
+              '',
+              `Then summarize the generated records (${counts}) and how the entities reference each other.`,
+            ].join('\n'),
+          },
+        },
+      ],
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      throw new Error(
+        `Invalid arguments: ${error.errors.map((e) => `${e.path.join('.')}: ${e.message}`).join(', ')}`
+      );
+    }
+    throw error;
+  }
+}
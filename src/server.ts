@@ -2,13 +2,134 @@ import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import {
   CallToolRequestSchema,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
   ListToolsRequestSchema,
+  Prompt,
+  ReadResourceRequestSchema,
   Tool,
 } from '@modelcontextprotocol/sdk/types.js';
+import type { AddressInfo } from 'node:net';
+import { ResourceRegistry, type ResourceRegistryOptions } from './utils/resource-registry.js';
+import { toolErrorResult } from './utils/tool-errors.js';
+import type { FileAccessPolicy } from './utils/file-access.js';
+import { McpHttpServer } from './transports/http-server.js';
+
+/**
+ * Transport the server listens on.
+ *
+ * @enum {string}
+ */
+export enum TransportType {
+  /** MCP over stdin/stdout of a process spawned by the client */
+  STDIO = 'stdio',
+  /** MCP over HTTP: streamable HTTP at /mcp and legacy SSE at /sse */
+  HTTP = 'http',
+}
+
+/**
+ * Default interface the HTTP transport binds.
+ *
+ * @constant
+ */
+export const DEFAULT_HTTP_HOST = '127.0.0.1';
+
+/**
+ * Default port of the HTTP transport.
+ *
+ * @constant
+ */
+export const DEFAULT_HTTP_PORT = 3000;
+
+/**
+ * Per-call context passed to tool handlers.
+ *
+ * @interface ToolContext
+ * @example
+ * ```typescript
+ * async function handler(args: unknown, context?: ToolContext) {
+ *   await context?.reportProgress(500, 1000);
+ *   return { content: [] };
+ * }
+ * ```
+ */
+export interface ToolContext {
+  /**
+   * Sends an MCP progress notification for the current call.
+   * A no-op unless the client supplied a progress token with the request.
+   */
+  reportProgress: (progress: number, total?: number) => Promise<void>;
+  /** Aborted when the client cancels the call; long-running generations stop between batches */
+  signal?: AbortSignal;
+  /** Server files the call may read and write; calls without it are not confined */
+  fileAccess?: FileAccessPolicy;
+}
+
+/**
+ * Function that handles calls of a registered tool.
+ * Errors it throws are returned to the client as `isError` results; a `ToolError` adds
+ * machine-readable details about the offending arguments.
+ *
+ * @typedef {Function} ToolHandler
+ */
+export type ToolHandler = (args: unknown, context?: ToolContext) => Promise<{ content: unknown[] }>;
+
+/**
+ * Function that expands a registered prompt with its arguments into messages.
+ *
+ * @typedef {Function} PromptHandler
+ */
+export type PromptHandler = (
+  args?: Record<string, string>
+) => Promise<{ description?: string; messages: unknown[] }>;
+
+/**
+ * Options for creating a FakerMCPServer.
+ *
+ * @interface FakerMCPServerOptions
+ * @example
+ * ```typescript
+ * const server = new FakerMCPServer({ resources: { maxEntries: 10 } });
+ * ```
+ */
+export interface FakerMCPServerOptions {
+  /** Eviction limits of the registry holding generated data as resources */
+  resources?: ResourceRegistryOptions;
+}
+
+/**
+ * Options for starting a FakerMCPServer.
+ *
+ * @interface ServerStartOptions
+ * @example
+ * ```typescript
+ * const options: ServerStartOptions = { transport: TransportType.HTTP, port: 8080 };
+ * ```
+ */
+export interface ServerStartOptions {
+  /** Transport to listen on (defaults to stdio) */
+  transport?: TransportType;
+  /** Interface the HTTP transport binds (defaults to 127.0.0.1) */
+  host?: string;
+  /** Port of the HTTP transport (defaults to 3000; 0 picks a free port) */
+  port?: number;
+  /**
+   * Bearer token HTTP clients must send; HTTP requests are not authenticated when omitted,
+   * which is only allowed on a loopback interface
+   */
+  authToken?: string;
+  /** Directory stdio calls must write `outputPath` files under (anywhere when omitted) */
+  outputDir?: string;
+  /** Directory stdio calls must read `specPath` and `sourcePath` files from (anywhere when omitted) */
+  inputDir?: string;
+}
 
 /**
  * MCP (Model Context Protocol) Server for fake data generation.
  * Manages tool registration, request handling, and server lifecycle.
+ * Generated data is kept in a resource registry so clients can list and re-read it.
  *
  * @class FakerMCPServer
  * @example
@@ -21,31 +142,31 @@ import {
 export class FakerMCPServer {
   private server: Server;
   private tools: Map<string, Tool>;
-  private toolHandlers: Map<string, (args: unknown) => Promise<{ content: unknown[] }>>;
+  private toolHandlers: Map<string, ToolHandler>;
+  private prompts: Map<string, Prompt>;
+  private promptHandlers: Map<string, PromptHandler>;
+  private resources: ResourceRegistry;
+  private sessions: Set<Server>;
+  private httpServer?: McpHttpServer;
+  private fileAccess: FileAccessPolicy;
 
   /**
-   * Creates a new FakerMCPServer instance with default configuration.
-   * Initializes the MCP server with tool capabilities and sets up request handlers.
+   * Creates a new FakerMCPServer instance.
+   * Initializes the MCP server with tool, prompt and resource capabilities and sets up request handlers.
    *
    * @constructor
+   * @param {FakerMCPServerOptions} [options={}] - Server options
    */
-  constructor() {
+  constructor(options: FakerMCPServerOptions = {}) {
     this.tools = new Map();
     this.toolHandlers = new Map();
+    this.prompts = new Map();
+    this.promptHandlers = new Map();
+    this.resources = new ResourceRegistry(options.resources);
+    this.sessions = new Set();
+    this.fileAccess = { allowed: true };
 
-    this.server = new Server(
-      {
-        name: 'faker-mcp-server',
-        version: '1.0.0',
-      },
-      {
-        capabilities: {
-          tools: {},
-        },
-      }
-    );
-
-    this.setupHandlers();
+    this.server = this.createServer();
   }
 
   /**
@@ -53,7 +174,7 @@ export class FakerMCPServer {
    * Tools must be registered before starting the server.
    *
    * @param {Tool} tool - The MCP tool definition with name, description, and input schema
-   * @param {Function} handler - Handler function that processes tool requests
+   * @param {ToolHandler} handler - Handler function that processes tool requests (receives a `ToolContext`)
    * @returns {void}
    * @example
    * ```typescript
@@ -70,31 +191,80 @@ export class FakerMCPServer {
    * );
    * ```
    */
-  public registerTool(
-    tool: Tool,
-    handler: (args: unknown) => Promise<{ content: unknown[] }>
-  ): void {
+  public registerTool(tool: Tool, handler: ToolHandler): void {
     this.tools.set(tool.name, tool);
     this.toolHandlers.set(tool.name, handler);
   }
 
   /**
-   * Sets up MCP protocol request handlers for tool listing and execution.
-   * This is called automatically during server construction.
+   * Registers a prompt with the server, making it available for MCP clients.
+   * Prompts must be registered before starting the server.
+   *
+   * @param {Prompt} prompt - The MCP prompt definition with name, description, and arguments
+   * @param {PromptHandler} handler - Handler function that expands the prompt with its arguments
+   * @returns {void}
+   * @example
+   * ```typescript
+   * server.registerPrompt(
+   *   { name: 'hr-directory', description: 'HR directory fixture', arguments: [] },
+   *   async () => ({ messages: [{ role: 'user', content: { type: 'text', text: '...' } }] })
+   * );
+   * ```
+   */
+  public registerPrompt(prompt: Prompt, handler: PromptHandler): void {
+    this.prompts.set(prompt.name, prompt);
+    this.promptHandlers.set(prompt.name, handler);
+  }
+
+  /**
+   * Creates an MCP server with tool, prompt and resource capabilities.
+   * The primary server serves stdio; every HTTP session gets a server of its own, all sharing
+   * the registered tools and prompts and the stored resources. Remote sessions may not name
+   * server files in tool arguments.
    *
    * @private
+   * @param {boolean} [remote=false] - Whether the server serves an HTTP session
+   * @returns {Server} A new MCP server with request handlers set up
+   */
+  private createServer(remote = false): Server {
+    const server = new Server(
+      {
+        name: 'faker-mcp-server',
+        version: '1.0.0',
+      },
+      {
+        capabilities: {
+          tools: {},
+          prompts: {},
+          resources: { listChanged: true },
+        },
+      }
+    );
+
+    this.setupHandlers(server, remote);
+    return server;
+  }
+
+  /**
+   * Sets up MCP protocol request handlers for tool listing and execution, prompt listing
+   * and expansion, and listing and reading generated resources.
+   * This is called automatically for every server created.
+   *
+   * @private
+   * @param {Server} server - Server to set up
+   * @param {boolean} remote - Whether the server serves an HTTP session
    * @returns {void}
    */
-  private setupHandlers(): void {
+  private setupHandlers(server: Server, remote: boolean): void {
     // List available tools
-    this.server.setRequestHandler(ListToolsRequestSchema, () => {
+    server.setRequestHandler(ListToolsRequestSchema, () => {
       return {
         tools: Array.from(this.tools.values()),
       };
     });
 
     // Handle tool execution
-    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
       const toolName = request.params.name;
       const handler = this.toolHandlers.get(toolName);
 
@@ -102,34 +272,184 @@ export class FakerMCPServer {
         throw new Error(`Unknown tool: ${toolName}`);
       }
 
+      const progressToken = request.params._meta?.progressToken;
+      const context: ToolContext = {
+        reportProgress: async (progress, total) => {
+          if (progressToken === undefined) {
+            return;
+          }
+          await server.notification({
+            method: 'notifications/progress',
+            params: { progressToken, progress, total },
+          });
+        },
+        signal: extra.signal,
+        fileAccess: remote ? { allowed: false } : this.fileAccess,
+      };
+
       try {
         const args = request.params.arguments ?? {};
-        return await handler(args);
+        const result = await handler(args, context);
+        return { ...result, content: this.storeGeneratedContent(toolName, result.content) };
+      } catch (error) {
+        // Tool failures are results the client can act on, not protocol errors
+        return toolErrorResult(error);
+      }
+    });
+
+    // List available prompts
+    server.setRequestHandler(ListPromptsRequestSchema, () => {
+      return {
+        prompts: Array.from(this.prompts.values()),
+      };
+    });
+
+    // Expand a prompt with its arguments
+    server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+      const promptName = request.params.name;
+      const handler = this.promptHandlers.get(promptName);
+
+      if (!handler) {
+        throw new Error(`Unknown prompt: ${promptName}`);
+      }
+
+      try {
+        return await handler(request.params.arguments);
       } catch (error) {
         const errorMessage = error instanceof Error ? error.message : String(error);
-        throw new Error(`Tool execution failed: ${errorMessage}`);
+        throw new Error(`Prompt expansion failed: ${errorMessage}`);
       }
     });
+
+    // List generated resources
+    server.setRequestHandler(ListResourcesRequestSchema, () => {
+      return {
+        resources: this.resources.list(),
+      };
+    });
+
+    server.setRequestHandler(ListResourceTemplatesRequestSchema, () => {
+      return {
+        resourceTemplates: this.resources.listTemplates(),
+      };
+    });
+
+    // Read a generation or one of its parts
+    server.setRequestHandler(ReadResourceRequestSchema, (request) => {
+      return {
+        contents: this.resources.read(request.params.uri),
+      };
+    });
+  }
+
+  /**
+   * Stores the generated data of a tool response in the resource registry and points the
+   * response at the stored resources: resource blocks get their stable URIs and a closing text
+   * block names the generation URI and its parts.
+   *
+   * @private
+   * @param {string} toolName - Tool that produced the content
+   * @param {unknown[]} content - Content blocks returned by the tool handler
+   * @returns {unknown[]} Content blocks to return to the client
+   */
+  private storeGeneratedContent(toolName: string, content: unknown[]): unknown[] {
+    const stored = this.resources.store(toolName, content);
+    if (!stored) {
+      return content;
+    }
+
+    // Clients that do not track resources simply ignore the notification
+    for (const server of [this.server, ...this.sessions]) {
+      server.sendResourceListChanged().catch(() => undefined);
+    }
+
+    // Parts from resource blocks are stored in block order
+    const sourced = stored.parts.filter((part) => part.sourceUri !== undefined);
+    const rewritten = content.map((block) => {
+      const resource = (block as { resource?: { uri?: string } }).resource;
+      if (resource === undefined || sourced[0]?.sourceUri !== resource.uri) {
+        return block;
+      }
+      const part = sourced.shift();
+      return { ...(block as object), resource: { ...resource, uri: part?.uri } };
+    });
+
+    return [
+      ...rewritten,
+      {
+        type: 'text',
+        text: `Stored as ${stored.uri} (read it with resources/read). Parts: ${stored.parts
+          .map((part) => part.uri)
+          .join(', ')}`,
+      },
+    ];
   }
 
   /**
-   * Starts the server with stdio transport for communication.
-   * The server will listen for MCP requests on stdin/stdout.
+   * Starts the server on stdio (the default) or HTTP.
+   * With stdio the server listens for MCP requests on stdin/stdout. With HTTP it accepts
+   * streamable HTTP sessions at /mcp and legacy SSE sessions at /sse, optionally requiring a
+   * bearer token. Tool calls over HTTP may not read or write server files.
    *
    * @async
+   * @param {ServerStartOptions} [options={}] - Transport, address, authentication and file directories
    * @returns {Promise<void>} Resolves when the server is successfully started
-   * @throws {Error} If server fails to start or connect to transport
+   * @throws {Error} If server fails to start or connect to transport, or HTTP binds a
+   * non-loopback interface without an auth token
    * @example
    * ```typescript
    * const server = new FakerMCPServer();
    * server.registerTool(myTool, myHandler);
-   * await server.start();
-   * console.log('Server running on stdio');
+   * await server.start({ transport: TransportType.HTTP, port: 3000 });
+   * ```
+   */
+  public async start(options: ServerStartOptions = {}): Promise<void> {
+    this.fileAccess = { allowed: true, outputDir: options.outputDir, inputDir: options.inputDir };
+
+    if ((options.transport ?? TransportType.STDIO) === TransportType.STDIO) {
+      const transport = new StdioServerTransport();
+      await this.server.connect(transport);
+      return;
+    }
+
+    this.httpServer = new McpHttpServer({
+      authToken: options.authToken,
+      connect: (transport) => {
+        const server = this.createServer(true);
+        this.sessions.add(server);
+        server.onclose = () => this.sessions.delete(server);
+        return server.connect(transport);
+      },
+    });
+    await this.httpServer.listen(
+      options.port ?? DEFAULT_HTTP_PORT,
+      options.host ?? DEFAULT_HTTP_HOST
+    );
+  }
+
+  /**
+   * Stops the server: closes all HTTP sessions and the HTTP listener, or the stdio transport.
+   *
+   * @async
+   * @returns {Promise<void>} Resolves once all transports are closed
+   * @example
+   * ```typescript
+   * process.on('SIGTERM', () => void server.close().then(() => process.exit(0)));
    * ```
    */
-  public async start(): Promise<void> {
-    const transport = new StdioServerTransport();
-    await this.server.connect(transport);
+  public async close(): Promise<void> {
+    await this.httpServer?.close();
+    this.httpServer = undefined;
+    await this.server.close();
+  }
+
+  /**
+   * Gets the address of the HTTP transport.
+   *
+   * @returns {AddressInfo | undefined} The address, or undefined unless started with HTTP
+   */
+  public getHttpAddress(): AddressInfo | undefined {
+    return this.httpServer?.address();
   }
 
   /**
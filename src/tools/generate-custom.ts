@@ -1,8 +1,26 @@
+import { isAbsolute } from 'node:path';
 import { z } from 'zod';
 import { zodToJsonSchema } from 'zod-to-json-schema';
 import { Tool } from '@modelcontextprotocol/sdk/types.js';
 import { CustomGenerator } from '../generators/custom-generator.js';
-import { SupportedLocale, PatternType, type RangePattern } from '../types/schema.js';
+import { OutputFormat, SupportedLocale, PatternType } from '../types/schema.js';
+import {
+  formatRecords,
+  OUTPUT_MIME_TYPES,
+  RECORD_OUTPUT_FORMATS,
+} from '../utils/tabular-export.js';
+import { MAX_INLINE_COUNT, MAX_STREAMED_COUNT, writeRecordsToFile } from '../utils/file-sink.js';
+import { checkOutputPath } from '../utils/file-access.js';
+import type { ToolContext } from '../server.js';
+import { ChaosInjector, ChaosSchema, chaosManifestContent } from '../utils/chaos.js';
+import { IdStrategySchema } from '../utils/id-strategies.js';
+import {
+  collectIdStrategyIssues,
+  isValidDate,
+  isValidSparsity,
+  validatePatterns,
+} from '../utils/validators.js';
+import { fromSchemaIssues, fromZodError } from '../utils/tool-errors.js';
 
 /**
  * Zod validation schema for range pattern values.
@@ -20,35 +38,92 @@ const RangePatternSchema = z.object({
  * Zod validation schema for custom pattern definitions.
  *
  * @constant
- * @type {z.ZodObject}
+ * @type {z.ZodEffects}
  */
-const CustomPatternSchema = z.object({
-  type: z.nativeEnum(PatternType).describe('Pattern type'),
-  value: z
-    .union([z.string(), z.array(z.string()), RangePatternSchema])
-    .describe('Pattern value (type depends on pattern type)'),
-});
+export const CustomPatternSchema = z
+  .object({
+    type: z.nativeEnum(PatternType).describe('Pattern type'),
+    value: z
+      .union([z.string(), z.array(z.string()), RangePatternSchema])
+      .describe('Pattern value (type depends on pattern type)'),
+    unique: z
+      .boolean()
+      .optional()
+      .describe(
+        'Whether every record must get a distinct value (fails if the pattern has too few)'
+      ),
+    nullRate: z
+      .number()
+      .min(0)
+      .max(1)
+      .optional()
+      .describe('Probability (0-1) that the value is null'),
+    omitRate: z
+      .number()
+      .min(0)
+      .max(1)
+      .optional()
+      .describe('Probability (0-1) that the field is left out of the record'),
+  })
+  .refine(isValidSparsity, {
+    message: 'nullRate and omitRate must not add up to more than 1',
+    path: ['nullRate'],
+  });
 
 /**
  * Zod validation schema for generate-custom tool parameters.
  *
  * @constant
- * @type {z.ZodObject}
+ * @type {z.ZodEffects}
  */
-export const GenerateCustomSchema = z.object({
-  count: z.number().min(1).max(10000).default(1).describe('Number of records to generate'),
-  patterns: z
-    .record(z.string(), CustomPatternSchema)
-    .refine((patterns) => Object.keys(patterns).length > 0, {
-      message: 'At least one pattern must be defined',
-    })
-    .describe('Map of field names to pattern definitions'),
-  locale: z
-    .nativeEnum(SupportedLocale)
-    .default(SupportedLocale.EN)
-    .describe('Locale for generated data (affects format-based patterns)'),
-  seed: z.number().optional().describe('Optional seed for reproducible generation'),
-});
+export const GenerateCustomSchema = z
+  .object({
+    count: z
+      .number()
+      .min(1)
+      .max(MAX_STREAMED_COUNT)
+      .default(1)
+      .describe('Number of records to generate (up to 10000 inline, or 10000000 with outputPath)'),
+    patterns: z
+      .record(z.string(), CustomPatternSchema)
+      .refine((patterns) => Object.keys(patterns).length > 0, {
+        message: 'At least one pattern must be defined',
+      })
+      .describe('Map of field names to pattern definitions'),
+    idStrategy: IdStrategySchema.optional(),
+    chaos: ChaosSchema.optional(),
+    locale: z
+      .nativeEnum(SupportedLocale)
+      .default(SupportedLocale.EN)
+      .describe('Locale for generated data (affects format-based patterns)'),
+    seed: z.number().optional().describe('Optional seed for reproducible generation'),
+    referenceDate: z
+      .string()
+      .refine(isValidDate, 'referenceDate must be a valid ISO 8601 date')
+      .optional()
+      .describe(
+        'Date anchoring relative dates such as ages and founding years (ISO 8601). Defaults to 2025-01-01 for seeded runs and to now otherwise'
+      ),
+    outputFormat: z
+      .enum(RECORD_OUTPUT_FORMATS)
+      .default(OutputFormat.JSON)
+      .describe('Output format: json, csv, ndjson or tsv'),
+    outputPath: z
+      .string()
+      .refine(isAbsolute, 'outputPath must be an absolute path')
+      .optional()
+      .describe(
+        "Absolute file path to stream the records to instead of returning them inline (required above 10000 records; stdio only, inside the server's output directory if one is set)"
+      ),
+  })
+  .refine((params) => params.outputPath !== undefined || params.count <= MAX_INLINE_COUNT, {
+    message: `Number must be less than or equal to ${MAX_INLINE_COUNT} unless outputPath is set`,
+    path: ['count'],
+  })
+  .refine((params) => params.outputPath === undefined || params.chaos === undefined, {
+    message: 'chaos applies to inline output only; remove outputPath or chaos',
+    path: ['chaos'],
+  });
 
 /**
  * Type definition for generate-custom parameters, inferred from Zod schema.
@@ -81,8 +156,10 @@ export const generateCustomTool: Tool = {
  *
  * @async
  * @param {unknown} args - Raw arguments from MCP client (validated against schema)
+ * @param {ToolContext} [context] - Call context used to report progress and observe cancellation
  * @returns {Promise<{ content: unknown[] }>} MCP-formatted response with generated data
- * @throws {Error} If parameter validation fails, patterns are invalid, or generation encounters an error
+ * @throws {ToolError} If parameter validation fails or patterns are invalid
+ * @throws {Error} If generation encounters an error
  * @example
  * ```typescript
  * const result = await handleGenerateCustom({
@@ -96,231 +173,179 @@ export const generateCustomTool: Tool = {
  * });
  * ```
  */
-export function handleGenerateCustom(args: unknown): Promise<{ content: unknown[] }> {
-  const startTime = Date.now();
-
+export function handleGenerateCustom(
+  args: unknown,
+  context?: ToolContext
+): Promise<{ content: unknown[] }> {
   try {
     // Validate and parse arguments
     const params = GenerateCustomSchema.parse(args);
 
-    // Validate patterns
-    validatePatterns(params.patterns);
+    // Validate patterns, including whether unique patterns have enough distinct values
+    validatePatterns(params.patterns, params.count);
+    const idIssues = collectIdStrategyIssues(params.idStrategy, params.count, ['idStrategy']);
+    if (idIssues.length > 0) {
+      throw fromSchemaIssues('Invalid idStrategy', idIssues);
+    }
 
     // Create generator
     const generator = new CustomGenerator({
       seed: params.seed,
       locale: params.locale,
+      referenceDate: params.referenceDate,
     });
 
-    // Generate data
-    const data =
-      params.count === 1
-        ? [generator.generate({ patterns: params.patterns })]
-        : generator.generateMany(params.count, { patterns: params.patterns });
-
-    const generationTimeMs = Date.now() - startTime;
-
-    // Build response
-    const metadata = {
-      count: data.length,
-      patternCount: Object.keys(params.patterns).length,
-      seed: generator.getSeed(),
-      locale: generator.getLocale(),
-      generationTimeMs,
-    };
-
-    const responseText = params.seed
-      ? `Generated ${data.length} custom record${data.length > 1 ? 's' : ''} with seed ${params.seed}`
-      : `Generated ${data.length} custom record${data.length > 1 ? 's' : ''}`;
+    // Large counts are streamed to a file instead of being returned inline
+    if (params.outputPath) {
+      return streamCustomToFile(generator, params, params.outputPath, context);
+    }
 
-    return Promise.resolve({
-      content: [
-        {
-          type: 'text',
-          text: responseText,
-        },
-        {
-          type: 'resource',
-          resource: {
-            uri: 'faker://custom/generated',
-            mimeType: 'application/json',
-            text: JSON.stringify({ data, metadata }, null, 2),
-          },
-        },
-      ],
-    });
+    return generateCustomInline(generator, params, context);
   } catch (error) {
     if (error instanceof z.ZodError) {
-      throw new Error(
-        `Invalid parameters: ${error.errors.map((e) => `${e.path.join('.')}: ${e.message}`).join(', ')}`
-      );
+      throw fromZodError(error, args);
     }
     throw error;
   }
 }
 
 /**
- * Validates all pattern definitions in a patterns map.
- * Checks each pattern type (regex, enum, format, range) for correctness.
- *
- * @param {Record<string, { type: PatternType; value: string | string[] | RangePattern }>} patterns - Map of field names to patterns
- * @throws {Error} If any pattern is invalid, with field name and specific error
- * @example
- * ```typescript
- * validatePatterns({
- *   code: { type: PatternType.REGEX, value: '[A-Z]{3}' },
- *   status: { type: PatternType.ENUM, value: ['active', 'inactive'] }
- * });
- * ```
- */
-function validatePatterns(
-  patterns: Record<string, { type: PatternType; value: string | string[] | RangePattern }>
-): void {
-  for (const [fieldName, pattern] of Object.entries(patterns)) {
-    try {
-      switch (pattern.type) {
-        case PatternType.REGEX:
-          validateRegexPattern(pattern.value as string);
-          break;
-        case PatternType.ENUM:
-          validateEnumPattern(pattern.value as string[]);
-          break;
-        case PatternType.FORMAT:
-          validateFormatPattern(pattern.value as string);
-          break;
-        case PatternType.RANGE:
-          validateRangePattern(pattern.value as RangePattern);
-          break;
-        default:
-          throw new Error(`Unsupported pattern type`);
-      }
-    } catch (error) {
-      throw new Error(`Invalid pattern for field '${fieldName}': ${(error as Error).message}`);
-    }
-  }
-}
-
-/**
- * Validates a regex pattern string by attempting to compile it.
+ * Generates custom records in memory and returns them inline.
+ * Progress is reported per batch and a cancelled call stops between batches.
  *
- * @param {string} regexValue - The regex pattern to validate
- * @throws {Error} If the regex pattern is empty or has invalid syntax
- * @example
- * ```typescript
- * validateRegexPattern('[A-Z]{3}-\\d{4}'); // Valid
- * validateRegexPattern('[invalid'); // Throws error
- * ```
+ * @async
+ * @param {CustomGenerator} generator - Seeded generator
+ * @param {GenerateCustomParams} params - Validated parameters
+ * @param {ToolContext} [context] - Call context used to report progress and observe cancellation
+ * @returns {Promise<{ content: unknown[] }>} MCP-formatted response with generated data
  */
-function validateRegexPattern(regexValue: string): void {
-  if (typeof regexValue !== 'string' || regexValue.length === 0) {
-    throw new Error('Regex pattern must be a non-empty string');
-  }
-
-  try {
-    new RegExp(regexValue);
-  } catch (error) {
-    throw new Error(`Invalid regex syntax: ${(error as Error).message}`);
-  }
-}
+async function generateCustomInline(
+  generator: CustomGenerator,
+  params: GenerateCustomParams,
+  context?: ToolContext
+): Promise<{ content: unknown[] }> {
+  const startTime = Date.now();
 
-/**
- * Validates an enum pattern array.
- * Ensures the array is non-empty and contains only string values.
- *
- * @param {string[]} enumValues - Array of enum values
- * @throws {Error} If the array is empty, not an array, or contains non-string values
- * @example
- * ```typescript
- * validateEnumPattern(['active', 'inactive', 'pending']); // Valid
- * validateEnumPattern([]); // Throws error
- * validateEnumPattern([1, 2, 3]); // Throws error (not strings)
- * ```
- */
-function validateEnumPattern(enumValues: string[]): void {
-  if (!Array.isArray(enumValues)) {
-    throw new Error('Enum pattern must be an array');
-  }
+  // Generate data
+  const generated =
+    params.count === 1
+      ? [generator.generate({ patterns: params.patterns, idStrategy: params.idStrategy })]
+      : await generator.generateMany(
+          params.count,
+          { patterns: params.patterns, idStrategy: params.idStrategy },
+          {
+            onProgress: (completed, total) => context?.reportProgress(completed, total),
+            signal: context?.signal,
+          }
+        );
 
-  if (enumValues.length === 0) {
-    throw new Error('Enum pattern must have at least one value');
-  }
+  // Defects are injected after generation, so the records underneath match a run without chaos
+  const chaos = params.chaos ? new ChaosInjector(params.chaos, generator.getSeed()) : undefined;
+  const data = chaos ? (chaos.corruptRecords(generated) as object[]) : generated;
 
-  if (!enumValues.every((v) => typeof v === 'string')) {
-    throw new Error('Enum pattern must contain only string values');
-  }
-}
+  const generationTimeMs = Date.now() - startTime;
 
-/**
- * Validates a format pattern string with placeholder syntax.
- * Supports {{year}}, {{random:N}}, and {{number:N}} placeholders.
- *
- * @param {string} formatValue - The format template string
- * @throws {Error} If the format is empty or contains invalid placeholders
- * @example
- * ```typescript
- * validateFormatPattern('USER-{{number:4}}-{{year}}'); // Valid
- * validateFormatPattern('CODE-{{random:5}}'); // Valid
- * validateFormatPattern(''); // Throws error
- * ```
- */
-function validateFormatPattern(formatValue: string): void {
-  if (typeof formatValue !== 'string' || formatValue.length === 0) {
-    throw new Error('Format pattern must be a non-empty string');
-  }
+  // Build response
+  const metadata = {
+    count: data.length,
+    patternCount: Object.keys(params.patterns).length,
+    seed: generator.getSeed(),
+    locale: generator.getLocale(),
+    referenceDate: generator.getReferenceDate().toISOString(),
+    generationTimeMs,
+  };
 
-  // Check for valid placeholder syntax
-  const placeholderRegex = /\{\{(year|random:\d+|number:\d+)\}\}/g;
-  const placeholders = formatValue.match(placeholderRegex);
+  const responseText = params.seed
+    ? `Generated ${data.length} custom record${data.length > 1 ? 's' : ''} with seed ${params.seed}`
+    : `Generated ${data.length} custom record${data.length > 1 ? 's' : ''}`;
 
-  if (placeholders) {
-    // Validate each placeholder
-    for (const placeholder of placeholders) {
-      if (placeholder.includes('random:') || placeholder.includes('number:')) {
-        const lengthMatch = placeholder.match(/:(\d+)\}\}/);
-        if (lengthMatch && lengthMatch[1]) {
-          const length = parseInt(lengthMatch[1], 10);
-          if (length <= 0 || length > 100) {
-            throw new Error(
-              `Invalid placeholder length in '${placeholder}': must be between 1 and 100`
-            );
-          }
+  // JSON keeps the metadata envelope; tabular formats contain only the records
+  const resource =
+    params.outputFormat === OutputFormat.JSON
+      ? {
+          uri: 'faker://custom/generated',
+          mimeType: OUTPUT_MIME_TYPES[OutputFormat.JSON],
+          text: JSON.stringify({ data, metadata }, null, 2),
         }
-      }
-    }
-  }
+      : {
+          uri: `faker://custom/generated.${params.outputFormat}`,
+          mimeType: OUTPUT_MIME_TYPES[params.outputFormat],
+          text: formatRecords(
+            data,
+            params.outputFormat,
+            generator.getColumns({ patterns: params.patterns })
+          ),
+        };
+
+  return {
+    content: [
+      {
+        type: 'text',
+        text: responseText,
+      },
+      {
+        type: 'resource',
+        resource,
+      },
+      ...(chaos ? [chaosManifestContent('custom', chaos.getManifest())] : []),
+    ],
+  };
 }
 
 /**
- * Validates a range pattern object.
- * Ensures min/max are numbers, min <= max, and precision is valid.
+ * Streams custom records to a file with bounded memory and returns a summary response.
+ * The file holds the same records as an inline response with the same seed.
  *
- * @param {RangePattern} rangeValue - The range pattern to validate
- * @throws {Error} If the range is invalid (min > max, missing values, invalid precision)
- * @example
- * ```typescript
- * validateRangePattern({ min: 0, max: 100 }); // Valid integer range
- * validateRangePattern({ min: 0, max: 1, precision: 2 }); // Valid float range
- * validateRangePattern({ min: 100, max: 0 }); // Throws error (min > max)
- * ```
+ * @async
+ * @param {CustomGenerator} generator - Seeded generator
+ * @param {GenerateCustomParams} params - Validated parameters
+ * @param {string} outputPath - Destination file
+ * @param {ToolContext} [context] - Call context used to report progress and observe cancellation
+ * @returns {Promise<{ content: unknown[] }>} MCP-formatted summary with file details and metadata
  */
-function validateRangePattern(rangeValue: RangePattern): void {
-  if (typeof rangeValue !== 'object' || rangeValue === null) {
-    throw new Error('Range pattern must be an object');
-  }
+async function streamCustomToFile(
+  generator: CustomGenerator,
+  params: GenerateCustomParams,
+  outputPath: string,
+  context?: ToolContext
+): Promise<{ content: unknown[] }> {
+  const startTime = Date.now();
+  const filePath = await checkOutputPath(outputPath, context);
 
-  if (typeof rangeValue.min !== 'number' || typeof rangeValue.max !== 'number') {
-    throw new Error('Range pattern must have numeric min and max values');
-  }
+  const file = await writeRecordsToFile(
+    generator.stream(params.count, { patterns: params.patterns, idStrategy: params.idStrategy }),
+    filePath,
+    {
+      format: params.outputFormat,
+      onProgress: (written) => context?.reportProgress(written, params.count),
+      signal: context?.signal,
+      columns: generator.getColumns({ patterns: params.patterns }),
+    }
+  );
 
-  if (rangeValue.min > rangeValue.max) {
-    throw new Error(
-      `Range pattern invalid: min (${rangeValue.min}) must be less than or equal to max (${rangeValue.max})`
-    );
-  }
+  const metadata = {
+    count: file.records,
+    patternCount: Object.keys(params.patterns).length,
+    seed: generator.getSeed(),
+    locale: generator.getLocale(),
+    referenceDate: generator.getReferenceDate().toISOString(),
+    generationTimeMs: Date.now() - startTime,
+  };
 
-  if (rangeValue.precision !== undefined) {
-    if (typeof rangeValue.precision !== 'number' || rangeValue.precision < 0) {
-      throw new Error('Range pattern precision must be a non-negative number');
-    }
-  }
+  return {
+    content: [
+      {
+        type: 'text',
+        text: `Streamed ${file.records} custom record${file.records > 1 ? 's' : ''} to ${file.path} (${file.format}) with seed ${metadata.seed}`,
+      },
+      {
+        type: 'resource',
+        resource: {
+          uri: 'faker://custom/generated',
+          mimeType: OUTPUT_MIME_TYPES[OutputFormat.JSON],
+          text: JSON.stringify({ file, metadata }, null, 2),
+        },
+      },
+    ],
+  };
 }
@@ -1,9 +1,59 @@
 import { z } from 'zod';
 import { zodToJsonSchema } from 'zod-to-json-schema';
 import { Tool } from '@modelcontextprotocol/sdk/types.js';
-import { DatasetGenerator } from '../generators/dataset-generator.js';
-import { EntityType, RelationshipType, SupportedLocale } from '../types/schema.js';
-import { validateDatasetSchema } from '../utils/validators.js';
+import { DatasetGenerator, type GeneratedDataset } from '../generators/dataset-generator.js';
+import {
+  CardinalityDistribution,
+  CompanyUniqueField,
+  ConstraintOperator,
+  EntityType,
+  FieldType,
+  OutputFormat,
+  PersonUniqueField,
+  ProductUniqueField,
+  RelationshipType,
+  SqlDialect,
+  SupportedLocale,
+  type DatasetSchema,
+  type IdStrategy,
+} from '../types/schema.js';
+import { ChaosInjector, ChaosSchema, chaosManifestContent } from '../utils/chaos.js';
+import { IdStrategySchema } from '../utils/id-strategies.js';
+import { exportDatasetToSql } from '../utils/sql-export.js';
+import {
+  formatRecords,
+  OUTPUT_MIME_TYPES,
+  RECORD_OUTPUT_FORMATS,
+} from '../utils/tabular-export.js';
+import { collectDatasetSchemaIssues, isValidDate, isValidSparsity } from '../utils/validators.js';
+import { fromSchemaIssues, fromZodError } from '../utils/tool-errors.js';
+import { CustomPatternSchema } from './generate-custom.js';
+import type { ToolContext } from '../server.js';
+
+/**
+ * Zod validation schema for one-to-many cardinality constraints.
+ *
+ * @constant
+ * @type {z.ZodObject}
+ */
+const CardinalitySchema = z.object({
+  min: z
+    .number()
+    .int()
+    .min(0)
+    .optional()
+    .describe('Minimum children per parent (1 = every parent has at least one child)'),
+  max: z.number().int().min(1).optional().describe('Maximum children per parent'),
+  distribution: z
+    .nativeEnum(CardinalityDistribution)
+    .optional()
+    .describe('How children are spread across parents: uniform, zipf or pareto'),
+  skew: z
+    .number()
+    .positive()
+    .optional()
+    .describe('Zipf exponent (default 1) or Pareto shape (default 1.16, roughly 80/20)'),
+});
 
 /**
  * Zod validation schema for relationship definitions within dataset entities.
@@ -15,6 +65,93 @@ const RelationshipDefinitionSchema = z.object({
   references: z.string().min(1, 'Relationship references must be a non-empty string'),
   type: z.nativeEnum(RelationshipType),
   nullable: z.boolean().optional(),
+  nullRate: z
+    .number()
+    .min(0)
+    .max(1)
+    .optional()
+    .describe('Probability (0-1) of a null foreign key when nullable (default 0.2)'),
+  through: z
+    .string()
+    .min(1)
+    .optional()
+    .describe('Many-to-many only: name of the junction entity to generate (e.g. users_roles)'),
+  sourceKey: z.string().min(1).optional().describe('Junction column for the owning record ID'),
+  targetKey: z.string().min(1).optional().describe('Junction column for the referenced ID'),
+  minLinks: z
+    .number()
+    .int()
+    .min(0)
+    .optional()
+    .describe('Many-to-many only: minimum linked records per row (default 1)'),
+  maxLinks: z
+    .number()
+    .int()
+    .min(1)
+    .optional()
+    .describe('Many-to-many only: maximum linked records per row (default 3)'),
+  cardinality: CardinalitySchema.optional().describe(
+    'One-to-many only: children-per-parent constraints and distribution'
+  ),
+});
+
+/**
+ * Zod validation schema for field definitions within custom entities.
+ * A field is either a plain name or an object carrying an optional custom pattern or type.
+ *
+ * @constant
+ * @type {z.ZodUnion}
+ */
+const FieldDefinitionSchema = z.union([
+  z.string(),
+  z
+    .object({
+      name: z.string().min(1, 'Field name must be a non-empty string'),
+      pattern: CustomPatternSchema.optional().describe(
+        'Custom pattern (regex, enum, format, range) used to generate the field value'
+      ),
+      type: z
+        .nativeEnum(FieldType)
+        .optional()
+        .describe(
+          'Value type used when no pattern is given: string, integer, number, boolean, date, datetime, uuid or json'
+        ),
+      unique: z.boolean().optional().describe('Whether every record must get a distinct value'),
+      nullable: z
+        .boolean()
+        .optional()
+        .describe(
+          'Whether the SQL column accepts NULL even when no null value is generated (sql output)'
+        ),
+      nullRate: z
+        .number()
+        .min(0)
+        .max(1)
+        .optional()
+        .describe('Probability (0-1) that the value is null'),
+      omitRate: z
+        .number()
+        .min(0)
+        .max(1)
+        .optional()
+        .describe('Probability (0-1) that the field is left out of the record'),
+    })
+    .refine(isValidSparsity, {
+      message: 'nullRate and omitRate must not add up to more than 1',
+      path: ['nullRate'],
+    }),
+]);
+
+/**
+ * Zod validation schema for constraints between two fields of a custom entity record.
+ *
+ * @constant
+ * @type {z.ZodObject}
+ */
+const FieldConstraintSchema = z.object({
+  field: z.string().min(1).describe('Field on the left-hand side, e.g. endDate'),
+  operator: z.nativeEnum(ConstraintOperator).describe('Comparison: <, <=, >, >= or !='),
+  other: z.string().min(1).describe('Field on the right-hand side, e.g. startDate'),
 });
 
 /**
@@ -30,8 +167,40 @@ const EntityDefinitionSchema = z.object({
     .min(1, 'Count must be at least 1')
     .max(10000, 'Count must not exceed 10000'),
   type: z.nativeEnum(EntityType),
-  fields: z.array(z.string()).optional(),
+  fields: z.array(FieldDefinitionSchema).optional(),
   relationships: z.record(z.string(), RelationshipDefinitionSchema).optional(),
+  unique: z
+    .array(
+      z.union([
+        z.nativeEnum(PersonUniqueField),
+        z.nativeEnum(CompanyUniqueField),
+        z.nativeEnum(ProductUniqueField),
+      ])
+    )
+    .optional()
+    .describe(
+      'Person, company or product entities: fields that must be distinct (person: fullName, email, phone; company: name, email, phone, website; product: sku, name, upc)'
+    ),
+  uniqueKeys: z
+    .array(z.array(z.string().min(1)).min(1))
+    .optional()
+    .describe(
+      'Custom entities: field combinations that must be distinct, e.g. [["tenantId", "email"]]'
+    ),
+  constraints: z
+    .array(FieldConstraintSchema)
+    .optional()
+    .describe(
+      'Custom entities: rules between fields every record satisfies, e.g. endDate > startDate'
+    ),
+  idStrategy: IdStrategySchema.optional(),
+  primaryKey: z
+    .array(z.string().min(1))
+    .min(1)
+    .optional()
+    .describe(
+      'Custom entities: primary key when it is not "id", e.g. ["userId"] to store the IDs under userId, or ["orderId", "sku"] for a composite key that replaces the ID'
+    ),
 });
 
 /**
@@ -58,6 +227,37 @@ export const GenerateDatasetParamsSchema = z.object({
   schema: DatasetSchemaSchema,
   seed: z.number().int().optional(),
   locale: z.nativeEnum(SupportedLocale).optional().default(SupportedLocale.EN),
+  referenceDate: z
+    .string()
+    .refine(isValidDate, 'referenceDate must be a valid ISO 8601 date')
+    .optional()
+    .describe(
+      'Date anchoring relative dates such as ages and founding years (ISO 8601). Defaults to 2025-01-01 for seeded runs and to now otherwise'
+    ),
+  outputFormat: z
+    .enum([...RECORD_OUTPUT_FORMATS, OutputFormat.SQL])
+    .optional()
+    .default(OutputFormat.JSON)
+    .describe(
+      'Output format: json (default), csv, ndjson, tsv (one resource per entity) or sql (CREATE TABLE + INSERT statements)'
+    ),
+  sqlDialect: z
+    .nativeEnum(SqlDialect)
+    .optional()
+    .default(SqlDialect.POSTGRES)
+    .describe('SQL dialect used when outputFormat is sql'),
+  sqlBatchSize: z
+    .number()
+    .int()
+    .min(1)
+    .max(10000)
+    .optional()
+    .default(100)
+    .describe('Maximum rows per INSERT statement when outputFormat is sql'),
+  idStrategy: IdStrategySchema.optional().describe(
+    'ID strategy of entities without their own idStrategy (uuid, uuidv7, ulid, nanoid, sequence, prefixed or pattern); foreign keys follow the referenced entity'
+  ),
+  chaos: ChaosSchema.optional(),
 });
 
 /**
@@ -67,6 +267,16 @@ export const GenerateDatasetParamsSchema = z.object({
  */
 export type GenerateDatasetParams = z.infer<typeof GenerateDatasetParamsSchema>;
 
+/**
+ * Output options shared by the tools that generate datasets.
+ *
+ * @typedef {Pick<GenerateDatasetParams, 'outputFormat' | 'sqlDialect' | 'sqlBatchSize' | 'chaos'>} DatasetOutputOptions
+ */
+export type DatasetOutputOptions = Pick<
+  GenerateDatasetParams,
+  'outputFormat' | 'sqlDialect' | 'sqlBatchSize' | 'chaos'
+>;
+
 /**
  * MCP Tool definition for dataset generation with multiple related entities.
  * Supports complex data scenarios with referential integrity.
@@ -81,8 +291,12 @@ export const generateDatasetTool: Tool = {
   name: 'generate-dataset',
   description:
     'Generate a structured dataset with multiple related entities and referential integrity. ' +
-    'Supports person, company, and custom entity types with one-to-many and many-to-many relationships. ' +
-    'Perfect for creating test databases, mock APIs, and complex data scenarios.',
+    'Supports person, company, product, order, account, ledger and custom entity types ' +
+    'with one-to-many and many-to-many relationships ' +
+    '(many-to-many can produce ID arrays or junction entities via `through`). ' +
+    'Perfect for creating test databases, mock APIs, and complex data scenarios. ' +
+    'Set outputFormat to csv, ndjson or tsv for one resource per entity, ' +
+    'or to sql for CREATE TABLE and INSERT statements (postgres, mysql, sqlite).',
   inputSchema: zodToJsonSchema(GenerateDatasetParamsSchema) as Tool['inputSchema'],
 };
 
@@ -90,13 +304,18 @@ export const generateDatasetTool: Tool = {
  * Handler function for the generate-dataset MCP tool.
  * Validates schema structure, checks referential integrity, generates related entities,
  * and returns formatted MCP response with complete dataset.
+ * Progress is reported per batch and per entity, and a cancelled call stops between batches.
  *
+ * @async
  * @param {unknown} params - Raw parameters from MCP client (validated against schema)
- * @returns {{ content: Array<{ type: string; text: string }> }} MCP-formatted response with dataset
- * @throws {Error} If schema validation fails, circular dependencies detected, or generation fails
+ * @param {ToolContext} [context] - Call context used to report progress and observe cancellation
+ * @returns {Promise<{ content: unknown[] }>} MCP-formatted response with the dataset as JSON text, or a
+ *   summary plus one resource per entity (csv/ndjson/tsv) or a single SQL resource
+ * @throws {ToolError} If parameter or schema validation fails (including circular dependencies)
+ * @throws {Error} If generation fails
  * @example
  * ```typescript
- * const result = handleGenerateDataset({
+ * const result = await handleGenerateDataset({
  *   schema: {
  *     entities: {
  *       users: { count: 10, type: 'person' },
@@ -115,43 +334,43 @@ export const generateDatasetTool: Tool = {
  * // Returns MCP response with users and orders datasets
  * ```
  */
-export function handleGenerateDataset(params: unknown) {
+export function handleGenerateDataset(
+  params: unknown,
+  context?: ToolContext
+): Promise<{ content: unknown[] }> {
   try {
     // Validate parameters
     const validatedParams = GenerateDatasetParamsSchema.parse(params);
+    const schema = withDefaultIdStrategy(validatedParams.schema, validatedParams.idStrategy);
 
     // Additional schema validation (referential integrity, circular dependencies)
-    const schemaValidation = validateDatasetSchema(validatedParams.schema);
-    if (!schemaValidation.valid) {
-      throw new Error(`Invalid dataset schema: ${schemaValidation.errors.join(', ')}`);
+    const schemaIssues = collectDatasetSchemaIssues(schema);
+    if (schemaIssues.length > 0) {
+      throw fromSchemaIssues('Invalid dataset schema', schemaIssues, ['schema']);
     }
 
     // Create generator
     const generator = new DatasetGenerator({
       seed: validatedParams.seed,
       locale: validatedParams.locale,
+      referenceDate: validatedParams.referenceDate,
     });
 
     // Generate dataset
-    const result = generator.generateDataset(validatedParams.schema);
+    const generation = generator.generateDataset(schema, {
+      onProgress: (completed, total) => context?.reportProgress(completed, total),
+      signal: context?.signal,
+    });
 
     // Log generation (no console.log, following linter rules - will log in server.ts instead)
 
-    // Return response
-    return {
-      content: [
-        {
-          type: 'text',
-          text: JSON.stringify(result, null, 2),
-        },
-      ],
-    };
+    return generation.then((result) => ({
+      content: formatDatasetContent(schema, generator, result, validatedParams),
+    }));
   } catch (error) {
     // Error handling
     if (error instanceof z.ZodError) {
-      const errorMessage = `Validation error: ${error.errors.map((e) => `${e.path.join('.')}: ${e.message}`).join(', ')}`;
-      // Log error (will be handled by server)
-      throw new Error(errorMessage);
+      throw fromZodError(error, params);
     }
 
     if (error instanceof Error) {
@@ -163,3 +382,111 @@ export function handleGenerateDataset(params: unknown) {
     throw new Error('Unknown error occurred during dataset generation');
   }
 }
+
+/**
+ * Formats a generated dataset as MCP content in the requested output format: the dataset as
+ * JSON text, a summary plus one resource per entity (csv/ndjson/tsv), or a single SQL resource.
+ * With chaos rates, defects are injected first and a chaos manifest resource is appended;
+ * the metadata keeps the counts as generated.
+ * Shared by every tool that generates datasets.
+ *
+ * @param {DatasetSchema} schema - Schema the dataset was generated from
+ * @param {DatasetGenerator} generator - Generator that produced the dataset
+ * @param {GeneratedDataset} result - Generated dataset and metadata
+ * @param {DatasetOutputOptions} options - Output format, SQL options and chaos rates
+ * @returns {unknown[]} MCP content items
+ */
+export function formatDatasetContent(
+  schema: DatasetSchema,
+  generator: DatasetGenerator,
+  result: GeneratedDataset,
+  options: DatasetOutputOptions
+): unknown[] {
+  if (options.chaos) {
+    const chaos = new ChaosInjector(options.chaos, result.metadata.seed);
+    const corrupted = { ...result, dataset: chaos.corruptDataset(schema, result.dataset) };
+    return [
+      ...formatDatasetContent(schema, generator, corrupted, { ...options, chaos: undefined }),
+      chaosManifestContent('datasets', chaos.getManifest()),
+    ];
+  }
+
+  if (options.outputFormat === OutputFormat.SQL) {
+    const sql = exportDatasetToSql(schema, result.dataset, generator.topologicalSort(schema), {
+      dialect: options.sqlDialect,
+      batchSize: options.sqlBatchSize,
+    });
+
+    return [
+      {
+        type: 'text',
+        text: `Generated ${result.metadata.totalRecords} records as ${options.sqlDialect} SQL with seed ${result.metadata.seed}`,
+      },
+      {
+        type: 'resource',
+        resource: {
+          uri: 'faker://datasets/generated.sql',
+          mimeType: 'application/sql',
+          text: sql,
+        },
+      },
+    ];
+  }
+
+  if (options.outputFormat !== OutputFormat.JSON) {
+    const format = options.outputFormat;
+    const counts = Object.entries(result.metadata.entityCounts)
+      .map(([entityName, count]) => `${entityName} (${count})`)
+      .join(', ');
+
+    return [
+      {
+        type: 'text',
+        text: `Generated ${result.metadata.totalRecords} records as ${format} with seed ${result.metadata.seed}: ${counts}`,
+      },
+      ...Object.entries(result.dataset).map(([entityName, records]) => ({
+        type: 'resource',
+        resource: {
+          uri: `faker://datasets/generated/${entityName}.${format}`,
+          mimeType: OUTPUT_MIME_TYPES[format],
+          text: formatRecords(records as object[], format),
+        },
+      })),
+    ];
+  }
+
+  return [
+    {
+      type: 'text',
+      text: JSON.stringify(result, null, 2),
+    },
+  ];
+}
+
+/**
+ * Gives every entity without its own ID strategy the tool-level default.
+ *
+ * @param {DatasetSchema} schema - Dataset schema
+ * @param {IdStrategy} [idStrategy] - Default ID strategy
+ * @returns {DatasetSchema} The schema, or a copy whose entities carry the default
+ * @example
+ * ```typescript
+ * const schema = withDefaultIdStrategy(params.schema, { type: IdStrategyType.ULID });
+ * ```
+ */
+export function withDefaultIdStrategy(
+  schema: DatasetSchema,
+  idStrategy?: IdStrategy
+): DatasetSchema {
+  if (!idStrategy) {
+    return schema;
+  }
+  return {
+    entities: Object.fromEntries(
+      Object.entries(schema.entities).map(([entityName, entity]) => [
+        entityName,
+        { ...entity, idStrategy: entity.idStrategy ?? idStrategy },
+      ])
+    ),
+  };
+}
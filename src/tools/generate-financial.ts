@@ -0,0 +1,352 @@
+import { isAbsolute } from 'node:path';
+import { z } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import {
+  FinancialGenerator,
+  type AccountGenerationOptions,
+  type LedgerGenerationOptions,
+} from '../generators/financial-generator.js';
+import {
+  BankCountry,
+  CardNetwork,
+  FinancialRecordType,
+  OutputFormat,
+  SupportedLocale,
+} from '../types/schema.js';
+import {
+  formatRecords,
+  OUTPUT_MIME_TYPES,
+  RECORD_OUTPUT_FORMATS,
+} from '../utils/tabular-export.js';
+import { MAX_INLINE_COUNT, MAX_STREAMED_COUNT, writeRecordsToFile } from '../utils/file-sink.js';
+import { checkOutputPath } from '../utils/file-access.js';
+import { ChaosInjector, ChaosSchema, chaosManifestContent } from '../utils/chaos.js';
+import { IdStrategySchema } from '../utils/id-strategies.js';
+import { collectIdStrategyIssues, isValidDate } from '../utils/validators.js';
+import { fromSchemaIssues, fromZodError } from '../utils/tool-errors.js';
+import type { ToolContext } from '../server.js';
+
+/**
+ * Options of either record type; each generator method reads the fields it knows.
+ */
+type FinancialGenerationOptions = AccountGenerationOptions & LedgerGenerationOptions;
+
+/**
+ * Resource kind and singular label of each record type, used in URIs and response text
+ */
+const RECORD_TYPE_LABELS: Record<FinancialRecordType, { kind: string; label: string }> = {
+  [FinancialRecordType.ACCOUNT]: { kind: 'accounts', label: 'account' },
+  [FinancialRecordType.LEDGER]: { kind: 'transactions', label: 'ledger transaction' },
+};
+
+/**
+ * Zod validation schema for generate-financial tool parameters.
+ * Defines and validates all input parameters for financial data generation.
+ *
+ * @constant
+ * @type {z.ZodEffects}
+ */
+export const GenerateFinancialSchema = z
+  .object({
+    recordType: z
+      .nativeEnum(FinancialRecordType)
+      .default(FinancialRecordType.ACCOUNT)
+      .describe(
+        'Records to generate: bank accounts with IBAN, BIC and card, or balanced double-entry ledger transactions'
+      ),
+    count: z
+      .number()
+      .min(1)
+      .max(MAX_STREAMED_COUNT)
+      .default(1)
+      .describe('Number of records to generate (up to 10000 inline, or 10000000 with outputPath)'),
+    locale: z
+      .nativeEnum(SupportedLocale)
+      .default(SupportedLocale.EN)
+      .describe('Locale for generated data; also picks the bank country (en: GB, ja: JP)'),
+    seed: z.number().optional().describe('Optional seed for reproducible generation'),
+    referenceDate: z
+      .string()
+      .refine(isValidDate, 'referenceDate must be a valid ISO 8601 date')
+      .optional()
+      .describe(
+        'Date anchoring card expiries and posting dates (ISO 8601). Defaults to 2025-01-01 for seeded runs and to now otherwise'
+      ),
+    outputFormat: z
+      .enum(RECORD_OUTPUT_FORMATS)
+      .default(OutputFormat.JSON)
+      .describe('Output format: json, csv, ndjson or tsv'),
+    outputPath: z
+      .string()
+      .refine(isAbsolute, 'outputPath must be an absolute path')
+      .optional()
+      .describe(
+        "Absolute file path to stream the records to instead of returning them inline (required above 10000 records; stdio only, inside the server's output directory if one is set)"
+      ),
+    country: z
+      .nativeEnum(BankCountry)
+      .optional()
+      .describe(
+        "Accounts only: country of the banks (GB, DE, FR, ES, NL or JP). Defaults to the locale's; JP accounts have no IBAN"
+      ),
+    currency: z
+      .string()
+      .regex(/^[A-Z]{3}$/, 'currency must be an ISO 4217 code such as EUR')
+      .optional()
+      .describe(
+        'ISO 4217 currency code of balances and amounts. Defaults to the currency of the bank country (GBP for en), for accounts and ledger transactions alike'
+      ),
+    includeCard: z
+      .boolean()
+      .default(true)
+      .describe('Accounts only: whether to include a Luhn-valid test payment card'),
+    cardNetworks: z
+      .array(z.nativeEnum(CardNetwork))
+      .min(1)
+      .optional()
+      .describe('Accounts only: networks cards are drawn from (visa, mastercard, amex, discover)'),
+    idStrategy: IdStrategySchema.optional(),
+    chaos: ChaosSchema.optional(),
+  })
+  .refine((params) => params.outputPath !== undefined || params.count <= MAX_INLINE_COUNT, {
+    message: `Number must be less than or equal to ${MAX_INLINE_COUNT} unless outputPath is set`,
+    path: ['count'],
+  })
+  .refine((params) => params.outputPath === undefined || params.chaos === undefined, {
+    message: 'chaos applies to inline output only; remove outputPath or chaos',
+    path: ['chaos'],
+  })
+  .refine(
+    (params) =>
+      params.recordType === FinancialRecordType.ACCOUNT ||
+      (params.country === undefined && params.cardNetworks === undefined),
+    {
+      message: 'country and cardNetworks apply to account records only',
+      path: ['recordType'],
+    }
+  );
+
+/**
+ * Type definition for generate-financial parameters, inferred from Zod schema.
+ *
+ * @typedef {z.infer<typeof GenerateFinancialSchema>} GenerateFinancialParams
+ */
+export type GenerateFinancialParams = z.infer<typeof GenerateFinancialSchema>;
+
+/**
+ * MCP Tool definition for financial data generation.
+ * Provides tool metadata and input schema for MCP clients.
+ *
+ * @constant
+ * @type {Tool}
+ * @property {string} name - Tool identifier
+ * @property {string} description - Human-readable tool description
+ * @property {Object} inputSchema - JSON Schema for tool inputs
+ */
+export const generateFinancialTool: Tool = {
+  name: 'generate-financial',
+  description:
+    'Generates fake financial data: bank accounts with checksum-valid IBANs, BIC codes and Luhn-valid test card numbers, or double-entry ledger transactions whose debits and credits balance',
+  inputSchema: zodToJsonSchema(GenerateFinancialSchema) as Tool['inputSchema'],
+};
+
+/**
+ * Handler function for the generate-financial MCP tool.
+ * Validates inputs, generates account or ledger data, and returns formatted MCP response.
+ *
+ * @async
+ * @param {unknown} args - Raw arguments from MCP client (validated against schema)
+ * @param {ToolContext} [context] - Call context used to report progress and observe cancellation
+ * @returns {Promise<{ content: unknown[] }>} MCP-formatted response with generated data
+ * @throws {Error} If parameter validation fails or generation encounters an error
+ * @example
+ * ```typescript
+ * const result = await handleGenerateFinancial({
+ *   recordType: 'account',
+ *   count: 50,
+ *   locale: 'de',
+ *   cardNetworks: ['visa']
+ * });
+ * // Returns MCP response with 50 German bank accounts
+ * ```
+ */
+export function handleGenerateFinancial(
+  args: unknown,
+  context?: ToolContext
+): Promise<{ content: unknown[] }> {
+  try {
+    // Validate and parse arguments
+    const params = GenerateFinancialSchema.parse(args);
+
+    // Pattern IDs must compile and have room for every record
+    const idIssues = collectIdStrategyIssues(params.idStrategy, params.count, ['idStrategy']);
+    if (idIssues.length > 0) {
+      throw fromSchemaIssues('Invalid idStrategy', idIssues);
+    }
+
+    // Create generator
+    const generator = new FinancialGenerator({
+      seed: params.seed,
+      locale: params.locale,
+      referenceDate: params.referenceDate,
+    });
+
+    const options: FinancialGenerationOptions = {
+      country: params.country,
+      currency: params.currency,
+      includeCard: params.includeCard,
+      cardNetworks: params.cardNetworks,
+      idStrategy: params.idStrategy,
+    };
+
+    // Large counts are streamed to a file instead of being returned inline
+    if (params.outputPath) {
+      return streamFinancialToFile(generator, params, params.outputPath, options, context);
+    }
+
+    return generateFinancialInline(generator, params, options, context);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      throw fromZodError(error, args);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Generates account or ledger records in memory and returns them inline.
+ * Progress is reported per batch and a cancelled call stops between batches.
+ *
+ * @async
+ * @param {FinancialGenerator} generator - Seeded generator
+ * @param {GenerateFinancialParams} params - Validated parameters
+ * @param {FinancialGenerationOptions} options - Record options
+ * @param {ToolContext} [context] - Call context used to report progress and observe cancellation
+ * @returns {Promise<{ content: unknown[] }>} MCP-formatted response with generated data
+ */
+async function generateFinancialInline(
+  generator: FinancialGenerator,
+  params: GenerateFinancialParams,
+  options: FinancialGenerationOptions,
+  context?: ToolContext
+): Promise<{ content: unknown[] }> {
+  const startTime = Date.now();
+  const { kind, label } = RECORD_TYPE_LABELS[params.recordType];
+
+  // Generate data
+  const control = {
+    onProgress: (completed: number, total: number) => context?.reportProgress(completed, total),
+    signal: context?.signal,
+  };
+  const generated: object[] =
+    params.recordType === FinancialRecordType.ACCOUNT
+      ? await generator.generateAccounts(params.count, options, control)
+      : await generator.generateTransactions(params.count, options, control);
+
+  // Defects are injected after generation, so the records underneath match a run without chaos
+  const chaos = params.chaos ? new ChaosInjector(params.chaos, generator.getSeed()) : undefined;
+  const data = chaos ? (chaos.corruptRecords(generated) as object[]) : generated;
+
+  const generationTimeMs = Date.now() - startTime;
+
+  // Build response
+  const metadata = {
+    count: data.length,
+    seed: generator.getSeed(),
+    locale: generator.getLocale(),
+    referenceDate: generator.getReferenceDate().toISOString(),
+    generationTimeMs,
+  };
+
+  const responseText = params.seed
+    ? `Generated ${data.length} ${label} record${data.length > 1 ? 's' : ''} with seed ${params.seed}`
+    : `Generated ${data.length} ${label} record${data.length > 1 ? 's' : ''}`;
+
+  // JSON keeps the metadata envelope; tabular formats contain only the records
+  const resource =
+    params.outputFormat === OutputFormat.JSON
+      ? {
+          uri: `faker://${kind}/generated`,
+          mimeType: OUTPUT_MIME_TYPES[OutputFormat.JSON],
+          text: JSON.stringify({ data, metadata }, null, 2),
+        }
+      : {
+          uri: `faker://${kind}/generated.${params.outputFormat}`,
+          mimeType: OUTPUT_MIME_TYPES[params.outputFormat],
+          text: formatRecords(data, params.outputFormat),
+        };
+
+  return {
+    content: [
+      {
+        type: 'text',
+        text: responseText,
+      },
+      {
+        type: 'resource',
+        resource,
+      },
+      ...(chaos ? [chaosManifestContent(kind, chaos.getManifest())] : []),
+    ],
+  };
+}
+
+/**
+ * Streams account or ledger records to a file with bounded memory and returns a summary
+ * response. The file holds the same records as an inline response with the same seed.
+ *
+ * @async
+ * @param {FinancialGenerator} generator - Seeded generator
+ * @param {GenerateFinancialParams} params - Validated parameters
+ * @param {string} outputPath - Destination file
+ * @param {FinancialGenerationOptions} options - Record options
+ * @param {ToolContext} [context] - Call context used to report progress and observe cancellation
+ * @returns {Promise<{ content: unknown[] }>} MCP-formatted summary with file details and metadata
+ */
+async function streamFinancialToFile(
+  generator: FinancialGenerator,
+  params: GenerateFinancialParams,
+  outputPath: string,
+  options: FinancialGenerationOptions,
+  context?: ToolContext
+): Promise<{ content: unknown[] }> {
+  const startTime = Date.now();
+  const filePath = await checkOutputPath(outputPath, context);
+  const { kind, label } = RECORD_TYPE_LABELS[params.recordType];
+
+  const records =
+    params.recordType === FinancialRecordType.ACCOUNT
+      ? generator.streamAccounts(params.count, options)
+      : generator.streamTransactions(params.count, options);
+  const file = await writeRecordsToFile(records, filePath, {
+    format: params.outputFormat,
+    onProgress: (written) => context?.reportProgress(written, params.count),
+    signal: context?.signal,
+  });
+
+  const metadata = {
+    count: file.records,
+    seed: generator.getSeed(),
+    locale: generator.getLocale(),
+    referenceDate: generator.getReferenceDate().toISOString(),
+    generationTimeMs: Date.now() - startTime,
+  };
+
+  return {
+    content: [
+      {
+        type: 'text',
+        text: `Streamed ${file.records} ${label} record${file.records > 1 ? 's' : ''} to ${file.path} (${file.format}) with seed ${metadata.seed}`,
+      },
+      {
+        type: 'resource',
+        resource: {
+          uri: `faker://${kind}/generated`,
+          mimeType: OUTPUT_MIME_TYPES[OutputFormat.JSON],
+          text: JSON.stringify({ file, metadata }, null, 2),
+        },
+      },
+    ],
+  };
+}
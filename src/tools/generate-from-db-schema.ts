@@ -0,0 +1,183 @@
+import { isAbsolute } from 'node:path';
+import { z } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { DatasetGenerator } from '../generators/dataset-generator.js';
+import { OutputFormat, SchemaSourceFormat } from '../types/schema.js';
+import { OUTPUT_MIME_TYPES } from '../utils/tabular-export.js';
+import {
+  detectSchemaFormat,
+  importDatasetSchema,
+  loadSchemaSource,
+} from '../utils/schema-import.js';
+import { collectDatasetSchemaIssues } from '../utils/validators.js';
+import { fromSchemaIssues, fromZodError } from '../utils/tool-errors.js';
+import { checkInputPath } from '../utils/file-access.js';
+import {
+  formatDatasetContent,
+  GenerateDatasetParamsSchema,
+  withDefaultIdStrategy,
+} from './generate-dataset.js';
+import type { ToolContext } from '../server.js';
+
+/**
+ * Zod validation schema for per-table record counts.
+ *
+ * @constant
+ * @type {z.ZodNumber}
+ */
+const TableCountSchema = z
+  .number()
+  .int('Count must be an integer')
+  .min(1, 'Count must be at least 1')
+  .max(10000, 'Count must not exceed 10000');
+
+/**
+ * Zod validation schema for generate-from-db-schema tool parameters.
+ * Seed, locale, reference date and output options are shared with generate-dataset.
+ *
+ * @constant
+ * @type {z.ZodEffects}
+ */
+export const GenerateFromDbSchemaSchema = z
+  .object({
+    source: z
+      .string()
+      .min(1)
+      .optional()
+      .describe('Inline Prisma schema or SQL DDL (CREATE TABLE statements)'),
+    sourcePath: z
+      .string()
+      .refine(isAbsolute, 'sourcePath must be an absolute path')
+      .optional()
+      .describe(
+        "Absolute path of a schema.prisma file, a .sql file, or a directory of .sql migrations (stdio only, inside the server's input directory if one is set)"
+      ),
+    format: z
+      .nativeEnum(SchemaSourceFormat)
+      .optional()
+      .describe('Source format: prisma or sql. Detected from the file extension or content'),
+    counts: z
+      .record(z.string(), TableCountSchema)
+      .optional()
+      .describe('Record count per table or model, e.g. { "users": 20, "orders": 100 }'),
+    defaultCount: TableCountSchema.default(10).describe(
+      'Record count of tables not listed in counts'
+    ),
+    ...GenerateDatasetParamsSchema.pick({
+      seed: true,
+      locale: true,
+      referenceDate: true,
+      outputFormat: true,
+      sqlDialect: true,
+      sqlBatchSize: true,
+      idStrategy: true,
+      chaos: true,
+    }).shape,
+  })
+  .refine((params) => (params.source === undefined) !== (params.sourcePath === undefined), {
+    message: 'Exactly one of source or sourcePath must be provided',
+    path: ['source'],
+  });
+
+/**
+ * Type definition for generate-from-db-schema parameters, inferred from Zod schema.
+ *
+ * @typedef {z.infer<typeof GenerateFromDbSchemaSchema>} GenerateFromDbSchemaParams
+ */
+export type GenerateFromDbSchemaParams = z.infer<typeof GenerateFromDbSchemaSchema>;
+
+/**
+ * MCP Tool definition for dataset generation from a Prisma schema or SQL DDL.
+ *
+ * @constant
+ * @type {Tool}
+ * @property {string} name - Tool identifier
+ * @property {string} description - Human-readable tool description
+ * @property {Object} inputSchema - JSON Schema for tool inputs
+ */
+export const generateFromDbSchemaTool: Tool = {
+  name: 'generate-from-db-schema',
+  description:
+    'Generate a dataset with referential integrity from a Prisma schema or SQL DDL (CREATE TABLE statements). ' +
+    'Tables become entities that keep their primary keys (integer keys get sequence IDs), foreign keys become relationships with their nullability, and unique constraints, enum and column types are honored. ' +
+    'Supports the same output formats as generate-dataset, including sql.',
+  inputSchema: zodToJsonSchema(GenerateFromDbSchemaSchema) as Tool['inputSchema'],
+};
+
+/**
+ * Handler function for the generate-from-db-schema MCP tool.
+ * Imports the database schema into a dataset schema, generates the dataset, and returns it in
+ * the requested output format followed by the imported schema and any import warnings.
+ *
+ * @async
+ * @param {unknown} args - Raw arguments from MCP client (validated against schema)
+ * @param {ToolContext} [context] - Call context used to report progress and observe cancellation
+ * @returns {Promise<{ content: unknown[] }>} MCP-formatted response with the dataset and imported schema
+ * @throws {Error} If parameter validation fails, the source cannot be read or imported, or generation fails
+ * @example
+ * ```typescript
+ * const result = await handleGenerateFromDbSchema({
+ *   sourcePath: '/work/app/prisma/schema.prisma',
+ *   counts: { User: 20, Post: 100 },
+ *   seed: 12345
+ * });
+ * ```
+ */
+export async function handleGenerateFromDbSchema(
+  args: unknown,
+  context?: ToolContext
+): Promise<{ content: unknown[] }> {
+  try {
+    // Validate and parse arguments
+    const params = GenerateFromDbSchemaSchema.parse(args);
+    const text = params.sourcePath
+      ? await loadSchemaSource(await checkInputPath(params.sourcePath, 'sourcePath', context))
+      : (params.source ?? '');
+    const format = params.format ?? detectSchemaFormat(text, params.sourcePath);
+
+    // Import the database schema
+    const imported = importDatasetSchema(text, format, {
+      counts: params.counts,
+      defaultCount: params.defaultCount,
+    });
+    const { warnings } = imported;
+    const schema = withDefaultIdStrategy(imported.schema, params.idStrategy);
+
+    // Issue paths point into the imported dataset schema, which is not part of the arguments
+    const schemaIssues = collectDatasetSchemaIssues(schema);
+    if (schemaIssues.length > 0) {
+      throw fromSchemaIssues('Invalid imported schema', schemaIssues);
+    }
+
+    // Create generator and generate dataset
+    const generator = new DatasetGenerator({
+      seed: params.seed,
+      locale: params.locale,
+      referenceDate: params.referenceDate,
+    });
+    const result = await generator.generateDataset(schema, {
+      onProgress: (completed, total) => context?.reportProgress(completed, total),
+      signal: context?.signal,
+    });
+
+    return {
+      content: [
+        ...formatDatasetContent(schema, generator, result, params),
+        {
+          type: 'resource',
+          resource: {
+            uri: 'faker://datasets/imported-schema',
+            mimeType: OUTPUT_MIME_TYPES[OutputFormat.JSON],
+            text: JSON.stringify({ format, schema, warnings }, null, 2),
+          },
+        },
+      ],
+    };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      throw fromZodError(error, args);
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,220 @@
+import { z } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { JsonSchemaGenerator } from '../generators/json-schema-generator.js';
+import { OutputFormat, SupportedLocale, type JsonSchema } from '../types/schema.js';
+import {
+  formatRecords,
+  OUTPUT_MIME_TYPES,
+  RECORD_OUTPUT_FORMATS,
+} from '../utils/tabular-export.js';
+import { ChaosInjector, ChaosSchema, chaosManifestContent } from '../utils/chaos.js';
+import { MAX_INLINE_COUNT } from '../utils/file-sink.js';
+import { isValidDate } from '../utils/validators.js';
+import { fromZodError } from '../utils/tool-errors.js';
+import type { ToolContext } from '../server.js';
+
+/**
+ * Zod validation schema for generate-from-json-schema tool parameters.
+ *
+ * @constant
+ * @type {z.ZodObject}
+ */
+export const GenerateFromJsonSchemaSchema = z.object({
+  schema: z
+    .record(z.string(), z.unknown())
+    .describe(
+      'JSON Schema document every record must conform to (type, format, enum, pattern, bounds, required, nested objects and arrays, local $ref)'
+    ),
+  count: z
+    .number()
+    .min(1)
+    .max(MAX_INLINE_COUNT)
+    .default(1)
+    .describe('Number of records to generate'),
+  includeOptional: z
+    .boolean()
+    .default(true)
+    .describe('Whether to generate properties that are not listed in required'),
+  locale: z
+    .nativeEnum(SupportedLocale)
+    .default(SupportedLocale.EN)
+    .describe('Locale for generated data'),
+  seed: z.number().optional().describe('Optional seed for reproducible generation'),
+  referenceDate: z
+    .string()
+    .refine(isValidDate, 'referenceDate must be a valid ISO 8601 date')
+    .optional()
+    .describe(
+      'Date anchoring generated date and date-time values (ISO 8601). Defaults to 2025-01-01 for seeded runs and to now otherwise'
+    ),
+  outputFormat: z
+    .enum(RECORD_OUTPUT_FORMATS)
+    .default(OutputFormat.JSON)
+    .describe('Output format: json, csv, ndjson or tsv (csv and tsv require an object schema)'),
+  chaos: ChaosSchema.optional(),
+});
+
+/**
+ * Type definition for generate-from-json-schema parameters, inferred from Zod schema.
+ *
+ * @typedef {z.infer<typeof GenerateFromJsonSchemaSchema>} GenerateFromJsonSchemaParams
+ */
+export type GenerateFromJsonSchemaParams = z.infer<typeof GenerateFromJsonSchemaSchema>;
+
+/**
+ * MCP Tool definition for JSON Schema driven data generation.
+ *
+ * @constant
+ * @type {Tool}
+ * @property {string} name - Tool identifier
+ * @property {string} description - Human-readable tool description
+ * @property {Object} inputSchema - JSON Schema for tool inputs
+ */
+export const generateFromJsonSchemaTool: Tool = {
+  name: 'generate-from-json-schema',
+  description:
+    'Generates fake records conforming to a JSON Schema document, honoring types, formats, enums, patterns, bounds, required properties, nested objects and arrays',
+  inputSchema: zodToJsonSchema(GenerateFromJsonSchemaSchema) as Tool['inputSchema'],
+};
+
+/**
+ * Handler function for the generate-from-json-schema MCP tool.
+ * Validates parameters, generates records conforming to the schema,
+ * and returns formatted MCP response.
+ *
+ * @async
+ * @param {unknown} args - Raw arguments from MCP client (validated against schema)
+ * @param {ToolContext} [context] - Call context used to report progress and observe cancellation
+ * @returns {Promise<{ content: unknown[] }>} MCP-formatted response with generated data
+ * @throws {Error} If parameter validation fails or the schema cannot be satisfied
+ * @example
+ * ```typescript
+ * const result = await handleGenerateFromJsonSchema({
+ *   count: 10,
+ *   schema: {
+ *     type: 'object',
+ *     required: ['id', 'email'],
+ *     properties: {
+ *       id: { type: 'string', format: 'uuid' },
+ *       email: { type: 'string', format: 'email' },
+ *       age: { type: 'integer', minimum: 18, maximum: 99 }
+ *     }
+ *   },
+ *   seed: 12345
+ * });
+ * ```
+ */
+export function handleGenerateFromJsonSchema(
+  args: unknown,
+  context?: ToolContext
+): Promise<{ content: unknown[] }> {
+  try {
+    // Validate and parse arguments
+    const params = GenerateFromJsonSchemaSchema.parse(args);
+    const schema = params.schema as JsonSchema;
+
+    // Create generator
+    const generator = new JsonSchemaGenerator({
+      seed: params.seed,
+      locale: params.locale,
+      referenceDate: params.referenceDate,
+    });
+
+    return generateFromJsonSchemaInline(generator, params, schema, context);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      throw fromZodError(error, args);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Generates JSON Schema records in memory and returns them inline.
+ * Progress is reported per batch and a cancelled call stops between batches.
+ *
+ * @async
+ * @param {JsonSchemaGenerator} generator - Seeded generator
+ * @param {GenerateFromJsonSchemaParams} params - Validated parameters
+ * @param {JsonSchema} schema - Root schema of the records
+ * @param {ToolContext} [context] - Call context used to report progress and observe cancellation
+ * @returns {Promise<{ content: unknown[] }>} MCP-formatted response with generated data
+ */
+async function generateFromJsonSchemaInline(
+  generator: JsonSchemaGenerator,
+  params: GenerateFromJsonSchemaParams,
+  schema: JsonSchema,
+  context?: ToolContext
+): Promise<{ content: unknown[] }> {
+  const startTime = Date.now();
+
+  // Generate data
+  const generated = await generator.generateMany(
+    params.count,
+    { schema, includeOptional: params.includeOptional },
+    {
+      onProgress: (completed, total) => context?.reportProgress(completed, total),
+      signal: context?.signal,
+    }
+  );
+
+  const tabular =
+    params.outputFormat === OutputFormat.CSV || params.outputFormat === OutputFormat.TSV;
+  if (tabular && generated.some((record) => !isPlainObject(record))) {
+    throw new Error(`${params.outputFormat} output requires a schema whose root is an object`);
+  }
+
+  const chaos = params.chaos ? new ChaosInjector(params.chaos, generator.getSeed()) : undefined;
+  const data = chaos ? chaos.corruptRecords(generated) : generated;
+
+  const generationTimeMs = Date.now() - startTime;
+
+  // Build response
+  const metadata = {
+    count: data.length,
+    seed: generator.getSeed(),
+    locale: generator.getLocale(),
+    referenceDate: generator.getReferenceDate().toISOString(),
+    generationTimeMs,
+  };
+
+  const responseText = params.seed
+    ? `Generated ${data.length} record${data.length > 1 ? 's' : ''} from JSON Schema with seed ${params.seed}`
+    : `Generated ${data.length} record${data.length > 1 ? 's' : ''} from JSON Schema`;
+
+  // JSON keeps the metadata envelope; other formats contain only the records
+  const resource =
+    params.outputFormat === OutputFormat.JSON
+      ? {
+          uri: 'faker://json-schema/generated',
+          mimeType: OUTPUT_MIME_TYPES[OutputFormat.JSON],
+          text: JSON.stringify({ data, metadata }, null, 2),
+        }
+      : {
+          uri: `faker://json-schema/generated.${params.outputFormat}`,
+          mimeType: OUTPUT_MIME_TYPES[params.outputFormat],
+          text: formatRecords(data as object[], params.outputFormat),
+        };
+
+  return {
+    content: [
+      {
+        type: 'text',
+        text: responseText,
+      },
+      {
+        type: 'resource',
+        resource,
+      },
+      ...(chaos ? [chaosManifestContent('json-schema', chaos.getManifest())] : []),
+    ],
+  };
+}
+
+/**
+ * Whether a generated record is a JSON object (not an array, primitive or null)
+ */
+function isPlainObject(value: unknown): boolean {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
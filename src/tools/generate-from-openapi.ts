@@ -0,0 +1,228 @@
+import { isAbsolute } from 'node:path';
+import { z } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { JsonSchemaGenerator } from '../generators/json-schema-generator.js';
+import { OutputFormat, SupportedLocale } from '../types/schema.js';
+import { OUTPUT_MIME_TYPES } from '../utils/tabular-export.js';
+import { ChaosInjector, ChaosSchema, chaosManifestContent } from '../utils/chaos.js';
+import { MAX_INLINE_COUNT } from '../utils/file-sink.js';
+import { getResponseSchema, listOperations, loadOpenApiDocument } from '../utils/openapi.js';
+import { isValidDate } from '../utils/validators.js';
+import { fromZodError } from '../utils/tool-errors.js';
+import { checkInputPath } from '../utils/file-access.js';
+import type { ToolContext } from '../server.js';
+
+/**
+ * Zod validation schema for generate-from-openapi tool parameters.
+ *
+ * @constant
+ * @type {z.ZodEffects}
+ */
+export const GenerateFromOpenApiSchema = z
+  .object({
+    spec: z
+      .union([z.string(), z.record(z.string(), z.unknown())])
+      .optional()
+      .describe('Inline OpenAPI 3.x document, as an object or as JSON/YAML text'),
+    specPath: z
+      .string()
+      .refine(isAbsolute, 'specPath must be an absolute path')
+      .optional()
+      .describe(
+        "Absolute path of a local OpenAPI 3.x JSON or YAML file (stdio only, inside the server's input directory if one is set)"
+      ),
+    operation: z
+      .string()
+      .optional()
+      .describe(
+        "Operation ID or method and path (e.g. 'GET /pets/{petId}'). Omit to list the operations of the document"
+      ),
+    status: z
+      .string()
+      .optional()
+      .describe("Response status code (e.g. '200', '404', 'default'). Defaults to the first 2XX"),
+    mediaType: z
+      .string()
+      .optional()
+      .describe('Response media type. Defaults to application/json, then the first JSON type'),
+    count: z
+      .number()
+      .min(1)
+      .max(MAX_INLINE_COUNT)
+      .default(1)
+      .describe('Number of response bodies to generate'),
+    includeOptional: z
+      .boolean()
+      .default(true)
+      .describe('Whether to generate properties that are not listed in required'),
+    locale: z
+      .nativeEnum(SupportedLocale)
+      .default(SupportedLocale.EN)
+      .describe('Locale for generated data'),
+    seed: z.number().optional().describe('Optional seed for reproducible generation'),
+    referenceDate: z
+      .string()
+      .refine(isValidDate, 'referenceDate must be a valid ISO 8601 date')
+      .optional()
+      .describe(
+        'Date anchoring generated date and date-time values (ISO 8601). Defaults to 2025-01-01 for seeded runs and to now otherwise'
+      ),
+    chaos: ChaosSchema.optional(),
+  })
+  .refine((params) => (params.spec === undefined) !== (params.specPath === undefined), {
+    message: 'Exactly one of spec or specPath must be provided',
+    path: ['spec'],
+  });
+
+/**
+ * Type definition for generate-from-openapi parameters, inferred from Zod schema.
+ *
+ * @typedef {z.infer<typeof GenerateFromOpenApiSchema>} GenerateFromOpenApiParams
+ */
+export type GenerateFromOpenApiParams = z.infer<typeof GenerateFromOpenApiSchema>;
+
+/**
+ * MCP Tool definition for OpenAPI response mocking.
+ *
+ * @constant
+ * @type {Tool}
+ * @property {string} name - Tool identifier
+ * @property {string} description - Human-readable tool description
+ * @property {Object} inputSchema - JSON Schema for tool inputs
+ */
+export const generateFromOpenApiTool: Tool = {
+  name: 'generate-from-openapi',
+  description:
+    'Lists the operations of an OpenAPI 3.x document and generates example response bodies for an operation and status code, resolving $ref, allOf, oneOf and anyOf',
+  inputSchema: zodToJsonSchema(GenerateFromOpenApiSchema) as Tool['inputSchema'],
+};
+
+/**
+ * Handler function for the generate-from-openapi MCP tool.
+ * Without `operation` it lists the operations of the document; otherwise it generates
+ * response bodies conforming to the selected response schema.
+ *
+ * @async
+ * @param {unknown} args - Raw arguments from MCP client (validated against schema)
+ * @param {ToolContext} [context] - Call context used to report progress and observe cancellation
+ * @returns {Promise<{ content: unknown[] }>} MCP-formatted response with operations or generated data
+ * @throws {Error} If parameter validation fails, the document cannot be loaded, or the
+ *   operation, status or media type does not exist
+ * @example
+ * ```typescript
+ * const result = await handleGenerateFromOpenApi({
+ *   specPath: '/work/api/openapi.yaml',
+ *   operation: 'GET /pets/{petId}',
+ *   status: '200',
+ *   count: 3,
+ *   seed: 12345
+ * });
+ * ```
+ */
+export async function handleGenerateFromOpenApi(
+  args: unknown,
+  context?: ToolContext
+): Promise<{ content: unknown[] }> {
+  const startTime = Date.now();
+
+  try {
+    // Validate and parse arguments
+    const params = GenerateFromOpenApiSchema.parse(args);
+    const specPath =
+      params.specPath !== undefined
+        ? await checkInputPath(params.specPath, 'specPath', context)
+        : undefined;
+    const doc = await loadOpenApiDocument(params.spec, specPath);
+    const title = doc.info?.title ?? 'OpenAPI document';
+
+    // Without an operation, describe what can be generated
+    if (params.operation === undefined) {
+      const operations = listOperations(doc);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Found ${operations.length} operation${operations.length === 1 ? '' : 's'} in ${title}`,
+          },
+          {
+            type: 'resource',
+            resource: {
+              uri: 'faker://openapi/operations',
+              mimeType: OUTPUT_MIME_TYPES[OutputFormat.JSON],
+              text: JSON.stringify({ operations }, null, 2),
+            },
+          },
+        ],
+      };
+    }
+
+    const response = getResponseSchema(doc, {
+      operation: params.operation,
+      status: params.status,
+      mediaType: params.mediaType,
+    });
+
+    // Create generator; $refs resolve against the whole document
+    const generator = new JsonSchemaGenerator({
+      seed: params.seed,
+      locale: params.locale,
+      referenceDate: params.referenceDate,
+    });
+
+    const generated = await generator.generateMany(
+      params.count,
+      { schema: response.schema, root: doc, includeOptional: params.includeOptional },
+      {
+        onProgress: (completed, total) => context?.reportProgress(completed, total),
+        signal: context?.signal,
+      }
+    );
+
+    const chaos = params.chaos ? new ChaosInjector(params.chaos, generator.getSeed()) : undefined;
+    const data = chaos ? chaos.corruptRecords(generated) : generated;
+
+    const generationTimeMs = Date.now() - startTime;
+
+    // Build response
+    const metadata = {
+      operation: response.operation,
+      status: response.status,
+      mediaType: response.mediaType,
+      count: data.length,
+      seed: generator.getSeed(),
+      locale: generator.getLocale(),
+      referenceDate: generator.getReferenceDate().toISOString(),
+      generationTimeMs,
+    };
+
+    const target = `${response.operation.method} ${response.operation.path} (${response.status} ${response.mediaType})`;
+    const plural = data.length > 1 ? 'ies' : 'y';
+    const responseText = params.seed
+      ? `Generated ${data.length} response bod${plural} for ${target} with seed ${params.seed}`
+      : `Generated ${data.length} response bod${plural} for ${target}`;
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: responseText,
+        },
+        {
+          type: 'resource',
+          resource: {
+            uri: 'faker://openapi/generated',
+            mimeType: OUTPUT_MIME_TYPES[OutputFormat.JSON],
+            text: JSON.stringify({ data, metadata }, null, 2),
+          },
+        },
+        ...(chaos ? [chaosManifestContent('openapi', chaos.getManifest())] : []),
+      ],
+    };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      throw fromZodError(error, args);
+    }
+    throw error;
+  }
+}
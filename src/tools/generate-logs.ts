@@ -0,0 +1,316 @@
+import { isAbsolute } from 'node:path';
+import { z } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { LogGenerator, type LogGenerationOptions } from '../generators/log-generator.js';
+import type { LogData } from '../types/responses.js';
+import { LogType, OutputFormat, SupportedLocale } from '../types/schema.js';
+import { formatRecords, OUTPUT_MIME_TYPES } from '../utils/tabular-export.js';
+import { formatLogLines, LOG_OUTPUT_FORMATS } from '../utils/log-formats.js';
+import { MAX_INLINE_COUNT, MAX_STREAMED_COUNT, writeRecordsToFile } from '../utils/file-sink.js';
+import { checkOutputPath } from '../utils/file-access.js';
+import { ChaosInjector, ChaosSchema, chaosManifestContent } from '../utils/chaos.js';
+import { IdStrategySchema } from '../utils/id-strategies.js';
+import { collectIdStrategyIssues, isValidDate } from '../utils/validators.js';
+import { fromSchemaIssues, fromZodError } from '../utils/tool-errors.js';
+import type { ToolContext } from '../server.js';
+
+/**
+ * Singular label of each log type, used in response text
+ */
+const LOG_TYPE_LABELS: Record<LogType, string> = {
+  [LogType.ACCESS]: 'access log',
+  [LogType.AUTH]: 'auth event',
+  [LogType.APP]: 'application log',
+};
+
+/**
+ * Zod validation schema for generate-logs tool parameters.
+ * Defines and validates all input parameters for log generation.
+ *
+ * @constant
+ * @type {z.ZodEffects}
+ */
+export const GenerateLogsSchema = z
+  .object({
+    logType: z
+      .nativeEnum(LogType)
+      .default(LogType.ACCESS)
+      .describe(
+        'Records to generate: web access logs (access), authentication events (auth) or application logs (app)'
+      ),
+    count: z
+      .number()
+      .min(1)
+      .max(MAX_STREAMED_COUNT)
+      .default(1)
+      .describe(
+        'Number of log records to generate (up to 10000 inline, or 10000000 with outputPath)'
+      ),
+    locale: z
+      .nativeEnum(SupportedLocale)
+      .default(SupportedLocale.EN)
+      .describe('Locale for generated data'),
+    seed: z.number().optional().describe('Optional seed for reproducible generation'),
+    referenceDate: z
+      .string()
+      .refine(isValidDate, 'referenceDate must be a valid ISO 8601 date')
+      .optional()
+      .describe(
+        'Date the log ends at (ISO 8601). Defaults to 2025-01-01 for seeded runs and to now otherwise'
+      ),
+    outputFormat: z
+      .enum(LOG_OUTPUT_FORMATS)
+      .default(OutputFormat.JSON)
+      .describe(
+        'Output format: json, ndjson (JSON lines), csv, tsv, combined (Apache/Nginx combined log format, access logs only) or syslog (RFC 5424)'
+      ),
+    outputPath: z
+      .string()
+      .refine(isAbsolute, 'outputPath must be an absolute path')
+      .optional()
+      .describe(
+        "Absolute file path to stream the records to instead of returning them inline (required above 10000 records; stdio only, inside the server's output directory if one is set)"
+      ),
+    eventsPerMinute: z
+      .number()
+      .positive('eventsPerMinute must be positive')
+      .max(6_000_000)
+      .default(60)
+      .describe('Average number of records per minute, which sets the time span of the log'),
+    idStrategy: IdStrategySchema.optional(),
+    chaos: ChaosSchema.optional(),
+  })
+  .refine((params) => params.outputPath !== undefined || params.count <= MAX_INLINE_COUNT, {
+    message: `Number must be less than or equal to ${MAX_INLINE_COUNT} unless outputPath is set`,
+    path: ['count'],
+  })
+  .refine((params) => params.outputPath === undefined || params.chaos === undefined, {
+    message: 'chaos applies to inline output only; remove outputPath or chaos',
+    path: ['chaos'],
+  })
+  .refine(
+    (params) => params.outputFormat !== OutputFormat.COMBINED || params.logType === LogType.ACCESS,
+    {
+      message: 'the combined log format applies to access logs only; use syslog or ndjson',
+      path: ['outputFormat'],
+    }
+  );
+
+/**
+ * Type definition for generate-logs parameters, inferred from Zod schema.
+ *
+ * @typedef {z.infer<typeof GenerateLogsSchema>} GenerateLogsParams
+ */
+export type GenerateLogsParams = z.infer<typeof GenerateLogsSchema>;
+
+/**
+ * MCP Tool definition for log generation.
+ * Provides tool metadata and input schema for MCP clients.
+ *
+ * @constant
+ * @type {Tool}
+ * @property {string} name - Tool identifier
+ * @property {string} description - Human-readable tool description
+ * @property {Object} inputSchema - JSON Schema for tool inputs
+ */
+export const generateLogsTool: Tool = {
+  name: 'generate-logs',
+  description:
+    'Generates fake web access logs, authentication events and application logs with IPv4/IPv6 addresses, user agents, realistic HTTP methods, paths, status codes and latencies, session IDs and JWT-shaped tokens, as records or combined/syslog lines',
+  inputSchema: zodToJsonSchema(GenerateLogsSchema) as Tool['inputSchema'],
+};
+
+/**
+ * Handler function for the generate-logs MCP tool.
+ * Validates inputs, generates log records, and returns formatted MCP response.
+ *
+ * @async
+ * @param {unknown} args - Raw arguments from MCP client (validated against schema)
+ * @param {ToolContext} [context] - Call context used to report progress and observe cancellation
+ * @returns {Promise<{ content: unknown[] }>} MCP-formatted response with generated data
+ * @throws {Error} If parameter validation fails or generation encounters an error
+ * @example
+ * ```typescript
+ * const result = await handleGenerateLogs({
+ *   logType: 'access',
+ *   count: 1000,
+ *   outputFormat: 'combined',
+ *   seed: 42
+ * });
+ * // Returns MCP response with 1000 combined log lines
+ * ```
+ */
+export function handleGenerateLogs(
+  args: unknown,
+  context?: ToolContext
+): Promise<{ content: unknown[] }> {
+  try {
+    // Validate and parse arguments
+    const params = GenerateLogsSchema.parse(args);
+
+    // Pattern IDs must compile and have room for every record
+    const idIssues = collectIdStrategyIssues(params.idStrategy, params.count, ['idStrategy']);
+    if (idIssues.length > 0) {
+      throw fromSchemaIssues('Invalid idStrategy', idIssues);
+    }
+
+    // Create generator
+    const generator = new LogGenerator({
+      seed: params.seed,
+      locale: params.locale,
+      referenceDate: params.referenceDate,
+    });
+
+    const options: LogGenerationOptions = {
+      type: params.logType,
+      eventsPerMinute: params.eventsPerMinute,
+      idStrategy: params.idStrategy,
+    };
+
+    // Large counts are streamed to a file instead of being returned inline
+    if (params.outputPath) {
+      return streamLogsToFile(generator, params, params.outputPath, options, context);
+    }
+
+    return generateLogsInline(generator, params, options, context);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      throw fromZodError(error, args);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Generates log records in memory and returns them inline.
+ * Progress is reported per batch and a cancelled call stops between batches.
+ *
+ * @async
+ * @param {LogGenerator} generator - Seeded generator
+ * @param {GenerateLogsParams} params - Validated parameters
+ * @param {LogGenerationOptions} options - Log type and rate
+ * @param {ToolContext} [context] - Call context used to report progress and observe cancellation
+ * @returns {Promise<{ content: unknown[] }>} MCP-formatted response with generated data
+ */
+async function generateLogsInline(
+  generator: LogGenerator,
+  params: GenerateLogsParams,
+  options: LogGenerationOptions,
+  context?: ToolContext
+): Promise<{ content: unknown[] }> {
+  const startTime = Date.now();
+
+  // Generate data
+  const generated = await generator.generateMany(params.count, options, {
+    onProgress: (completed, total) => context?.reportProgress(completed, total),
+    signal: context?.signal,
+  });
+
+  // Defects are injected after generation, so the records underneath match a run without chaos
+  const chaos = params.chaos ? new ChaosInjector(params.chaos, generator.getSeed()) : undefined;
+  const data = chaos ? (chaos.corruptRecords(generated) as LogData[]) : generated;
+
+  const generationTimeMs = Date.now() - startTime;
+
+  // Build response
+  const metadata = {
+    count: data.length,
+    seed: generator.getSeed(),
+    locale: generator.getLocale(),
+    referenceDate: generator.getReferenceDate().toISOString(),
+    generationTimeMs,
+  };
+
+  const label = LOG_TYPE_LABELS[params.logType];
+  const responseText = params.seed
+    ? `Generated ${data.length} ${label} record${data.length > 1 ? 's' : ''} with seed ${params.seed}`
+    : `Generated ${data.length} ${label} record${data.length > 1 ? 's' : ''}`;
+
+  // JSON keeps the metadata envelope; other formats contain only the records
+  const format = params.outputFormat;
+  const resource =
+    format === OutputFormat.JSON
+      ? {
+          uri: 'faker://logs/generated',
+          mimeType: OUTPUT_MIME_TYPES[OutputFormat.JSON],
+          text: JSON.stringify({ data, metadata }, null, 2),
+        }
+      : {
+          uri: `faker://logs/generated.${format}`,
+          mimeType: OUTPUT_MIME_TYPES[format],
+          text:
+            format === OutputFormat.COMBINED || format === OutputFormat.SYSLOG
+              ? formatLogLines(data, format)
+              : formatRecords(data, format),
+        };
+
+  return {
+    content: [
+      {
+        type: 'text',
+        text: responseText,
+      },
+      {
+        type: 'resource',
+        resource,
+      },
+      ...(chaos ? [chaosManifestContent('logs', chaos.getManifest())] : []),
+    ],
+  };
+}
+
+/**
+ * Streams log records to a file with bounded memory and returns a summary response.
+ * The file holds the same records as an inline response with the same seed.
+ *
+ * @async
+ * @param {LogGenerator} generator - Seeded generator
+ * @param {GenerateLogsParams} params - Validated parameters
+ * @param {string} outputPath - Destination file
+ * @param {LogGenerationOptions} options - Log type and rate
+ * @param {ToolContext} [context] - Call context used to report progress and observe cancellation
+ * @returns {Promise<{ content: unknown[] }>} MCP-formatted summary with file details and metadata
+ */
+async function streamLogsToFile(
+  generator: LogGenerator,
+  params: GenerateLogsParams,
+  outputPath: string,
+  options: LogGenerationOptions,
+  context?: ToolContext
+): Promise<{ content: unknown[] }> {
+  const startTime = Date.now();
+  const filePath = await checkOutputPath(outputPath, context);
+
+  const file = await writeRecordsToFile(generator.stream(params.count, options), filePath, {
+    format: params.outputFormat,
+    onProgress: (written) => context?.reportProgress(written, params.count),
+    signal: context?.signal,
+  });
+
+  const metadata = {
+    count: file.records,
+    seed: generator.getSeed(),
+    locale: generator.getLocale(),
+    referenceDate: generator.getReferenceDate().toISOString(),
+    generationTimeMs: Date.now() - startTime,
+  };
+
+  const label = LOG_TYPE_LABELS[params.logType];
+  return {
+    content: [
+      {
+        type: 'text',
+        text: `Streamed ${file.records} ${label} record${file.records > 1 ? 's' : ''} to ${file.path} (${file.format}) with seed ${metadata.seed}`,
+      },
+      {
+        type: 'resource',
+        resource: {
+          uri: 'faker://logs/generated',
+          mimeType: OUTPUT_MIME_TYPES[OutputFormat.JSON],
+          text: JSON.stringify({ file, metadata }, null, 2),
+        },
+      },
+    ],
+  };
+}
@@ -1,27 +1,117 @@
+import { isAbsolute } from 'node:path';
 import { z } from 'zod';
 import { zodToJsonSchema } from 'zod-to-json-schema';
 import { Tool } from '@modelcontextprotocol/sdk/types.js';
-import { PersonGenerator } from '../generators/person-generator.js';
-import { SupportedLocale } from '../types/schema.js';
+import { PersonGenerator, type PersonGenerationOptions } from '../generators/person-generator.js';
+import {
+  OutputFormat,
+  PersonOptionalField,
+  PersonUniqueField,
+  SupportedLocale,
+} from '../types/schema.js';
+import {
+  formatRecords,
+  OUTPUT_MIME_TYPES,
+  RECORD_OUTPUT_FORMATS,
+} from '../utils/tabular-export.js';
+import { MAX_INLINE_COUNT, MAX_STREAMED_COUNT, writeRecordsToFile } from '../utils/file-sink.js';
+import { checkOutputPath } from '../utils/file-access.js';
+import { ChaosInjector, ChaosSchema, chaosManifestContent } from '../utils/chaos.js';
+import { IdStrategySchema } from '../utils/id-strategies.js';
+import { collectIdStrategyIssues, isValidDate, isValidSparsity } from '../utils/validators.js';
+import { fromSchemaIssues, fromZodError } from '../utils/tool-errors.js';
+import type { ToolContext } from '../server.js';
+
+/**
+ * Zod validation schema for the null and omit rates of an optional person field.
+ *
+ * @constant
+ * @type {z.ZodEffects}
+ */
+const FieldSparsitySchema = z
+  .object({
+    nullRate: z
+      .number()
+      .min(0)
+      .max(1)
+      .optional()
+      .describe('Probability (0-1) that the value is null'),
+    omitRate: z
+      .number()
+      .min(0)
+      .max(1)
+      .optional()
+      .describe('Probability (0-1) that the field is left out of the record'),
+  })
+  .refine(isValidSparsity, {
+    message: 'nullRate and omitRate must not add up to more than 1',
+    path: ['nullRate'],
+  });
 
 /**
  * Zod validation schema for generate-person tool parameters.
  * Defines and validates all input parameters for person generation.
  *
  * @constant
- * @type {z.ZodObject}
+ * @type {z.ZodEffects}
  */
-export const GeneratePersonSchema = z.object({
-  count: z.number().min(1).max(10000).default(1).describe('Number of person records to generate'),
-  locale: z
-    .nativeEnum(SupportedLocale)
-    .default(SupportedLocale.EN)
-    .describe('Locale for generated data'),
-  seed: z.number().optional().describe('Optional seed for reproducible generation'),
-  includeAddress: z.boolean().default(true).describe('Whether to include address information'),
-  includePhone: z.boolean().default(true).describe('Whether to include phone number'),
-  includeDateOfBirth: z.boolean().default(false).describe('Whether to include date of birth'),
-});
+export const GeneratePersonSchema = z
+  .object({
+    count: z
+      .number()
+      .min(1)
+      .max(MAX_STREAMED_COUNT)
+      .default(1)
+      .describe(
+        'Number of person records to generate (up to 10000 inline, or 10000000 with outputPath)'
+      ),
+    locale: z
+      .nativeEnum(SupportedLocale)
+      .default(SupportedLocale.EN)
+      .describe('Locale for generated data'),
+    seed: z.number().optional().describe('Optional seed for reproducible generation'),
+    referenceDate: z
+      .string()
+      .refine(isValidDate, 'referenceDate must be a valid ISO 8601 date')
+      .optional()
+      .describe(
+        'Date anchoring relative dates such as ages and founding years (ISO 8601). Defaults to 2025-01-01 for seeded runs and to now otherwise'
+      ),
+    outputFormat: z
+      .enum(RECORD_OUTPUT_FORMATS)
+      .default(OutputFormat.JSON)
+      .describe('Output format: json, csv, ndjson or tsv'),
+    outputPath: z
+      .string()
+      .refine(isAbsolute, 'outputPath must be an absolute path')
+      .optional()
+      .describe(
+        "Absolute file path to stream the records to instead of returning them inline (required above 10000 records; stdio only, inside the server's output directory if one is set)"
+      ),
+    includeAddress: z.boolean().default(true).describe('Whether to include address information'),
+    includePhone: z.boolean().default(true).describe('Whether to include phone number'),
+    includeDateOfBirth: z.boolean().default(false).describe('Whether to include date of birth'),
+    unique: z
+      .array(z.nativeEnum(PersonUniqueField))
+      .optional()
+      .describe('Fields that must be distinct across records: fullName, email, phone'),
+    sparsity: z
+      .record(z.nativeEnum(PersonOptionalField), FieldSparsitySchema)
+      .optional()
+      .describe(
+        'Null and omit rates of optional fields (phone, dateOfBirth, address), e.g. { "phone": { "nullRate": 0.2 } }'
+      ),
+    idStrategy: IdStrategySchema.optional(),
+    chaos: ChaosSchema.optional(),
+  })
+  .refine((params) => params.outputPath !== undefined || params.count <= MAX_INLINE_COUNT, {
+    message: `Number must be less than or equal to ${MAX_INLINE_COUNT} unless outputPath is set`,
+    path: ['count'],
+  })
+  .refine((params) => params.outputPath === undefined || params.chaos === undefined, {
+    message: 'chaos applies to inline output only; remove outputPath or chaos',
+    path: ['chaos'],
+  });
 
 /**
  * Type definition for generate-person parameters, inferred from Zod schema.
@@ -52,6 +142,7 @@ export const generatePersonTool: Tool = {
  *
  * @async
  * @param {unknown} args - Raw arguments from MCP client (validated against schema)
+ * @param {ToolContext} [context] - Call context used to report progress and observe cancellation
  * @returns {Promise<{ content: unknown[] }>} MCP-formatted response with generated data
  * @throws {Error} If parameter validation fails or generation encounters an error
  * @example
@@ -65,71 +156,177 @@ export const generatePersonTool: Tool = {
  * // Returns MCP response with 10 person records
  * ```
  */
-export function handleGeneratePerson(args: unknown): Promise<{ content: unknown[] }> {
-  const startTime = Date.now();
-
+export function handleGeneratePerson(
+  args: unknown,
+  context?: ToolContext
+): Promise<{ content: unknown[] }> {
   try {
     // Validate and parse arguments
     const params = GeneratePersonSchema.parse(args);
 
+    // Pattern IDs must compile and have room for every record
+    const idIssues = collectIdStrategyIssues(params.idStrategy, params.count, ['idStrategy']);
+    if (idIssues.length > 0) {
+      throw fromSchemaIssues('Invalid idStrategy', idIssues);
+    }
+
     // Create generator
     const generator = new PersonGenerator({
       seed: params.seed,
       locale: params.locale,
+      referenceDate: params.referenceDate,
     });
 
-    // Generate data
-    const data =
-      params.count === 1
-        ? [
-            generator.generate({
-              includeAddress: params.includeAddress,
-              includePhone: params.includePhone,
-              includeDateOfBirth: params.includeDateOfBirth,
-            }),
-          ]
-        : generator.generateMany(params.count, {
-            includeAddress: params.includeAddress,
-            includePhone: params.includePhone,
-            includeDateOfBirth: params.includeDateOfBirth,
-          });
-
-    const generationTimeMs = Date.now() - startTime;
-
-    // Build response
-    const metadata = {
-      count: data.length,
-      seed: generator.getSeed(),
-      locale: generator.getLocale(),
-      generationTimeMs,
+    const options: PersonGenerationOptions = {
+      includeAddress: params.includeAddress,
+      includePhone: params.includePhone,
+      includeDateOfBirth: params.includeDateOfBirth,
+      unique: params.unique,
+      sparsity: params.sparsity,
+      idStrategy: params.idStrategy,
     };
 
-    const responseText = params.seed
-      ? `Generated ${data.length} person record${data.length > 1 ? 's' : ''} with seed ${params.seed}`
-      : `Generated ${data.length} person record${data.length > 1 ? 's' : ''}`;
+    // Large counts are streamed to a file instead of being returned inline
+    if (params.outputPath) {
+      return streamPersonToFile(generator, params, params.outputPath, options, context);
+    }
 
-    return Promise.resolve({
-      content: [
-        {
-          type: 'text',
-          text: responseText,
-        },
-        {
-          type: 'resource',
-          resource: {
-            uri: 'faker://persons/generated',
-            mimeType: 'application/json',
-            text: JSON.stringify({ data, metadata }, null, 2),
-          },
-        },
-      ],
-    });
+    return generatePersonInline(generator, params, options, context);
   } catch (error) {
     if (error instanceof z.ZodError) {
-      throw new Error(
-        `Invalid parameters: ${error.errors.map((e) => `${e.path.join('.')}: ${e.message}`).join(', ')}`
-      );
+      throw fromZodError(error, args);
     }
     throw error;
   }
 }
+
+/**
+ * Generates person records in memory and returns them inline.
+ * Progress is reported per batch and a cancelled call stops between batches.
+ *
+ * @async
+ * @param {PersonGenerator} generator - Seeded generator
+ * @param {GeneratePersonParams} params - Validated parameters
+ * @param {PersonGenerationOptions} options - Field options
+ * @param {ToolContext} [context] - Call context used to report progress and observe cancellation
+ * @returns {Promise<{ content: unknown[] }>} MCP-formatted response with generated data
+ */
+async function generatePersonInline(
+  generator: PersonGenerator,
+  params: GeneratePersonParams,
+  options: PersonGenerationOptions,
+  context?: ToolContext
+): Promise<{ content: unknown[] }> {
+  const startTime = Date.now();
+
+  // Generate data
+  const generated =
+    params.count === 1
+      ? [generator.generate(options)]
+      : await generator.generateMany(params.count, options, {
+          onProgress: (completed, total) => context?.reportProgress(completed, total),
+          signal: context?.signal,
+        });
+
+  // Defects are injected after generation, so the records underneath match a run without chaos
+  const chaos = params.chaos ? new ChaosInjector(params.chaos, generator.getSeed()) : undefined;
+  const data = chaos ? (chaos.corruptRecords(generated) as object[]) : generated;
+
+  const generationTimeMs = Date.now() - startTime;
+
+  // Build response
+  const metadata = {
+    count: data.length,
+    seed: generator.getSeed(),
+    locale: generator.getLocale(),
+    referenceDate: generator.getReferenceDate().toISOString(),
+    generationTimeMs,
+  };
+
+  const responseText = params.seed
+    ? `Generated ${data.length} person record${data.length > 1 ? 's' : ''} with seed ${params.seed}`
+    : `Generated ${data.length} person record${data.length > 1 ? 's' : ''}`;
+
+  // JSON keeps the metadata envelope; tabular formats contain only the records
+  const resource =
+    params.outputFormat === OutputFormat.JSON
+      ? {
+          uri: 'faker://persons/generated',
+          mimeType: OUTPUT_MIME_TYPES[OutputFormat.JSON],
+          text: JSON.stringify({ data, metadata }, null, 2),
+        }
+      : {
+          uri: `faker://persons/generated.${params.outputFormat}`,
+          mimeType: OUTPUT_MIME_TYPES[params.outputFormat],
+          text: formatRecords(data, params.outputFormat, generator.getColumns(options)),
+        };
+
+  return {
+    content: [
+      {
+        type: 'text',
+        text: responseText,
+      },
+      {
+        type: 'resource',
+        resource,
+      },
+      ...(chaos ? [chaosManifestContent('persons', chaos.getManifest())] : []),
+    ],
+  };
+}
+
+/**
+ * Streams person records to a file with bounded memory and returns a summary response.
+ * The file holds the same records as an inline response with the same seed.
+ *
+ * @async
+ * @param {PersonGenerator} generator - Seeded generator
+ * @param {GeneratePersonParams} params - Validated parameters
+ * @param {string} outputPath - Destination file
+ * @param {PersonGenerationOptions} options - Field options
+ * @param {ToolContext} [context] - Call context used to report progress and observe cancellation
+ * @returns {Promise<{ content: unknown[] }>} MCP-formatted summary with file details and metadata
+ */
+async function streamPersonToFile(
+  generator: PersonGenerator,
+  params: GeneratePersonParams,
+  outputPath: string,
+  options: PersonGenerationOptions,
+  context?: ToolContext
+): Promise<{ content: unknown[] }> {
+  const startTime = Date.now();
+  const filePath = await checkOutputPath(outputPath, context);
+
+  const file = await writeRecordsToFile(generator.stream(params.count, options), filePath, {
+    format: params.outputFormat,
+    onProgress: (written) => context?.reportProgress(written, params.count),
+    signal: context?.signal,
+    columns: generator.getColumns(options),
+  });
+
+  const metadata = {
+    count: file.records,
+    seed: generator.getSeed(),
+    locale: generator.getLocale(),
+    referenceDate: generator.getReferenceDate().toISOString(),
+    generationTimeMs: Date.now() - startTime,
+  };
+
+  return {
+    content: [
+      {
+        type: 'text',
+        text: `Streamed ${file.records} person record${file.records > 1 ? 's' : ''} to ${file.path} (${file.format}) with seed ${metadata.seed}`,
+      },
+      {
+        type: 'resource',
+        resource: {
+          uri: 'faker://persons/generated',
+          mimeType: OUTPUT_MIME_TYPES[OutputFormat.JSON],
+          text: JSON.stringify({ file, metadata }, null, 2),
+        },
+      },
+    ],
+  };
+}
@@ -0,0 +1,358 @@
+import { isAbsolute } from 'node:path';
+import { z } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import {
+  ProductGenerator,
+  type ProductGenerationOptions,
+} from '../generators/product-generator.js';
+import {
+  ProductOptionalField,
+  ProductUniqueField,
+  OutputFormat,
+  SupportedLocale,
+} from '../types/schema.js';
+import {
+  formatRecords,
+  OUTPUT_MIME_TYPES,
+  RECORD_OUTPUT_FORMATS,
+} from '../utils/tabular-export.js';
+import { MAX_INLINE_COUNT, MAX_STREAMED_COUNT, writeRecordsToFile } from '../utils/file-sink.js';
+import { checkOutputPath } from '../utils/file-access.js';
+import { ChaosInjector, ChaosSchema, chaosManifestContent } from '../utils/chaos.js';
+import { IdStrategySchema } from '../utils/id-strategies.js';
+import { collectIdStrategyIssues, isValidSparsity } from '../utils/validators.js';
+import { fromSchemaIssues, fromZodError } from '../utils/tool-errors.js';
+import type { ToolContext } from '../server.js';
+
+/**
+ * Zod validation schema for the null and omit rates of an optional product field.
+ *
+ * @constant
+ * @type {z.ZodEffects}
+ */
+const FieldSparsitySchema = z
+  .object({
+    nullRate: z
+      .number()
+      .min(0)
+      .max(1)
+      .optional()
+      .describe('Probability (0-1) that the value is null'),
+    omitRate: z
+      .number()
+      .min(0)
+      .max(1)
+      .optional()
+      .describe('Probability (0-1) that the field is left out of the record'),
+  })
+  .refine(isValidSparsity, {
+    message: 'nullRate and omitRate must not add up to more than 1',
+    path: ['nullRate'],
+  });
+
+/**
+ * Zod validation schema for generate-product tool parameters.
+ * Defines and validates all input parameters for product generation.
+ *
+ * @constant
+ * @type {z.ZodEffects}
+ */
+export const GenerateProductSchema = z
+  .object({
+    count: z
+      .number()
+      .min(1)
+      .max(MAX_STREAMED_COUNT)
+      .default(1)
+      .describe(
+        'Number of product records to generate (up to 10000 inline, or 10000000 with outputPath)'
+      ),
+    locale: z
+      .nativeEnum(SupportedLocale)
+      .default(SupportedLocale.EN)
+      .describe('Locale for generated data'),
+    seed: z.number().optional().describe('Optional seed for reproducible generation'),
+    outputFormat: z
+      .enum(RECORD_OUTPUT_FORMATS)
+      .default(OutputFormat.JSON)
+      .describe('Output format: json, csv, ndjson or tsv'),
+    outputPath: z
+      .string()
+      .refine(isAbsolute, 'outputPath must be an absolute path')
+      .optional()
+      .describe(
+        "Absolute file path to stream the records to instead of returning them inline (required above 10000 records; stdio only, inside the server's output directory if one is set)"
+      ),
+    includeDescription: z.boolean().default(true).describe('Whether to include a description'),
+    includeStock: z.boolean().default(true).describe('Whether to include the stock level'),
+    includeDimensions: z
+      .boolean()
+      .default(false)
+      .describe('Whether to include package dimensions (cm) and weight (kg)'),
+    includeBarcodes: z
+      .boolean()
+      .default(true)
+      .describe('Whether to include EAN-13 and UPC-A barcodes with valid check digits'),
+    includeImage: z.boolean().default(true).describe('Whether to include an image URL'),
+    currency: z
+      .string()
+      .regex(/^[A-Z]{3}$/, 'currency must be an ISO 4217 code such as USD')
+      .optional()
+      .describe(
+        'ISO 4217 currency code of prices. Defaults to GBP, EUR for fr/de/es and JPY for ja, the currency of the locale used for orders and financial records too'
+      ),
+    priceRange: z
+      .object({
+        min: z.number().min(0),
+        max: z.number().min(0),
+      })
+      .refine((range) => range.min <= range.max, {
+        message: 'min must not be greater than max',
+        path: ['min'],
+      })
+      .optional()
+      .describe('Bounds of generated prices in the chosen currency. Defaults to 1-1000'),
+    unique: z
+      .array(z.nativeEnum(ProductUniqueField))
+      .optional()
+      .describe(
+        'Fields that must be distinct across records: sku, name, upc (the EAN follows the UPC)'
+      ),
+    sparsity: z
+      .record(z.nativeEnum(ProductOptionalField), FieldSparsitySchema)
+      .optional()
+      .describe(
+        'Null and omit rates of optional fields (description, stock, dimensions, weight, ean, upc, imageUrl), e.g. { "description": { "nullRate": 0.2 } }'
+      ),
+    idStrategy: IdStrategySchema.optional(),
+    chaos: ChaosSchema.optional(),
+  })
+  .refine((params) => params.outputPath !== undefined || params.count <= MAX_INLINE_COUNT, {
+    message: `Number must be less than or equal to ${MAX_INLINE_COUNT} unless outputPath is set`,
+    path: ['count'],
+  })
+  .refine((params) => params.outputPath === undefined || params.chaos === undefined, {
+    message: 'chaos applies to inline output only; remove outputPath or chaos',
+    path: ['chaos'],
+  });
+
+/**
+ * Type definition for generate-product parameters, inferred from Zod schema.
+ *
+ * @typedef {z.infer<typeof GenerateProductSchema>} GenerateProductParams
+ */
+export type GenerateProductParams = z.infer<typeof GenerateProductSchema>;
+
+/**
+ * MCP Tool definition for product data generation.
+ * Provides tool metadata and input schema for MCP clients.
+ *
+ * @constant
+ * @type {Tool}
+ * @property {string} name - Tool identifier
+ * @property {string} description - Human-readable tool description
+ * @property {Object} inputSchema - JSON Schema for tool inputs
+ */
+export const generateProductTool: Tool = {
+  name: 'generate-product',
+  description:
+    'Generates fake product catalog data including SKUs, names, category paths, prices, stock, dimensions, barcodes, and image URLs',
+  inputSchema: zodToJsonSchema(GenerateProductSchema) as Tool['inputSchema'],
+};
+
+/**
+ * Handler function for the generate-product MCP tool.
+ * Validates inputs, generates product data, and returns formatted MCP response.
+ *
+ * @async
+ * @param {unknown} args - Raw arguments from MCP client (validated against schema)
+ * @param {ToolContext} [context] - Call context used to report progress and observe cancellation
+ * @returns {Promise<{ content: unknown[] }>} MCP-formatted response with generated data
+ * @throws {Error} If parameter validation fails or generation encounters an error
+ * @example
+ * ```typescript
+ * const result = await handleGenerateProduct({
+ *   count: 25,
+ *   locale: 'en',
+ *   currency: 'EUR',
+ *   includeDimensions: true
+ * });
+ * // Returns MCP response with 25 product records
+ * ```
+ */
+export function handleGenerateProduct(
+  args: unknown,
+  context?: ToolContext
+): Promise<{ content: unknown[] }> {
+  try {
+    // Validate and parse arguments
+    const params = GenerateProductSchema.parse(args);
+
+    // Pattern IDs must compile and have room for every record
+    const idIssues = collectIdStrategyIssues(params.idStrategy, params.count, ['idStrategy']);
+    if (idIssues.length > 0) {
+      throw fromSchemaIssues('Invalid idStrategy', idIssues);
+    }
+
+    // Create generator
+    const generator = new ProductGenerator({
+      seed: params.seed,
+      locale: params.locale,
+    });
+
+    const options: ProductGenerationOptions = {
+      includeDescription: params.includeDescription,
+      includeStock: params.includeStock,
+      includeDimensions: params.includeDimensions,
+      includeBarcodes: params.includeBarcodes,
+      includeImage: params.includeImage,
+      currency: params.currency,
+      priceRange: params.priceRange,
+      unique: params.unique,
+      sparsity: params.sparsity,
+      idStrategy: params.idStrategy,
+    };
+
+    // Large counts are streamed to a file instead of being returned inline
+    if (params.outputPath) {
+      return streamProductToFile(generator, params, params.outputPath, options, context);
+    }
+
+    return generateProductInline(generator, params, options, context);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      throw fromZodError(error, args);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Generates product records in memory and returns them inline.
+ * Progress is reported per batch and a cancelled call stops between batches.
+ *
+ * @async
+ * @param {ProductGenerator} generator - Seeded generator
+ * @param {GenerateProductParams} params - Validated parameters
+ * @param {ProductGenerationOptions} options - Field options
+ * @param {ToolContext} [context] - Call context used to report progress and observe cancellation
+ * @returns {Promise<{ content: unknown[] }>} MCP-formatted response with generated data
+ */
+async function generateProductInline(
+  generator: ProductGenerator,
+  params: GenerateProductParams,
+  options: ProductGenerationOptions,
+  context?: ToolContext
+): Promise<{ content: unknown[] }> {
+  const startTime = Date.now();
+
+  // Generate data
+  const generated =
+    params.count === 1
+      ? [generator.generate(options)]
+      : await generator.generateMany(params.count, options, {
+          onProgress: (completed, total) => context?.reportProgress(completed, total),
+          signal: context?.signal,
+        });
+
+  // Defects are injected after generation, so the records underneath match a run without chaos
+  const chaos = params.chaos ? new ChaosInjector(params.chaos, generator.getSeed()) : undefined;
+  const data = chaos ? (chaos.corruptRecords(generated) as object[]) : generated;
+
+  const generationTimeMs = Date.now() - startTime;
+
+  // Build response
+  const metadata = {
+    count: data.length,
+    seed: generator.getSeed(),
+    locale: generator.getLocale(),
+    generationTimeMs,
+  };
+
+  const responseText = params.seed
+    ? `Generated ${data.length} product record${data.length > 1 ? 's' : ''} with seed ${params.seed}`
+    : `Generated ${data.length} product record${data.length > 1 ? 's' : ''}`;
+
+  // JSON keeps the metadata envelope; tabular formats contain only the records
+  const resource =
+    params.outputFormat === OutputFormat.JSON
+      ? {
+          uri: 'faker://products/generated',
+          mimeType: OUTPUT_MIME_TYPES[OutputFormat.JSON],
+          text: JSON.stringify({ data, metadata }, null, 2),
+        }
+      : {
+          uri: `faker://products/generated.${params.outputFormat}`,
+          mimeType: OUTPUT_MIME_TYPES[params.outputFormat],
+          text: formatRecords(data, params.outputFormat, generator.getColumns(options)),
+        };
+
+  return {
+    content: [
+      {
+        type: 'text',
+        text: responseText,
+      },
+      {
+        type: 'resource',
+        resource,
+      },
+      ...(chaos ? [chaosManifestContent('products', chaos.getManifest())] : []),
+    ],
+  };
+}
+
+/**
+ * Streams product records to a file with bounded memory and returns a summary response.
+ * The file holds the same records as an inline response with the same seed.
+ *
+ * @async
+ * @param {ProductGenerator} generator - Seeded generator
+ * @param {GenerateProductParams} params - Validated parameters
+ * @param {string} outputPath - Destination file
+ * @param {ProductGenerationOptions} options - Field options
+ * @param {ToolContext} [context] - Call context used to report progress and observe cancellation
+ * @returns {Promise<{ content: unknown[] }>} MCP-formatted summary with file details and metadata
+ */
+async function streamProductToFile(
+  generator: ProductGenerator,
+  params: GenerateProductParams,
+  outputPath: string,
+  options: ProductGenerationOptions,
+  context?: ToolContext
+): Promise<{ content: unknown[] }> {
+  const startTime = Date.now();
+  const filePath = await checkOutputPath(outputPath, context);
+
+  const file = await writeRecordsToFile(generator.stream(params.count, options), filePath, {
+    format: params.outputFormat,
+    onProgress: (written) => context?.reportProgress(written, params.count),
+    signal: context?.signal,
+    columns: generator.getColumns(options),
+  });
+
+  const metadata = {
+    count: file.records,
+    seed: generator.getSeed(),
+    locale: generator.getLocale(),
+    generationTimeMs: Date.now() - startTime,
+  };
+
+  return {
+    content: [
+      {
+        type: 'text',
+        text: `Streamed ${file.records} product record${file.records > 1 ? 's' : ''} to ${file.path} (${file.format}) with seed ${metadata.seed}`,
+      },
+      {
+        type: 'resource',
+        resource: {
+          uri: 'faker://products/generated',
+          mimeType: OUTPUT_MIME_TYPES[OutputFormat.JSON],
+          text: JSON.stringify({ file, metadata }, null, 2),
+        },
+      },
+    ],
+  };
+}
@@ -0,0 +1,454 @@
+import { isAbsolute } from 'node:path';
+import { z } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import {
+  TimeSeriesGenerator,
+  type TimeSeriesGenerationOptions,
+  type TimeSeriesWindow,
+} from '../generators/timeseries-generator.js';
+import type { TimeSeriesPoint } from '../types/responses.js';
+import { OutputFormat, SupportedLocale, TimeSeriesSpacing } from '../types/schema.js';
+import {
+  formatRecords,
+  OUTPUT_MIME_TYPES,
+  RECORD_OUTPUT_FORMATS,
+} from '../utils/tabular-export.js';
+import { MAX_INLINE_COUNT, MAX_STREAMED_COUNT, writeRecordsToFile } from '../utils/file-sink.js';
+import { checkOutputPath } from '../utils/file-access.js';
+import { ChaosInjector, ChaosSchema, chaosManifestContent } from '../utils/chaos.js';
+import { DURATION_PATTERN, parseDuration } from '../utils/durations.js';
+import { isValidDate } from '../utils/validators.js';
+import {
+  fromZodError,
+  ToolError,
+  ToolErrorCode,
+  type ToolErrorDetail,
+} from '../utils/tool-errors.js';
+import type { ToolContext } from '../server.js';
+
+/**
+ * Zod schema of one metric of the series.
+ *
+ * @constant
+ */
+const TimeSeriesMetricSchema = z
+  .object({
+    name: z
+      .string()
+      .min(1)
+      .max(64)
+      .refine((name) => name !== 'timestamp', "'timestamp' is reserved for the time of each point")
+      .describe('Column name of the metric'),
+    baseline: z.number().optional().describe('Level of the series at its start (default: 0)'),
+    trend: z.number().optional().describe('Change of the level per day (default: 0)'),
+    seasonality: z
+      .object({
+        daily: z.number().optional().describe('Amplitude of the daily wave, peaking at 14:00 UTC'),
+        weekly: z.number().optional().describe('Amplitude of the weekly wave, peaking midweek'),
+      })
+      .optional(),
+    noise: z
+      .number()
+      .min(0)
+      .optional()
+      .describe('Standard deviation of the Gaussian noise of each point (default: 0)'),
+    randomWalk: z
+      .number()
+      .min(0)
+      .optional()
+      .describe('Standard deviation of each random walk step (default: 0, no walk)'),
+    spikes: z
+      .object({
+        rate: z.number().min(0).max(1).describe('Chance of a spike at each point'),
+        magnitude: z
+          .number()
+          .describe('Typical height of a spike (drawn between 0.5x and 1.5x); negative for dips'),
+      })
+      .optional(),
+    min: z.number().optional().describe('Lowest value of the metric'),
+    max: z.number().optional().describe('Highest value of the metric'),
+    decimals: z
+      .number()
+      .int()
+      .min(0)
+      .max(10)
+      .optional()
+      .describe('Decimal places of the values (default: 2)'),
+  })
+  .refine(
+    (metric) => metric.min === undefined || metric.max === undefined || metric.min <= metric.max,
+    {
+      message: 'min must not be greater than max',
+      path: ['min'],
+    }
+  );
+
+/**
+ * Zod validation schema for generate-timeseries tool parameters.
+ * Defines and validates all input parameters for time series generation.
+ *
+ * @constant
+ * @type {z.ZodEffects}
+ */
+export const GenerateTimeSeriesSchema = z
+  .object({
+    metrics: z
+      .array(TimeSeriesMetricSchema)
+      .min(1)
+      .max(50)
+      .refine(
+        (metrics) => new Set(metrics.map((metric) => metric.name)).size === metrics.length,
+        'metric names must be unique'
+      )
+      .describe('Metrics recorded at each point, one column each'),
+    start: z
+      .string()
+      .refine(isValidDate, 'start must be a valid ISO 8601 date')
+      .optional()
+      .describe('Time of the first point (ISO 8601). Defaults to one day before end'),
+    end: z
+      .string()
+      .refine(isValidDate, 'end must be a valid ISO 8601 date')
+      .optional()
+      .describe('End of the series, exclusive (ISO 8601). Defaults to referenceDate'),
+    interval: z
+      .string()
+      .regex(DURATION_PATTERN, 'interval must be a whole number and a unit, e.g. 30s, 5m or 1h')
+      .default('1h')
+      .describe('Time between points: a whole number and ms, s, m, h, d or w'),
+    spacing: z
+      .nativeEnum(TimeSeriesSpacing)
+      .default(TimeSeriesSpacing.REGULAR)
+      .describe(
+        'regular: points on interval boundaries; irregular: each point at a random time within its interval'
+      ),
+    gaps: z
+      .object({
+        rate: z.number().min(0).max(1).describe('Chance that an outage starts at each point'),
+        maxLength: z
+          .number()
+          .int()
+          .min(1)
+          .max(10_000)
+          .default(5)
+          .describe('Longest outage, in points'),
+      })
+      .optional()
+      .describe('Outages that remove runs of points from every metric'),
+    locale: z
+      .nativeEnum(SupportedLocale)
+      .default(SupportedLocale.EN)
+      .describe('Locale for generated data'),
+    seed: z.number().optional().describe('Optional seed for reproducible generation'),
+    referenceDate: z
+      .string()
+      .refine(isValidDate, 'referenceDate must be a valid ISO 8601 date')
+      .optional()
+      .describe(
+        'Default end of the series (ISO 8601). Defaults to 2025-01-01 for seeded runs and to now otherwise'
+      ),
+    outputFormat: z
+      .enum(RECORD_OUTPUT_FORMATS)
+      .default(OutputFormat.JSON)
+      .describe('Output format: json, csv, ndjson or tsv'),
+    outputPath: z
+      .string()
+      .refine(isAbsolute, 'outputPath must be an absolute path')
+      .optional()
+      .describe(
+        "Absolute file path to stream the points to instead of returning them inline (required above 10000 points; stdio only, inside the server's output directory if one is set)"
+      ),
+    chaos: ChaosSchema.optional(),
+  })
+  .refine((params) => params.outputPath === undefined || params.chaos === undefined, {
+    message: 'chaos applies to inline output only; remove outputPath or chaos',
+    path: ['chaos'],
+  });
+
+/**
+ * Type definition for generate-timeseries parameters, inferred from Zod schema.
+ *
+ * @typedef {z.infer<typeof GenerateTimeSeriesSchema>} GenerateTimeSeriesParams
+ */
+export type GenerateTimeSeriesParams = z.infer<typeof GenerateTimeSeriesSchema>;
+
+/**
+ * MCP Tool definition for time series generation.
+ * Provides tool metadata and input schema for MCP clients.
+ *
+ * @constant
+ * @type {Tool}
+ * @property {string} name - Tool identifier
+ * @property {string} description - Human-readable tool description
+ * @property {Object} inputSchema - JSON Schema for tool inputs
+ */
+export const generateTimeSeriesTool: Tool = {
+  name: 'generate-timeseries',
+  description:
+    'Generates regularly or irregularly spaced time series of one or more metrics with linear trends, daily and weekly seasonality, Gaussian noise, random walks, spikes and gaps, and lists the spikes and gaps for anomaly detection tests',
+  inputSchema: zodToJsonSchema(GenerateTimeSeriesSchema) as Tool['inputSchema'],
+};
+
+/**
+ * Handler function for the generate-timeseries MCP tool.
+ * Validates inputs, generates the series, and returns formatted MCP response.
+ *
+ * @async
+ * @param {unknown} args - Raw arguments from MCP client (validated against schema)
+ * @param {ToolContext} [context] - Call context used to report progress and observe cancellation
+ * @returns {Promise<{ content: unknown[] }>} MCP-formatted response with generated data
+ * @throws {Error} If parameter validation fails or generation encounters an error
+ * @example
+ * ```typescript
+ * const result = await handleGenerateTimeSeries({
+ *   metrics: [{ name: 'cpu', baseline: 40, seasonality: { daily: 15 }, noise: 3, min: 0, max: 100 }],
+ *   start: '2024-12-01T00:00:00Z',
+ *   interval: '5m',
+ *   seed: 42
+ * });
+ * // Returns MCP response with 8928 points and their anomalies
+ * ```
+ */
+export function handleGenerateTimeSeries(
+  args: unknown,
+  context?: ToolContext
+): Promise<{ content: unknown[] }> {
+  try {
+    // Validate and parse arguments
+    const params = GenerateTimeSeriesSchema.parse(args);
+
+    // Create generator
+    const generator = new TimeSeriesGenerator({
+      seed: params.seed,
+      locale: params.locale,
+      referenceDate: params.referenceDate,
+    });
+
+    const options: TimeSeriesGenerationOptions = {
+      metrics: params.metrics,
+      start: params.start,
+      end: params.end,
+      interval: parseDuration(params.interval),
+      spacing: params.spacing,
+      gaps: params.gaps,
+    };
+
+    // The window depends on the reference date, so its size is checked once that is known
+    const window = generator.getWindow(options);
+    const windowIssues = collectWindowIssues(window, params);
+    if (windowIssues.length > 0) {
+      throw new ToolError(
+        ToolErrorCode.INVALID_PARAMETERS,
+        `Invalid time window: ${windowIssues.map((issue) => issue.message).join('; ')}`,
+        windowIssues
+      );
+    }
+
+    // Long series are streamed to a file instead of being returned inline
+    if (params.outputPath) {
+      return streamTimeSeriesToFile(generator, params, params.outputPath, options, context);
+    }
+
+    return generateTimeSeriesInline(generator, params, options, context);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      throw fromZodError(error, args);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Checks that the series starts before it ends and that its number of points fits the
+ * inline or streamed limit.
+ *
+ * @param {TimeSeriesWindow} window - Resolved window of the series
+ * @param {GenerateTimeSeriesParams} params - Validated parameters
+ * @returns {ToolErrorDetail[]} Problems found, empty if the window is valid
+ */
+function collectWindowIssues(
+  window: TimeSeriesWindow,
+  params: GenerateTimeSeriesParams
+): ToolErrorDetail[] {
+  if (window.start >= window.end) {
+    return [
+      {
+        code: 'invalid_window',
+        path: params.start !== undefined ? '$.start' : '$.end',
+        message: `start (${new Date(window.start).toISOString()}) must be before end (${new Date(window.end).toISOString()})`,
+        suggestion: 'Move start before end, or omit start to cover the day before end',
+      },
+    ];
+  }
+
+  const limit = params.outputPath ? MAX_STREAMED_COUNT : MAX_INLINE_COUNT;
+  if (window.slots > limit) {
+    return [
+      {
+        code: 'too_big',
+        path: '$.interval',
+        message: `The window holds ${window.slots} points at an interval of ${params.interval}, more than the ${limit} allowed${params.outputPath ? '' : ' inline'}`,
+        value: params.interval,
+        expected: `at most ${limit} points`,
+        suggestion: params.outputPath
+          ? 'Use a longer interval or a shorter window'
+          : 'Use a longer interval or a shorter window, or set outputPath to stream the points to a file',
+      },
+    ];
+  }
+
+  return [];
+}
+
+/**
+ * Generates a series in memory and returns it inline, followed by its spikes and gaps.
+ * Progress is reported per batch and a cancelled call stops between batches.
+ *
+ * @async
+ * @param {TimeSeriesGenerator} generator - Seeded generator
+ * @param {GenerateTimeSeriesParams} params - Validated parameters
+ * @param {TimeSeriesGenerationOptions} options - Metrics, window, spacing and gaps
+ * @param {ToolContext} [context] - Call context used to report progress and observe cancellation
+ * @returns {Promise<{ content: unknown[] }>} MCP-formatted response with generated data
+ */
+async function generateTimeSeriesInline(
+  generator: TimeSeriesGenerator,
+  params: GenerateTimeSeriesParams,
+  options: TimeSeriesGenerationOptions,
+  context?: ToolContext
+): Promise<{ content: unknown[] }> {
+  const startTime = Date.now();
+  const window = generator.getWindow(options);
+
+  // Generate data
+  const { points, anomalies } = await generator.generateMany(options, {
+    onProgress: (completed, total) => context?.reportProgress(completed, total),
+    signal: context?.signal,
+  });
+
+  // Defects are injected after generation, so the points underneath match a run without chaos
+  const chaos = params.chaos ? new ChaosInjector(params.chaos, generator.getSeed()) : undefined;
+  const data = chaos ? (chaos.corruptRecords(points) as TimeSeriesPoint[]) : points;
+
+  const generationTimeMs = Date.now() - startTime;
+
+  // Build response
+  const metadata = {
+    count: data.length,
+    start: new Date(window.start).toISOString(),
+    end: new Date(window.end).toISOString(),
+    interval: params.interval,
+    spacing: params.spacing,
+    seed: generator.getSeed(),
+    locale: generator.getLocale(),
+    referenceDate: generator.getReferenceDate().toISOString(),
+    generationTimeMs,
+  };
+
+  const metricNames = params.metrics.map((metric) => metric.name).join(', ');
+  const responseText = params.seed
+    ? `Generated ${data.length} point${data.length === 1 ? '' : 's'} of ${metricNames} with seed ${params.seed}`
+    : `Generated ${data.length} point${data.length === 1 ? '' : 's'} of ${metricNames}`;
+
+  // JSON keeps the metadata envelope; CSV, NDJSON and TSV contain only the points
+  const resource =
+    params.outputFormat === OutputFormat.JSON
+      ? {
+          uri: 'faker://timeseries/generated',
+          mimeType: OUTPUT_MIME_TYPES[OutputFormat.JSON],
+          text: JSON.stringify({ data, metadata }, null, 2),
+        }
+      : {
+          uri: `faker://timeseries/generated.${params.outputFormat}`,
+          mimeType: OUTPUT_MIME_TYPES[params.outputFormat],
+          text: formatRecords(data, params.outputFormat),
+        };
+
+  return {
+    content: [
+      {
+        type: 'text',
+        text: responseText,
+      },
+      {
+        type: 'resource',
+        resource,
+      },
+      {
+        type: 'resource',
+        resource: {
+          uri: 'faker://timeseries/anomalies',
+          mimeType: OUTPUT_MIME_TYPES[OutputFormat.JSON],
+          text: JSON.stringify({ anomalies }, null, 2),
+        },
+      },
+      ...(chaos ? [chaosManifestContent('timeseries', chaos.getManifest())] : []),
+    ],
+  };
+}
+
+/**
+ * Streams the points of a series to a file with bounded memory and returns a summary
+ * response. The file holds the same points as an inline response with the same seed; the
+ * spikes and gaps are counted rather than listed.
+ *
+ * @async
+ * @param {TimeSeriesGenerator} generator - Seeded generator
+ * @param {GenerateTimeSeriesParams} params - Validated parameters
+ * @param {string} outputPath - Destination file
+ * @param {TimeSeriesGenerationOptions} options - Metrics, window, spacing and gaps
+ * @param {ToolContext} [context] - Call context used to report progress and observe cancellation
+ * @returns {Promise<{ content: unknown[] }>} MCP-formatted summary with file details and metadata
+ */
+async function streamTimeSeriesToFile(
+  generator: TimeSeriesGenerator,
+  params: GenerateTimeSeriesParams,
+  outputPath: string,
+  options: TimeSeriesGenerationOptions,
+  context?: ToolContext
+): Promise<{ content: unknown[] }> {
+  const startTime = Date.now();
+  const filePath = await checkOutputPath(outputPath, context);
+  const window = generator.getWindow(options);
+  const anomalies = { spikes: 0, gaps: 0 };
+
+  const points = generator.stream(options, (anomaly) =>
+    anomaly.kind === 'spike' ? anomalies.spikes++ : anomalies.gaps++
+  );
+  const file = await writeRecordsToFile(points, filePath, {
+    format: params.outputFormat,
+    onProgress: (written) => context?.reportProgress(written, window.slots),
+    signal: context?.signal,
+  });
+
+  const metadata = {
+    count: file.records,
+    start: new Date(window.start).toISOString(),
+    end: new Date(window.end).toISOString(),
+    interval: params.interval,
+    spacing: params.spacing,
+    anomalies,
+    seed: generator.getSeed(),
+    locale: generator.getLocale(),
+    referenceDate: generator.getReferenceDate().toISOString(),
+    generationTimeMs: Date.now() - startTime,
+  };
+
+  return {
+    content: [
+      {
+        type: 'text',
+        text: `Streamed ${file.records} point${file.records === 1 ? '' : 's'} to ${file.path} (${file.format}) with seed ${metadata.seed}`,
+      },
+      {
+        type: 'resource',
+        resource: {
+          uri: 'faker://timeseries/generated',
+          mimeType: OUTPUT_MIME_TYPES[OutputFormat.JSON],
+          text: JSON.stringify({ file, metadata }, null, 2),
+        },
+      },
+    ],
+  };
+}
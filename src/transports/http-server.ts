@@ -0,0 +1,460 @@
+import { createHash, timingSafeEqual } from 'node:crypto';
+import {
+  createServer,
+  type IncomingMessage,
+  type Server as NodeHttpServer,
+  type ServerResponse,
+} from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import { JSONRPCMessageSchema, type JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js';
+import {
+  SESSION_ID_HEADER,
+  StreamableHttpServerTransport,
+  writeJsonRpcError,
+} from './streamable-http.js';
+
+/**
+ * Endpoint of the streamable HTTP transport.
+ *
+ * @constant
+ */
+export const MCP_ENDPOINT = '/mcp';
+
+/**
+ * Endpoint opening a legacy SSE session.
+ *
+ * @constant
+ */
+export const SSE_ENDPOINT = '/sse';
+
+/**
+ * Endpoint receiving the messages of legacy SSE sessions.
+ *
+ * @constant
+ */
+export const SSE_MESSAGES_ENDPOINT = '/messages';
+
+/**
+ * Unauthenticated endpoint for load balancer and container health checks.
+ *
+ * @constant
+ */
+export const HEALTH_ENDPOINT = '/health';
+
+/**
+ * Default time after which a streamable HTTP session without open streams is closed.
+ *
+ * @constant
+ */
+export const DEFAULT_SESSION_IDLE_TIMEOUT_MS = 30 * 60 * 1000;
+
+/**
+ * Largest accepted request body
+ */
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+/**
+ * Options of the MCP HTTP server.
+ *
+ * @interface McpHttpServerOptions
+ * @example
+ * ```typescript
+ * const options: McpHttpServerOptions = {
+ *   authToken: process.env.FAKER_MCP_AUTH_TOKEN,
+ *   connect: (transport) => createSessionServer().connect(transport),
+ * };
+ * ```
+ */
+export interface McpHttpServerOptions {
+  /** Bearer token clients must send; requests are not authenticated when omitted (loopback only) */
+  authToken?: string;
+  /** Connects an MCP server to the transport of a new session */
+  connect: (transport: Transport) => Promise<void>;
+  /** Idle time in milliseconds after which a streamable HTTP session is closed */
+  sessionIdleTimeoutMs?: number;
+}
+
+/**
+ * Tells whether a host name or address only accepts connections from the same machine.
+ *
+ * @param {string} host - Interface to bind
+ * @returns {boolean} True for `localhost`, `127.0.0.0/8` and `::1`
+ */
+export function isLoopbackHost(host: string): boolean {
+  return host === 'localhost' || host === '::1' || /^(::ffff:)?127(\.\d{1,3}){3}$/.test(host);
+}
+
+/**
+ * Error answered with an HTTP status and a JSON-RPC error body
+ */
+class HttpError extends Error {
+  constructor(
+    public readonly status: number,
+    public readonly code: number,
+    message: string
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * Reads and parses the JSON-RPC message or batch in a request body.
+ *
+ * @param {IncomingMessage} req - Incoming HTTP request
+ * @returns {Promise<{ messages: JSONRPCMessage[]; batch: boolean }>} Parsed messages
+ * @throws {HttpError} If the body is too large, not JSON or not JSON-RPC
+ */
+async function readJsonRpcMessages(
+  req: IncomingMessage
+): Promise<{ messages: JSONRPCMessage[]; batch: boolean }> {
+  if (!(req.headers['content-type'] ?? '').includes('application/json')) {
+    throw new HttpError(415, -32000, 'Unsupported Media Type: body must be application/json');
+  }
+
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size > MAX_BODY_BYTES) {
+      throw new HttpError(413, -32000, `Payload Too Large: limit is ${MAX_BODY_BYTES} bytes`);
+    }
+    chunks.push(chunk as Buffer);
+  }
+
+  let body: unknown;
+  try {
+    body = JSON.parse(Buffer.concat(chunks).toString('utf8'));
+  } catch {
+    throw new HttpError(400, -32700, 'Parse error: body is not valid JSON');
+  }
+
+  const batch = Array.isArray(body);
+  const messages: JSONRPCMessage[] = [];
+  for (const message of batch ? (body as unknown[]) : [body]) {
+    const result = JSONRPCMessageSchema.safeParse(message);
+    if (!result.success) {
+      throw new HttpError(400, -32600, 'Invalid Request: body is not a JSON-RPC message or batch');
+    }
+    messages.push(result.data);
+  }
+  if (messages.length === 0) {
+    throw new HttpError(400, -32600, 'Invalid Request: batch is empty');
+  }
+  return { messages, batch };
+}
+
+/**
+ * HTTP server exposing MCP sessions over the streamable HTTP transport (`/mcp`) and the legacy
+ * SSE transport (`/sse` and `/messages`), so one server process can be shared by a team or CI.
+ * Every session gets its own MCP server through the `connect` option. When an auth token is
+ * configured, every endpoint except `/health` requires `Authorization: Bearer <token>`.
+ *
+ * @class McpHttpServer
+ * @example
+ * ```typescript
+ * const httpServer = new McpHttpServer({ connect: (transport) => server.connect(transport) });
+ * const address = await httpServer.listen(3000, '127.0.0.1');
+ * ```
+ */
+export class McpHttpServer {
+  private readonly httpServer: NodeHttpServer;
+  private readonly streamableSessions = new Map<string, StreamableHttpServerTransport>();
+  private readonly sseSessions = new Map<string, SSEServerTransport>();
+  private readonly authDigest?: Buffer;
+  private readonly sessionIdleTimeoutMs: number;
+  private sweepTimer?: NodeJS.Timeout;
+
+  /**
+   * Creates a new McpHttpServer instance. Call listen to accept connections.
+   *
+   * @constructor
+   * @param {McpHttpServerOptions} options - Server options
+   */
+  constructor(private readonly options: McpHttpServerOptions) {
+    this.authDigest =
+      options.authToken !== undefined
+        ? createHash('sha256').update(options.authToken).digest()
+        : undefined;
+    this.sessionIdleTimeoutMs = options.sessionIdleTimeoutMs ?? DEFAULT_SESSION_IDLE_TIMEOUT_MS;
+    this.httpServer = createServer((req, res) => {
+      this.handleRequest(req, res).catch((error: unknown) => {
+        if (res.headersSent) {
+          res.end();
+          return;
+        }
+        const message = error instanceof Error ? error.message : String(error);
+        writeJsonRpcError(res, 500, -32603, `Internal error: ${message}`);
+      });
+    });
+  }
+
+  /**
+   * Starts listening for connections.
+   *
+   * @async
+   * @param {number} port - Port to listen on (0 picks a free port)
+   * @param {string} host - Interface to bind
+   * @returns {Promise<AddressInfo>} Address the server is listening on
+   * @throws {Error} If the port cannot be bound, or the interface is reachable from the
+   * network and no auth token is configured
+   */
+  public async listen(port: number, host: string): Promise<AddressInfo> {
+    if (this.authDigest === undefined && !isLoopbackHost(host)) {
+      throw new Error(
+        `Refusing to serve HTTP on ${host} without authentication; set an auth token (FAKER_MCP_AUTH_TOKEN) or bind a loopback address`
+      );
+    }
+
+    await new Promise<void>((resolve, reject) => {
+      this.httpServer.once('error', reject);
+      this.httpServer.listen(port, host, () => {
+        this.httpServer.off('error', reject);
+        resolve();
+      });
+    });
+
+    this.sweepTimer = setInterval(
+      () => this.closeIdleSessions(),
+      Math.min(this.sessionIdleTimeoutMs, 60 * 1000)
+    );
+    this.sweepTimer.unref();
+    return this.httpServer.address() as AddressInfo;
+  }
+
+  /**
+   * Gets the address the server is listening on.
+   *
+   * @returns {AddressInfo | undefined} The address, or undefined before listen
+   */
+  public address(): AddressInfo | undefined {
+    return (this.httpServer.address() as AddressInfo | null) ?? undefined;
+  }
+
+  /**
+   * Closes all sessions and stops accepting connections.
+   *
+   * @async
+   * @returns {Promise<void>} Resolves once the listener is closed
+   */
+  public async close(): Promise<void> {
+    clearInterval(this.sweepTimer);
+    const sessions: Transport[] = [
+      ...this.streamableSessions.values(),
+      ...this.sseSessions.values(),
+    ];
+    await Promise.all(sessions.map((transport) => transport.close()));
+    this.streamableSessions.clear();
+    this.sseSessions.clear();
+
+    if (!this.httpServer.listening) {
+      return;
+    }
+    await new Promise<void>((resolve, reject) => {
+      this.httpServer.close((error) => (error ? reject(error) : resolve()));
+      this.httpServer.closeAllConnections();
+    });
+  }
+
+  /**
+   * Authenticates and routes a request to its endpoint.
+   *
+   * @private
+   * @async
+   * @param {IncomingMessage} req - Incoming HTTP request
+   * @param {ServerResponse} res - Response to answer on
+   * @returns {Promise<void>} Resolves once the request is handled
+   */
+  private async handleRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+
+    if (url.pathname === HEALTH_ENDPOINT && req.method === 'GET') {
+      res.writeHead(200, { 'Content-Type': 'application/json' }).end('{"status":"ok"}');
+      return;
+    }
+    if (!this.isAuthorized(req)) {
+      writeJsonRpcError(res, 401, -32000, 'Unauthorized: a valid bearer token is required', {
+        'WWW-Authenticate': 'Bearer',
+      });
+      return;
+    }
+
+    try {
+      if (url.pathname === MCP_ENDPOINT) {
+        await this.handleStreamableRequest(req, res);
+      } else if (url.pathname === SSE_ENDPOINT && req.method === 'GET') {
+        await this.openSseSession(res);
+      } else if (url.pathname === SSE_MESSAGES_ENDPOINT && req.method === 'POST') {
+        await this.handleSseMessage(req, res, url.searchParams.get('sessionId'));
+      } else {
+        writeJsonRpcError(res, 404, -32000, `Not Found: ${req.method ?? 'GET'} ${url.pathname}`);
+      }
+    } catch (error) {
+      if (!(error instanceof HttpError)) {
+        throw error;
+      }
+      writeJsonRpcError(res, error.status, error.code, error.message);
+    }
+  }
+
+  /**
+   * Checks the bearer token of a request in constant time.
+   *
+   * @private
+   * @param {IncomingMessage} req - Incoming HTTP request
+   * @returns {boolean} True if no token is configured or the request carries it
+   */
+  private isAuthorized(req: IncomingMessage): boolean {
+    if (!this.authDigest) {
+      return true;
+    }
+    const [scheme, token] = (req.headers.authorization ?? '').split(' ');
+    if (scheme?.toLowerCase() !== 'bearer' || !token) {
+      return false;
+    }
+    return timingSafeEqual(createHash('sha256').update(token).digest(), this.authDigest);
+  }
+
+  /**
+   * Handles POST, GET and DELETE on the streamable HTTP endpoint.
+   * A POST of an initialize request without a session id starts a new session.
+   *
+   * @private
+   * @async
+   * @param {IncomingMessage} req - Incoming HTTP request
+   * @param {ServerResponse} res - Response to answer on
+   * @returns {Promise<void>} Resolves once the request is handed to its session
+   * @throws {HttpError} If the request is invalid or names an unknown session
+   */
+  private async handleStreamableRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const sessionId = req.headers[SESSION_ID_HEADER.toLowerCase()] as string | undefined;
+
+    if (req.method === 'POST') {
+      const { messages, batch } = await readJsonRpcMessages(req);
+      const initialize = messages.some(
+        (message) => 'method' in message && message.method === 'initialize'
+      );
+
+      if (sessionId === undefined) {
+        if (!initialize) {
+          throw new HttpError(400, -32000, `Bad Request: ${SESSION_ID_HEADER} header is required`);
+        }
+        if (messages.length > 1) {
+          throw new HttpError(400, -32600, 'Invalid Request: initialize must not be batched');
+        }
+        const transport = await this.openStreamableSession();
+        transport.handlePost(req, res, messages, batch);
+        return;
+      }
+
+      this.getStreamableSession(sessionId).handlePost(req, res, messages, batch);
+      return;
+    }
+
+    if (sessionId === undefined) {
+      throw new HttpError(400, -32000, `Bad Request: ${SESSION_ID_HEADER} header is required`);
+    }
+    const transport = this.getStreamableSession(sessionId);
+    if (req.method === 'GET') {
+      transport.handleGet(req, res);
+    } else if (req.method === 'DELETE') {
+      await transport.close();
+      res.writeHead(204).end();
+    } else {
+      res.writeHead(405, { Allow: 'GET, POST, DELETE' }).end();
+    }
+  }
+
+  /**
+   * Creates a streamable HTTP session and connects an MCP server to it.
+   *
+   * @private
+   * @async
+   * @returns {Promise<StreamableHttpServerTransport>} Transport of the new session
+   */
+  private async openStreamableSession(): Promise<StreamableHttpServerTransport> {
+    const transport = new StreamableHttpServerTransport();
+    await this.options.connect(transport);
+
+    // Connecting installs the server's close handler, so chain ours after it
+    const onclose = transport.onclose;
+    transport.onclose = () => {
+      this.streamableSessions.delete(transport.sessionId);
+      onclose?.();
+    };
+    this.streamableSessions.set(transport.sessionId, transport);
+    return transport;
+  }
+
+  /**
+   * Looks up a streamable HTTP session.
+   *
+   * @private
+   * @param {string} sessionId - Session id sent by the client
+   * @returns {StreamableHttpServerTransport} Transport of the session
+   * @throws {HttpError} If the session does not exist (any more)
+   */
+  private getStreamableSession(sessionId: string): StreamableHttpServerTransport {
+    const transport = this.streamableSessions.get(sessionId);
+    if (!transport) {
+      throw new HttpError(404, -32001, 'Session not found: initialize a new session');
+    }
+    return transport;
+  }
+
+  /**
+   * Opens a legacy SSE session on a GET response and connects an MCP server to it.
+   *
+   * @private
+   * @async
+   * @param {ServerResponse} res - Response kept open as the event stream
+   * @returns {Promise<void>} Resolves once the session is connected
+   */
+  private async openSseSession(res: ServerResponse): Promise<void> {
+    const transport = new SSEServerTransport(SSE_MESSAGES_ENDPOINT, res);
+    this.sseSessions.set(transport.sessionId, transport);
+    res.on('close', () => this.sseSessions.delete(transport.sessionId));
+    await this.options.connect(transport);
+  }
+
+  /**
+   * Hands a message posted by a legacy SSE client to its session.
+   *
+   * @private
+   * @async
+   * @param {IncomingMessage} req - Incoming HTTP request
+   * @param {ServerResponse} res - Response to answer on
+   * @param {string | null} sessionId - Session id from the query string
+   * @returns {Promise<void>} Resolves once the message is handled
+   * @throws {HttpError} If the session does not exist
+   */
+  private async handleSseMessage(
+    req: IncomingMessage,
+    res: ServerResponse,
+    sessionId: string | null
+  ): Promise<void> {
+    const transport = sessionId !== null ? this.sseSessions.get(sessionId) : undefined;
+    if (!transport) {
+      throw new HttpError(404, -32001, 'Session not found: reconnect to the SSE endpoint');
+    }
+    // The transport answers invalid messages itself before rejecting
+    await transport.handlePostMessage(req, res).catch(() => undefined);
+  }
+
+  /**
+   * Closes streamable HTTP sessions that have been idle longer than the idle timeout.
+   * Sessions with an open stream are kept, as their client is still connected.
+   *
+   * @private
+   * @returns {void}
+   */
+  private closeIdleSessions(): void {
+    const cutoff = Date.now() - this.sessionIdleTimeoutMs;
+    for (const transport of this.streamableSessions.values()) {
+      if (!transport.hasOpenStreams && transport.lastActivity < cutoff) {
+        void transport.close();
+      }
+    }
+  }
+}
@@ -0,0 +1,370 @@
+import { randomUUID } from 'node:crypto';
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import type {
+  JSONRPCError,
+  JSONRPCMessage,
+  JSONRPCRequest,
+  JSONRPCResponse,
+} from '@modelcontextprotocol/sdk/types.js';
+
+/**
+ * Header carrying the session id of the streamable HTTP transport.
+ *
+ * @constant
+ */
+export const SESSION_ID_HEADER = 'Mcp-Session-Id';
+
+const SSE_HEADERS = {
+  'Content-Type': 'text/event-stream',
+  'Cache-Control': 'no-cache',
+  Connection: 'keep-alive',
+};
+
+type RequestId = string | number;
+
+/**
+ * Response of a POST request that still owes JSON-RPC responses to the client.
+ */
+interface ResponseStream {
+  res: ServerResponse;
+  /** Whether responses are collected into one JSON body instead of streamed as SSE events */
+  json: boolean;
+  /** Whether the client posted a batch, which is answered with an array */
+  batch: boolean;
+  pending: Set<RequestId>;
+  responses: JSONRPCMessage[];
+}
+
+/**
+ * Checks whether a JSON-RPC message is a request (as opposed to a notification or response).
+ *
+ * @param {JSONRPCMessage} message - Message to check
+ * @returns {boolean} True if the message expects a response
+ */
+export function isJsonRpcRequest(message: JSONRPCMessage): message is JSONRPCRequest {
+  return 'method' in message && 'id' in message;
+}
+
+/**
+ * Checks whether a JSON-RPC message is a response or an error response.
+ *
+ * @param {JSONRPCMessage} message - Message to check
+ * @returns {boolean} True if the message answers a request
+ */
+function isJsonRpcResponse(message: JSONRPCMessage): message is JSONRPCResponse | JSONRPCError {
+  return 'id' in message && ('result' in message || 'error' in message);
+}
+
+/**
+ * Returns the id of the request a `notifications/cancelled` message cancels.
+ *
+ * @param {JSONRPCMessage} message - Message to check
+ * @returns {RequestId | undefined} Id of the cancelled request, or undefined for other messages
+ */
+function getCancelledRequestId(message: JSONRPCMessage): RequestId | undefined {
+  if (!('method' in message) || 'id' in message || message.method !== 'notifications/cancelled') {
+    return undefined;
+  }
+  return message.params?.requestId as RequestId | undefined;
+}
+
+/**
+ * Checks whether the Accept header of a request explicitly lists a media type.
+ *
+ * @param {IncomingMessage} req - Incoming HTTP request
+ * @param {string} mediaType - Media type to look for
+ * @returns {boolean} True if the client accepts the media type
+ */
+export function acceptsMediaType(req: IncomingMessage, mediaType: string): boolean {
+  return (req.headers.accept ?? '').includes(mediaType);
+}
+
+/**
+ * Ends an HTTP response with a JSON-RPC error body that is not tied to a request.
+ *
+ * @param {ServerResponse} res - Response to end
+ * @param {number} status - HTTP status code
+ * @param {number} code - JSON-RPC error code
+ * @param {string} message - Error message
+ * @param {Record<string, string>} [headers={}] - Additional response headers
+ * @returns {void}
+ */
+export function writeJsonRpcError(
+  res: ServerResponse,
+  status: number,
+  code: number,
+  message: string,
+  headers: Record<string, string> = {}
+): void {
+  res
+    .writeHead(status, { ...headers, 'Content-Type': 'application/json' })
+    .end(JSON.stringify({ jsonrpc: '2.0', error: { code, message }, id: null }));
+}
+
+/**
+ * Writes a JSON-RPC message as an SSE event.
+ *
+ * @param {ServerResponse} res - Open event stream
+ * @param {JSONRPCMessage} message - Message to write
+ * @returns {void}
+ */
+function writeEvent(res: ServerResponse, message: JSONRPCMessage): void {
+  res.write(`event: message\ndata: ${JSON.stringify(message)}\n\n`);
+}
+
+/**
+ * Server side of the MCP streamable HTTP transport for one session.
+ *
+ * Clients POST JSON-RPC messages to a single endpoint. Requests are answered on the response of
+ * the POST that carried them, either as an SSE stream (when the client accepts
+ * `text/event-stream`, so progress notifications can be interleaved) or as a single JSON body.
+ * Notifications that do not belong to a request, such as resource list changes, are sent on the
+ * stream the client may open with GET. Routing requests to the transport of their session is
+ * left to the HTTP server.
+ *
+ * @class StreamableHttpServerTransport
+ * @example
+ * ```typescript
+ * const transport = new StreamableHttpServerTransport();
+ * await server.connect(transport);
+ * transport.handlePost(req, res, messages, false);
+ * ```
+ */
+export class StreamableHttpServerTransport implements Transport {
+  onclose?: () => void;
+  onerror?: (error: Error) => void;
+  onmessage?: (message: JSONRPCMessage) => void;
+
+  /** Session id the client must send in the Mcp-Session-Id header */
+  readonly sessionId: string = randomUUID();
+  /** Time of the last request the client made in this session */
+  lastActivity: number = Date.now();
+
+  private started = false;
+  private closed = false;
+  private standaloneStream?: ServerResponse;
+  private readonly requestStreams = new Map<RequestId, ResponseStream>();
+  private readonly progressStreams = new Map<RequestId, ResponseStream>();
+
+  /**
+   * Whether a response is still open, either the GET stream or a POST awaiting responses.
+   *
+   * @returns {boolean} True if the client is connected
+   */
+  get hasOpenStreams(): boolean {
+    return this.standaloneStream !== undefined || this.requestStreams.size > 0;
+  }
+
+  start(): Promise<void> {
+    if (this.started) {
+      throw new Error('StreamableHttpServerTransport already started');
+    }
+    this.started = true;
+    return Promise.resolve();
+  }
+
+  /**
+   * Handles a POST of already parsed JSON-RPC messages.
+   * Requests keep the response open until all of them are answered or cancelled; a POST of
+   * only notifications and responses is acknowledged with 202 Accepted.
+   *
+   * @param {IncomingMessage} req - Incoming HTTP request
+   * @param {ServerResponse} res - Response to answer on
+   * @param {JSONRPCMessage[]} messages - Messages of the request body
+   * @param {boolean} batch - Whether the body was a JSON array
+   * @returns {void}
+   */
+  handlePost(
+    req: IncomingMessage,
+    res: ServerResponse,
+    messages: JSONRPCMessage[],
+    batch: boolean
+  ): void {
+    this.lastActivity = Date.now();
+    res.setHeader(SESSION_ID_HEADER, this.sessionId);
+
+    // No response is sent for a cancelled request, so its POST must not wait for one
+    for (const message of messages) {
+      const cancelledId = getCancelledRequestId(message);
+      if (cancelledId !== undefined) {
+        this.settleRequest(cancelledId);
+      }
+    }
+
+    const requests = messages.filter(isJsonRpcRequest);
+    if (requests.length === 0) {
+      res.writeHead(202).end();
+      messages.forEach((message) => this.onmessage?.(message));
+      return;
+    }
+
+    const stream: ResponseStream = {
+      res,
+      json: !acceptsMediaType(req, 'text/event-stream'),
+      batch,
+      pending: new Set(requests.map((request) => request.id)),
+      responses: [],
+    };
+    for (const request of requests) {
+      this.requestStreams.set(request.id, stream);
+      const progressToken = request.params?._meta?.progressToken;
+      if (progressToken !== undefined) {
+        this.progressStreams.set(progressToken, stream);
+      }
+    }
+
+    if (!stream.json) {
+      res.writeHead(200, SSE_HEADERS);
+      res.flushHeaders();
+    }
+    // A client that disconnects early simply does not receive the responses
+    res.on('close', () => this.releaseStream(stream));
+
+    messages.forEach((message) => this.onmessage?.(message));
+  }
+
+  /**
+   * Handles a GET that opens the stream for messages unrelated to a request.
+   * Only one such stream may be open per session.
+   *
+   * @param {IncomingMessage} req - Incoming HTTP request
+   * @param {ServerResponse} res - Response to keep open as an event stream
+   * @returns {void}
+   */
+  handleGet(req: IncomingMessage, res: ServerResponse): void {
+    this.lastActivity = Date.now();
+
+    if (!acceptsMediaType(req, 'text/event-stream')) {
+      writeJsonRpcError(res, 406, -32000, 'Not Acceptable: client must accept text/event-stream');
+      return;
+    }
+    if (this.standaloneStream) {
+      writeJsonRpcError(res, 409, -32000, 'Conflict: an event stream is already open');
+      return;
+    }
+
+    res.writeHead(200, { ...SSE_HEADERS, [SESSION_ID_HEADER]: this.sessionId });
+    res.flushHeaders();
+    this.standaloneStream = res;
+    res.on('close', () => {
+      if (this.standaloneStream === res) {
+        this.standaloneStream = undefined;
+      }
+    });
+  }
+
+  send(message: JSONRPCMessage): Promise<void> {
+    if (isJsonRpcResponse(message)) {
+      this.sendResponse(message);
+      return Promise.resolve();
+    }
+
+    const progressToken =
+      'method' in message && message.method === 'notifications/progress'
+        ? (message.params?.progressToken as RequestId | undefined)
+        : undefined;
+    const stream =
+      progressToken !== undefined ? this.progressStreams.get(progressToken) : undefined;
+
+    if (stream && !stream.json) {
+      writeEvent(stream.res, message);
+    } else if (this.standaloneStream) {
+      writeEvent(this.standaloneStream, message);
+    }
+    // Without an open stream there is nowhere to deliver the message, so it is dropped
+    return Promise.resolve();
+  }
+
+  close(): Promise<void> {
+    if (this.closed) {
+      return Promise.resolve();
+    }
+    this.closed = true;
+
+    this.standaloneStream?.end();
+    this.standaloneStream = undefined;
+    for (const stream of new Set(this.requestStreams.values())) {
+      if (stream.res.headersSent) {
+        stream.res.end();
+      } else {
+        writeJsonRpcError(stream.res, 503, -32000, 'Session closed');
+      }
+    }
+    this.requestStreams.clear();
+    this.progressStreams.clear();
+
+    this.onclose?.();
+    return Promise.resolve();
+  }
+
+  /**
+   * Delivers a response on the POST that carried its request and ends that POST once
+   * every request in it is answered.
+   *
+   * @private
+   * @param {JSONRPCResponse | JSONRPCError} message - Response to deliver
+   * @returns {void}
+   */
+  private sendResponse(message: JSONRPCResponse | JSONRPCError): void {
+    const stream = this.requestStreams.get(message.id);
+    if (!stream) {
+      return;
+    }
+
+    if (stream.json) {
+      stream.responses.push(message);
+    } else {
+      writeEvent(stream.res, message);
+    }
+    this.settleRequest(message.id);
+  }
+
+  /**
+   * Marks a request as answered or cancelled and ends its POST once no request in it is
+   * pending. A JSON POST whose requests were all cancelled ends with 202 Accepted.
+   *
+   * @private
+   * @param {RequestId} id - Id of the request
+   * @returns {void}
+   */
+  private settleRequest(id: RequestId): void {
+    const stream = this.requestStreams.get(id);
+    if (!stream) {
+      return;
+    }
+    this.requestStreams.delete(id);
+    stream.pending.delete(id);
+    if (stream.pending.size > 0) {
+      return;
+    }
+
+    this.releaseStream(stream);
+    if (!stream.json) {
+      stream.res.end();
+    } else if (stream.responses.length === 0) {
+      stream.res.writeHead(202).end();
+    } else {
+      stream.res
+        .writeHead(200, { 'Content-Type': 'application/json' })
+        .end(JSON.stringify(stream.batch ? stream.responses : stream.responses[0]));
+    }
+  }
+
+  /**
+   * Forgets the requests and progress tokens routed to a POST response.
+   *
+   * @private
+   * @param {ResponseStream} stream - Stream to release
+   * @returns {void}
+   */
+  private releaseStream(stream: ResponseStream): void {
+    for (const routes of [this.requestStreams, this.progressStreams]) {
+      for (const [key, candidate] of routes) {
+        if (candidate === stream) {
+          routes.delete(key);
+        }
+      }
+    }
+  }
+}
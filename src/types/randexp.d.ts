@@ -2,6 +2,8 @@ declare module 'randexp' {
   class RandExp {
     constructor(regexp: string | RegExp, flags?: string);
     gen(): string;
+    /** Parsed token tree of the regex */
+    tokens: unknown;
     randInt?: (from: number, to: number) => number;
   }
   export = RandExp;
@@ -1,4 +1,12 @@
-import { Address } from './schema.js';
+import {
+  Address,
+  AuthEvent,
+  BankCountry,
+  CardNetwork,
+  LogLevel,
+  LogType,
+  OrderStatus,
+} from './schema.js';
 
 /**
  * Generated person data with complete personal information.
@@ -26,8 +34,8 @@ import { Address } from './schema.js';
  * ```
  */
 export interface PersonData {
-  /** Unique identifier for the person record */
-  id: string;
+  /** Unique identifier for the person record (a number for sequence IDs) */
+  id: string | number;
   /** First name / given name */
   firstName: string;
   /** Last name / family name */
@@ -36,12 +44,12 @@ export interface PersonData {
   fullName: string;
   /** Email address (lowercase) */
   email: string;
-  /** Phone number (optional, locale-specific format) */
-  phone?: string;
-  /** Date of birth in ISO format YYYY-MM-DD (optional) */
-  dateOfBirth?: string;
-  /** Physical address (optional) */
-  address?: Address;
+  /** Phone number (optional, locale-specific format; null in sparse records) */
+  phone?: string | null;
+  /** Date of birth in ISO format YYYY-MM-DD (optional; null in sparse records) */
+  dateOfBirth?: string | null;
+  /** Physical address (optional; null in sparse records) */
+  address?: Address | null;
 }
 
 /**
@@ -71,31 +79,441 @@ export interface PersonData {
  * ```
  */
 export interface CompanyData {
-  /** Unique identifier for the company record */
-  id: string;
+  /** Unique identifier for the company record (a number for sequence IDs) */
+  id: string | number;
   /** Company name */
   name: string;
   /** Industry or business sector */
   industry: string;
   /** Company email address (lowercase) */
   email: string;
-  /** Company phone number (optional) */
-  phone?: string;
-  /** Company website URL (optional) */
-  website?: string;
-  /** Physical address (optional) */
-  address?: Address;
-  /** Year the company was founded (optional) */
-  founded?: number;
-  /** Number of employees (optional) */
-  employeeCount?: number;
+  /** Company phone number (optional; null in sparse records) */
+  phone?: string | null;
+  /** Company website URL (optional; null in sparse records) */
+  website?: string | null;
+  /** Physical address (optional; null in sparse records) */
+  address?: Address | null;
+  /** Year the company was founded (optional; null in sparse records) */
+  founded?: number | null;
+  /** Number of employees (optional; null in sparse records) */
+  employeeCount?: number | null;
 }
 
+/**
+ * Package dimensions of a product, in centimeters.
+ *
+ * @interface ProductDimensions
+ */
+export interface ProductDimensions {
+  length: number;
+  width: number;
+  height: number;
+  unit: 'cm';
+}
+
+/**
+ * Shipping weight of a product, in kilograms.
+ *
+ * @interface ProductWeight
+ */
+export interface ProductWeight {
+  value: number;
+  unit: 'kg';
+}
+
+/**
+ * Generated product (catalog) data.
+ * Includes mandatory fields (SKU, name, category, price) and optional fields (description,
+ * stock, dimensions, weight, barcodes, image).
+ *
+ * @interface ProductData
+ * @example
+ * ```typescript
+ * const product: ProductData = {
+ *   id: 'product_12345_0',
+ *   sku: 'ELE-AUD-04821',
+ *   name: 'Ergonomic Headphones',
+ *   category: 'Headphones',
+ *   categoryPath: 'Electronics > Audio > Headphones',
+ *   description: 'Wireless over-ear headphones with a foldable frame',
+ *   price: 129.99,
+ *   currency: 'USD',
+ *   stock: 42,
+ *   dimensions: { length: 21.5, width: 18, height: 8.2, unit: 'cm' },
+ *   weight: { value: 0.35, unit: 'kg' },
+ *   ean: '0614141000418',
+ *   upc: '614141000418',
+ *   imageUrl: 'https://picsum.photos/seed/ELE-AUD-04821/640/480'
+ * };
+ * ```
+ */
+export interface ProductData {
+  /** Unique identifier for the product record (a number for sequence IDs) */
+  id: string | number;
+  /** Stock keeping unit: department and subcategory codes plus a 5-digit number */
+  sku: string;
+  /** Product name */
+  name: string;
+  /** Leaf category (the product type) */
+  category: string;
+  /** Full category hierarchy, e.g. `Electronics > Audio > Headphones` */
+  categoryPath: string;
+  /** Marketing description (optional; null in sparse records) */
+  description?: string | null;
+  /** Unit price in `currency` */
+  price: number;
+  /** ISO 4217 currency code */
+  currency: string;
+  /** Units in stock, 0 when sold out (optional; null in sparse records) */
+  stock?: number | null;
+  /** Package dimensions (optional; null in sparse records) */
+  dimensions?: ProductDimensions | null;
+  /** Shipping weight (optional; null in sparse records) */
+  weight?: ProductWeight | null;
+  /** EAN-13 barcode with a valid check digit (optional; null in sparse records) */
+  ean?: string | null;
+  /** UPC-A barcode with a valid check digit (optional; null in sparse records) */
+  upc?: string | null;
+  /** Product image URL (optional; null in sparse records) */
+  imageUrl?: string | null;
+}
+
+/**
+ * One line of an order: a quantity of a product at its unit price, less a discount.
+ * `lineTotal` is `quantity * unitPrice - discount`, exact to the currency's minor unit.
+ *
+ * @interface OrderLineItem
+ */
+export interface OrderLineItem {
+  /** ID of the ordered product (present when the order references a product entity) */
+  productId?: string | number;
+  quantity: number;
+  unitPrice: number;
+  discount: number;
+  lineTotal: number;
+}
+
+/**
+ * Generated order data.
+ * Amounts add up exactly: `subtotal` is the sum of the line totals, `discount` the sum of
+ * the line discounts, and `total` is `subtotal + tax`. Timestamps follow the status
+ * lifecycle (placed < paid < shipped < delivered) and are null for stages not reached.
+ *
+ * @interface OrderData
+ * @example
+ * ```typescript
+ * const order: OrderData = {
+ *   id: 'order_12345_0',
+ *   status: OrderStatus.DELIVERED,
+ *   currency: 'USD',
+ *   items: [{ productId: 'products_3', quantity: 2, unitPrice: 19.99, discount: 4, lineTotal: 35.98 }],
+ *   subtotal: 35.98,
+ *   discount: 4,
+ *   taxRate: 0.08,
+ *   tax: 2.88,
+ *   total: 38.86,
+ *   placedAt: '2024-11-02T09:14:00.000Z',
+ *   paidAt: '2024-11-02T09:20:41.000Z',
+ *   shippedAt: '2024-11-03T15:02:10.000Z',
+ *   deliveredAt: '2024-11-06T11:45:00.000Z',
+ *   cancelledAt: null,
+ *   refundedAt: null
+ * };
+ * ```
+ */
+export interface OrderData {
+  /** Unique identifier for the order record (a number for sequence IDs) */
+  id: string | number;
+  /** Current lifecycle state */
+  status: OrderStatus;
+  /** ISO 4217 currency code of all amounts */
+  currency: string;
+  /** Ordered products */
+  items: OrderLineItem[];
+  /** Sum of the line totals */
+  subtotal: number;
+  /** Sum of the line discounts (already deducted from the line totals) */
+  discount: number;
+  /** Tax rate applied to the subtotal */
+  taxRate: number;
+  /** Tax on the subtotal */
+  tax: number;
+  /** Amount charged: subtotal plus tax */
+  total: number;
+  /** When the order was placed (ISO 8601) */
+  placedAt: string;
+  /** When the order was paid, or null */
+  paidAt: string | null;
+  /** When the order was shipped, or null */
+  shippedAt: string | null;
+  /** When the order was delivered, or null */
+  deliveredAt: string | null;
+  /** When the order was cancelled, or null */
+  cancelledAt: string | null;
+  /** When the order was refunded, or null */
+  refundedAt: string | null;
+}
+
+/**
+ * Test payment card. The number passes the Luhn check and starts with a prefix of its network.
+ *
+ * @interface PaymentCard
+ */
+export interface PaymentCard {
+  number: string;
+  network: CardNetwork;
+  /** Expiry month and year as `MM/YY` */
+  expiry: string;
+  /** 4 digits for American Express, 3 otherwise */
+  cvv: string;
+}
+
+/**
+ * Generated bank account data.
+ *
+ * @interface AccountData
+ * @example
+ * ```typescript
+ * const account: AccountData = {
+ *   id: 'account_12345_0',
+ *   holder: 'Lena Schmidt',
+ *   country: BankCountry.DE,
+ *   iban: 'DE89370400440532013000',
+ *   bic: 'QXRMDEM4',
+ *   accountNumber: '0532013000',
+ *   currency: 'EUR',
+ *   balance: 2841.37,
+ *   card: { number: '4539578763621486', network: CardNetwork.VISA, expiry: '08/28', cvv: '413' }
+ * };
+ * ```
+ */
+export interface AccountData {
+  /** Unique identifier for the account record (a number for sequence IDs) */
+  id: string | number;
+  /** Account holder's full name */
+  holder: string;
+  /** Country of the bank */
+  country: BankCountry;
+  /** IBAN with valid check digits, or null in countries without IBANs */
+  iban: string | null;
+  /** 8-character BIC/SWIFT code of the bank */
+  bic: string;
+  /** Domestic account number (the account part of the IBAN where there is one) */
+  accountNumber: string;
+  /** ISO 4217 currency code of the balance */
+  currency: string;
+  /** Current balance, negative when overdrawn */
+  balance: number;
+  /** Payment card linked to the account (optional) */
+  card?: PaymentCard;
+}
+
+/**
+ * One line of a ledger transaction: an amount debited or credited to an account.
+ *
+ * @interface LedgerEntry
+ */
+export interface LedgerEntry {
+  /** Account code in the chart of accounts */
+  account: string;
+  accountName: string;
+  /** Amount debited (0 on credit lines) */
+  debit: number;
+  /** Amount credited (0 on debit lines) */
+  credit: number;
+}
+
+/**
+ * Generated double-entry ledger transaction. The debits and credits of its entries balance
+ * exactly, and `amount` is their common total.
+ *
+ * @interface LedgerTransactionData
+ * @example
+ * ```typescript
+ * const transaction: LedgerTransactionData = {
+ *   id: 'transaction_12345_0',
+ *   reference: 'JE-000001',
+ *   postedAt: '2024-10-14T09:30:00.000Z',
+ *   description: 'Cash sale',
+ *   currency: 'USD',
+ *   entries: [
+ *     { account: '1000', accountName: 'Cash', debit: 108, credit: 0 },
+ *     { account: '4000', accountName: 'Sales Revenue', debit: 0, credit: 100 },
+ *     { account: '2100', accountName: 'Sales Tax Payable', debit: 0, credit: 8 }
+ *   ],
+ *   amount: 108
+ * };
+ * ```
+ */
+export interface LedgerTransactionData {
+  /** Unique identifier for the transaction record (a number for sequence IDs) */
+  id: string | number;
+  /** Journal entry number, sequential in generation order */
+  reference: string;
+  /** When the transaction was posted (ISO 8601) */
+  postedAt: string;
+  description: string;
+  /** ISO 4217 currency code of all amounts */
+  currency: string;
+  /** Debit and credit lines */
+  entries: LedgerEntry[];
+  /** Total of the debits, equal to the total of the credits */
+  amount: number;
+}
+
+/**
+ * Generated web server access log record: one HTTP request.
+ *
+ * @interface AccessLogData
+ * @example
+ * ```typescript
+ * const request: AccessLogData = {
+ *   id: 'log_12345_0',
+ *   type: 'access',
+ *   timestamp: '2024-12-31T23:59:58.412Z',
+ *   host: 'web-02',
+ *   clientIp: '203.0.113.7',
+ *   user: null,
+ *   method: 'GET',
+ *   path: '/api/v1/products?page=2',
+ *   protocol: 'HTTP/1.1',
+ *   status: 200,
+ *   bytes: 5230,
+ *   referrer: 'https://www.google.com/',
+ *   userAgent: 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) ...',
+ *   latencyMs: 48,
+ *   sessionId: '9f86d081884c7d659a2feaa0c55ad015'
+ * };
+ * ```
+ */
+export interface AccessLogData {
+  /** Unique identifier for the log record (a number for sequence IDs) */
+  id: string | number;
+  type: LogType.ACCESS;
+  /** When the request was received (ISO 8601) */
+  timestamp: string;
+  /** Server that handled the request */
+  host: string;
+  /** IPv4 or IPv6 address of the client */
+  clientIp: string;
+  /** Authenticated user, or null for anonymous requests */
+  user: string | null;
+  method: string;
+  /** Request path with query string */
+  path: string;
+  protocol: string;
+  status: number;
+  /** Response body size (0 when there is no body) */
+  bytes: number;
+  referrer: string | null;
+  userAgent: string;
+  /** Time taken to serve the request */
+  latencyMs: number;
+  /** Session the request belongs to; requests of a session share IP, user agent and user */
+  sessionId: string;
+}
+
+/**
+ * Generated authentication event.
+ *
+ * @interface AuthLogData
+ */
+export interface AuthLogData {
+  /** Unique identifier for the log record (a number for sequence IDs) */
+  id: string | number;
+  type: LogType.AUTH;
+  /** When the event occurred (ISO 8601) */
+  timestamp: string;
+  /** Server that recorded the event */
+  host: string;
+  /** IPv4 or IPv6 address the attempt came from */
+  sourceIp: string;
+  user: string;
+  event: AuthEvent;
+  /** Credential used: password, sso, totp, api_key, refresh_token or session */
+  authMethod: string;
+  outcome: 'success' | 'failure';
+  /** Why the event failed, or null on success */
+  reason: string | null;
+  userAgent: string;
+  sessionId: string;
+  /** JWT-shaped access token issued by successful logins and refreshes, otherwise null */
+  token: string | null;
+}
+
+/**
+ * Generated application log record of a backend service.
+ *
+ * @interface AppLogData
+ */
+export interface AppLogData {
+  /** Unique identifier for the log record (a number for sequence IDs) */
+  id: string | number;
+  type: LogType.APP;
+  /** When the message was logged (ISO 8601) */
+  timestamp: string;
+  /** Server the service runs on */
+  host: string;
+  service: string;
+  /** Process ID of the service instance */
+  pid: number;
+  level: LogLevel;
+  message: string;
+  /** W3C trace context IDs: 32 and 16 hex digits */
+  traceId: string;
+  spanId: string;
+  /** User session being served, or null for background work */
+  sessionId: string | null;
+}
+
+/**
+ * Any generated log record, discriminated by `type`.
+ *
+ * @typedef {AccessLogData | AuthLogData | AppLogData} LogData
+ */
+export type LogData = AccessLogData | AuthLogData | AppLogData;
+
+/**
+ * Point of a generated time series: its timestamp and the value of each metric, keyed by
+ * metric name.
+ *
+ * @interface TimeSeriesPoint
+ */
+export interface TimeSeriesPoint {
+  /** Time of the point (ISO 8601) */
+  timestamp: string;
+  [metric: string]: string | number;
+}
+
+/**
+ * Spike or gap placed in a generated time series, for checking anomaly detectors against.
+ *
+ * @typedef {Object} TimeSeriesAnomaly
+ */
+export type TimeSeriesAnomaly =
+  | {
+      kind: 'spike';
+      /** Time of the point the spike was added to */
+      timestamp: string;
+      metric: string;
+      /** Amount added to the metric's value (before clamping), rounded like the value */
+      delta: number;
+    }
+  | {
+      kind: 'gap';
+      /** Start of the first interval without a point */
+      start: string;
+      /** End of the last interval without a point */
+      end: string;
+      /** Number of missing points */
+      points: number;
+    };
+
 /**
  * Generated custom data with flexible structure.
  * All fields except 'id' are user-defined based on the custom patterns provided.
  *
- * @typedef {Record<string, unknown> & { id: string }} CustomData
+ * @typedef {Record<string, unknown> & { id: string | number }} CustomData
  * @example
  * ```typescript
  * const custom: CustomData = {
@@ -107,13 +525,13 @@ export interface CompanyData {
  * };
  * ```
  */
-export type CustomData = Record<string, unknown> & { id: string };
+export type CustomData = Record<string, unknown> & { id: string | number };
 
 /**
  * Union type representing any type of generated data.
- * Can be a person, company, or custom data record.
+ * Can be a person, company, product, order, account, ledger transaction, or custom data record.
  *
- * @typedef {PersonData | CompanyData | CustomData} GeneratedData
+ * @typedef {PersonData | CompanyData | ProductData | OrderData | AccountData | LedgerTransactionData | CustomData} GeneratedData
  * @example
  * ```typescript
  * function processData(data: GeneratedData) {
@@ -122,7 +540,14 @@ export type CustomData = Record<string, unknown> & { id: string };
  * }
  * ```
  */
-export type GeneratedData = PersonData | CompanyData | CustomData;
+export type GeneratedData =
+  | PersonData
+  | CompanyData
+  | ProductData
+  | OrderData
+  | AccountData
+  | LedgerTransactionData
+  | CustomData;
 
 /**
  * Dataset containing multiple entities.
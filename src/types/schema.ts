@@ -20,6 +20,14 @@ export enum EntityType {
   PERSON = 'person',
   /** Company entity with name, industry, email, website, and address fields */
   COMPANY = 'company',
+  /** Product entity with SKU, name, category, price, stock, barcodes, and image fields */
+  PRODUCT = 'product',
+  /** Order entity with line items, computed totals, and a status lifecycle with timestamps */
+  ORDER = 'order',
+  /** Bank account entity with holder, IBAN, BIC, balance, and payment card fields */
+  ACCOUNT = 'account',
+  /** Double-entry ledger transaction entity whose debits and credits balance */
+  LEDGER = 'ledger',
   /** Custom entity with user-defined fields */
   CUSTOM = 'custom',
 }
@@ -44,6 +52,27 @@ export enum RelationshipType {
   MANY_TO_MANY = 'many-to-many',
 }
 
+/**
+ * Distributions for spreading children across parents in one-to-many relationships.
+ *
+ * @enum {string}
+ * @example
+ * ```typescript
+ * const cardinality: CardinalityDefinition = {
+ *   min: 1,
+ *   distribution: CardinalityDistribution.ZIPF
+ * };
+ * ```
+ */
+export enum CardinalityDistribution {
+  /** Every parent is equally likely to receive each child */
+  UNIFORM = 'uniform',
+  /** Ranked skew: the k-th heaviest parent receives children proportional to 1 / k^skew */
+  ZIPF = 'zipf',
+  /** Heavy-tailed skew: parent weights are sampled from a Pareto distribution with shape `skew` */
+  PARETO = 'pareto',
+}
+
 /**
  * Supported custom pattern types for data generation.
  * These patterns allow generating data that follows specific rules.
@@ -68,6 +97,399 @@ export enum PatternType {
   RANGE = 'range',
 }
 
+/**
+ * Output formats for generated data.
+ *
+ * @enum {string}
+ * @example
+ * ```typescript
+ * const params = { count: 100, outputFormat: OutputFormat.CSV };
+ * ```
+ */
+export enum OutputFormat {
+  /** Pretty-printed JSON (default) */
+  JSON = 'json',
+  /** Comma-separated values with a header row; nested objects become `parent.child` columns */
+  CSV = 'csv',
+  /** Newline-delimited JSON: one record per line */
+  NDJSON = 'ndjson',
+  /** Tab-separated values with a header row; nested objects become `parent.child` columns */
+  TSV = 'tsv',
+  /** CREATE TABLE statements followed by batched INSERT statements (datasets only) */
+  SQL = 'sql',
+  /** Apache/Nginx combined log format lines (access logs only) */
+  COMBINED = 'combined',
+  /** RFC 5424 syslog lines (logs only) */
+  SYSLOG = 'syslog',
+}
+
+/**
+ * SQL dialects supported by the SQL export.
+ *
+ * @enum {string}
+ */
+export enum SqlDialect {
+  /** PostgreSQL */
+  POSTGRES = 'postgres',
+  /** MySQL / MariaDB */
+  MYSQL = 'mysql',
+  /** SQLite */
+  SQLITE = 'sqlite',
+}
+
+/**
+ * Value types of dataset fields, used for fields imported from database schemas.
+ *
+ * @enum {string}
+ * @example
+ * ```typescript
+ * const field: FieldDefinition = { name: 'verified', type: FieldType.BOOLEAN };
+ * ```
+ */
+export enum FieldType {
+  /** Text generated from the field name (same as an untyped field) */
+  STRING = 'string',
+  /** Whole number */
+  INTEGER = 'integer',
+  /** Decimal number with two decimal places */
+  NUMBER = 'number',
+  /** true or false */
+  BOOLEAN = 'boolean',
+  /** ISO 8601 date (YYYY-MM-DD) */
+  DATE = 'date',
+  /** ISO 8601 timestamp */
+  DATETIME = 'datetime',
+  /** UUID v4 */
+  UUID = 'uuid',
+  /** JSON value (generated as an array of words; also used for list columns) */
+  JSON = 'json',
+}
+
+/**
+ * Comparison operators of cross-field constraints in dataset entities.
+ *
+ * @enum {string}
+ * @example
+ * ```typescript
+ * const constraint: FieldConstraint = {
+ *   field: 'endDate',
+ *   operator: ConstraintOperator.GREATER_THAN,
+ *   other: 'startDate'
+ * };
+ * ```
+ */
+export enum ConstraintOperator {
+  LESS_THAN = '<',
+  LESS_THAN_OR_EQUAL = '<=',
+  GREATER_THAN = '>',
+  GREATER_THAN_OR_EQUAL = '>=',
+  NOT_EQUAL = '!=',
+}
+
+/**
+ * Person fields that can be generated without duplicates.
+ *
+ * @enum {string}
+ * @example
+ * ```typescript
+ * generator.generateMany(10000, { unique: [PersonUniqueField.EMAIL] });
+ * ```
+ */
+export enum PersonUniqueField {
+  /** First and last name combination */
+  FULL_NAME = 'fullName',
+  EMAIL = 'email',
+  PHONE = 'phone',
+}
+
+/**
+ * Company fields that can be generated without duplicates.
+ *
+ * @enum {string}
+ */
+export enum CompanyUniqueField {
+  NAME = 'name',
+  EMAIL = 'email',
+  PHONE = 'phone',
+  WEBSITE = 'website',
+}
+
+/**
+ * Optional person fields that can be nulled or omitted to produce sparse records.
+ *
+ * @enum {string}
+ * @example
+ * ```typescript
+ * generator.generateMany(100, { sparsity: { [PersonOptionalField.PHONE]: { nullRate: 0.3 } } });
+ * ```
+ */
+export enum PersonOptionalField {
+  PHONE = 'phone',
+  DATE_OF_BIRTH = 'dateOfBirth',
+  ADDRESS = 'address',
+}
+
+/**
+ * Optional company fields that can be nulled or omitted to produce sparse records.
+ *
+ * @enum {string}
+ */
+export enum CompanyOptionalField {
+  PHONE = 'phone',
+  WEBSITE = 'website',
+  FOUNDED = 'founded',
+  EMPLOYEE_COUNT = 'employeeCount',
+  ADDRESS = 'address',
+}
+
+/**
+ * Product fields that can be generated without duplicates.
+ *
+ * @enum {string}
+ */
+export enum ProductUniqueField {
+  SKU = 'sku',
+  NAME = 'name',
+  /** UPC-A barcode; the EAN-13 is derived from it, so it is distinct too */
+  UPC = 'upc',
+}
+
+/**
+ * Optional product fields that can be nulled or omitted to produce sparse records.
+ *
+ * @enum {string}
+ */
+export enum ProductOptionalField {
+  DESCRIPTION = 'description',
+  STOCK = 'stock',
+  DIMENSIONS = 'dimensions',
+  WEIGHT = 'weight',
+  EAN = 'ean',
+  UPC = 'upc',
+  IMAGE_URL = 'imageUrl',
+}
+
+/**
+ * Lifecycle states of an order. Orders move from pending to paid, shipped and delivered;
+ * cancelled orders stop before shipping and refunded orders were delivered first.
+ *
+ * @enum {string}
+ */
+export enum OrderStatus {
+  PENDING = 'pending',
+  PAID = 'paid',
+  SHIPPED = 'shipped',
+  DELIVERED = 'delivered',
+  CANCELLED = 'cancelled',
+  REFUNDED = 'refunded',
+}
+
+/**
+ * Kinds of records produced by the generate-financial tool.
+ *
+ * @enum {string}
+ */
+export enum FinancialRecordType {
+  /** Bank accounts with IBAN, BIC, balance and payment card */
+  ACCOUNT = 'account',
+  /** Double-entry ledger transactions */
+  LEDGER = 'ledger',
+}
+
+/**
+ * Countries whose bank account formats can be generated.
+ * All but Japan use IBANs; Japanese accounts only have a domestic account number.
+ *
+ * @enum {string}
+ */
+export enum BankCountry {
+  GB = 'GB',
+  DE = 'DE',
+  FR = 'FR',
+  ES = 'ES',
+  NL = 'NL',
+  JP = 'JP',
+}
+
+/**
+ * Payment card networks, identified by the leading digits of their card numbers.
+ *
+ * @enum {string}
+ */
+export enum CardNetwork {
+  VISA = 'visa',
+  MASTERCARD = 'mastercard',
+  AMEX = 'amex',
+  DISCOVER = 'discover',
+}
+
+/**
+ * Kinds of records produced by the generate-logs tool.
+ *
+ * @enum {string}
+ */
+export enum LogType {
+  /** Web server access logs: one HTTP request per record */
+  ACCESS = 'access',
+  /** Authentication events: logins, logouts, token refreshes, MFA challenges */
+  AUTH = 'auth',
+  /** Application logs of backend services */
+  APP = 'app',
+}
+
+/**
+ * Severity levels of application log records.
+ *
+ * @enum {string}
+ */
+export enum LogLevel {
+  DEBUG = 'debug',
+  INFO = 'info',
+  WARN = 'warn',
+  ERROR = 'error',
+  FATAL = 'fatal',
+}
+
+/**
+ * Authentication events recorded in auth logs.
+ *
+ * @enum {string}
+ */
+export enum AuthEvent {
+  LOGIN = 'login',
+  LOGOUT = 'logout',
+  TOKEN_REFRESH = 'token_refresh',
+  PASSWORD_CHANGE = 'password_change',
+  MFA_CHALLENGE = 'mfa_challenge',
+}
+
+/**
+ * How the points of a generated time series are spaced.
+ *
+ * @enum {string}
+ */
+export enum TimeSeriesSpacing {
+  /** One point every interval, on the interval boundaries */
+  REGULAR = 'regular',
+  /** One point at a random time within each interval */
+  IRREGULAR = 'irregular',
+}
+
+/**
+ * How often a generated field is null or missing from its record.
+ * One draw per record decides: below `omitRate` the key is omitted, below
+ * `omitRate + nullRate` the value is null, so the two rates must not add up to more than 1.
+ *
+ * @interface FieldSparsity
+ * @example
+ * ```typescript
+ * const sparsity: FieldSparsity = { nullRate: 0.1, omitRate: 0.05 };
+ * ```
+ */
+export interface FieldSparsity {
+  /** Probability (0-1) that the value is null (defaults to 0) */
+  nullRate?: number;
+  /** Probability (0-1) that the key is left out of the record (defaults to 0) */
+  omitRate?: number;
+}
+
+/**
+ * How record IDs are generated.
+ *
+ * @enum {string}
+ */
+export enum IdStrategyType {
+  /** Random UUID v4 */
+  UUID = 'uuid',
+  /** Time-ordered UUID v7, sortable by generation order */
+  UUIDV7 = 'uuidv7',
+  /** Time-ordered ULID (26 Crockford base32 characters) */
+  ULID = 'ulid',
+  /** URL-safe random ID, 21 characters by default */
+  NANOID = 'nanoid',
+  /** Integer sequence counting up from `start` */
+  SEQUENCE = 'sequence',
+  /** Random alphanumeric ID behind a fixed prefix, e.g. `cus_8fK2mQ0aZx9L` */
+  PREFIXED = 'prefixed',
+  /** ID matching a regex */
+  PATTERN = 'pattern',
+}
+
+/**
+ * Strategy for the `id` of generated records. Without one, IDs keep their default form
+ * (`person_<seed>_<index>` for the record tools, `<entity>_<n>` in datasets).
+ *
+ * @interface IdStrategy
+ * @example
+ * ```typescript
+ * const sequence: IdStrategy = { type: IdStrategyType.SEQUENCE, start: 1000 };
+ * const prefixed: IdStrategy = { type: IdStrategyType.PREFIXED, prefix: 'cus_' };
+ * const pattern: IdStrategy = { type: IdStrategyType.PATTERN, pattern: 'ORD-[0-9]{8}' };
+ * ```
+ */
+export interface IdStrategy {
+  type: IdStrategyType;
+  /** Sequence: first ID (defaults to 1) */
+  start?: number;
+  /** Prefixed: prefix of every ID (defaults to the record kind, e.g. `person_`) */
+  prefix?: string;
+  /** Nanoid and prefixed: number of random characters (defaults to 21 and 16) */
+  length?: number;
+  /** Pattern: regex the IDs match; IDs are never repeated */
+  pattern?: string;
+}
+
+/**
+ * Defects the chaos mode injects into generated records.
+ *
+ * @enum {string}
+ */
+export enum DefectType {
+  /** Swapped, dropped, doubled or replaced letter in a name (any text field without names) */
+  TYPO = 'typo',
+  /** Email without `@`, with `@@`, without a top-level domain or with a space */
+  INVALID_EMAIL = 'invalidEmail',
+  /** Truncated phone number, or one with letters or too many digits */
+  MALFORMED_PHONE = 'malformedPhone',
+  /** Values of two fields of a record exchanged */
+  SWAPPED_FIELDS = 'swappedFields',
+  /** Number or boolean written as text, text replaced by a number */
+  WRONG_TYPE = 'wrongType',
+  /** Space, tab, non-breaking space or newline after a text value */
+  TRAILING_WHITESPACE = 'trailingWhitespace',
+  /** UTF-8 text decoded as Latin-1 (mojibake such as `Ã©`) */
+  MIXED_ENCODING = 'mixedEncoding',
+  /** Number made negative or orders of magnitude too large */
+  OUT_OF_RANGE = 'outOfRange',
+  /** Record repeated right after itself */
+  DUPLICATE_ROW = 'duplicateRow',
+  /** Datasets only: foreign key pointing at an ID the referenced entity does not have */
+  DANGLING_FOREIGN_KEY = 'danglingForeignKey',
+}
+
+/**
+ * Rate (0-1) of each defect: the probability that a record receives it.
+ *
+ * @typedef {Partial<Record<DefectType, number>>} ChaosRates
+ * @example
+ * ```typescript
+ * const rates: ChaosRates = { typo: 0.05, invalidEmail: 0.02, duplicateRow: 0.01 };
+ * ```
+ */
+export type ChaosRates = Partial<Record<DefectType, number>>;
+
+/**
+ * Source formats accepted by the database schema import.
+ *
+ * @enum {string}
+ */
+export enum SchemaSourceFormat {
+  /** Prisma schema (schema.prisma) */
+  PRISMA = 'prisma',
+  /** SQL DDL: CREATE TABLE, CREATE TYPE ... AS ENUM and ALTER TABLE ... FOREIGN KEY statements */
+  SQL = 'sql',
+}
+
 /**
  * Supported locales for data generation.
  * Locales affect the generated data (names, addresses, phone formats, etc.).
@@ -134,6 +556,15 @@ export interface Address {
  *   type: RelationshipType.ONE_TO_MANY,
  *   nullable: false
  * };
+ *
+ * // Many-to-many through a generated junction entity
+ * const roles: RelationshipDefinition = {
+ *   references: 'roles',
+ *   type: RelationshipType.MANY_TO_MANY,
+ *   through: 'users_roles',
+ *   minLinks: 1,
+ *   maxLinks: 3
+ * };
  * ```
  */
 export interface RelationshipDefinition {
@@ -143,6 +574,106 @@ export interface RelationshipDefinition {
   type: RelationshipType;
   /** Whether the relationship can be null (optional, defaults to false) */
   nullable?: boolean;
+  /** Probability (0-1) of a null foreign key when nullable (optional, defaults to 0.2) */
+  nullRate?: number;
+  /**
+   * Many-to-many only: name of a junction entity to generate (e.g. 'users_roles').
+   * When set, links are written as junction rows instead of an ID array on the owning record.
+   */
+  through?: string;
+  /** Many-to-many only: junction column holding the owning record's ID (defaults to '{owner}Id') */
+  sourceKey?: string;
+  /** Many-to-many only: junction column holding the referenced ID (defaults to '{references}Id') */
+  targetKey?: string;
+  /** Many-to-many only: minimum number of linked records per row (defaults to 1) */
+  minLinks?: number;
+  /** Many-to-many only: maximum number of linked records per row (defaults to 3) */
+  maxLinks?: number;
+  /** One-to-many only: constraints on how many children each parent receives */
+  cardinality?: CardinalityDefinition;
+}
+
+/**
+ * Cardinality constraints for a one-to-many relationship.
+ * Controls how many child records reference each parent record.
+ *
+ * @interface CardinalityDefinition
+ * @example
+ * ```typescript
+ * // Every customer has 1-20 orders, with a few heavy customers
+ * const cardinality: CardinalityDefinition = {
+ *   min: 1,
+ *   max: 20,
+ *   distribution: CardinalityDistribution.PARETO,
+ *   skew: 1.16
+ * };
+ * ```
+ */
+export interface CardinalityDefinition {
+  /** Minimum children per parent (defaults to 0; 1 means every parent has at least one child) */
+  min?: number;
+  /** Maximum children per parent (optional, unbounded by default) */
+  max?: number;
+  /** How children are spread across parents (defaults to uniform) */
+  distribution?: CardinalityDistribution;
+  /** Skew parameter: Zipf exponent (defaults to 1) or Pareto shape (defaults to 1.16) */
+  skew?: number;
+}
+
+/**
+ * Defines a single field of a custom dataset entity.
+ * Fields without a pattern or type fall back to name-based heuristics (e.g. 'price', 'status', 'date').
+ *
+ * @interface FieldDefinition
+ * @example
+ * ```typescript
+ * const status: FieldDefinition = {
+ *   name: 'status',
+ *   pattern: {
+ *     type: PatternType.ENUM,
+ *     value: ['pending', 'shipped', 'delivered']
+ *   }
+ * };
+ * ```
+ */
+export interface FieldDefinition extends FieldSparsity {
+  /** Field name */
+  name: string;
+  /** Pattern used to generate the value (optional, same shape as generate-custom patterns) */
+  pattern?: CustomPattern;
+  /** Value type used when no pattern is given (optional, string fields use name heuristics) */
+  type?: FieldType;
+  /** Whether every record must get a distinct value (optional, defaults to false) */
+  unique?: boolean;
+  /**
+   * Whether the SQL column accepts NULL even when no null value is generated (optional,
+   * columns holding generated nulls are always nullable)
+   */
+  nullable?: boolean;
+}
+
+/**
+ * Row-level rule comparing two fields of the same custom entity record.
+ * Numbers compare numerically and other values (e.g. ISO dates) as strings; a rule with a
+ * null side holds, as in SQL CHECK constraints.
+ *
+ * @interface FieldConstraint
+ * @example
+ * ```typescript
+ * const discountBelowPrice: FieldConstraint = {
+ *   field: 'discount',
+ *   operator: ConstraintOperator.LESS_THAN_OR_EQUAL,
+ *   other: 'price'
+ * };
+ * ```
+ */
+export interface FieldConstraint {
+  /** Field on the left-hand side */
+  field: string;
+  /** Comparison that must hold */
+  operator: ConstraintOperator;
+  /** Field on the right-hand side */
+  other: string;
 }
 
 /**
@@ -155,7 +686,11 @@ export interface RelationshipDefinition {
  * const entityDef: EntityDefinition = {
  *   count: 50,
  *   type: EntityType.CUSTOM,
- *   fields: ['orderId', 'amount', 'status'],
+ *   fields: [
+ *     'orderId',
+ *     'amount',
+ *     { name: 'status', pattern: { type: PatternType.ENUM, value: ['pending', 'shipped'] } }
+ *   ],
  *   relationships: {
  *     userId: {
  *       references: 'users',
@@ -168,12 +703,26 @@ export interface RelationshipDefinition {
 export interface EntityDefinition {
   /** Number of records to generate for this entity (1-10000) */
   count: number;
-  /** Entity type (person, company, or custom) */
+  /** Entity type (person, company, product, or custom) */
   type: EntityType;
-  /** Field names for custom entities (required for EntityType.CUSTOM) */
-  fields?: string[];
+  /** Field names or field definitions for custom entities (required for EntityType.CUSTOM) */
+  fields?: Array<string | FieldDefinition>;
   /** Relationships to other entities (field name -> relationship definition) */
   relationships?: Record<string, RelationshipDefinition>;
+  /** Person, company or product fields that must be distinct across records (custom entities use `unique` on fields) */
+  unique?: Array<PersonUniqueField | CompanyUniqueField | ProductUniqueField>;
+  /** Custom entities: field combinations that must be distinct across records, e.g. `[['tenantId', 'email']]` */
+  uniqueKeys?: string[][];
+  /** Custom entities: rules between fields every record must satisfy */
+  constraints?: FieldConstraint[];
+  /** How the entity's IDs are generated; foreign keys to it carry the same IDs */
+  idStrategy?: IdStrategy;
+  /**
+   * Custom entities: primary key when it is not `id`. A single name stores the entity's IDs
+   * under that field; several fields form a composite key that replaces the ID and must be
+   * distinct across records
+   */
+  primaryKey?: string[];
 }
 
 /**
@@ -268,11 +817,140 @@ export interface RangePattern {
  * };
  * ```
  */
-export interface CustomPattern {
+export interface CustomPattern extends FieldSparsity {
   /** Pattern type (regex, enum, format, or range) */
   type: PatternType;
   /** Pattern value (type depends on pattern type) */
   value: string | string[] | RangePattern;
+  /** Whether every record must get a distinct value (optional, defaults to false) */
+  unique?: boolean;
+}
+
+/**
+ * Defines one metric of a generated time series. Its value at each point is the sum of the
+ * baseline, a linear trend, daily and weekly seasonal waves, a random walk, Gaussian noise
+ * and occasional spikes, clamped to `min`/`max` and rounded to `decimals`.
+ *
+ * @interface TimeSeriesMetric
+ * @example
+ * ```typescript
+ * const requests: TimeSeriesMetric = {
+ *   name: 'requests_per_second',
+ *   baseline: 250,
+ *   trend: 5,
+ *   seasonality: { daily: 120, weekly: 40 },
+ *   noise: 10,
+ *   spikes: { rate: 0.01, magnitude: 400 },
+ *   min: 0,
+ *   decimals: 0
+ * };
+ * ```
+ */
+export interface TimeSeriesMetric {
+  /** Column name of the metric in each point */
+  name: string;
+  /** Level of the series at its start (defaults to 0) */
+  baseline?: number;
+  /** Change of the level per day (defaults to 0) */
+  trend?: number;
+  /** Amplitudes of the daily wave (peak 14:00 UTC) and the weekly wave (peak midweek) */
+  seasonality?: { daily?: number; weekly?: number };
+  /** Standard deviation of the Gaussian noise added to each point (defaults to 0) */
+  noise?: number;
+  /** Standard deviation of each random walk step (defaults to 0, no walk) */
+  randomWalk?: number;
+  /** Chance of a spike at each point and its typical height (negative for dips) */
+  spikes?: { rate: number; magnitude: number };
+  /** Lowest value the metric takes */
+  min?: number;
+  /** Highest value the metric takes */
+  max?: number;
+  /** Decimal places values are rounded to (defaults to 2) */
+  decimals?: number;
+}
+
+/**
+ * Primitive types of a JSON Schema `type` keyword.
+ *
+ * @typedef {string} JsonSchemaType
+ */
+export type JsonSchemaType =
+  'string' | 'number' | 'integer' | 'boolean' | 'null' | 'object' | 'array';
+
+/**
+ * Subset of a JSON Schema (draft-04 to 2020-12) document understood by the JSON Schema generator.
+ * Unknown keywords are ignored. OpenAPI 3.0 `nullable` is accepted as an alias for `type: [T, 'null']`.
+ *
+ * @interface JsonSchema
+ * @example
+ * ```typescript
+ * const user: JsonSchema = {
+ *   type: 'object',
+ *   required: ['id', 'email'],
+ *   properties: {
+ *     id: { type: 'string', format: 'uuid' },
+ *     email: { type: 'string', format: 'email' },
+ *     age: { type: 'integer', minimum: 18, maximum: 99 },
+ *     tags: { type: 'array', items: { type: 'string', enum: ['admin', 'staff'] }, maxItems: 2 }
+ *   }
+ * };
+ * ```
+ */
+export interface JsonSchema {
+  /** Value type, or list of allowed types */
+  type?: JsonSchemaType | JsonSchemaType[];
+  /** Local reference such as `#/$defs/Address` or `#/definitions/Address` */
+  $ref?: string;
+  /** Reusable sub-schemas (2019-09 and later) */
+  $defs?: Record<string, JsonSchema>;
+  /** Reusable sub-schemas (draft-04 to draft-07) */
+  definitions?: Record<string, JsonSchema>;
+  /** String format (email, uri, date-time, date, time, uuid, hostname, ipv4, ipv6) */
+  format?: string;
+  /** Allowed values */
+  enum?: unknown[];
+  /** Single allowed value */
+  const?: unknown;
+  /** Regular expression that strings must match */
+  pattern?: string;
+  /** Minimum string length */
+  minLength?: number;
+  /** Maximum string length */
+  maxLength?: number;
+  /** Inclusive lower bound */
+  minimum?: number;
+  /** Inclusive upper bound */
+  maximum?: number;
+  /** Exclusive lower bound (boolean modifier of `minimum` in draft-04) */
+  exclusiveMinimum?: number | boolean;
+  /** Exclusive upper bound (boolean modifier of `maximum` in draft-04) */
+  exclusiveMaximum?: number | boolean;
+  /** Numbers must be a multiple of this value */
+  multipleOf?: number;
+  /** Object properties */
+  properties?: Record<string, JsonSchema>;
+  /** Properties that must always be present */
+  required?: string[];
+  /** Schema of properties not listed in `properties`, or false to forbid them */
+  additionalProperties?: boolean | JsonSchema;
+  /** Array item schema, or tuple item schemas (draft-04 to 2019-09) */
+  items?: JsonSchema | JsonSchema[];
+  /** Tuple item schemas (2020-12) */
+  prefixItems?: JsonSchema[];
+  /** Minimum array length */
+  minItems?: number;
+  /** Maximum array length */
+  maxItems?: number;
+  /** Whether array items must be distinct */
+  uniqueItems?: boolean;
+  /** Sub-schemas that all apply (bounds keep their tightest value, required lists are combined) */
+  allOf?: JsonSchema[];
+  /** Sub-schemas of which at least one applies (one is picked per value) */
+  anyOf?: JsonSchema[];
+  /** Sub-schemas of which exactly one applies (values are redrawn until only one matches) */
+  oneOf?: JsonSchema[];
+  /** OpenAPI 3.0 nullability */
+  nullable?: boolean;
 }
 
 /**
@@ -0,0 +1,37 @@
+/**
+ * Computes the GS1 check digit of a GTIN (EAN-13, UPC-A, EAN-8) from its other digits:
+ * digits are weighted 3 and 1 alternately, starting with 3 at the rightmost one.
+ *
+ * @param {string} digits - GTIN without its check digit
+ * @returns {number} Check digit (0-9)
+ * @example
+ * ```typescript
+ * gtinCheckDigit('03600029145'); // 2, giving the UPC-A 036000291452
+ * ```
+ */
+export function gtinCheckDigit(digits: string): number {
+  let sum = 0;
+  for (let position = 0; position < digits.length; position++) {
+    const digit = Number(digits.charAt(digits.length - 1 - position));
+    sum += position % 2 === 0 ? digit * 3 : digit;
+  }
+  return (10 - (sum % 10)) % 10;
+}
+
+/**
+ * Checks whether a code is an 8, 12, 13 or 14 digit GTIN with a valid check digit.
+ *
+ * @param {string} code - Barcode digits
+ * @returns {boolean} True if the check digit matches
+ * @example
+ * ```typescript
+ * isValidGtin('4006381333931'); // true
+ * isValidGtin('4006381333932'); // false
+ * ```
+ */
+export function isValidGtin(code: string): boolean {
+  if (!/^(\d{8}|\d{12,14})$/.test(code)) {
+    return false;
+  }
+  return gtinCheckDigit(code.slice(0, -1)) === Number(code.slice(-1));
+}
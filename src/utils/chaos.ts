@@ -0,0 +1,527 @@
+import { Faker, en } from '@faker-js/faker';
+import { z } from 'zod';
+import {
+  findLineItemRelationship,
+  getIdField,
+  getJunctionKeys,
+} from '../generators/dataset-generator.js';
+import {
+  DefectType,
+  OutputFormat,
+  RelationshipType,
+  type ChaosRates,
+  type DatasetSchema,
+} from '../types/schema.js';
+import { OUTPUT_MIME_TYPES } from './tabular-export.js';
+import { MAX_UNIQUE_ATTEMPTS } from './unique-values.js';
+
+/**
+ * One defect injected into a generated record.
+ *
+ * @interface ChaosDefect
+ * @example
+ * ```typescript
+ * const defect: ChaosDefect = {
+ *   entity: 'users',
+ *   record: 12,
+ *   field: 'email',
+ *   defect: DefectType.INVALID_EMAIL,
+ *   original: 'ann.lee@example.com',
+ *   value: 'ann.lee@@example.com',
+ * };
+ * ```
+ */
+export interface ChaosDefect {
+  /** Dataset entity (or junction) of the record; absent for the record tools */
+  entity?: string;
+  /** 0-based index of the record in the returned output, duplicates included */
+  record: number;
+  defect: DefectType;
+  /** Corrupted field; absent for duplicated rows */
+  field?: string;
+  /** Swapped fields: the field whose value was exchanged with `field` */
+  otherField?: string;
+  /** Duplicated rows: index of the record this one repeats */
+  duplicateOf?: number;
+  /** Value of the field before the defect */
+  original?: unknown;
+  /** Value of the field after the defect */
+  value?: unknown;
+}
+
+/**
+ * Report of every defect injected into an output.
+ *
+ * @interface ChaosManifest
+ */
+export interface ChaosManifest {
+  /** Seed of the defect draws, independent from the records' own draws */
+  seed: number;
+  rates: ChaosRates;
+  totalDefects: number;
+  counts: Partial<Record<DefectType, number>>;
+  defects: ChaosDefect[];
+}
+
+/**
+ * IDs a foreign key field may reference
+ */
+interface ReferencedIds {
+  ids: ReadonlySet<string | number>;
+  /** Largest numeric ID, or 0 without any */
+  maxNumericId: number;
+  /** Key of the ID in each array element, when the field holds objects (order line items) */
+  key?: string;
+}
+
+/**
+ * Records being corrupted: their dataset entity, ID field and foreign key fields, if any.
+ */
+interface ChaosTarget {
+  entity?: string;
+  /** Field holding the record IDs (defaults to `id`) */
+  idField?: string;
+  foreignKeys?: Record<string, ReferencedIds>;
+}
+
+/**
+ * Zod validation schema for chaos rates.
+ *
+ * @constant
+ * @type {z.ZodRecord}
+ */
+export const ChaosSchema = z
+  .record(z.nativeEnum(DefectType), z.number().min(0).max(1))
+  .describe(
+    'Inject realistic defects, each with a rate (0-1) per record: typo, invalidEmail, malformedPhone, ' +
+      'swappedFields, wrongType, trailingWhitespace, mixedEncoding, outOfRange, duplicateRow and, ' +
+      'in datasets, danglingForeignKey. A chaos manifest resource lists every corrupted record and field'
+  );
+
+/**
+ * Defects applied to fields, in draw order. Duplicated rows are drawn last, so the copy
+ * carries the record's other defects.
+ */
+const FIELD_DEFECTS = Object.values(DefectType).filter(
+  (defect) => defect !== DefectType.DUPLICATE_ROW
+);
+
+/**
+ * Text inserted by the mixed encoding defect into ASCII text: UTF-8 sequences decoded as
+ * Latin-1 or Windows-1252, and the replacement character of undecodable bytes
+ */
+const MOJIBAKE = ['Ã©', 'Ã¨', 'Ã¼', 'Ã±', 'â€™', 'â€œ', 'Â', '\ufffd'];
+
+/**
+ * Whitespace appended by the trailing whitespace defect
+ */
+const TRAILING_WHITESPACE = [' ', '  ', '\t', '\u00a0', '\n'];
+
+/**
+ * Whether a record is a JSON object (not an array, primitive or null)
+ */
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Injects defects into generated records at the configured rates and records each one in a
+ * manifest. Draws come from a Faker instance of their own, so the records underneath are the
+ * same as without chaos, and the same seed reproduces the same defects. Fields are corrupted
+ * at the top level of a record; the `id` is never touched.
+ *
+ * @class ChaosInjector
+ * @example
+ * ```typescript
+ * const chaos = new ChaosInjector({ typo: 0.1, duplicateRow: 0.05 }, 12345);
+ * const corrupted = chaos.corruptRecords(people);
+ * const manifest = chaos.getManifest();
+ * ```
+ */
+export class ChaosInjector {
+  private readonly faker: Faker;
+  private readonly defects: ChaosDefect[] = [];
+
+  /**
+   * @param {ChaosRates} rates - Rate of each defect
+   * @param {number} seed - Seed of the defect draws
+   */
+  constructor(
+    private readonly rates: ChaosRates,
+    private readonly seed: number
+  ) {
+    this.faker = new Faker({ locale: en });
+    this.faker.seed(seed);
+  }
+
+  /**
+   * Corrupts a list of records. The input is left as is; corrupted records are copies.
+   * Records that are not objects (such as JSON Schema arrays or strings) can only be duplicated.
+   *
+   * @param {unknown[]} records - Generated records
+   * @param {ChaosTarget} [target={}] - Entity and foreign keys of the records in a dataset
+   * @returns {unknown[]} Records with defects and duplicated rows
+   */
+  corruptRecords(records: readonly unknown[], target: ChaosTarget = {}): unknown[] {
+    const output: unknown[] = [];
+
+    for (const source of records) {
+      const record = isPlainObject(source) ? { ...source } : source;
+      const index = output.length;
+
+      if (isPlainObject(record)) {
+        for (const defect of FIELD_DEFECTS) {
+          if (this.draw(defect)) {
+            this.corruptField(defect, record, index, target);
+          }
+        }
+      }
+      output.push(record);
+
+      if (this.draw(DefectType.DUPLICATE_ROW)) {
+        output.push(isPlainObject(record) ? { ...record } : record);
+        this.report({
+          entity: target.entity,
+          record: index + 1,
+          defect: DefectType.DUPLICATE_ROW,
+          duplicateOf: index,
+        });
+      }
+    }
+
+    return output;
+  }
+
+  /**
+   * Corrupts every entity of a dataset. Foreign keys only receive dangling references,
+   * which point at IDs missing from the referenced entity as generated.
+   *
+   * @param {DatasetSchema} schema - Schema the dataset was generated from
+   * @param {Record<string, unknown[]>} dataset - Records by entity (and junction) name
+   * @returns {Record<string, unknown[]>} Corrupted records by entity name
+   */
+  corruptDataset(
+    schema: DatasetSchema,
+    dataset: Record<string, unknown[]>
+  ): Record<string, unknown[]> {
+    const referenced = (entityName: string): ReferencedIds => {
+      const ids = new Set<string | number>();
+      let maxNumericId = 0;
+      const idField = getIdField(schema.entities[entityName]) ?? 'id';
+      for (const record of dataset[entityName] ?? []) {
+        const id = (record as Record<string, unknown>)[idField];
+        if (typeof id === 'number') {
+          maxNumericId = Math.max(maxNumericId, id);
+        }
+        if (typeof id === 'string' || typeof id === 'number') {
+          ids.add(id);
+        }
+      }
+      return { ids, maxNumericId };
+    };
+
+    const foreignKeys: Record<string, Record<string, ReferencedIds>> = {};
+    const addForeignKey = (entityName: string, field: string, references: string, key?: string) => {
+      foreignKeys[entityName] = {
+        ...foreignKeys[entityName],
+        [field]: { ...referenced(references), key },
+      };
+    };
+    for (const [entityName, entityDef] of Object.entries(schema.entities)) {
+      const lineItems = findLineItemRelationship(entityDef, schema);
+      for (const [field, relationship] of Object.entries(entityDef.relationships ?? {})) {
+        if (field === lineItems?.[0]) {
+          addForeignKey(entityName, field, relationship.references, 'productId');
+        } else if (relationship.type === RelationshipType.MANY_TO_MANY && relationship.through) {
+          const { sourceKey, targetKey } = getJunctionKeys(entityName, relationship);
+          addForeignKey(relationship.through, sourceKey, entityName);
+          addForeignKey(relationship.through, targetKey, relationship.references);
+        } else {
+          addForeignKey(entityName, field, relationship.references);
+        }
+      }
+    }
+
+    return Object.fromEntries(
+      Object.entries(dataset).map(([entityName, records]) => [
+        entityName,
+        this.corruptRecords(records, {
+          entity: entityName,
+          idField: getIdField(schema.entities[entityName]),
+          foreignKeys: foreignKeys[entityName],
+        }),
+      ])
+    );
+  }
+
+  /**
+   * Returns the manifest of the defects injected so far.
+   *
+   * @returns {ChaosManifest} Defects with their counts
+   */
+  getManifest(): ChaosManifest {
+    const counts: Partial<Record<DefectType, number>> = {};
+    for (const { defect } of this.defects) {
+      counts[defect] = (counts[defect] ?? 0) + 1;
+    }
+    return {
+      seed: this.seed,
+      rates: this.rates,
+      totalDefects: this.defects.length,
+      counts,
+      defects: this.defects,
+    };
+  }
+
+  /** Decides whether a record receives a defect; defects without a rate draw nothing. */
+  private draw(defect: DefectType): boolean {
+    const rate = this.rates[defect] ?? 0;
+    return rate > 0 && this.faker.datatype.boolean({ probability: rate });
+  }
+
+  /** Adds a defect to the manifest. */
+  private report(defect: ChaosDefect): void {
+    this.defects.push(defect);
+  }
+
+  /** Applies a field defect to one fitting field of the record, if it has any. */
+  private corruptField(
+    defect: DefectType,
+    record: Record<string, unknown>,
+    index: number,
+    target: ChaosTarget
+  ): void {
+    const foreignKeys = target.foreignKeys ?? {};
+    const fields = (test: (key: string, value: unknown) => boolean) =>
+      Object.keys(record).filter(
+        (key) => key !== (target.idField ?? 'id') && !(key in foreignKeys) && test(key, record[key])
+      );
+    const isText = (value: unknown): value is string => typeof value === 'string';
+
+    let candidates: string[];
+    switch (defect) {
+      case DefectType.TYPO: {
+        const text = fields((_, value) => isText(value) && /\p{L}.*\p{L}/u.test(value));
+        const names = text.filter((key) => /name/i.test(key));
+        candidates = names.length > 0 ? names : text;
+        break;
+      }
+      case DefectType.INVALID_EMAIL:
+        candidates = fields(
+          (key, value) => isText(value) && /^[^@\s]+@[^@\s]+$/.test(value) && /mail/i.test(key)
+        );
+        break;
+      case DefectType.MALFORMED_PHONE:
+        candidates = fields(
+          (key, value) => isText(value) && /\d/.test(value) && /phone/i.test(key)
+        );
+        break;
+      case DefectType.SWAPPED_FIELDS:
+        candidates = fields((_, value) => value !== undefined);
+        break;
+      case DefectType.WRONG_TYPE:
+        candidates = fields(
+          (_, value) =>
+            typeof value === 'number' || typeof value === 'boolean' || (isText(value) && !!value)
+        );
+        break;
+      case DefectType.TRAILING_WHITESPACE:
+      case DefectType.MIXED_ENCODING:
+        candidates = fields((_, value) => isText(value) && value.length > 0);
+        break;
+      case DefectType.OUT_OF_RANGE:
+        candidates = fields((_, value) => typeof value === 'number');
+        break;
+      case DefectType.DANGLING_FOREIGN_KEY:
+        candidates = Object.keys(foreignKeys).filter((key) => {
+          const value = record[key];
+          return (
+            typeof value === 'string' ||
+            typeof value === 'number' ||
+            (Array.isArray(value) && value.length > 0)
+          );
+        });
+        break;
+      default:
+        candidates = [];
+    }
+
+    if (candidates.length === 0) {
+      return;
+    }
+    const field = this.faker.helpers.arrayElement(candidates);
+    const original = record[field];
+
+    if (defect === DefectType.SWAPPED_FIELDS) {
+      const others = candidates.filter((key) => key !== field && record[key] !== original);
+      if (others.length === 0) {
+        return;
+      }
+      const otherField = this.faker.helpers.arrayElement(others);
+      record[field] = record[otherField];
+      record[otherField] = original;
+      this.report({
+        entity: target.entity,
+        record: index,
+        defect,
+        field,
+        otherField,
+        original,
+        value: record[field],
+      });
+      return;
+    }
+
+    const value =
+      defect === DefectType.DANGLING_FOREIGN_KEY
+        ? this.danglingReference(original, foreignKeys[field])
+        : this.corruptValue(defect, original);
+    record[field] = value;
+    this.report({ entity: target.entity, record: index, defect, field, original, value });
+  }
+
+  /** Produces the corrupted form of a field value. */
+  private corruptValue(defect: DefectType, value: unknown): unknown {
+    const { helpers, number, string } = this.faker;
+
+    if (typeof value === 'number') {
+      if (defect === DefectType.OUT_OF_RANGE) {
+        return helpers.arrayElement([
+          -Math.abs(value) - 1,
+          Math.abs(value) * 1000 + 1_000_000,
+          2_147_483_648,
+        ]);
+      }
+      return String(value);
+    }
+    if (typeof value === 'boolean') {
+      return value ? 'yes' : 'no';
+    }
+
+    const text = String(value);
+    switch (defect) {
+      case DefectType.TYPO:
+        return this.typo(text);
+      case DefectType.INVALID_EMAIL: {
+        const at = text.indexOf('@');
+        const domain = text.slice(at + 1);
+        const variants = [
+          text.replace('@', ''),
+          text.replace('@', '@@'),
+          `${text.slice(0, at)} ${text.slice(at)}`,
+          ...(domain.includes('.') ? [text.slice(0, text.lastIndexOf('.'))] : []),
+        ];
+        return helpers.arrayElement(variants);
+      }
+      case DefectType.MALFORMED_PHONE: {
+        const digit = helpers.arrayElement([...text.matchAll(/\d/g)]).index ?? 0;
+        return helpers.arrayElement([
+          text.slice(0, Math.max(3, Math.floor(text.length / 2))),
+          text.slice(0, digit) + helpers.arrayElement(['O', 'l', 'I', 'S']) + text.slice(digit + 1),
+          text + string.numeric({ length: number.int({ min: 4, max: 6 }) }),
+        ]);
+      }
+      case DefectType.WRONG_TYPE:
+        return /^-?\d+(\.\d+)?$/.test(text) ? Number(text) : number.int({ min: 0, max: 99999 });
+      case DefectType.TRAILING_WHITESPACE:
+        return text + helpers.arrayElement(TRAILING_WHITESPACE);
+      case DefectType.MIXED_ENCODING: {
+        // eslint-disable-next-line no-control-regex
+        if (/[^\x00-\x7f]/.test(text)) {
+          return Buffer.from(text, 'utf8').toString('latin1');
+        }
+        const position = number.int({ min: 0, max: text.length });
+        return text.slice(0, position) + helpers.arrayElement(MOJIBAKE) + text.slice(position);
+      }
+      default:
+        return value;
+    }
+  }
+
+  /** Swaps, drops, doubles or replaces one letter of a text. */
+  private typo(text: string): string {
+    const letters = [...text.matchAll(/\p{L}/gu)].map((match) => match.index ?? 0);
+    const at = this.faker.helpers.arrayElement(letters);
+    const char = text.charAt(at);
+
+    switch (this.faker.number.int({ min: 0, max: 3 })) {
+      case 0: {
+        const next = text.charAt(at + 1);
+        if (next && next !== char) {
+          return text.slice(0, at) + next + char + text.slice(at + 2);
+        }
+        break;
+      }
+      case 1:
+        return text.slice(0, at) + char + text.slice(at);
+      case 2: {
+        const lower = char.toLowerCase();
+        const pool = 'abcdefghijklmnopqrstuvwxyz'.replace(lower, '');
+        const letter = this.faker.string.fromCharacters(pool);
+        return (
+          text.slice(0, at) + (char === lower ? letter : letter.toUpperCase()) + text.slice(at + 1)
+        );
+      }
+    }
+    return text.slice(0, at) + text.slice(at + 1);
+  }
+
+  /** Picks an ID of the same kind as the original that the referenced entity lacks. */
+  private danglingReference(original: unknown, referenced?: ReferencedIds): unknown {
+    if (!referenced) {
+      return original;
+    }
+    const dangle = (id: unknown): string | number => {
+      if (typeof id === 'number') {
+        return referenced.maxNumericId + this.faker.number.int({ min: 1, max: 1000 });
+      }
+      // Keep everything up to the last separator (or the last 4 characters) and redraw the rest
+      const text = String(id);
+      const separator = Math.max(text.lastIndexOf('_'), text.lastIndexOf('-'));
+      const head = separator >= 0 ? text.slice(0, separator + 1) : text.slice(0, -4);
+      const length = Math.max(4, text.length - head.length);
+      for (let attempt = 0; attempt < MAX_UNIQUE_ATTEMPTS; attempt++) {
+        const candidate = head + this.faker.string.alphanumeric(length);
+        if (!referenced.ids.has(candidate)) {
+          return candidate;
+        }
+      }
+      return `${text}_missing`;
+    };
+
+    if (Array.isArray(original)) {
+      const links: unknown[] = [...(original as unknown[])];
+      const position = this.faker.number.int({ min: 0, max: links.length - 1 });
+      const { key } = referenced;
+      links[position] = key
+        ? {
+            ...(links[position] as object),
+            [key]: dangle((links[position] as Record<string, unknown>)[key]),
+          }
+        : dangle(links[position]);
+      return links;
+    }
+    return dangle(original);
+  }
+}
+
+/**
+ * Builds the MCP resource holding a chaos manifest.
+ *
+ * @param {string} kind - Resource kind of the output, e.g. `persons` or `datasets`
+ * @param {ChaosManifest} manifest - Manifest of the injected defects
+ * @returns {Object} MCP resource content item
+ */
+export function chaosManifestContent(
+  kind: string,
+  manifest: ChaosManifest
+): { type: 'resource'; resource: { uri: string; mimeType: string; text: string } } {
+  return {
+    type: 'resource',
+    resource: {
+      uri: `faker://${kind}/chaos-manifest`,
+      mimeType: OUTPUT_MIME_TYPES[OutputFormat.JSON],
+      text: JSON.stringify(manifest, null, 2),
+    },
+  };
+}
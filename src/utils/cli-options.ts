@@ -0,0 +1,125 @@
+import { resolve } from 'node:path';
+import { z } from 'zod';
+import {
+  DEFAULT_HTTP_HOST,
+  DEFAULT_HTTP_PORT,
+  TransportType,
+  type ServerStartOptions,
+} from '../server.js';
+
+/**
+ * Usage text printed for --help and invalid options.
+ *
+ * @constant
+ */
+export const CLI_USAGE = `Usage: faker-mcp-server [options]
+
+Options:
+  --transport <stdio|http>  Transport to serve MCP on (env FAKER_MCP_TRANSPORT, default stdio)
+  --host <host>             Interface the HTTP transport binds (env FAKER_MCP_HOST, default ${DEFAULT_HTTP_HOST})
+  --port <port>             Port of the HTTP transport (env FAKER_MCP_PORT, default ${DEFAULT_HTTP_PORT})
+  --auth-token <token>      Bearer token HTTP clients must send (env FAKER_MCP_AUTH_TOKEN);
+                            required unless the HTTP transport binds a loopback address
+  --output-dir <dir>        Directory outputPath files must be written under (env FAKER_MCP_OUTPUT_DIR)
+  --input-dir <dir>         Directory specPath and sourcePath files must be read from (env FAKER_MCP_INPUT_DIR)
+  -h, --help                Show this help`;
+
+/**
+ * Flags taking a value, mapped to the option they set
+ */
+const VALUE_FLAGS: Record<string, keyof ServerStartOptions> = {
+  '--transport': 'transport',
+  '--host': 'host',
+  '--port': 'port',
+  '--auth-token': 'authToken',
+  '--output-dir': 'outputDir',
+  '--input-dir': 'inputDir',
+};
+
+/**
+ * Zod schema for the start options read from the command line and environment
+ */
+export const CliOptionsSchema = z.object({
+  transport: z.nativeEnum(TransportType).default(TransportType.STDIO),
+  host: z.string().min(1).default(DEFAULT_HTTP_HOST),
+  port: z.coerce.number().int().min(0).max(65535).default(DEFAULT_HTTP_PORT),
+  authToken: z.string().min(1).optional(),
+  // Relative directories are taken from the working directory at startup
+  outputDir: z
+    .string()
+    .min(1)
+    .transform((dir) => resolve(dir))
+    .optional(),
+  inputDir: z
+    .string()
+    .min(1)
+    .transform((dir) => resolve(dir))
+    .optional(),
+  help: z.boolean().default(false),
+});
+
+/**
+ * Start options read from the command line and environment.
+ *
+ * @typedef {Object} CliOptions
+ */
+export type CliOptions = z.infer<typeof CliOptionsSchema>;
+
+/**
+ * Reads the start options from command line arguments and environment variables.
+ * Flags take precedence over the FAKER_MCP_* environment variables; both `--port 8080` and
+ * `--port=8080` are accepted.
+ *
+ * @param {string[]} argv - Command line arguments after the script path
+ * @param {NodeJS.ProcessEnv} [env={}] - Environment variables
+ * @returns {CliOptions} Validated start options
+ * @throws {Error} If a flag is unknown, lacks its value or a value is invalid
+ * @example
+ * ```typescript
+ * const options = parseCliOptions(process.argv.slice(2), process.env);
+ * await server.start(options);
+ * ```
+ */
+export function parseCliOptions(argv: string[], env: NodeJS.ProcessEnv = {}): CliOptions {
+  const raw: Record<string, unknown> = {
+    transport: env.FAKER_MCP_TRANSPORT || undefined,
+    host: env.FAKER_MCP_HOST || undefined,
+    port: env.FAKER_MCP_PORT || undefined,
+    authToken: env.FAKER_MCP_AUTH_TOKEN || undefined,
+    outputDir: env.FAKER_MCP_OUTPUT_DIR || undefined,
+    inputDir: env.FAKER_MCP_INPUT_DIR || undefined,
+  };
+
+  for (let index = 0; index < argv.length; index++) {
+    const arg = argv[index] as string;
+    if (arg === '--help' || arg === '-h') {
+      raw.help = true;
+      continue;
+    }
+
+    const [flag, inlineValue] = arg.includes('=')
+      ? [arg.slice(0, arg.indexOf('=')), arg.slice(arg.indexOf('=') + 1)]
+      : [arg, undefined];
+    const option = VALUE_FLAGS[flag];
+    if (!option) {
+      throw new Error(`Unknown option: ${flag}`);
+    }
+
+    const value = inlineValue ?? argv[++index];
+    if (value === undefined || (inlineValue === undefined && value.startsWith('--'))) {
+      throw new Error(`Option ${flag} requires a value`);
+    }
+    raw[option] = value;
+  }
+
+  try {
+    return CliOptionsSchema.parse(raw);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      throw new Error(
+        `Invalid options: ${error.errors.map((e) => `${e.path.join('.')}: ${e.message}`).join(', ')}`
+      );
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,88 @@
+import { ConstraintOperator, type FieldConstraint } from '../types/schema.js';
+import { ToolError, ToolErrorCode } from './tool-errors.js';
+import { MAX_UNIQUE_ATTEMPTS } from './unique-values.js';
+
+/**
+ * Error raised when a record cannot satisfy its constraints and unique keys within the retry budget.
+ *
+ * @class ConstraintUnsatisfiedError
+ * @extends ToolError
+ */
+export class ConstraintUnsatisfiedError extends ToolError {
+  /**
+   * @param {string} entityName - Entity whose record failed
+   * @param {string} rule - Constraint or unique key that could not be met, e.g. `endDate > startDate`
+   */
+  constructor(
+    readonly entityName: string,
+    readonly rule: string
+  ) {
+    super(
+      ToolErrorCode.CONSTRAINT_UNSATISFIED,
+      `Could not generate a record of '${entityName}' satisfying ${rule} after ` +
+        `${MAX_UNIQUE_ATTEMPTS} attempts; widen the patterns of the fields involved`
+    );
+    this.name = 'ConstraintUnsatisfiedError';
+  }
+}
+
+/**
+ * Formats a constraint for messages, e.g. `endDate > startDate`.
+ *
+ * @param {FieldConstraint} constraint - Constraint to format
+ * @returns {string} Readable form
+ */
+export function describeConstraint(constraint: FieldConstraint): string {
+  return `${constraint.field} ${constraint.operator} ${constraint.other}`;
+}
+
+/**
+ * Checks whether a record satisfies a constraint. Two numbers compare numerically, anything
+ * else compares as strings, which orders ISO 8601 dates chronologically. A constraint with a
+ * null or missing side holds.
+ *
+ * @param {Record<string, unknown>} record - Record to check
+ * @param {FieldConstraint} constraint - Constraint between two of its fields
+ * @returns {boolean} True if the constraint holds
+ * @example
+ * ```typescript
+ * satisfiesConstraint(
+ *   { startDate: '2024-01-05', endDate: '2024-02-01' },
+ *   { field: 'endDate', operator: ConstraintOperator.GREATER_THAN, other: 'startDate' }
+ * ); // true
+ * ```
+ */
+export function satisfiesConstraint(
+  record: Record<string, unknown>,
+  constraint: FieldConstraint
+): boolean {
+  const left = record[constraint.field];
+  const right = record[constraint.other];
+  if (left === null || left === undefined || right === null || right === undefined) {
+    return true;
+  }
+
+  const [a, b] =
+    typeof left === 'number' && typeof right === 'number'
+      ? [left, right]
+      : [left, right].map((value) =>
+          typeof value === 'object' ? JSON.stringify(value) : String(value)
+        );
+
+  switch (constraint.operator) {
+    case ConstraintOperator.LESS_THAN:
+      return a < b;
+    case ConstraintOperator.LESS_THAN_OR_EQUAL:
+      return a <= b;
+    case ConstraintOperator.GREATER_THAN:
+      return a > b;
+    case ConstraintOperator.GREATER_THAN_OR_EQUAL:
+      return a >= b;
+    case ConstraintOperator.NOT_EQUAL:
+      return a !== b;
+    default: {
+      const exhaustiveCheck: never = constraint.operator;
+      throw new Error(`Unknown constraint operator: ${String(exhaustiveCheck)}`);
+    }
+  }
+}
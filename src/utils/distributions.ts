@@ -0,0 +1,124 @@
+import type { Faker } from '@faker-js/faker';
+
+/**
+ * Computes Zipf weights for a number of ranked items.
+ * The item at rank k receives a weight proportional to 1 / k^s, so a few items
+ * dominate while the long tail stays light.
+ *
+ * @param {number} n - Number of items
+ * @param {number} [s=1] - Zipf exponent (higher values produce a stronger skew)
+ * @returns {number[]} Weights ordered by rank (rank 1 first)
+ * @example
+ * ```typescript
+ * zipfWeights(4); // [1, 0.5, 0.333..., 0.25]
+ * ```
+ */
+export function zipfWeights(n: number, s = 1): number[] {
+  return Array.from({ length: n }, (_, i) => 1 / Math.pow(i + 1, s));
+}
+
+/**
+ * Samples Pareto-distributed weights using the seeded Faker instance.
+ * A shape (alpha) of about 1.16 reproduces the classic 80/20 split.
+ *
+ * @param {number} n - Number of items
+ * @param {Faker} faker - Seeded Faker instance used as the random source
+ * @param {number} [alpha=1.16] - Pareto shape parameter (lower values produce a stronger skew)
+ * @returns {number[]} Sampled weights (all >= 1)
+ * @example
+ * ```typescript
+ * const weights = paretoWeights(100, faker);
+ * ```
+ */
+export function paretoWeights(n: number, faker: Faker, alpha = 1.16): number[] {
+  return Array.from({ length: n }, () => {
+    // Inverse transform sampling; 1 - U keeps the base in (0, 1]
+    const u = 1 - faker.number.float({ min: 0, max: 1 });
+    return 1 / Math.pow(Math.max(u, Number.EPSILON), 1 / alpha);
+  });
+}
+
+/**
+ * Distributes a number of items over weighted buckets, respecting per-bucket minimums
+ * and an optional per-bucket maximum. Every bucket first receives `min` items; the
+ * remainder is drawn one by one proportionally to the weights of buckets with capacity left.
+ *
+ * @param {number} total - Number of items to distribute
+ * @param {number[]} weights - Relative weight of each bucket
+ * @param {Faker} faker - Seeded Faker instance used as the random source
+ * @param {number} [min=0] - Minimum items per bucket
+ * @param {number} [max=Infinity] - Maximum items per bucket
+ * @returns {number[]} Number of items assigned to each bucket
+ * @throws {Error} If the constraints cannot be satisfied for the given total
+ * @example
+ * ```typescript
+ * distributeCounts(10, [1, 1, 1], faker, 1, 5); // e.g. [4, 3, 3]
+ * ```
+ */
+export function distributeCounts(
+  total: number,
+  weights: number[],
+  faker: Faker,
+  min = 0,
+  max = Infinity
+): number[] {
+  const buckets = weights.length;
+
+  if (buckets * min > total) {
+    throw new Error(
+      `Cannot give each of ${buckets} buckets at least ${min} items with only ${total} items`
+    );
+  }
+  if (buckets * max < total) {
+    throw new Error(
+      `Cannot place ${total} items into ${buckets} buckets holding at most ${max} items each`
+    );
+  }
+
+  const counts: number[] = new Array<number>(buckets).fill(min);
+  let remaining = total - buckets * min;
+
+  // Cumulative weights over buckets that still have capacity; rebuilt when one fills up
+  let available: number[] = [];
+  let cumulative: number[] = [];
+  const rebuild = () => {
+    available = [];
+    cumulative = [];
+    let sum = 0;
+    for (let i = 0; i < buckets; i++) {
+      if ((counts[i] ?? 0) < max) {
+        sum += weights[i] ?? 0;
+        available.push(i);
+        cumulative.push(sum);
+      }
+    }
+  };
+  rebuild();
+
+  while (remaining > 0) {
+    const totalWeight = cumulative[cumulative.length - 1] ?? 0;
+    const target = faker.number.float({ min: 0, max: totalWeight });
+
+    // Binary search for the first cumulative weight above the target
+    let low = 0;
+    let high = cumulative.length - 1;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if ((cumulative[mid] ?? 0) > target) {
+        high = mid;
+      } else {
+        low = mid + 1;
+      }
+    }
+
+    const bucket = available[low] ?? 0;
+    counts[bucket] = (counts[bucket] ?? 0) + 1;
+    remaining--;
+
+    if ((counts[bucket] ?? 0) >= max) {
+      rebuild();
+    }
+  }
+
+  return counts;
+}
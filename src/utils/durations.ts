@@ -0,0 +1,39 @@
+/**
+ * Milliseconds in each duration unit
+ */
+const UNIT_MILLISECONDS: Record<string, number> = {
+  ms: 1,
+  s: 1_000,
+  m: 60_000,
+  h: 3_600_000,
+  d: 86_400_000,
+  w: 604_800_000,
+};
+
+/**
+ * Durations written as a positive whole number and a unit: `500ms`, `30s`, `5m`, `1h`,
+ * `1d` or `1w`.
+ *
+ * @constant
+ */
+export const DURATION_PATTERN = /^([1-9]\d*)(ms|s|m|h|d|w)$/;
+
+/**
+ * Converts a duration such as `15m` to milliseconds.
+ *
+ * @param {string} duration - Duration matching DURATION_PATTERN
+ * @returns {number | undefined} Length in milliseconds, or undefined if the duration is malformed
+ * @example
+ * ```typescript
+ * parseDuration('15m'); // 900000
+ * parseDuration('1.5h'); // undefined
+ * ```
+ */
+export function parseDuration(duration: string): number | undefined {
+  const match = DURATION_PATTERN.exec(duration);
+  if (!match) {
+    return undefined;
+  }
+  const [, amount, unit] = match;
+  return Number(amount) * (UNIT_MILLISECONDS[unit as string] ?? 0);
+}
@@ -0,0 +1,129 @@
+import { realpath } from 'node:fs/promises';
+import { basename, dirname, isAbsolute, join, relative, sep } from 'node:path';
+import type { ToolContext } from '../server.js';
+import { ToolError, ToolErrorCode, toJsonPath } from './tool-errors.js';
+
+/**
+ * Where the tool calls of a session may read and write files on the server.
+ *
+ * @interface FileAccessPolicy
+ * @example
+ * ```typescript
+ * const policy: FileAccessPolicy = { allowed: true, outputDir: '/srv/faker/out' };
+ * ```
+ */
+export interface FileAccessPolicy {
+  /** Whether calls may name server files at all (false for HTTP sessions) */
+  allowed: boolean;
+  /** Directory `outputPath` files must be written under (anywhere when omitted) */
+  outputDir?: string;
+  /** Directory `specPath` and `sourcePath` files must be read from (anywhere when omitted) */
+  inputDir?: string;
+}
+
+/**
+ * Resolves symbolic links in a path whose last segments may not exist yet, such as a file
+ * about to be created, by resolving its closest existing ancestor.
+ *
+ * @param {string} path - Absolute path
+ * @returns {Promise<string>} Canonical path
+ */
+async function canonicalPath(path: string): Promise<string> {
+  try {
+    return await realpath(path);
+  } catch {
+    const parent = dirname(path);
+    return parent === path ? path : join(await canonicalPath(parent), basename(path));
+  }
+}
+
+/**
+ * Checks that a file named in the tool arguments may be used by the call and returns the path
+ * to use. Calls without a policy (e.g. handlers invoked directly) are not confined.
+ *
+ * @param {string} path - Absolute path from the tool arguments
+ * @param {string} argument - Name of the argument, e.g. `outputPath`
+ * @param {string | undefined} dir - Directory the file must be in, if any
+ * @param {FileAccessPolicy} [policy] - Policy of the session
+ * @returns {Promise<string>} The path, with links resolved when confined to a directory
+ * @throws {ToolError} If the session may not use server files or the path leaves the directory
+ */
+async function checkPath(
+  path: string,
+  argument: string,
+  dir: string | undefined,
+  policy?: FileAccessPolicy
+): Promise<string> {
+  if (!policy) {
+    return path;
+  }
+  if (!policy.allowed) {
+    throw new ToolError(
+      ToolErrorCode.FILE_ACCESS_DENIED,
+      `${argument} is not available over HTTP: the server's files are not exposed to remote clients`,
+      [
+        {
+          code: 'file_access_denied',
+          path: toJsonPath([argument]),
+          message: `${argument} is not available over HTTP`,
+          value: path,
+          suggestion: `Remove ${argument}; pass the content inline or run the server over stdio`,
+        },
+      ]
+    );
+  }
+  if (dir === undefined) {
+    return path;
+  }
+
+  // Links are resolved first, so neither `..` nor a symbolic link can lead outside
+  const [root, target] = await Promise.all([canonicalPath(dir), canonicalPath(path)]);
+  const inside = relative(root, target);
+  if (inside === '..' || inside.startsWith(`..${sep}`) || isAbsolute(inside)) {
+    throw new ToolError(ToolErrorCode.FILE_ACCESS_DENIED, `${argument} must be inside ${dir}`, [
+      {
+        code: 'file_access_denied',
+        path: toJsonPath([argument]),
+        message: `${argument} is outside the allowed directory`,
+        value: path,
+        expected: `a path inside ${dir}`,
+      },
+    ]);
+  }
+  return target;
+}
+
+/**
+ * Checks that a call may write the file named by its `outputPath` argument.
+ *
+ * @async
+ * @param {string} path - Destination file
+ * @param {ToolContext} [context] - Call context carrying the session's file access policy
+ * @returns {Promise<string>} Path to write
+ * @throws {ToolError} With code `file_access_denied` over HTTP or outside the output directory
+ * @example
+ * ```typescript
+ * const outputPath = await checkOutputPath(params.outputPath, context);
+ * ```
+ */
+export function checkOutputPath(path: string, context?: ToolContext): Promise<string> {
+  return checkPath(path, 'outputPath', context?.fileAccess?.outputDir, context?.fileAccess);
+}
+
+/**
+ * Checks that a call may read the file or directory named by an input argument.
+ *
+ * @async
+ * @param {string} path - File or directory to read
+ * @param {string} argument - Name of the argument, `specPath` or `sourcePath`
+ * @param {ToolContext} [context] - Call context carrying the session's file access policy
+ * @returns {Promise<string>} Path to read
+ * @throws {ToolError} With code `file_access_denied` over HTTP or outside the input directory
+ */
+export function checkInputPath(
+  path: string,
+  argument: string,
+  context?: ToolContext
+): Promise<string> {
+  return checkPath(path, argument, context?.fileAccess?.inputDir, context?.fileAccess);
+}
@@ -0,0 +1,172 @@
+import { once } from 'node:events';
+import { createWriteStream } from 'node:fs';
+import { yieldBetweenBatches } from '../generators/base-generator.js';
+import { OutputFormat } from '../types/schema.js';
+import {
+  flattenRecord,
+  toDelimitedHeader,
+  toDelimitedRow,
+  type RecordOutputFormat,
+} from './tabular-export.js';
+import { formatLogLine, type LogOutputFormat } from './log-formats.js';
+import type { LogData } from '../types/responses.js';
+
+/**
+ * Maximum `count` for responses held in memory and returned inline.
+ *
+ * @constant
+ */
+export const MAX_INLINE_COUNT = 10000;
+
+/**
+ * Maximum `count` when records are streamed to a file with `outputPath`.
+ *
+ * @constant
+ */
+export const MAX_STREAMED_COUNT = 10_000_000;
+
+/**
+ * Options for writing records to a file.
+ *
+ * @interface FileSinkOptions
+ * @example
+ * ```typescript
+ * const options: FileSinkOptions = {
+ *   format: OutputFormat.NDJSON,
+ *   onProgress: (written) => console.error(`${written} records written`)
+ * };
+ * ```
+ */
+export interface FileSinkOptions {
+  /** File format (log line formats apply to log records only) */
+  format: RecordOutputFormat | LogOutputFormat;
+  /** Number of records buffered per write (defaults to 1000) */
+  chunkSize?: number;
+  /** Called after each chunk with the number of records written so far */
+  onProgress?: (written: number) => void | Promise<void>;
+  /** Stops writing at the next chunk boundary once aborted; the partial file is kept */
+  signal?: AbortSignal;
+  /** CSV/TSV columns, for records that may lack fields (defaults to the first record's columns) */
+  columns?: string[];
+}
+
+/**
+ * Summary of a completed file write.
+ *
+ * @interface FileSinkResult
+ */
+export interface FileSinkResult {
+  /** Path of the written file */
+  path: string;
+  /** File format */
+  format: RecordOutputFormat | LogOutputFormat;
+  /** Number of records written */
+  records: number;
+  /** File size in bytes */
+  bytes: number;
+}
+
+/**
+ * Serializes records into the lines of a file, one chunk of text per record.
+ * Unless given, CSV/TSV columns are taken from the first record, which matches the
+ * in-memory output for generators that produce the same shape for every record.
+ */
+function createSerializer(format: RecordOutputFormat | LogOutputFormat, fixedColumns?: string[]) {
+  let columns = fixedColumns;
+
+  return {
+    record(record: object, index: number): string {
+      switch (format) {
+        case OutputFormat.JSON:
+          return `${index === 0 ? '[\n' : ',\n'}${JSON.stringify(record)}`;
+        case OutputFormat.NDJSON:
+          return `${JSON.stringify(record)}\n`;
+        case OutputFormat.COMBINED:
+        case OutputFormat.SYSLOG:
+          return `${formatLogLine(record as LogData, format)}\n`;
+        default: {
+          const row = flattenRecord(record as Record<string, unknown>);
+          columns ??= Object.keys(row);
+          const header = index === 0 ? `${toDelimitedHeader(columns, format)}\n` : '';
+          return `${header}${toDelimitedRow(row, columns, format)}\n`;
+        }
+      }
+    },
+    end(written: number): string {
+      return format === OutputFormat.JSON ? (written === 0 ? '[]\n' : '\n]\n') : '';
+    },
+  };
+}
+
+/**
+ * Writes records to a file incrementally, so memory stays bounded regardless of the count.
+ * Records are pulled lazily from the iterable, buffered in chunks and written with
+ * backpressure; `onProgress` is awaited after every chunk, followed by a yield to the event
+ * loop so a cancellation can be observed.
+ *
+ * @async
+ * @param {Iterable<object>} records - Records to write (typically a generator's `stream()`)
+ * @param {string} filePath - Destination file (created or truncated)
+ * @param {FileSinkOptions} options - Format, chunk size, progress callback and cancellation signal
+ * @returns {Promise<FileSinkResult>} Summary of the written file
+ * @throws {Error} If the file cannot be opened or written (e.g. ENOENT for a missing directory),
+ * or if the write is cancelled
+ * @example
+ * ```typescript
+ * const result = await writeRecordsToFile(generator.stream(1_000_000), '/tmp/persons.ndjson', {
+ *   format: OutputFormat.NDJSON
+ * });
+ * console.error(`Wrote ${result.records} records (${result.bytes} bytes)`);
+ * ```
+ */
+export async function writeRecordsToFile(
+  records: Iterable<object>,
+  filePath: string,
+  options: FileSinkOptions
+): Promise<FileSinkResult> {
+  const chunkSize = options.chunkSize ?? 1000;
+  const serializer = createSerializer(options.format, options.columns);
+  const stream = createWriteStream(filePath, { encoding: 'utf8' });
+
+  let written = 0;
+  let bytes = 0;
+  let chunk = '';
+
+  const flush = async () => {
+    bytes += Buffer.byteLength(chunk);
+    if (!stream.write(chunk)) {
+      await once(stream, 'drain');
+    }
+    chunk = '';
+  };
+
+  try {
+    await once(stream, 'open');
+
+    for (const record of records) {
+      chunk += serializer.record(record, written);
+      written++;
+
+      if (written % chunkSize === 0) {
+        await flush();
+        await options.onProgress?.(written);
+        await yieldBetweenBatches(options.signal);
+      }
+    }
+
+    chunk += serializer.end(written);
+    await flush();
+    if (written % chunkSize !== 0) {
+      await options.onProgress?.(written);
+    }
+
+    stream.end();
+    await once(stream, 'finish');
+  } catch (error) {
+    // Release the file handle; the partial file is left for inspection
+    stream.destroy();
+    throw error;
+  }
+
+  return { path: filePath, format: options.format, records: written, bytes };
+}
@@ -0,0 +1,97 @@
+/**
+ * Computes the remainder of a numeric string modulo 97, digit by digit so that strings longer
+ * than a safe integer still work.
+ */
+function mod97(digits: string): number {
+  let remainder = 0;
+  for (const digit of digits) {
+    remainder = (remainder * 10 + Number(digit)) % 97;
+  }
+  return remainder;
+}
+
+/**
+ * Rewrites the letters of an account identifier as numbers (A = 10, ..., Z = 35)
+ */
+function lettersToDigits(text: string): string {
+  return text.toUpperCase().replace(/[A-Z]/g, (letter) => String(letter.charCodeAt(0) - 55));
+}
+
+/**
+ * Computes the two ISO 13616 check digits of an IBAN from its country and BBAN
+ * (MOD 97-10: the BBAN followed by the country code and `00`, with letters as numbers,
+ * leaves a remainder that the check digits bring to 1).
+ *
+ * @param {string} country - ISO 3166-1 alpha-2 country code
+ * @param {string} bban - Basic bank account number of the country's format
+ * @returns {string} Two check digits
+ * @example
+ * ```typescript
+ * ibanCheckDigits('DE', '370400440532013000'); // '89', giving DE89370400440532013000
+ * ```
+ */
+export function ibanCheckDigits(country: string, bban: string): string {
+  const remainder = mod97(lettersToDigits(`${bban}${country}00`));
+  return String(98 - remainder).padStart(2, '0');
+}
+
+/**
+ * Checks whether an IBAN is well formed and its check digits match.
+ *
+ * @param {string} iban - IBAN without spaces
+ * @returns {boolean} True if the MOD 97-10 check passes
+ * @example
+ * ```typescript
+ * isValidIban('GB82WEST12345698765432'); // true
+ * isValidIban('GB83WEST12345698765432'); // false
+ * ```
+ */
+export function isValidIban(iban: string): boolean {
+  if (!/^[A-Z]{2}\d{2}[A-Z0-9]{11,30}$/.test(iban)) {
+    return false;
+  }
+  return mod97(lettersToDigits(`${iban.slice(4)}${iban.slice(0, 4)}`)) === 1;
+}
+
+/**
+ * Computes the Luhn (mod 10) check digit appended to card numbers: from the right,
+ * every other digit of the payload is doubled, starting with the rightmost one.
+ *
+ * @param {string} payload - Card number without its check digit
+ * @returns {number} Check digit (0-9)
+ * @example
+ * ```typescript
+ * luhnCheckDigit('411111111111111'); // 1, giving 4111111111111111
+ * ```
+ */
+export function luhnCheckDigit(payload: string): number {
+  let sum = 0;
+  for (let position = 0; position < payload.length; position++) {
+    let digit = Number(payload.charAt(payload.length - 1 - position));
+    if (position % 2 === 0) {
+      digit *= 2;
+      if (digit > 9) {
+        digit -= 9;
+      }
+    }
+    sum += digit;
+  }
+  return (10 - (sum % 10)) % 10;
+}
+
+/**
+ * Checks whether a card number passes the Luhn check.
+ *
+ * @param {string} number - Card number digits
+ * @returns {boolean} True if the check digit matches
+ * @example
+ * ```typescript
+ * isValidLuhn('4111111111111111'); // true
+ * ```
+ */
+export function isValidLuhn(number: string): boolean {
+  if (!/^\d{12,19}$/.test(number)) {
+    return false;
+  }
+  return luhnCheckDigit(number.slice(0, -1)) === Number(number.slice(-1));
+}
@@ -0,0 +1,162 @@
+import RandExp from 'randexp';
+import { z } from 'zod';
+import type { Faker } from '@faker-js/faker';
+import { IdStrategyType, type IdStrategy } from '../types/schema.js';
+import { UniqueValueTracker } from './unique-values.js';
+
+/**
+ * Produces the ID of the record at a 0-based index.
+ *
+ * @typedef {Function} IdFactory
+ */
+export type IdFactory = (index: number) => string | number;
+
+/**
+ * Alphabet of ULIDs (Crockford base32: no I, L, O or U)
+ */
+const CROCKFORD_BASE32 = '0123456789ABCDEFGHJKMNPQRSTVWXYZ';
+
+/**
+ * Default number of random characters of nanoid and prefixed IDs
+ */
+const DEFAULT_NANOID_LENGTH = 21;
+const DEFAULT_PREFIXED_LENGTH = 16;
+
+/**
+ * Zod validation schema for an ID strategy: a strategy name, or an object with its options.
+ * Random IDs need at least 10 characters, which keeps collisions negligible without
+ * tracking every generated ID.
+ *
+ * @constant
+ * @type {z.ZodUnion}
+ */
+export const IdStrategySchema = z
+  .union([
+    z.nativeEnum(IdStrategyType).transform((type): IdStrategy => ({ type })),
+    z
+      .object({
+        type: z.nativeEnum(IdStrategyType),
+        start: z.number().int().min(0).optional().describe('Sequence: first ID (defaults to 1)'),
+        prefix: z
+          .string()
+          .min(1)
+          .optional()
+          .describe('Prefixed: prefix of every ID (defaults to the record kind, e.g. "person_")'),
+        length: z
+          .number()
+          .int()
+          .min(10)
+          .max(64)
+          .optional()
+          .describe('Nanoid and prefixed: number of random characters (defaults to 21 and 16)'),
+        pattern: z.string().min(1).optional().describe('Pattern: regex the IDs match'),
+      })
+      .refine((strategy) => strategy.type !== IdStrategyType.PATTERN || strategy.pattern, {
+        message: 'pattern is required for the pattern strategy',
+        path: ['pattern'],
+      }),
+  ])
+  .describe(
+    'How record IDs are generated: uuid, uuidv7, ulid, nanoid, sequence, prefixed or pattern, or an object such as { "type": "sequence", "start": 1000 }'
+  );
+
+/**
+ * Encodes a millisecond timestamp as the 10-character time part of a ULID.
+ *
+ * @param {number} time - Milliseconds since the epoch
+ * @returns {string} Crockford base32 digits, most significant first
+ */
+function encodeUlidTime(time: number): string {
+  let encoded = '';
+  for (let digit = 0; digit < 10; digit++) {
+    encoded = CROCKFORD_BASE32.charAt(time % 32) + encoded;
+    time = Math.floor(time / 32);
+  }
+  return encoded;
+}
+
+/**
+ * Formats a UUID v7 from a millisecond timestamp and 19 random hex digits.
+ *
+ * @param {number} time - Milliseconds since the epoch
+ * @param {string} random - Random hex digits
+ * @returns {string} UUID with version 7 and the RFC 9562 variant
+ */
+function formatUuidV7(time: number, random: string): string {
+  const timestamp = time.toString(16).padStart(12, '0');
+  const variant = ((parseInt(random.charAt(3), 16) & 0x3) | 0x8).toString(16);
+  return (
+    `${timestamp.slice(0, 8)}-${timestamp.slice(8)}-7${random.slice(0, 3)}-` +
+    `${variant}${random.slice(4, 7)}-${random.slice(7)}`
+  );
+}
+
+/**
+ * Creates the ID factory of a strategy. Random strategies draw from the given seeded Faker
+ * instance, so seeded runs reproduce their IDs. Time-ordered IDs (uuidv7, ulid) take the
+ * reference date plus the record index as their timestamp, so they sort in generation order.
+ * Pattern IDs are redrawn on collision.
+ *
+ * @param {IdStrategy | undefined} strategy - Strategy, or undefined for the default IDs
+ * @param {Faker} faker - Seeded Faker instance to draw random IDs from
+ * @param {Object} defaults - Defaults of the record kind
+ * @param {Date} defaults.referenceDate - Date anchoring time-ordered IDs
+ * @param {string} defaults.prefix - Prefix of prefixed IDs without an explicit one
+ * @param {IdFactory} defaults.fallback - Factory of the default IDs
+ * @returns {IdFactory} Factory producing one ID per record index
+ * @throws {UniqueValuesExhaustedError} From the factory, if a pattern runs out of distinct IDs
+ * @example
+ * ```typescript
+ * const nextId = createIdFactory({ type: IdStrategyType.SEQUENCE, start: 100 }, faker, {
+ *   referenceDate,
+ *   prefix: 'person_',
+ *   fallback: (index) => `person_${index}`,
+ * });
+ * nextId(0); // 100
+ * ```
+ */
+export function createIdFactory(
+  strategy: IdStrategy | undefined,
+  faker: Faker,
+  defaults: { referenceDate: Date; prefix: string; fallback: IdFactory }
+): IdFactory {
+  if (!strategy) {
+    return defaults.fallback;
+  }
+  const epoch = Math.max(0, defaults.referenceDate.getTime());
+
+  switch (strategy.type) {
+    case IdStrategyType.UUID:
+      return () => faker.string.uuid();
+    case IdStrategyType.UUIDV7:
+      return (index) =>
+        formatUuidV7(
+          epoch + index,
+          faker.string.hexadecimal({ length: 19, casing: 'lower', prefix: '' })
+        );
+    case IdStrategyType.ULID:
+      return (index) =>
+        encodeUlidTime(epoch + index) + faker.string.fromCharacters(CROCKFORD_BASE32, 16);
+    case IdStrategyType.NANOID:
+      return () => faker.string.nanoid(strategy.length ?? DEFAULT_NANOID_LENGTH);
+    case IdStrategyType.SEQUENCE: {
+      const start = strategy.start ?? 1;
+      return (index) => start + index;
+    }
+    case IdStrategyType.PREFIXED: {
+      const prefix = strategy.prefix ?? defaults.prefix;
+      return () => prefix + faker.string.alphanumeric(strategy.length ?? DEFAULT_PREFIXED_LENGTH);
+    }
+    case IdStrategyType.PATTERN: {
+      const randexp = new RandExp(strategy.pattern ?? '');
+      // Use faker's random generator so pattern IDs follow the seed
+      randexp.randInt = (min: number, max: number) => faker.number.int({ min, max });
+      const unique = new UniqueValueTracker(['id']);
+      return () => unique.next('id', () => randexp.gen());
+    }
+    default: {
+      const exhaustiveCheck: never = strategy.type;
+      throw new Error(`Unknown ID strategy: ${String(exhaustiveCheck)}`);
+    }
+  }
+}
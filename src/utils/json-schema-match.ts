@@ -0,0 +1,219 @@
+import type { JsonSchema } from '../types/schema.js';
+
+/**
+ * Patterns checking the string formats JsonSchemaGenerator produces; other formats are
+ * treated as annotations, as JSON Schema 2019-09 and later do by default.
+ */
+const FORMAT_PATTERNS: Record<string, RegExp> = {
+  email: /^[^@\s]+@[^@\s]+\.[^@\s]+$/,
+  uri: /^[a-z][a-z\d+.-]*:\S*$/i,
+  url: /^[a-z][a-z\d+.-]*:\S*$/i,
+  'date-time': /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})$/i,
+  date: /^\d{4}-\d{2}-\d{2}$/,
+  time: /^\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})?$/i,
+  uuid: /^[\da-f]{8}-[\da-f]{4}-[\da-f]{4}-[\da-f]{4}-[\da-f]{12}$/i,
+  hostname:
+    /^(?=.{1,253}$)[a-z\d](?:[a-z\d-]{0,61}[a-z\d])?(?:\.[a-z\d](?:[a-z\d-]{0,61}[a-z\d])?)*$/i,
+  ipv4: /^((25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)\.){3}(25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)$/,
+  ipv6: /^[\da-f:]*:[\da-f:.]*$/i,
+};
+
+/**
+ * Resolves a local JSON pointer such as `#/$defs/Address` against the root document.
+ *
+ * @param {string} ref - Reference starting with `#`
+ * @param {object} root - Document the reference points into
+ * @returns {JsonSchema} Referenced schema
+ * @throws {Error} If the reference is remote or points at nothing
+ * @example
+ * ```typescript
+ * resolveLocalRef('#/components/schemas/Pet', openApiDocument);
+ * ```
+ */
+export function resolveLocalRef(ref: string, root: object): JsonSchema {
+  if (!ref.startsWith('#')) {
+    throw new Error(`Unsupported $ref: ${ref}. Only local references (#/...) are supported`);
+  }
+
+  let target: unknown = root;
+  for (const token of ref.slice(1).split('/').filter(Boolean)) {
+    const key = decodeURIComponent(token).replace(/~1/g, '/').replace(/~0/g, '~');
+    target = (target as Record<string, unknown> | undefined)?.[key];
+  }
+
+  if (target === null || typeof target !== 'object') {
+    throw new Error(`Unresolvable $ref: ${ref}`);
+  }
+  return target as JsonSchema;
+}
+
+/**
+ * Tells whether a value has a JSON Schema type. Integers are numbers without a fraction.
+ */
+function hasType(value: unknown, type: string): boolean {
+  switch (type) {
+    case 'null':
+      return value === null;
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return typeof value === 'object' && value !== null && !Array.isArray(value);
+    case 'integer':
+      return Number.isInteger(value);
+    default:
+      return typeof value === type;
+  }
+}
+
+/**
+ * Checks a number against bounds (both draft styles of exclusive bounds) and multipleOf.
+ */
+function matchesNumber(value: number, schema: JsonSchema): boolean {
+  const { minimum, maximum, exclusiveMinimum, exclusiveMaximum, multipleOf } = schema;
+  if (minimum !== undefined && (exclusiveMinimum === true ? value <= minimum : value < minimum)) {
+    return false;
+  }
+  if (maximum !== undefined && (exclusiveMaximum === true ? value >= maximum : value > maximum)) {
+    return false;
+  }
+  if (typeof exclusiveMinimum === 'number' && value <= exclusiveMinimum) {
+    return false;
+  }
+  if (typeof exclusiveMaximum === 'number' && value >= exclusiveMaximum) {
+    return false;
+  }
+  if (multipleOf !== undefined) {
+    const quotient = value / multipleOf;
+    return Math.abs(quotient - Math.round(quotient)) < 1e-9;
+  }
+  return true;
+}
+
+/**
+ * Checks a string against its length bounds (in code points), pattern and format.
+ */
+function matchesString(value: string, schema: JsonSchema): boolean {
+  const length = [...value].length;
+  if (length < (schema.minLength ?? 0) || length > (schema.maxLength ?? Infinity)) {
+    return false;
+  }
+  if (schema.pattern !== undefined && !new RegExp(schema.pattern).test(value)) {
+    return false;
+  }
+  const format = schema.format !== undefined ? FORMAT_PATTERNS[schema.format] : undefined;
+  return format === undefined || format.test(value);
+}
+
+/**
+ * Tells whether a value conforms to a schema, for the keywords JsonSchemaGenerator supports:
+ * type (and OpenAPI `nullable`), enum, const, numeric and length bounds, pattern, the
+ * generated formats, object properties, required and additionalProperties, array items,
+ * tuples, item counts and uniqueness, local $ref, allOf, anyOf and oneOf.
+ * Used to tell which `oneOf` schemas a generated value matches.
+ *
+ * @param {unknown} value - Value to check
+ * @param {JsonSchema} schema - Schema to check against
+ * @param {object} root - Document that `$ref`s are resolved against
+ * @returns {boolean} True if the value conforms
+ * @throws {Error} If a `$ref` cannot be resolved
+ * @example
+ * ```typescript
+ * matchesSchema(3, { type: 'integer', minimum: 1 }, schema); // true
+ * matchesSchema(3, { oneOf: [{ type: 'integer' }, { type: 'number' }] }, schema); // false
+ * ```
+ */
+export function matchesSchema(value: unknown, schema: JsonSchema, root: object): boolean {
+  if (
+    schema.$ref !== undefined &&
+    !matchesSchema(value, resolveLocalRef(schema.$ref, root), root)
+  ) {
+    return false;
+  }
+  if (schema.allOf?.some((part) => !matchesSchema(value, part, root))) {
+    return false;
+  }
+  if (
+    schema.anyOf !== undefined &&
+    !schema.anyOf.some((part) => matchesSchema(value, part, root))
+  ) {
+    return false;
+  }
+  if (
+    schema.oneOf !== undefined &&
+    schema.oneOf.filter((part) => matchesSchema(value, part, root)).length !== 1
+  ) {
+    return false;
+  }
+
+  if (schema.const !== undefined && JSON.stringify(value) !== JSON.stringify(schema.const)) {
+    return false;
+  }
+  if (
+    schema.enum !== undefined &&
+    !schema.enum.some((allowed) => JSON.stringify(allowed) === JSON.stringify(value))
+  ) {
+    return false;
+  }
+
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    const nullable = schema.nullable === true && value === null;
+    if (!nullable && !types.some((type) => hasType(value, type))) {
+      return false;
+    }
+  }
+
+  if (typeof value === 'number') {
+    return matchesNumber(value, schema);
+  }
+  if (typeof value === 'string') {
+    return matchesString(value, schema);
+  }
+  if (Array.isArray(value)) {
+    return matchesArray(value, schema, root);
+  }
+  if (typeof value === 'object' && value !== null) {
+    return matchesObject(value as Record<string, unknown>, schema, root);
+  }
+  return true;
+}
+
+/**
+ * Checks an object against its properties, required and additionalProperties.
+ */
+function matchesObject(value: Record<string, unknown>, schema: JsonSchema, root: object): boolean {
+  if (schema.required?.some((name) => !(name in value))) {
+    return false;
+  }
+  return Object.entries(value).every(([name, property]) => {
+    const definition = schema.properties?.[name];
+    if (definition !== undefined) {
+      return matchesSchema(property, definition, root);
+    }
+    const additional = schema.additionalProperties;
+    return typeof additional === 'object'
+      ? matchesSchema(property, additional, root)
+      : additional !== false;
+  });
+}
+
+/**
+ * Checks an array against its item schemas, item counts and uniqueness.
+ */
+function matchesArray(value: unknown[], schema: JsonSchema, root: object): boolean {
+  if (value.length < (schema.minItems ?? 0) || value.length > (schema.maxItems ?? Infinity)) {
+    return false;
+  }
+  if (
+    schema.uniqueItems &&
+    new Set(value.map((item) => JSON.stringify(item))).size !== value.length
+  ) {
+    return false;
+  }
+  const tuple = schema.prefixItems ?? (Array.isArray(schema.items) ? schema.items : []);
+  const itemSchema = Array.isArray(schema.items) ? undefined : schema.items;
+  return value.every((item, index) => {
+    const definition = tuple[index] ?? itemSchema;
+    return definition === undefined || matchesSchema(item, definition, root);
+  });
+}
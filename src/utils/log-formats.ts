@@ -0,0 +1,175 @@
+import type { AccessLogData, LogData } from '../types/responses.js';
+import { LogLevel, LogType, OutputFormat } from '../types/schema.js';
+import { RECORD_OUTPUT_FORMATS } from './tabular-export.js';
+
+/**
+ * Output formats available to the generate-logs tool: the record formats plus log lines.
+ *
+ * @constant
+ */
+export const LOG_OUTPUT_FORMATS = [
+  ...RECORD_OUTPUT_FORMATS,
+  OutputFormat.COMBINED,
+  OutputFormat.SYSLOG,
+] as const;
+
+/**
+ * Output format accepted by the logs tool.
+ *
+ * @typedef {(typeof LOG_OUTPUT_FORMATS)[number]} LogOutputFormat
+ */
+export type LogOutputFormat = (typeof LOG_OUTPUT_FORMATS)[number];
+
+/**
+ * Formats that render one text line per log record.
+ *
+ * @typedef {OutputFormat.COMBINED | OutputFormat.SYSLOG} LogLineFormat
+ */
+export type LogLineFormat = OutputFormat.COMBINED | OutputFormat.SYSLOG;
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+/** Private enterprise number reserved for documentation (RFC 5612), used in SD-IDs */
+const ENTERPRISE_NUMBER = 32473;
+
+/**
+ * Syslog severity of each application log level
+ */
+const LEVEL_SEVERITIES: Record<LogLevel, number> = {
+  [LogLevel.DEBUG]: 7,
+  [LogLevel.INFO]: 6,
+  [LogLevel.WARN]: 4,
+  [LogLevel.ERROR]: 3,
+  [LogLevel.FATAL]: 2,
+};
+
+/**
+ * Renders a timestamp as `10/Oct/2000:13:55:36 +0000`; values that are not dates (e.g.
+ * after chaos injection) are written as they are.
+ */
+function toCommonLogTime(timestamp: unknown): string {
+  const date = new Date(String(timestamp));
+  if (Number.isNaN(date.getTime())) {
+    return String(timestamp);
+  }
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${pad(date.getUTCDate())}/${MONTHS[date.getUTCMonth()]}/${date.getUTCFullYear()}:${pad(date.getUTCHours())}:${pad(date.getUTCMinutes())}:${pad(date.getUTCSeconds())} +0000`;
+}
+
+/**
+ * Renders an RFC 5424 structured data element, escaping `"`, `\` and `]` in its values
+ */
+function toStructuredData(id: string, params: Record<string, unknown>): string {
+  const values = Object.entries(params)
+    .filter(([, value]) => value !== null && value !== undefined)
+    .map(([name, value]) => `${name}="${String(value).replace(/["\\\]]/g, '\\$&')}"`);
+  return `[${id}@${ENTERPRISE_NUMBER} ${values.join(' ')}]`;
+}
+
+/**
+ * Renders an access log record in the Apache/Nginx combined log format:
+ * `%h %l %u [%t] "%r" %>s %b "%{Referer}i" "%{User-agent}i"`.
+ *
+ * @param {AccessLogData} record - Access log record
+ * @returns {string} Log line without line terminator
+ * @example
+ * ```typescript
+ * formatCombinedLine(request);
+ * // '203.0.113.7 - - [31/Dec/2024:23:59:58 +0000] "GET / HTTP/1.1" 200 5230 "-" "curl/8.4.0"'
+ * ```
+ */
+export function formatCombinedLine(record: AccessLogData): string {
+  const field = (value: unknown) => (value === null || value === undefined ? '-' : String(value));
+  const bytes = record.bytes === 0 ? '-' : field(record.bytes);
+
+  return `${field(record.clientIp)} - ${field(record.user)} [${toCommonLogTime(record.timestamp)}] "${field(record.method)} ${field(record.path)} ${field(record.protocol)}" ${field(record.status)} ${bytes} "${field(record.referrer)}" "${field(record.userAgent)}"`;
+}
+
+/**
+ * Renders a log record as an RFC 5424 syslog line:
+ * `<PRI>1 TIMESTAMP HOSTNAME APP-NAME PROCID MSGID [SD] MSG`. Access logs are logged by
+ * `nginx` (facility local7) with the combined line as message, auth events by `auth`
+ * (facility authpriv) with the user and outcome as structured data, and application logs
+ * by their service (facility local0) with the trace context as structured data.
+ *
+ * @param {LogData} record - Log record of any type
+ * @returns {string} Log line without line terminator
+ * @example
+ * ```typescript
+ * formatSyslogLine(event);
+ * // '<84>1 2024-12-31T23:59:58.412Z auth-01 auth - login [auth@32473 user="jdoe" ...] login failure for jdoe from 198.51.100.4: invalid_password'
+ * ```
+ */
+export function formatSyslogLine(record: LogData): string {
+  const line = (facility: number, severity: number, parts: unknown[]) =>
+    `<${facility * 8 + severity}>1 ${parts.map((part) => String(part ?? '-')).join(' ')}`;
+
+  switch (record.type) {
+    case LogType.ACCESS: {
+      const severity = record.status >= 500 ? 3 : record.status >= 400 ? 4 : 6;
+      return line(23, severity, [
+        record.timestamp,
+        record.host,
+        'nginx',
+        '-',
+        'access',
+        '-',
+        formatCombinedLine(record),
+      ]);
+    }
+    case LogType.AUTH: {
+      const failed = record.outcome === 'failure';
+      const message = `${record.event} ${record.outcome} for ${record.user} from ${record.sourceIp}`;
+      return line(10, failed ? 4 : 6, [
+        record.timestamp,
+        record.host,
+        'auth',
+        '-',
+        record.event,
+        toStructuredData('auth', {
+          user: record.user,
+          srcIp: record.sourceIp,
+          method: record.authMethod,
+          outcome: record.outcome,
+          sessionId: record.sessionId,
+        }),
+        failed ? `${message}: ${record.reason}` : message,
+      ]);
+    }
+    default:
+      return line(16, LEVEL_SEVERITIES[record.level] ?? 6, [
+        record.timestamp,
+        record.host,
+        record.service,
+        record.pid,
+        '-',
+        toStructuredData('trace', { traceId: record.traceId, spanId: record.spanId }),
+        record.message,
+      ]);
+  }
+}
+
+/**
+ * Renders a log record as a line of the given format. The combined format is meant for
+ * access logs; records are not checked, so that chaos-corrupted records still render.
+ *
+ * @param {LogData} record - Log record
+ * @param {LogLineFormat} format - Line format
+ * @returns {string} Log line without line terminator
+ */
+export function formatLogLine(record: LogData, format: LogLineFormat): string {
+  return format === OutputFormat.SYSLOG
+    ? formatSyslogLine(record)
+    : formatCombinedLine(record as AccessLogData);
+}
+
+/**
+ * Renders log records as newline-terminated lines of the given format.
+ *
+ * @param {LogData[]} records - Log records
+ * @param {LogLineFormat} format - Line format
+ * @returns {string} The log text
+ */
+export function formatLogLines(records: LogData[], format: LogLineFormat): string {
+  return records.map((record) => `${formatLogLine(record, format)}\n`).join('');
+}
@@ -0,0 +1,62 @@
+import { BankCountry, SupportedLocale } from '../types/schema.js';
+
+/**
+ * Bank country of each locale (English maps to the United Kingdom, which uses IBANs)
+ *
+ * @constant
+ */
+export const LOCALE_COUNTRIES: Record<SupportedLocale, BankCountry> = {
+  [SupportedLocale.EN]: BankCountry.GB,
+  [SupportedLocale.FR]: BankCountry.FR,
+  [SupportedLocale.DE]: BankCountry.DE,
+  [SupportedLocale.ES]: BankCountry.ES,
+  [SupportedLocale.JA]: BankCountry.JP,
+};
+
+/**
+ * Currency of each bank country
+ *
+ * @constant
+ */
+export const COUNTRY_CURRENCIES: Record<BankCountry, string> = {
+  [BankCountry.GB]: 'GBP',
+  [BankCountry.DE]: 'EUR',
+  [BankCountry.FR]: 'EUR',
+  [BankCountry.ES]: 'EUR',
+  [BankCountry.NL]: 'EUR',
+  [BankCountry.JP]: 'JPY',
+};
+
+/**
+ * Default currency of each locale: the currency of its bank country, so products, orders,
+ * accounts and ledgers generated for one locale share a currency
+ *
+ * @constant
+ */
+export const LOCALE_CURRENCIES = Object.fromEntries(
+  Object.values(SupportedLocale).map((locale) => [
+    locale,
+    COUNTRY_CURRENCIES[LOCALE_COUNTRIES[locale]],
+  ])
+) as Record<SupportedLocale, string>;
+
+/**
+ * Currencies whose amounts have no minor unit
+ */
+const ZERO_DECIMAL_CURRENCIES = new Set(['JPY', 'KRW', 'VND', 'CLP', 'ISK']);
+
+/**
+ * Returns how many minor units (e.g. cents) make up one unit of a currency.
+ * Amounts computed in minor units stay exact integers, so totals add up to the cent.
+ *
+ * @param {string} currency - ISO 4217 currency code
+ * @returns {number} 1 for currencies without a minor unit, 100 otherwise
+ * @example
+ * ```typescript
+ * minorUnitFactor('USD'); // 100
+ * minorUnitFactor('JPY'); // 1
+ * ```
+ */
+export function minorUnitFactor(currency: string): number {
+  return ZERO_DECIMAL_CURRENCIES.has(currency) ? 1 : 100;
+}
@@ -0,0 +1,290 @@
+import { readFile } from 'node:fs/promises';
+import { parse as parseYaml } from 'yaml';
+import type { JsonSchema } from '../types/schema.js';
+
+/**
+ * HTTP methods that can hold an operation in an OpenAPI path item.
+ *
+ * @constant
+ */
+const HTTP_METHODS = ['get', 'put', 'post', 'delete', 'options', 'head', 'patch', 'trace'] as const;
+
+/**
+ * Minimal OpenAPI 3.x document shape used for response generation.
+ * Everything else in the document is kept but ignored.
+ *
+ * @interface OpenApiDocument
+ */
+export interface OpenApiDocument {
+  /** OpenAPI version (3.0.x or 3.1.x) */
+  openapi: string;
+  /** API metadata */
+  info?: { title?: string; version?: string };
+  /** Path items keyed by path template (e.g. '/pets/{petId}') */
+  paths?: Record<string, Record<string, unknown>>;
+  /** Reusable components referenced with `#/components/...` */
+  components?: Record<string, unknown>;
+}
+
+/**
+ * Summary of an operation declared in an OpenAPI document.
+ *
+ * @interface OpenApiOperation
+ * @example
+ * ```typescript
+ * const operation: OpenApiOperation = {
+ *   method: 'GET',
+ *   path: '/pets/{petId}',
+ *   operationId: 'getPet',
+ *   summary: 'Find a pet by ID',
+ *   responses: ['200', '404']
+ * };
+ * ```
+ */
+export interface OpenApiOperation {
+  /** Upper-case HTTP method */
+  method: string;
+  /** Path template */
+  path: string;
+  /** Operation ID (if declared) */
+  operationId?: string;
+  /** Short summary (if declared) */
+  summary?: string;
+  /** Declared response status codes (e.g. '200', '2XX', 'default') */
+  responses: string[];
+}
+
+/**
+ * Response body schema selected for an operation.
+ *
+ * @interface OpenApiResponseSchema
+ */
+export interface OpenApiResponseSchema {
+  /** Operation the response belongs to */
+  operation: OpenApiOperation;
+  /** Selected status code */
+  status: string;
+  /** Selected media type */
+  mediaType: string;
+  /** Body schema; `$ref`s are relative to the document */
+  schema: JsonSchema;
+}
+
+/**
+ * Options for selecting an operation response.
+ *
+ * @interface OpenApiResponseOptions
+ */
+export interface OpenApiResponseOptions {
+  /** Operation ID, or method and path such as 'GET /pets/{petId}' */
+  operation: string;
+  /** Status code (defaults to the first 2XX response, then 'default') */
+  status?: string;
+  /** Media type (defaults to application/json, then the first JSON media type) */
+  mediaType?: string;
+}
+
+/**
+ * Parses an OpenAPI 3.x document from JSON or YAML text.
+ *
+ * @param {string} text - Document text
+ * @returns {OpenApiDocument} Parsed document
+ * @throws {Error} If the text is not valid JSON/YAML or not an OpenAPI 3.x document
+ * @example
+ * ```typescript
+ * const doc = parseOpenApiDocument('openapi: 3.0.3\npaths: {}');
+ * ```
+ */
+export function parseOpenApiDocument(text: string): OpenApiDocument {
+  let parsed: unknown;
+  try {
+    parsed = text.trimStart().startsWith('{') ? JSON.parse(text) : parseYaml(text);
+  } catch (error) {
+    throw new Error(`Invalid OpenAPI document: ${(error as Error).message}`);
+  }
+  return assertOpenApiDocument(parsed);
+}
+
+/**
+ * Loads an OpenAPI 3.x document from an inline value or a local file.
+ *
+ * @async
+ * @param {string | object} [spec] - Inline document, as an object or as JSON/YAML text
+ * @param {string} [specPath] - Path of a local JSON or YAML file
+ * @returns {Promise<OpenApiDocument>} Parsed document
+ * @throws {Error} If neither source is given, the file cannot be read, or the document is invalid
+ */
+export async function loadOpenApiDocument(
+  spec?: string | object,
+  specPath?: string
+): Promise<OpenApiDocument> {
+  if (specPath !== undefined) {
+    return parseOpenApiDocument(await readFile(specPath, 'utf8'));
+  }
+  if (typeof spec === 'string') {
+    return parseOpenApiDocument(spec);
+  }
+  if (spec !== undefined) {
+    return assertOpenApiDocument(spec);
+  }
+  throw new Error('Either spec or specPath must be provided');
+}
+
+/**
+ * Lists the operations of a document in declaration order.
+ *
+ * @param {OpenApiDocument} doc - OpenAPI document
+ * @returns {OpenApiOperation[]} One entry per path and method
+ */
+export function listOperations(doc: OpenApiDocument): OpenApiOperation[] {
+  const operations: OpenApiOperation[] = [];
+
+  for (const [path, pathItem] of Object.entries(doc.paths ?? {})) {
+    for (const method of HTTP_METHODS) {
+      const operation = pathItem[method] as
+        { operationId?: string; summary?: string; responses?: Record<string, unknown> } | undefined;
+      if (operation === undefined) continue;
+
+      operations.push({
+        method: method.toUpperCase(),
+        path,
+        ...(operation.operationId !== undefined && { operationId: operation.operationId }),
+        ...(operation.summary !== undefined && { summary: operation.summary }),
+        responses: Object.keys(operation.responses ?? {}),
+      });
+    }
+  }
+
+  return operations;
+}
+
+/**
+ * Selects the response body schema of an operation.
+ * Response objects declared as `$ref` (e.g. `#/components/responses/NotFound`) are followed.
+ *
+ * @param {OpenApiDocument} doc - OpenAPI document
+ * @param {OpenApiResponseOptions} options - Operation, status and media type
+ * @returns {OpenApiResponseSchema} Selected schema with the resolved status and media type
+ * @throws {Error} If the operation, status or media type does not exist, or the response has no body
+ * @example
+ * ```typescript
+ * const { schema } = getResponseSchema(doc, { operation: 'GET /pets/{petId}', status: '200' });
+ * const pets = new JsonSchemaGenerator({ seed: 1 }).generateMany(3, { schema, root: doc });
+ * ```
+ */
+export function getResponseSchema(
+  doc: OpenApiDocument,
+  options: OpenApiResponseOptions
+): OpenApiResponseSchema {
+  const operations = listOperations(doc);
+  const operation = operations.find((candidate) => matchesOperation(candidate, options.operation));
+  if (!operation) {
+    const available = operations.map(describeOperation).join(', ');
+    throw new Error(
+      `Operation not found: ${options.operation}. Available operations: ${available || 'none'}`
+    );
+  }
+
+  const status = options.status ?? selectDefaultStatus(operation.responses);
+  if (status === undefined || !operation.responses.includes(status)) {
+    throw new Error(
+      `Response ${status ?? '2XX'} not declared for ${describeOperation(operation)}. Declared responses: ${operation.responses.join(', ') || 'none'}`
+    );
+  }
+
+  const responses = (
+    doc.paths?.[operation.path]?.[operation.method.toLowerCase()] as {
+      responses: Record<string, unknown>;
+    }
+  ).responses;
+  const response = resolveRef(doc, responses[status]) as {
+    content?: Record<string, { schema?: JsonSchema }>;
+  };
+  const content = response.content ?? {};
+
+  const mediaType =
+    options.mediaType ??
+    (content['application/json'] !== undefined
+      ? 'application/json'
+      : (Object.keys(content).find((type) => /[/+]json\b/.test(type)) ?? Object.keys(content)[0]));
+  const schema = mediaType !== undefined ? content[mediaType]?.schema : undefined;
+
+  if (mediaType === undefined || schema === undefined) {
+    const body = options.mediaType ? `${options.mediaType} body schema` : 'body schema';
+    throw new Error(`Response ${status} of ${describeOperation(operation)} has no ${body}`);
+  }
+
+  return { operation, status, mediaType, schema };
+}
+
+/**
+ * Validates that a parsed value is an OpenAPI 3.x document
+ */
+function assertOpenApiDocument(value: unknown): OpenApiDocument {
+  const version = (value as { openapi?: unknown } | null)?.openapi;
+  if (typeof version !== 'string' || !version.startsWith('3.')) {
+    throw new Error(
+      'Invalid OpenAPI document: expected an `openapi: 3.x` field (Swagger 2.0 is not supported)'
+    );
+  }
+  return value as OpenApiDocument;
+}
+
+/**
+ * Whether an operation matches an operation ID or 'METHOD /path' selector
+ */
+function matchesOperation(operation: OpenApiOperation, selector: string): boolean {
+  if (operation.operationId === selector) {
+    return true;
+  }
+  const [method, path] = selector.trim().split(/\s+/);
+  return operation.method === method?.toUpperCase() && operation.path === path;
+}
+
+/**
+ * Human-readable operation label, e.g. 'GET /pets/{petId} (getPet)'
+ */
+function describeOperation(operation: OpenApiOperation): string {
+  const label = `${operation.method} ${operation.path}`;
+  return operation.operationId ? `${label} (${operation.operationId})` : label;
+}
+
+/**
+ * Pick the first success response, then the default response
+ */
+function selectDefaultStatus(responses: string[]): string | undefined {
+  return (
+    responses.find((status) => /^2(\d\d|XX)$/i.test(status)) ??
+    responses.find((s) => s === 'default')
+  );
+}
+
+/**
+ * Follow a chain of local `$ref`s (e.g. to `#/components/responses/...`)
+ */
+function resolveRef(doc: OpenApiDocument, value: unknown): unknown {
+  let current = value;
+  for (let hops = 0; hops < 10; hops++) {
+    const ref = (current as { $ref?: unknown } | undefined)?.$ref;
+    if (typeof ref !== 'string') {
+      return current;
+    }
+    if (!ref.startsWith('#/')) {
+      throw new Error(`Unsupported $ref: ${ref}. Only local references (#/...) are supported`);
+    }
+    current = ref
+      .slice(2)
+      .split('/')
+      .reduce<unknown>(
+        (target, token) =>
+          (target as Record<string, unknown> | undefined)?.[
+            decodeURIComponent(token).replace(/~1/g, '/').replace(/~0/g, '~')
+          ],
+        doc
+      );
+    if (current === undefined) {
+      throw new Error(`Unresolvable $ref: ${ref}`);
+    }
+  }
+  throw new Error('Too many nested $ref hops');
+}
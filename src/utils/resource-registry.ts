@@ -0,0 +1,409 @@
+import { randomUUID } from 'node:crypto';
+import type { Resource, ResourceTemplate } from '@modelcontextprotocol/sdk/types.js';
+import { OutputFormat } from '../types/schema.js';
+import { OUTPUT_MIME_TYPES } from './tabular-export.js';
+
+/**
+ * URI prefix of stored generations.
+ *
+ * @constant
+ */
+export const RESOURCE_URI_PREFIX = 'faker://datasets/';
+
+/**
+ * Default number of generations kept before the least recently used one is evicted.
+ *
+ * @constant
+ */
+export const DEFAULT_MAX_RESOURCE_ENTRIES = 50;
+
+/**
+ * Default total size in bytes (UTF-8) of stored generations kept before eviction.
+ *
+ * @constant
+ */
+export const DEFAULT_MAX_RESOURCE_BYTES = 64 * 1024 * 1024;
+
+/**
+ * Path of the part holding a JSON dataset returned as text
+ */
+const DATASET_PART = 'dataset';
+
+/**
+ * Eviction limits of a resource registry.
+ *
+ * @interface ResourceRegistryOptions
+ * @example
+ * ```typescript
+ * const options: ResourceRegistryOptions = { maxEntries: 10, maxBytes: 8 * 1024 * 1024 };
+ * ```
+ */
+export interface ResourceRegistryOptions {
+  /** Maximum number of stored generations (defaults to 50) */
+  maxEntries?: number;
+  /** Maximum total size of stored content in bytes (defaults to 64 MiB) */
+  maxBytes?: number;
+}
+
+/**
+ * Sub-resource of a stored generation.
+ *
+ * @interface StoredResourcePart
+ */
+export interface StoredResourcePart {
+  /** Stable URI, e.g. `faker://datasets/{id}/generated.csv` or `faker://datasets/{id}/entities/users` */
+  uri: string;
+  /** Path of the part below the generation URI */
+  path: string;
+  /** MIME type of the content */
+  mimeType: string;
+  /** URI the tool response used for this part (absent for derived entity parts) */
+  sourceUri?: string;
+}
+
+/**
+ * Generation stored in a resource registry.
+ *
+ * @interface StoredGeneration
+ */
+export interface StoredGeneration {
+  /** Unique identifier */
+  id: string;
+  /** Stable URI, `faker://datasets/{id}` */
+  uri: string;
+  /** Tool that produced the generation */
+  tool: string;
+  /** ISO 8601 time the generation was stored */
+  createdAt: string;
+  /** Summary line of the tool response (if any) */
+  summary?: string;
+  /** Sub-resources: stored content parts followed by per-entity parts of datasets */
+  parts: StoredResourcePart[];
+}
+
+/**
+ * Content of a resource, as returned by `resources/read`.
+ *
+ * @interface ResourceContents
+ */
+export interface ResourceContents {
+  uri: string;
+  mimeType: string;
+  text: string;
+}
+
+/**
+ * Stored generation with its content and size
+ */
+interface RegistryEntry extends StoredGeneration {
+  texts: Map<string, string>;
+  bytes: number;
+}
+
+/**
+ * Server-side store of generated data, exposed as MCP resources under stable URIs.
+ * Every tool response holding generated data becomes a generation `faker://datasets/{id}` whose
+ * resource blocks (and, for datasets, each entity) are sub-resources. The least recently used
+ * generations are evicted once the entry or size limit is exceeded.
+ *
+ * @class ResourceRegistry
+ * @example
+ * ```typescript
+ * const registry = new ResourceRegistry({ maxEntries: 10 });
+ * const stored = registry.store('generate-person', result.content);
+ * const contents = registry.read(`${stored?.uri}/generated`);
+ * ```
+ */
+export class ResourceRegistry {
+  private readonly maxEntries: number;
+  private readonly maxBytes: number;
+  private entries: Map<string, RegistryEntry>;
+  private totalBytes: number;
+
+  /**
+   * Creates an empty registry.
+   *
+   * @constructor
+   * @param {ResourceRegistryOptions} [options={}] - Eviction limits
+   */
+  constructor(options: ResourceRegistryOptions = {}) {
+    this.maxEntries = options.maxEntries ?? DEFAULT_MAX_RESOURCE_ENTRIES;
+    this.maxBytes = options.maxBytes ?? DEFAULT_MAX_RESOURCE_BYTES;
+    this.entries = new Map();
+    this.totalBytes = 0;
+  }
+
+  /**
+   * Stores the generated content of a tool response.
+   * Resource blocks are stored under the last segment of their URI; a text block holding a
+   * dataset (`{ "dataset": { ... } }`) is stored as `dataset`, with one `entities/{name}`
+   * part per entity.
+   *
+   * @param {string} tool - Name of the tool that produced the content
+   * @param {unknown[]} content - MCP content blocks of the tool response
+   * @returns {StoredGeneration | undefined} The stored generation, or undefined when the content
+   *   holds no generated data or is larger than the size limit
+   */
+  public store(tool: string, content: unknown[]): StoredGeneration | undefined {
+    const id = randomUUID();
+    const uri = `${RESOURCE_URI_PREFIX}${id}`;
+    const parts: StoredResourcePart[] = [];
+    const texts = new Map<string, string>();
+    let summary: string | undefined;
+
+    for (const block of content as ContentBlock[]) {
+      if (block.type === 'resource' && typeof block.resource?.text === 'string') {
+        const path = uniquePath(lastSegment(block.resource.uri ?? 'generated'), texts);
+        parts.push({
+          uri: `${uri}/${path}`,
+          path,
+          mimeType: block.resource.mimeType ?? 'text/plain',
+          ...(block.resource.uri !== undefined && { sourceUri: block.resource.uri }),
+        });
+        texts.set(path, block.resource.text);
+        continue;
+      }
+      if (block.type !== 'text' || typeof block.text !== 'string') continue;
+
+      const entities = texts.has(DATASET_PART) ? undefined : parseDatasetEntities(block.text);
+      if (!entities) {
+        summary ??= block.text;
+        continue;
+      }
+
+      // Entity parts are extracted from the dataset on read, so they take no extra space
+      texts.set(DATASET_PART, block.text);
+      parts.push({
+        uri: `${uri}/${DATASET_PART}`,
+        path: DATASET_PART,
+        mimeType: OUTPUT_MIME_TYPES[OutputFormat.JSON],
+      });
+      for (const entity of Object.keys(entities)) {
+        parts.push({
+          uri: `${uri}/entities/${encodeURIComponent(entity)}`,
+          path: `entities/${entity}`,
+          mimeType: OUTPUT_MIME_TYPES[OutputFormat.JSON],
+        });
+      }
+    }
+
+    if (parts.length === 0) {
+      return undefined;
+    }
+
+    const bytes = [...texts.values()].reduce((total, text) => total + Buffer.byteLength(text), 0);
+    if (bytes > this.maxBytes) {
+      return undefined;
+    }
+
+    const entry: RegistryEntry = {
+      id,
+      uri,
+      tool,
+      createdAt: new Date().toISOString(),
+      ...(summary !== undefined && { summary }),
+      parts,
+      texts,
+      bytes,
+    };
+    this.entries.set(id, entry);
+    this.totalBytes += bytes;
+    this.evict();
+
+    return toStoredGeneration(entry);
+  }
+
+  /**
+   * Lists stored generations (most recent first), each followed by its sub-resources.
+   *
+   * @returns {Resource[]} MCP resource descriptors
+   */
+  public list(): Resource[] {
+    const resources: Resource[] = [];
+
+    for (const entry of [...this.entries.values()].reverse()) {
+      resources.push({
+        uri: entry.uri,
+        name: `${entry.tool} (${entry.createdAt})`,
+        description: entry.summary ?? `Data generated by ${entry.tool}`,
+      });
+      for (const part of entry.parts) {
+        resources.push({
+          uri: part.uri,
+          name: `${entry.tool} (${entry.createdAt}): ${part.path}`,
+          mimeType: part.mimeType,
+        });
+      }
+    }
+
+    return resources;
+  }
+
+  /**
+   * URI templates of stored generations and their sub-resources.
+   *
+   * @returns {ResourceTemplate[]} MCP resource template descriptors
+   */
+  public listTemplates(): ResourceTemplate[] {
+    return [
+      {
+        uriTemplate: `${RESOURCE_URI_PREFIX}{id}`,
+        name: 'Generated data',
+        description: 'Every content part of a generation',
+      },
+      {
+        uriTemplate: `${RESOURCE_URI_PREFIX}{id}/{part}`,
+        name: 'Generated data part',
+        description: 'One content part of a generation, e.g. generated, users.csv or generated.sql',
+      },
+      {
+        uriTemplate: `${RESOURCE_URI_PREFIX}{id}/entities/{entity}`,
+        name: 'Dataset entity',
+        description: 'Records of one entity of a generated dataset, as a JSON array',
+        mimeType: OUTPUT_MIME_TYPES[OutputFormat.JSON],
+      },
+    ];
+  }
+
+  /**
+   * Reads a generation (every stored part) or one of its sub-resources.
+   * Reading marks the generation as recently used.
+   *
+   * @param {string} uri - Resource URI
+   * @returns {ResourceContents[]} Contents of the resource
+   * @throws {Error} If the URI does not name a stored generation or part
+   */
+  public read(uri: string): ResourceContents[] {
+    const [id, ...rest] = uri.startsWith(RESOURCE_URI_PREFIX)
+      ? uri.slice(RESOURCE_URI_PREFIX.length).split('/')
+      : [];
+    const entry = id !== undefined ? this.entries.get(id) : undefined;
+    if (!entry) {
+      throw new Error(
+        `Resource not found: ${uri}. Generated data is kept for the ${this.maxEntries} most recently used generations`
+      );
+    }
+
+    // Mark as recently used
+    this.entries.delete(entry.id);
+    this.entries.set(entry.id, entry);
+
+    if (rest.length === 0) {
+      return entry.parts
+        .filter((part) => entry.texts.has(part.path))
+        .map((part) => ({
+          uri: part.uri,
+          mimeType: part.mimeType,
+          text: entry.texts.get(part.path) as string,
+        }));
+    }
+
+    const path = rest.map((segment) => decodeURIComponent(segment)).join('/');
+    const part = entry.parts.find((candidate) => candidate.path === path);
+    if (!part) {
+      const available = entry.parts.map((candidate) => candidate.path).join(', ');
+      throw new Error(`Resource not found: ${uri}. Parts of ${entry.uri}: ${available}`);
+    }
+
+    return [{ uri: part.uri, mimeType: part.mimeType, text: this.partText(entry, part) }];
+  }
+
+  /**
+   * Number of stored generations.
+   *
+   * @returns {number} Stored generation count
+   */
+  public get size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Text of a part; entity parts are extracted from the dataset they belong to
+   */
+  private partText(entry: RegistryEntry, part: StoredResourcePart): string {
+    const text = entry.texts.get(part.path);
+    if (text !== undefined) {
+      return text;
+    }
+
+    const entity = part.path.slice('entities/'.length);
+    const records = parseDatasetEntities(entry.texts.get(DATASET_PART) ?? '')?.[entity] ?? [];
+    return JSON.stringify(records, null, 2);
+  }
+
+  /**
+   * Evicts the least recently used generations until both limits are met
+   */
+  private evict(): void {
+    for (const [id, entry] of this.entries) {
+      if (this.entries.size <= this.maxEntries && this.totalBytes <= this.maxBytes) {
+        return;
+      }
+      this.entries.delete(id);
+      this.totalBytes -= entry.bytes;
+    }
+  }
+}
+
+/**
+ * Content block of a tool response
+ */
+interface ContentBlock {
+  type?: string;
+  text?: unknown;
+  resource?: { uri?: string; mimeType?: string; text?: unknown };
+}
+
+/**
+ * Public view of a registry entry
+ */
+function toStoredGeneration(entry: RegistryEntry): StoredGeneration {
+  return {
+    id: entry.id,
+    uri: entry.uri,
+    tool: entry.tool,
+    createdAt: entry.createdAt,
+    ...(entry.summary !== undefined && { summary: entry.summary }),
+    parts: entry.parts.map((part) => ({ ...part })),
+  };
+}
+
+/**
+ * Entities of a JSON dataset (`{ "dataset": { "users": [...] } }`), or undefined for other text
+ */
+function parseDatasetEntities(text: string): Record<string, unknown[]> | undefined {
+  if (!text.startsWith('{') || !text.includes('"dataset"')) {
+    return undefined;
+  }
+  try {
+    const { dataset } = JSON.parse(text) as { dataset?: unknown };
+    if (
+      dataset !== null &&
+      typeof dataset === 'object' &&
+      Object.values(dataset).every((records) => Array.isArray(records))
+    ) {
+      return dataset as Record<string, unknown[]>;
+    }
+  } catch {
+    // Not JSON
+  }
+  return undefined;
+}
+
+/**
+ * Last path segment of a URI, e.g. 'users.csv' for 'faker://datasets/generated/users.csv'
+ */
+function lastSegment(uri: string): string {
+  return uri.split('/').filter(Boolean).pop() ?? 'generated';
+}
+
+/**
+ * Path that is not used by another part yet ('generated', 'generated-2', ...)
+ */
+function uniquePath(path: string, texts: Map<string, string>): string {
+  let candidate = path;
+  for (let index = 2; texts.has(candidate); index++) {
+    candidate = `${path}-${index}`;
+  }
+  return candidate;
+}
@@ -0,0 +1,955 @@
+import { readdir, readFile, stat } from 'node:fs/promises';
+import { join } from 'node:path';
+import {
+  EntityType,
+  FieldType,
+  IdStrategyType,
+  PatternType,
+  RelationshipType,
+  SchemaSourceFormat,
+  type DatasetSchema,
+  type FieldDefinition,
+  type RelationshipDefinition,
+} from '../types/schema.js';
+import { detectCircularDependencies } from './validators.js';
+
+/**
+ * Options for importing a database schema.
+ *
+ * @interface SchemaImportOptions
+ * @example
+ * ```typescript
+ * const options: SchemaImportOptions = { counts: { User: 20, Post: 100 }, defaultCount: 10 };
+ * ```
+ */
+export interface SchemaImportOptions {
+  /** Record count per table or model (tables not listed use defaultCount) */
+  counts?: Record<string, number>;
+  /** Record count of tables not listed in counts (defaults to 10) */
+  defaultCount?: number;
+}
+
+/**
+ * Dataset schema derived from a database schema.
+ *
+ * @interface ImportedDatasetSchema
+ */
+export interface ImportedDatasetSchema {
+  /** Schema ready for DatasetGenerator.generateDataset */
+  schema: DatasetSchema;
+  /** Parts of the source that could not be represented (composite keys, broken cycles, ...) */
+  warnings: string[];
+}
+
+/**
+ * Column of an imported table
+ */
+interface ImportedColumn {
+  name: string;
+  type: FieldType;
+  nullable: boolean;
+  enumValues?: string[];
+}
+
+/**
+ * Table (or Prisma model) of an imported schema
+ */
+interface ImportedTable {
+  name: string;
+  columns: ImportedColumn[];
+  primaryKey: string[];
+  foreignKeys: Array<{ column: string; references: string }>;
+  /** Columns of each UNIQUE constraint */
+  uniqueKeys: string[][];
+}
+
+/**
+ * Prisma scalar types and the field types they map to
+ */
+const PRISMA_TYPES: Record<string, FieldType> = {
+  String: FieldType.STRING,
+  Int: FieldType.INTEGER,
+  BigInt: FieldType.INTEGER,
+  Float: FieldType.NUMBER,
+  Decimal: FieldType.NUMBER,
+  Boolean: FieldType.BOOLEAN,
+  DateTime: FieldType.DATETIME,
+  Json: FieldType.JSON,
+  Bytes: FieldType.STRING,
+};
+
+/**
+ * SQL type names (first word, lower case) and the field types they map to; others are strings
+ */
+const SQL_TYPES: Record<string, FieldType> = {
+  int: FieldType.INTEGER,
+  integer: FieldType.INTEGER,
+  int2: FieldType.INTEGER,
+  int4: FieldType.INTEGER,
+  int8: FieldType.INTEGER,
+  smallint: FieldType.INTEGER,
+  mediumint: FieldType.INTEGER,
+  bigint: FieldType.INTEGER,
+  tinyint: FieldType.INTEGER,
+  serial: FieldType.INTEGER,
+  serial4: FieldType.INTEGER,
+  serial8: FieldType.INTEGER,
+  smallserial: FieldType.INTEGER,
+  bigserial: FieldType.INTEGER,
+  decimal: FieldType.NUMBER,
+  numeric: FieldType.NUMBER,
+  real: FieldType.NUMBER,
+  float: FieldType.NUMBER,
+  float4: FieldType.NUMBER,
+  float8: FieldType.NUMBER,
+  double: FieldType.NUMBER,
+  money: FieldType.NUMBER,
+  bool: FieldType.BOOLEAN,
+  boolean: FieldType.BOOLEAN,
+  date: FieldType.DATE,
+  timestamp: FieldType.DATETIME,
+  timestamptz: FieldType.DATETIME,
+  datetime: FieldType.DATETIME,
+  datetime2: FieldType.DATETIME,
+  datetimeoffset: FieldType.DATETIME,
+  smalldatetime: FieldType.DATETIME,
+  uuid: FieldType.UUID,
+  uniqueidentifier: FieldType.UUID,
+  json: FieldType.JSON,
+  jsonb: FieldType.JSON,
+};
+
+/**
+ * Items of a CREATE TABLE body or ALTER TABLE ... ADD that are constraints rather than columns
+ */
+const TABLE_CONSTRAINT_REGEX =
+  /^(CONSTRAINT|PRIMARY\s+KEY|FOREIGN\s+KEY|UNIQUE|CHECK|KEY|INDEX|FULLTEXT|SPATIAL|EXCLUDE|LIKE)\b/i;
+
+/**
+ * Detects whether a schema source is a Prisma schema or SQL DDL, from the file extension
+ * when available and otherwise from the content.
+ *
+ * @param {string} text - Schema source
+ * @param {string} [path] - File the source was read from
+ * @returns {SchemaSourceFormat} Detected format
+ */
+export function detectSchemaFormat(text: string, path?: string): SchemaSourceFormat {
+  if (path?.endsWith('.prisma')) {
+    return SchemaSourceFormat.PRISMA;
+  }
+  if (path?.endsWith('.sql')) {
+    return SchemaSourceFormat.SQL;
+  }
+  return /^\s*(model|datasource|generator)\s+\w+\s*\{/m.test(text)
+    ? SchemaSourceFormat.PRISMA
+    : SchemaSourceFormat.SQL;
+}
+
+/**
+ * Reads a schema source from a file, or from a directory of SQL migrations whose `.sql` files
+ * (including those in subdirectories, such as `prisma/migrations/<name>/migration.sql`) are
+ * concatenated in path order so that later migrations alter earlier tables.
+ *
+ * @async
+ * @param {string} path - Schema file or migrations directory
+ * @returns {Promise<string>} Schema source
+ * @throws {Error} If the path cannot be read or a directory holds no `.sql` files
+ */
+export async function loadSchemaSource(path: string): Promise<string> {
+  if (!(await stat(path)).isDirectory()) {
+    return readFile(path, 'utf8');
+  }
+
+  const files = (await listSqlFiles(path)).sort();
+  if (files.length === 0) {
+    throw new Error(`No .sql files found in ${path}`);
+  }
+  const sources = await Promise.all(files.map((file) => readFile(file, 'utf8')));
+  return sources.join(';\n');
+}
+
+/**
+ * Converts a Prisma schema or SQL DDL into a dataset schema whose generated rows load back
+ * into the source tables.
+ * Every table or model becomes a custom entity: its single-column primary key holds the
+ * entity's IDs under the column's name (sequence IDs for integer keys, UUIDs for UUID keys),
+ * a composite primary key is kept as the entity's primary key, single-column foreign keys
+ * become one-to-many relationships (nullable when the column is, at most one child per parent
+ * when unique), UNIQUE constraints become unique fields and unique keys, enum columns become
+ * enum patterns and other columns are typed fields.
+ *
+ * @param {string} text - Prisma schema, or CREATE TABLE / CREATE TYPE ... AS ENUM / ALTER TABLE statements
+ * @param {SchemaSourceFormat} format - Source format
+ * @param {SchemaImportOptions} [options={}] - Record counts
+ * @returns {ImportedDatasetSchema} Dataset schema and warnings about unsupported constructs
+ * @throws {Error} If no table is found, counts name unknown tables, or foreign keys form a
+ *   cycle without a nullable column
+ * @example
+ * ```typescript
+ * const { schema, warnings } = importDatasetSchema(
+ *   'CREATE TABLE users (id SERIAL PRIMARY KEY, email TEXT NOT NULL);\n' +
+ *     'CREATE TABLE posts (id SERIAL PRIMARY KEY, user_id INT NOT NULL REFERENCES users(id));',
+ *   SchemaSourceFormat.SQL,
+ *   { counts: { posts: 50 } }
+ * );
+ * // schema.entities.posts.relationships.user_id → { references: 'users', type: 'one-to-many' }
+ * ```
+ */
+export function importDatasetSchema(
+  text: string,
+  format: SchemaSourceFormat,
+  options: SchemaImportOptions = {}
+): ImportedDatasetSchema {
+  const warnings: string[] = [];
+  const tables =
+    format === SchemaSourceFormat.PRISMA
+      ? parsePrismaSchema(text, warnings)
+      : parseSqlDdl(text, warnings);
+
+  if (tables.length === 0) {
+    throw new Error(
+      format === SchemaSourceFormat.PRISMA
+        ? 'No models found in Prisma schema'
+        : 'No CREATE TABLE statements found in SQL'
+    );
+  }
+
+  const unknown = Object.keys(options.counts ?? {}).filter(
+    (name) => !tables.some((table) => table.name === name)
+  );
+  if (unknown.length > 0) {
+    throw new Error(`counts reference unknown tables: ${unknown.join(', ')}`);
+  }
+
+  const schema = buildDatasetSchema(tables, options, warnings);
+  return { schema, warnings };
+}
+
+/**
+ * Builds the dataset schema from parsed tables
+ */
+function buildDatasetSchema(
+  tables: ImportedTable[],
+  options: SchemaImportOptions,
+  warnings: string[]
+): DatasetSchema {
+  const tablesByName = new Map(tables.map((table) => [table.name, table]));
+  const schema: DatasetSchema = { entities: {} };
+
+  for (const table of tables) {
+    const fields: Array<string | FieldDefinition> = [];
+    const relationships: Record<string, RelationshipDefinition> = {};
+    const idColumn =
+      table.primaryKey.length === 1
+        ? table.columns.find((column) => column.name === table.primaryKey[0])
+        : undefined;
+    const composite = table.primaryKey.length > 1;
+    const uniqueColumns = new Set(table.uniqueKeys.flatMap((key) => (key.length === 1 ? key : [])));
+
+    if (table.primaryKey.length === 0) {
+      warnings.push(`${table.name}: has no primary key; an id column is generated`);
+    }
+
+    for (const column of table.columns) {
+      const foreignKey = table.foreignKeys.find((fk) => fk.column === column.name);
+      const nullable = column.nullable && !table.primaryKey.includes(column.name);
+      const unique = uniqueColumns.has(column.name);
+
+      if (column === idColumn) {
+        if (foreignKey) {
+          warnings.push(
+            `${table.name}.${column.name}: primary key that is also a foreign key is generated as an independent id`
+          );
+        }
+        continue;
+      }
+
+      // Only tables with a single-column primary key have IDs to reference
+      const referenced = foreignKey ? tablesByName.get(foreignKey.references) : undefined;
+      if (foreignKey && referenced?.primaryKey.length === 1) {
+        const selfReference = foreignKey.references === table.name;
+        if (selfReference && !nullable) {
+          warnings.push(
+            `${table.name}.${column.name}: required self-reference is generated as nullable (the first rows have no parent)`
+          );
+        }
+        if (selfReference && unique) {
+          warnings.push(
+            `${table.name}.${column.name}: unique self-reference is generated without the unique constraint`
+          );
+        }
+        fields.push(column.name);
+        relationships[column.name] = {
+          references: foreignKey.references,
+          type: RelationshipType.ONE_TO_MANY,
+          ...((nullable || selfReference) && { nullable: true }),
+          ...(unique && !selfReference && { cardinality: { max: 1 } }),
+        };
+        continue;
+      }
+
+      if (foreignKey) {
+        warnings.push(
+          referenced
+            ? `${table.name}.${column.name}: references table '${foreignKey.references}' without a single-column primary key and is generated as a plain column`
+            : `${table.name}.${column.name}: references unknown table '${foreignKey.references}' and is generated as a plain column`
+        );
+      }
+
+      const field: FieldDefinition = column.enumValues
+        ? { name: column.name, pattern: { type: PatternType.ENUM, value: column.enumValues } }
+        : column.type === FieldType.STRING
+          ? { name: column.name }
+          : { name: column.name, type: column.type };
+      if (unique) {
+        field.unique = true;
+      }
+      if (nullable) {
+        field.nullable = true;
+      }
+      fields.push(Object.keys(field).length === 1 ? column.name : field);
+    }
+
+    const fieldNames = new Set(table.columns.map((column) => column.name));
+    const uniqueKeys = table.uniqueKeys.filter(
+      (key) => key.length > 1 && key.every((column) => fieldNames.has(column))
+    );
+    const idStrategy =
+      idColumn?.type === FieldType.INTEGER
+        ? { type: IdStrategyType.SEQUENCE }
+        : idColumn?.type === FieldType.UUID
+          ? { type: IdStrategyType.UUID }
+          : undefined;
+    const primaryKey = composite
+      ? table.primaryKey
+      : idColumn && idColumn.name !== 'id'
+        ? [idColumn.name]
+        : undefined;
+
+    schema.entities[table.name] = {
+      count: options.counts?.[table.name] ?? options.defaultCount ?? 10,
+      type: EntityType.CUSTOM,
+      fields,
+      ...(Object.keys(relationships).length > 0 && { relationships }),
+      ...(uniqueKeys.length > 0 && { uniqueKeys }),
+      ...(idStrategy && { idStrategy }),
+      ...(primaryKey && { primaryKey }),
+    };
+  }
+
+  removeEmptyEntities(schema, warnings);
+  breakReferenceCycles(schema, warnings);
+
+  return schema;
+}
+
+/**
+ * Removes entities without columns besides their id (custom entities need at least one field),
+ * together with the foreign keys referencing them
+ */
+function removeEmptyEntities(schema: DatasetSchema, warnings: string[]): void {
+  let removed = true;
+
+  while (removed) {
+    removed = false;
+    for (const [name, entity] of Object.entries(schema.entities)) {
+      if ((entity.fields ?? []).length > 0) continue;
+
+      delete schema.entities[name];
+      warnings.push(`${name}: skipped because it has no columns besides its primary key`);
+      for (const [owner, ownerEntity] of Object.entries(schema.entities)) {
+        for (const [field, relationship] of Object.entries(ownerEntity.relationships ?? {})) {
+          if (relationship.references === name) {
+            removeRelationship(schema, owner, field);
+            warnings.push(`${owner}.${field}: skipped because it references skipped table ${name}`);
+          }
+        }
+      }
+      removed = true;
+    }
+  }
+}
+
+/**
+ * Drops one nullable foreign key from every reference cycle, since parents must be
+ * generated before their children
+ */
+function breakReferenceCycles(schema: DatasetSchema, warnings: string[]): void {
+  for (let cycles = detectCircularDependencies(schema); cycles.length > 0;) {
+    // The reported path may start with entities leading into the cycle
+    const reported = cycles[0]?.split(' -> ') ?? [];
+    const path = reported.slice(reported.indexOf(reported[reported.length - 1] as string));
+    let broken = false;
+
+    for (let index = 0; index < path.length - 1 && !broken; index++) {
+      const owner = path[index] as string;
+      const target = path[index + 1];
+      for (const [field, relationship] of Object.entries(
+        schema.entities[owner]?.relationships ?? {}
+      )) {
+        if (relationship.references === target && relationship.nullable) {
+          removeRelationship(schema, owner, field);
+          warnings.push(
+            `${owner}.${field}: nullable foreign key left out to break the reference cycle ${cycles[0]}`
+          );
+          broken = true;
+          break;
+        }
+      }
+    }
+
+    if (!broken) {
+      throw new Error(
+        `Foreign keys form a cycle without a nullable column: ${cycles[0]}. Make one of them nullable`
+      );
+    }
+    cycles = detectCircularDependencies(schema);
+  }
+}
+
+/**
+ * Removes a relationship and its field from an entity, with the unique keys and composite
+ * primary key that include the field
+ */
+function removeRelationship(schema: DatasetSchema, entityName: string, field: string): void {
+  const entity = schema.entities[entityName];
+  if (!entity) return;
+
+  delete entity.relationships?.[field];
+  if (entity.relationships && Object.keys(entity.relationships).length === 0) {
+    delete entity.relationships;
+  }
+  entity.fields = (entity.fields ?? []).filter(
+    (fieldDef) => (typeof fieldDef === 'string' ? fieldDef : fieldDef.name) !== field
+  );
+  const uniqueKeys = entity.uniqueKeys?.filter((key) => !key.includes(field)) ?? [];
+  if (uniqueKeys.length > 0) {
+    entity.uniqueKeys = uniqueKeys;
+  } else {
+    delete entity.uniqueKeys;
+  }
+  if (entity.primaryKey && entity.primaryKey.length > 1 && entity.primaryKey.includes(field)) {
+    delete entity.primaryKey;
+  }
+}
+
+/**
+ * Lists the .sql files of a directory tree
+ */
+async function listSqlFiles(directory: string): Promise<string[]> {
+  const files: string[] = [];
+  for (const entry of await readdir(directory, { withFileTypes: true })) {
+    const path = join(directory, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...(await listSqlFiles(path)));
+    } else if (entry.name.endsWith('.sql')) {
+      files.push(path);
+    }
+  }
+  return files;
+}
+
+/**
+ * Parses the models and enums of a Prisma schema
+ */
+function parsePrismaSchema(text: string, warnings: string[]): ImportedTable[] {
+  const source = text
+    .split('\n')
+    .map((line) => stripPrismaComment(line))
+    .join('\n');
+  const blocks = [...source.matchAll(/^\s*(model|enum|type)\s+(\w+)\s*\{([^}]*)\}/gm)];
+
+  const enums = new Map<string, string[]>();
+  const models = new Set<string>();
+  const compositeTypes = new Set<string>();
+  for (const [, kind, name, body] of blocks) {
+    if (kind === 'enum') {
+      enums.set(
+        name as string,
+        (body as string)
+          .replace(/@@?[\w.]+(\([^)]*\))?/g, ' ')
+          .split(/\s+/)
+          .filter((value) => /^\w+$/.test(value))
+      );
+    } else if (kind === 'model') {
+      models.add(name as string);
+    } else {
+      compositeTypes.add(name as string);
+    }
+  }
+
+  // Target models of each model's list relation fields; a pair of lists pointing at each
+  // other is an implicit many-to-many relation, a single list the back side of a foreign key
+  const listTargets = new Map<string, string[]>();
+  for (const [, kind, name, body] of blocks) {
+    if (kind !== 'model') continue;
+    listTargets.set(
+      name as string,
+      [...(body as string).matchAll(/^\s*\w+\s+(\w+)\[\]/gm)]
+        .map((match) => match[1] as string)
+        .filter((target) => models.has(target))
+    );
+  }
+  const isImplicitManyToMany = (model: string, target: string): boolean => {
+    const lists = listTargets.get(model) ?? [];
+    return model === target
+      ? lists.filter((other) => other === model).length > 1
+      : lists.includes(target) && (listTargets.get(target) ?? []).includes(model);
+  };
+
+  const tables: ImportedTable[] = [];
+  const implicitRelations = new Set<string>();
+  for (const [, kind, name, body] of blocks) {
+    if (kind !== 'model') continue;
+
+    const table: ImportedTable = {
+      name: name as string,
+      columns: [],
+      primaryKey: [],
+      foreignKeys: [],
+      uniqueKeys: [],
+    };
+
+    for (const line of (body as string).split('\n').map((l) => l.trim())) {
+      if (line.startsWith('@@id')) {
+        table.primaryKey = listArgument(line.slice(4)) ?? [];
+        continue;
+      }
+      if (line.startsWith('@@unique')) {
+        table.uniqueKeys.push(listArgument(line.slice(8)) ?? []);
+        continue;
+      }
+
+      const groups =
+        /^(?<fieldName>\w+)\s+(?<fieldType>\w+(?:\("[^"]*"\))?)(?<list>\[\])?(?<optional>\?)?\s*(?<attributes>.*)$/.exec(
+          line
+        )?.groups;
+      if (!groups || line.startsWith('@@')) continue;
+
+      const { fieldName = '', fieldType = '', list, optional, attributes = '' } = groups;
+      const typeName = fieldType.replace(/\(.*$/, '');
+
+      // Relation fields are virtual: the scalar fields they name hold the foreign key
+      if (models.has(typeName)) {
+        const relation = /@relation\(([^)]*)\)/.exec(attributes)?.[1] ?? '';
+        const columns = listArgument(/fields\s*:\s*(\[[^\]]*\])/.exec(relation)?.[1] ?? '');
+        if (columns?.length === 1) {
+          table.foreignKeys.push({ column: columns[0] as string, references: typeName });
+        } else if (columns && columns.length > 1) {
+          warnings.push(
+            `${table.name}.${fieldName}: composite foreign key (${columns.join(', ')}) is not supported; its columns are generated as plain values`
+          );
+        } else if (list !== undefined && isImplicitManyToMany(table.name, typeName)) {
+          // Both sides of the relation are declared; report it once
+          const relationName = /"([^"]*)"/.exec(relation)?.[1] ?? '';
+          const key = [[table.name, typeName].sort().join('/'), relationName].join(':');
+          if (!implicitRelations.has(key)) {
+            implicitRelations.add(key);
+            warnings.push(
+              `${table.name}.${fieldName}: implicit many-to-many relation with ${typeName} is not supported; its join table is not generated`
+            );
+          }
+        }
+        continue;
+      }
+
+      if (attributes.includes('@id')) {
+        table.primaryKey = [fieldName];
+      }
+      if (/@unique\b/.test(attributes)) {
+        table.uniqueKeys.push([fieldName]);
+      }
+
+      table.columns.push({
+        name: fieldName,
+        type: prismaFieldType(typeName, list !== undefined, attributes, compositeTypes),
+        nullable: optional !== undefined,
+        ...(enums.has(typeName) && list === undefined && { enumValues: enums.get(typeName) }),
+      });
+    }
+
+    tables.push(table);
+  }
+
+  return tables;
+}
+
+/**
+ * Maps a Prisma field type and its attributes to a field type
+ */
+function prismaFieldType(
+  typeName: string,
+  list: boolean,
+  attributes: string,
+  compositeTypes: Set<string>
+): FieldType {
+  if (list || compositeTypes.has(typeName)) {
+    return FieldType.JSON;
+  }
+  if (attributes.includes('@db.Date')) {
+    return FieldType.DATE;
+  }
+  if (attributes.includes('@db.Uuid') || attributes.includes('@default(uuid(')) {
+    return FieldType.UUID;
+  }
+  return PRISMA_TYPES[typeName] ?? FieldType.STRING;
+}
+
+/**
+ * Removes a `//` comment from a Prisma line, ignoring `//` inside strings
+ */
+function stripPrismaComment(line: string): string {
+  let inString = false;
+  for (let index = 0; index < line.length; index++) {
+    const char = line[index];
+    if (char === '"' && line[index - 1] !== '\\') {
+      inString = !inString;
+    } else if (!inString && char === '/' && line[index + 1] === '/') {
+      return line.slice(0, index);
+    }
+  }
+  return line;
+}
+
+/**
+ * Parses CREATE TABLE, CREATE TYPE ... AS ENUM, CREATE UNIQUE INDEX and ALTER TABLE ... ADD
+ * FOREIGN KEY/PRIMARY KEY/UNIQUE statements
+ */
+function parseSqlDdl(text: string, warnings: string[]): ImportedTable[] {
+  const statements = splitTopLevel(stripSqlComments(text), ';')
+    .map((statement) => statement.trim())
+    .filter(Boolean);
+  const enums = new Map<string, string[]>();
+  const tables = new Map<string, ImportedTable>();
+
+  for (const statement of statements) {
+    const enumMatch = /^CREATE\s+TYPE\s+(\S+)\s+AS\s+ENUM\s*\(([\s\S]*)\)$/i.exec(statement);
+    if (enumMatch) {
+      enums.set(unquoteIdentifier(enumMatch[1] as string), stringLiterals(enumMatch[2] as string));
+      continue;
+    }
+
+    const tableMatch =
+      /^CREATE\s+(?:(?:GLOBAL\s+|LOCAL\s+)?(?:TEMP|TEMPORARY)\s+|UNLOGGED\s+)?TABLE\s+(?:IF\s+NOT\s+EXISTS\s+)?([^\s(]+)\s*\(/i.exec(
+        statement
+      );
+    if (tableMatch) {
+      const table = parseCreateTable(
+        unquoteIdentifier(tableMatch[1] as string),
+        parenthesized(statement, tableMatch[0].length - 1),
+        enums,
+        warnings
+      );
+      tables.set(table.name, table);
+      continue;
+    }
+
+    const indexMatch =
+      /^CREATE\s+UNIQUE\s+INDEX\s+(?:CONCURRENTLY\s+)?(?:IF\s+NOT\s+EXISTS\s+)?(?:\S+\s+)?ON\s+(?:ONLY\s+)?([^\s(]+)\s*(?:USING\s+\w+\s*)?\(([^)]*)\)/i.exec(
+        statement
+      );
+    const indexed = indexMatch ? tables.get(unquoteIdentifier(indexMatch[1] as string)) : undefined;
+    if (indexMatch && indexed) {
+      // Expression indexes name no plain columns and are ignored
+      const columns = identifierList(
+        (indexMatch[2] as string).replace(/\s+(ASC|DESC)\b|\s+NULLS\s+(FIRST|LAST)\b/gi, '')
+      );
+      if (columns.every((column) => indexed.columns.some((col) => col.name === column))) {
+        indexed.uniqueKeys.push(columns);
+      }
+      continue;
+    }
+
+    const dropMatch =
+      /^DROP\s+TABLE\s+(?:IF\s+EXISTS\s+)?([\s\S]+?)(?:\s+(?:CASCADE|RESTRICT))?$/i.exec(statement);
+    if (dropMatch) {
+      identifierList(dropMatch[1] as string).forEach((name) => tables.delete(name));
+      continue;
+    }
+
+    const alterMatch = /^ALTER\s+TABLE\s+(?:ONLY\s+)?(?:IF\s+EXISTS\s+)?(\S+)\s+([\s\S]*)$/i.exec(
+      statement
+    );
+    const altered = alterMatch ? tables.get(unquoteIdentifier(alterMatch[1] as string)) : undefined;
+    if (alterMatch && altered) {
+      for (const action of splitTopLevel(alterMatch[2] as string, ',').map((part) => part.trim())) {
+        const dropColumn = /^DROP\s+(?:COLUMN\s+)?(?:IF\s+EXISTS\s+)?("[^"]+"|`[^`]+`|\S+)/i.exec(
+          action
+        );
+        if (dropColumn && !/^DROP\s+(CONSTRAINT|INDEX|KEY|PRIMARY|FOREIGN)\b/i.test(action)) {
+          const column = unquoteIdentifier(dropColumn[1] as string);
+          altered.columns = altered.columns.filter((col) => col.name !== column);
+          altered.foreignKeys = altered.foreignKeys.filter((fk) => fk.column !== column);
+          altered.uniqueKeys = altered.uniqueKeys.filter((key) => !key.includes(column));
+          continue;
+        }
+
+        const added = /^ADD\s+([\s\S]*)$/i.exec(action)?.[1];
+        if (added === undefined) continue;
+        if (TABLE_CONSTRAINT_REGEX.test(added)) {
+          applyTableConstraint(altered, added, warnings);
+        } else {
+          parseColumn(altered, added.replace(/^COLUMN\s+(?:IF\s+NOT\s+EXISTS\s+)?/i, ''), enums);
+        }
+      }
+    }
+  }
+
+  return [...tables.values()];
+}
+
+/**
+ * Parses the body of a CREATE TABLE statement
+ */
+function parseCreateTable(
+  name: string,
+  body: string,
+  enums: Map<string, string[]>,
+  warnings: string[]
+): ImportedTable {
+  const table: ImportedTable = {
+    name,
+    columns: [],
+    primaryKey: [],
+    foreignKeys: [],
+    uniqueKeys: [],
+  };
+
+  for (const item of splitTopLevel(body, ',').map((part) => part.trim())) {
+    if (TABLE_CONSTRAINT_REGEX.test(item)) {
+      applyTableConstraint(table, item, warnings);
+    } else {
+      parseColumn(table, item, enums);
+    }
+  }
+
+  return table;
+}
+
+/**
+ * Parses a column definition (name, type and inline constraints) and adds it to a table
+ */
+function parseColumn(table: ImportedTable, item: string, enums: Map<string, string[]>): void {
+  const match = /^("[^"]+"|`[^`]+`|\[[^\]]+\]|\S+)\s+([\s\S]*)$/.exec(item);
+  if (!match) return;
+
+  const columnName = unquoteIdentifier(match[1] as string);
+  const definition = match[2] as string;
+  const typeWord = unquoteIdentifier(/^("[^"]+"|`[^`]+`|[\w.]+)/.exec(definition)?.[1] ?? '');
+  const baseType = typeWord.split('.').pop() ?? '';
+  const typeArgs = /^[^\s(]+\s*\(([^)]*)\)/.exec(definition)?.[1];
+  const isArray = /^[^\s]+(\s*\([^)]*\))?\s*\[\]/.test(definition);
+
+  const checkValues = new RegExp(
+    `CHECK\\s*\\(\\s*["\`]?${escapeRegExp(columnName)}["\`]?\\s+IN\\s*\\(([^)]*)\\)\\s*\\)`,
+    'i'
+  ).exec(definition)?.[1];
+  const enumValues =
+    (baseType.toLowerCase() === 'enum' && typeArgs !== undefined
+      ? stringLiterals(typeArgs)
+      : undefined) ??
+    enums.get(baseType) ??
+    (checkValues !== undefined ? stringLiterals(checkValues) : undefined);
+
+  const primaryKey = /\bPRIMARY\s+KEY\b/i.test(definition);
+  if (primaryKey) {
+    table.primaryKey = [columnName];
+  }
+
+  // String literals (defaults, CHECK values) may contain the keyword
+  if (!primaryKey && /\bUNIQUE\b/i.test(definition.replace(/'(?:[^']|'')*'/g, "''"))) {
+    table.uniqueKeys.push([columnName]);
+  }
+
+  const references = /\bREFERENCES\s+([^\s(]+)/i.exec(definition)?.[1];
+  if (references) {
+    table.foreignKeys.push({ column: columnName, references: unquoteIdentifier(references) });
+  }
+
+  table.columns.push({
+    name: columnName,
+    type: isArray ? FieldType.JSON : sqlFieldType(baseType, typeArgs),
+    nullable: !primaryKey && !/\bNOT\s+NULL\b/i.test(definition),
+    ...(enumValues && !isArray && { enumValues }),
+  });
+}
+
+/**
+ * Applies a table constraint (PRIMARY KEY, FOREIGN KEY, UNIQUE or CHECK ... IN) to a table
+ */
+function applyTableConstraint(table: ImportedTable, constraint: string, warnings: string[]): void {
+  const body = constraint.replace(/^\s*CONSTRAINT\s+\S+\s+/i, '');
+
+  const primaryKey = /^PRIMARY\s+KEY\s*\(([^)]*)\)/i.exec(body);
+  if (primaryKey) {
+    table.primaryKey = identifierList(primaryKey[1] as string);
+    return;
+  }
+
+  const unique = /^UNIQUE\b[^(]*\(([^)]*)\)/i.exec(body);
+  if (unique) {
+    table.uniqueKeys.push(identifierList(unique[1] as string));
+    return;
+  }
+
+  const foreignKey = /^FOREIGN\s+KEY\s*\(([^)]*)\)\s*REFERENCES\s+([^\s(]+)/i.exec(body);
+  if (foreignKey) {
+    const columns = identifierList(foreignKey[1] as string);
+    if (columns.length === 1) {
+      table.foreignKeys.push({
+        column: columns[0] as string,
+        references: unquoteIdentifier(foreignKey[2] as string),
+      });
+    } else {
+      warnings.push(
+        `${table.name}: composite foreign key (${columns.join(', ')}) is not supported; its columns are generated as plain values`
+      );
+    }
+    return;
+  }
+
+  const check = /^CHECK\s*\(\s*("[^"]+"|`[^`]+`|\w+)\s+IN\s*\(([^)]*)\)\s*\)/i.exec(body);
+  const column = check
+    ? table.columns.find((col) => col.name === unquoteIdentifier(check[1] as string))
+    : undefined;
+  if (check && column) {
+    column.enumValues = stringLiterals(check[2] as string);
+  }
+}
+
+/**
+ * Maps an SQL type name to a field type (TINYINT(1) is MySQL's boolean)
+ */
+function sqlFieldType(typeName: string, typeArgs: string | undefined): FieldType {
+  const lower = typeName.toLowerCase();
+  if (lower === 'tinyint' && typeArgs?.trim() === '1') {
+    return FieldType.BOOLEAN;
+  }
+  return SQL_TYPES[lower] ?? FieldType.STRING;
+}
+
+/**
+ * Removes `--` and `/* *\/` comments outside string literals
+ */
+function stripSqlComments(text: string): string {
+  let result = '';
+  let index = 0;
+
+  while (index < text.length) {
+    const char = text[index] as string;
+    if (char === "'") {
+      const end = text.indexOf("'", index + 1);
+      const stop = end === -1 ? text.length : end + 1;
+      result += text.slice(index, stop);
+      index = stop;
+    } else if (char === '-' && text[index + 1] === '-') {
+      const end = text.indexOf('\n', index);
+      index = end === -1 ? text.length : end;
+    } else if (char === '/' && text[index + 1] === '*') {
+      const end = text.indexOf('*/', index + 2);
+      index = end === -1 ? text.length : end + 2;
+    } else {
+      result += char;
+      index++;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Splits text on a separator that is outside parentheses and quotes
+ */
+function splitTopLevel(text: string, separator: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let quote: string | undefined;
+  let current = '';
+
+  for (const char of text) {
+    if (quote) {
+      if (char === quote) quote = undefined;
+    } else if (char === "'" || char === '"' || char === '`') {
+      quote = char;
+    } else if (char === '(') {
+      depth++;
+    } else if (char === ')') {
+      depth--;
+    } else if (char === separator && depth === 0) {
+      parts.push(current);
+      current = '';
+      continue;
+    }
+    current += char;
+  }
+
+  if (current.trim()) {
+    parts.push(current);
+  }
+  return parts;
+}
+
+/**
+ * Returns the text inside the parentheses opening at the given index
+ */
+function parenthesized(text: string, openIndex: number): string {
+  let depth = 0;
+  let quote: string | undefined;
+
+  for (let index = openIndex; index < text.length; index++) {
+    const char = text[index];
+    if (quote) {
+      if (char === quote) quote = undefined;
+    } else if (char === "'" || char === '"' || char === '`') {
+      quote = char;
+    } else if (char === '(') {
+      depth++;
+    } else if (char === ')' && --depth === 0) {
+      return text.slice(openIndex + 1, index);
+    }
+  }
+
+  return text.slice(openIndex + 1);
+}
+
+/**
+ * Removes identifier quoting and schema qualification ("public"."users" -> users)
+ */
+function unquoteIdentifier(identifier: string): string {
+  const last = identifier.match(/"[^"]+"|`[^`]+`|\[[^\]]+\]|[^.]+/g)?.pop() ?? identifier;
+  return last.replace(/^["`[]|["`\]]$/g, '');
+}
+
+/**
+ * Parses a comma-separated identifier list such as `"a", b`
+ */
+function identifierList(text: string): string[] {
+  return text
+    .split(',')
+    .map((part) => unquoteIdentifier(part.trim()))
+    .filter(Boolean);
+}
+
+/**
+ * Parses a bracketed Prisma list argument such as `([a, b])`
+ */
+function listArgument(text: string): string[] | undefined {
+  const inner = /\[([^\]]*)\]/.exec(text)?.[1];
+  return inner === undefined ? undefined : identifierList(inner);
+}
+
+/**
+ * Extracts the values of SQL string literals (`'a', 'it''s'`)
+ */
+function stringLiterals(text: string): string[] {
+  return [...text.matchAll(/'((?:[^']|'')*)'/g)].map((match) =>
+    (match[1] as string).replace(/''/g, "'")
+  );
+}
+
+/**
+ * Escapes a value for use inside a regular expression
+ */
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
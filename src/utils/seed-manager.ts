@@ -114,3 +114,42 @@ export function deriveChildSeed(parentSeed: number, entityName: string): number
   const combined = `${parentSeed}_${entityName}`;
   return hashStringToSeed(combined);
 }
+
+/**
+ * Reference date used for seeded runs that do not specify one.
+ * Anchoring relative dates (recent dates, ages, founding years) keeps seeded output
+ * identical across days.
+ *
+ * @constant
+ */
+export const DEFAULT_REFERENCE_DATE = '2025-01-01T00:00:00.000Z';
+
+/**
+ * Resolves the reference date that anchors all relative dates of a run.
+ * Uses the explicit reference date if provided, the fixed default for seeded runs,
+ * and the current time otherwise.
+ *
+ * @param {Date | string} [referenceDate] - Explicit reference date (Date or ISO 8601 string)
+ * @param {boolean} [seeded=false] - Whether the run uses an explicit seed or seed string
+ * @returns {Date} The resolved reference date
+ * @throws {Error} If the reference date is not a valid date
+ * @example
+ * ```typescript
+ * resolveReferenceDate('2024-06-01'); // 2024-06-01T00:00:00.000Z
+ * resolveReferenceDate(undefined, true); // 2025-01-01T00:00:00.000Z
+ * resolveReferenceDate(); // now
+ * ```
+ */
+export function resolveReferenceDate(referenceDate?: Date | string, seeded = false): Date {
+  if (referenceDate === undefined) {
+    return seeded ? new Date(DEFAULT_REFERENCE_DATE) : new Date();
+  }
+
+  const date = new Date(referenceDate);
+  if (isNaN(date.getTime())) {
+    throw new Error(
+      `Invalid reference date: ${String(referenceDate)}. Use an ISO 8601 date such as 2025-01-01`
+    );
+  }
+  return date;
+}
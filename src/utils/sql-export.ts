@@ -0,0 +1,583 @@
+import { getIdField, getJunctionKeys } from '../generators/dataset-generator.js';
+import {
+  EntityType,
+  FieldType,
+  IdStrategyType,
+  PatternType,
+  RelationshipType,
+  SqlDialect,
+  type DatasetSchema,
+  type EntityDefinition,
+  type FieldDefinition,
+} from '../types/schema.js';
+import { flattenRecord } from './tabular-export.js';
+
+/**
+ * Options for exporting a dataset as SQL.
+ *
+ * @interface SqlExportOptions
+ * @example
+ * ```typescript
+ * const options: SqlExportOptions = {
+ *   dialect: SqlDialect.MYSQL,
+ *   batchSize: 500
+ * };
+ * ```
+ */
+export interface SqlExportOptions {
+  /** Target SQL dialect (defaults to postgres) */
+  dialect?: SqlDialect;
+  /** Maximum number of rows per INSERT statement (defaults to 100) */
+  batchSize?: number;
+}
+
+/**
+ * Logical column types, mapped to concrete types per dialect
+ */
+type ColumnType =
+  'text' | 'uuid' | 'integer' | 'decimal' | 'boolean' | 'timestamp' | 'date' | 'json';
+
+/**
+ * Column of an exported table
+ */
+interface SqlColumn {
+  name: string;
+  type: ColumnType;
+  nullable: boolean;
+}
+
+/**
+ * Table derived from an entity (or junction) of a generated dataset.
+ *
+ * @interface SqlTable
+ */
+export interface SqlTable {
+  /** Table name (entity or junction name) */
+  name: string;
+  /** Columns in insertion order */
+  columns: SqlColumn[];
+  /** Primary key column names */
+  primaryKey: string[];
+  /** Foreign key constraints (column -> referenced table's ID column) */
+  foreignKeys: Array<{ column: string; table: string; referencedColumn: string }>;
+  /** Flattened rows */
+  rows: Record<string, unknown>[];
+}
+
+/**
+ * Per-dialect rendering rules
+ */
+interface DialectRules {
+  quote: (identifier: string) => string;
+  types: Record<ColumnType, string>;
+  /** Type used for text primary and foreign keys (MySQL cannot index unbounded TEXT) */
+  keyType: string;
+  booleanLiteral: (value: boolean) => string;
+  escape: (value: string) => string;
+  timestamp: (value: string) => string;
+}
+
+const DIALECTS: Record<SqlDialect, DialectRules> = {
+  [SqlDialect.POSTGRES]: {
+    quote: (identifier) => `"${identifier.replace(/"/g, '""')}"`,
+    types: {
+      text: 'TEXT',
+      uuid: 'UUID',
+      integer: 'INTEGER',
+      decimal: 'NUMERIC',
+      boolean: 'BOOLEAN',
+      timestamp: 'TIMESTAMPTZ',
+      date: 'DATE',
+      json: 'JSONB',
+    },
+    keyType: 'TEXT',
+    booleanLiteral: (value) => (value ? 'TRUE' : 'FALSE'),
+    escape: (value) => value.replace(/'/g, "''"),
+    timestamp: (value) => value,
+  },
+  [SqlDialect.MYSQL]: {
+    quote: (identifier) => `\`${identifier.replace(/`/g, '``')}\``,
+    types: {
+      text: 'TEXT',
+      uuid: 'CHAR(36)',
+      integer: 'INT',
+      decimal: 'DECIMAL(18,4)',
+      boolean: 'TINYINT(1)',
+      timestamp: 'DATETIME(3)',
+      date: 'DATE',
+      json: 'JSON',
+    },
+    keyType: 'VARCHAR(255)',
+    booleanLiteral: (value) => (value ? '1' : '0'),
+    escape: (value) => value.replace(/\\/g, '\\\\').replace(/'/g, "''"),
+    // DATETIME does not accept the ISO 'T' separator or the 'Z' suffix
+    timestamp: (value) => value.replace('T', ' ').replace(/Z$/, ''),
+  },
+  [SqlDialect.SQLITE]: {
+    quote: (identifier) => `"${identifier.replace(/"/g, '""')}"`,
+    types: {
+      text: 'TEXT',
+      uuid: 'TEXT',
+      integer: 'INTEGER',
+      decimal: 'REAL',
+      boolean: 'INTEGER',
+      timestamp: 'TEXT',
+      date: 'TEXT',
+      json: 'TEXT',
+    },
+    keyType: 'TEXT',
+    booleanLiteral: (value) => (value ? '1' : '0'),
+    escape: (value) => value.replace(/'/g, "''"),
+    timestamp: (value) => value,
+  },
+};
+
+/**
+ * Address columns shared by person and company records (flattened as address_*)
+ */
+const ADDRESS_COLUMNS: Record<string, ColumnType> = {
+  address_street: 'text',
+  address_city: 'text',
+  address_state: 'text',
+  address_postalCode: 'text',
+  address_country: 'text',
+};
+
+/**
+ * Column types of the PersonData shape
+ */
+const PERSON_COLUMNS: Record<string, ColumnType> = {
+  id: 'text',
+  firstName: 'text',
+  lastName: 'text',
+  fullName: 'text',
+  email: 'text',
+  phone: 'text',
+  dateOfBirth: 'date',
+  ...ADDRESS_COLUMNS,
+};
+
+/**
+ * Column types of the CompanyData shape
+ */
+const COMPANY_COLUMNS: Record<string, ColumnType> = {
+  id: 'text',
+  name: 'text',
+  industry: 'text',
+  email: 'text',
+  phone: 'text',
+  website: 'text',
+  founded: 'integer',
+  employeeCount: 'integer',
+  ...ADDRESS_COLUMNS,
+};
+
+/**
+ * Column types of the ProductData shape (dimensions and weight flattened as dimensions_* and weight_*)
+ */
+const PRODUCT_COLUMNS: Record<string, ColumnType> = {
+  id: 'text',
+  sku: 'text',
+  name: 'text',
+  category: 'text',
+  categoryPath: 'text',
+  description: 'text',
+  price: 'decimal',
+  currency: 'text',
+  stock: 'integer',
+  dimensions_length: 'decimal',
+  dimensions_width: 'decimal',
+  dimensions_height: 'decimal',
+  dimensions_unit: 'text',
+  weight_value: 'decimal',
+  weight_unit: 'text',
+  ean: 'text',
+  upc: 'text',
+  imageUrl: 'text',
+};
+
+/**
+ * Column types of the OrderData shape (line items are kept as a JSON column)
+ */
+const ORDER_COLUMNS: Record<string, ColumnType> = {
+  id: 'text',
+  status: 'text',
+  currency: 'text',
+  items: 'json',
+  subtotal: 'decimal',
+  discount: 'decimal',
+  taxRate: 'decimal',
+  tax: 'decimal',
+  total: 'decimal',
+  placedAt: 'timestamp',
+  paidAt: 'timestamp',
+  shippedAt: 'timestamp',
+  deliveredAt: 'timestamp',
+  cancelledAt: 'timestamp',
+  refundedAt: 'timestamp',
+};
+
+/**
+ * Column types of the AccountData shape
+ */
+const ACCOUNT_COLUMNS: Record<string, ColumnType> = {
+  id: 'text',
+  holder: 'text',
+  country: 'text',
+  iban: 'text',
+  bic: 'text',
+  accountNumber: 'text',
+  currency: 'text',
+  balance: 'decimal',
+  card_number: 'text',
+  card_network: 'text',
+  card_expiry: 'text',
+  card_cvv: 'text',
+};
+
+/**
+ * Column types of the LedgerTransactionData shape (entries are kept as a JSON column)
+ */
+const LEDGER_COLUMNS: Record<string, ColumnType> = {
+  id: 'text',
+  reference: 'text',
+  postedAt: 'timestamp',
+  description: 'text',
+  currency: 'text',
+  entries: 'json',
+  amount: 'decimal',
+};
+
+/**
+ * Column types of the built-in entity types, by type
+ */
+const ENTITY_TYPE_COLUMNS: Partial<Record<EntityType, Record<string, ColumnType>>> = {
+  [EntityType.PERSON]: PERSON_COLUMNS,
+  [EntityType.COMPANY]: COMPANY_COLUMNS,
+  [EntityType.PRODUCT]: PRODUCT_COLUMNS,
+  [EntityType.ORDER]: ORDER_COLUMNS,
+  [EntityType.ACCOUNT]: ACCOUNT_COLUMNS,
+  [EntityType.LEDGER]: LEDGER_COLUMNS,
+};
+
+/**
+ * Column types of typed dataset fields
+ */
+const FIELD_TYPE_COLUMNS: Record<FieldType, ColumnType> = {
+  [FieldType.STRING]: 'text',
+  [FieldType.INTEGER]: 'integer',
+  [FieldType.NUMBER]: 'decimal',
+  [FieldType.BOOLEAN]: 'boolean',
+  [FieldType.DATE]: 'date',
+  [FieldType.DATETIME]: 'timestamp',
+  [FieldType.UUID]: 'uuid',
+  [FieldType.JSON]: 'json',
+};
+
+const ISO_TIMESTAMP_REGEX = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}/;
+const ISO_DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Infers a column type from the values observed in the generated rows
+ */
+function inferColumnType(values: unknown[]): ColumnType {
+  const present = values.filter((value) => value !== null && value !== undefined);
+
+  if (present.length === 0) {
+    return 'text';
+  }
+  if (present.every((value) => typeof value === 'boolean')) {
+    return 'boolean';
+  }
+  if (present.every((value) => typeof value === 'number')) {
+    return present.every((value) => Number.isInteger(value)) ? 'integer' : 'decimal';
+  }
+  if (present.some((value) => typeof value === 'object')) {
+    return 'json';
+  }
+  if (present.every((value) => typeof value === 'string' && ISO_TIMESTAMP_REGEX.test(value))) {
+    return 'timestamp';
+  }
+  if (present.every((value) => typeof value === 'string' && ISO_DATE_REGEX.test(value))) {
+    return 'date';
+  }
+  return 'text';
+}
+
+/**
+ * Column type of an entity's IDs: integer for sequence IDs, uuid for UUIDs, text otherwise
+ */
+function keyColumnType(entityDef: EntityDefinition | undefined): ColumnType {
+  switch (entityDef?.idStrategy?.type) {
+    case IdStrategyType.SEQUENCE:
+      return 'integer';
+    case IdStrategyType.UUID:
+      return 'uuid';
+    default:
+      return 'text';
+  }
+}
+
+/**
+ * Finds the definition of a custom entity field, if it is declared as an object
+ */
+function findField(entityDef: EntityDefinition, column: string): FieldDefinition | undefined {
+  return entityDef.fields?.find(
+    (fieldDef): fieldDef is FieldDefinition =>
+      typeof fieldDef !== 'string' && fieldDef.name === column
+  );
+}
+
+/**
+ * Resolves the type of a column from the entity definition, falling back to the known
+ * PersonData/CompanyData shapes and finally to the generated values.
+ */
+function resolveColumnType(
+  column: string,
+  entityDef: EntityDefinition,
+  schema: DatasetSchema,
+  rows: Record<string, unknown>[]
+): ColumnType {
+  if (column === getIdField(entityDef)) {
+    return keyColumnType(entityDef);
+  }
+
+  // Foreign keys take the type of the referenced entity's IDs
+  const relationship = entityDef.relationships?.[column];
+  if (relationship) {
+    return relationship.type === RelationshipType.MANY_TO_MANY
+      ? 'json'
+      : keyColumnType(schema.entities[relationship.references]);
+  }
+
+  const field = findField(entityDef, column);
+  if (field?.pattern) {
+    if (field.pattern.type !== PatternType.RANGE) {
+      return 'text';
+    }
+    const precision = (field.pattern.value as { precision?: number }).precision;
+    return precision ? 'decimal' : 'integer';
+  }
+  if (field?.type) {
+    return FIELD_TYPE_COLUMNS[field.type];
+  }
+
+  const known = ENTITY_TYPE_COLUMNS[entityDef.type]?.[column];
+  if (known) {
+    return known;
+  }
+
+  return inferColumnType(rows.map((row) => row[column]));
+}
+
+/**
+ * Derives table definitions for every entity of a generated dataset, in the given
+ * entity order. Junction entities of many-to-many relationships follow their owning entity.
+ *
+ * @param {DatasetSchema} schema - Schema the dataset was generated from
+ * @param {Record<string, unknown[]>} dataset - Generated dataset
+ * @param {string[]} entityOrder - Entity names in dependency order (parents first)
+ * @returns {SqlTable[]} Tables in creation order
+ * @example
+ * ```typescript
+ * const tables = buildSqlTables(schema, result.dataset, generator.topologicalSort(schema));
+ * ```
+ */
+export function buildSqlTables(
+  schema: DatasetSchema,
+  dataset: Record<string, unknown[]>,
+  entityOrder: string[]
+): SqlTable[] {
+  const tables: SqlTable[] = [];
+
+  for (const entityName of entityOrder) {
+    const entityDef = schema.entities[entityName];
+    if (!entityDef) continue;
+
+    const rows = (dataset[entityName] ?? []).map((record) =>
+      flattenRecord(record as Record<string, unknown>, '_')
+    );
+
+    // Union of columns in first-seen order, so optional fields are not lost
+    const columnNames: string[] = [];
+    for (const row of rows) {
+      for (const key of Object.keys(row)) {
+        if (!columnNames.includes(key)) {
+          columnNames.push(key);
+        }
+      }
+    }
+
+    const idField = getIdField(entityDef);
+    const primaryKey = idField ? [idField] : (entityDef.primaryKey ?? []);
+    const columns = columnNames.map((name) => ({
+      name,
+      type: resolveColumnType(name, entityDef, schema, rows),
+      nullable:
+        !primaryKey.includes(name) &&
+        (entityDef.relationships?.[name]?.nullable === true ||
+          findField(entityDef, name)?.nullable === true ||
+          rows.some((row) => row[name] === null || row[name] === undefined)),
+    }));
+
+    const foreignKeys = Object.entries(entityDef.relationships ?? {})
+      .filter(
+        ([field, relationship]) =>
+          relationship.type === RelationshipType.ONE_TO_MANY && columnNames.includes(field)
+      )
+      .map(([field, relationship]) => ({
+        column: field,
+        table: relationship.references,
+        referencedColumn: getIdField(schema.entities[relationship.references]) ?? 'id',
+      }));
+
+    tables.push({
+      name: entityName,
+      columns,
+      primaryKey: primaryKey.every((name) => columnNames.includes(name)) ? primaryKey : [],
+      foreignKeys,
+      rows,
+    });
+
+    // Junction tables for many-to-many relationships
+    for (const relationship of Object.values(entityDef.relationships ?? {})) {
+      if (relationship.type !== RelationshipType.MANY_TO_MANY || !relationship.through) {
+        continue;
+      }
+      const { sourceKey, targetKey } = getJunctionKeys(entityName, relationship);
+
+      tables.push({
+        name: relationship.through,
+        columns: [
+          { name: sourceKey, type: keyColumnType(entityDef), nullable: false },
+          {
+            name: targetKey,
+            type: keyColumnType(schema.entities[relationship.references]),
+            nullable: false,
+          },
+        ],
+        primaryKey: [sourceKey, targetKey],
+        foreignKeys: [
+          { column: sourceKey, table: entityName, referencedColumn: idField ?? 'id' },
+          {
+            column: targetKey,
+            table: relationship.references,
+            referencedColumn: getIdField(schema.entities[relationship.references]) ?? 'id',
+          },
+        ],
+        rows: (dataset[relationship.through] ?? []) as Record<string, unknown>[],
+      });
+    }
+  }
+
+  return tables;
+}
+
+/**
+ * Renders a single value as a SQL literal
+ */
+function renderValue(value: unknown, type: ColumnType, rules: DialectRules): string {
+  if (value === null || value === undefined) {
+    return 'NULL';
+  }
+  if (typeof value === 'boolean') {
+    return rules.booleanLiteral(value);
+  }
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? String(value) : 'NULL';
+  }
+  if (typeof value === 'object') {
+    return `'${rules.escape(JSON.stringify(value))}'`;
+  }
+
+  const text = String(value);
+  return `'${rules.escape(type === 'timestamp' ? rules.timestamp(text) : text)}'`;
+}
+
+/**
+ * Renders the CREATE TABLE statement of a table
+ */
+function renderCreateTable(table: SqlTable, rules: DialectRules): string {
+  const keyColumns = new Set([
+    ...table.primaryKey,
+    ...table.foreignKeys.map((foreignKey) => foreignKey.column),
+  ]);
+
+  const lines = table.columns.map((column) => {
+    const type =
+      column.type === 'text' && keyColumns.has(column.name)
+        ? rules.keyType
+        : rules.types[column.type];
+    return `  ${rules.quote(column.name)} ${type}${column.nullable ? '' : ' NOT NULL'}`;
+  });
+
+  if (table.primaryKey.length > 0) {
+    lines.push(`  PRIMARY KEY (${table.primaryKey.map(rules.quote).join(', ')})`);
+  }
+  for (const foreignKey of table.foreignKeys) {
+    lines.push(
+      `  FOREIGN KEY (${rules.quote(foreignKey.column)}) REFERENCES ${rules.quote(foreignKey.table)} (${rules.quote(foreignKey.referencedColumn)})`
+    );
+  }
+
+  return `CREATE TABLE ${rules.quote(table.name)} (\n${lines.join(',\n')}\n);`;
+}
+
+/**
+ * Renders batched INSERT statements for the rows of a table
+ */
+function renderInserts(table: SqlTable, rules: DialectRules, batchSize: number): string[] {
+  const statements: string[] = [];
+  const columnList = table.columns.map((column) => rules.quote(column.name)).join(', ');
+
+  for (let start = 0; start < table.rows.length; start += batchSize) {
+    const values = table.rows
+      .slice(start, start + batchSize)
+      .map(
+        (row) =>
+          `  (${table.columns.map((column) => renderValue(row[column.name], column.type, rules)).join(', ')})`
+      );
+    statements.push(
+      `INSERT INTO ${rules.quote(table.name)} (${columnList}) VALUES\n${values.join(',\n')};`
+    );
+  }
+
+  return statements;
+}
+
+/**
+ * Exports a generated dataset as SQL: CREATE TABLE statements (with primary and foreign keys)
+ * followed by batched INSERT statements, both in dependency order so the script can be
+ * executed top to bottom against an empty database.
+ *
+ * @param {DatasetSchema} schema - Schema the dataset was generated from
+ * @param {Record<string, unknown[]>} dataset - Generated dataset
+ * @param {string[]} entityOrder - Entity names in dependency order (parents first)
+ * @param {SqlExportOptions} [options={}] - Dialect and batching options
+ * @returns {string} The SQL script
+ * @example
+ * ```typescript
+ * const sql = exportDatasetToSql(schema, result.dataset, generator.topologicalSort(schema), {
+ *   dialect: SqlDialect.SQLITE
+ * });
+ * ```
+ */
+export function exportDatasetToSql(
+  schema: DatasetSchema,
+  dataset: Record<string, unknown[]>,
+  entityOrder: string[],
+  options: SqlExportOptions = {}
+): string {
+  const dialect = options.dialect ?? SqlDialect.POSTGRES;
+  const batchSize = options.batchSize ?? 100;
+  const rules = DIALECTS[dialect];
+  const tables = buildSqlTables(schema, dataset, entityOrder);
+
+  const statements = [
+    `-- Generated by faker-mcp-server (${dialect})`,
+    ...tables.map((table) => renderCreateTable(table, rules)),
+    ...tables.flatMap((table) => renderInserts(table, rules, batchSize)),
+  ];
+
+  return `${statements.join('\n\n')}\n`;
+}
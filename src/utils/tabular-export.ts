@@ -0,0 +1,215 @@
+import { OutputFormat } from '../types/schema.js';
+
+/**
+ * Output formats available to every generate-* tool (SQL is dataset-only).
+ *
+ * @constant
+ */
+export const RECORD_OUTPUT_FORMATS = [
+  OutputFormat.JSON,
+  OutputFormat.CSV,
+  OutputFormat.NDJSON,
+  OutputFormat.TSV,
+] as const;
+
+/**
+ * Output format accepted by the person, company and custom tools.
+ *
+ * @typedef {(typeof RECORD_OUTPUT_FORMATS)[number]} RecordOutputFormat
+ */
+export type RecordOutputFormat = (typeof RECORD_OUTPUT_FORMATS)[number];
+
+/**
+ * MIME type of each output format, used for MCP resource blocks.
+ *
+ * @constant
+ */
+export const OUTPUT_MIME_TYPES: Record<OutputFormat, string> = {
+  [OutputFormat.JSON]: 'application/json',
+  [OutputFormat.CSV]: 'text/csv',
+  [OutputFormat.NDJSON]: 'application/x-ndjson',
+  [OutputFormat.TSV]: 'text/tab-separated-values',
+  [OutputFormat.SQL]: 'application/sql',
+  [OutputFormat.COMBINED]: 'text/plain',
+  [OutputFormat.SYSLOG]: 'text/plain',
+};
+
+/**
+ * Flattens nested plain objects of a record into prefixed columns joined by `separator`.
+ * Arrays are kept as-is.
+ *
+ * @param {Record<string, unknown>} record - The record to flatten
+ * @param {string} [separator='.'] - Separator between parent and child keys
+ * @returns {Record<string, unknown>} Flattened record
+ * @example
+ * ```typescript
+ * flattenRecord({ id: 'users_1', address: { city: 'Paris' } });
+ * // Returns: { id: 'users_1', 'address.city': 'Paris' }
+ * ```
+ */
+export function flattenRecord(
+  record: Record<string, unknown>,
+  separator = '.'
+): Record<string, unknown> {
+  const row: Record<string, unknown> = {};
+
+  for (const [key, value] of Object.entries(record)) {
+    if (value !== null && typeof value === 'object' && !Array.isArray(value)) {
+      for (const [subKey, subValue] of Object.entries(
+        flattenRecord(value as Record<string, unknown>, separator)
+      )) {
+        row[`${key}${separator}${subKey}`] = subValue;
+      }
+    } else {
+      row[key] = value;
+    }
+  }
+
+  return row;
+}
+
+/**
+ * Converts a cell value to text: null/undefined become empty, arrays become JSON
+ */
+function cellText(value: unknown): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  if (typeof value === 'object') {
+    return JSON.stringify(value);
+  }
+  return String(value);
+}
+
+/**
+ * Escapes a CSV cell (RFC 4180): cells containing a comma, quote or line break are quoted,
+ * with embedded quotes doubled
+ */
+function escapeCsv(text: string): string {
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Escapes a TSV cell: TSV has no quoting, so backslashes, tabs and line breaks are
+ * written as `\\`, `\t`, `\n` and `\r`
+ */
+function escapeTsv(text: string): string {
+  return text
+    .replace(/\\/g, '\\\\')
+    .replace(/\t/g, '\\t')
+    .replace(/\n/g, '\\n')
+    .replace(/\r/g, '\\r');
+}
+
+/**
+ * Escapes and joins the cells of one delimited line
+ */
+function joinCells(cells: string[], format: OutputFormat.CSV | OutputFormat.TSV): string {
+  return format === OutputFormat.CSV
+    ? cells.map(escapeCsv).join(',')
+    : cells.map(escapeTsv).join('\t');
+}
+
+/**
+ * Renders the header line of delimited output (without line terminator).
+ *
+ * @param {string[]} columns - Column names
+ * @param {OutputFormat.CSV | OutputFormat.TSV} format - Delimited format
+ * @returns {string} Header line
+ */
+export function toDelimitedHeader(
+  columns: string[],
+  format: OutputFormat.CSV | OutputFormat.TSV
+): string {
+  return joinCells(columns, format);
+}
+
+/**
+ * Renders one flattened record as a line of delimited output (without line terminator).
+ *
+ * @param {Record<string, unknown>} row - Flattened record (see `flattenRecord`)
+ * @param {string[]} columns - Column names, in output order
+ * @param {OutputFormat.CSV | OutputFormat.TSV} format - Delimited format
+ * @returns {string} Record line
+ */
+export function toDelimitedRow(
+  row: Record<string, unknown>,
+  columns: string[],
+  format: OutputFormat.CSV | OutputFormat.TSV
+): string {
+  return joinCells(
+    columns.map((column) => cellText(row[column])),
+    format
+  );
+}
+
+/**
+ * Renders records as delimited text with a header row. Nested objects are flattened
+ * to `parent.child` columns and, unless columns are given, the header is the union of all
+ * columns in first-seen order.
+ *
+ * @param {object[]} records - Records to render
+ * @param {OutputFormat.CSV | OutputFormat.TSV} format - Delimited format
+ * @param {string[]} [fixedColumns] - Columns in output order, for records that may lack fields
+ * @returns {string} Delimited text, one line per record after the header
+ * @example
+ * ```typescript
+ * toDelimited([{ name: 'Doe, John' }], OutputFormat.CSV);
+ * // Returns: 'name\n"Doe, John"\n'
+ * ```
+ */
+export function toDelimited(
+  records: object[],
+  format: OutputFormat.CSV | OutputFormat.TSV,
+  fixedColumns?: string[]
+): string {
+  const rows = records.map((record) => flattenRecord(record as Record<string, unknown>));
+
+  const columns: string[] = fixedColumns ?? [];
+  const seen = new Set<string>();
+  for (const row of fixedColumns ? [] : rows) {
+    for (const key of Object.keys(row)) {
+      if (!seen.has(key)) {
+        seen.add(key);
+        columns.push(key);
+      }
+    }
+  }
+
+  const lines = [
+    toDelimitedHeader(columns, format),
+    ...rows.map((row) => toDelimitedRow(row, columns, format)),
+  ];
+
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Renders records as newline-delimited JSON (one compact JSON object per line).
+ *
+ * @param {unknown[]} records - Records to render
+ * @returns {string} NDJSON text
+ */
+export function toNdjson(records: unknown[]): string {
+  return records.map((record) => `${JSON.stringify(record)}\n`).join('');
+}
+
+/**
+ * Renders records in a non-JSON record format.
+ *
+ * @param {object[]} records - Records to render
+ * @param {OutputFormat.CSV | OutputFormat.NDJSON | OutputFormat.TSV} format - Target format
+ * @param {string[]} [columns] - CSV/TSV columns in output order (defaults to those of the records)
+ * @returns {string} Rendered text
+ * @example
+ * ```typescript
+ * const csv = formatRecords(persons, OutputFormat.CSV);
+ * ```
+ */
+export function formatRecords(
+  records: object[],
+  format: OutputFormat.CSV | OutputFormat.NDJSON | OutputFormat.TSV,
+  columns?: string[]
+): string {
+  return format === OutputFormat.NDJSON ? toNdjson(records) : toDelimited(records, format, columns);
+}
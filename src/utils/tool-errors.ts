@@ -0,0 +1,331 @@
+import { z } from 'zod';
+
+/**
+ * Error codes of failed tool calls, reported in the structured error payload.
+ *
+ * @enum {string}
+ */
+export enum ToolErrorCode {
+  /** Arguments do not match the tool's input schema */
+  INVALID_PARAMETERS = 'invalid_parameters',
+  /** A dataset schema failed structural or referential validation */
+  INVALID_SCHEMA = 'invalid_schema',
+  /** A custom pattern (regex, enum, format or range) is invalid */
+  INVALID_PATTERN = 'invalid_pattern',
+  /** Entity relationships form a cycle, so no generation order exists */
+  CIRCULAR_DEPENDENCY = 'circular_dependency',
+  /** A unique field asks for more distinct values than its pattern or type can produce */
+  VALUE_SPACE_TOO_SMALL = 'value_space_too_small',
+  /** No record satisfying a dataset entity's constraints or unique keys was found within the retry budget */
+  CONSTRAINT_UNSATISFIED = 'constraint_unsatisfied',
+  /** A file argument names a file the session may not read or write */
+  FILE_ACCESS_DENIED = 'file_access_denied',
+  /** Any other failure while executing the tool */
+  TOOL_EXECUTION_FAILED = 'tool_execution_failed',
+}
+
+/**
+ * One problem found in the arguments of a tool call.
+ *
+ * @interface ToolErrorDetail
+ * @example
+ * ```typescript
+ * const detail: ToolErrorDetail = {
+ *   code: 'too_big',
+ *   path: '$.count',
+ *   message: 'Count must not exceed 10000',
+ *   value: 50000,
+ *   expected: '<= 10000',
+ *   suggestion: 'Use a value of at most 10000',
+ * };
+ * ```
+ */
+export interface ToolErrorDetail {
+  /** Kind of problem, e.g. a Zod issue code such as `too_big` or `unknown_reference` */
+  code: string;
+  /** JSON path into the tool arguments, e.g. `$.schema.entities.orders.count` */
+  path: string;
+  /** Human-readable description */
+  message: string;
+  /** Offending value, when there is one */
+  value?: unknown;
+  /** Constraint the value must satisfy */
+  expected?: string;
+  /** How to change the call so it succeeds */
+  suggestion?: string;
+}
+
+/**
+ * Error thrown by tool handlers for problems the caller can fix in its arguments.
+ * The message keeps the flat, human-readable form; the details carry the same problems
+ * in machine-readable form for the structured error result.
+ *
+ * @class ToolError
+ * @extends Error
+ * @example
+ * ```typescript
+ * throw new ToolError(ToolErrorCode.INVALID_PATTERN, 'Invalid regex', [
+ *   { code: 'invalid_regex', path: '$.patterns.sku.value', message: 'Unterminated group' },
+ * ]);
+ * ```
+ */
+export class ToolError extends Error {
+  /**
+   * @param {ToolErrorCode} code - Error code of the whole call
+   * @param {string} message - Human-readable summary
+   * @param {ToolErrorDetail[]} [details=[]] - Individual problems
+   */
+  constructor(
+    readonly code: ToolErrorCode,
+    message: string,
+    readonly details: ToolErrorDetail[] = []
+  ) {
+    super(message);
+    this.name = 'ToolError';
+  }
+}
+
+/**
+ * Formats path segments as a JSON path. Keys that are not identifiers are bracket-quoted.
+ *
+ * @param {Array<string | number>} segments - Property names and array indexes
+ * @returns {string} JSON path starting at `$`
+ * @example
+ * ```typescript
+ * toJsonPath(['schema', 'entities', 'order-items', 'fields', 0]);
+ * // Returns: "$.schema.entities['order-items'].fields[0]"
+ * ```
+ */
+export function toJsonPath(segments: Array<string | number>): string {
+  return segments.reduce<string>((path, segment) => {
+    if (typeof segment === 'number') {
+      return `${path}[${segment}]`;
+    }
+    return /^[A-Za-z_$][\w$]*$/.test(segment)
+      ? `${path}.${segment}`
+      : `${path}['${segment.replace(/'/g, "\\'")}']`;
+  }, '$');
+}
+
+/**
+ * Moves details whose paths are relative to a nested value under that value's path,
+ * e.g. schema validation details under the `schema` argument.
+ *
+ * @param {ToolErrorDetail[]} details - Details with paths relative to the nested value
+ * @param {Array<string | number>} prefix - Path segments of the nested value in the arguments
+ * @returns {ToolErrorDetail[]} Details with paths into the arguments
+ */
+export function prefixDetailPaths(
+  details: ToolErrorDetail[],
+  prefix: Array<string | number>
+): ToolErrorDetail[] {
+  const base = toJsonPath(prefix);
+  return details.map((detail) => ({ ...detail, path: base + detail.path.slice(1) }));
+}
+
+/**
+ * Reads the value at a path of the raw arguments, if it exists.
+ *
+ * @param {unknown} args - Raw tool arguments
+ * @param {Array<string | number>} segments - Path segments
+ * @returns {unknown} Value at the path, or undefined
+ */
+function valueAt(args: unknown, segments: Array<string | number>): unknown {
+  let value = args;
+  for (const segment of segments) {
+    if (typeof value !== 'object' || value === null) {
+      return undefined;
+    }
+    value = (value as Record<string | number, unknown>)[segment];
+  }
+  return value;
+}
+
+/**
+ * Describes the bound of a too_small or too_big issue.
+ *
+ * @param {'min' | 'max'} side - Which bound was violated
+ * @param {Object} issue - Zod issue carrying the bound
+ * @returns {{ expected: string; suggestion: string }} Constraint and fix
+ */
+function describeBound(
+  side: 'min' | 'max',
+  issue: { type: string; inclusive: boolean; exact?: boolean; bound: number | bigint }
+): { expected: string; suggestion: string } {
+  const bound = String(issue.bound);
+  const least = side === 'min' ? 'at least' : 'at most';
+
+  if (issue.type === 'string' || issue.type === 'array' || issue.type === 'set') {
+    const unit = issue.type === 'string' ? 'characters' : 'items';
+    const expected = issue.exact ? `exactly ${bound} ${unit}` : `${least} ${bound} ${unit}`;
+    return { expected, suggestion: `Use ${expected}` };
+  }
+
+  const operator = side === 'min' ? (issue.inclusive ? '>=' : '>') : issue.inclusive ? '<=' : '<';
+  return {
+    expected: `${operator} ${bound}`,
+    suggestion: issue.inclusive
+      ? `Use a value of ${least} ${bound}`
+      : `Use a value ${side === 'min' ? 'greater' : 'less'} than ${bound}`,
+  };
+}
+
+/**
+ * Derives the expected constraint and a suggested fix from a Zod issue.
+ *
+ * @param {z.ZodIssue} issue - Issue to describe
+ * @param {unknown} value - Offending value
+ * @returns {Pick<ToolErrorDetail, 'expected' | 'suggestion'>} Constraint and fix, where known
+ */
+function describeZodIssue(
+  issue: z.ZodIssue,
+  value: unknown
+): Pick<ToolErrorDetail, 'expected' | 'suggestion'> {
+  const field = issue.path.length > 0 ? String(issue.path[issue.path.length - 1]) : 'arguments';
+
+  switch (issue.code) {
+    case z.ZodIssueCode.invalid_type:
+      return {
+        expected: issue.expected,
+        suggestion:
+          value === undefined
+            ? `Provide '${field}', it is required`
+            : `Pass a ${issue.expected} instead of a ${issue.received}`,
+      };
+    case z.ZodIssueCode.too_small:
+      return describeBound('min', { ...issue, bound: issue.minimum });
+    case z.ZodIssueCode.too_big:
+      return describeBound('max', { ...issue, bound: issue.maximum });
+    case z.ZodIssueCode.invalid_enum_value:
+      return {
+        expected: `one of: ${issue.options.join(', ')}`,
+        suggestion: `Use one of: ${issue.options.join(', ')}`,
+      };
+    case z.ZodIssueCode.invalid_literal:
+      return {
+        expected: JSON.stringify(issue.expected),
+        suggestion: `Use ${JSON.stringify(issue.expected)}`,
+      };
+    case z.ZodIssueCode.invalid_union_discriminator:
+      return {
+        expected: `one of: ${issue.options.map(String).join(', ')}`,
+        suggestion: `Set '${field}' to one of: ${issue.options.map(String).join(', ')}`,
+      };
+    case z.ZodIssueCode.unrecognized_keys:
+      return {
+        expected: 'no additional properties',
+        suggestion: `Remove ${issue.keys.map((key) => `'${key}'`).join(', ')}`,
+      };
+    case z.ZodIssueCode.invalid_string:
+      return {
+        expected: typeof issue.validation === 'string' ? `a valid ${issue.validation}` : undefined,
+      };
+    case z.ZodIssueCode.not_multiple_of:
+      return {
+        expected: `a multiple of ${String(issue.multipleOf)}`,
+        suggestion: `Use a multiple of ${String(issue.multipleOf)}`,
+      };
+    default:
+      return {};
+  }
+}
+
+/**
+ * Converts a Zod validation error of tool arguments into a ToolError with one detail per issue.
+ *
+ * @param {z.ZodError} error - Validation error
+ * @param {unknown} args - Raw arguments that failed validation
+ * @returns {ToolError} Error with code `invalid_parameters`
+ * @example
+ * ```typescript
+ * try {
+ *   GeneratePersonSchema.parse(args);
+ * } catch (error) {
+ *   if (error instanceof z.ZodError) throw fromZodError(error, args);
+ * }
+ * ```
+ */
+export function fromZodError(error: z.ZodError, args: unknown): ToolError {
+  const details = error.errors.map((issue): ToolErrorDetail => {
+    const value = valueAt(args, issue.path);
+    return {
+      code: issue.code,
+      path: toJsonPath(issue.path),
+      message: issue.message,
+      ...(value !== undefined && { value }),
+      ...describeZodIssue(issue, value),
+    };
+  });
+
+  return new ToolError(
+    ToolErrorCode.INVALID_PARAMETERS,
+    `Invalid parameters: ${error.errors.map((e) => `${e.path.join('.')}: ${e.message}`).join(', ')}`,
+    details
+  );
+}
+
+/**
+ * Converts dataset schema validation issues into a ToolError. The call is classified as a
+ * circular dependency, invalid pattern or too small value space when every issue is one, and
+ * as an invalid schema otherwise.
+ *
+ * @param {string} summary - Message prefix, e.g. `Invalid dataset schema`
+ * @param {ToolErrorDetail[]} issues - Issues with paths relative to the schema
+ * @param {Array<string | number>} [prefix=[]] - Path of the schema in the tool arguments
+ * @returns {ToolError} Error listing every issue
+ * @example
+ * ```typescript
+ * const issues = collectDatasetSchemaIssues(params.schema);
+ * if (issues.length > 0) throw fromSchemaIssues('Invalid dataset schema', issues, ['schema']);
+ * ```
+ */
+export function fromSchemaIssues(
+  summary: string,
+  issues: ToolErrorDetail[],
+  prefix: Array<string | number> = []
+): ToolError {
+  const code = issues.every((issue) => issue.code === 'circular_dependency')
+    ? ToolErrorCode.CIRCULAR_DEPENDENCY
+    : issues.every((issue) => issue.code === 'invalid_regex' || issue.code === 'invalid_pattern')
+      ? ToolErrorCode.INVALID_PATTERN
+      : issues.every((issue) => issue.code === 'value_space_too_small')
+        ? ToolErrorCode.VALUE_SPACE_TOO_SMALL
+        : ToolErrorCode.INVALID_SCHEMA;
+
+  return new ToolError(
+    code,
+    `${summary}: ${issues.map((issue) => issue.message).join(', ')}`,
+    prefixDetailPaths(issues, prefix)
+  );
+}
+
+/**
+ * Builds the `isError` result of a failed tool call: a text summary followed by a JSON
+ * payload with the error code and, for ToolErrors, the individual problems.
+ *
+ * @param {unknown} error - Error thrown by the tool handler
+ * @returns {{ content: Array<{ type: 'text'; text: string }>; isError: true }} MCP tool result
+ * @example
+ * ```typescript
+ * const result = toolErrorResult(error);
+ * // result.content[1].text: '{ "error": { "code": "invalid_parameters", ... } }'
+ * ```
+ */
+export function toolErrorResult(error: unknown): {
+  content: Array<{ type: 'text'; text: string }>;
+  isError: true;
+} {
+  const message = error instanceof Error ? error.message : String(error);
+  const payload =
+    error instanceof ToolError
+      ? { code: error.code, message, details: error.details }
+      : { code: ToolErrorCode.TOOL_EXECUTION_FAILED, message, details: [] };
+
+  return {
+    content: [
+      { type: 'text', text: `Tool execution failed: ${message}` },
+      { type: 'text', text: JSON.stringify({ error: payload }, null, 2) },
+    ],
+    isError: true,
+  };
+}
@@ -0,0 +1,280 @@
+import RandExp from 'randexp';
+import { FieldType, PatternType, type CustomPattern, type RangePattern } from '../types/schema.js';
+import { ToolError, ToolErrorCode } from './tool-errors.js';
+
+/**
+ * Number of draws per value before a unique field is reported as exhausted.
+ *
+ * @constant
+ */
+export const MAX_UNIQUE_ATTEMPTS = 100;
+
+/**
+ * Characters faker's `string.alphanumeric` draws from ({{random:N}} placeholders)
+ */
+const ALPHANUMERIC_CHARACTERS = 62;
+
+/**
+ * Printable ASCII range randexp draws set characters from
+ */
+const PRINTABLE_MIN = 32;
+const PRINTABLE_MAX = 126;
+
+/**
+ * Token of a regex parsed by randexp (the `ret` token tree)
+ */
+interface RegexToken {
+  type: number;
+  value?: number | RegexToken;
+  stack?: RegexToken[];
+  options?: RegexToken[][];
+  set?: RegexToken[];
+  not?: boolean;
+  from?: number;
+  to?: number;
+  min?: number;
+  max?: number | null;
+  followedBy?: boolean;
+  notFollowedBy?: boolean;
+}
+
+/**
+ * Token types of the `ret` regex parser used by randexp
+ */
+const TokenType = {
+  ROOT: 0,
+  GROUP: 1,
+  POSITION: 2,
+  SET: 3,
+  RANGE: 4,
+  REPETITION: 5,
+  REFERENCE: 6,
+  CHAR: 7,
+} as const;
+
+/**
+ * Error raised when a unique field cannot find a new value within the retry budget.
+ *
+ * @class UniqueValuesExhaustedError
+ * @extends ToolError
+ */
+export class UniqueValuesExhaustedError extends ToolError {
+  /**
+   * @param {string} field - Field that ran out of values
+   * @param {number} distinct - Number of distinct values generated before giving up
+   */
+  constructor(
+    readonly field: string,
+    readonly distinct: number
+  ) {
+    super(
+      ToolErrorCode.VALUE_SPACE_TOO_SMALL,
+      `Could not generate a unique value for '${field}' after ${MAX_UNIQUE_ATTEMPTS} attempts ` +
+        `(${distinct} distinct values generated); its value space is too small for the requested count`
+    );
+    this.name = 'UniqueValuesExhaustedError';
+  }
+}
+
+/**
+ * Key under which a value is compared for uniqueness: primitives as is, objects and arrays as JSON
+ */
+function comparisonKey(value: unknown): unknown {
+  return typeof value === 'object' && value !== null ? JSON.stringify(value) : value;
+}
+
+/**
+ * Tracks the values of unique fields during one generation and redraws duplicates.
+ * Redraws consume the seeded random source, so a seeded run stays deterministic; fields that
+ * are not unique draw exactly once, so enabling uniqueness on one field leaves runs without
+ * it unchanged. Every value of a unique field is kept in memory for the whole generation.
+ *
+ * @class UniqueValueTracker
+ * @example
+ * ```typescript
+ * const unique = new UniqueValueTracker(['email']);
+ * const email = unique.next('email', () => faker.internet.email());
+ * ```
+ */
+export class UniqueValueTracker {
+  private readonly seen = new Map<string, Set<unknown>>();
+
+  /**
+   * @param {Iterable<string>} [fields=[]] - Names of the fields whose values must be unique
+   */
+  constructor(fields: Iterable<string> = []) {
+    for (const field of fields) {
+      this.seen.set(field, new Set());
+    }
+  }
+
+  /**
+   * Whether a field is tracked as unique.
+   *
+   * @param {string} field - Field name
+   * @returns {boolean} True if values of the field are deduplicated
+   */
+  public isUnique(field: string): boolean {
+    return this.seen.has(field);
+  }
+
+  /**
+   * Draws a value for a field, redrawing while it duplicates an earlier value of a unique field.
+   *
+   * @template T - Type of the drawn value
+   * @param {string} field - Field name
+   * @param {Function} draw - Draws a candidate value
+   * @param {Function} [key] - Maps a value to the key compared for uniqueness (primitives as is, objects as JSON)
+   * @returns {T} A value not generated before for the field
+   * @throws {UniqueValuesExhaustedError} If no new value is found within MAX_UNIQUE_ATTEMPTS draws
+   */
+  public next<T>(field: string, draw: () => T, key: (value: T) => unknown = comparisonKey): T {
+    const seen = this.seen.get(field);
+    if (!seen) {
+      return draw();
+    }
+
+    for (let attempt = 0; attempt < MAX_UNIQUE_ATTEMPTS; attempt++) {
+      const value = draw();
+      const valueKey = key(value);
+      if (!seen.has(valueKey)) {
+        seen.add(valueKey);
+        return value;
+      }
+    }
+
+    throw new UniqueValuesExhaustedError(field, seen.size);
+  }
+}
+
+/**
+ * Counts the printable characters a regex set token can produce.
+ *
+ * @param {RegexToken} token - SET, RANGE or CHAR token
+ * @param {boolean[]} covered - Printable characters covered so far (updated in place)
+ * @returns {void}
+ */
+function coverSet(token: RegexToken, covered: boolean[]): void {
+  if (token.type === TokenType.CHAR) {
+    const code = token.value as number;
+    if (code >= PRINTABLE_MIN && code <= PRINTABLE_MAX) {
+      covered[code - PRINTABLE_MIN] = true;
+    }
+  } else if (token.type === TokenType.RANGE) {
+    const from = Math.max(token.from ?? 0, PRINTABLE_MIN);
+    const to = Math.min(token.to ?? 0, PRINTABLE_MAX);
+    for (let code = from; code <= to; code++) {
+      covered[code - PRINTABLE_MIN] = true;
+    }
+  } else {
+    // Nested sets such as \d inside [...]: a negated one covers its complement
+    const nested = new Array<boolean>(PRINTABLE_MAX - PRINTABLE_MIN + 1).fill(false);
+    token.set?.forEach((member) => coverSet(member, nested));
+    nested.forEach((isCovered, index) => {
+      if (isCovered !== Boolean(token.not)) {
+        covered[index] = true;
+      }
+    });
+  }
+}
+
+/**
+ * Counts an upper bound of the distinct strings a regex token generates.
+ *
+ * @param {RegexToken} token - Token to count
+ * @returns {number} Number of distinct strings (Infinity for unbounded repetitions)
+ */
+function countRegexToken(token: RegexToken): number {
+  switch (token.type) {
+    case TokenType.ROOT:
+    case TokenType.GROUP: {
+      // Lookaheads generate nothing
+      if (token.followedBy || token.notFollowedBy) {
+        return 1;
+      }
+      const sequences = token.options ?? [token.stack ?? []];
+      return sequences.reduce(
+        (sum, sequence) =>
+          sum + sequence.reduce((product, member) => product * countRegexToken(member), 1),
+        0
+      );
+    }
+    case TokenType.SET: {
+      const covered = new Array<boolean>(PRINTABLE_MAX - PRINTABLE_MIN + 1).fill(false);
+      coverSet(token, covered);
+      return Math.max(covered.filter(Boolean).length, 1);
+    }
+    case TokenType.REPETITION: {
+      if (token.max === null || token.max === undefined || token.max === Infinity) {
+        return Infinity;
+      }
+      const base = countRegexToken(token.value as RegexToken);
+      let total = 0;
+      for (let length = token.min ?? 0; length <= token.max && total < Infinity; length++) {
+        total += Math.pow(base, length);
+      }
+      return total;
+    }
+    default:
+      // Characters, anchors and back-references each have a single outcome
+      return 1;
+  }
+}
+
+/**
+ * Estimates how many distinct values a custom pattern can generate, so requests for more
+ * unique values than exist can be rejected before generating. The estimate is an upper bound:
+ * a request within it may still exhaust its retries when values are drawn unevenly.
+ *
+ * @param {CustomPattern} pattern - Pattern to estimate
+ * @returns {number} Upper bound of distinct values (Infinity if unbounded or unknown)
+ * @example
+ * ```typescript
+ * estimatePatternValueSpace({ type: PatternType.REGEX, value: '[A-Z]{2}' }); // 676
+ * estimatePatternValueSpace({ type: PatternType.RANGE, value: { min: 1, max: 10 } }); // 10
+ * ```
+ */
+export function estimatePatternValueSpace(pattern: CustomPattern): number {
+  switch (pattern.type) {
+    case PatternType.ENUM:
+      return new Set(pattern.value as string[]).size;
+    case PatternType.RANGE: {
+      const { min, max, precision = 0 } = pattern.value as RangePattern;
+      return Math.floor((max - min) * Math.pow(10, precision) + 1e-9) + 1;
+    }
+    case PatternType.FORMAT: {
+      const format = pattern.value as string;
+      let space = 1;
+      for (const [, kind, length] of format.matchAll(/\{\{(random|number):(\d+)\}\}/g)) {
+        space *= Math.pow(kind === 'random' ? ALPHANUMERIC_CHARACTERS : 10, Number(length));
+      }
+      return space;
+    }
+    case PatternType.REGEX:
+      try {
+        return countRegexToken(new RandExp(pattern.value as string).tokens as RegexToken);
+      } catch {
+        return Infinity;
+      }
+    default:
+      return Infinity;
+  }
+}
+
+/**
+ * Estimates how many distinct values a typed dataset field can generate.
+ *
+ * @param {FieldType} fieldType - Declared field type
+ * @returns {number} Number of distinct values (Infinity if practically unbounded)
+ */
+export function estimateFieldTypeValueSpace(fieldType: FieldType): number {
+  switch (fieldType) {
+    case FieldType.BOOLEAN:
+      return 2;
+    case FieldType.INTEGER:
+      // Typed integers are drawn from 1-1000
+      return 1000;
+    default:
+      return Infinity;
+  }
+}
@@ -1,3 +1,19 @@
+import {
+  CompanyUniqueField,
+  FieldType,
+  IdStrategyType,
+  PatternType,
+  PersonUniqueField,
+  ProductUniqueField,
+  type CardinalityDefinition,
+  type CustomPattern,
+  type FieldSparsity,
+  type IdStrategy,
+  type RangePattern,
+} from '../types/schema.js';
+import { ToolError, ToolErrorCode, toJsonPath, type ToolErrorDetail } from './tool-errors.js';
+import { estimateFieldTypeValueSpace, estimatePatternValueSpace } from './unique-values.js';
+
 /**
  * Regular expression for validating email addresses.
  * Checks for basic email format: localpart@domain.tld
@@ -137,6 +153,23 @@ export function isInRange(num: number, min: number, max: number): boolean {
   return typeof num === 'number' && !isNaN(num) && num >= min && num <= max;
 }
 
+/**
+ * Validates the null and omit rates of a field: each is a probability and together they
+ * do not exceed 1, since one draw decides between omitted, null and present.
+ *
+ * @param {FieldSparsity} sparsity - Rates to validate
+ * @returns {boolean} True if the rates are valid, false otherwise
+ * @example
+ * ```typescript
+ * isValidSparsity({ nullRate: 0.2, omitRate: 0.1 }); // true
+ * isValidSparsity({ nullRate: 0.7, omitRate: 0.5 }); // false
+ * ```
+ */
+export function isValidSparsity(sparsity: FieldSparsity): boolean {
+  const { nullRate = 0, omitRate = 0 } = sparsity;
+  return isInRange(nullRate, 0, 1) && isInRange(omitRate, 0, 1) && nullRate + omitRate <= 1;
+}
+
 /**
  * Validates a regular expression pattern string by attempting to compile it.
  *
@@ -175,9 +208,52 @@ export function isNonEmptyArray<T>(arr: T[]): boolean {
   return Array.isArray(arr) && arr.length > 0;
 }
 
+/**
+ * Shape of the dataset schemas accepted by the schema validators
+ */
+type ValidatedDatasetSchema = {
+  entities: Record<
+    string,
+    {
+      count: number;
+      type: string;
+      fields?: Array<
+        | string
+        | {
+            name: string;
+            pattern?: CustomPattern;
+            type?: string;
+            unique?: boolean;
+            nullRate?: number;
+            omitRate?: number;
+          }
+      >;
+      unique?: string[];
+      uniqueKeys?: string[][];
+      constraints?: Array<{ field: string; operator: string; other: string }>;
+      idStrategy?: IdStrategy;
+      primaryKey?: string[];
+      relationships?: Record<
+        string,
+        {
+          references: string;
+          type: string;
+          nullable?: boolean;
+          nullRate?: number;
+          through?: string;
+          minLinks?: number;
+          maxLinks?: number;
+          cardinality?: CardinalityDefinition;
+        }
+      >;
+    }
+  >;
+};
+
 /**
  * Validates a complete dataset schema for structural correctness and referential integrity.
- * Checks entity counts, field definitions, relationship references, and circular dependencies.
+ * Checks entity counts, field definitions and their patterns, unique fields and their value
+ * spaces, unique keys and constraints, relationship references, and circular dependencies.
  *
  * @param {Object} schema - The dataset schema to validate
  * @param {Record<string, Object>} schema.entities - Map of entity names to definitions
@@ -203,53 +279,416 @@ export function isNonEmptyArray<T>(arr: T[]): boolean {
  * }
  * ```
  */
-export function validateDatasetSchema(schema: {
-  entities: Record<
-    string,
-    {
-      count: number;
-      type: string;
-      fields?: string[];
-      relationships?: Record<
-        string,
-        {
-          references: string;
-          type: string;
-          nullable?: boolean;
-        }
-      >;
+export function validateDatasetSchema(schema: ValidatedDatasetSchema): {
+  valid: boolean;
+  errors: string[];
+} {
+  const errors = collectDatasetSchemaIssues(schema).map((issue) => issue.message);
+
+  return {
+    valid: errors.length === 0,
+    errors,
+  };
+}
+
+/**
+ * Name of the field holding an entity's IDs: `id`, the single field of its primary key, or
+ * undefined for a composite primary key
+ */
+function idFieldOf(entity: { primaryKey?: string[] } | undefined): string | undefined {
+  if (!entity?.primaryKey) {
+    return 'id';
+  }
+  return entity.primaryKey.length === 1 ? entity.primaryKey[0] : undefined;
+}
+
+/**
+ * Checks the unique keys, constraints and primary key of an entity: they are only supported
+ * on custom entities and must name fields of the entity (or its ID field). A single-field
+ * primary key names the ID field, so it must not also be a field.
+ *
+ * @param {string} entityName - Entity name
+ * @param {Object} entity - Entity definition
+ * @param {Set<string>} fieldNames - Names of the entity's fields
+ * @returns {ToolErrorDetail[]} Problems found
+ */
+function collectEntityRuleIssues(
+  entityName: string,
+  entity: ValidatedDatasetSchema['entities'][string],
+  fieldNames: Set<string>
+): ToolErrorDetail[] {
+  const issues: ToolErrorDetail[] = [];
+  const entityPath = ['entities', entityName];
+  const idField = idFieldOf(entity);
+  const known = idField ? [...fieldNames, idField] : [...fieldNames];
+
+  if (entity.type !== 'custom') {
+    if (entity.primaryKey) {
+      issues.push({
+        code: 'unsupported_entity_rule',
+        path: toJsonPath([...entityPath, 'primaryKey']),
+        message: `Entity '${entityName}': primaryKey is only supported on custom entities`,
+        value: entity.primaryKey,
+        suggestion: `Remove primaryKey or make '${entityName}' a custom entity`,
+      });
     }
-  >;
-}): { valid: boolean; errors: string[] } {
-  const errors: string[] = [];
+    for (const rule of ['uniqueKeys', 'constraints'] as const) {
+      if (entity[rule]?.length) {
+        issues.push({
+          code: 'unsupported_entity_rule',
+          path: toJsonPath([...entityPath, rule]),
+          message: `Entity '${entityName}': ${rule} are only supported on custom entities`,
+          value: entity[rule],
+          suggestion: `Remove ${rule} or make '${entityName}' a custom entity`,
+        });
+      }
+    }
+    return issues;
+  }
+
+  const checkField = (field: string, path: Array<string | number>, rule: string): void => {
+    if (!known.includes(field)) {
+      issues.push({
+        code: 'unknown_field',
+        path: toJsonPath([...entityPath, ...path]),
+        message: `Entity '${entityName}' ${rule} references unknown field '${field}'`,
+        value: field,
+        expected: `one of: ${known.join(', ')}`,
+        suggestion: `Add '${field}' to the fields of '${entityName}' or use one of: ${known.join(', ')}`,
+      });
+    }
+  };
+
+  if (idField && idField !== 'id' && fieldNames.has(idField)) {
+    issues.push({
+      code: 'invalid_primary_key',
+      path: toJsonPath([...entityPath, 'primaryKey', 0]),
+      message: `Entity '${entityName}' primary key '${idField}' is also one of its fields`,
+      value: idField,
+      suggestion: `Remove '${idField}' from the fields; the primary key holds the entity's IDs`,
+    });
+  } else if (!idField) {
+    (entity.primaryKey ?? []).forEach((field, position) =>
+      checkField(field, ['primaryKey', position], 'primary key')
+    );
+  }
+
+  (entity.uniqueKeys ?? []).forEach((key, index) => {
+    key.forEach((field, position) =>
+      checkField(field, ['uniqueKeys', index, position], `unique key ${index}`)
+    );
+  });
+
+  (entity.constraints ?? []).forEach((constraint, index) => {
+    const rule = `constraint '${constraint.field} ${constraint.operator} ${constraint.other}'`;
+    checkField(constraint.field, ['constraints', index, 'field'], rule);
+    checkField(constraint.other, ['constraints', index, 'other'], rule);
+    if (constraint.field === constraint.other) {
+      issues.push({
+        code: 'invalid_constraint',
+        path: toJsonPath([...entityPath, 'constraints', index]),
+        message: `Entity '${entityName}' ${rule} compares a field with itself`,
+        value: constraint,
+        suggestion: 'Compare two different fields',
+      });
+    }
+  });
+
+  return issues;
+}
+
+/**
+ * Validates a dataset schema like validateDatasetSchema, but reports each problem with its
+ * JSON path (relative to the schema), the offending value, the expected constraint and a
+ * suggested fix, so tools can return them as structured errors.
+ *
+ * @param {Object} schema - The dataset schema to validate
+ * @returns {ToolErrorDetail[]} Problems found (empty if valid)
+ * @example
+ * ```typescript
+ * collectDatasetSchemaIssues({ entities: { users: { count: 0, type: 'person' } } });
+ * // Returns: [{ code: 'invalid_count', path: '$.entities.users.count', value: 0, ... }]
+ * ```
+ */
+export function collectDatasetSchemaIssues(schema: ValidatedDatasetSchema): ToolErrorDetail[] {
+  const issues: ToolErrorDetail[] = [];
+  const entityNames = Object.keys(schema.entities);
 
   // Check if entities object is empty
-  if (Object.keys(schema.entities).length === 0) {
-    errors.push('Schema must contain at least one entity');
-    return { valid: false, errors };
+  if (entityNames.length === 0) {
+    issues.push({
+      code: 'missing_entities',
+      path: '$.entities',
+      message: 'Schema must contain at least one entity',
+      expected: 'at least one entity',
+      suggestion: 'Add an entity such as { "users": { "count": 10, "type": "person" } }',
+    });
+    return issues;
   }
 
+  const junctionNames = new Set<string>();
+
   // Validate each entity
   for (const [entityName, entity] of Object.entries(schema.entities)) {
+    const entityPath = ['entities', entityName];
+
     // Validate entity count
     const countValidation = validateEntityCount(entity.count);
     if (!countValidation.valid) {
-      errors.push(`Entity '${entityName}': ${countValidation.error}`);
+      issues.push({
+        code: 'invalid_count',
+        path: toJsonPath([...entityPath, 'count']),
+        message: `Entity '${entityName}': ${countValidation.error}`,
+        value: entity.count,
+        expected: 'an integer between 1 and 10000',
+        suggestion: `Set the count of '${entityName}' to an integer between 1 and 10000`,
+      });
     }
 
     // Validate custom entities have fields
     if (entity.type === 'custom' && (!entity.fields || entity.fields.length === 0)) {
-      errors.push(`Custom entity '${entityName}' must have fields defined`);
+      issues.push({
+        code: 'missing_fields',
+        path: toJsonPath([...entityPath, 'fields']),
+        message: `Custom entity '${entityName}' must have fields defined`,
+        value: entity.fields,
+        expected: 'a non-empty array of field names or definitions',
+        suggestion: `Add fields to '${entityName}' or use the 'person', 'company' or 'product' type`,
+      });
     }
 
+    // Validate field definitions (unique names, valid patterns, no patterns on foreign keys)
+    const fieldNames = new Set<string>();
+    (entity.fields ?? []).forEach((field, index) => {
+      const fieldName = typeof field === 'string' ? field : field.name;
+      const fieldPath = [...entityPath, 'fields', index];
+
+      if (fieldNames.has(fieldName)) {
+        issues.push({
+          code: 'duplicate_field',
+          path: toJsonPath(fieldPath),
+          message: `Entity '${entityName}' field '${fieldName}' is defined more than once`,
+          value: field,
+          expected: 'unique field names',
+          suggestion: `Remove or rename the second '${fieldName}' field`,
+        });
+      }
+      fieldNames.add(fieldName);
+
+      if (typeof field === 'string') {
+        return;
+      }
+
+      const sparsity = [field, field.pattern].find(
+        (rates) => rates?.nullRate !== undefined || rates?.omitRate !== undefined
+      );
+      if (sparsity && entity.relationships?.[fieldName]) {
+        issues.push({
+          code: 'sparsity_on_relationship',
+          path: toJsonPath(sparsity === field ? fieldPath : [...fieldPath, 'pattern']),
+          message: `Entity '${entityName}' field '${fieldName}' is a relationship and cannot have null or omit rates`,
+          value: { nullRate: sparsity.nullRate, omitRate: sparsity.omitRate },
+          suggestion: `Set 'nullable' and 'nullRate' on the '${fieldName}' relationship instead`,
+        });
+      }
+
+      if (field.unique && entity.relationships?.[fieldName]) {
+        issues.push({
+          code: 'unique_on_relationship',
+          path: toJsonPath([...fieldPath, 'unique']),
+          message: `Entity '${entityName}' field '${fieldName}' is a relationship and cannot be unique`,
+          value: field.unique,
+          suggestion: `Remove 'unique'; use a one-to-one relationship for distinct references`,
+        });
+      } else if (field.unique) {
+        const space = field.pattern
+          ? estimatePatternValueSpace(field.pattern)
+          : estimateFieldTypeValueSpace(field.type as FieldType);
+        if (entity.count > space) {
+          issues.push({
+            ...describeValueSpaceIssue(
+              `Entity '${entityName}' field '${fieldName}'`,
+              entity.count,
+              space
+            ),
+            path: toJsonPath([...fieldPath, 'unique']),
+            value: field.pattern?.value ?? field.type,
+          });
+        }
+      }
+
+      if (!field.pattern) {
+        return;
+      }
+
+      if (entity.relationships?.[fieldName]) {
+        issues.push({
+          code: 'pattern_on_relationship',
+          path: toJsonPath([...fieldPath, 'pattern']),
+          message: `Entity '${entityName}' field '${fieldName}' is a relationship and cannot have a pattern`,
+          value: field.pattern,
+          suggestion: `Remove the pattern; '${fieldName}' takes its values from the referenced entity`,
+        });
+        return;
+      }
+
+      try {
+        validateCustomPattern(field.pattern);
+      } catch (error) {
+        issues.push({
+          ...describePatternIssue(field.pattern, error as Error),
+          path: toJsonPath([...fieldPath, 'pattern', 'value']),
+          message: `Entity '${entityName}' field '${fieldName}': invalid pattern: ${(error as Error).message}`,
+        });
+      }
+    });
+
+    // Validate entity-level unique fields belong to the entity type
+    const uniqueFields: string[] =
+      entity.type === 'person'
+        ? Object.values(PersonUniqueField)
+        : entity.type === 'company'
+          ? Object.values(CompanyUniqueField)
+          : entity.type === 'product'
+            ? Object.values(ProductUniqueField)
+            : [];
+    (entity.unique ?? []).forEach((field, index) => {
+      if (!uniqueFields.includes(field)) {
+        issues.push({
+          code: 'invalid_unique_field',
+          path: toJsonPath([...entityPath, 'unique', index]),
+          message: `Entity '${entityName}' cannot make '${field}' unique`,
+          value: field,
+          expected:
+            uniqueFields.length > 0
+              ? `one of: ${uniqueFields.join(', ')}`
+              : `no entity-level unique fields for ${entity.type} entities`,
+          suggestion:
+            uniqueFields.length > 0
+              ? `Use one of: ${uniqueFields.join(', ')}`
+              : `Set 'unique: true' on the field definition instead`,
+        });
+      }
+    });
+
+    // Validate unique keys and constraints reference fields of the entity
+    issues.push(...collectEntityRuleIssues(entityName, entity, fieldNames));
+
+    // Validate the ID pattern compiles and has room for every record
+    issues.push(
+      ...collectIdStrategyIssues(
+        entity.idStrategy,
+        entity.count,
+        [...entityPath, 'idStrategy'],
+        `Entity '${entityName}' ID pattern`
+      )
+    );
+
     // Validate relationships reference existing entities
-    if (entity.relationships) {
-      for (const [fieldName, relationship] of Object.entries(entity.relationships)) {
-        if (!schema.entities[relationship.references]) {
-          errors.push(
-            `Entity '${entityName}' field '${fieldName}' references non-existent entity '${relationship.references}'`
-          );
+    const lineItemFields: string[] = [];
+    for (const [fieldName, relationship] of Object.entries(entity.relationships ?? {})) {
+      const relationshipPath = [...entityPath, 'relationships', fieldName];
+      const prefix = `Entity '${entityName}' field '${fieldName}'`;
+
+      // Entities with a composite primary key have no IDs to point at
+      const keyless = [relationship.references, ...(relationship.through ? [entityName] : [])].find(
+        (name) => schema.entities[name] && !idFieldOf(schema.entities[name])
+      );
+      if (keyless) {
+        issues.push({
+          code: 'invalid_relationship',
+          path: toJsonPath(relationshipPath),
+          message: `${prefix}: '${keyless}' has a composite primary key and cannot be referenced`,
+          value: relationship,
+          suggestion: `Give '${keyless}' a single-field primary key or remove the relationship`,
+        });
+      }
+
+      if (!schema.entities[relationship.references]) {
+        issues.push({
+          code: 'unknown_reference',
+          path: toJsonPath([...relationshipPath, 'references']),
+          message: `${prefix} references non-existent entity '${relationship.references}'`,
+          value: relationship.references,
+          expected: `one of: ${entityNames.join(', ')}`,
+          suggestion: `Reference one of ${entityNames.join(', ')} or add an entity named '${relationship.references}'`,
+        });
+      }
+
+      if (relationship.nullRate !== undefined && !relationship.nullable) {
+        issues.push({
+          code: 'invalid_relationship',
+          path: toJsonPath([...relationshipPath, 'nullRate']),
+          message: `${prefix}: nullRate requires nullable to be true`,
+          value: relationship.nullRate,
+          suggestion: `Set 'nullable: true' on the relationship or remove nullRate`,
+        });
+      }
+
+      for (const error of validateManyToMany(relationship)) {
+        issues.push({
+          code: 'invalid_relationship',
+          path: toJsonPath(relationshipPath),
+          message: `${prefix}: ${error}`,
+          value: relationship,
+        });
+      }
+
+      for (const error of validateCardinality(
+        entityName,
+        entity.count,
+        relationship,
+        schema.entities[relationship.references]?.count
+      )) {
+        issues.push({
+          code: 'invalid_cardinality',
+          path: toJsonPath([...relationshipPath, 'cardinality']),
+          message: `${prefix}: ${error}`,
+          value: relationship.cardinality,
+        });
+      }
+
+      // Order line items are embedded in the order, one list per order
+      if (entity.type === 'order' && schema.entities[relationship.references]?.type === 'product') {
+        if (relationship.type !== 'many-to-many' || relationship.through) {
+          issues.push({
+            code: 'invalid_relationship',
+            path: toJsonPath(relationshipPath),
+            message: `${prefix}: order line items need a many-to-many relationship without through`,
+            value: relationship,
+            suggestion: `Set type to 'many-to-many' and remove through`,
+          });
         }
+        if (lineItemFields.length > 0) {
+          issues.push({
+            code: 'invalid_relationship',
+            path: toJsonPath([...relationshipPath, 'references']),
+            message: `${prefix}: order '${entityName}' already takes its line items from '${lineItemFields[0]}'`,
+            value: relationship.references,
+            suggestion: `Remove one of the relationships to product entities`,
+          });
+        }
+        lineItemFields.push(fieldName);
+      }
+
+      // Junction entities are added to the dataset, so their names must be free
+      if (relationship.through) {
+        const clash = schema.entities[relationship.through]
+          ? 'clashes with an existing entity'
+          : junctionNames.has(relationship.through)
+            ? 'is already used by another relationship'
+            : undefined;
+        if (clash) {
+          issues.push({
+            code: 'junction_conflict',
+            path: toJsonPath([...relationshipPath, 'through']),
+            message: `${prefix}: junction '${relationship.through}' ${clash}`,
+            value: relationship.through,
+            expected: 'a name not used by any entity or other junction',
+            suggestion: `Rename the junction, e.g. '${entityName}_${relationship.references}'`,
+          });
+        }
+        junctionNames.add(relationship.through);
       }
     }
   }
@@ -257,15 +696,209 @@ export function validateDatasetSchema(schema: {
   // Check for circular dependencies
   const circularDeps = detectCircularDependencies(schema);
   if (circularDeps.length > 0) {
-    errors.push(`Circular dependencies detected: ${circularDeps.join(', ')}`);
+    // Point at the relationship that leaves the first entity of the first cycle
+    const [from = '', to = ''] = (circularDeps[0] as string).split(' -> ');
+    const closingField = Object.entries(schema.entities[from]?.relationships ?? {}).find(
+      ([, relationship]) => relationship.references === to
+    )?.[0];
+
+    issues.push({
+      code: 'circular_dependency',
+      path: toJsonPath(
+        closingField ? ['entities', from, 'relationships', closingField] : ['entities', from]
+      ),
+      message: `Circular dependencies detected: ${circularDeps.join(', ')}`,
+      value: circularDeps,
+      expected: 'relationships without cycles (only nullable self-references may loop)',
+      suggestion:
+        from === to
+          ? `Make the self-reference of '${from}' nullable`
+          : `Remove one relationship of the cycle ${circularDeps[0]}`,
+    });
   }
 
+  return issues;
+}
+
+/**
+ * Describes why a custom pattern is invalid: the expected shape of its value and a fix.
+ *
+ * @param {CustomPattern} pattern - The invalid pattern
+ * @param {Error} error - Error raised by validateCustomPattern
+ * @returns {Omit<ToolErrorDetail, 'path'>} Detail without path
+ */
+function describePatternIssue(pattern: CustomPattern, error: Error): Omit<ToolErrorDetail, 'path'> {
+  const expectations: Record<string, { expected: string; suggestion: string }> = {
+    [PatternType.REGEX]: {
+      expected: 'a non-empty JavaScript regular expression',
+      suggestion: 'Close open groups and brackets, and escape literal special characters',
+    },
+    [PatternType.ENUM]: {
+      expected: 'a non-empty array of strings',
+      suggestion: 'List the allowed values as strings',
+    },
+    [PatternType.FORMAT]: {
+      expected: 'a template with {{year}}, {{random:N}} or {{number:N}} placeholders (N 1-100)',
+      suggestion: 'Use placeholder lengths between 1 and 100',
+    },
+    [PatternType.RANGE]: {
+      expected: 'an object { min, max, precision? } with min <= max',
+      suggestion: 'Swap min and max or adjust them so that min <= max',
+    },
+  };
+  const expectation = expectations[pattern.type] ?? {
+    expected: `one of the pattern types: ${Object.values(PatternType).join(', ')}`,
+    suggestion: 'Use a regex, enum, format or range pattern',
+  };
+
   return {
-    valid: errors.length === 0,
-    errors,
+    code: pattern.type === PatternType.REGEX ? 'invalid_regex' : 'invalid_pattern',
+    message: error.message,
+    value: pattern.value,
+    ...expectation,
   };
 }
 
+/**
+ * Validates the many-to-many specific options of a relationship.
+ * Junction names and link counts only make sense for many-to-many relationships,
+ * and the minimum link count must not exceed the maximum.
+ *
+ * @param {Object} relationship - The relationship definition to validate
+ * @returns {string[]} List of errors (empty if valid)
+ * @example
+ * ```typescript
+ * validateManyToMany({
+ *   references: 'roles',
+ *   type: 'many-to-many',
+ *   minLinks: 3,
+ *   maxLinks: 1
+ * });
+ * // Returns: ['minLinks (3) must be less than or equal to maxLinks (1)']
+ * ```
+ */
+export function validateManyToMany(relationship: {
+  type: string;
+  through?: string;
+  minLinks?: number;
+  maxLinks?: number;
+}): string[] {
+  const errors: string[] = [];
+  const isManyToMany = relationship.type === 'many-to-many';
+
+  if (!isManyToMany) {
+    if (
+      relationship.through !== undefined ||
+      relationship.minLinks !== undefined ||
+      relationship.maxLinks !== undefined
+    ) {
+      errors.push(
+        'through, minLinks and maxLinks are only supported for many-to-many relationships'
+      );
+    }
+    return errors;
+  }
+
+  const minLinks = relationship.minLinks ?? 1;
+  const maxLinks = relationship.maxLinks ?? Math.max(3, minLinks);
+
+  if (minLinks < 0) {
+    errors.push('minLinks must be at least 0');
+  }
+
+  if (minLinks > maxLinks) {
+    errors.push(`minLinks (${minLinks}) must be less than or equal to maxLinks (${maxLinks})`);
+  }
+
+  return errors;
+}
+
+/**
+ * Validates cardinality constraints of a one-to-many relationship.
+ * Besides the bounds themselves, checks that the child count can actually satisfy them:
+ * every parent needs `min` children, and non-nullable children must fit within `max` per parent.
+ *
+ * @param {string} entityName - Name of the child entity owning the relationship
+ * @param {number} childCount - Number of child records to generate
+ * @param {Object} relationship - The relationship definition carrying the cardinality
+ * @param {number} [parentCount] - Number of parent records (undefined if the parent does not exist)
+ * @returns {string[]} List of errors (empty if valid)
+ * @example
+ * ```typescript
+ * validateCardinality('orders', 5, {
+ *   references: 'users',
+ *   type: 'one-to-many',
+ *   cardinality: { min: 1 }
+ * }, 10);
+ * // Returns: ['cardinality min 1 needs at least 10 records, but count is 5']
+ * ```
+ */
+export function validateCardinality(
+  entityName: string,
+  childCount: number,
+  relationship: {
+    references: string;
+    type: string;
+    nullable?: boolean;
+    cardinality?: CardinalityDefinition;
+  },
+  parentCount?: number
+): string[] {
+  const errors: string[] = [];
+  const cardinality = relationship.cardinality;
+
+  if (!cardinality) {
+    return errors;
+  }
+
+  if (relationship.type !== 'one-to-many') {
+    errors.push('cardinality is only supported for one-to-many relationships');
+    return errors;
+  }
+
+  if (relationship.references === entityName) {
+    errors.push('cardinality is not supported for self-referencing relationships');
+    return errors;
+  }
+
+  const min = cardinality.min ?? 0;
+  const max = cardinality.max;
+
+  if (min < 0) {
+    errors.push('cardinality min must be at least 0');
+  }
+
+  if (max !== undefined && max < 1) {
+    errors.push('cardinality max must be at least 1');
+  }
+
+  if (max !== undefined && min > max) {
+    errors.push(`cardinality min (${min}) must be less than or equal to max (${max})`);
+  }
+
+  if (cardinality.skew !== undefined && cardinality.skew <= 0) {
+    errors.push('cardinality skew must be greater than 0');
+  }
+
+  if (parentCount === undefined || errors.length > 0) {
+    return errors;
+  }
+
+  if (parentCount * min > childCount) {
+    errors.push(
+      `cardinality min ${min} needs at least ${parentCount * min} records, but count is ${childCount}`
+    );
+  }
+
+  if (max !== undefined && !relationship.nullable && parentCount * max < childCount) {
+    errors.push(
+      `cardinality max ${max} allows at most ${parentCount * max} records, but count is ${childCount}`
+    );
+  }
+
+  return errors;
+}
+
 /**
  * Detects circular dependencies in entity relationships using depth-first search.
  * Circular dependencies prevent proper entity ordering and must be avoided.
@@ -390,3 +1023,272 @@ export function validateEntityCount(count: number): { valid: boolean; error?: st
 
   return { valid: true };
 }
+
+/**
+ * Validates all pattern definitions in a patterns map.
+ * Checks each pattern type (regex, enum, format, range) for correctness.
+ *
+ * @param {Record<string, CustomPattern>} patterns - Map of field names to patterns
+ * @param {number} [count] - Number of records to generate, checked against the distinct values of unique patterns
+ * @throws {ToolError} If any pattern is invalid, with field name, path and specific error, or a unique pattern has too few values
+ * @example
+ * ```typescript
+ * validatePatterns({
+ *   code: { type: PatternType.REGEX, value: '[A-Z]{3}' },
+ *   status: { type: PatternType.ENUM, value: ['active', 'inactive'] }
+ * });
+ * ```
+ */
+export function validatePatterns(patterns: Record<string, CustomPattern>, count?: number): void {
+  for (const [fieldName, pattern] of Object.entries(patterns)) {
+    try {
+      validateCustomPattern(pattern);
+    } catch (error) {
+      const message = `Invalid pattern for field '${fieldName}': ${(error as Error).message}`;
+      throw new ToolError(ToolErrorCode.INVALID_PATTERN, message, [
+        {
+          ...describePatternIssue(pattern, error as Error),
+          path: toJsonPath(['patterns', fieldName, 'value']),
+          message,
+        },
+      ]);
+    }
+
+    const space = pattern.unique && count !== undefined ? estimatePatternValueSpace(pattern) : 0;
+    if (space > 0 && count !== undefined && count > space) {
+      const issue = describeValueSpaceIssue(`Field '${fieldName}'`, count, space);
+      throw new ToolError(ToolErrorCode.VALUE_SPACE_TOO_SMALL, issue.message, [
+        { ...issue, path: toJsonPath(['patterns', fieldName, 'unique']), value: pattern.value },
+      ]);
+    }
+  }
+}
+
+/**
+ * Checks the pattern of a pattern ID strategy: it must be a valid regex producing at least
+ * as many distinct IDs as records are requested. Other strategies have nothing to check.
+ *
+ * @param {IdStrategy | undefined} strategy - ID strategy to check
+ * @param {number} count - Number of records requested
+ * @param {Array<string | number>} path - Path of the strategy in the arguments
+ * @param {string} [subject='ID pattern'] - Description of the pattern used in messages
+ * @returns {ToolErrorDetail[]} Problems found (empty if valid)
+ * @example
+ * ```typescript
+ * collectIdStrategyIssues({ type: IdStrategyType.PATTERN, pattern: '[0-9]' }, 50, ['idStrategy']);
+ * // Returns: [{ code: 'value_space_too_small', path: '$.idStrategy.pattern', ... }]
+ * ```
+ */
+export function collectIdStrategyIssues(
+  strategy: IdStrategy | undefined,
+  count: number,
+  path: Array<string | number>,
+  subject: string = 'ID pattern'
+): ToolErrorDetail[] {
+  if (strategy?.type !== IdStrategyType.PATTERN || strategy.pattern === undefined) {
+    return [];
+  }
+
+  const pattern: CustomPattern = { type: PatternType.REGEX, value: strategy.pattern };
+  const patternPath = toJsonPath([...path, 'pattern']);
+  try {
+    validateRegexPattern(strategy.pattern);
+  } catch (error) {
+    return [
+      {
+        ...describePatternIssue(pattern, error as Error),
+        path: patternPath,
+        message: `${subject}: ${(error as Error).message}`,
+      },
+    ];
+  }
+
+  const space = estimatePatternValueSpace(pattern);
+  if (count > space) {
+    return [
+      {
+        ...describeValueSpaceIssue(subject, count, space),
+        path: patternPath,
+        value: strategy.pattern,
+      },
+    ];
+  }
+
+  return [];
+}
+
+/**
+ * Describes a unique field whose pattern or type has fewer distinct values than records.
+ *
+ * @param {string} subject - Field description used in the message
+ * @param {number} count - Number of records requested
+ * @param {number} space - Number of distinct values available
+ * @returns {Omit<ToolErrorDetail, 'path'>} Detail without path
+ */
+function describeValueSpaceIssue(
+  subject: string,
+  count: number,
+  space: number
+): Omit<ToolErrorDetail, 'path'> {
+  return {
+    code: 'value_space_too_small',
+    message: `${subject} is unique but can produce at most ${space} distinct values, fewer than the ${count} requested`,
+    expected: `at least ${count} distinct values`,
+    suggestion: `Lower the count to ${space} or widen the pattern`,
+  };
+}
+
+/**
+ * Validates a single custom pattern definition according to its type.
+ *
+ * @param {CustomPattern} pattern - The pattern to validate
+ * @throws {Error} If the pattern value does not match its type's rules
+ * @example
+ * ```typescript
+ * validateCustomPattern({ type: PatternType.ENUM, value: ['active', 'inactive'] }); // Valid
+ * validateCustomPattern({ type: PatternType.RANGE, value: { min: 10, max: 1 } }); // Throws error
+ * ```
+ */
+export function validateCustomPattern(pattern: CustomPattern): void {
+  switch (pattern.type) {
+    case PatternType.REGEX:
+      validateRegexPattern(pattern.value as string);
+      break;
+    case PatternType.ENUM:
+      validateEnumPattern(pattern.value as string[]);
+      break;
+    case PatternType.FORMAT:
+      validateFormatPattern(pattern.value as string);
+      break;
+    case PatternType.RANGE:
+      validateRangePattern(pattern.value as RangePattern);
+      break;
+    default:
+      throw new Error(`Unsupported pattern type`);
+  }
+}
+
+/**
+ * Validates a regex pattern string by attempting to compile it.
+ *
+ * @param {string} regexValue - The regex pattern to validate
+ * @throws {Error} If the regex pattern is empty or has invalid syntax
+ * @example
+ * ```typescript
+ * validateRegexPattern('[A-Z]{3}-\\d{4}'); // Valid
+ * validateRegexPattern('[invalid'); // Throws error
+ * ```
+ */
+export function validateRegexPattern(regexValue: string): void {
+  if (typeof regexValue !== 'string' || regexValue.length === 0) {
+    throw new Error('Regex pattern must be a non-empty string');
+  }
+
+  try {
+    new RegExp(regexValue);
+  } catch (error) {
+    throw new Error(`Invalid regex syntax: ${(error as Error).message}`);
+  }
+}
+
+/**
+ * Validates an enum pattern array.
+ * Ensures the array is non-empty and contains only string values.
+ *
+ * @param {string[]} enumValues - Array of enum values
+ * @throws {Error} If the array is empty, not an array, or contains non-string values
+ * @example
+ * ```typescript
+ * validateEnumPattern(['active', 'inactive', 'pending']); // Valid
+ * validateEnumPattern([]); // Throws error
+ * validateEnumPattern([1, 2, 3]); // Throws error (not strings)
+ * ```
+ */
+export function validateEnumPattern(enumValues: string[]): void {
+  if (!Array.isArray(enumValues)) {
+    throw new Error('Enum pattern must be an array');
+  }
+
+  if (enumValues.length === 0) {
+    throw new Error('Enum pattern must have at least one value');
+  }
+
+  if (!enumValues.every((v) => typeof v === 'string')) {
+    throw new Error('Enum pattern must contain only string values');
+  }
+}
+
+/**
+ * Validates a format pattern string with placeholder syntax.
+ * Supports {{year}}, {{random:N}}, and {{number:N}} placeholders.
+ *
+ * @param {string} formatValue - The format template string
+ * @throws {Error} If the format is empty or contains invalid placeholders
+ * @example
+ * ```typescript
+ * validateFormatPattern('USER-{{number:4}}-{{year}}'); // Valid
+ * validateFormatPattern('CODE-{{random:5}}'); // Valid
+ * validateFormatPattern(''); // Throws error
+ * ```
+ */
+export function validateFormatPattern(formatValue: string): void {
+  if (typeof formatValue !== 'string' || formatValue.length === 0) {
+    throw new Error('Format pattern must be a non-empty string');
+  }
+
+  // Check for valid placeholder syntax
+  const placeholderRegex = /\{\{(year|random:\d+|number:\d+)\}\}/g;
+  const placeholders = formatValue.match(placeholderRegex);
+
+  if (placeholders) {
+    // Validate each placeholder
+    for (const placeholder of placeholders) {
+      if (placeholder.includes('random:') || placeholder.includes('number:')) {
+        const lengthMatch = placeholder.match(/:(\d+)\}\}/);
+        if (lengthMatch && lengthMatch[1]) {
+          const length = parseInt(lengthMatch[1], 10);
+          if (length <= 0 || length > 100) {
+            throw new Error(
+              `Invalid placeholder length in '${placeholder}': must be between 1 and 100`
+            );
+          }
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Validates a range pattern object.
+ * Ensures min/max are numbers, min <= max, and precision is valid.
+ *
+ * @param {RangePattern} rangeValue - The range pattern to validate
+ * @throws {Error} If the range is invalid (min > max, missing values, invalid precision)
+ * @example
+ * ```typescript
+ * validateRangePattern({ min: 0, max: 100 }); // Valid integer range
+ * validateRangePattern({ min: 0, max: 1, precision: 2 }); // Valid float range
+ * validateRangePattern({ min: 100, max: 0 }); // Throws error (min > max)
+ * ```
+ */
+export function validateRangePattern(rangeValue: RangePattern): void {
+  if (typeof rangeValue !== 'object' || rangeValue === null) {
+    throw new Error('Range pattern must be an object');
+  }
+
+  if (typeof rangeValue.min !== 'number' || typeof rangeValue.max !== 'number') {
+    throw new Error('Range pattern must have numeric min and max values');
+  }
+
+  if (rangeValue.min > rangeValue.max) {
+    throw new Error(
+      `Range pattern invalid: min (${rangeValue.min}) must be less than or equal to max (${rangeValue.max})`
+    );
+  }
+
+  if (rangeValue.precision !== undefined) {
+    if (typeof rangeValue.precision !== 'number' || rangeValue.precision < 0) {
+      throw new Error('Range pattern precision must be a non-negative number');
+    }
+  }
+}
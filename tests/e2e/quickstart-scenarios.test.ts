@@ -227,22 +227,33 @@ describe('Quickstart.md E2E Validation', () => {
   });
 
   describe('Error Handling', () => {
-    it('rejects invalid locale', async () => {
-      await expect(
-        client.callTool({
-          name: 'generate-person',
-          arguments: { count: 10, locale: 'invalid' },
-        })
-      ).rejects.toThrow();
+    // Tool failures come back as isError results with a JSON error payload
+    const getError = (result: any) => JSON.parse(result.content[1].text).error;
+
+    it('reports an invalid locale with its path and allowed values', async () => {
+      const result = await client.callTool({
+        name: 'generate-person',
+        arguments: { count: 10, locale: 'invalid' },
+      });
+
+      expect(result.isError).toBe(true);
+      expect(getError(result)).toMatchObject({
+        code: 'invalid_parameters',
+        details: [{ path: '$.locale', value: 'invalid', expected: expect.stringContaining('en') }],
+      });
     });
 
-    it('rejects count exceeding maximum', async () => {
-      await expect(
-        client.callTool({
-          name: 'generate-person',
-          arguments: { count: 10001 },
-        })
-      ).rejects.toThrow();
+    it('reports a count exceeding the maximum', async () => {
+      const result = await client.callTool({
+        name: 'generate-person',
+        arguments: { count: 10001 },
+      });
+
+      expect(result.isError).toBe(true);
+      expect(getError(result)).toMatchObject({
+        code: 'invalid_parameters',
+        details: [{ path: '$.count', value: 10001 }],
+      });
     });
   });
 
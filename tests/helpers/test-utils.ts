@@ -1,5 +1,9 @@
 import { Faker, en } from '@faker-js/faker';
 import { expect } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import type { JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js';
+import type { FakerMCPServer } from '../../src/server.js';
 
 /**
  * Creates a seeded Faker instance for testing
@@ -39,7 +43,7 @@ export const assertions = {
   /**
    * Assert that generated IDs are unique
    */
-  toHaveUniqueIds(records: Array<{ id: string }>): void {
+  toHaveUniqueIds(records: Array<{ id: string | number }>): void {
     const ids = records.map((r) => r.id);
     const uniqueIds = new Set(ids);
     expect(uniqueIds.size).toBe(ids.length);
@@ -59,6 +63,48 @@ export function createMockToolRequest(toolName: string, args: Record<string, unk
   };
 }
 
+/**
+ * In-memory transport delivering messages to a linked peer
+ */
+class LinkedTransport implements Transport {
+  peer?: LinkedTransport;
+  onclose?: () => void;
+  onerror?: (error: Error) => void;
+  onmessage?: (message: JSONRPCMessage) => void;
+
+  async start(): Promise<void> {}
+
+  async send(message: JSONRPCMessage): Promise<void> {
+    // Deliver asynchronously, like a real transport
+    await Promise.resolve();
+    this.peer?.onmessage?.(message);
+  }
+
+  async close(): Promise<void> {
+    const peer = this.peer;
+    this.peer = undefined;
+    this.onclose?.();
+    if (peer?.peer) {
+      await peer.close();
+    }
+  }
+}
+
+/**
+ * Connects an MCP client to a server through in-memory transports
+ */
+export async function connectTestClient(server: FakerMCPServer): Promise<Client> {
+  const clientTransport = new LinkedTransport();
+  const serverTransport = new LinkedTransport();
+  clientTransport.peer = serverTransport;
+  serverTransport.peer = clientTransport;
+
+  const client = new Client({ name: 'test-client', version: '1.0.0' }, { capabilities: {} });
+  await server.getServer().connect(serverTransport);
+  await client.connect(clientTransport);
+  return client;
+}
+
 /**
  * Test data factories
  */
@@ -0,0 +1,169 @@
+import { describe, it, expect } from 'vitest';
+import { PersonGenerator } from '../../src/generators/person-generator.js';
+import { CompanyGenerator } from '../../src/generators/company-generator.js';
+import { ProductGenerator } from '../../src/generators/product-generator.js';
+import { FinancialGenerator } from '../../src/generators/financial-generator.js';
+import { LogGenerator } from '../../src/generators/log-generator.js';
+import { TimeSeriesGenerator } from '../../src/generators/timeseries-generator.js';
+import { CustomGenerator } from '../../src/generators/custom-generator.js';
+import { DatasetGenerator } from '../../src/generators/dataset-generator.js';
+import {
+  CardinalityDistribution,
+  EntityType,
+  LogType,
+  PatternType,
+  RelationshipType,
+  SupportedLocale,
+  TimeSeriesSpacing,
+} from '../../src/types/schema.js';
+
+/**
+ * Golden output regression tests.
+ *
+ * Seeded runs must be bit-for-bit reproducible across runs, days and time zones.
+ * These tests pin the exact output of every generator in tests/integration/golden/.
+ * A diff here means seeded output changed: only update the golden files
+ * (`vitest run -u`) for an intentional change, and call it out in the changelog.
+ */
+describe('Golden outputs', () => {
+  const toJson = (value: unknown) => `${JSON.stringify(value, null, 2)}\n`;
+
+  it('should reproduce person records', async () => {
+    const persons = await new PersonGenerator({ seed: 20250101 }).generateMany(3, {
+      includeDateOfBirth: true,
+    });
+
+    await expect(toJson(persons)).toMatchFileSnapshot('./golden/person.json');
+  });
+
+  it('should reproduce localized person records with an explicit reference date', async () => {
+    const persons = await new PersonGenerator({
+      seed: 20250101,
+      locale: SupportedLocale.FR,
+      referenceDate: '2010-03-01T12:00:00Z',
+    }).generateMany(2, { includeDateOfBirth: true });
+
+    await expect(toJson(persons)).toMatchFileSnapshot('./golden/person-fr.json');
+  });
+
+  it('should reproduce company records', async () => {
+    const companies = await new CompanyGenerator({ seed: 20250101 }).generateMany(3, {
+      includeFoundedYear: true,
+      includeEmployeeCount: true,
+    });
+
+    await expect(toJson(companies)).toMatchFileSnapshot('./golden/company.json');
+  });
+
+  it('should reproduce product records', async () => {
+    const products = await new ProductGenerator({ seed: 20250101 }).generateMany(3, {
+      includeDimensions: true,
+    });
+
+    await expect(toJson(products)).toMatchFileSnapshot('./golden/product.json');
+  });
+
+  it('should reproduce bank accounts and ledger transactions', async () => {
+    const generator = new FinancialGenerator({ seed: 20250101, locale: SupportedLocale.DE });
+    const accounts = await generator.generateAccounts(2);
+    const transactions = await generator.generateTransactions(2);
+
+    await expect(toJson({ accounts, transactions })).toMatchFileSnapshot('./golden/financial.json');
+  });
+
+  it('should reproduce access, auth and application logs', async () => {
+    const generator = new LogGenerator({ seed: 20250101 });
+    const logs = {
+      access: await generator.generateMany(2, { type: LogType.ACCESS }),
+      auth: await generator.generateMany(2, { type: LogType.AUTH }),
+      app: await generator.generateMany(2, { type: LogType.APP }),
+    };
+
+    await expect(toJson(logs)).toMatchFileSnapshot('./golden/logs.json');
+  });
+
+  it('should reproduce time series with seasonality, spikes and gaps', async () => {
+    const series = await new TimeSeriesGenerator({ seed: 20250101 }).generateMany({
+      metrics: [
+        { name: 'cpu', baseline: 40, trend: 2, seasonality: { daily: 15 }, noise: 3, min: 0 },
+        { name: 'requests', baseline: 500, randomWalk: 20, spikes: { rate: 0.2, magnitude: 800 } },
+      ],
+      interval: 3 * 3_600_000,
+      spacing: TimeSeriesSpacing.IRREGULAR,
+      gaps: { rate: 0.15, maxLength: 2 },
+    });
+
+    await expect(toJson(series)).toMatchFileSnapshot('./golden/timeseries.json');
+  });
+
+  it('should reproduce custom pattern records', async () => {
+    const records = await new CustomGenerator({ seed: 20250101 }).generateMany(3, {
+      patterns: {
+        sku: { type: PatternType.REGEX, value: '[A-Z]{3}-\\d{4}' },
+        status: { type: PatternType.ENUM, value: ['active', 'inactive', 'pending'] },
+        reference: { type: PatternType.FORMAT, value: 'REF-{{year}}-{{random:4}}-{{number:3}}' },
+        price: { type: PatternType.RANGE, value: { min: 1, max: 500, precision: 2 } },
+      },
+    });
+
+    await expect(toJson(records)).toMatchFileSnapshot('./golden/custom.json');
+  });
+
+  it('should reproduce datasets with relationships', async () => {
+    const result = await new DatasetGenerator({ seed: 20250101 }).generateDataset({
+      entities: {
+        users: { count: 3, type: EntityType.PERSON, fields: ['id', 'fullName', 'email'] },
+        roles: {
+          count: 2,
+          type: EntityType.CUSTOM,
+          fields: [{ name: 'name', pattern: { type: PatternType.ENUM, value: ['admin', 'user'] } }],
+        },
+        orders: {
+          count: 6,
+          type: EntityType.CUSTOM,
+          fields: ['userId', 'amount', 'status', 'orderDate'],
+          relationships: {
+            userId: {
+              references: 'users',
+              type: RelationshipType.ONE_TO_MANY,
+              cardinality: { min: 1, distribution: CardinalityDistribution.ZIPF },
+            },
+          },
+        },
+        memberships: {
+          count: 2,
+          type: EntityType.CUSTOM,
+          fields: ['roleIds'],
+          relationships: {
+            roleIds: {
+              references: 'roles',
+              type: RelationshipType.MANY_TO_MANY,
+              through: 'memberships_roles',
+            },
+          },
+        },
+      },
+    });
+
+    await expect(toJson(result)).toMatchFileSnapshot('./golden/dataset.json');
+  });
+
+  it('should reproduce orders priced from a product catalog', async () => {
+    const result = await new DatasetGenerator({ seed: 20250101 }).generateDataset({
+      entities: {
+        customers: { count: 2, type: EntityType.PERSON },
+        products: { count: 3, type: EntityType.PRODUCT },
+        orders: {
+          count: 3,
+          type: EntityType.ORDER,
+          relationships: {
+            customerId: { references: 'customers', type: RelationshipType.ONE_TO_MANY },
+            items: { references: 'products', type: RelationshipType.MANY_TO_MANY },
+          },
+        },
+      },
+    });
+
+    await expect(toJson(result.dataset['orders'])).toMatchFileSnapshot('./golden/orders.json');
+  });
+});
@@ -0,0 +1,269 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { existsSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { FakerMCPServer, TransportType } from '../../src/server.js';
+import { generatePersonTool, handleGeneratePerson } from '../../src/tools/generate-person.js';
+import {
+  generateFromOpenApiTool,
+  handleGenerateFromOpenApi,
+} from '../../src/tools/generate-from-openapi.js';
+import {
+  generateFromDbSchemaTool,
+  handleGenerateFromDbSchema,
+} from '../../src/tools/generate-from-db-schema.js';
+
+/**
+ * Integration tests for the streamable HTTP and legacy SSE transports
+ */
+describe('HTTP transport', () => {
+  const TOKEN = 'test-token';
+  let server: FakerMCPServer;
+  let baseUrl: string;
+
+  const initializeRequest = {
+    jsonrpc: '2.0',
+    id: 1,
+    method: 'initialize',
+    params: {
+      protocolVersion: '2024-11-05',
+      capabilities: {},
+      clientInfo: { name: 'http-test', version: '1.0.0' },
+    },
+  };
+
+  const post = (path: string, body: unknown, headers: Record<string, string> = {}) =>
+    fetch(`${baseUrl}${path}`, {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${TOKEN}`,
+        'Content-Type': 'application/json',
+        Accept: 'application/json, text/event-stream',
+        ...headers,
+      },
+      body: JSON.stringify(body),
+    });
+
+  /** Parses the JSON-RPC messages of an SSE response body */
+  const readEvents = async (response: Response) =>
+    (await response.text())
+      .split('\n')
+      .filter((line) => line.startsWith('data: '))
+      .map((line) => JSON.parse(line.slice('data: '.length)) as Record<string, unknown>);
+
+  /** Initializes a streamable HTTP session and returns its id */
+  const initialize = async () => {
+    const response = await post('/mcp', initializeRequest);
+    const sessionId = response.headers.get('mcp-session-id') as string;
+    await response.text();
+    const initialized = { jsonrpc: '2.0', method: 'notifications/initialized' };
+    const ack = await post('/mcp', initialized, { 'Mcp-Session-Id': sessionId });
+    expect(ack.status).toBe(202);
+    return sessionId;
+  };
+
+  beforeEach(async () => {
+    server = new FakerMCPServer();
+    server.registerTool(generatePersonTool, handleGeneratePerson);
+    server.registerTool(generateFromOpenApiTool, handleGenerateFromOpenApi);
+    server.registerTool(generateFromDbSchemaTool, handleGenerateFromDbSchema);
+    await server.start({ transport: TransportType.HTTP, port: 0, authToken: TOKEN });
+    baseUrl = `http://127.0.0.1:${server.getHttpAddress()?.port}`;
+  });
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  it('should start a session on initialize and answer requests on an SSE stream', async () => {
+    const response = await post('/mcp', initializeRequest);
+    const sessionId = response.headers.get('mcp-session-id');
+    const [initialized] = await readEvents(response);
+
+    expect(response.headers.get('content-type')).toBe('text/event-stream');
+    expect(sessionId).toMatch(/^[0-9a-f-]{36}$/);
+    expect(initialized).toMatchObject({
+      id: 1,
+      result: { serverInfo: { name: 'faker-mcp-server' } },
+    });
+
+    const call = await post(
+      '/mcp',
+      {
+        jsonrpc: '2.0',
+        id: 2,
+        method: 'tools/call',
+        params: { name: 'generate-person', arguments: { count: 2, seed: 1 } },
+      },
+      { 'Mcp-Session-Id': sessionId as string }
+    );
+    const [result] = await readEvents(call);
+    const content = (result?.result as { content: Array<{ text?: string }> }).content;
+
+    expect(content[0]?.text).toContain('Generated 2 person records');
+  });
+
+  it('should answer with JSON, including batches, when the client does not accept SSE', async () => {
+    const sessionId = await initialize();
+    const response = await post(
+      '/mcp',
+      [
+        { jsonrpc: '2.0', id: 'a', method: 'tools/list' },
+        { jsonrpc: '2.0', id: 'b', method: 'ping' },
+      ],
+      { 'Mcp-Session-Id': sessionId, Accept: 'application/json' }
+    );
+    const body = (await response.json()) as Array<{ id: string; result: { tools?: unknown[] } }>;
+
+    expect(response.headers.get('content-type')).toBe('application/json');
+    expect(body.map((message) => message.id).sort()).toEqual(['a', 'b']);
+    expect(body.find((message) => message.id === 'a')?.result.tools).toHaveLength(3);
+  });
+
+  it('should end the POST of a tool call the client cancels', async () => {
+    let started = (): void => undefined;
+    server.registerTool(
+      { name: 'wait', description: 'Waits until cancelled', inputSchema: { type: 'object' } },
+      (_args, context) =>
+        new Promise((resolve) => {
+          context?.signal?.addEventListener('abort', () => resolve({ content: [] }));
+          started();
+        })
+    );
+    const sessionId = await initialize();
+
+    for (const [id, accept] of [
+      [20, 'application/json, text/event-stream'],
+      [21, 'application/json'],
+    ] as const) {
+      const running = new Promise<void>((resolve) => (started = resolve));
+      const call = post(
+        '/mcp',
+        { jsonrpc: '2.0', id, method: 'tools/call', params: { name: 'wait', arguments: {} } },
+        { 'Mcp-Session-Id': sessionId, Accept: accept }
+      );
+      await running;
+
+      const cancel = await post(
+        '/mcp',
+        { jsonrpc: '2.0', method: 'notifications/cancelled', params: { requestId: id } },
+        { 'Mcp-Session-Id': sessionId }
+      );
+      const response = await call;
+
+      expect(cancel.status).toBe(202);
+      expect(await response.text()).toBe('');
+    }
+  });
+
+  it('should reject requests without a valid session and end deleted sessions', async () => {
+    const list = { jsonrpc: '2.0', id: 3, method: 'tools/list' };
+    expect((await post('/mcp', list)).status).toBe(400);
+    expect((await post('/mcp', list, { 'Mcp-Session-Id': 'unknown' })).status).toBe(404);
+
+    const sessionId = await initialize();
+    const deleted = await fetch(`${baseUrl}/mcp`, {
+      method: 'DELETE',
+      headers: { Authorization: `Bearer ${TOKEN}`, 'Mcp-Session-Id': sessionId },
+    });
+
+    expect(deleted.status).toBe(204);
+    expect((await post('/mcp', list, { 'Mcp-Session-Id': sessionId })).status).toBe(404);
+  });
+
+  it('should require the bearer token except for the health check', async () => {
+    const unauthorized = await post('/mcp', initializeRequest, { Authorization: 'Bearer wrong' });
+    const health = await fetch(`${baseUrl}/health`);
+
+    expect(unauthorized.status).toBe(401);
+    expect(unauthorized.headers.get('www-authenticate')).toBe('Bearer');
+    expect(health.status).toBe(200);
+    expect(await health.json()).toEqual({ status: 'ok' });
+  });
+
+  it('should refuse tool arguments naming server files', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'faker-mcp-'));
+    const outputPath = join(dir, 'people.ndjson');
+    const specPath = join(dir, 'openapi.json');
+    const sourcePath = join(dir, 'schema.sql');
+    writeFileSync(specPath, JSON.stringify({ openapi: '3.0.0', info: { title: 'Spec' } }));
+    writeFileSync(sourcePath, 'CREATE TABLE users (id INTEGER PRIMARY KEY);');
+
+    try {
+      const sessionId = await initialize();
+      const calls: Array<[string, Record<string, unknown>, string]> = [
+        ['generate-person', { count: 5, outputFormat: 'ndjson', outputPath }, 'outputPath'],
+        ['generate-from-openapi', { specPath }, 'specPath'],
+        ['generate-from-db-schema', { sourcePath }, 'sourcePath'],
+      ];
+
+      for (const [index, [name, args, argument]] of calls.entries()) {
+        const response = await post(
+          '/mcp',
+          {
+            jsonrpc: '2.0',
+            id: 10 + index,
+            method: 'tools/call',
+            params: { name, arguments: args },
+          },
+          { 'Mcp-Session-Id': sessionId, Accept: 'application/json' }
+        );
+        const { result } = (await response.json()) as {
+          result: { isError?: boolean; content: Array<{ text: string }> };
+        };
+        const payload = JSON.parse(result.content[1]?.text ?? '{}') as {
+          error: { code: string; details: Array<{ path: string }> };
+        };
+
+        expect(result.isError).toBe(true);
+        expect(payload.error.code).toBe('file_access_denied');
+        expect(payload.error.details[0]?.path).toBe(`$.${argument}`);
+      }
+      expect(existsSync(outputPath)).toBe(false);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('should refuse to listen beyond loopback without an auth token', async () => {
+    const open = new FakerMCPServer();
+
+    await expect(
+      open.start({ transport: TransportType.HTTP, host: '0.0.0.0', port: 0 })
+    ).rejects.toThrow('Refusing to serve HTTP on 0.0.0.0 without authentication');
+    expect(open.getHttpAddress()).toBeUndefined();
+    await open.close();
+  });
+
+  it('should serve legacy SSE clients', async () => {
+    const controller = new AbortController();
+    const stream = await fetch(`${baseUrl}/sse`, {
+      headers: { Authorization: `Bearer ${TOKEN}`, Accept: 'text/event-stream' },
+      signal: controller.signal,
+    });
+    const reader = (stream.body as ReadableStream<Uint8Array>).getReader();
+    const decoder = new TextDecoder();
+    let received = '';
+    const nextEvent = async () => {
+      while (!received.includes('\n\n')) {
+        const { value } = await reader.read();
+        received += decoder.decode(value);
+      }
+      const [event, ...rest] = received.split('\n\n');
+      received = rest.join('\n\n');
+      return /data: (.*)/.exec(event as string)?.[1] ?? '';
+    };
+
+    const endpoint = await nextEvent();
+    expect(endpoint).toMatch(/^\/messages\?sessionId=/);
+
+    const accepted = await post(endpoint, initializeRequest);
+    expect(accepted.status).toBe(202);
+    expect(JSON.parse(await nextEvent())).toMatchObject({
+      id: 1,
+      result: { protocolVersion: '2024-11-05' },
+    });
+
+    controller.abort();
+  });
+});
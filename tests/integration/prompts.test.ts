@@ -0,0 +1,77 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import type { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { GetPromptResultSchema, ListPromptsResultSchema } from '@modelcontextprotocol/sdk/types.js';
+import { FakerMCPServer } from '../../src/server.js';
+import { generateDatasetTool, handleGenerateDataset } from '../../src/tools/generate-dataset.js';
+import { FIXTURE_SCENARIOS, handleFixturePrompt } from '../../src/prompts/fixture-prompts.js';
+import { connectTestClient } from '../helpers/test-utils.js';
+
+/**
+ * Integration tests for MCP prompts
+ */
+describe('MCP Prompts', () => {
+  let client: Client;
+
+  beforeEach(async () => {
+    const server = new FakerMCPServer();
+    server.registerTool(generateDatasetTool, handleGenerateDataset);
+    for (const scenario of FIXTURE_SCENARIOS) {
+      server.registerPrompt(scenario.prompt, (args) => handleFixturePrompt(scenario, args));
+    }
+    client = await connectTestClient(server);
+  });
+
+  afterEach(async () => {
+    await client.close();
+  });
+
+  it('should list the fixture prompts', async () => {
+    const { prompts } = await client.request({ method: 'prompts/list' }, ListPromptsResultSchema);
+
+    expect(prompts.map((prompt) => prompt.name)).toEqual([
+      'ecommerce-test-database',
+      'saas-multi-tenant-users',
+      'hr-directory',
+    ]);
+  });
+
+  it('should expand a prompt into arguments that generate-dataset accepts', async () => {
+    const { messages } = await client.request(
+      {
+        method: 'prompts/get',
+        params: { name: 'ecommerce-test-database', arguments: { locale: 'fr', seed: '3' } },
+      },
+      GetPromptResultSchema
+    );
+    const text = messages[0]?.content.type === 'text' ? messages[0].content.text : '';
+    const args = JSON.parse(/```json\n([\s\S]*?)\n```/.exec(text)?.[1] ?? '{}') as Record<
+      string,
+      unknown
+    >;
+
+    const result = (await client.callTool({ name: 'generate-dataset', arguments: args })) as {
+      content: Array<{ text?: string }>;
+    };
+    const { dataset, metadata } = JSON.parse(result.content[0]?.text ?? '') as {
+      dataset: Record<string, Array<Record<string, unknown>>>;
+      metadata: { seed: number };
+    };
+
+    expect(args).toMatchObject({ locale: 'fr', seed: 3 });
+    expect(metadata.seed).toBe(3);
+    const orderIds = new Set(dataset.orders?.map((order) => order.id));
+    dataset.order_items?.forEach((item) => expect(orderIds.has(item.orderId)).toBe(true));
+  });
+
+  it('should reject unknown prompts and invalid arguments', async () => {
+    await expect(
+      client.request({ method: 'prompts/get', params: { name: 'blog' } }, GetPromptResultSchema)
+    ).rejects.toThrow('Unknown prompt: blog');
+    await expect(
+      client.request(
+        { method: 'prompts/get', params: { name: 'hr-directory', arguments: { locale: 'xx' } } },
+        GetPromptResultSchema
+      )
+    ).rejects.toThrow('Prompt expansion failed: Invalid arguments: locale');
+  });
+});
@@ -0,0 +1,108 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import type { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import {
+  ListResourcesResultSchema,
+  ListResourceTemplatesResultSchema,
+  ReadResourceResultSchema,
+} from '@modelcontextprotocol/sdk/types.js';
+import { FakerMCPServer } from '../../src/server.js';
+import { generatePersonTool, handleGeneratePerson } from '../../src/tools/generate-person.js';
+import { generateDatasetTool, handleGenerateDataset } from '../../src/tools/generate-dataset.js';
+import { connectTestClient } from '../helpers/test-utils.js';
+
+/**
+ * Integration tests for generated data exposed as MCP resources
+ */
+describe('MCP Resources', () => {
+  let server: FakerMCPServer;
+  let client: Client;
+
+  beforeEach(async () => {
+    server = new FakerMCPServer({ resources: { maxEntries: 2 } });
+    server.registerTool(generatePersonTool, handleGeneratePerson);
+    server.registerTool(generateDatasetTool, handleGenerateDataset);
+    client = await connectTestClient(server);
+  });
+
+  afterEach(async () => {
+    await client.close();
+  });
+
+  const callTool = async (name: string, args: Record<string, unknown>) =>
+    (await client.callTool({ name, arguments: args })) as {
+      content: Array<{ type: string; text?: string; resource?: { uri: string; text: string } }>;
+    };
+
+  it('should rewrite resource blocks to stable URIs and name the generation', async () => {
+    const result = await callTool('generate-person', { count: 3, seed: 1 });
+    const resource = result.content[1]?.resource;
+    const note = result.content[result.content.length - 1]?.text;
+
+    expect(resource?.uri).toMatch(/^faker:\/\/datasets\/[0-9a-f-]{36}\/generated$/);
+    expect(note).toContain(`Stored as ${resource?.uri.replace(/\/generated$/, '')}`);
+  });
+
+  it('should list and re-read generations and dataset entities', async () => {
+    const person = await callTool('generate-person', { count: 3, seed: 1 });
+    await callTool('generate-dataset', {
+      schema: {
+        entities: {
+          users: { count: 2, type: 'person' },
+          orders: {
+            count: 4,
+            type: 'custom',
+            fields: ['userId', 'total'],
+            relationships: { userId: { references: 'users', type: 'one-to-many' } },
+          },
+        },
+      },
+      seed: 2,
+    });
+
+    const { resources } = await client.request(
+      { method: 'resources/list' },
+      ListResourcesResultSchema
+    );
+    const ordersUri = resources.find((resource) => resource.uri.endsWith('/entities/orders'))?.uri;
+    expect(ordersUri).toBeDefined();
+
+    const orders = await client.request(
+      { method: 'resources/read', params: { uri: ordersUri as string } },
+      ReadResourceResultSchema
+    );
+    expect(JSON.parse(orders.contents[0]?.text as string)).toHaveLength(4);
+
+    const personUri = person.content[1]?.resource?.uri as string;
+    const persons = await client.request(
+      { method: 'resources/read', params: { uri: personUri } },
+      ReadResourceResultSchema
+    );
+    expect(persons.contents[0]?.text).toBe(person.content[1]?.resource?.text);
+  });
+
+  it('should advertise URI templates', async () => {
+    const { resourceTemplates } = await client.request(
+      { method: 'resources/templates/list' },
+      ListResourceTemplatesResultSchema
+    );
+
+    expect(resourceTemplates.map((template) => template.uriTemplate)).toEqual([
+      'faker://datasets/{id}',
+      'faker://datasets/{id}/{part}',
+      'faker://datasets/{id}/entities/{entity}',
+    ]);
+  });
+
+  it('should reject evicted generations', async () => {
+    const first = await callTool('generate-person', { count: 1, seed: 1 });
+    await callTool('generate-person', { count: 1, seed: 2 });
+    await callTool('generate-person', { count: 1, seed: 3 });
+
+    await expect(
+      client.request(
+        { method: 'resources/read', params: { uri: first.content[1]?.resource?.uri as string } },
+        ReadResourceResultSchema
+      )
+    ).rejects.toThrow('Resource not found');
+  });
+});
@@ -1,9 +1,21 @@
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
 import { FakerMCPServer } from '../../src/server.js';
 import { generatePersonTool, handleGeneratePerson } from '../../src/tools/generate-person.js';
 import { generateCompanyTool, handleGenerateCompany } from '../../src/tools/generate-company.js';
+import { handleGenerateProduct } from '../../src/tools/generate-product.js';
+import { handleGenerateFinancial } from '../../src/tools/generate-financial.js';
+import { handleGenerateLogs } from '../../src/tools/generate-logs.js';
+import { handleGenerateTimeSeries } from '../../src/tools/generate-timeseries.js';
 import { generateDatasetTool, handleGenerateDataset } from '../../src/tools/generate-dataset.js';
 import { generateCustomTool, handleGenerateCustom } from '../../src/tools/generate-custom.js';
+import { handleGenerateFromJsonSchema } from '../../src/tools/generate-from-json-schema.js';
+import { handleGenerateFromOpenApi } from '../../src/tools/generate-from-openapi.js';
+import { handleGenerateFromDbSchema } from '../../src/tools/generate-from-db-schema.js';
+import { EntityType } from '../../src/types/schema.js';
+import { connectTestClient } from '../helpers/test-utils.js';
 
 describe('MCP Server Integration Tests', () => {
   let server: FakerMCPServer;
@@ -22,23 +34,23 @@ describe('MCP Server Integration Tests', () => {
       expect(() => {
         server.registerTool(generatePersonTool, handleGeneratePerson);
         server.registerTool(generateCompanyTool, handleGenerateCompany);
-        server.registerTool(generateDatasetTool, async (args) => {
-          await Promise.resolve();
-          return handleGenerateDataset(args);
-        });
+        server.registerTool(generateDatasetTool, handleGenerateDataset);
         server.registerTool(generateCustomTool, handleGenerateCustom);
       }).not.toThrow();
     });
+
+    it('should list every entity type in the dataset tool description', () => {
+      Object.values(EntityType).forEach((type) =>
+        expect(generateDatasetTool.description).toContain(type)
+      );
+    });
   });
 
   describe('Tool Execution', () => {
     beforeEach(() => {
       server.registerTool(generatePersonTool, handleGeneratePerson);
       server.registerTool(generateCompanyTool, handleGenerateCompany);
-      server.registerTool(generateDatasetTool, async (args) => {
-        await Promise.resolve();
-        return handleGenerateDataset(args);
-      });
+      server.registerTool(generateDatasetTool, handleGenerateDataset);
       server.registerTool(generateCustomTool, handleGenerateCustom);
     });
 
@@ -66,6 +78,156 @@ describe('MCP Server Integration Tests', () => {
       expect(data.data).toHaveLength(3);
     });
 
+    it('should generate product data successfully', async () => {
+      const result = await handleGenerateProduct({
+        count: 4,
+        currency: 'EUR',
+        includeDimensions: true,
+        outputFormat: 'csv',
+      });
+
+      const resource = result.content[1] as { resource: { uri: string; text: string } };
+      const [header, ...rows] = resource.resource.text.trim().split('\n');
+      expect(resource.resource.uri).toBe('faker://products/generated.csv');
+      expect(header?.split(',')).toEqual(
+        expect.arrayContaining(['sku', 'categoryPath', 'price', 'currency', 'weight.value', 'ean'])
+      );
+      expect(rows).toHaveLength(4);
+    });
+
+    it('should reject inverted product price ranges', () => {
+      expect(() => handleGenerateProduct({ priceRange: { min: 50, max: 10 } })).toThrow(
+        'min must not be greater than max'
+      );
+    });
+
+    it('should generate German bank accounts successfully', async () => {
+      const result = await handleGenerateFinancial({ count: 3, locale: 'de', seed: 7 });
+
+      const resource = result.content[1] as { resource: { uri: string; text: string } };
+      const { data } = JSON.parse(resource.resource.text) as {
+        data: Array<{ iban: string; bic: string; currency: string }>;
+      };
+      expect(resource.resource.uri).toBe('faker://accounts/generated');
+      expect(result.content[0]).toHaveProperty('text', 'Generated 3 account records with seed 7');
+      data.forEach((account) => {
+        expect(account.iban).toMatch(/^DE\d{20}$/);
+        expect(account.bic).toMatch(/^[A-Z]{4}DE[A-Z0-9]{2}$/);
+        expect(account.currency).toBe('EUR');
+      });
+    });
+
+    it('should generate ledger transactions as CSV', async () => {
+      const result = await handleGenerateFinancial({
+        recordType: 'ledger',
+        count: 5,
+        outputFormat: 'csv',
+      });
+
+      const resource = result.content[1] as { resource: { uri: string; text: string } };
+      const [header, ...rows] = resource.resource.text.trim().split('\n');
+      expect(resource.resource.uri).toBe('faker://transactions/generated.csv');
+      expect(header?.split(',')).toEqual(
+        expect.arrayContaining(['reference', 'postedAt', 'entries', 'amount'])
+      );
+      expect(rows).toHaveLength(5);
+    });
+
+    it('should reject account options for ledger transactions', () => {
+      expect(() => handleGenerateFinancial({ recordType: 'ledger', country: 'NL' })).toThrow(
+        'country and cardNetworks apply to account records only'
+      );
+    });
+
+    it('should generate access logs in the combined log format', async () => {
+      const result = await handleGenerateLogs({ count: 20, outputFormat: 'combined', seed: 3 });
+
+      const resource = result.content[1] as {
+        resource: { uri: string; mimeType: string; text: string };
+      };
+      const lines = resource.resource.text.trimEnd().split('\n');
+      expect(result.content[0]).toHaveProperty(
+        'text',
+        'Generated 20 access log records with seed 3'
+      );
+      expect(resource.resource.uri).toBe('faker://logs/generated.combined');
+      expect(resource.resource.mimeType).toBe('text/plain');
+      expect(lines).toHaveLength(20);
+      lines.forEach((line) =>
+        expect(line).toMatch(
+          /^\S+ - \S+ \[[^\]]+ \+0000\] "[A-Z]+ \S+ HTTP\/[\d.]+" \d{3} (\d+|-) "[^"]*" "[^"]*"$/
+        )
+      );
+    });
+
+    it('should render chaos-corrupted auth events as syslog lines', async () => {
+      const result = await handleGenerateLogs({
+        logType: 'auth',
+        count: 50,
+        outputFormat: 'syslog',
+        chaos: { typo: 0.3, wrongType: 0.3 },
+      });
+
+      const resource = result.content[1] as { resource: { text: string } };
+      expect(resource.resource.text.trimEnd().split('\n')).toHaveLength(50);
+      expect(result.content[2]).toHaveProperty('resource.uri', 'faker://logs/chaos-manifest');
+    });
+
+    it('should reject the combined format for non-access logs', () => {
+      expect(() => handleGenerateLogs({ logType: 'app', outputFormat: 'combined' })).toThrow(
+        'the combined log format applies to access logs only'
+      );
+    });
+
+    it('should generate a time series as CSV with its anomalies', async () => {
+      const result = await handleGenerateTimeSeries({
+        metrics: [
+          { name: 'cpu', baseline: 40, seasonality: { daily: 15 }, noise: 2, min: 0, max: 100 },
+          { name: 'errors', spikes: { rate: 0.2, magnitude: 30 }, decimals: 0 },
+        ],
+        interval: '15m',
+        gaps: { rate: 0.02 },
+        outputFormat: 'csv',
+        seed: 11,
+      });
+
+      const [text, points, anomalies] = result.content as Array<{
+        text?: string;
+        resource: { uri: string; text: string };
+      }>;
+      const lines = points?.resource.text.trimEnd().split('\n') ?? [];
+      const parsed = JSON.parse(anomalies?.resource.text ?? '{}') as {
+        anomalies: Array<{ kind: string; points?: number }>;
+      };
+      const missing = parsed.anomalies.reduce((sum, anomaly) => sum + (anomaly.points ?? 0), 0);
+      expect(text?.text).toMatch(/^Generated \d+ points of cpu, errors with seed 11$/);
+      expect(points?.resource.uri).toBe('faker://timeseries/generated.csv');
+      expect(lines[0]).toBe('timestamp,cpu,errors');
+      expect(lines).toHaveLength(1 + 96 - missing);
+      expect(anomalies?.resource.uri).toBe('faker://timeseries/anomalies');
+      expect(parsed.anomalies.some((anomaly) => anomaly.kind === 'spike')).toBe(true);
+    });
+
+    it('should reject time series windows that are empty or too long to return inline', () => {
+      const metrics = [{ name: 'cpu' }];
+      expect(() =>
+        handleGenerateTimeSeries({
+          metrics,
+          start: '2025-02-01T00:00:00Z',
+          end: '2025-01-01T00:00:00Z',
+        })
+      ).toThrow('must be before end');
+      expect(() => handleGenerateTimeSeries({ metrics, interval: '1s' })).toThrow(
+        'The window holds 86400 points at an interval of 1s'
+      );
+      expect(() => handleGenerateTimeSeries({ metrics, interval: '1.5h' })).toThrow(
+        'interval must be a whole number and a unit'
+      );
+      expect(() => handleGenerateTimeSeries({ metrics: [{ name: 'a' }, { name: 'a' }] })).toThrow(
+        'metric names must be unique'
+      );
+    });
+
     it('should generate custom data successfully', async () => {
       const result = await handleGenerateCustom({
         count: 4,
@@ -81,8 +243,8 @@ describe('MCP Server Integration Tests', () => {
       expect(responseData.data).toHaveLength(4);
     });
 
-    it('should generate dataset with relationships successfully', () => {
-      const result = handleGenerateDataset({
+    it('should generate dataset with relationships successfully', async () => {
+      const result = await handleGenerateDataset({
         schema: {
           entities: {
             users: {
@@ -114,6 +276,561 @@ describe('MCP Server Integration Tests', () => {
       expect(response.dataset.users).toHaveLength(5);
       expect(response.dataset.orders).toHaveLength(10);
     });
+
+    it('should return person data as CSV with flattened address columns', async () => {
+      const result = await handleGeneratePerson({ count: 3, seed: 42, outputFormat: 'csv' });
+
+      const resource = result.content[1] as {
+        resource: { uri: string; mimeType: string; text: string };
+      };
+      expect(resource.resource.uri).toBe('faker://persons/generated.csv');
+      expect(resource.resource.mimeType).toBe('text/csv');
+
+      const lines = resource.resource.text.trimEnd().split('\n');
+      expect(lines).toHaveLength(4);
+      expect(lines[0]).toContain('address.city');
+    });
+
+    it('should return custom data as NDJSON', async () => {
+      const result = await handleGenerateCustom({
+        count: 4,
+        patterns: { status: { type: 'enum', value: ['active', 'inactive'] } },
+        outputFormat: 'ndjson',
+      });
+
+      const resource = result.content[1] as { resource: { text: string } };
+      const records = resource.resource.text
+        .trimEnd()
+        .split('\n')
+        .map((line) => JSON.parse(line) as { status: string });
+      expect(records).toHaveLength(4);
+      records.forEach((record) => expect(['active', 'inactive']).toContain(record.status));
+    });
+
+    it('should reject sql output for single-entity tools', () => {
+      expect(() => handleGenerateCompany({ count: 1, outputFormat: 'sql' })).toThrow(
+        'outputFormat'
+      );
+    });
+
+    it('should stream more than 10000 records to a file and report progress', async () => {
+      const dir = mkdtempSync(join(tmpdir(), 'faker-mcp-'));
+      const outputPath = join(dir, 'custom.ndjson');
+      const progress: Array<[number, number | undefined]> = [];
+
+      try {
+        const result = await handleGenerateCustom(
+          {
+            count: 12000,
+            patterns: { code: { type: 'regex', value: '[A-Z]{4}' } },
+            seed: 5,
+            outputFormat: 'ndjson',
+            outputPath,
+          },
+          {
+            reportProgress: (done, total) => {
+              progress.push([done, total]);
+              return Promise.resolve();
+            },
+          }
+        );
+
+        const resource = result.content[1] as { resource: { text: string } };
+        const summary = JSON.parse(resource.resource.text) as {
+          file: { path: string; records: number };
+        };
+        expect(summary.file).toMatchObject({ path: outputPath, records: 12000 });
+        expect(readFileSync(outputPath, 'utf8').trimEnd().split('\n')).toHaveLength(12000);
+        expect(progress.at(-1)).toEqual([12000, 12000]);
+      } finally {
+        rmSync(dir, { recursive: true, force: true });
+      }
+    });
+
+    it('should stream syslog lines to a file', async () => {
+      const dir = mkdtempSync(join(tmpdir(), 'faker-mcp-'));
+      try {
+        const outputPath = join(dir, 'app.log');
+        const result = await handleGenerateLogs({
+          logType: 'app',
+          count: 2500,
+          seed: 9,
+          outputFormat: 'syslog',
+          outputPath,
+        });
+
+        const lines = readFileSync(outputPath, 'utf8').trimEnd().split('\n');
+        expect(result.content[0]).toHaveProperty(
+          'text',
+          `Streamed 2500 application log records to ${outputPath} (syslog) with seed 9`
+        );
+        expect(lines).toHaveLength(2500);
+        lines.forEach((line) => expect(line).toMatch(/^<1[3-4]\d>1 /));
+      } finally {
+        rmSync(dir, { recursive: true, force: true });
+      }
+    });
+
+    it('should stream a time series to a file and count its anomalies', async () => {
+      const dir = mkdtempSync(join(tmpdir(), 'faker-mcp-'));
+      try {
+        const outputPath = join(dir, 'latency.ndjson');
+        const result = await handleGenerateTimeSeries({
+          metrics: [
+            { name: 'latency', baseline: 120, noise: 10, spikes: { rate: 0.01, magnitude: 900 } },
+          ],
+          interval: '30s',
+          seed: 12,
+          outputFormat: 'ndjson',
+          outputPath,
+        });
+
+        const lines = readFileSync(outputPath, 'utf8').trimEnd().split('\n');
+        const summary = JSON.parse(
+          (result.content[1] as { resource: { text: string } }).resource.text
+        ) as {
+          metadata: { anomalies: { spikes: number; gaps: number } };
+        };
+        expect(result.content[0]).toHaveProperty(
+          'text',
+          `Streamed 2880 points to ${outputPath} (ndjson) with seed 12`
+        );
+        expect(lines).toHaveLength(2880);
+        expect(summary.metadata.anomalies.spikes).toBeGreaterThan(0);
+        expect(summary.metadata.anomalies.gaps).toBe(0);
+      } finally {
+        rmSync(dir, { recursive: true, force: true });
+      }
+    });
+
+    it('should write the same delimited columns to a file as inline for sparse records', async () => {
+      const dir = mkdtempSync(join(tmpdir(), 'faker-mcp-'));
+      const cases = [
+        {
+          handler: handleGeneratePerson,
+          args: { sparsity: { phone: { omitRate: 0.5 }, address: { omitRate: 0.5 } } },
+        },
+        {
+          handler: handleGenerateCompany,
+          args: {
+            includeFoundedYear: true,
+            sparsity: { phone: { omitRate: 0.5 }, founded: { omitRate: 0.5 } },
+          },
+        },
+        {
+          handler: handleGenerateProduct,
+          args: {
+            includeDimensions: true,
+            sparsity: { description: { omitRate: 0.5 }, dimensions: { omitRate: 0.5 } },
+          },
+        },
+      ];
+
+      try {
+        for (const [index, { handler, args }] of cases.entries()) {
+          for (const outputFormat of ['csv', 'tsv']) {
+            const outputPath = join(dir, `records-${index}.${outputFormat}`);
+            const params = { ...args, count: 40, seed: 17, outputFormat };
+            const inline = (await handler(params)).content[1] as { resource: { text: string } };
+            await handler({ ...params, outputPath });
+
+            expect(readFileSync(outputPath, 'utf8')).toBe(inline.resource.text);
+          }
+        }
+      } finally {
+        rmSync(dir, { recursive: true, force: true });
+      }
+    });
+
+    it('should require outputPath above 10000 records and an absolute path', () => {
+      expect(() => handleGeneratePerson({ count: 20000 })).toThrow('unless outputPath is set');
+      expect(() => handleGeneratePerson({ count: 5, outputPath: 'relative.csv' })).toThrow(
+        'absolute path'
+      );
+    });
+
+    it('should return one TSV resource per dataset entity', async () => {
+      const result = await handleGenerateDataset({
+        schema: {
+          entities: {
+            users: { count: 2, type: 'person' },
+            orders: {
+              count: 3,
+              type: 'custom',
+              fields: ['userId'],
+              relationships: { userId: { references: 'users', type: 'one-to-many' } },
+            },
+          },
+        },
+        seed: 7,
+        outputFormat: 'tsv',
+      });
+
+      expect(result.content).toHaveLength(3);
+      const resources = result.content.slice(1) as Array<{
+        resource: { uri: string; mimeType: string; text: string };
+      }>;
+      expect(resources.map((resource) => resource.resource.uri)).toEqual([
+        'faker://datasets/generated/users.tsv',
+        'faker://datasets/generated/orders.tsv',
+      ]);
+      expect(resources[1]?.resource.mimeType).toBe('text/tab-separated-values');
+      expect(resources[1]?.resource.text.trimEnd().split('\n')).toHaveLength(4);
+    });
+
+    it('should generate records conforming to a JSON Schema', async () => {
+      const result = await handleGenerateFromJsonSchema({
+        count: 5,
+        seed: 42,
+        includeOptional: false,
+        schema: {
+          type: 'object',
+          required: ['id', 'email', 'age'],
+          properties: {
+            id: { type: 'string', format: 'uuid' },
+            email: { type: 'string', format: 'email' },
+            age: { type: 'integer', minimum: 18, maximum: 30 },
+            nickname: { type: 'string' },
+          },
+        },
+      });
+
+      const resource = result.content[1] as { resource: { uri: string; text: string } };
+      expect(resource.resource.uri).toBe('faker://json-schema/generated');
+      const response = JSON.parse(resource.resource.text) as {
+        data: Array<Record<string, unknown>>;
+        metadata: { seed: number };
+      };
+      expect(response.data).toHaveLength(5);
+      expect(response.metadata.seed).toBe(42);
+      response.data.forEach((record) => {
+        expect(Object.keys(record)).toEqual(['id', 'email', 'age']);
+        expect(record.age).toBeGreaterThanOrEqual(18);
+        expect(record.age).toBeLessThanOrEqual(30);
+      });
+    });
+
+    it('should combine allOf bounds and keep oneOf values to one schema in both schema tools', async () => {
+      const Reading = {
+        allOf: [
+          {
+            type: 'object',
+            required: ['level'],
+            properties: { level: { type: 'integer', minimum: 5 } },
+          },
+          { required: ['unit'], properties: { level: { maximum: 10 } } },
+        ],
+        properties: {
+          unit: {
+            oneOf: [
+              { type: 'string', maxLength: 4 },
+              { type: 'string', minLength: 3 },
+            ],
+          },
+        },
+      };
+      const check = (records: Array<{ level: number; unit: string }>) => {
+        expect(records).toHaveLength(20);
+        records.forEach(({ level, unit }) => {
+          expect(level).toBeGreaterThanOrEqual(5);
+          expect(level).toBeLessThanOrEqual(10);
+          expect(unit.length <= 4 !== unit.length >= 3).toBe(true);
+        });
+      };
+
+      const fromSchema = await handleGenerateFromJsonSchema({
+        count: 20,
+        includeOptional: false,
+        schema: Reading,
+      });
+      const fromSpec = await handleGenerateFromOpenApi({
+        spec: {
+          openapi: '3.0.3',
+          paths: {
+            '/readings': {
+              get: {
+                operationId: 'listReadings',
+                responses: {
+                  '200': {
+                    content: {
+                      'application/json': { schema: { $ref: '#/components/schemas/Reading' } },
+                    },
+                  },
+                },
+              },
+            },
+          },
+          components: { schemas: { Reading } },
+        },
+        operation: 'listReadings',
+        count: 20,
+        includeOptional: false,
+      });
+
+      for (const result of [fromSchema, fromSpec]) {
+        const resource = result.content[1] as { resource: { text: string } };
+        check(
+          (JSON.parse(resource.resource.text) as { data: Array<{ level: number; unit: string }> })
+            .data
+        );
+      }
+    });
+
+    it('should reject CSV output for JSON Schemas without an object root', async () => {
+      await expect(
+        handleGenerateFromJsonSchema({ schema: { type: 'string' }, outputFormat: 'csv' })
+      ).rejects.toThrow('csv output requires a schema whose root is an object');
+    });
+
+    it('should list OpenAPI operations and mock a response from a YAML file', async () => {
+      const dir = mkdtempSync(join(tmpdir(), 'faker-mcp-'));
+      const specPath = join(dir, 'openapi.yaml');
+      writeFileSync(
+        specPath,
+        [
+          'openapi: 3.0.3',
+          'info: { title: Users API, version: 1.0.0 }',
+          'paths:',
+          '  /users/{id}:',
+          '    get:',
+          '      operationId: getUser',
+          '      responses:',
+          "        '200':",
+          '          content:',
+          '            application/json:',
+          "              schema: { $ref: '#/components/schemas/User' }",
+          'components:',
+          '  schemas:',
+          '    User:',
+          '      type: object',
+          '      required: [id, email]',
+          '      properties:',
+          '        id: { type: string, format: uuid }',
+          '        email: { type: string, format: email }',
+        ].join('\n')
+      );
+
+      try {
+        const listing = await handleGenerateFromOpenApi({ specPath });
+        expect(listing.content[0]).toHaveProperty('text', 'Found 1 operation in Users API');
+
+        const result = await handleGenerateFromOpenApi({
+          specPath,
+          operation: 'getUser',
+          count: 3,
+          seed: 9,
+        });
+        const resource = result.content[1] as { resource: { uri: string; text: string } };
+        const response = JSON.parse(resource.resource.text) as {
+          data: Array<{ id: string; email: string }>;
+          metadata: { status: string; mediaType: string };
+        };
+        expect(resource.resource.uri).toBe('faker://openapi/generated');
+        expect(response.metadata).toMatchObject({ status: '200', mediaType: 'application/json' });
+        expect(response.data).toHaveLength(3);
+        response.data.forEach((user) => expect(user.email).toContain('@'));
+      } finally {
+        rmSync(dir, { recursive: true, force: true });
+      }
+    });
+
+    it('should require exactly one OpenAPI source', async () => {
+      await expect(handleGenerateFromOpenApi({ operation: 'getUser' })).rejects.toThrow(
+        'Exactly one of spec or specPath must be provided'
+      );
+    });
+
+    it('should generate a dataset from a Prisma schema file', async () => {
+      const dir = mkdtempSync(join(tmpdir(), 'faker-mcp-'));
+      const sourcePath = join(dir, 'schema.prisma');
+      writeFileSync(
+        sourcePath,
+        [
+          'model User {',
+          '  id    Int    @id @default(autoincrement())',
+          '  email String @unique',
+          '  posts Post[]',
+          '}',
+          'model Post {',
+          '  id       Int    @id',
+          '  title    String',
+          '  author   User   @relation(fields: [authorId], references: [id])',
+          '  authorId Int',
+          '}',
+        ].join('\n')
+      );
+
+      try {
+        const result = await handleGenerateFromDbSchema({
+          sourcePath,
+          counts: { Post: 12 },
+          defaultCount: 4,
+          seed: 5,
+        });
+        const { dataset } = JSON.parse((result.content[0] as { text: string }).text) as {
+          dataset: { User: Array<{ id: string }>; Post: Array<{ authorId: string }> };
+        };
+        const imported = result.content[1] as { resource: { uri: string; text: string } };
+
+        expect(dataset.User).toHaveLength(4);
+        expect(dataset.Post).toHaveLength(12);
+        const userIds = dataset.User.map((user) => user.id);
+        dataset.Post.forEach((post) => expect(userIds).toContain(post.authorId));
+        expect(imported.resource.uri).toBe('faker://datasets/imported-schema');
+        expect(JSON.parse(imported.resource.text)).toMatchObject({
+          format: 'prisma',
+          warnings: [],
+        });
+      } finally {
+        rmSync(dir, { recursive: true, force: true });
+      }
+    });
+
+    it('should export SQL DDL as SQL inserts', async () => {
+      const result = await handleGenerateFromDbSchema({
+        source:
+          'CREATE TABLE users (id SERIAL PRIMARY KEY, email TEXT NOT NULL);\n' +
+          'CREATE TABLE posts (id SERIAL PRIMARY KEY, user_id INT NOT NULL REFERENCES users(id));',
+        outputFormat: 'sql',
+        seed: 5,
+      });
+      const sql = (result.content[1] as { resource: { text: string } }).resource.text;
+
+      expect(sql).toContain('CREATE TABLE "users"');
+      expect(sql).toContain('FOREIGN KEY ("user_id") REFERENCES "users" ("id")');
+    });
+
+    it('should export SQL inserts whose columns and types match the source tables', async () => {
+      const result = await handleGenerateFromDbSchema({
+        source:
+          'CREATE TABLE users (user_id SERIAL PRIMARY KEY, email TEXT NOT NULL UNIQUE);\n' +
+          'CREATE TABLE orders (id INT PRIMARY KEY, user_id INT NOT NULL REFERENCES users(user_id));\n' +
+          'CREATE TABLE order_items (order_id INT NOT NULL REFERENCES orders(id), ' +
+          'sku VARCHAR(20) NOT NULL, quantity INT NOT NULL, PRIMARY KEY (order_id, sku));',
+        outputFormat: 'sql',
+        counts: { order_items: 30 },
+        defaultCount: 5,
+        seed: 5,
+      });
+      const sql = (result.content[1] as { resource: { text: string } }).resource.text;
+      const rows = (table: string) =>
+        new RegExp(`INSERT INTO "${table}" \\(([^)]*)\\) VALUES\\n([^;]*);`).exec(sql) ?? [];
+
+      expect(rows('users')[1]).toBe('"user_id", "email"');
+      expect(rows('orders')[1]).toBe('"id", "user_id"');
+      expect(rows('order_items')[1]).toBe('"order_id", "sku", "quantity"');
+      rows('users')[2]
+        ?.split('\n')
+        .forEach((row, index) =>
+          expect(row).toMatch(new RegExp(`^  \\(${index + 1}, '[^']+'\\),?$`))
+        );
+      expect(rows('order_items')[2]?.split('\n')).toHaveLength(30);
+      rows('orders')[2]
+        ?.split('\n')
+        .forEach((row) => expect(row).toMatch(/^ {2}\(\d+, [1-5]\),?$/));
+      rows('order_items')[2]
+        ?.split('\n')
+        .forEach((row) => expect(row).toMatch(/^ {2}\([1-5], '[^']+', \d+\),?$/));
+      expect(sql).toContain('"user_id" INTEGER NOT NULL,\n  "email" TEXT NOT NULL');
+      expect(sql).toContain('PRIMARY KEY ("order_id", "sku")');
+      expect(sql).toContain('FOREIGN KEY ("user_id") REFERENCES "users" ("user_id")');
+    });
+
+    it('should apply the default ID strategy to entities and their foreign keys', async () => {
+      const result = await handleGenerateFromDbSchema({
+        source:
+          'CREATE TABLE users (id SERIAL PRIMARY KEY, email TEXT NOT NULL);\n' +
+          'CREATE TABLE posts (id SERIAL PRIMARY KEY, user_id INT NOT NULL REFERENCES users(id));',
+        outputFormat: 'sql',
+        idStrategy: 'sequence',
+        seed: 5,
+      });
+      const sql = (result.content[1] as { resource: { text: string } }).resource.text;
+
+      expect(sql).toContain('"id" INTEGER NOT NULL');
+      expect(sql).toContain('"user_id" INTEGER NOT NULL');
+      expect(sql).toMatch(/INSERT INTO "users" .*\n {2}\(1, /);
+    });
+
+    it('should reject ID patterns with fewer distinct values than records', () => {
+      expect(() =>
+        handleGenerateCustom({
+          count: 20,
+          patterns: { total: { type: 'range', value: { min: 1, max: 9 } } },
+          idStrategy: { type: 'pattern', pattern: 'C-[0-9]' },
+        })
+      ).toThrow('ID pattern is unique but can produce at most 10 distinct values');
+    });
+
+    it('should inject defects and list them in a chaos manifest', async () => {
+      const clean = await handleGeneratePerson({ count: 20, seed: 9 });
+      const result = await handleGeneratePerson({
+        count: 20,
+        seed: 9,
+        chaos: { invalidEmail: 0.5, duplicateRow: 0.2 },
+      });
+      const resources = result.content.slice(1) as Array<{
+        resource: { uri: string; text: string };
+      }>;
+      const { data } = JSON.parse(resources[0]?.resource.text ?? '') as {
+        data: Array<{ id: string; email: string }>;
+      };
+      const manifest = JSON.parse(resources[1]?.resource.text ?? '') as {
+        counts: Record<string, number>;
+        defects: Array<{ record: number; field?: string; value?: unknown }>;
+      };
+      const cleanData = (
+        JSON.parse((clean.content[1] as { resource: { text: string } }).resource.text) as {
+          data: Array<{ id: string }>;
+        }
+      ).data;
+
+      expect(resources[1]?.resource.uri).toBe('faker://persons/chaos-manifest');
+      expect(data).toHaveLength(20 + (manifest.counts.duplicateRow ?? 0));
+      expect(manifest.counts.invalidEmail).toBeGreaterThan(0);
+      manifest.defects
+        .filter((defect) => defect.field === 'email')
+        .forEach((defect) => expect(data[defect.record]?.email).toBe(defect.value));
+      expect([...new Set(data.map((person) => person.id))]).toEqual(
+        cleanData.map((person) => person.id)
+      );
+    });
+
+    it('should leave dangling foreign keys in datasets exported as SQL', async () => {
+      const result = await handleGenerateDataset({
+        schema: {
+          entities: {
+            users: { count: 5, type: 'person' },
+            posts: {
+              count: 10,
+              type: 'custom',
+              fields: ['title', 'userId'],
+              relationships: { userId: { references: 'users', type: 'one-to-many' } },
+            },
+          },
+        },
+        seed: 3,
+        outputFormat: 'sql',
+        chaos: { danglingForeignKey: 1 },
+      });
+      const manifest = JSON.parse(
+        (result.content[2] as { resource: { text: string } }).resource.text
+      ) as { counts: Record<string, number>; defects: Array<{ entity: string; value: string }> };
+
+      expect(manifest.counts).toEqual({ danglingForeignKey: 10 });
+      manifest.defects.forEach((defect) => {
+        expect(defect.entity).toBe('posts');
+        expect((result.content[1] as { resource: { text: string } }).resource.text).toContain(
+          `'${defect.value}'`
+        );
+      });
+    });
+
+    it('should reject chaos for records streamed to a file', () => {
+      expect(() =>
+        handleGeneratePerson({ count: 5, outputPath: '/tmp/people.json', chaos: { typo: 0.1 } })
+      ).toThrow('chaos applies to inline output only');
+    });
   });
 
   describe('Concurrent Requests', () => {
@@ -236,4 +953,116 @@ describe('MCP Server Integration Tests', () => {
       expect(data.data).toHaveLength(1000);
     });
   });
+
+  describe('Progress and Cancellation', () => {
+    beforeEach(() => {
+      server.registerTool(generatePersonTool, handleGeneratePerson);
+    });
+
+    it('should send progress notifications to clients that pass a progress token', async () => {
+      const client = await connectTestClient(server);
+      const progress: Array<[number, number | undefined]> = [];
+
+      await client.callTool(
+        { name: 'generate-person', arguments: { count: 2500, seed: 1 } },
+        undefined,
+        {
+          onprogress: ({ progress: done, total }) => {
+            progress.push([done, total]);
+          },
+        }
+      );
+
+      expect(progress).toEqual([
+        [1000, 2500],
+        [2000, 2500],
+        [2500, 2500],
+      ]);
+      await client.close();
+    });
+
+    it('should stop generating once the client cancels the call', async () => {
+      const cancellable = new FakerMCPServer();
+      let handled: Promise<unknown> | undefined;
+      cancellable.registerTool(generatePersonTool, (params, context) => {
+        handled = handleGeneratePerson(params, context);
+        return handled as ReturnType<typeof handleGeneratePerson>;
+      });
+      const client = await connectTestClient(cancellable);
+
+      // The request after initialize gets id 1; the SDK client does not send the spec's
+      // notifications/cancelled itself, so the test sends it once generation is under way
+      const call = client.callTool(
+        { name: 'generate-person', arguments: { count: 9000, seed: 1 } },
+        undefined,
+        {
+          onprogress: () =>
+            void client.notification({
+              method: 'notifications/cancelled',
+              params: { requestId: 1, reason: 'stop' },
+            }),
+        }
+      );
+      call.catch(() => undefined);
+
+      await vi.waitFor(() => expect(handled).toBeDefined());
+      await expect(handled).rejects.toThrow('Generation cancelled');
+      await client.close();
+    });
+  });
+
+  describe('Structured Errors', () => {
+    beforeEach(() => {
+      server.registerTool(generateDatasetTool, handleGenerateDataset);
+    });
+
+    it('should return isError results locating circular dependencies in the schema', async () => {
+      const client = await connectTestClient(server);
+      const result = (await client.callTool({
+        name: 'generate-dataset',
+        arguments: {
+          schema: {
+            entities: {
+              orders: {
+                count: 2,
+                type: 'custom',
+                fields: ['itemId'],
+                relationships: { itemId: { references: 'items', type: 'one-to-many' } },
+              },
+              items: {
+                count: 2,
+                type: 'custom',
+                fields: ['orderId'],
+                relationships: { orderId: { references: 'orders', type: 'one-to-many' } },
+              },
+            },
+          },
+        },
+      })) as { isError?: boolean; content: Array<{ text: string }> };
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0]?.text).toContain('Circular dependencies detected');
+      expect(JSON.parse(result.content[1]?.text ?? '')).toMatchObject({
+        error: {
+          code: 'circular_dependency',
+          details: [
+            {
+              path: '$.schema.entities.orders.relationships.itemId',
+              value: ['orders -> items -> orders'],
+            },
+          ],
+        },
+      });
+      await client.close();
+    });
+
+    it('should keep unknown tools as protocol errors', async () => {
+      const client = await connectTestClient(server);
+
+      await expect(client.callTool({ name: 'generate-nothing', arguments: {} })).rejects.toThrow(
+        'Unknown tool: generate-nothing'
+      );
+      await client.close();
+    });
+  });
 });
@@ -6,11 +6,11 @@ import { EntityType, RelationshipType, SupportedLocale } from '../../src/types/s
 
 describe('Generation Performance Benchmarks', () => {
   describe('Person Generation Performance', () => {
-    it('should generate 1000 person records in reasonable time', () => {
+    it('should generate 1000 person records in reasonable time', async () => {
       const generator = new PersonGenerator({ locale: SupportedLocale.EN });
       const startTime = Date.now();
 
-      const data = generator.generateMany(1000);
+      const data = await generator.generateMany(1000);
 
       const duration = Date.now() - startTime;
 
@@ -19,11 +19,11 @@ describe('Generation Performance Benchmarks', () => {
       console.log(`✓ Generated 1000 person records in ${duration}ms`);
     });
 
-    it('should generate 5000 person records in reasonable time', () => {
+    it('should generate 5000 person records in reasonable time', async () => {
       const generator = new PersonGenerator({ locale: SupportedLocale.EN });
       const startTime = Date.now();
 
-      const data = generator.generateMany(5000);
+      const data = await generator.generateMany(5000);
 
       const duration = Date.now() - startTime;
 
@@ -32,11 +32,11 @@ describe('Generation Performance Benchmarks', () => {
       console.log(`✓ Generated 5000 person records in ${duration}ms`);
     });
 
-    it('should generate 10000 person records in reasonable time', () => {
+    it('should generate 10000 person records in reasonable time', async () => {
       const generator = new PersonGenerator({ locale: SupportedLocale.EN });
       const startTime = Date.now();
 
-      const data = generator.generateMany(10000);
+      const data = await generator.generateMany(10000);
 
       const duration = Date.now() - startTime;
 
@@ -47,11 +47,11 @@ describe('Generation Performance Benchmarks', () => {
   });
 
   describe('Company Generation Performance', () => {
-    it('should generate 1000 company records in reasonable time', () => {
+    it('should generate 1000 company records in reasonable time', async () => {
       const generator = new CompanyGenerator({ locale: SupportedLocale.EN });
       const startTime = Date.now();
 
-      const data = generator.generateMany(1000);
+      const data = await generator.generateMany(1000);
 
       const duration = Date.now() - startTime;
 
@@ -60,11 +60,11 @@ describe('Generation Performance Benchmarks', () => {
       console.log(`✓ Generated 1000 company records in ${duration}ms`);
     });
 
-    it('should generate 5000 company records in reasonable time', () => {
+    it('should generate 5000 company records in reasonable time', async () => {
       const generator = new CompanyGenerator({ locale: SupportedLocale.EN });
       const startTime = Date.now();
 
-      const data = generator.generateMany(5000);
+      const data = await generator.generateMany(5000);
 
       const duration = Date.now() - startTime;
 
@@ -75,11 +75,11 @@ describe('Generation Performance Benchmarks', () => {
   });
 
   describe('Dataset Generation Performance', () => {
-    it('should generate dataset with 1000 total records in reasonable time', () => {
+    it('should generate dataset with 1000 total records in reasonable time', async () => {
       const generator = new DatasetGenerator({ locale: SupportedLocale.EN });
       const startTime = Date.now();
 
-      const result = generator.generateDataset({
+      const result = await generator.generateDataset({
         entities: {
           users: {
             count: 500,
@@ -106,11 +106,11 @@ describe('Generation Performance Benchmarks', () => {
       console.log(`✓ Generated dataset with 1000 total records in ${duration}ms`);
     });
 
-    it('should generate large dataset with 5000 total records in reasonable time', () => {
+    it('should generate large dataset with 5000 total records in reasonable time', async () => {
       const generator = new DatasetGenerator({ locale: SupportedLocale.EN });
       const startTime = Date.now();
 
-      const result = generator.generateDataset({
+      const result = await generator.generateDataset({
         entities: {
           users: {
             count: 1000,
@@ -148,7 +148,7 @@ describe('Generation Performance Benchmarks', () => {
   });
 
   describe('Memory Usage', () => {
-    it('should not exceed reasonable memory usage for large generation', () => {
+    it('should not exceed reasonable memory usage for large generation', async () => {
       const generator = new PersonGenerator({ locale: SupportedLocale.EN });
 
       // Force garbage collection if available
@@ -159,7 +159,7 @@ describe('Generation Performance Benchmarks', () => {
       const memBefore = process.memoryUsage().heapUsed / 1024 / 1024; // MB
 
       // Generate 10000 records
-      const data = generator.generateMany(10000);
+      const data = await generator.generateMany(10000);
 
       const memAfter = process.memoryUsage().heapUsed / 1024 / 1024; // MB
       const memUsed = memAfter - memBefore;
@@ -171,12 +171,12 @@ describe('Generation Performance Benchmarks', () => {
   });
 
   describe('Throughput', () => {
-    it('should achieve target throughput of >1000 records/second', () => {
+    it('should achieve target throughput of >1000 records/second', async () => {
       const generator = new PersonGenerator({ locale: SupportedLocale.EN });
       const recordCount = 2000;
 
       const startTime = Date.now();
-      const data = generator.generateMany(recordCount);
+      const data = await generator.generateMany(recordCount);
       const duration = Date.now() - startTime;
 
       const throughput = (recordCount / duration) * 1000; // records per second
@@ -1,6 +1,7 @@
 import { describe, it, expect } from 'vitest';
 import { CompanyGenerator } from '../../../src/generators/company-generator';
 import { SupportedLocale } from '../../../src/types/schema';
+import { flattenRecord } from '../../../src/utils/tabular-export';
 import { assertions } from '../../helpers/test-utils';
 
 describe('CompanyGenerator', () => {
@@ -14,15 +15,15 @@ describe('CompanyGenerator', () => {
       expect(company).toHaveProperty('industry');
       expect(company).toHaveProperty('email');
 
-      assertions.toBeNonEmptyString(company.id);
+      assertions.toBeNonEmptyString(company.id as string);
       assertions.toBeNonEmptyString(company.name);
       assertions.toBeNonEmptyString(company.industry);
       assertions.toBeValidEmail(company.email);
     });
 
-    it('should generate unique IDs for multiple companies', () => {
+    it('should generate unique IDs for multiple companies', async () => {
       const generator = new CompanyGenerator({ seed: 456 });
-      const companies = generator.generateMany(10);
+      const companies = await generator.generateMany(10);
 
       assertions.toHaveUniqueIds(companies);
     });
@@ -129,6 +130,19 @@ describe('CompanyGenerator', () => {
 
       expect(company.employeeCount).toBeUndefined();
     });
+
+    it('should list the flattened keys of a complete record as columns', () => {
+      const generator = new CompanyGenerator({ seed: 123 });
+      [
+        {},
+        { includeFoundedYear: true, includeEmployeeCount: true },
+        { includeAddress: false, includePhone: false, includeWebsite: false },
+      ].forEach((options) =>
+        expect(generator.getColumns(options)).toEqual(
+          Object.keys(flattenRecord({ ...generator.generate(options) }))
+        )
+      );
+    });
   });
 
   describe('Locale Handling', () => {
@@ -156,17 +170,17 @@ describe('CompanyGenerator', () => {
   });
 
   describe('Batch Generation', () => {
-    it('should generate correct number of records', () => {
+    it('should generate correct number of records', async () => {
       const generator = new CompanyGenerator({ seed: 123 });
-      const companies = generator.generateMany(50);
+      const companies = await generator.generateMany(50);
 
       expect(companies).toHaveLength(50);
     });
 
-    it('should handle large batches efficiently', () => {
+    it('should handle large batches efficiently', async () => {
       const generator = new CompanyGenerator({ seed: 123 });
       const startTime = Date.now();
-      const companies = generator.generateMany(1000);
+      const companies = await generator.generateMany(1000);
       const duration = Date.now() - startTime;
 
       expect(companies).toHaveLength(1000);
@@ -175,14 +189,32 @@ describe('CompanyGenerator', () => {
       expect(duration).toBeLessThan(2000);
     });
 
-    it('should maintain seed consistency in batch generation', () => {
+    it('should maintain seed consistency in batch generation', async () => {
       const gen1 = new CompanyGenerator({ seed: 999 });
       const gen2 = new CompanyGenerator({ seed: 999 });
 
-      const batch1 = gen1.generateMany(10);
-      const batch2 = gen2.generateMany(10);
+      const batch1 = await gen1.generateMany(10);
+      const batch2 = await gen2.generateMany(10);
 
       expect(batch1).toEqual(batch2);
     });
+
+    it('should stream the same records as generateMany', async () => {
+      const options = { includeFoundedYear: true, includeEmployeeCount: true };
+      const batch = await new CompanyGenerator({ seed: 999 }).generateMany(25, options);
+      const streamed = Array.from(new CompanyGenerator({ seed: 999 }).stream(25, options));
+
+      expect(streamed).toEqual(batch);
+    });
+
+    it('should draw employee counts from the seed', async () => {
+      const options = { includeEmployeeCount: true };
+      const batch1 = await new CompanyGenerator({ seed: 999 }).generateMany(50, options);
+      const batch2 = await new CompanyGenerator({ seed: 999 }).generateMany(50, options);
+
+      expect(batch1.map((company) => company.employeeCount)).toEqual(
+        batch2.map((company) => company.employeeCount)
+      );
+    });
   });
 });
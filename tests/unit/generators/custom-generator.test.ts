@@ -7,12 +7,15 @@
  * - Format template expansion
  * - Range value generation (integer and decimal)
  * - Seed reproducibility
+ * - Unique patterns
+ * - Null and omit rates
  * - Error handling
  */
 
 import { describe, it, expect } from 'vitest';
 import { CustomGenerator } from '../../../src/generators/custom-generator.js';
 import { PatternType, SupportedLocale } from '../../../src/types/schema.js';
+import { UniqueValuesExhaustedError } from '../../../src/utils/unique-values.js';
 
 describe('CustomGenerator', () => {
   describe('initialization', () => {
@@ -68,7 +71,7 @@ describe('CustomGenerator', () => {
       expect(data.email).toMatch(/^[a-z]{5}@(gmail|yahoo)\.com$/);
     });
 
-    it('should generate multiple records with regex patterns', () => {
+    it('should generate multiple records with regex patterns', async () => {
       const generator = new CustomGenerator({ seed: 99999 });
       const pattern = {
         code: {
@@ -77,7 +80,7 @@ describe('CustomGenerator', () => {
         },
       };
 
-      const data = generator.generateMany(10, { patterns: pattern });
+      const data = await generator.generateMany(10, { patterns: pattern });
 
       expect(data).toHaveLength(10);
       data.forEach((record) => {
@@ -113,7 +116,7 @@ describe('CustomGenerator', () => {
       expect(['pending', 'active', 'completed']).toContain(data.status);
     });
 
-    it('should generate multiple records with enum values', () => {
+    it('should generate multiple records with enum values', async () => {
       const generator = new CustomGenerator({ seed: 11111 });
       const pattern = {
         category: {
@@ -122,7 +125,7 @@ describe('CustomGenerator', () => {
         },
       };
 
-      const data = generator.generateMany(20, { patterns: pattern });
+      const data = await generator.generateMany(20, { patterns: pattern });
 
       expect(data).toHaveLength(20);
       data.forEach((record) => {
@@ -159,7 +162,7 @@ describe('CustomGenerator', () => {
 
   describe('format pattern generation', () => {
     it('should replace {{year}} placeholder with current year', () => {
-      const generator = new CustomGenerator({ seed: 12345 });
+      const generator = new CustomGenerator();
       const pattern = {
         reference: {
           type: PatternType.FORMAT,
@@ -173,6 +176,16 @@ describe('CustomGenerator', () => {
       expect(data.reference).toBe(`REF-${currentYear}`);
     });
 
+    it('should take {{year}} from the reference date', () => {
+      const pattern = { reference: { type: PatternType.FORMAT, value: 'REF-{{year}}' } };
+
+      const seeded = new CustomGenerator({ seed: 12345 });
+      const anchored = new CustomGenerator({ seed: 12345, referenceDate: '2030-06-01' });
+
+      expect(seeded.generate({ patterns: pattern }).reference).toBe('REF-2025');
+      expect(anchored.generate({ patterns: pattern }).reference).toBe('REF-2030');
+    });
+
     it('should replace {{random:N}} placeholder with N alphanumeric characters', () => {
       const generator = new CustomGenerator({ seed: 12345 });
       const pattern = {
@@ -205,7 +218,7 @@ describe('CustomGenerator', () => {
     });
 
     it('should handle multiple placeholders in format', () => {
-      const generator = new CustomGenerator({ seed: 12345 });
+      const generator = new CustomGenerator({ seed: 12345, referenceDate: '2030-06-01' });
       const pattern = {
         compound: {
           type: PatternType.FORMAT,
@@ -214,10 +227,9 @@ describe('CustomGenerator', () => {
       };
 
       const data = generator.generate({ patterns: pattern });
-      const currentYear = new Date().getFullYear().toString();
 
       expect(typeof data.compound).toBe('string');
-      expect(data.compound).toContain(currentYear);
+      expect(data.compound).toContain('2030');
       expect(data.compound).toMatch(/^\d{4}-[A-Za-z0-9]{3}-\d{4}$/);
     });
 
@@ -239,7 +251,7 @@ describe('CustomGenerator', () => {
   });
 
   describe('range pattern generation', () => {
-    it('should generate integer within range (precision: 0)', () => {
+    it('should generate integer within range (precision: 0)', async () => {
       const generator = new CustomGenerator({ seed: 12345 });
       const pattern = {
         quantity: {
@@ -248,7 +260,7 @@ describe('CustomGenerator', () => {
         },
       };
 
-      const data = generator.generateMany(50, { patterns: pattern });
+      const data = await generator.generateMany(50, { patterns: pattern });
 
       expect(data).toHaveLength(50);
       data.forEach((record) => {
@@ -259,7 +271,7 @@ describe('CustomGenerator', () => {
       });
     });
 
-    it('should generate decimal with precision', () => {
+    it('should generate decimal with precision', async () => {
       const generator = new CustomGenerator({ seed: 12345 });
       const pattern = {
         rating: {
@@ -268,7 +280,7 @@ describe('CustomGenerator', () => {
         },
       };
 
-      const data = generator.generateMany(20, { patterns: pattern });
+      const data = await generator.generateMany(20, { patterns: pattern });
 
       expect(data).toHaveLength(20);
       data.forEach((record) => {
@@ -277,14 +289,14 @@ describe('CustomGenerator', () => {
         expect(record.rating).toBeLessThanOrEqual(5);
         // Check precision (1 decimal place)
         const rating = record.rating;
-        if (rating !== undefined) {
+        if (rating !== undefined && rating !== null) {
           const decimalPart = (rating.toString().split('.')[1] || '').length;
           expect(decimalPart).toBeLessThanOrEqual(1);
         }
       });
     });
 
-    it('should generate float without specified precision', () => {
+    it('should generate float without specified precision', async () => {
       const generator = new CustomGenerator({ seed: 12345 });
       const pattern = {
         price: {
@@ -293,7 +305,7 @@ describe('CustomGenerator', () => {
         },
       };
 
-      const data = generator.generateMany(30, { patterns: pattern });
+      const data = await generator.generateMany(30, { patterns: pattern });
 
       expect(data).toHaveLength(30);
       data.forEach((record) => {
@@ -363,7 +375,7 @@ describe('CustomGenerator', () => {
       expect(data.reference).toContain('REF-');
     });
 
-    it('should generate multiple records with multiple patterns', () => {
+    it('should generate multiple records with multiple patterns', async () => {
       const generator = new CustomGenerator({ seed: 99999 });
       const patterns = {
         code: {
@@ -376,7 +388,7 @@ describe('CustomGenerator', () => {
         },
       };
 
-      const data = generator.generateMany(5, { patterns });
+      const data = await generator.generateMany(5, { patterns });
 
       expect(data).toHaveLength(5);
       data.forEach((record) => {
@@ -389,7 +401,7 @@ describe('CustomGenerator', () => {
   });
 
   describe('seed reproducibility', () => {
-    it('should generate identical data with same seed', () => {
+    it('should generate identical data with same seed', async () => {
       const seed = 12345;
       const patterns = {
         code: {
@@ -407,15 +419,27 @@ describe('CustomGenerator', () => {
       };
 
       const generator1 = new CustomGenerator({ seed });
-      const data1 = generator1.generateMany(10, { patterns });
+      const data1 = await generator1.generateMany(10, { patterns });
 
       const generator2 = new CustomGenerator({ seed });
-      const data2 = generator2.generateMany(10, { patterns });
+      const data2 = await generator2.generateMany(10, { patterns });
 
       expect(data1).toEqual(data2);
     });
 
-    it('should generate different data with different seeds', () => {
+    it('should stream the same records as generateMany', async () => {
+      const patterns = {
+        code: { type: PatternType.REGEX, value: '[A-Z]{3}-\\d{2}' },
+        value: { type: PatternType.RANGE, value: { min: 1, max: 100, precision: 2 } },
+      };
+
+      const batch = await new CustomGenerator({ seed: 12345 }).generateMany(20, { patterns });
+      const streamed = Array.from(new CustomGenerator({ seed: 12345 }).stream(20, { patterns }));
+
+      expect(streamed).toEqual(batch);
+    });
+
+    it('should generate different data with different seeds', async () => {
       const patterns = {
         value: {
           type: PatternType.REGEX,
@@ -424,17 +448,55 @@ describe('CustomGenerator', () => {
       };
 
       const generator1 = new CustomGenerator({ seed: 11111 });
-      const data1 = generator1.generateMany(5, { patterns });
+      const data1 = await generator1.generateMany(5, { patterns });
 
       const generator2 = new CustomGenerator({ seed: 22222 });
-      const data2 = generator2.generateMany(5, { patterns });
+      const data2 = await generator2.generateMany(5, { patterns });
 
       expect(data1).not.toEqual(data2);
     });
   });
 
+  describe('unique patterns', () => {
+    it('should not repeat values of a unique pattern', async () => {
+      const patterns = {
+        code: { type: PatternType.REGEX, value: '[A-Z]{2}', unique: true },
+      };
+
+      const data = await new CustomGenerator({ seed: 5 }).generateMany(600, { patterns });
+
+      expect(new Set(data.map((record) => record.code)).size).toBe(600);
+    });
+
+    it('should report a value space too small for the count', async () => {
+      const patterns = {
+        status: { type: PatternType.ENUM, value: ['a', 'b'], unique: true },
+      };
+
+      await expect(new CustomGenerator({ seed: 5 }).generateMany(3, { patterns })).rejects.toThrow(
+        UniqueValuesExhaustedError
+      );
+    });
+  });
+
+  describe('sparse patterns', () => {
+    it('should leave fields null or out of records at the configured rates', async () => {
+      const patterns = {
+        code: { type: PatternType.REGEX, value: '[A-Z]{4}', nullRate: 0.5 },
+        note: { type: PatternType.ENUM, value: ['x'], omitRate: 1 },
+      };
+
+      const data = await new CustomGenerator({ seed: 9 }).generateMany(200, { patterns });
+      const nulls = data.filter((record) => record.code === null).length;
+
+      expect(nulls).toBeGreaterThan(60);
+      expect(nulls).toBeLessThan(140);
+      data.forEach((record) => expect(record).not.toHaveProperty('note'));
+    });
+  });
+
   describe('ID generation', () => {
-    it('should generate unique IDs for each record', () => {
+    it('should generate unique IDs for each record', async () => {
       const generator = new CustomGenerator({ seed: 12345 });
       const patterns = {
         value: {
@@ -443,7 +505,7 @@ describe('CustomGenerator', () => {
         },
       };
 
-      const data = generator.generateMany(5, { patterns });
+      const data = await generator.generateMany(5, { patterns });
 
       const ids = data.map((record) => record.id);
       const uniqueIds = new Set(ids);
@@ -1,5 +1,19 @@
 import { describe, it, expect } from 'vitest';
-import { EntityType, RelationshipType, type DatasetSchema } from '../../../src/types/schema.js';
+import { DatasetGenerator } from '../../../src/generators/dataset-generator.js';
+import {
+  CardinalityDistribution,
+  ConstraintOperator,
+  EntityType,
+  FieldType,
+  IdStrategyType,
+  PatternType,
+  PersonUniqueField,
+  ProductUniqueField,
+  RelationshipType,
+  SupportedLocale,
+  type DatasetSchema,
+} from '../../../src/types/schema.js';
+import { ConstraintUnsatisfiedError } from '../../../src/utils/constraints.js';
 
 /**
  * Unit tests for DatasetGenerator
@@ -421,6 +435,76 @@ describe('DatasetGenerator', () => {
     });
   });
 
+  describe('ID strategies', () => {
+    it('should generate IDs per entity strategy and carry them into foreign keys', async () => {
+      const schema: DatasetSchema = {
+        entities: {
+          users: {
+            count: 5,
+            type: EntityType.PERSON,
+            idStrategy: { type: IdStrategyType.SEQUENCE, start: 100 },
+          },
+          tags: {
+            count: 4,
+            type: EntityType.CUSTOM,
+            fields: ['label'],
+            idStrategy: { type: IdStrategyType.PREFIXED, prefix: 'tag_' },
+          },
+          posts: {
+            count: 20,
+            type: EntityType.CUSTOM,
+            fields: ['authorId', 'tagIds'],
+            idStrategy: { type: IdStrategyType.ULID },
+            relationships: {
+              authorId: { references: 'users', type: RelationshipType.ONE_TO_MANY },
+              tagIds: {
+                references: 'tags',
+                type: RelationshipType.MANY_TO_MANY,
+                through: 'post_tags',
+              },
+            },
+          },
+        },
+      };
+      const result = await new DatasetGenerator({ seed: 3 }).generateDataset(schema);
+      const users = result.dataset['users'] as Array<{ id: number }>;
+      const tags = result.dataset['tags'] as Array<{ id: string }>;
+      const posts = result.dataset['posts'] as Array<{ id: string; authorId: number }>;
+      const links = result.dataset['post_tags'] as Array<{ postId: string; tagId: string }>;
+
+      expect(users.map((user) => user.id)).toEqual([100, 101, 102, 103, 104]);
+      tags.forEach((tag) => expect(tag.id).toMatch(/^tag_[A-Za-z0-9]{16}$/));
+      posts.forEach((post) => {
+        expect(post.id).toMatch(/^[0-9A-HJKMNP-TV-Z]{26}$/);
+        expect(users.map((user) => user.id)).toContain(post.authorId);
+      });
+      links.forEach((link) => {
+        expect(posts.map((post) => post.id)).toContain(link.postId);
+        expect(tags.map((tag) => tag.id)).toContain(link.tagId);
+      });
+    });
+
+    it('should leave default IDs unchanged for entities without a strategy', async () => {
+      const schema: DatasetSchema = {
+        entities: {
+          users: { count: 2, type: EntityType.PERSON },
+          orders: {
+            count: 2,
+            type: EntityType.CUSTOM,
+            fields: ['total'],
+            idStrategy: { type: IdStrategyType.UUID },
+          },
+        },
+      };
+      const result = await new DatasetGenerator({ seed: 3 }).generateDataset(schema);
+
+      expect((result.dataset['users'] as Array<{ id: string }>).map((user) => user.id)).toEqual([
+        'users_1',
+        'users_2',
+      ]);
+    });
+  });
+
   describe('entity type handling', () => {
     it('should generate PERSON entities with person data', () => {
       const schema: DatasetSchema = {
@@ -509,4 +593,665 @@ describe('DatasetGenerator', () => {
       expect(seed).toBeUndefined();
     });
   });
+
+  describe('many-to-many generation', () => {
+    const baseEntities: DatasetSchema['entities'] = {
+      users: { count: 20, type: EntityType.PERSON },
+      roles: { count: 5, type: EntityType.CUSTOM, fields: ['title'] },
+    };
+
+    it('should generate arrays of distinct referenced IDs without a junction', async () => {
+      const generator = new DatasetGenerator({ seed: 12345 });
+      const result = await generator.generateDataset({
+        entities: {
+          ...baseEntities,
+          groups: {
+            count: 10,
+            type: EntityType.CUSTOM,
+            fields: ['title', 'memberIds'],
+            relationships: {
+              memberIds: {
+                references: 'users',
+                type: RelationshipType.MANY_TO_MANY,
+                minLinks: 2,
+                maxLinks: 4,
+              },
+            },
+          },
+        },
+      });
+
+      const userIds = (result.dataset['users'] as Array<{ id: string }>).map((u) => u.id);
+      const groups = result.dataset['groups'] as Array<{ memberIds: string[] }>;
+
+      groups.forEach((group) => {
+        expect(Array.isArray(group.memberIds)).toBe(true);
+        expect(group.memberIds.length).toBeGreaterThanOrEqual(2);
+        expect(group.memberIds.length).toBeLessThanOrEqual(4);
+        expect(new Set(group.memberIds).size).toBe(group.memberIds.length);
+        group.memberIds.forEach((id) => expect(userIds).toContain(id));
+      });
+    });
+
+    it('should generate a junction entity with no duplicate pairs', async () => {
+      const generator = new DatasetGenerator({ seed: 54321 });
+      const result = await generator.generateDataset({
+        entities: {
+          roles: { count: 5, type: EntityType.CUSTOM, fields: ['title'] },
+          users: {
+            count: 20,
+            type: EntityType.PERSON,
+            relationships: {
+              roles: {
+                references: 'roles',
+                type: RelationshipType.MANY_TO_MANY,
+                through: 'users_roles',
+                minLinks: 1,
+                maxLinks: 3,
+              },
+            },
+          },
+        },
+      });
+
+      const users = result.dataset['users'] as Array<Record<string, unknown>>;
+      const links = result.dataset['users_roles'] as Array<{ userId: string; roleId: string }>;
+
+      expect(users[0]).not.toHaveProperty('roles');
+      expect(result.metadata.entityCounts['users_roles']).toBe(links.length);
+      expect(links.length).toBeGreaterThanOrEqual(20);
+      expect(links.length).toBeLessThanOrEqual(60);
+
+      const pairs = links.map((link) => `${link.userId}|${link.roleId}`);
+      expect(new Set(pairs).size).toBe(pairs.length);
+
+      const perUser = new Map<string, number>();
+      links.forEach((link) => perUser.set(link.userId, (perUser.get(link.userId) ?? 0) + 1));
+      expect(perUser.size).toBe(20);
+      perUser.forEach((linkCount) => expect(linkCount).toBeLessThanOrEqual(3));
+    });
+
+    it('should honor custom junction column names', async () => {
+      const generator = new DatasetGenerator({ seed: 1 });
+      const result = await generator.generateDataset({
+        entities: {
+          ...baseEntities,
+          teams: {
+            count: 3,
+            type: EntityType.CUSTOM,
+            fields: ['title', 'members'],
+            relationships: {
+              members: {
+                references: 'users',
+                type: RelationshipType.MANY_TO_MANY,
+                through: 'team_members',
+                sourceKey: 'team_id',
+                targetKey: 'user_id',
+              },
+            },
+          },
+        },
+      });
+
+      const links = result.dataset['team_members'] as Array<Record<string, unknown>>;
+      expect(links.length).toBeGreaterThan(0);
+      expect(Object.keys(links[0] ?? {})).toEqual(['team_id', 'user_id']);
+      (result.dataset['teams'] as Array<Record<string, unknown>>).forEach((team) => {
+        expect(team).not.toHaveProperty('members');
+      });
+    });
+
+    it('should clamp link counts to the referenced entity size', async () => {
+      const generator = new DatasetGenerator({ seed: 99 });
+      const result = await generator.generateDataset({
+        entities: {
+          roles: { count: 2, type: EntityType.CUSTOM, fields: ['title'] },
+          users: {
+            count: 5,
+            type: EntityType.CUSTOM,
+            fields: ['roleIds'],
+            relationships: {
+              roleIds: {
+                references: 'roles',
+                type: RelationshipType.MANY_TO_MANY,
+                minLinks: 3,
+                maxLinks: 5,
+              },
+            },
+          },
+        },
+      });
+
+      (result.dataset['users'] as Array<{ roleIds: string[] }>).forEach((user) => {
+        expect(user.roleIds).toHaveLength(2);
+      });
+    });
+  });
+
+  describe('pattern-backed fields', () => {
+    const schema: DatasetSchema = {
+      entities: {
+        users: { count: 10, type: EntityType.PERSON },
+        orders: {
+          count: 50,
+          type: EntityType.CUSTOM,
+          fields: [
+            'userId',
+            { name: 'status', pattern: { type: PatternType.ENUM, value: ['open', 'closed'] } },
+            { name: 'sku', pattern: { type: PatternType.REGEX, value: 'SKU-[A-Z]{2}\\d{3}' } },
+            {
+              name: 'quantity',
+              pattern: { type: PatternType.RANGE, value: { min: 1, max: 5 } },
+            },
+            { name: 'price' },
+          ],
+          relationships: {
+            userId: { references: 'users', type: RelationshipType.ONE_TO_MANY },
+          },
+        },
+      },
+    };
+
+    it('should generate field values from custom patterns', async () => {
+      const generator = new DatasetGenerator({ seed: 12345 });
+      const result = await generator.generateDataset(schema);
+      const orders = result.dataset['orders'] as Array<Record<string, unknown>>;
+
+      orders.forEach((order) => {
+        expect(['open', 'closed']).toContain(order['status']);
+        expect(order['sku']).toMatch(/^SKU-[A-Z]{2}\d{3}$/);
+        expect(order['quantity']).toBeGreaterThanOrEqual(1);
+        expect(order['quantity']).toBeLessThanOrEqual(5);
+        expect(typeof order['price']).toBe('number');
+      });
+    });
+
+    it('should keep foreign keys referencing generated parents', async () => {
+      const generator = new DatasetGenerator({ seed: 12345 });
+      const result = await generator.generateDataset(schema);
+      const userIds = (result.dataset['users'] as Array<{ id: string }>).map((u) => u.id);
+
+      (result.dataset['orders'] as Array<{ userId: string }>).forEach((order) => {
+        expect(userIds).toContain(order.userId);
+      });
+    });
+
+    it('should be reproducible with the same seed', async () => {
+      const first = await new DatasetGenerator({ seed: 777 }).generateDataset(schema);
+      const second = await new DatasetGenerator({ seed: 777 }).generateDataset(schema);
+
+      expect(first.dataset).toEqual(second.dataset);
+    });
+  });
+
+  describe('typed fields', () => {
+    it('should generate values of the declared field type', async () => {
+      const generator = new DatasetGenerator({ seed: 2024 });
+      const result = await generator.generateDataset({
+        entities: {
+          events: {
+            count: 20,
+            type: EntityType.CUSTOM,
+            fields: [
+              { name: 'price', type: FieldType.STRING },
+              { name: 'attendees', type: FieldType.INTEGER },
+              { name: 'fee', type: FieldType.NUMBER },
+              { name: 'public', type: FieldType.BOOLEAN },
+              { name: 'day', type: FieldType.DATE },
+              { name: 'startsAt', type: FieldType.DATETIME },
+              { name: 'externalId', type: FieldType.UUID },
+              { name: 'metadata', type: FieldType.JSON },
+            ],
+          },
+        },
+      });
+
+      (result.dataset['events'] as Array<Record<string, unknown>>).forEach((event) => {
+        expect(typeof event['price']).toBe('string');
+        expect(Number.isInteger(event['attendees'])).toBe(true);
+        expect(typeof event['fee']).toBe('number');
+        expect(typeof event['public']).toBe('boolean');
+        expect(event['day']).toMatch(/^\d{4}-\d{2}-\d{2}$/);
+        expect(event['startsAt']).toMatch(/^\d{4}-\d{2}-\d{2}T/);
+        expect(event['externalId']).toMatch(/^[0-9a-f-]{36}$/);
+        expect(Array.isArray(event['metadata'])).toBe(true);
+      });
+    });
+  });
+
+  describe('unique fields', () => {
+    it('should keep unique custom and person fields distinct across records', async () => {
+      const result = await new DatasetGenerator({ seed: 31 }).generateDataset({
+        entities: {
+          users: { count: 500, type: EntityType.PERSON, unique: [PersonUniqueField.EMAIL] },
+          coupons: {
+            count: 900,
+            type: EntityType.CUSTOM,
+            fields: [
+              {
+                name: 'code',
+                pattern: { type: PatternType.FORMAT, value: 'C-{{number:3}}', unique: true },
+              },
+              { name: 'seat', type: FieldType.INTEGER, unique: true },
+            ],
+          },
+        },
+      });
+      const users = result.dataset['users'] as Array<{ email: string }>;
+      const coupons = result.dataset['coupons'] as Array<{ code: string; seat: number }>;
+
+      expect(new Set(users.map((user) => user.email)).size).toBe(500);
+      expect(new Set(coupons.map((coupon) => coupon.code)).size).toBe(900);
+      expect(new Set(coupons.map((coupon) => coupon.seat)).size).toBe(900);
+    });
+  });
+
+  describe('product entities', () => {
+    it('should generate catalog records that other entities can reference', async () => {
+      const result = await new DatasetGenerator({ seed: 8 }).generateDataset({
+        entities: {
+          products: { count: 50, type: EntityType.PRODUCT, unique: [ProductUniqueField.SKU] },
+          orderLines: {
+            count: 20,
+            type: EntityType.CUSTOM,
+            fields: ['productId', { name: 'quantity', type: FieldType.INTEGER }],
+            relationships: {
+              productId: { references: 'products', type: RelationshipType.ONE_TO_MANY },
+            },
+          },
+        },
+      });
+      const products = result.dataset['products'] as Array<Record<string, unknown>>;
+      const productIds = products.map((product) => product['id']);
+
+      expect(productIds[0]).toBe('products_1');
+      expect(new Set(products.map((product) => product['sku'])).size).toBe(50);
+      expect(products[0]).toHaveProperty('dimensions');
+      (result.dataset['orderLines'] as Array<{ productId: string }>).forEach((line) =>
+        expect(productIds).toContain(line.productId)
+      );
+    });
+  });
+
+  describe('order entities', () => {
+    it('should price line items from referenced products and reference customers', async () => {
+      const result = await new DatasetGenerator({ seed: 21 }).generateDataset({
+        entities: {
+          users: { count: 4, type: EntityType.PERSON },
+          products: { count: 10, type: EntityType.PRODUCT },
+          orders: {
+            count: 30,
+            type: EntityType.ORDER,
+            relationships: {
+              customerId: { references: 'users', type: RelationshipType.ONE_TO_MANY },
+              lines: { references: 'products', type: RelationshipType.MANY_TO_MANY, maxLinks: 5 },
+            },
+          },
+        },
+      });
+      const prices = new Map(
+        (result.dataset['products'] as Array<{ id: string; price: number }>).map((product) => [
+          product.id,
+          product.price,
+        ])
+      );
+      const orders = result.dataset['orders'] as Array<{
+        id: string;
+        customerId: string;
+        lines: Array<{ productId: string; unitPrice: number }>;
+      }>;
+
+      expect(orders[0]?.id).toBe('orders_1');
+      orders.forEach((order) => {
+        expect(order).not.toHaveProperty('items');
+        expect(order.customerId).toMatch(/^users_[1-4]$/);
+        expect(order.lines.length).toBeLessThanOrEqual(5);
+        order.lines.forEach((line) => expect(line.unitPrice).toBe(prices.get(line.productId)));
+      });
+    });
+  });
+
+  describe('financial entities', () => {
+    it('should generate accounts and balanced ledger transactions referencing them', async () => {
+      const result = await new DatasetGenerator({
+        seed: 5,
+        locale: SupportedLocale.DE,
+      }).generateDataset({
+        entities: {
+          accounts: { count: 3, type: EntityType.ACCOUNT },
+          journal: {
+            count: 20,
+            type: EntityType.LEDGER,
+            relationships: {
+              accountId: { references: 'accounts', type: RelationshipType.ONE_TO_MANY },
+            },
+          },
+        },
+      });
+      const accounts = result.dataset['accounts'] as Array<{ id: string; iban: string }>;
+      const journal = result.dataset['journal'] as Array<{
+        id: string;
+        accountId: string;
+        amount: number;
+        entries: Array<{ debit: number; credit: number }>;
+      }>;
+
+      expect(accounts[0]?.id).toBe('accounts_1');
+      accounts.forEach((account) => expect(account.iban).toMatch(/^DE\d{20}$/));
+      journal.forEach((transaction) => {
+        expect(transaction.accountId).toMatch(/^accounts_[1-3]$/);
+        const debits = transaction.entries.reduce((sum, entry) => sum + entry.debit * 100, 0);
+        const credits = transaction.entries.reduce((sum, entry) => sum + entry.credit * 100, 0);
+        expect(Math.round(debits)).toBe(Math.round(credits));
+      });
+    });
+  });
+
+  describe('currencies', () => {
+    it.each([
+      [SupportedLocale.EN, 'GBP'],
+      [SupportedLocale.DE, 'EUR'],
+      [SupportedLocale.JA, 'JPY'],
+    ])('should price every %s entity in %s', async (locale, currency) => {
+      const result = await new DatasetGenerator({ seed: 13, locale }).generateDataset({
+        entities: {
+          products: { count: 5, type: EntityType.PRODUCT },
+          orders: {
+            count: 5,
+            type: EntityType.ORDER,
+            relationships: {
+              lines: { references: 'products', type: RelationshipType.MANY_TO_MANY },
+            },
+          },
+          accounts: { count: 5, type: EntityType.ACCOUNT },
+          journal: { count: 5, type: EntityType.LEDGER },
+        },
+      });
+
+      for (const records of Object.values(result.dataset)) {
+        (records as Array<{ currency: string }>).forEach((record) =>
+          expect(record.currency).toBe(currency)
+        );
+      }
+    });
+  });
+
+  describe('null and omit rates', () => {
+    it('should apply relationship null rates and field null and omit rates', async () => {
+      const result = await new DatasetGenerator({ seed: 12 }).generateDataset({
+        entities: {
+          users: { count: 5, type: EntityType.PERSON },
+          orders: {
+            count: 200,
+            type: EntityType.CUSTOM,
+            fields: [
+              'userId',
+              'referrerId',
+              { name: 'note', type: FieldType.STRING, nullRate: 1 },
+              {
+                name: 'status',
+                pattern: { type: PatternType.ENUM, value: ['open'], omitRate: 1 },
+              },
+            ],
+            relationships: {
+              userId: {
+                references: 'users',
+                type: RelationshipType.ONE_TO_MANY,
+                nullable: true,
+                nullRate: 0,
+              },
+              referrerId: {
+                references: 'users',
+                type: RelationshipType.ONE_TO_MANY,
+                nullable: true,
+                nullRate: 1,
+              },
+            },
+          },
+        },
+      });
+
+      (result.dataset['orders'] as Array<Record<string, unknown>>).forEach((order) => {
+        expect(order['userId']).toEqual(expect.any(String));
+        expect(order['referrerId']).toBeNull();
+        expect(order['note']).toBeNull();
+        expect(order).not.toHaveProperty('status');
+      });
+    });
+  });
+
+  describe('unique keys and constraints', () => {
+    it('should keep records within their constraints and composite keys distinct', async () => {
+      const result = await new DatasetGenerator({ seed: 8 }).generateDataset({
+        entities: {
+          tenants: { count: 3, type: EntityType.COMPANY },
+          memberships: {
+            count: 10,
+            type: EntityType.CUSTOM,
+            fields: [
+              'tenantId',
+              { name: 'role', pattern: { type: PatternType.ENUM, value: ['a', 'b', 'c', 'd'] } },
+              { name: 'startDate', type: FieldType.DATE },
+              { name: 'endDate', type: FieldType.DATE },
+              { name: 'price', pattern: { type: PatternType.RANGE, value: { min: 10, max: 100 } } },
+              {
+                name: 'discount',
+                pattern: { type: PatternType.RANGE, value: { min: 0, max: 50 } },
+              },
+            ],
+            relationships: {
+              tenantId: { references: 'tenants', type: RelationshipType.ONE_TO_MANY },
+            },
+            uniqueKeys: [['tenantId', 'role']],
+            constraints: [
+              { field: 'endDate', operator: ConstraintOperator.GREATER_THAN, other: 'startDate' },
+              {
+                field: 'discount',
+                operator: ConstraintOperator.LESS_THAN_OR_EQUAL,
+                other: 'price',
+              },
+            ],
+          },
+        },
+      });
+      const memberships = result.dataset['memberships'] as Array<{
+        tenantId: string;
+        role: string;
+        startDate: string;
+        endDate: string;
+        price: number;
+        discount: number;
+      }>;
+
+      expect(new Set(memberships.map((m) => `${m.tenantId}/${m.role}`)).size).toBe(10);
+      memberships.forEach((membership) => {
+        expect(membership.endDate > membership.startDate).toBe(true);
+        expect(membership.discount).toBeLessThanOrEqual(membership.price);
+      });
+    });
+
+    it('should store IDs under a single-field primary key and keep composite keys distinct', async () => {
+      const generator = new DatasetGenerator({ seed: 12 });
+      const result = await generator.generateDataset({
+        entities: {
+          orders: {
+            count: 4,
+            type: EntityType.CUSTOM,
+            fields: ['total'],
+            primaryKey: ['orderId'],
+            idStrategy: { type: IdStrategyType.SEQUENCE },
+          },
+          lines: {
+            count: 8,
+            type: EntityType.CUSTOM,
+            fields: [
+              'orderId',
+              { name: 'line', pattern: { type: PatternType.RANGE, value: { min: 1, max: 3 } } },
+            ],
+            relationships: {
+              orderId: { references: 'orders', type: RelationshipType.ONE_TO_MANY },
+            },
+            primaryKey: ['orderId', 'line'],
+          },
+        },
+      });
+      const orders = result.dataset['orders'] as Array<Record<string, unknown>>;
+      const lines = result.dataset['lines'] as Array<Record<string, unknown>>;
+
+      expect(orders.map((order) => order.orderId)).toEqual([1, 2, 3, 4]);
+      expect(orders.every((order) => !('id' in order))).toBe(true);
+      expect(Object.keys(lines[0] ?? {})).toEqual(['orderId', 'line']);
+      expect(
+        new Set(lines.map((line) => `${String(line.orderId)}/${String(line.line)}`)).size
+      ).toBe(8);
+    });
+
+    it('should fail when a constraint cannot be met', async () => {
+      const generator = new DatasetGenerator({ seed: 8 });
+      const schema: DatasetSchema = {
+        entities: {
+          pairs: {
+            count: 1,
+            type: EntityType.CUSTOM,
+            fields: [
+              { name: 'low', pattern: { type: PatternType.ENUM, value: ['x'] } },
+              { name: 'high', pattern: { type: PatternType.ENUM, value: ['x'] } },
+            ],
+            constraints: [
+              { field: 'high', operator: ConstraintOperator.GREATER_THAN, other: 'low' },
+            ],
+          },
+        },
+      };
+
+      await expect(generator.generateDataset(schema)).rejects.toThrow(ConstraintUnsatisfiedError);
+    });
+  });
+
+  describe('one-to-many cardinality', () => {
+    const childrenPerParent = (orders: Array<{ userId: string | null }>, userIds: string[]) => {
+      const counts = new Map<string, number>(userIds.map((id) => [id, 0]));
+      orders.forEach((order) => {
+        if (order.userId !== null) {
+          counts.set(order.userId, (counts.get(order.userId) ?? 0) + 1);
+        }
+      });
+      return Array.from(counts.values());
+    };
+
+    const generate = async (cardinality: object, nullable = false) => {
+      const generator = new DatasetGenerator({ seed: 12345 });
+      const result = await generator.generateDataset({
+        entities: {
+          users: { count: 20, type: EntityType.PERSON },
+          orders: {
+            count: 200,
+            type: EntityType.CUSTOM,
+            fields: ['userId', 'amount'],
+            relationships: {
+              userId: {
+                references: 'users',
+                type: RelationshipType.ONE_TO_MANY,
+                nullable,
+                cardinality,
+              },
+            },
+          },
+        },
+      });
+      const userIds = (result.dataset['users'] as Array<{ id: string }>).map((u) => u.id);
+      const orders = result.dataset['orders'] as Array<{ userId: string | null }>;
+      return { orders, counts: childrenPerParent(orders, userIds) };
+    };
+
+    it('should give every parent between min and max children', async () => {
+      const { orders, counts } = await generate({ min: 5, max: 15 });
+
+      expect(orders).toHaveLength(200);
+      counts.forEach((count) => {
+        expect(count).toBeGreaterThanOrEqual(5);
+        expect(count).toBeLessThanOrEqual(15);
+      });
+    });
+
+    it('should give every parent at least one child with min 1', async () => {
+      const { counts } = await generate({ min: 1, distribution: CardinalityDistribution.ZIPF });
+
+      counts.forEach((count) => expect(count).toBeGreaterThanOrEqual(1));
+    });
+
+    it('should concentrate children on few parents with a skewed distribution', async () => {
+      const { counts } = await generate({ distribution: CardinalityDistribution.ZIPF, skew: 1.5 });
+      const sorted = [...counts].sort((a, b) => b - a);
+      const topFour = sorted.slice(0, 4).reduce((sum, count) => sum + count, 0);
+
+      // The heaviest 20% of parents hold well over 20% of children
+      expect(topFour).toBeGreaterThan(100);
+    });
+
+    it('should support pareto distributions', async () => {
+      const { orders, counts } = await generate({ distribution: CardinalityDistribution.PARETO });
+
+      expect(orders).toHaveLength(200);
+      expect(counts.reduce((sum, count) => sum + count, 0)).toBe(200);
+    });
+
+    it('should turn overflow beyond max into nulls for nullable relationships', async () => {
+      const { orders, counts } = await generate({ max: 5 }, true);
+
+      counts.forEach((count) => expect(count).toBeLessThanOrEqual(5));
+      expect(orders.filter((order) => order.userId === null).length).toBeGreaterThanOrEqual(100);
+    });
+  });
+
+  describe('progress and cancellation', () => {
+    const schema: DatasetSchema = {
+      entities: {
+        users: { count: 2500, type: EntityType.PERSON },
+        orders: {
+          count: 10,
+          type: EntityType.CUSTOM,
+          fields: ['userId', 'amount'],
+          relationships: {
+            userId: { references: 'users', type: RelationshipType.ONE_TO_MANY },
+          },
+        },
+      },
+    };
+
+    it('should report progress after every batch across all entities', async () => {
+      const progress: Array<[number, number]> = [];
+      const generator = new DatasetGenerator({ seed: 12345 });
+
+      await generator.generateDataset(schema, {
+        onProgress: (completed, total) => {
+          progress.push([completed, total]);
+        },
+      });
+
+      expect(progress).toEqual([
+        [1000, 2510],
+        [2000, 2510],
+        [2500, 2510],
+        [2510, 2510],
+      ]);
+    });
+
+    it('should stop between batches once the signal is aborted', async () => {
+      const controller = new AbortController();
+      let reports = 0;
+      const generator = new DatasetGenerator({ seed: 12345 });
+
+      await expect(
+        generator.generateDataset(schema, {
+          onProgress: () => {
+            reports++;
+            controller.abort();
+          },
+          signal: controller.signal,
+        })
+      ).rejects.toThrow('Generation cancelled');
+      expect(reports).toBe(1);
+    });
+  });
 });
@@ -0,0 +1,191 @@
+import { describe, it, expect } from 'vitest';
+import { FinancialGenerator } from '../../../src/generators/financial-generator';
+import { BankCountry, CardNetwork, SupportedLocale } from '../../../src/types/schema';
+import { isValidIban, isValidLuhn } from '../../../src/utils/financial-codes';
+import type { PaymentCard } from '../../../src/types/responses';
+import { assertions } from '../../helpers/test-utils';
+
+describe('FinancialGenerator', () => {
+  const cents = (amount: number) => Math.round(amount * 100);
+
+  describe('Accounts', () => {
+    it('should generate account with all required fields', () => {
+      const account = new FinancialGenerator({ seed: 123 }).generateAccount();
+
+      assertions.toBeNonEmptyString(account.id as string);
+      assertions.toBeNonEmptyString(account.holder);
+      expect(account.country).toBe(BankCountry.GB);
+      expect(account.currency).toBe('GBP');
+      expect(account.iban).toMatch(/^GB\d{2}[A-Z]{4}\d{14}$/);
+      expect(account.bic).toMatch(/^[A-Z]{4}GB[A-Z0-9]{2}$/);
+      expect(account.card).toBeDefined();
+    });
+
+    it('should generate consistent data with same seed', async () => {
+      const first = await new FinancialGenerator({ seed: 789 }).generateAccounts(5);
+      const second = await new FinancialGenerator({ seed: 789 }).generateAccounts(5);
+
+      expect(first).toEqual(second);
+      assertions.toHaveUniqueIds(first);
+    });
+
+    it.each([
+      [SupportedLocale.EN, 'GB', 22],
+      [SupportedLocale.DE, 'DE', 22],
+      [SupportedLocale.FR, 'FR', 27],
+      [SupportedLocale.ES, 'ES', 24],
+    ])('should generate valid %s IBANs of the locale country', async (locale, country, length) => {
+      const accounts = await new FinancialGenerator({ seed: 42, locale }).generateAccounts(50);
+
+      accounts.forEach((account) => {
+        expect(account.country).toBe(country);
+        expect(account.iban).toHaveLength(length);
+        expect(account.iban?.startsWith(country)).toBe(true);
+        expect(isValidIban(account.iban as string)).toBe(true);
+      });
+    });
+
+    it('should give French IBANs a valid RIB key', async () => {
+      const accounts = await new FinancialGenerator({
+        seed: 5,
+        locale: SupportedLocale.FR,
+      }).generateAccounts(50);
+
+      accounts.forEach((account) => {
+        const bban = (account.iban as string).slice(4);
+        const [bank = 0, branch = 0, number = 0, key = 0] = [
+          bban.slice(0, 5),
+          bban.slice(5, 10),
+          bban.slice(10, 21),
+          bban.slice(21),
+        ].map(Number);
+        expect((89 * bank + 15 * branch + 3 * number + key) % 97).toBe(0);
+      });
+    });
+
+    it('should generate Dutch IBANs on request and no IBAN for Japanese accounts', async () => {
+      const generator = new FinancialGenerator({ seed: 11, locale: SupportedLocale.JA });
+      const japanese = await generator.generateAccounts(10);
+      const dutch = await generator.generateAccounts(10, { country: BankCountry.NL });
+
+      japanese.forEach((account) => {
+        expect(account.iban).toBeNull();
+        expect(account.currency).toBe('JPY');
+        expect(Number.isInteger(account.balance)).toBe(true);
+        expect(account.accountNumber).toMatch(/^\d{7}$/);
+      });
+      dutch.forEach((account) => {
+        expect(account.iban).toMatch(/^NL\d{2}[A-Z]{4}\d{10}$/);
+        expect(isValidIban(account.iban as string)).toBe(true);
+        expect(account.currency).toBe('EUR');
+      });
+    });
+
+    it('should generate Luhn-valid cards of the requested networks', async () => {
+      const accounts = await new FinancialGenerator({ seed: 3 }).generateAccounts(100, {
+        cardNetworks: [CardNetwork.AMEX, CardNetwork.MASTERCARD],
+      });
+
+      accounts.forEach((account) => {
+        const card = account.card as PaymentCard;
+        expect(isValidLuhn(card.number)).toBe(true);
+        expect(card.expiry).toMatch(/^(0[1-9]|1[0-2])\/\d{2}$/);
+        if (card.network === CardNetwork.AMEX) {
+          expect(card.number).toMatch(/^3[47]\d{13}$/);
+          expect(card.cvv).toMatch(/^\d{4}$/);
+        } else {
+          expect(card.network).toBe(CardNetwork.MASTERCARD);
+          expect(card.number).toMatch(/^(5[1-5]|2221|2720)\d+$/);
+          expect(card.number).toHaveLength(16);
+          expect(card.cvv).toMatch(/^\d{3}$/);
+        }
+      });
+    });
+
+    it('should place card expiries after the reference date', async () => {
+      const accounts = await new FinancialGenerator({
+        seed: 8,
+        referenceDate: '2030-06-01T00:00:00Z',
+      }).generateAccounts(20);
+
+      accounts.forEach((account) => {
+        const year = Number((account.card as PaymentCard).expiry.slice(3));
+        expect(year).toBeGreaterThanOrEqual(31);
+        expect(year).toBeLessThanOrEqual(35);
+      });
+    });
+
+    it('should leave out cards when disabled', () => {
+      const account = new FinancialGenerator({ seed: 1 }).generateAccount({ includeCard: false });
+
+      expect(account).not.toHaveProperty('card');
+    });
+  });
+
+  describe('Ledger Transactions', () => {
+    it('should balance debits and credits of every transaction to the cent', async () => {
+      const transactions = await new FinancialGenerator({ seed: 42 }).generateTransactions(200);
+
+      transactions.forEach((transaction) => {
+        const debits = transaction.entries.reduce((sum, entry) => sum + cents(entry.debit), 0);
+        const credits = transaction.entries.reduce((sum, entry) => sum + cents(entry.credit), 0);
+
+        expect(debits).toBe(credits);
+        expect(debits).toBe(cents(transaction.amount));
+        transaction.entries.forEach((entry) => {
+          expect(entry.debit === 0 || entry.credit === 0).toBe(true);
+          expect(entry.debit + entry.credit).toBeGreaterThan(0);
+          assertions.toBeNonEmptyString(entry.accountName);
+        });
+      });
+      expect(transactions.some((transaction) => transaction.entries.length > 2)).toBe(true);
+    });
+
+    it('should number journal references and post before the reference date', async () => {
+      const referenceDate = '2025-01-01T00:00:00.000Z';
+      const transactions = await new FinancialGenerator({ seed: 9 }).generateTransactions(3);
+
+      expect(transactions.map((transaction) => transaction.reference)).toEqual([
+        'JE-000001',
+        'JE-000002',
+        'JE-000003',
+      ]);
+      transactions.forEach((transaction) => {
+        expect(transaction.postedAt <= referenceDate).toBe(true);
+        expect(transaction.currency).toBe('GBP');
+      });
+    });
+
+    it('should use whole amounts for currencies without minor units', async () => {
+      const transactions = await new FinancialGenerator({
+        seed: 4,
+        locale: SupportedLocale.JA,
+      }).generateTransactions(50);
+
+      transactions.forEach((transaction) => {
+        expect(transaction.currency).toBe('JPY');
+        transaction.entries.forEach((entry) => {
+          expect(Number.isInteger(entry.debit)).toBe(true);
+          expect(Number.isInteger(entry.credit)).toBe(true);
+        });
+      });
+    });
+
+    it('should default to the currency of the accounts for every locale', async () => {
+      for (const locale of Object.values(SupportedLocale)) {
+        const generator = new FinancialGenerator({ seed: 6, locale });
+        const [account] = await generator.generateAccounts(1);
+        const [transaction] = await generator.generateTransactions(1);
+
+        expect(transaction?.currency).toBe(account?.currency);
+      }
+    });
+
+    it('should stream the same transactions as generateTransactions', async () => {
+      const generated = await new FinancialGenerator({ seed: 21 }).generateTransactions(5);
+      const streamed = [...new FinancialGenerator({ seed: 21 }).streamTransactions(5)];
+
+      expect(streamed).toEqual(generated);
+    });
+  });
+});
@@ -0,0 +1,418 @@
+/**
+ * Unit tests for JsonSchemaGenerator
+ *
+ * Tests:
+ * - Types, formats, enums and patterns
+ * - Numeric and length bounds
+ * - Required/optional properties, nested objects and arrays
+ * - $ref, allOf, anyOf and oneOf composition
+ * - Seed reproducibility
+ * - Error handling
+ */
+
+import { describe, it, expect } from 'vitest';
+import Ajv from 'ajv';
+import addFormats from 'ajv-formats';
+import { JsonSchemaGenerator } from '../../../src/generators/json-schema-generator.js';
+import type { JsonSchema } from '../../../src/types/schema.js';
+
+describe('JsonSchemaGenerator', () => {
+  const generateMany = (schema: JsonSchema, count = 50, includeOptional?: boolean) =>
+    new JsonSchemaGenerator({ seed: 12345 }).generateMany(count, { schema, includeOptional });
+
+  describe('types and formats', () => {
+    it('should generate values of each primitive type', async () => {
+      const [record] = (await generateMany(
+        {
+          type: 'object',
+          properties: {
+            name: { type: 'string' },
+            score: { type: 'number' },
+            rank: { type: 'integer' },
+            active: { type: 'boolean' },
+            removed: { type: 'null' },
+          },
+        },
+        1
+      )) as Array<Record<string, unknown>>;
+
+      expect(typeof record?.name).toBe('string');
+      expect(typeof record?.score).toBe('number');
+      expect(Number.isInteger(record?.rank)).toBe(true);
+      expect(typeof record?.active).toBe('boolean');
+      expect(record?.removed).toBeNull();
+    });
+
+    it.each([
+      ['email', /^[^@\s]+@[^@\s]+\.[^@\s]+$/],
+      ['uri', /^https?:\/\//],
+      ['date-time', /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}\.\d{3}Z$/],
+      ['date', /^\d{4}-\d{2}-\d{2}$/],
+      ['uuid', /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/],
+      ['ipv4', /^\d{1,3}(\.\d{1,3}){3}$/],
+    ])('should generate %s strings', async (format, expected) => {
+      (await generateMany({ type: 'string', format }, 20)).forEach((value) => {
+        expect(value).toMatch(expected);
+      });
+    });
+
+    it('should anchor dates to the reference date', async () => {
+      const values = (await new JsonSchemaGenerator({
+        seed: 1,
+        referenceDate: '2010-06-01T00:00:00Z',
+      }).generateMany(20, { schema: { type: 'string', format: 'date-time' } })) as string[];
+
+      values.forEach((value) => {
+        expect(new Date(value).getTime()).toBeLessThanOrEqual(Date.parse('2010-06-01T00:00:00Z'));
+      });
+    });
+
+    it('should pick values from enum and const', async () => {
+      (await generateMany({ enum: ['red', 'green', 3] })).forEach((value) => {
+        expect(['red', 'green', 3]).toContain(value);
+      });
+      expect(await generateMany({ const: { v: 1 } }, 1)).toEqual([{ v: 1 }]);
+    });
+
+    it('should generate strings matching a pattern', async () => {
+      (await generateMany({ type: 'string', pattern: '^ORD-[A-Z]{3}-\\d{4}$' })).forEach(
+        (value) => {
+          expect(value).toMatch(/^ORD-[A-Z]{3}-\d{4}$/);
+        }
+      );
+    });
+
+    it('should never produce null when another type is allowed', async () => {
+      (await generateMany({ type: ['string', 'null'] })).forEach((value) => {
+        expect(typeof value).toBe('string');
+      });
+    });
+  });
+
+  describe('bounds', () => {
+    it('should respect minimum and maximum', async () => {
+      (await generateMany({ type: 'integer', minimum: 5, maximum: 8 })).forEach((value) => {
+        expect(value).toBeGreaterThanOrEqual(5);
+        expect(value).toBeLessThanOrEqual(8);
+      });
+    });
+
+    it('should respect exclusive bounds in both draft styles', async () => {
+      (await generateMany({ type: 'integer', exclusiveMinimum: 1, exclusiveMaximum: 3 })).forEach(
+        (value) => expect(value).toBe(2)
+      );
+      (
+        await generateMany({
+          type: 'integer',
+          minimum: 1,
+          maximum: 3,
+          exclusiveMinimum: true,
+          exclusiveMaximum: true,
+        })
+      ).forEach((value) => expect(value).toBe(2));
+    });
+
+    it('should generate multiples of multipleOf', async () => {
+      (await generateMany({ type: 'number', minimum: 0, maximum: 10, multipleOf: 0.25 })).forEach(
+        (value) => {
+          expect(((value as number) * 4) % 1).toBe(0);
+        }
+      );
+      (await generateMany({ type: 'integer', minimum: 0, maximum: 100, multipleOf: 7 })).forEach(
+        (value) => {
+          expect((value as number) % 7).toBe(0);
+        }
+      );
+    });
+
+    it('should respect minLength and maxLength', async () => {
+      (await generateMany({ type: 'string', minLength: 30, maxLength: 40 })).forEach((value) => {
+        expect((value as string).length).toBeGreaterThanOrEqual(30);
+        expect((value as string).length).toBeLessThanOrEqual(40);
+      });
+      (await generateMany({ type: 'string', maxLength: 3 })).forEach((value) => {
+        expect((value as string).length).toBeLessThanOrEqual(3);
+      });
+    });
+
+    it('should fit formatted strings to minLength and maxLength', async () => {
+      const ajv = new Ajv();
+      addFormats(ajv);
+      const schemas: JsonSchema[] = [
+        { type: 'string', format: 'email', maxLength: 10 },
+        { type: 'string', format: 'email', minLength: 40, maxLength: 45 },
+        { type: 'string', format: 'uri', maxLength: 14 },
+        { type: 'string', format: 'hostname', minLength: 70, maxLength: 80 },
+        { type: 'string', format: 'ipv4', maxLength: 11 },
+      ];
+
+      for (const schema of schemas) {
+        const validate = ajv.compile(schema);
+        (await generateMany(schema, 200)).forEach((value) => {
+          expect(validate(value), `${String(value)} for ${JSON.stringify(schema)}`).toBe(true);
+        });
+      }
+    });
+
+    it('should fit pattern strings to minLength and maxLength', async () => {
+      const ajv = new Ajv();
+      const schemas: JsonSchema[] = [
+        { type: 'string', pattern: '^[a-z]+$', maxLength: 5 },
+        { type: 'string', pattern: '^[A-Z]{2}-\\d*$', minLength: 6, maxLength: 8 },
+      ];
+
+      for (const schema of schemas) {
+        const validate = ajv.compile(schema);
+        (await generateMany(schema, 200)).forEach((value) => {
+          expect(validate(value), `${String(value)} for ${JSON.stringify(schema)}`).toBe(true);
+        });
+      }
+      await expect(
+        generateMany({ type: 'string', pattern: '^[a-z]{2,4}$', minLength: 10 }, 1)
+      ).rejects.toThrow('No string matching ^[a-z]{2,4}$ with a length of at least 10 was found');
+    });
+
+    it('should throw when no value satisfies the bounds', async () => {
+      await expect(
+        generateMany({ type: 'integer', minimum: 1.2, maximum: 1.8 }, 1)
+      ).rejects.toThrow('No integer multiple of 1 between 1.2 and 1.8');
+      await expect(generateMany({ type: 'string', minLength: 5, maxLength: 2 }, 1)).rejects.toThrow(
+        'minLength (5)'
+      );
+      await expect(
+        generateMany({ type: 'string', format: 'email', maxLength: 5 }, 1)
+      ).rejects.toThrow('No email string has a length between 0 and 5');
+      await expect(
+        generateMany({ type: 'string', format: 'uuid', maxLength: 20 }, 1)
+      ).rejects.toThrow('No uuid string has a length between 0 and 20');
+    });
+  });
+
+  describe('objects and arrays', () => {
+    const schema: JsonSchema = {
+      type: 'object',
+      required: ['id', 'address'],
+      properties: {
+        id: { type: 'string', format: 'uuid' },
+        nickname: { type: 'string' },
+        address: {
+          type: 'object',
+          required: ['city'],
+          properties: { city: { type: 'string' }, zip: { type: 'string', pattern: '\\d{5}' } },
+        },
+      },
+    };
+
+    it('should generate nested objects with all properties by default', async () => {
+      const [record] = (await generateMany(schema, 1)) as Array<Record<string, unknown>>;
+
+      expect(Object.keys(record ?? {})).toEqual(['id', 'nickname', 'address']);
+      expect(Object.keys(record?.address as object)).toEqual(['city', 'zip']);
+    });
+
+    it('should generate only required properties when includeOptional is false', async () => {
+      const [record] = (await generateMany(schema, 1, false)) as Array<Record<string, unknown>>;
+
+      expect(Object.keys(record ?? {})).toEqual(['id', 'address']);
+      expect(Object.keys(record?.address as object)).toEqual(['city']);
+    });
+
+    it('should generate required properties missing from properties from additionalProperties', async () => {
+      const records = (await generateMany(
+        {
+          type: 'object',
+          required: ['score'],
+          additionalProperties: { type: 'integer', maximum: 5 },
+        },
+        20
+      )) as Array<Record<string, unknown>>;
+
+      records.forEach((record) => {
+        expect(Number.isInteger(record.score)).toBe(true);
+        expect(record.score).toBeLessThanOrEqual(5);
+      });
+      await expect(
+        generateMany(
+          {
+            type: 'object',
+            required: ['id', 'score'],
+            properties: { id: { type: 'integer' } },
+            additionalProperties: false,
+          },
+          1
+        )
+      ).rejects.toThrow(
+        'Required property score is not defined in properties and additionalProperties is false'
+      );
+    });
+
+    it('should respect minItems, maxItems and uniqueItems', async () => {
+      (
+        await generateMany({
+          type: 'array',
+          items: { type: 'integer', minimum: 1, maximum: 6 },
+          minItems: 2,
+          maxItems: 4,
+          uniqueItems: true,
+        })
+      ).forEach((value) => {
+        const items = value as number[];
+        expect(items.length).toBeGreaterThanOrEqual(2);
+        expect(items.length).toBeLessThanOrEqual(4);
+        expect(new Set(items).size).toBe(items.length);
+      });
+    });
+
+    it('should generate tuples from prefixItems', async () => {
+      const [tuple] = (await generateMany(
+        { type: 'array', prefixItems: [{ type: 'string' }, { type: 'integer' }], maxItems: 2 },
+        1
+      )) as unknown[][];
+
+      expect(typeof tuple?.[0]).toBe('string');
+      expect(Number.isInteger(tuple?.[1])).toBe(true);
+    });
+  });
+
+  describe('composition', () => {
+    it('should resolve local $ref against $defs and definitions', async () => {
+      const [record] = (await generateMany(
+        {
+          type: 'object',
+          properties: {
+            home: { $ref: '#/$defs/Address' },
+            work: { $ref: '#/definitions/Address' },
+          },
+          $defs: {
+            Address: { type: 'object', required: ['zip'], properties: { zip: { const: 'A' } } },
+          },
+          definitions: { Address: { type: 'object', properties: { zip: { const: 'B' } } } },
+        },
+        1
+      )) as Array<Record<string, unknown>>;
+
+      expect(record).toEqual({ home: { zip: 'A' }, work: { zip: 'B' } });
+    });
+
+    it('should terminate recursive schemas through optional properties', async () => {
+      const tree: JsonSchema = {
+        type: 'object',
+        required: ['value'],
+        properties: {
+          value: { type: 'integer' },
+          children: { type: 'array', items: { $ref: '#' } },
+        },
+      };
+
+      await expect(generateMany(tree, 5)).resolves.toHaveLength(5);
+    });
+
+    it('should merge allOf and pick one of oneOf', async () => {
+      const [merged] = await generateMany(
+        {
+          allOf: [
+            { type: 'object', properties: { a: { const: 1 } } },
+            { properties: { b: { const: 2 } } },
+          ],
+        },
+        1
+      );
+      expect(merged).toEqual({ a: 1, b: 2 });
+
+      (await generateMany({ oneOf: [{ const: 'x' }, { const: 'y' }] })).forEach((value) => {
+        expect(['x', 'y']).toContain(value);
+      });
+    });
+
+    it('should keep the tightest allOf bounds and combine required lists', async () => {
+      const ajv = new Ajv({ strictTypes: false });
+      const schemas: JsonSchema[] = [
+        {
+          allOf: [
+            { type: 'integer', minimum: 5 },
+            { type: 'number', minimum: 1, maximum: 10 },
+          ],
+        },
+        {
+          allOf: [
+            { type: 'number', multipleOf: 0.5 },
+            { multipleOf: 0.2, exclusiveMaximum: 3 },
+          ],
+        },
+        { allOf: [{ type: 'string', minLength: 4, maxLength: 20 }, { maxLength: 6 }] },
+        { allOf: [{ type: 'array', items: { type: 'integer' }, maxItems: 2 }, { minItems: 2 }] },
+        {
+          allOf: [
+            { type: 'object', required: ['a'], properties: { a: { type: 'integer', maximum: 3 } } },
+            { required: ['b'], properties: { a: { minimum: 2 }, b: { enum: ['x', 'y'] } } },
+          ],
+        },
+      ];
+
+      for (const schema of schemas) {
+        const validate = ajv.compile(schema);
+        (await generateMany(schema, 100, false)).forEach((value) => {
+          expect(validate(value), `${JSON.stringify(value)} for ${JSON.stringify(schema)}`).toBe(
+            true
+          );
+        });
+      }
+      await expect(
+        generateMany({ allOf: [{ type: 'string' }, { type: 'integer' }] }, 1)
+      ).rejects.toThrow('allOf schemas have no type in common: string and integer');
+    });
+
+    it('should redraw oneOf values until they match exactly one schema', async () => {
+      const ajv = new Ajv({ strictTypes: false });
+      const schemas: JsonSchema[] = [
+        { oneOf: [{ type: 'integer' }, { type: 'number' }], minimum: 0, maximum: 10 },
+        {
+          oneOf: [
+            { type: 'string', maxLength: 5 },
+            { type: 'string', minLength: 3 },
+          ],
+        },
+        { oneOf: [{ multipleOf: 2 }, { multipleOf: 3 }], type: 'integer', maximum: 12 },
+      ];
+
+      for (const schema of schemas) {
+        const validate = ajv.compile(schema);
+        (await generateMany(schema, 100)).forEach((value) => {
+          expect(validate(value), `${JSON.stringify(value)} for ${JSON.stringify(schema)}`).toBe(
+            true
+          );
+        });
+      }
+      await expect(
+        generateMany(
+          { oneOf: [{ type: 'integer' }, { type: 'integer', minimum: 0 }], minimum: 0 },
+          1
+        )
+      ).rejects.toThrow('No value matching exactly one of the 2 oneOf schemas was found');
+    });
+
+    it('should reject remote and unresolvable references', async () => {
+      await expect(generateMany({ $ref: 'https://example.com/user.json' }, 1)).rejects.toThrow(
+        'Only local references'
+      );
+      await expect(generateMany({ $ref: '#/$defs/Missing' }, 1)).rejects.toThrow(
+        'Unresolvable $ref: #/$defs/Missing'
+      );
+    });
+  });
+
+  describe('seed reproducibility', () => {
+    it('should produce identical records with the same seed', async () => {
+      const schema: JsonSchema = {
+        type: 'object',
+        properties: {
+          id: { type: 'string', format: 'uuid' },
+          code: { type: 'string', pattern: '[A-Z]{4}' },
+          tags: { type: 'array', items: { type: 'string' } },
+        },
+      };
+
+      expect(await generateMany(schema, 10)).toEqual(await generateMany(schema, 10));
+    });
+  });
+});
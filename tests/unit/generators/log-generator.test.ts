@@ -0,0 +1,152 @@
+import { describe, it, expect } from 'vitest';
+import { LogGenerator } from '../../../src/generators/log-generator';
+import { AuthEvent, LogLevel, LogType, SupportedLocale } from '../../../src/types/schema';
+import type { AccessLogData, AppLogData, AuthLogData } from '../../../src/types/responses';
+import { assertions } from '../../helpers/test-utils';
+
+describe('LogGenerator', () => {
+  const referenceDate = '2025-01-01T00:00:00.000Z';
+
+  describe('Basic Generation', () => {
+    it('should generate an access log record by default', () => {
+      const record = new LogGenerator({ seed: 123 }).generate() as AccessLogData;
+
+      assertions.toBeNonEmptyString(record.id as string);
+      expect(record.type).toBe(LogType.ACCESS);
+      expect(record.path.startsWith('/')).toBe(true);
+      expect(record.timestamp < referenceDate).toBe(true);
+    });
+
+    it('should generate consistent data with same seed', async () => {
+      const first = await new LogGenerator({ seed: 789 }).generateMany(50);
+      const second = await new LogGenerator({ seed: 789 }).generateMany(50);
+
+      expect(first).toEqual(second);
+      assertions.toHaveUniqueIds(first);
+    });
+
+    it('should stream the same records as generateMany', async () => {
+      const options = { type: LogType.AUTH };
+      const generated = await new LogGenerator({ seed: 21 }).generateMany(40, options);
+      const streamed = [...new LogGenerator({ seed: 21 }).stream(40, options)];
+
+      expect(streamed).toEqual(generated);
+    });
+
+    it.each(Object.values(SupportedLocale))(
+      'should generate logs in the %s locale',
+      async (locale) => {
+        for (const type of Object.values(LogType)) {
+          const records = await new LogGenerator({ seed: 5, locale }).generateMany(20, { type });
+          expect(records).toHaveLength(20);
+        }
+      }
+    );
+  });
+
+  describe('Timestamps', () => {
+    it('should order records in time over the span set by the rate, ending at the reference date', async () => {
+      const records = await new LogGenerator({ seed: 3 }).generateMany(600, {
+        eventsPerMinute: 120,
+      });
+      const times = records.map((record) => record.timestamp);
+
+      expect([...times].sort()).toEqual(times);
+      expect(times.every((time) => time <= referenceDate)).toBe(true);
+      expect(times.every((time) => time >= '2024-12-31T23:55:00.000Z')).toBe(true);
+    });
+  });
+
+  describe('Access Logs', () => {
+    it('should follow realistic method and status distributions', async () => {
+      const records = (await new LogGenerator({ seed: 42 }).generateMany(3000)) as AccessLogData[];
+      const share = (test: (record: AccessLogData) => boolean) =>
+        records.filter(test).length / records.length;
+
+      expect(share((record) => record.method === 'GET')).toBeGreaterThan(0.75);
+      expect(share((record) => record.status >= 200 && record.status < 400)).toBeGreaterThan(0.88);
+      expect(share((record) => record.status >= 500)).toBeGreaterThan(0);
+      expect(share((record) => record.status >= 500)).toBeLessThan(0.03);
+      expect(share((record) => record.clientIp.includes(':'))).toBeGreaterThan(0.05);
+      records
+        .filter((record) => record.status === 204 || record.status === 304)
+        .forEach((record) => expect(record.bytes).toBe(0));
+      records.forEach((record) => {
+        expect(record.latencyMs).toBeGreaterThanOrEqual(1);
+        expect(Number.isInteger(record.latencyMs)).toBe(true);
+      });
+    });
+
+    it('should share client details within a session', async () => {
+      const records = (await new LogGenerator({ seed: 8 }).generateMany(500)) as AccessLogData[];
+      const sessions = new Map<string, AccessLogData>();
+
+      records.forEach((record) => {
+        const first = sessions.get(record.sessionId) ?? record;
+        sessions.set(record.sessionId, first);
+        expect(record.clientIp).toBe(first.clientIp);
+        expect(record.userAgent).toBe(first.userAgent);
+        expect(record.user).toBe(first.user);
+      });
+      expect(sessions.size).toBeLessThan(records.length / 2);
+    });
+  });
+
+  describe('Auth Logs', () => {
+    it('should issue JWT-shaped tokens on successful logins only', async () => {
+      const records = (await new LogGenerator({ seed: 11 }).generateMany(400, {
+        type: LogType.AUTH,
+      })) as AuthLogData[];
+
+      records.forEach((record) => {
+        expect(Object.values(AuthEvent)).toContain(record.event);
+        expect(record.reason === null).toBe(record.outcome === 'success');
+        if (record.outcome === 'failure' || record.event === AuthEvent.LOGOUT) {
+          expect(record.token).toBeNull();
+        }
+      });
+
+      const login = records.find(
+        (record) => record.event === AuthEvent.LOGIN && record.outcome === 'success'
+      );
+      const [header, payload, signature] = (login?.token ?? '').split('.');
+      const claims = JSON.parse(Buffer.from(payload ?? '', 'base64url').toString()) as {
+        sub: string;
+        sid: string;
+        iat: number;
+        exp: number;
+      };
+      expect(JSON.parse(Buffer.from(header ?? '', 'base64url').toString())).toEqual({
+        alg: 'HS256',
+        typ: 'JWT',
+      });
+      expect(claims.sub).toBe(login?.user);
+      expect(claims.sid).toBe(login?.sessionId);
+      expect(claims.exp - claims.iat).toBe(3600);
+      expect(signature).toMatch(/^[\w-]{43}$/);
+      expect(records.some((record) => record.outcome === 'failure')).toBe(true);
+    });
+  });
+
+  describe('Application Logs', () => {
+    it('should log leveled messages of service instances with trace context', async () => {
+      const records = (await new LogGenerator({ seed: 13 }).generateMany(300, {
+        type: LogType.APP,
+      })) as AppLogData[];
+      const pids = new Map<string, number>();
+
+      records.forEach((record) => {
+        expect(Object.values(LogLevel)).toContain(record.level);
+        expect(record.message).not.toMatch(/\{\w+\}/);
+        expect(record.traceId).toMatch(/^[0-9a-f]{32}$/);
+        expect(record.spanId).toMatch(/^[0-9a-f]{16}$/);
+        expect(record.host.startsWith(record.service)).toBe(true);
+        expect(pids.get(record.host) ?? record.pid).toBe(record.pid);
+        pids.set(record.host, record.pid);
+      });
+      expect(records.filter((record) => record.level === LogLevel.INFO).length).toBeGreaterThan(
+        records.filter((record) => record.level === LogLevel.ERROR).length
+      );
+    });
+  });
+});
@@ -0,0 +1,143 @@
+import { describe, it, expect } from 'vitest';
+import { OrderGenerator } from '../../../src/generators/order-generator';
+import { OrderStatus, SupportedLocale } from '../../../src/types/schema';
+import type { OrderData } from '../../../src/types/responses';
+import { assertions } from '../../helpers/test-utils';
+
+describe('OrderGenerator', () => {
+  const products = [
+    { id: 'p1', price: 19.99 },
+    { id: 'p2', price: 5 },
+    { id: 'p3', price: 249.5 },
+    { id: 'p4', price: 0.35 },
+  ];
+  const cents = (amount: number) => Math.round(amount * 100);
+
+  describe('Basic Generation', () => {
+    it('should generate order with all required fields', () => {
+      const order = new OrderGenerator({ seed: 123 }).generate();
+
+      assertions.toBeNonEmptyString(order.id as string);
+      expect(Object.values(OrderStatus)).toContain(order.status);
+      expect(order.currency).toBe('GBP');
+      expect(order.items.length).toBeGreaterThanOrEqual(1);
+      expect(order.items.length).toBeLessThanOrEqual(3);
+      expect(new Date(order.placedAt).toISOString()).toBe(order.placedAt);
+    });
+
+    it('should generate consistent data with same seed', async () => {
+      const first = await new OrderGenerator({ seed: 789 }).generateMany(5, { products });
+      const second = await new OrderGenerator({ seed: 789 }).generateMany(5, { products });
+
+      expect(first).toEqual(second);
+      assertions.toHaveUniqueIds(first);
+    });
+  });
+
+  describe('Amounts', () => {
+    it('should compute line totals, subtotals and totals that add up to the cent', async () => {
+      const orders = await new OrderGenerator({ seed: 42 }).generateMany(200, { products });
+
+      orders.forEach((order) => {
+        order.items.forEach((item) => {
+          expect(cents(item.lineTotal)).toBe(
+            item.quantity * cents(item.unitPrice) - cents(item.discount)
+          );
+        });
+        const lineTotals = order.items.reduce((sum, item) => sum + cents(item.lineTotal), 0);
+        const discounts = order.items.reduce((sum, item) => sum + cents(item.discount), 0);
+
+        expect(cents(order.subtotal)).toBe(lineTotals);
+        expect(cents(order.discount)).toBe(discounts);
+        expect(cents(order.tax)).toBe(Math.round(cents(order.subtotal) * order.taxRate));
+        expect(cents(order.total)).toBe(cents(order.subtotal) + cents(order.tax));
+      });
+      expect(orders.some((order) => order.discount > 0)).toBe(true);
+    });
+
+    it('should reference distinct products at their prices', async () => {
+      const orders = await new OrderGenerator({ seed: 7 }).generateMany(100, {
+        products,
+        minItems: 2,
+        maxItems: 10,
+      });
+
+      orders.forEach((order) => {
+        const ids = order.items.map((item) => item.productId);
+        expect(ids.length).toBeGreaterThanOrEqual(2);
+        expect(ids.length).toBeLessThanOrEqual(products.length);
+        expect(new Set(ids).size).toBe(ids.length);
+        order.items.forEach((item) =>
+          expect(item.unitPrice).toBe(
+            products.find((product) => product.id === item.productId)?.price
+          )
+        );
+      });
+    });
+
+    it('should default currency and tax rate by locale and keep yen amounts whole', async () => {
+      const [euro] = await new OrderGenerator({ seed: 1, locale: SupportedLocale.DE }).generateMany(
+        1
+      );
+      const yen = await new OrderGenerator({ seed: 1, locale: SupportedLocale.JA }).generateMany(
+        20
+      );
+
+      expect(euro).toMatchObject({ currency: 'EUR', taxRate: 0.19 });
+      yen.forEach((order) => {
+        expect(order).toMatchObject({ currency: 'JPY', taxRate: 0.1 });
+        expect(Number.isInteger(order.total)).toBe(true);
+      });
+    });
+
+    it('should take the currency of the products unless one is given', () => {
+      const generator = new OrderGenerator({ seed: 3 });
+
+      expect(generator.generate({ products: [{ id: 1, currency: 'GBP' }] }).currency).toBe('GBP');
+      expect(
+        generator.generate({ products: [{ id: 1, currency: 'GBP' }], currency: 'CHF', taxRate: 0 })
+      ).toMatchObject({ currency: 'CHF', tax: 0 });
+    });
+  });
+
+  describe('Status Lifecycle', () => {
+    const reached: Record<OrderStatus, Array<keyof OrderData>> = {
+      [OrderStatus.PENDING]: [],
+      [OrderStatus.PAID]: ['paidAt'],
+      [OrderStatus.SHIPPED]: ['paidAt', 'shippedAt'],
+      [OrderStatus.DELIVERED]: ['paidAt', 'shippedAt', 'deliveredAt'],
+      [OrderStatus.CANCELLED]: ['cancelledAt'],
+      [OrderStatus.REFUNDED]: ['paidAt', 'shippedAt', 'deliveredAt', 'refundedAt'],
+    };
+    const stages: Array<keyof OrderData> = [
+      'placedAt',
+      'paidAt',
+      'shippedAt',
+      'deliveredAt',
+      'cancelledAt',
+      'refundedAt',
+    ];
+
+    it('should order timestamps along the lifecycle up to the reference date', async () => {
+      const referenceDate = '2025-01-01T00:00:00.000Z';
+      const orders = await new OrderGenerator({ seed: 99, referenceDate }).generateMany(300);
+
+      expect(new Set(orders.map((order) => order.status)).size).toBe(6);
+      orders.forEach((order) => {
+        stages.slice(1).forEach((stage) => {
+          if (reached[order.status].includes(stage)) {
+            expect(order[stage]).not.toBeNull();
+          } else if (!(order.status === OrderStatus.CANCELLED && stage === 'paidAt')) {
+            expect(order[stage]).toBeNull();
+          }
+        });
+
+        const times = stages
+          .map((stage) => order[stage])
+          .filter((value): value is string => typeof value === 'string');
+        expect([...times].sort()).toEqual(times);
+        expect(times.every((time) => time <= referenceDate)).toBe(true);
+      });
+    });
+  });
+});
@@ -1,6 +1,12 @@
 import { describe, it, expect } from 'vitest';
 import { PersonGenerator } from '../../../src/generators/person-generator';
-import { SupportedLocale } from '../../../src/types/schema.js';
+import {
+  IdStrategyType,
+  PersonOptionalField,
+  PersonUniqueField,
+  SupportedLocale,
+} from '../../../src/types/schema.js';
+import { flattenRecord } from '../../../src/utils/tabular-export';
 import { assertions } from '../../helpers/test-utils';
 
 describe('PersonGenerator', () => {
@@ -15,16 +21,16 @@ describe('PersonGenerator', () => {
       expect(person).toHaveProperty('fullName');
       expect(person).toHaveProperty('email');
 
-      assertions.toBeNonEmptyString(person.id);
+      assertions.toBeNonEmptyString(person.id as string);
       assertions.toBeNonEmptyString(person.firstName);
       assertions.toBeNonEmptyString(person.lastName);
       assertions.toBeNonEmptyString(person.fullName);
       assertions.toBeValidEmail(person.email);
     });
 
-    it('should generate unique IDs for multiple persons', () => {
+    it('should generate unique IDs for multiple persons', async () => {
       const generator = new PersonGenerator({ seed: 456 });
-      const persons = generator.generateMany(10);
+      const persons = await generator.generateMany(10);
 
       assertions.toHaveUniqueIds(persons);
     });
@@ -101,6 +107,16 @@ describe('PersonGenerator', () => {
 
       expect(person.dateOfBirth).toBeUndefined();
     });
+
+    it('should list the flattened keys of a complete record as columns', () => {
+      const generator = new PersonGenerator({ seed: 123 });
+      [{}, { includeDateOfBirth: true }, { includeAddress: false, includePhone: false }].forEach(
+        (options) =>
+          expect(generator.getColumns(options)).toEqual(
+            Object.keys(flattenRecord({ ...generator.generate(options) }))
+          )
+      );
+    });
   });
 
   describe('Locale Handling', () => {
@@ -136,17 +152,17 @@ describe('PersonGenerator', () => {
   });
 
   describe('Batch Generation', () => {
-    it('should generate correct number of records', () => {
+    it('should generate correct number of records', async () => {
       const generator = new PersonGenerator({ seed: 123 });
-      const persons = generator.generateMany(50);
+      const persons = await generator.generateMany(50);
 
       expect(persons).toHaveLength(50);
     });
 
-    it('should handle large batches efficiently', () => {
+    it('should handle large batches efficiently', async () => {
       const generator = new PersonGenerator({ seed: 123 });
       const startTime = Date.now();
-      const persons = generator.generateMany(1000);
+      const persons = await generator.generateMany(1000);
       const duration = Date.now() - startTime;
 
       expect(persons).toHaveLength(1000);
@@ -155,15 +171,93 @@ describe('PersonGenerator', () => {
       expect(duration).toBeLessThan(2000);
     });
 
-    it('should maintain seed consistency in batch generation', () => {
+    it('should maintain seed consistency in batch generation', async () => {
       const gen1 = new PersonGenerator({ seed: 999 });
       const gen2 = new PersonGenerator({ seed: 999 });
 
-      const batch1 = gen1.generateMany(10);
-      const batch2 = gen2.generateMany(10);
+      const batch1 = await gen1.generateMany(10);
+      const batch2 = await gen2.generateMany(10);
 
       expect(batch1).toEqual(batch2);
     });
+
+    it('should stream the same records as generateMany', async () => {
+      const options = { includeDateOfBirth: true };
+      const batch = await new PersonGenerator({ seed: 999 }).generateMany(25, options);
+      const streamed = Array.from(new PersonGenerator({ seed: 999 }).stream(25, options));
+
+      expect(streamed).toEqual(batch);
+    });
+  });
+
+  describe('Sparse Fields', () => {
+    it('should null and omit optional fields at the configured rates', async () => {
+      const persons = await new PersonGenerator({ seed: 3 }).generateMany(1000, {
+        includeDateOfBirth: true,
+        sparsity: {
+          [PersonOptionalField.PHONE]: { nullRate: 1 },
+          [PersonOptionalField.ADDRESS]: { omitRate: 1 },
+          [PersonOptionalField.DATE_OF_BIRTH]: { nullRate: 0.3, omitRate: 0.2 },
+        },
+      });
+      const dateOfBirthNulls = persons.filter((person) => person.dateOfBirth === null).length;
+      const dateOfBirthOmitted = persons.filter((person) => !('dateOfBirth' in person)).length;
+
+      persons.forEach((person) => {
+        expect(person.phone).toBeNull();
+        expect(person).not.toHaveProperty('address');
+        assertions.toBeValidEmail(person.email);
+      });
+      expect(dateOfBirthNulls).toBeGreaterThan(230);
+      expect(dateOfBirthNulls).toBeLessThan(370);
+      expect(dateOfBirthOmitted).toBeGreaterThan(140);
+      expect(dateOfBirthOmitted).toBeLessThan(260);
+    });
+
+    it('should be reproducible with the same seed', async () => {
+      const options = { sparsity: { [PersonOptionalField.PHONE]: { nullRate: 0.5 } } };
+      const first = await new PersonGenerator({ seed: 3 }).generateMany(50, options);
+      const second = await new PersonGenerator({ seed: 3 }).generateMany(50, options);
+
+      expect(first).toEqual(second);
+    });
+  });
+
+  describe('Unique Fields', () => {
+    it('should generate distinct emails and names, deterministically under a seed', async () => {
+      const options = { unique: [PersonUniqueField.EMAIL, PersonUniqueField.FULL_NAME] };
+      const persons = await new PersonGenerator({ seed: 42 }).generateMany(3000, options);
+      const again = await new PersonGenerator({ seed: 42 }).generateMany(3000, options);
+
+      expect(new Set(persons.map((person) => person.email)).size).toBe(3000);
+      expect(new Set(persons.map((person) => person.fullName)).size).toBe(3000);
+      expect(again).toEqual(persons);
+    });
+
+    it('should leave records unchanged when no field is unique', async () => {
+      const plain = await new PersonGenerator({ seed: 7 }).generateMany(20);
+      const withEmpty = await new PersonGenerator({ seed: 7 }).generateMany(20, { unique: [] });
+
+      expect(withEmpty).toEqual(plain);
+    });
+  });
+
+  describe('ID Strategies', () => {
+    it('should generate IDs with the requested strategy without changing the other fields', async () => {
+      const plain = await new PersonGenerator({ seed: 11 }).generateMany(5);
+      const numbered = await new PersonGenerator({ seed: 11 }).generateMany(5, {
+        idStrategy: { type: IdStrategyType.SEQUENCE, start: 10 },
+      });
+      const prefixed = new PersonGenerator({ seed: 11 }).generate({
+        idStrategy: { type: IdStrategyType.PREFIXED },
+      });
+
+      expect(numbered.map((person) => person.id)).toEqual([10, 11, 12, 13, 14]);
+      expect(numbered.map(({ id: _id, ...person }) => person)).toEqual(
+        plain.map(({ id: _id, ...person }) => person)
+      );
+      expect(prefixed.id).toMatch(/^person_[A-Za-z0-9]{16}$/);
+    });
   });
 
   describe('Seed Management', () => {
@@ -184,6 +278,33 @@ describe('PersonGenerator', () => {
       expect(generator2.getSeed()).toBe(seed);
     });
 
+    it('should anchor birthdates to the reference date', async () => {
+      const generator = new PersonGenerator({ seed: 42, referenceDate: '2000-06-15T00:00:00Z' });
+      const persons = await generator.generateMany(50, { includeDateOfBirth: true });
+
+      persons.forEach((person) => {
+        const year = Number(person.dateOfBirth?.slice(0, 4));
+        expect(year).toBeGreaterThanOrEqual(1899);
+        expect(year).toBeLessThanOrEqual(1982);
+      });
+      expect(generator.getReferenceDate().toISOString()).toBe('2000-06-15T00:00:00.000Z');
+    });
+
+    it('should default the reference date to a fixed anchor for seeded runs', () => {
+      expect(new PersonGenerator({ seed: 42 }).getReferenceDate().toISOString()).toBe(
+        '2025-01-01T00:00:00.000Z'
+      );
+      expect(new PersonGenerator({ seedString: 'fixtures' }).getReferenceDate().toISOString()).toBe(
+        '2025-01-01T00:00:00.000Z'
+      );
+    });
+
+    it('should reject an invalid reference date', () => {
+      expect(() => new PersonGenerator({ seed: 42, referenceDate: 'yesterday' })).toThrow(
+        'Invalid reference date'
+      );
+    });
+
     it('should auto-generate seed if none provided', () => {
       const generator = new PersonGenerator();
       const seed = generator.getSeed();
@@ -0,0 +1,160 @@
+import { describe, it, expect } from 'vitest';
+import { ProductGenerator } from '../../../src/generators/product-generator';
+import { ProductUniqueField, SupportedLocale } from '../../../src/types/schema';
+import { isValidGtin } from '../../../src/utils/barcodes';
+import { flattenRecord } from '../../../src/utils/tabular-export';
+import { assertions } from '../../helpers/test-utils';
+
+describe('ProductGenerator', () => {
+  describe('Basic Generation', () => {
+    it('should generate product with all required fields', () => {
+      const generator = new ProductGenerator({ seed: 123 });
+      const product = generator.generate();
+
+      assertions.toBeNonEmptyString(product.id as string);
+      expect(product.sku).toMatch(/^[A-Z]{3}-[A-Z]{3}-\d{5}$/);
+      assertions.toBeNonEmptyString(product.name);
+      expect(product.categoryPath.split(' > ')).toHaveLength(3);
+      expect(product.categoryPath.endsWith(product.category)).toBe(true);
+      expect(product.price).toBeGreaterThanOrEqual(1);
+      expect(product.price).toBeLessThanOrEqual(1000);
+      expect(product.currency).toBe('GBP');
+    });
+
+    it('should generate unique IDs for multiple products', async () => {
+      const generator = new ProductGenerator({ seed: 456 });
+      const products = await generator.generateMany(10);
+
+      assertions.toHaveUniqueIds(products);
+    });
+
+    it('should generate consistent data with same seed', () => {
+      const gen1 = new ProductGenerator({ seed: 789 });
+      const gen2 = new ProductGenerator({ seed: 789 });
+
+      expect(gen1.generate({ includeDimensions: true })).toEqual(
+        gen2.generate({ includeDimensions: true })
+      );
+    });
+
+    it('should stream the same products as generateMany', async () => {
+      const streamed = [];
+      for await (const product of new ProductGenerator({ seed: 5 }).stream(20)) {
+        streamed.push(product);
+      }
+
+      expect(streamed).toEqual(await new ProductGenerator({ seed: 5 }).generateMany(20));
+    });
+  });
+
+  describe('Optional Fields', () => {
+    it('should include stock, description, barcodes and image by default', () => {
+      const product = new ProductGenerator({ seed: 123 }).generate();
+
+      assertions.toBeNonEmptyString(product.description as string);
+      expect(Number.isInteger(product.stock)).toBe(true);
+      assertions.toBeValidUrl(product.imageUrl as string);
+      expect(product.dimensions).toBeUndefined();
+      expect(product.weight).toBeUndefined();
+    });
+
+    it('should give barcodes valid check digits with the EAN matching the UPC', async () => {
+      const products = await new ProductGenerator({ seed: 321 }).generateMany(100);
+
+      products.forEach((product) => {
+        expect(product.upc).toMatch(/^\d{12}$/);
+        expect(isValidGtin(product.upc as string)).toBe(true);
+        expect(product.ean).toBe(`0${product.upc}`);
+        expect(isValidGtin(product.ean as string)).toBe(true);
+      });
+    });
+
+    it('should include dimensions and weight when requested', () => {
+      const product = new ProductGenerator({ seed: 123 }).generate({ includeDimensions: true });
+
+      expect(product.dimensions).toMatchObject({ unit: 'cm' });
+      expect(product.dimensions?.length).toBeGreaterThan(0);
+      expect(product.weight).toMatchObject({ unit: 'kg' });
+      expect(product.weight?.value).toBeGreaterThan(0);
+    });
+
+    it('should exclude fields when not requested', () => {
+      const product = new ProductGenerator({ seed: 123 }).generate({
+        includeDescription: false,
+        includeStock: false,
+        includeBarcodes: false,
+        includeImage: false,
+      });
+
+      expect(Object.keys(product).sort()).toEqual(
+        ['id', 'sku', 'name', 'category', 'categoryPath', 'price', 'currency'].sort()
+      );
+    });
+
+    it('should list the flattened keys of a complete record as columns', () => {
+      const generator = new ProductGenerator({ seed: 123 });
+      [
+        {},
+        { includeDimensions: true },
+        {
+          includeDescription: false,
+          includeStock: false,
+          includeBarcodes: false,
+          includeImage: false,
+        },
+      ].forEach((options) =>
+        expect(generator.getColumns(options)).toEqual(
+          Object.keys(flattenRecord({ ...generator.generate(options) }))
+        )
+      );
+    });
+  });
+
+  describe('Prices', () => {
+    it('should keep prices within the range with two decimals', async () => {
+      const products = await new ProductGenerator({ seed: 9 }).generateMany(50, {
+        currency: 'GBP',
+        priceRange: { min: 10, max: 20 },
+      });
+
+      products.forEach((product) => {
+        expect(product.currency).toBe('GBP');
+        expect(product.price).toBeGreaterThanOrEqual(10);
+        expect(product.price).toBeLessThanOrEqual(20);
+        expect(Math.round(product.price * 100)).toBeCloseTo(product.price * 100, 6);
+      });
+    });
+
+    it('should default the currency by locale and round zero-decimal currencies', () => {
+      const euro = new ProductGenerator({ seed: 1, locale: SupportedLocale.FR }).generate();
+      const yen = new ProductGenerator({ seed: 1, locale: SupportedLocale.JA }).generate();
+
+      expect(euro.currency).toBe('EUR');
+      expect(yen.currency).toBe('JPY');
+      expect(Number.isInteger(yen.price)).toBe(true);
+    });
+  });
+
+  describe('Locales', () => {
+    it('should generate products for every supported locale', () => {
+      Object.values(SupportedLocale).forEach((locale) => {
+        const product = new ProductGenerator({ seed: 42, locale }).generate();
+
+        assertions.toBeNonEmptyString(product.name);
+        assertions.toBeNonEmptyString(product.description as string);
+      });
+    });
+  });
+
+  describe('Unique Fields', () => {
+    it('should keep unique fields distinct across records', async () => {
+      const products = await new ProductGenerator({ seed: 12 }).generateMany(300, {
+        unique: [ProductUniqueField.SKU, ProductUniqueField.NAME, ProductUniqueField.UPC],
+      });
+
+      expect(new Set(products.map((product) => product.sku)).size).toBe(300);
+      expect(new Set(products.map((product) => product.name)).size).toBe(300);
+      expect(new Set(products.map((product) => product.upc)).size).toBe(300);
+    });
+  });
+});
@@ -0,0 +1,238 @@
+import { describe, it, expect } from 'vitest';
+import {
+  TimeSeriesGenerator,
+  type TimeSeriesGenerationOptions,
+} from '../../../src/generators/timeseries-generator';
+import { TimeSeriesSpacing, type TimeSeriesMetric } from '../../../src/types/schema';
+
+const HOUR = 3_600_000;
+
+/**
+ * Values of one metric across a series
+ */
+function valuesOf(points: Array<Record<string, unknown>>, metric: string): number[] {
+  return points.map((point) => point[metric] as number);
+}
+
+describe('TimeSeriesGenerator', () => {
+  const flat: TimeSeriesMetric = { name: 'value', baseline: 100 };
+
+  describe('Window', () => {
+    it('should cover the day before the reference date hourly by default', () => {
+      const window = new TimeSeriesGenerator({ seed: 1 }).getWindow({ metrics: [flat] });
+
+      expect(new Date(window.start).toISOString()).toBe('2024-12-31T00:00:00.000Z');
+      expect(new Date(window.end).toISOString()).toBe('2025-01-01T00:00:00.000Z');
+      expect(window.slots).toBe(24);
+    });
+
+    it('should count a last partial interval and no intervals for an empty window', () => {
+      const generator = new TimeSeriesGenerator({ seed: 1 });
+
+      expect(
+        generator.getWindow({
+          metrics: [flat],
+          start: '2024-06-01T00:00:00Z',
+          end: '2024-06-01T01:00:00Z',
+          interval: 25 * 60_000,
+        }).slots
+      ).toBe(3);
+      expect(
+        generator.getWindow({
+          metrics: [flat],
+          start: '2024-06-02T00:00:00Z',
+          end: '2024-06-01T00:00:00Z',
+        }).slots
+      ).toBe(0);
+    });
+  });
+
+  describe('Basic Generation', () => {
+    const options: TimeSeriesGenerationOptions = {
+      metrics: [
+        { name: 'cpu', baseline: 40, seasonality: { daily: 10 }, noise: 2, randomWalk: 1 },
+        { name: 'errors', baseline: 3, spikes: { rate: 0.1, magnitude: 50 }, decimals: 0 },
+      ],
+      interval: 15 * 60_000,
+      spacing: TimeSeriesSpacing.IRREGULAR,
+      gaps: { rate: 0.05, maxLength: 4 },
+    };
+
+    it('should generate consistent data with same seed', async () => {
+      const first = await new TimeSeriesGenerator({ seed: 789 }).generateMany(options);
+      const second = await new TimeSeriesGenerator({ seed: 789 }).generateMany(options);
+
+      expect(first).toEqual(second);
+      expect(Object.keys(first.points[0] ?? {})).toEqual(['timestamp', 'cpu', 'errors']);
+    });
+
+    it('should stream the same points and anomalies as generateMany', async () => {
+      const generated = await new TimeSeriesGenerator({ seed: 21 }).generateMany(options);
+      const anomalies: unknown[] = [];
+      const streamed = [
+        ...new TimeSeriesGenerator({ seed: 21 }).stream(options, (anomaly) =>
+          anomalies.push(anomaly)
+        ),
+      ];
+
+      expect(streamed).toEqual(generated.points);
+      expect(anomalies).toEqual(generated.anomalies);
+    });
+  });
+
+  describe('Timestamps', () => {
+    it('should place regular points on interval boundaries', async () => {
+      const { points } = await new TimeSeriesGenerator({ seed: 2 }).generateMany({
+        metrics: [flat],
+        start: '2024-03-01T00:00:00Z',
+        end: '2024-03-01T01:00:00Z',
+        interval: 10 * 60_000,
+      });
+
+      expect(points.map((point) => point.timestamp.slice(11, 16))).toEqual([
+        '00:00',
+        '00:10',
+        '00:20',
+        '00:30',
+        '00:40',
+        '00:50',
+      ]);
+    });
+
+    it('should keep irregular points in order within their own interval', async () => {
+      const start = Date.parse('2024-03-01T00:00:00Z');
+      const { points } = await new TimeSeriesGenerator({ seed: 3 }).generateMany({
+        metrics: [flat],
+        start: '2024-03-01T00:00:00Z',
+        end: '2024-03-02T00:00:00Z',
+        interval: HOUR,
+        spacing: TimeSeriesSpacing.IRREGULAR,
+      });
+      const times = points.map((point) => Date.parse(point.timestamp));
+
+      expect(times).toHaveLength(24);
+      times.forEach((time, index) => {
+        expect(time).toBeGreaterThanOrEqual(start + index * HOUR);
+        expect(time).toBeLessThan(start + (index + 1) * HOUR);
+      });
+      expect(times.some((time, index) => time !== start + index * HOUR)).toBe(true);
+    });
+  });
+
+  describe('Components', () => {
+    it('should follow the baseline and trend exactly without random components', async () => {
+      const { points } = await new TimeSeriesGenerator({ seed: 4 }).generateMany({
+        metrics: [{ name: 'users', baseline: 1000, trend: 24 }],
+        start: '2024-05-01T00:00:00Z',
+        end: '2024-05-01T06:00:00Z',
+      });
+
+      expect(valuesOf(points, 'users')).toEqual([1000, 1001, 1002, 1003, 1004, 1005]);
+    });
+
+    it('should peak in the afternoon with daily seasonality and midweek with weekly seasonality', async () => {
+      const generator = new TimeSeriesGenerator({ seed: 5 });
+      const daily = await generator.generateMany({
+        metrics: [{ name: 'load', seasonality: { daily: 10 } }],
+        start: '2024-05-01T00:00:00Z',
+        end: '2024-05-02T00:00:00Z',
+      });
+      const weekly = await generator.generateMany({
+        metrics: [{ name: 'orders', baseline: 50, seasonality: { weekly: 20 } }],
+        start: '2024-05-05T00:00:00Z',
+        end: '2024-05-12T00:00:00Z',
+        interval: 12 * HOUR,
+      });
+
+      expect(daily.points[14]).toEqual({ timestamp: '2024-05-01T14:00:00.000Z', load: 10 });
+      expect(daily.points[2]).toEqual({ timestamp: '2024-05-01T02:00:00.000Z', load: -10 });
+      // 2024-05-05 is a Sunday; Wednesday noon is the seventh half-day after it
+      expect(weekly.points[0]?.orders).toBe(30);
+      expect(weekly.points[7]?.orders).toBe(70);
+    });
+
+    it('should add noise around the level with roughly the requested spread', async () => {
+      const { points } = await new TimeSeriesGenerator({ seed: 6 }).generateMany({
+        metrics: [{ name: 'temperature', baseline: 20, noise: 2 }],
+        interval: 60_000,
+        start: '2024-05-01T00:00:00Z',
+        end: '2024-05-02T00:00:00Z',
+      });
+      const values = valuesOf(points, 'temperature');
+      const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+      const deviation = Math.sqrt(
+        values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / values.length
+      );
+
+      expect(mean).toBeCloseTo(20, 0);
+      expect(deviation).toBeGreaterThan(1.8);
+      expect(deviation).toBeLessThan(2.2);
+    });
+
+    it('should wander with a random walk', async () => {
+      const { points } = await new TimeSeriesGenerator({ seed: 7 }).generateMany({
+        metrics: [{ name: 'price', baseline: 100, randomWalk: 1 }],
+        interval: 60_000,
+      });
+      const values = valuesOf(points, 'price');
+      const steps = values.slice(1).map((value, index) => value - (values[index] as number));
+
+      expect(Math.max(...values) - Math.min(...values)).toBeGreaterThan(10);
+      expect(Math.max(...steps.map(Math.abs))).toBeLessThan(6);
+    });
+
+    it('should clamp and round values', async () => {
+      const { points } = await new TimeSeriesGenerator({ seed: 8 }).generateMany({
+        metrics: [{ name: 'cpu', baseline: 95, noise: 10, min: 0, max: 100, decimals: 1 }],
+        interval: 60_000,
+      });
+
+      valuesOf(points, 'cpu').forEach((value) => {
+        expect(value).toBeLessThanOrEqual(100);
+        expect(Math.round(value * 10) / 10).toBe(value);
+      });
+      expect(valuesOf(points, 'cpu')).toContain(100);
+    });
+  });
+
+  describe('Anomalies', () => {
+    it('should report every spike with the amount added', async () => {
+      const { points, anomalies } = await new TimeSeriesGenerator({ seed: 9 }).generateMany({
+        metrics: [{ name: 'latency', baseline: 100, spikes: { rate: 0.05, magnitude: 1000 } }],
+        interval: 60_000,
+      });
+      const spikes = anomalies.flatMap((anomaly) => (anomaly.kind === 'spike' ? [anomaly] : []));
+      const spiked = points.filter((point) => (point.latency as number) > 100);
+
+      expect(spikes.length).toBeGreaterThan(30);
+      expect(spikes.map((spike) => spike.timestamp)).toEqual(
+        spiked.map((point) => point.timestamp)
+      );
+      spikes.forEach((spike, index) =>
+        expect((spiked[index]?.latency as number) - 100).toBeCloseTo(spike.delta, 1)
+      );
+    });
+
+    it('should drop the points of each gap and report its extent', async () => {
+      const options: TimeSeriesGenerationOptions = {
+        metrics: [{ name: 'up', baseline: 1, decimals: 0 }],
+        interval: 60_000,
+        gaps: { rate: 0.02, maxLength: 10 },
+      };
+      const generator = new TimeSeriesGenerator({ seed: 10 });
+      const { points, anomalies } = await generator.generateMany(options);
+      const gaps = anomalies.filter((anomaly) => anomaly.kind === 'gap');
+      const missing = gaps.reduce((sum, gap) => sum + gap.points, 0);
+
+      expect(gaps.length).toBeGreaterThan(5);
+      expect(points).toHaveLength(generator.getWindow(options).slots - missing);
+      gaps.forEach((gap) => {
+        expect(gap.points).toBeLessThanOrEqual(10);
+        expect(Date.parse(gap.end) - Date.parse(gap.start)).toBe(gap.points * 60_000);
+        expect(
+          points.some((point) => point.timestamp >= gap.start && point.timestamp < gap.end)
+        ).toBe(false);
+      });
+    });
+  });
+});
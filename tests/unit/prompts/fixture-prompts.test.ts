@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest';
+import { DatasetGenerator } from '../../../src/generators/dataset-generator.js';
+import {
+  buildFixtureSchema,
+  DEFAULT_FIXTURE_SEED,
+  FIXTURE_SCALES,
+  FIXTURE_SCENARIOS,
+  handleFixturePrompt,
+  type FixtureScale,
+} from '../../../src/prompts/fixture-prompts.js';
+import type { DatasetSchema } from '../../../src/types/schema.js';
+
+/**
+ * Unit tests for fixture scenario prompts
+ */
+describe('fixture prompts', () => {
+  const scenario = (name: string) => {
+    const found = FIXTURE_SCENARIOS.find((candidate) => candidate.prompt.name === name);
+    if (!found) throw new Error(`Missing scenario ${name}`);
+    return found;
+  };
+
+  /** Extracts the generate-dataset arguments embedded in an expanded prompt */
+  const toolArguments = (messages: unknown[]) => {
+    const text = (messages[0] as { content: { text: string } }).content.text;
+    const json = /```json\n([\s\S]*?)\n```/.exec(text)?.[1] ?? '';
+    return JSON.parse(json) as { schema: DatasetSchema; locale: string; seed: number };
+  };
+
+  it('should publish the documented scenarios with scale, locale and seed arguments', () => {
+    expect(FIXTURE_SCENARIOS.map((candidate) => candidate.prompt.name)).toEqual([
+      'ecommerce-test-database',
+      'saas-multi-tenant-users',
+      'hr-directory',
+    ]);
+    FIXTURE_SCENARIOS.forEach((candidate) => {
+      expect(candidate.prompt.arguments?.map((argument) => argument.name)).toEqual([
+        'scale',
+        'locale',
+        'seed',
+      ]);
+    });
+  });
+
+  describe('buildFixtureSchema', () => {
+    it('should build a valid schema for every scenario and scale', () => {
+      FIXTURE_SCENARIOS.forEach((candidate) => {
+        (Object.keys(FIXTURE_SCALES) as FixtureScale[]).forEach((scale) => {
+          expect(() => buildFixtureSchema(candidate, scale)).not.toThrow();
+        });
+      });
+    });
+
+    it('should multiply counts, cap them at 10,000 and keep fixed entities', () => {
+      const ecommerce = buildFixtureSchema(scenario('ecommerce-test-database'), 'large');
+      const hr = buildFixtureSchema(scenario('hr-directory'), 'medium');
+
+      expect(ecommerce.entities.orders?.count).toBe(5000);
+      expect(ecommerce.entities.order_items?.count).toBe(10000);
+      expect(hr.entities.departments?.count).toBe(8);
+      expect(hr.entities.employees?.count).toBe(400);
+    });
+
+    it('should generate small fixtures with referential integrity', async () => {
+      for (const candidate of FIXTURE_SCENARIOS) {
+        const schema = buildFixtureSchema(candidate, 'small');
+        const { metadata } = await new DatasetGenerator({ seed: 1 }).generateDataset(schema);
+
+        Object.entries(schema.entities).forEach(([name, entity]) => {
+          expect(metadata.entityCounts[name]).toBe(entity.count);
+        });
+      }
+    });
+  });
+
+  describe('handleFixturePrompt', () => {
+    it('should embed generate-dataset arguments with the default scale and seed', async () => {
+      const result = await handleFixturePrompt(scenario('saas-multi-tenant-users'));
+      const args = toolArguments(result.messages);
+
+      expect(args.seed).toBe(DEFAULT_FIXTURE_SEED);
+      expect(args.locale).toBe('en');
+      expect(args.schema.entities.users?.count).toBe(50);
+      expect(result.description).toContain('small: 10 tenants, 50 users');
+    });
+
+    it('should apply the scale, locale and seed arguments', async () => {
+      const result = await handleFixturePrompt(scenario('hr-directory'), {
+        scale: 'medium',
+        locale: 'de',
+        seed: '7',
+      });
+      const args = toolArguments(result.messages);
+
+      expect(args).toMatchObject({ locale: 'de', seed: 7 });
+      expect(args.schema.entities.employments?.count).toBe(400);
+    });
+
+    it('should reject invalid arguments', () => {
+      expect(() => handleFixturePrompt(scenario('hr-directory'), { scale: 'huge' })).toThrow(
+        'Invalid arguments: scale'
+      );
+      expect(() => handleFixturePrompt(scenario('hr-directory'), { seed: 'abc' })).toThrow(
+        'seed must be a non-negative integer'
+      );
+    });
+  });
+});
@@ -0,0 +1,33 @@
+import { describe, it, expect } from 'vitest';
+import { gtinCheckDigit, isValidGtin } from '../../../src/utils/barcodes.js';
+
+/**
+ * Unit tests for GTIN check digits
+ */
+describe('barcodes', () => {
+  describe('gtinCheckDigit', () => {
+    it('should compute the check digit of UPC-A, EAN-13 and EAN-8 codes', () => {
+      expect(gtinCheckDigit('03600029145')).toBe(2);
+      expect(gtinCheckDigit('400638133393')).toBe(1);
+      expect(gtinCheckDigit('9638507')).toBe(4);
+    });
+
+    it('should give the same check digit to a UPC-A and its EAN-13 form', () => {
+      expect(gtinCheckDigit('003600029145')).toBe(gtinCheckDigit('03600029145'));
+    });
+  });
+
+  describe('isValidGtin', () => {
+    it('should accept codes with a matching check digit', () => {
+      expect(isValidGtin('036000291452')).toBe(true);
+      expect(isValidGtin('4006381333931')).toBe(true);
+      expect(isValidGtin('96385074')).toBe(true);
+    });
+
+    it('should reject wrong check digits, lengths and non-digits', () => {
+      expect(isValidGtin('4006381333932')).toBe(false);
+      expect(isValidGtin('1234567890')).toBe(false);
+      expect(isValidGtin('40063813339a1')).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,225 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DefectType,
+  EntityType,
+  RelationshipType,
+  type ChaosRates,
+  type DatasetSchema,
+} from '../../../src/types/schema.js';
+import { ChaosInjector, ChaosSchema } from '../../../src/utils/chaos.js';
+
+/**
+ * Unit tests for the chaos mode
+ */
+describe('chaos', () => {
+  const person = {
+    id: 'person_1',
+    firstName: 'Zoë',
+    email: 'zoe.martin@example.com',
+    phone: '555-123-4567',
+    age: 34,
+    active: true,
+  };
+
+  const corruptOne = (rates: ChaosRates, record: object = person, seed = 42) => {
+    const chaos = new ChaosInjector(rates, seed);
+    const output = chaos.corruptRecords([record]) as Array<Record<string, unknown>>;
+    return { output, manifest: chaos.getManifest() };
+  };
+
+  describe('corruptRecords', () => {
+    it('should leave records untouched without rates', () => {
+      const { output, manifest } = corruptOne({ typo: 0 });
+
+      expect(output).toEqual([person]);
+      expect(manifest).toMatchObject({ totalDefects: 0, counts: {}, defects: [] });
+    });
+
+    it('should corrupt the matching field of each defect and never the id', () => {
+      const cases: Array<[DefectType, string, (value: unknown) => boolean]> = [
+        [DefectType.TYPO, 'firstName', (value) => value !== 'Zoë'],
+        [
+          DefectType.INVALID_EMAIL,
+          'email',
+          (value) => !/^[^@\s]+@[^@\s]+\.[a-z]+$/.test(String(value)),
+        ],
+        [DefectType.MALFORMED_PHONE, 'phone', (value) => value !== '555-123-4567'],
+        [DefectType.OUT_OF_RANGE, 'age', (value) => Number(value) < 0 || Number(value) > 1000],
+      ];
+
+      for (const [defect, field, isCorrupted] of cases) {
+        const { output, manifest } = corruptOne({ [defect]: 1 });
+
+        expect(output[0]?.id).toBe('person_1');
+        expect(isCorrupted(output[0]?.[field])).toBe(true);
+        expect(manifest.defects).toEqual([
+          {
+            record: 0,
+            defect,
+            field,
+            original: person[field as keyof typeof person],
+            value: output[0]?.[field],
+          },
+        ]);
+      }
+    });
+
+    it('should append whitespace, mangle encodings and change types', () => {
+      for (let seed = 1; seed <= 20; seed++) {
+        const whitespace = corruptOne({ trailingWhitespace: 1 }, person, seed).output[0];
+        const encoding = corruptOne({ mixedEncoding: 1 }, { name: 'Zoë' }, seed).output[0];
+        const wrongType = corruptOne({ wrongType: 1 }, { age: 34, active: true }, seed).output[0];
+
+        expect(Object.values(whitespace ?? {}).some((value) => /\s$/.test(String(value)))).toBe(
+          true
+        );
+        expect(encoding?.name).toBe('ZoÃ«');
+        expect(wrongType?.age === '34' || wrongType?.active === 'yes').toBe(true);
+      }
+    });
+
+    it('should swap the values of two fields', () => {
+      const { output, manifest } = corruptOne({ swappedFields: 1 });
+      const [defect] = manifest.defects;
+      const field = defect?.field as keyof typeof person;
+      const otherField = defect?.otherField as keyof typeof person;
+
+      expect(output[0]?.[field]).toBe(person[otherField]);
+      expect(output[0]?.[otherField]).toBe(person[field]);
+    });
+
+    it('should repeat duplicated rows and report their index', () => {
+      const chaos = new ChaosInjector({ duplicateRow: 1, typo: 1 }, 42);
+      const output = chaos.corruptRecords([person, { ...person, id: 'person_2' }]);
+
+      expect(output).toHaveLength(4);
+      expect(output[1]).toEqual(output[0]);
+      expect(output[3]).toEqual(output[2]);
+      expect(chaos.getManifest().counts).toEqual({ typo: 2, duplicateRow: 2 });
+      expect(chaos.getManifest().defects).toContainEqual({
+        record: 3,
+        defect: DefectType.DUPLICATE_ROW,
+        duplicateOf: 2,
+      });
+    });
+
+    it('should reproduce the same defects for the same seed without changing the input', () => {
+      const records = Array.from({ length: 50 }, (_, index) => ({ ...person, id: `p${index}` }));
+      const rates = { typo: 0.3, invalidEmail: 0.3, wrongType: 0.3, duplicateRow: 0.1 };
+      const first = new ChaosInjector(rates, 7);
+      const second = new ChaosInjector(rates, 7);
+
+      expect(first.corruptRecords(records)).toEqual(second.corruptRecords(records));
+      expect(first.getManifest()).toEqual(second.getManifest());
+      expect(first.getManifest().totalDefects).toBeGreaterThan(0);
+      expect(records[0]).toEqual({ ...person, id: 'p0' });
+    });
+
+    it('should only duplicate records that are not objects', () => {
+      const chaos = new ChaosInjector({ typo: 1, duplicateRow: 1 }, 42);
+
+      expect(chaos.corruptRecords(['text', [1, 2]])).toEqual(['text', 'text', [1, 2], [1, 2]]);
+      expect(chaos.getManifest().counts).toEqual({ duplicateRow: 2 });
+    });
+  });
+
+  describe('corruptDataset', () => {
+    const schema: DatasetSchema = {
+      entities: {
+        users: { count: 3, type: EntityType.PERSON },
+        tags: { count: 2, type: EntityType.CUSTOM, fields: ['label'] },
+        orders: {
+          count: 4,
+          type: EntityType.CUSTOM,
+          fields: ['status'],
+          relationships: {
+            userId: { references: 'users', type: RelationshipType.ONE_TO_MANY },
+            tagIds: { references: 'tags', type: RelationshipType.MANY_TO_MANY },
+          },
+        },
+      },
+    };
+    const dataset = {
+      users: [{ id: 1 }, { id: 2 }, { id: 3 }],
+      tags: [{ id: 'tag_1' }, { id: 'tag_2' }],
+      orders: Array.from({ length: 4 }, (_, index) => ({
+        id: `order_${index}`,
+        status: 'paid',
+        userId: 2,
+        tagIds: ['tag_1', 'tag_2'],
+      })),
+    };
+
+    it('should point dangling foreign keys at missing IDs of the same kind', () => {
+      const chaos = new ChaosInjector({ danglingForeignKey: 1 }, 42);
+      const corrupted = chaos.corruptDataset(schema, dataset);
+      const orders = corrupted.orders as Array<{ userId: number; tagIds: string[] }>;
+      const defects = chaos.getManifest().defects;
+
+      expect(defects).toHaveLength(4);
+      defects.forEach((defect) => expect(defect).toMatchObject({ entity: 'orders' }));
+      orders.forEach((order) => {
+        const danglingUser = order.userId > 3;
+        const danglingTags = order.tagIds.filter((id) => !['tag_1', 'tag_2'].includes(id));
+        expect(Number(danglingUser) + danglingTags.length).toBe(1);
+        danglingTags.forEach((id) => expect(id).toMatch(/^tag_[A-Za-z0-9]{4}$/));
+      });
+      expect(corrupted.users).toEqual(dataset.users);
+    });
+
+    it('should point line items of orders at missing products', () => {
+      const orderSchema: DatasetSchema = {
+        entities: {
+          products: { count: 2, type: EntityType.PRODUCT },
+          orders: {
+            count: 1,
+            type: EntityType.ORDER,
+            relationships: {
+              items: { references: 'products', type: RelationshipType.MANY_TO_MANY },
+            },
+          },
+        },
+      };
+      const items = [
+        { productId: 'products_1', quantity: 1 },
+        { productId: 'products_2', quantity: 3 },
+      ];
+      const chaos = new ChaosInjector({ danglingForeignKey: 1 }, 42);
+      const corrupted = chaos.corruptDataset(orderSchema, {
+        products: [{ id: 'products_1' }, { id: 'products_2' }],
+        orders: [{ id: 'orders_1', items }],
+      });
+      const [order] = corrupted.orders as Array<{ items: typeof items }>;
+      const dangling = order?.items.filter(
+        (item) => !['products_1', 'products_2'].includes(item.productId)
+      );
+
+      expect(dangling).toHaveLength(1);
+      expect(dangling?.[0]?.productId).toMatch(/^products_[A-Za-z0-9]{4}$/);
+      expect(order?.items.map((item) => item.quantity)).toEqual([1, 3]);
+    });
+
+    it('should keep foreign keys out of the other defects', () => {
+      const chaos = new ChaosInjector({ wrongType: 1, swappedFields: 1 }, 42);
+      const corrupted = chaos.corruptDataset(schema, dataset);
+
+      (corrupted.orders as Array<{ userId: number }>).forEach((order) =>
+        expect(order.userId).toBe(2)
+      );
+      chaos
+        .getManifest()
+        .defects.forEach((defect) => expect(['userId', 'tagIds']).not.toContain(defect.field));
+    });
+  });
+
+  describe('ChaosSchema', () => {
+    it('should accept rates of known defects only', () => {
+      expect(ChaosSchema.parse({ typo: 0.1, duplicateRow: 1 })).toEqual({
+        typo: 0.1,
+        duplicateRow: 1,
+      });
+      expect(ChaosSchema.safeParse({ typo: 1.5 }).success).toBe(false);
+      expect(ChaosSchema.safeParse({ gremlins: 0.1 }).success).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import { join } from 'node:path';
+import { parseCliOptions } from '../../../src/utils/cli-options.js';
+import { TransportType } from '../../../src/server.js';
+
+/**
+ * Unit tests for command line and environment options
+ */
+describe('parseCliOptions', () => {
+  it('should default to stdio on localhost:3000 without authentication', () => {
+    expect(parseCliOptions([])).toEqual({
+      transport: TransportType.STDIO,
+      host: '127.0.0.1',
+      port: 3000,
+      help: false,
+    });
+  });
+
+  it('should read flags in both --flag value and --flag=value form', () => {
+    const options = parseCliOptions([
+      '--transport',
+      'http',
+      '--host=0.0.0.0',
+      '--port',
+      '8080',
+      '--auth-token=secret',
+    ]);
+
+    expect(options).toEqual({
+      transport: TransportType.HTTP,
+      host: '0.0.0.0',
+      port: 8080,
+      authToken: 'secret',
+      help: false,
+    });
+  });
+
+  it('should read environment variables and let flags override them', () => {
+    const env = {
+      FAKER_MCP_TRANSPORT: 'http',
+      FAKER_MCP_PORT: '4000',
+      FAKER_MCP_AUTH_TOKEN: 'from-env',
+      FAKER_MCP_HOST: '',
+    };
+
+    expect(parseCliOptions(['--port', '5000'], env)).toMatchObject({
+      transport: TransportType.HTTP,
+      host: '127.0.0.1',
+      port: 5000,
+      authToken: 'from-env',
+    });
+  });
+
+  it('should resolve the output and input directories against the working directory', () => {
+    expect(
+      parseCliOptions(['--output-dir', 'exports'], { FAKER_MCP_INPUT_DIR: '/srv/schemas' })
+    ).toMatchObject({
+      outputDir: join(process.cwd(), 'exports'),
+      inputDir: '/srv/schemas',
+    });
+  });
+
+  it('should recognize --help', () => {
+    expect(parseCliOptions(['-h']).help).toBe(true);
+  });
+
+  it('should reject unknown flags, missing values and invalid values', () => {
+    expect(() => parseCliOptions(['--verbose'])).toThrow('Unknown option: --verbose');
+    expect(() => parseCliOptions(['--port'])).toThrow('Option --port requires a value');
+    expect(() => parseCliOptions(['--host', '--port', '1'])).toThrow(
+      'Option --host requires a value'
+    );
+    expect(() => parseCliOptions(['--transport', 'websocket'])).toThrow(
+      'Invalid options: transport'
+    );
+    expect(() => parseCliOptions([], { FAKER_MCP_PORT: '70000' })).toThrow('Invalid options: port');
+  });
+});
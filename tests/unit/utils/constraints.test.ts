@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import { ConstraintOperator } from '../../../src/types/schema.js';
+import { describeConstraint, satisfiesConstraint } from '../../../src/utils/constraints.js';
+
+/**
+ * Unit tests for cross-field constraints
+ */
+describe('constraints', () => {
+  const constraint = (operator: ConstraintOperator) => ({ field: 'a', operator, other: 'b' });
+
+  it('should compare numbers numerically and other values as strings', () => {
+    expect(satisfiesConstraint({ a: 9, b: 10 }, constraint(ConstraintOperator.LESS_THAN))).toBe(
+      true
+    );
+    expect(satisfiesConstraint({ a: '9', b: '10' }, constraint(ConstraintOperator.LESS_THAN))).toBe(
+      false
+    );
+    expect(
+      satisfiesConstraint(
+        { a: '2024-03-01', b: '2024-02-15' },
+        constraint(ConstraintOperator.GREATER_THAN)
+      )
+    ).toBe(true);
+    expect(
+      satisfiesConstraint({ a: 5, b: 5 }, constraint(ConstraintOperator.GREATER_THAN_OR_EQUAL))
+    ).toBe(true);
+    expect(
+      satisfiesConstraint({ a: 5, b: 5 }, constraint(ConstraintOperator.LESS_THAN_OR_EQUAL))
+    ).toBe(true);
+    expect(satisfiesConstraint({ a: 'x', b: 'x' }, constraint(ConstraintOperator.NOT_EQUAL))).toBe(
+      false
+    );
+  });
+
+  it('should hold when either side is null or missing', () => {
+    expect(satisfiesConstraint({ a: null, b: 1 }, constraint(ConstraintOperator.LESS_THAN))).toBe(
+      true
+    );
+    expect(satisfiesConstraint({ a: 1 }, constraint(ConstraintOperator.LESS_THAN))).toBe(true);
+  });
+
+  it('should describe constraints in infix form', () => {
+    expect(describeConstraint(constraint(ConstraintOperator.NOT_EQUAL))).toBe('a != b');
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { createTestFaker } from '../../helpers/test-utils.js';
+import { distributeCounts, paretoWeights, zipfWeights } from '../../../src/utils/distributions.js';
+
+/**
+ * Unit tests for distribution utilities
+ */
+describe('distributions', () => {
+  describe('zipfWeights', () => {
+    it('should weight ranks by 1 / k^s', () => {
+      expect(zipfWeights(4)).toEqual([1, 1 / 2, 1 / 3, 1 / 4]);
+      expect(zipfWeights(3, 2)).toEqual([1, 1 / 4, 1 / 9]);
+    });
+  });
+
+  describe('paretoWeights', () => {
+    it('should sample weights of at least 1', () => {
+      const weights = paretoWeights(100, createTestFaker());
+
+      expect(weights).toHaveLength(100);
+      weights.forEach((weight) => expect(weight).toBeGreaterThanOrEqual(1));
+    });
+
+    it('should be reproducible with the same seed', () => {
+      expect(paretoWeights(10, createTestFaker(1))).toEqual(paretoWeights(10, createTestFaker(1)));
+    });
+  });
+
+  describe('distributeCounts', () => {
+    it('should distribute exactly the requested total', () => {
+      const counts = distributeCounts(100, [1, 1, 1, 1], createTestFaker());
+
+      expect(counts.reduce((sum, count) => sum + count, 0)).toBe(100);
+    });
+
+    it('should respect per-bucket minimum and maximum', () => {
+      const counts = distributeCounts(50, zipfWeights(10, 2), createTestFaker(), 2, 8);
+
+      expect(counts.reduce((sum, count) => sum + count, 0)).toBe(50);
+      counts.forEach((count) => {
+        expect(count).toBeGreaterThanOrEqual(2);
+        expect(count).toBeLessThanOrEqual(8);
+      });
+    });
+
+    it('should favor heavier buckets', () => {
+      const counts = distributeCounts(1000, [10, 1], createTestFaker());
+
+      expect(counts[0]).toBeGreaterThan(counts[1] ?? 0);
+    });
+
+    it('should throw when minimums cannot be satisfied', () => {
+      expect(() => distributeCounts(5, [1, 1, 1], createTestFaker(), 2)).toThrow(
+        'at least 2 items'
+      );
+    });
+
+    it('should throw when maximums cannot hold the total', () => {
+      expect(() => distributeCounts(10, [1, 1], createTestFaker(), 0, 4)).toThrow(
+        'at most 4 items'
+      );
+    });
+  });
+});
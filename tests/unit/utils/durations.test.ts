@@ -0,0 +1,22 @@
+import { describe, it, expect } from 'vitest';
+import { parseDuration } from '../../../src/utils/durations.js';
+
+/**
+ * Unit tests for duration parsing
+ */
+describe('durations', () => {
+  it('should convert every unit to milliseconds', () => {
+    expect(parseDuration('250ms')).toBe(250);
+    expect(parseDuration('30s')).toBe(30_000);
+    expect(parseDuration('5m')).toBe(300_000);
+    expect(parseDuration('1h')).toBe(3_600_000);
+    expect(parseDuration('2d')).toBe(172_800_000);
+    expect(parseDuration('1w')).toBe(604_800_000);
+  });
+
+  it('should reject malformed durations', () => {
+    ['', '0m', '1.5h', '-1h', '10', 'h', '1 h', '1y', '01m'].forEach((duration) =>
+      expect(parseDuration(duration)).toBeUndefined()
+    );
+  });
+});
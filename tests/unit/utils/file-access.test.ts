@@ -0,0 +1,71 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdirSync, mkdtempSync, realpathSync, rmSync, symlinkSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { checkInputPath, checkOutputPath } from '../../../src/utils/file-access.js';
+import type { ToolContext } from '../../../src/server.js';
+import { ToolError } from '../../../src/utils/tool-errors.js';
+
+/**
+ * Unit tests for confining file arguments to the server's directories
+ */
+describe('file access', () => {
+  let dir: string;
+  let context: ToolContext;
+
+  beforeEach(() => {
+    dir = realpathSync(mkdtempSync(join(tmpdir(), 'faker-mcp-')));
+    mkdirSync(join(dir, 'out'));
+    context = {
+      reportProgress: () => Promise.resolve(),
+      fileAccess: { allowed: true, outputDir: join(dir, 'out'), inputDir: join(dir, 'in') },
+    };
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should accept paths inside the directories, including files not created yet', async () => {
+    await expect(checkOutputPath(join(dir, 'out', 'new', 'people.csv'), context)).resolves.toBe(
+      join(dir, 'out', 'new', 'people.csv')
+    );
+    await expect(
+      checkInputPath(join(dir, 'in', 'schema.sql'), 'sourcePath', context)
+    ).resolves.toBe(join(dir, 'in', 'schema.sql'));
+  });
+
+  it('should refuse paths that leave the directory, through .. or a symbolic link', async () => {
+    symlinkSync(dir, join(dir, 'out', 'up'));
+
+    for (const path of [
+      join(dir, 'people.csv'),
+      `${join(dir, 'out')}/../people.csv`,
+      join(dir, 'out', 'up', 'people.csv'),
+      '/etc/passwd',
+    ]) {
+      await expect(checkOutputPath(path, context)).rejects.toThrow(ToolError);
+    }
+    await expect(checkInputPath('/etc/passwd', 'specPath', context)).rejects.toThrow(
+      `specPath must be inside ${join(dir, 'in')}`
+    );
+  });
+
+  it('should refuse every path when file access is not allowed', async () => {
+    const remote: ToolContext = { ...context, fileAccess: { allowed: false } };
+
+    await expect(checkOutputPath(join(dir, 'out', 'people.csv'), remote)).rejects.toThrow(
+      'outputPath is not available over HTTP'
+    );
+    await expect(checkInputPath(join(dir, 'in', 'spec.yaml'), 'specPath', remote)).rejects.toThrow(
+      'specPath is not available over HTTP'
+    );
+  });
+
+  it('should leave paths unconfined without a directory or a policy', async () => {
+    await expect(
+      checkOutputPath('/tmp/people.csv', { ...context, fileAccess: { allowed: true } })
+    ).resolves.toBe('/tmp/people.csv');
+    await expect(checkInputPath('/tmp/schema.sql', 'sourcePath')).resolves.toBe('/tmp/schema.sql');
+  });
+});
@@ -0,0 +1,120 @@
+import { afterEach, beforeEach, describe, it, expect } from 'vitest';
+import { mkdtempSync, readFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { PersonGenerator } from '../../../src/generators/person-generator.js';
+import { LogGenerator } from '../../../src/generators/log-generator.js';
+import { LogType, OutputFormat } from '../../../src/types/schema.js';
+import { writeRecordsToFile } from '../../../src/utils/file-sink.js';
+import { formatRecords } from '../../../src/utils/tabular-export.js';
+import { formatLogLines } from '../../../src/utils/log-formats.js';
+
+/**
+ * Unit tests for the streaming file sink
+ */
+describe('file-sink', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'faker-mcp-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe('writeRecordsToFile', () => {
+    it.each([OutputFormat.CSV, OutputFormat.NDJSON, OutputFormat.TSV] as const)(
+      'should write the same %s as the in-memory export',
+      async (format) => {
+        const path = join(dir, `persons.${format}`);
+        const expected = formatRecords(
+          await new PersonGenerator({ seed: 7 }).generateMany(2500),
+          format
+        );
+
+        const result = await writeRecordsToFile(
+          new PersonGenerator({ seed: 7 }).stream(2500),
+          path,
+          { format }
+        );
+
+        expect(readFileSync(path, 'utf8')).toBe(expected);
+        expect(result.records).toBe(2500);
+        expect(result.bytes).toBe(Buffer.byteLength(expected));
+      }
+    );
+
+    it.each([OutputFormat.COMBINED, OutputFormat.SYSLOG] as const)(
+      'should write the same %s log lines as the in-memory export',
+      async (format) => {
+        const path = join(dir, `access.${format}.log`);
+        const expected = formatLogLines(
+          await new LogGenerator({ seed: 7 }).generateMany(1500, { type: LogType.ACCESS }),
+          format
+        );
+
+        await writeRecordsToFile(
+          new LogGenerator({ seed: 7 }).stream(1500, { type: LogType.ACCESS }),
+          path,
+          { format }
+        );
+
+        expect(readFileSync(path, 'utf8')).toBe(expected);
+      }
+    );
+
+    it('should write a JSON array of the records', async () => {
+      const path = join(dir, 'persons.json');
+      const expected = await new PersonGenerator({ seed: 7 }).generateMany(30);
+
+      await writeRecordsToFile(new PersonGenerator({ seed: 7 }).stream(30), path, {
+        format: OutputFormat.JSON,
+        chunkSize: 7,
+      });
+
+      expect(JSON.parse(readFileSync(path, 'utf8'))).toEqual(expected);
+    });
+
+    it('should write an empty JSON array when there are no records', async () => {
+      const path = join(dir, 'empty.json');
+
+      await writeRecordsToFile([], path, { format: OutputFormat.JSON });
+
+      expect(JSON.parse(readFileSync(path, 'utf8'))).toEqual([]);
+    });
+
+    it('should use the given columns for records that lack fields', async () => {
+      const path = join(dir, 'sparse.csv');
+
+      await writeRecordsToFile([{ id: 'a' }, { id: 'b', note: 'x' }], path, {
+        format: OutputFormat.CSV,
+        columns: ['id', 'note'],
+      });
+
+      expect(readFileSync(path, 'utf8')).toBe('id,note\na,\nb,x\n');
+    });
+
+    it('should report progress after every chunk and at the end', async () => {
+      const progress: number[] = [];
+
+      await writeRecordsToFile(new PersonGenerator({ seed: 7 }).stream(25), join(dir, 'p.ndjson'), {
+        format: OutputFormat.NDJSON,
+        chunkSize: 10,
+        onProgress: (written) => {
+          progress.push(written);
+        },
+      });
+
+      expect(progress).toEqual([10, 20, 25]);
+    });
+
+    it('should reject when the file cannot be opened', async () => {
+      await expect(
+        writeRecordsToFile([{ id: 1 }], join(dir, 'missing', 'out.ndjson'), {
+          format: OutputFormat.NDJSON,
+        })
+      ).rejects.toThrow('ENOENT');
+    });
+  });
+});
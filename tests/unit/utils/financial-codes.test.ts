@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import {
+  ibanCheckDigits,
+  isValidIban,
+  isValidLuhn,
+  luhnCheckDigit,
+} from '../../../src/utils/financial-codes.js';
+
+/**
+ * Unit tests for IBAN and Luhn check digits
+ */
+describe('financial codes', () => {
+  describe('ibanCheckDigits', () => {
+    it('should compute the check digits of published example IBANs', () => {
+      expect(ibanCheckDigits('DE', '370400440532013000')).toBe('89');
+      expect(ibanCheckDigits('GB', 'WEST12345698765432')).toBe('82');
+      expect(ibanCheckDigits('NL', 'ABNA0417164300')).toBe('91');
+    });
+
+    it('should pad check digits below 10', () => {
+      expect(ibanCheckDigits('FR', '20041010050500013M02606')).toBe('14');
+      expect(ibanCheckDigits('DE', '100000000000000008')).toMatch(/^\d{2}$/);
+    });
+  });
+
+  describe('isValidIban', () => {
+    it('should accept IBANs with matching check digits', () => {
+      expect(isValidIban('GB82WEST12345698765432')).toBe(true);
+      expect(isValidIban('DE89370400440532013000')).toBe(true);
+      expect(isValidIban('ES9121000418450200051332')).toBe(true);
+    });
+
+    it('should reject wrong check digits and malformed input', () => {
+      expect(isValidIban('GB83WEST12345698765432')).toBe(false);
+      expect(isValidIban('GB82 WEST 1234 5698 7654 32')).toBe(false);
+      expect(isValidIban('DE89')).toBe(false);
+    });
+  });
+
+  describe('luhnCheckDigit', () => {
+    it('should compute the check digit of test card numbers', () => {
+      expect(luhnCheckDigit('411111111111111')).toBe(1);
+      expect(luhnCheckDigit('37828224631000')).toBe(5);
+      expect(luhnCheckDigit('555555555555444')).toBe(4);
+    });
+  });
+
+  describe('isValidLuhn', () => {
+    it('should accept numbers with a matching check digit', () => {
+      expect(isValidLuhn('4111111111111111')).toBe(true);
+      expect(isValidLuhn('378282246310005')).toBe(true);
+      expect(isValidLuhn('6011111111111117')).toBe(true);
+    });
+
+    it('should reject wrong check digits, lengths and non-digits', () => {
+      expect(isValidLuhn('4111111111111112')).toBe(false);
+      expect(isValidLuhn('41111111')).toBe(false);
+      expect(isValidLuhn('4111-1111-1111-1111')).toBe(false);
+    });
+  });
+});
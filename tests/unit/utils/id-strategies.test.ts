@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest';
+import { Faker, en } from '@faker-js/faker';
+import { IdStrategyType, type IdStrategy } from '../../../src/types/schema.js';
+import { createIdFactory, IdStrategySchema } from '../../../src/utils/id-strategies.js';
+import { UniqueValuesExhaustedError } from '../../../src/utils/unique-values.js';
+
+/**
+ * Unit tests for ID strategies
+ */
+describe('id-strategies', () => {
+  const referenceDate = new Date('2025-01-01T00:00:00Z');
+
+  const generateIds = (strategy: IdStrategy | undefined, count: number, seed = 42) => {
+    const faker = new Faker({ locale: en });
+    faker.seed(seed);
+    const nextId = createIdFactory(strategy, faker, {
+      referenceDate,
+      prefix: 'order_',
+      fallback: (index) => `order_${index}`,
+    });
+    return Array.from({ length: count }, (_, index) => nextId(index));
+  };
+
+  describe('createIdFactory', () => {
+    it('should fall back to the default IDs without a strategy', () => {
+      expect(generateIds(undefined, 2)).toEqual(['order_0', 'order_1']);
+    });
+
+    it('should generate random UUIDs and nanoids of the requested length', () => {
+      const uuids = generateIds({ type: IdStrategyType.UUID }, 3);
+      const nanoids = generateIds({ type: IdStrategyType.NANOID, length: 12 }, 3);
+
+      uuids.forEach((id) => expect(id).toMatch(/^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-/));
+      nanoids.forEach((id) => expect(id).toMatch(/^[\w-]{12}$/));
+      expect(new Set(uuids).size).toBe(3);
+    });
+
+    it('should generate time-ordered UUID v7s and ULIDs anchored at the reference date', () => {
+      const uuids = generateIds({ type: IdStrategyType.UUIDV7 }, 50) as string[];
+      const ulids = generateIds({ type: IdStrategyType.ULID }, 50) as string[];
+
+      uuids.forEach((id) =>
+        expect(id).toMatch(/^[0-9a-f]{8}-[0-9a-f]{4}-7[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/)
+      );
+      ulids.forEach((id) => expect(id).toMatch(/^[0-9A-HJKMNP-TV-Z]{26}$/));
+      expect([...uuids].sort()).toEqual(uuids);
+      expect([...ulids].sort()).toEqual(ulids);
+
+      // The 48-bit timestamp of the first ID is the reference date
+      const timestamp = parseInt((uuids[0] as string).replace(/-/g, '').slice(0, 12), 16);
+      expect(timestamp).toBe(referenceDate.getTime());
+      expect(ulids[0]?.slice(0, 10)).toBe('01JGFJJZ00');
+    });
+
+    it('should count sequences up from the start', () => {
+      expect(generateIds({ type: IdStrategyType.SEQUENCE }, 3)).toEqual([1, 2, 3]);
+      expect(generateIds({ type: IdStrategyType.SEQUENCE, start: 1000 }, 2)).toEqual([1000, 1001]);
+    });
+
+    it('should put the prefix, or the record kind, before prefixed IDs', () => {
+      expect(generateIds({ type: IdStrategyType.PREFIXED, prefix: 'cus_' }, 1)[0]).toMatch(
+        /^cus_[A-Za-z0-9]{16}$/
+      );
+      expect(generateIds({ type: IdStrategyType.PREFIXED, length: 10 }, 1)[0]).toMatch(
+        /^order_[A-Za-z0-9]{10}$/
+      );
+    });
+
+    it('should generate distinct IDs matching a pattern', () => {
+      const ids = generateIds({ type: IdStrategyType.PATTERN, pattern: 'ORD-[0-9]{2}' }, 60);
+
+      ids.forEach((id) => expect(id).toMatch(/^ORD-\d{2}$/));
+      expect(new Set(ids).size).toBe(60);
+      expect(() => generateIds({ type: IdStrategyType.PATTERN, pattern: 'ORD-[0-9]' }, 11)).toThrow(
+        UniqueValuesExhaustedError
+      );
+    });
+
+    it('should reproduce random IDs for the same seed', () => {
+      for (const type of [IdStrategyType.UUIDV7, IdStrategyType.ULID, IdStrategyType.PREFIXED]) {
+        expect(generateIds({ type }, 5, 7)).toEqual(generateIds({ type }, 5, 7));
+        expect(generateIds({ type }, 5, 7)).not.toEqual(generateIds({ type }, 5, 8));
+      }
+    });
+  });
+
+  describe('IdStrategySchema', () => {
+    it('should accept a strategy name or an object with options', () => {
+      expect(IdStrategySchema.parse('ulid')).toEqual({ type: IdStrategyType.ULID });
+      expect(IdStrategySchema.parse({ type: 'sequence', start: 10 })).toEqual({
+        type: IdStrategyType.SEQUENCE,
+        start: 10,
+      });
+    });
+
+    it('should require a pattern and reject short random IDs', () => {
+      expect(IdStrategySchema.safeParse({ type: 'pattern' }).success).toBe(false);
+      expect(IdStrategySchema.safeParse({ type: 'nanoid', length: 6 }).success).toBe(false);
+      expect(IdStrategySchema.safeParse('snowflake').success).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { matchesSchema, resolveLocalRef } from '../../../src/utils/json-schema-match.js';
+import type { JsonSchema } from '../../../src/types/schema.js';
+
+/**
+ * Unit tests for checking values against JSON Schemas
+ */
+describe('json-schema-match', () => {
+  const root: JsonSchema = {
+    $defs: { Code: { type: 'string', pattern: '^[A-Z]{3}$' } },
+  };
+
+  describe('resolveLocalRef', () => {
+    it('should resolve local pointers and reject remote or missing ones', () => {
+      expect(resolveLocalRef('#/$defs/Code', root)).toEqual(root.$defs?.Code);
+      expect(() => resolveLocalRef('other.json#/Code', root)).toThrow(
+        'Only local references (#/...) are supported'
+      );
+      expect(() => resolveLocalRef('#/$defs/Missing', root)).toThrow(
+        'Unresolvable $ref: #/$defs/Missing'
+      );
+    });
+  });
+
+  describe('matchesSchema', () => {
+    it.each<[unknown, JsonSchema, boolean]>([
+      [3, { type: 'integer', minimum: 3 }, true],
+      [3, { type: 'integer', minimum: 3, exclusiveMinimum: true }, false],
+      [2.5, { type: 'integer' }, false],
+      [0.6, { multipleOf: 0.2 }, true],
+      [null, { type: 'string', nullable: true }, true],
+      ['ABC', { $ref: '#/$defs/Code' }, true],
+      ['abc', { $ref: '#/$defs/Code' }, false],
+      ['a@b.co', { type: 'string', format: 'email', maxLength: 6 }, true],
+      ['not-a-uuid', { type: 'string', format: 'uuid' }, false],
+      [{ a: 1 }, { type: 'object', required: ['a', 'b'] }, false],
+      [{ a: 'x' }, { properties: { a: { type: 'integer' } } }, false],
+      [{ a: 1, b: 2 }, { properties: { a: {} }, additionalProperties: false }, false],
+      [{ b: 2 }, { additionalProperties: { type: 'integer' } }, true],
+      [[1, 1], { type: 'array', uniqueItems: true }, false],
+      [[1, 'x'], { prefixItems: [{ type: 'integer' }], items: { type: 'string' } }, true],
+      ['b', { enum: ['a', 'b'], allOf: [{ const: 'b' }] }, true],
+      [5, { anyOf: [{ type: 'string' }, { maximum: 4 }] }, false],
+    ])('should check %j against %j', (value, schema, expected) => {
+      expect(matchesSchema(value, schema, root)).toBe(expected);
+    });
+
+    it('should require a oneOf value to match exactly one schema', () => {
+      const schema: JsonSchema = { oneOf: [{ type: 'integer' }, { type: 'number' }] };
+
+      expect(matchesSchema(1.5, schema, schema)).toBe(true);
+      expect(matchesSchema(1, schema, schema)).toBe(false);
+      expect(matchesSchema('1', schema, schema)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,118 @@
+import { describe, it, expect } from 'vitest';
+import type { AccessLogData, AppLogData, AuthLogData } from '../../../src/types/responses.js';
+import { AuthEvent, LogLevel, LogType, OutputFormat } from '../../../src/types/schema.js';
+import {
+  formatCombinedLine,
+  formatLogLines,
+  formatSyslogLine,
+} from '../../../src/utils/log-formats.js';
+
+/**
+ * Unit tests for combined and syslog log lines
+ */
+describe('log-formats', () => {
+  const request: AccessLogData = {
+    id: 'log_1',
+    type: LogType.ACCESS,
+    timestamp: '2024-10-05T13:55:36.250Z',
+    host: 'web-01',
+    clientIp: '203.0.113.7',
+    user: null,
+    method: 'GET',
+    path: '/products?page=2',
+    protocol: 'HTTP/1.1',
+    status: 200,
+    bytes: 2326,
+    referrer: 'https://www.google.com/',
+    userAgent: 'curl/8.4.0',
+    latencyMs: 12,
+    sessionId: 'abc',
+  };
+
+  describe('formatCombinedLine', () => {
+    it('should render the Apache/Nginx combined log format', () => {
+      expect(formatCombinedLine(request)).toBe(
+        '203.0.113.7 - - [05/Oct/2024:13:55:36 +0000] "GET /products?page=2 HTTP/1.1" 200 2326 "https://www.google.com/" "curl/8.4.0"'
+      );
+    });
+
+    it('should write a dash for empty bodies and missing referrers and show the user', () => {
+      const line = formatCombinedLine({
+        ...request,
+        user: 'jdoe',
+        status: 304,
+        bytes: 0,
+        referrer: null,
+      });
+
+      expect(line).toBe(
+        '203.0.113.7 - jdoe [05/Oct/2024:13:55:36 +0000] "GET /products?page=2 HTTP/1.1" 304 - "-" "curl/8.4.0"'
+      );
+    });
+
+    it('should keep timestamps that are not dates as they are', () => {
+      expect(formatCombinedLine({ ...request, timestamp: 'yesterday' })).toContain('[yesterday]');
+    });
+  });
+
+  describe('formatSyslogLine', () => {
+    it('should log requests as nginx with a severity following the status', () => {
+      expect(formatSyslogLine(request)).toMatch(
+        /^<190>1 2024-10-05T13:55:36\.250Z web-01 nginx - access - 203\.0\.113\.7 /
+      );
+      expect(formatSyslogLine({ ...request, status: 404 })).toMatch(/^<188>1 /);
+      expect(formatSyslogLine({ ...request, status: 503 })).toMatch(/^<187>1 /);
+    });
+
+    it('should log auth events to authpriv with escaped structured data', () => {
+      const event: AuthLogData = {
+        id: 'log_2',
+        type: LogType.AUTH,
+        timestamp: '2024-10-05T13:55:36.250Z',
+        host: 'auth-01',
+        sourceIp: '198.51.100.4',
+        user: 'j"doe]',
+        event: AuthEvent.LOGIN,
+        authMethod: 'password',
+        outcome: 'failure',
+        reason: 'invalid_password',
+        userAgent: 'curl/8.4.0',
+        sessionId: 'abc',
+        token: null,
+      };
+
+      expect(formatSyslogLine(event)).toBe(
+        '<84>1 2024-10-05T13:55:36.250Z auth-01 auth - login [auth@32473 user="j\\"doe\\]" srcIp="198.51.100.4" method="password" outcome="failure" sessionId="abc"] login failure for j"doe] from 198.51.100.4: invalid_password'
+      );
+    });
+
+    it('should log application messages to local0 with the level as severity', () => {
+      const record: AppLogData = {
+        id: 'log_3',
+        type: LogType.APP,
+        timestamp: '2024-10-05T13:55:36.250Z',
+        host: 'order-service-1',
+        service: 'order-service',
+        pid: 4242,
+        level: LogLevel.ERROR,
+        message: 'Payment declined for order 17',
+        traceId: '0af7651916cd43dd8448eb211c80319c',
+        spanId: 'b7ad6b7169203331',
+        sessionId: null,
+      };
+
+      expect(formatSyslogLine(record)).toBe(
+        '<131>1 2024-10-05T13:55:36.250Z order-service-1 order-service 4242 - [trace@32473 traceId="0af7651916cd43dd8448eb211c80319c" spanId="b7ad6b7169203331"] Payment declined for order 17'
+      );
+    });
+  });
+
+  describe('formatLogLines', () => {
+    it('should terminate every line with a newline', () => {
+      const text = formatLogLines([request, request], OutputFormat.COMBINED);
+
+      expect(text.split('\n')).toHaveLength(3);
+      expect(text.endsWith('\n')).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,21 @@
+import { describe, it, expect } from 'vitest';
+import { SupportedLocale } from '../../../src/types/schema.js';
+import { LOCALE_CURRENCIES, minorUnitFactor } from '../../../src/utils/money.js';
+
+/**
+ * Unit tests for currency helpers
+ */
+describe('money', () => {
+  it('should count cents for most currencies and whole units for zero-decimal ones', () => {
+    expect(minorUnitFactor('USD')).toBe(100);
+    expect(minorUnitFactor('EUR')).toBe(100);
+    expect(minorUnitFactor('JPY')).toBe(1);
+    expect(minorUnitFactor('KRW')).toBe(1);
+  });
+
+  it('should have a default currency for every supported locale', () => {
+    Object.values(SupportedLocale).forEach((locale) =>
+      expect(LOCALE_CURRENCIES[locale]).toMatch(/^[A-Z]{3}$/)
+    );
+  });
+});
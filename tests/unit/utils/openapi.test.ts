@@ -0,0 +1,160 @@
+import { describe, it, expect } from 'vitest';
+import { JsonSchemaGenerator } from '../../../src/generators/json-schema-generator.js';
+import {
+  getResponseSchema,
+  listOperations,
+  parseOpenApiDocument,
+  type OpenApiDocument,
+} from '../../../src/utils/openapi.js';
+
+/**
+ * Unit tests for OpenAPI document utilities
+ */
+describe('openapi', () => {
+  const doc: OpenApiDocument = {
+    openapi: '3.0.3',
+    info: { title: 'Pet Store' },
+    paths: {
+      '/pets': {
+        get: {
+          operationId: 'listPets',
+          responses: {
+            '200': {
+              content: {
+                'application/json': {
+                  schema: { type: 'array', items: { $ref: '#/components/schemas/Pet' } },
+                },
+              },
+            },
+          },
+        },
+        post: {
+          responses: {
+            '201': {
+              content: { 'application/hal+json': { schema: { $ref: '#/components/schemas/Pet' } } },
+            },
+            default: { $ref: '#/components/responses/Error' },
+          },
+        },
+      },
+      '/pets/{petId}': {
+        parameters: [],
+        delete: { operationId: 'deletePet', summary: 'Delete a pet', responses: { '204': {} } },
+      },
+    },
+    components: {
+      schemas: {
+        Pet: {
+          allOf: [
+            { $ref: '#/components/schemas/Entity' },
+            {
+              type: 'object',
+              required: ['kind'],
+              properties: {
+                kind: { type: 'string', enum: ['cat', 'dog'] },
+                tag: { type: 'string', nullable: true },
+              },
+            },
+          ],
+        },
+        Entity: {
+          type: 'object',
+          required: ['id'],
+          properties: { id: { type: 'integer', minimum: 1, exclusiveMinimum: true } },
+        },
+        Error: {
+          type: 'object',
+          properties: { code: { type: 'integer' }, message: { type: 'string' } },
+        },
+      },
+      responses: {
+        Error: {
+          content: { 'application/json': { schema: { $ref: '#/components/schemas/Error' } } },
+        },
+      },
+    },
+  };
+
+  describe('parseOpenApiDocument', () => {
+    it('should parse YAML and JSON documents', () => {
+      const yaml = parseOpenApiDocument('openapi: 3.1.0\ninfo:\n  title: Demo\npaths: {}\n');
+      const json = parseOpenApiDocument('{"openapi":"3.0.0","paths":{}}');
+
+      expect(yaml.info?.title).toBe('Demo');
+      expect(json.openapi).toBe('3.0.0');
+    });
+
+    it('should reject Swagger 2.0 and malformed documents', () => {
+      expect(() => parseOpenApiDocument('swagger: "2.0"')).toThrow('Swagger 2.0 is not supported');
+      expect(() => parseOpenApiDocument('{"openapi": ')).toThrow('Invalid OpenAPI document');
+    });
+  });
+
+  describe('listOperations', () => {
+    it('should list every method of every path', () => {
+      expect(listOperations(doc)).toEqual([
+        { method: 'GET', path: '/pets', operationId: 'listPets', responses: ['200'] },
+        { method: 'POST', path: '/pets', responses: ['201', 'default'] },
+        {
+          method: 'DELETE',
+          path: '/pets/{petId}',
+          operationId: 'deletePet',
+          summary: 'Delete a pet',
+          responses: ['204'],
+        },
+      ]);
+    });
+  });
+
+  describe('getResponseSchema', () => {
+    it('should select an operation by ID and default to the first 2XX JSON response', () => {
+      const response = getResponseSchema(doc, { operation: 'listPets' });
+
+      expect(response.status).toBe('200');
+      expect(response.mediaType).toBe('application/json');
+      expect(response.schema).toEqual({
+        type: 'array',
+        items: { $ref: '#/components/schemas/Pet' },
+      });
+    });
+
+    it('should select an operation by method and path and fall back to +json media types', () => {
+      const response = getResponseSchema(doc, { operation: 'post /pets' });
+
+      expect(response.status).toBe('201');
+      expect(response.mediaType).toBe('application/hal+json');
+    });
+
+    it('should follow response references', () => {
+      const response = getResponseSchema(doc, { operation: 'POST /pets', status: 'default' });
+
+      expect(response.schema).toEqual({ $ref: '#/components/schemas/Error' });
+    });
+
+    it('should explain missing operations, statuses and bodies', () => {
+      expect(() => getResponseSchema(doc, { operation: 'getPet' })).toThrow(
+        'Available operations: GET /pets (listPets), POST /pets, DELETE /pets/{petId} (deletePet)'
+      );
+      expect(() => getResponseSchema(doc, { operation: 'listPets', status: '404' })).toThrow(
+        'Declared responses: 200'
+      );
+      expect(() => getResponseSchema(doc, { operation: 'deletePet' })).toThrow(
+        'Response 204 of DELETE /pets/{petId} (deletePet) has no body schema'
+      );
+    });
+
+    it('should produce schemas that generate against the document', async () => {
+      const { schema } = getResponseSchema(doc, { operation: 'listPets' });
+      const pets = await new JsonSchemaGenerator({ seed: 3 }).generateMany(20, {
+        schema,
+        root: doc,
+      });
+
+      pets.flat().forEach((pet) => {
+        const { id, kind } = pet as { id: number; kind: string };
+        expect(id).toBeGreaterThan(1);
+        expect(['cat', 'dog']).toContain(kind);
+      });
+    });
+  });
+});
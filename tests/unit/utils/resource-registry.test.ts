@@ -0,0 +1,143 @@
+import { describe, it, expect } from 'vitest';
+import { ResourceRegistry } from '../../../src/utils/resource-registry.js';
+
+/**
+ * Unit tests for the resource registry
+ */
+describe('ResourceRegistry', () => {
+  const personContent = [
+    { type: 'text', text: 'Generated 2 person records' },
+    {
+      type: 'resource',
+      resource: {
+        uri: 'faker://persons/generated',
+        mimeType: 'application/json',
+        text: '{"data":[{"id":"person_1"},{"id":"person_2"}]}',
+      },
+    },
+  ];
+
+  const datasetContent = [
+    {
+      type: 'text',
+      text: JSON.stringify({
+        dataset: { users: [{ id: 'users_1' }], orders: [{ id: 'orders_1', userId: 'users_1' }] },
+        metadata: { seed: 1 },
+      }),
+    },
+  ];
+
+  describe('store', () => {
+    it('should store resource blocks under a unique generation URI', () => {
+      const registry = new ResourceRegistry();
+      const first = registry.store('generate-person', personContent);
+      const second = registry.store('generate-person', personContent);
+
+      expect(first?.uri).toMatch(/^faker:\/\/datasets\/[0-9a-f-]{36}$/);
+      expect(second?.uri).not.toBe(first?.uri);
+      expect(first?.summary).toBe('Generated 2 person records');
+      expect(first?.parts).toEqual([
+        {
+          uri: `${first?.uri}/generated`,
+          path: 'generated',
+          mimeType: 'application/json',
+          sourceUri: 'faker://persons/generated',
+        },
+      ]);
+    });
+
+    it('should add one part per entity of a JSON dataset', () => {
+      const stored = new ResourceRegistry().store('generate-dataset', datasetContent);
+
+      expect(stored?.parts.map((part) => part.path)).toEqual([
+        'dataset',
+        'entities/users',
+        'entities/orders',
+      ]);
+    });
+
+    it('should keep the paths of parts unique', () => {
+      const block = personContent[1];
+      const stored = new ResourceRegistry().store('generate-person', [block, block]);
+
+      expect(stored?.parts.map((part) => part.path)).toEqual(['generated', 'generated-2']);
+    });
+
+    it('should not store responses without generated data', () => {
+      const registry = new ResourceRegistry();
+
+      expect(registry.store('generate-person', [{ type: 'text', text: 'Wrote 10 records' }])).toBe(
+        undefined
+      );
+      expect(registry.size).toBe(0);
+    });
+  });
+
+  describe('read', () => {
+    it('should read a generation, its parts and its entities', () => {
+      const registry = new ResourceRegistry();
+      const person = registry.store('generate-person', personContent);
+      const dataset = registry.store('generate-dataset', datasetContent);
+
+      expect(registry.read(person?.uri ?? '')).toEqual([
+        {
+          uri: `${person?.uri}/generated`,
+          mimeType: 'application/json',
+          text: personContent[1]?.resource?.text,
+        },
+      ]);
+      expect(registry.read(`${person?.uri}/generated`)).toHaveLength(1);
+      expect(JSON.parse(registry.read(`${dataset?.uri}/entities/orders`)[0]?.text ?? '')).toEqual([
+        { id: 'orders_1', userId: 'users_1' },
+      ]);
+      // Entity parts are derived, so reading the whole generation returns the dataset once
+      expect(registry.read(dataset?.uri ?? '').map((contents) => contents.uri)).toEqual([
+        `${dataset?.uri}/dataset`,
+      ]);
+    });
+
+    it('should explain unknown generations and parts', () => {
+      const registry = new ResourceRegistry({ maxEntries: 5 });
+      const stored = registry.store('generate-person', personContent);
+
+      expect(() => registry.read('faker://datasets/missing')).toThrow(
+        'Generated data is kept for the 5 most recently used generations'
+      );
+      expect(() => registry.read(`${stored?.uri}/generated.csv`)).toThrow(
+        `Parts of ${stored?.uri}: generated`
+      );
+    });
+  });
+
+  describe('eviction', () => {
+    it('should evict the least recently used generation beyond maxEntries', () => {
+      const registry = new ResourceRegistry({ maxEntries: 2 });
+      const first = registry.store('generate-person', personContent);
+      const second = registry.store('generate-person', personContent);
+      registry.read(first?.uri ?? '');
+      const third = registry.store('generate-person', personContent);
+
+      expect(registry.size).toBe(2);
+      expect(() => registry.read(second?.uri ?? '')).toThrow('Resource not found');
+      expect(registry.list().map((resource) => resource.uri)).toEqual([
+        third?.uri,
+        `${third?.uri}/generated`,
+        first?.uri,
+        `${first?.uri}/generated`,
+      ]);
+    });
+
+    it('should evict by total size and skip generations larger than maxBytes', () => {
+      const size = Buffer.byteLength(personContent[1]?.resource?.text ?? '');
+      const registry = new ResourceRegistry({ maxBytes: size * 2 });
+
+      registry.store('generate-person', personContent);
+      registry.store('generate-person', personContent);
+      registry.store('generate-person', personContent);
+      expect(registry.size).toBe(2);
+
+      const tooLarge = new ResourceRegistry({ maxBytes: size - 1 });
+      expect(tooLarge.store('generate-person', personContent)).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,409 @@
+import { describe, it, expect } from 'vitest';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { DatasetGenerator } from '../../../src/generators/dataset-generator.js';
+import { FieldType, PatternType, SchemaSourceFormat } from '../../../src/types/schema.js';
+import {
+  detectSchemaFormat,
+  importDatasetSchema,
+  loadSchemaSource,
+} from '../../../src/utils/schema-import.js';
+import { validateDatasetSchema } from '../../../src/utils/validators.js';
+
+/**
+ * Unit tests for Prisma schema and SQL DDL import
+ */
+describe('schema-import', () => {
+  const prisma = `
+datasource db {
+  provider = "postgresql"
+  url      = env("DATABASE_URL")
+}
+
+enum Role { USER ADMIN }
+
+model User {
+  id        Int      @id @default(autoincrement())
+  email     String   @unique
+  role      Role     @default(USER)
+  age       Int?     // optional
+  posts     Post[]
+  createdAt DateTime @default(now())
+}
+
+model Post {
+  id       String  @id @default(uuid())
+  title    String
+  tags     String[]
+  author   User    @relation("authored", fields: [authorId], references: [id])
+  authorId Int
+  editor   User?   @relation("edited", fields: [editorId], references: [id])
+  editorId Int?
+}
+`;
+
+  const sql = `
+-- Accounts
+CREATE TYPE "status" AS ENUM ('active', 'banned');
+
+CREATE TABLE IF NOT EXISTS public."users" (
+  id SERIAL PRIMARY KEY,
+  email VARCHAR(255) NOT NULL,
+  status status NOT NULL,
+  active TINYINT(1),
+  kind TEXT CHECK (kind IN ('a', 'b')),
+  manager_id INT REFERENCES users(id)
+);
+
+CREATE TABLE \`orders\` (
+  \`id\` BIGINT,
+  \`user_id\` INT NOT NULL,
+  \`total\` DECIMAL(10, 2),
+  \`placed_at\` TIMESTAMP,
+  \`size\` ENUM('s', 'm'),
+  PRIMARY KEY (\`id\`)
+);
+
+ALTER TABLE orders ADD CONSTRAINT orders_user_fk FOREIGN KEY (user_id) REFERENCES users (id);
+`;
+
+  const keyed = `
+CREATE TABLE users (
+  user_id SERIAL PRIMARY KEY,
+  email TEXT NOT NULL UNIQUE,
+  handle TEXT DEFAULT 'unique',
+  tenant TEXT,
+  CONSTRAINT users_tenant_handle UNIQUE (tenant, handle)
+);
+CREATE TABLE profiles (id UUID PRIMARY KEY, user_id INT NOT NULL, bio TEXT);
+CREATE UNIQUE INDEX "profiles_user_id_key" ON "profiles"("user_id");
+ALTER TABLE profiles ADD FOREIGN KEY (user_id) REFERENCES users(user_id);
+CREATE TABLE order_items (
+  order_id INT NOT NULL,
+  sku VARCHAR(20) NOT NULL,
+  quantity INT,
+  PRIMARY KEY (order_id, sku)
+);
+`;
+
+  describe('detectSchemaFormat', () => {
+    it('should detect the format from the file extension, then the content', () => {
+      expect(detectSchemaFormat(sql, '/app/prisma/schema.prisma')).toBe(SchemaSourceFormat.PRISMA);
+      expect(detectSchemaFormat(prisma, '/app/migrations/001.sql')).toBe(SchemaSourceFormat.SQL);
+      expect(detectSchemaFormat(prisma)).toBe(SchemaSourceFormat.PRISMA);
+      expect(detectSchemaFormat(sql)).toBe(SchemaSourceFormat.SQL);
+    });
+  });
+
+  describe('Prisma schemas', () => {
+    it('should map models, enums and scalar types to entities and fields', () => {
+      const { schema, warnings } = importDatasetSchema(prisma, SchemaSourceFormat.PRISMA);
+
+      expect(warnings).toEqual([]);
+      expect(schema.entities.User?.fields).toEqual([
+        { name: 'email', unique: true },
+        { name: 'role', pattern: { type: PatternType.ENUM, value: ['USER', 'ADMIN'] } },
+        { name: 'age', type: FieldType.INTEGER, nullable: true },
+        { name: 'createdAt', type: FieldType.DATETIME },
+      ]);
+      expect(schema.entities.Post?.fields).toEqual([
+        'title',
+        { name: 'tags', type: FieldType.JSON },
+        'authorId',
+        'editorId',
+      ]);
+    });
+
+    it('should turn relation fields into relationships with their nullability', () => {
+      const { schema } = importDatasetSchema(prisma, SchemaSourceFormat.PRISMA);
+
+      expect(schema.entities.Post?.relationships).toEqual({
+        authorId: { references: 'User', type: 'one-to-many' },
+        editorId: { references: 'User', type: 'one-to-many', nullable: true },
+      });
+      expect(schema.entities.User?.relationships).toBeUndefined();
+    });
+
+    it('should generate sequence IDs for integer keys and UUIDs for UUID keys', () => {
+      const { schema } = importDatasetSchema(prisma, SchemaSourceFormat.PRISMA);
+
+      expect(schema.entities.User?.idStrategy).toEqual({ type: 'sequence' });
+      expect(schema.entities.Post?.idStrategy).toEqual({ type: 'uuid' });
+      expect(schema.entities.User?.primaryKey).toBeUndefined();
+    });
+
+    it('should map composite ids and unique constraints, and warn about implicit many-to-many relations', () => {
+      const { schema, warnings } = importDatasetSchema(
+        `model Post {
+  id    Int    @id
+  title String
+  tags  Tag[]
+  votes Vote[]
+}
+model Tag {
+  slug  String @id
+  name  String @unique
+  posts Post[]
+}
+model Vote {
+  postId Int
+  userId Int
+  weight Int
+  post   Post @relation(fields: [postId], references: [id])
+  @@id([postId, userId])
+  @@unique([userId, weight])
+}`,
+        SchemaSourceFormat.PRISMA
+      );
+
+      expect(warnings).toEqual([
+        'Post.tags: implicit many-to-many relation with Tag is not supported; its join table is not generated',
+      ]);
+      expect(schema.entities.Tag).toMatchObject({
+        primaryKey: ['slug'],
+        fields: [{ name: 'name', unique: true }],
+      });
+      expect(schema.entities.Vote).toMatchObject({
+        primaryKey: ['postId', 'userId'],
+        uniqueKeys: [['userId', 'weight']],
+        fields: [
+          'postId',
+          { name: 'userId', type: FieldType.INTEGER },
+          { name: 'weight', type: FieldType.INTEGER },
+        ],
+      });
+    });
+
+    it('should warn about composite foreign keys', () => {
+      const { warnings } = importDatasetSchema(
+        `model Tenant {
+  id   Int @id
+  name String
+}
+model Member {
+  id       Int    @id
+  tenantId Int
+  region   String
+  tenant   Tenant @relation(fields: [tenantId, region], references: [id, region])
+}`,
+        SchemaSourceFormat.PRISMA
+      );
+
+      expect(warnings).toEqual([
+        'Member.tenant: composite foreign key (tenantId, region) is not supported; its columns are generated as plain values',
+      ]);
+    });
+  });
+
+  describe('SQL DDL', () => {
+    it('should map tables, enum types, checks and column types', () => {
+      const { schema } = importDatasetSchema(sql, SchemaSourceFormat.SQL);
+
+      expect(Object.keys(schema.entities)).toEqual(['users', 'orders']);
+      expect(schema.entities.users?.fields).toEqual([
+        'email',
+        { name: 'status', pattern: { type: PatternType.ENUM, value: ['active', 'banned'] } },
+        { name: 'active', type: FieldType.BOOLEAN, nullable: true },
+        { name: 'kind', pattern: { type: PatternType.ENUM, value: ['a', 'b'] }, nullable: true },
+        'manager_id',
+      ]);
+      expect(schema.entities.orders?.fields).toEqual([
+        'user_id',
+        { name: 'total', type: FieldType.NUMBER, nullable: true },
+        { name: 'placed_at', type: FieldType.DATETIME, nullable: true },
+        { name: 'size', pattern: { type: PatternType.ENUM, value: ['s', 'm'] }, nullable: true },
+      ]);
+    });
+
+    it('should keep primary key names and map UNIQUE constraints', () => {
+      const { schema, warnings } = importDatasetSchema(keyed, SchemaSourceFormat.SQL);
+
+      expect(warnings).toEqual([]);
+      expect(schema.entities.users).toMatchObject({
+        primaryKey: ['user_id'],
+        idStrategy: { type: 'sequence' },
+        fields: [
+          { name: 'email', unique: true },
+          { name: 'handle', nullable: true },
+          { name: 'tenant', nullable: true },
+        ],
+        uniqueKeys: [['tenant', 'handle']],
+      });
+      expect(schema.entities.profiles?.idStrategy).toEqual({ type: 'uuid' });
+      expect(schema.entities.profiles?.relationships).toEqual({
+        user_id: { references: 'users', type: 'one-to-many', cardinality: { max: 1 } },
+      });
+      expect(schema.entities.order_items).toMatchObject({
+        primaryKey: ['order_id', 'sku'],
+        fields: [
+          { name: 'order_id', type: FieldType.INTEGER },
+          'sku',
+          { name: 'quantity', type: FieldType.INTEGER },
+        ],
+      });
+      expect(schema.entities.order_items?.idStrategy).toBeUndefined();
+    });
+
+    it('should generate rows whose keys and unique columns are distinct', async () => {
+      const { schema } = importDatasetSchema(keyed, SchemaSourceFormat.SQL, {
+        counts: { users: 20, profiles: 20, order_items: 200 },
+      });
+      expect(validateDatasetSchema(schema).valid).toBe(true);
+
+      const { dataset } = await new DatasetGenerator({ seed: 7 }).generateDataset(schema);
+      const users = dataset['users'] as Array<Record<string, unknown>>;
+      const profiles = dataset['profiles'] as Array<Record<string, unknown>>;
+      const items = dataset['order_items'] as Array<Record<string, unknown>>;
+
+      expect(users.map((user) => user.user_id)).toEqual(users.map((_, index) => index + 1));
+      expect(new Set(users.map((user) => user.email)).size).toBe(20);
+      expect(new Set(profiles.map((profile) => profile.user_id)).size).toBe(20);
+      expect(
+        new Set(items.map((item) => `${String(item.order_id)}/${String(item.sku)}`)).size
+      ).toBe(200);
+      expect(items.every((item) => !('id' in item))).toBe(true);
+    });
+
+    it('should read inline and ALTER TABLE foreign keys', () => {
+      const { schema } = importDatasetSchema(sql, SchemaSourceFormat.SQL);
+
+      expect(schema.entities.users?.relationships).toEqual({
+        manager_id: { references: 'users', type: 'one-to-many', nullable: true },
+      });
+      expect(schema.entities.orders?.relationships).toEqual({
+        user_id: { references: 'users', type: 'one-to-many' },
+      });
+    });
+
+    it('should apply counts and the default count', () => {
+      const { schema } = importDatasetSchema(sql, SchemaSourceFormat.SQL, {
+        counts: { orders: 50 },
+        defaultCount: 5,
+      });
+
+      expect(schema.entities.users?.count).toBe(5);
+      expect(schema.entities.orders?.count).toBe(50);
+    });
+
+    it('should warn about foreign keys to unknown tables and tables without columns', () => {
+      const { schema, warnings } = importDatasetSchema(
+        `CREATE TABLE tags (id INT PRIMARY KEY);
+CREATE TABLE notes (
+  id INT PRIMARY KEY,
+  body TEXT,
+  tag_id INT REFERENCES tags(id),
+  author_id INT REFERENCES authors(id)
+);`,
+        SchemaSourceFormat.SQL
+      );
+
+      expect(Object.keys(schema.entities)).toEqual(['notes']);
+      expect(schema.entities.notes?.fields).toEqual([
+        { name: 'body', nullable: true },
+        { name: 'author_id', type: 'integer', nullable: true },
+      ]);
+      expect(warnings).toEqual([
+        "notes.author_id: references unknown table 'authors' and is generated as a plain column",
+        'tags: skipped because it has no columns besides its primary key',
+        'notes.tag_id: skipped because it references skipped table tags',
+      ]);
+    });
+  });
+
+  describe('migrations', () => {
+    const migrations = [
+      'CREATE TABLE users (id SERIAL PRIMARY KEY, email TEXT NOT NULL, legacy TEXT);',
+      'CREATE TABLE teams (id SERIAL PRIMARY KEY, name TEXT);\nCREATE TABLE drafts (id INT PRIMARY KEY, body TEXT);',
+      'ALTER TABLE users ADD COLUMN team_id INT REFERENCES teams(id), DROP COLUMN legacy;\nDROP TABLE IF EXISTS drafts;',
+    ];
+
+    it('should apply ALTER TABLE and DROP TABLE statements in order', () => {
+      const { schema } = importDatasetSchema(migrations.join('\n'), SchemaSourceFormat.SQL);
+
+      expect(Object.keys(schema.entities)).toEqual(['users', 'teams']);
+      expect(schema.entities.users?.fields).toEqual(['email', 'team_id']);
+      expect(schema.entities.users?.relationships).toEqual({
+        team_id: { references: 'teams', type: 'one-to-many', nullable: true },
+      });
+    });
+
+    it('should load the .sql files of a migrations directory in path order', async () => {
+      const dir = mkdtempSync(join(tmpdir(), 'faker-mcp-'));
+      try {
+        migrations.forEach((migration, index) => {
+          mkdirSync(join(dir, `00${index + 1}_step`));
+          writeFileSync(join(dir, `00${index + 1}_step`, 'migration.sql'), migration);
+        });
+        writeFileSync(join(dir, 'migration_lock.toml'), 'provider = "postgresql"');
+
+        const source = await loadSchemaSource(dir);
+        const { schema } = importDatasetSchema(source, detectSchemaFormat(source, dir));
+
+        expect(Object.keys(schema.entities)).toEqual(['users', 'teams']);
+        await expect(loadSchemaSource(join(dir, '001_step', 'migration.sql'))).resolves.toBe(
+          migrations[0]
+        );
+      } finally {
+        rmSync(dir, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe('reference cycles', () => {
+    it('should drop a nullable foreign key to break a cycle', () => {
+      const { schema, warnings } = importDatasetSchema(
+        `CREATE TABLE teams (id INT PRIMARY KEY, name TEXT, captain_id INT REFERENCES players(id));
+CREATE TABLE players (id INT PRIMARY KEY, name TEXT, team_id INT NOT NULL REFERENCES teams(id));`,
+        SchemaSourceFormat.SQL
+      );
+
+      expect(schema.entities.teams?.fields).toEqual([{ name: 'name', nullable: true }]);
+      expect(schema.entities.players?.relationships).toEqual({
+        team_id: { references: 'teams', type: 'one-to-many' },
+      });
+      expect(warnings).toHaveLength(1);
+      expect(warnings[0]).toMatch(/^teams\.captain_id: nullable foreign key left out/);
+    });
+
+    it('should reject cycles of required foreign keys', () => {
+      expect(() =>
+        importDatasetSchema(
+          `CREATE TABLE a (id INT PRIMARY KEY, b_id INT NOT NULL REFERENCES b(id));
+CREATE TABLE b (id INT PRIMARY KEY, a_id INT NOT NULL REFERENCES a(id));`,
+          SchemaSourceFormat.SQL
+        )
+      ).toThrow('Foreign keys form a cycle without a nullable column');
+    });
+  });
+
+  describe('errors', () => {
+    it('should reject sources without tables and counts for unknown tables', () => {
+      expect(() => importDatasetSchema('SELECT 1;', SchemaSourceFormat.SQL)).toThrow(
+        'No CREATE TABLE statements found in SQL'
+      );
+      expect(() => importDatasetSchema('generator client {}', SchemaSourceFormat.PRISMA)).toThrow(
+        'No models found in Prisma schema'
+      );
+      expect(() =>
+        importDatasetSchema(sql, SchemaSourceFormat.SQL, { counts: { customers: 5 } })
+      ).toThrow('counts reference unknown tables: customers');
+    });
+  });
+
+  it('should produce schemas that generate with referential integrity', async () => {
+    const { schema } = importDatasetSchema(sql, SchemaSourceFormat.SQL, { counts: { orders: 30 } });
+    expect(validateDatasetSchema(schema).valid).toBe(true);
+
+    const { dataset } = await new DatasetGenerator({ seed: 42 }).generateDataset(schema);
+    const userIds = new Set((dataset['users'] as Array<{ id: string }>).map((user) => user.id));
+    const orders = dataset['orders'] as Array<Record<string, unknown>>;
+
+    expect(orders).toHaveLength(30);
+    orders.forEach((order) => {
+      expect(userIds.has(order.user_id as string)).toBe(true);
+      expect(typeof order.total).toBe('number');
+      expect(['s', 'm']).toContain(order.size);
+    });
+  });
+});
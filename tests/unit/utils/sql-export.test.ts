@@ -0,0 +1,301 @@
+import { describe, it, expect } from 'vitest';
+import { DatasetGenerator } from '../../../src/generators/dataset-generator.js';
+import {
+  EntityType,
+  FieldType,
+  IdStrategyType,
+  PatternType,
+  RelationshipType,
+  SchemaSourceFormat,
+  SqlDialect,
+  type DatasetSchema,
+} from '../../../src/types/schema.js';
+import { importDatasetSchema } from '../../../src/utils/schema-import.js';
+import { buildSqlTables, exportDatasetToSql } from '../../../src/utils/sql-export.js';
+
+/**
+ * Unit tests for SQL export
+ */
+describe('sql-export', () => {
+  const schema: DatasetSchema = {
+    entities: {
+      users: { count: 3, type: EntityType.PERSON },
+      roles: {
+        count: 2,
+        type: EntityType.CUSTOM,
+        fields: [{ name: 'name', pattern: { type: PatternType.ENUM, value: ["admin's", 'user'] } }],
+      },
+      orders: {
+        count: 5,
+        type: EntityType.CUSTOM,
+        fields: [
+          'userId',
+          { name: 'quantity', pattern: { type: PatternType.RANGE, value: { min: 1, max: 9 } } },
+          {
+            name: 'total',
+            pattern: { type: PatternType.RANGE, value: { min: 1, max: 100, precision: 2 } },
+          },
+        ],
+        relationships: {
+          userId: { references: 'users', type: RelationshipType.ONE_TO_MANY },
+        },
+      },
+      memberships: {
+        count: 2,
+        type: EntityType.CUSTOM,
+        fields: ['roleIds'],
+        relationships: {
+          roleIds: {
+            references: 'roles',
+            type: RelationshipType.MANY_TO_MANY,
+            through: 'memberships_roles',
+          },
+        },
+      },
+    },
+  };
+
+  const generate = async () => {
+    const generator = new DatasetGenerator({ seed: 12345 });
+    const { dataset } = await generator.generateDataset(schema);
+    return { dataset, order: generator.topologicalSort(schema) };
+  };
+
+  describe('buildSqlTables', () => {
+    it('should create tables in dependency order with junction tables after their owner', async () => {
+      const { dataset, order } = await generate();
+      const names = buildSqlTables(schema, dataset, order).map((table) => table.name);
+
+      expect(names.indexOf('users')).toBeLessThan(names.indexOf('orders'));
+      expect(names.indexOf('roles')).toBeLessThan(names.indexOf('memberships'));
+      expect(names.indexOf('memberships_roles')).toBe(names.indexOf('memberships') + 1);
+    });
+
+    it('should derive column types from patterns and known entity shapes', async () => {
+      const { dataset, order } = await generate();
+      const tables = buildSqlTables(schema, dataset, order);
+      const orders = tables.find((table) => table.name === 'orders');
+      const users = tables.find((table) => table.name === 'users');
+
+      expect(orders?.columns.find((column) => column.name === 'quantity')?.type).toBe('integer');
+      expect(orders?.columns.find((column) => column.name === 'total')?.type).toBe('decimal');
+      expect(users?.columns.find((column) => column.name === 'email')?.type).toBe('text');
+      expect(users?.columns.map((column) => column.name)).toContain('address_city');
+    });
+
+    it('should type the flattened columns of product entities', async () => {
+      const productSchema: DatasetSchema = {
+        entities: { products: { count: 2, type: EntityType.PRODUCT } },
+      };
+      const generator = new DatasetGenerator({ seed: 1 });
+      const { dataset } = await generator.generateDataset(productSchema);
+      const [products] = buildSqlTables(
+        productSchema,
+        dataset,
+        generator.topologicalSort(productSchema)
+      );
+      const typeOf = (name: string) =>
+        products?.columns.find((column) => column.name === name)?.type;
+
+      expect(typeOf('price')).toBe('decimal');
+      expect(typeOf('stock')).toBe('integer');
+      expect(typeOf('weight_value')).toBe('decimal');
+      expect(typeOf('ean')).toBe('text');
+    });
+
+    it('should type order amounts, timestamps and line items', async () => {
+      const orderSchema: DatasetSchema = {
+        entities: {
+          products: { count: 3, type: EntityType.PRODUCT },
+          orders: {
+            count: 3,
+            type: EntityType.ORDER,
+            relationships: {
+              items: { references: 'products', type: RelationshipType.MANY_TO_MANY },
+            },
+          },
+        },
+      };
+      const generator = new DatasetGenerator({ seed: 1 });
+      const { dataset } = await generator.generateDataset(orderSchema);
+      const orders = buildSqlTables(
+        orderSchema,
+        dataset,
+        generator.topologicalSort(orderSchema)
+      ).find((table) => table.name === 'orders');
+      const typeOf = (name: string) => orders?.columns.find((column) => column.name === name)?.type;
+
+      expect(typeOf('total')).toBe('decimal');
+      expect(typeOf('shippedAt')).toBe('timestamp');
+      expect(typeOf('items')).toBe('json');
+    });
+
+    it('should type account cards and ledger entries', async () => {
+      const financialSchema: DatasetSchema = {
+        entities: {
+          accounts: { count: 2, type: EntityType.ACCOUNT },
+          ledger: { count: 2, type: EntityType.LEDGER },
+        },
+      };
+      const generator = new DatasetGenerator({ seed: 1 });
+      const { dataset } = await generator.generateDataset(financialSchema);
+      const tables = buildSqlTables(
+        financialSchema,
+        dataset,
+        generator.topologicalSort(financialSchema)
+      );
+      const typeOf = (table: string, name: string) =>
+        tables
+          .find((candidate) => candidate.name === table)
+          ?.columns.find((column) => column.name === name)?.type;
+
+      expect(typeOf('accounts', 'balance')).toBe('decimal');
+      expect(typeOf('accounts', 'card_number')).toBe('text');
+      expect(typeOf('accounts', 'card_cvv')).toBe('text');
+      expect(typeOf('ledger', 'postedAt')).toBe('timestamp');
+      expect(typeOf('ledger', 'entries')).toBe('json');
+    });
+
+    it('should map declared field types to column types', async () => {
+      const typedSchema: DatasetSchema = {
+        entities: {
+          events: {
+            count: 2,
+            type: EntityType.CUSTOM,
+            fields: [
+              { name: 'price', type: FieldType.STRING },
+              { name: 'day', type: FieldType.DATE },
+              { name: 'metadata', type: FieldType.JSON },
+            ],
+          },
+        },
+      };
+      const generator = new DatasetGenerator({ seed: 1 });
+      const { dataset } = await generator.generateDataset(typedSchema);
+      const [events] = buildSqlTables(typedSchema, dataset, generator.topologicalSort(typedSchema));
+
+      expect(events?.columns.map((column) => column.type)).toEqual([
+        'text',
+        'text',
+        'date',
+        'json',
+      ]);
+    });
+
+    it('should type key columns of sequence IDs as integers', async () => {
+      const sequence = { type: IdStrategyType.SEQUENCE };
+      const sequenceSchema: DatasetSchema = {
+        entities: {
+          ...schema.entities,
+          users: { count: 3, type: EntityType.PERSON, idStrategy: sequence },
+          roles: { count: 2, type: EntityType.CUSTOM, fields: ['name'], idStrategy: sequence },
+        },
+      };
+      const generator = new DatasetGenerator({ seed: 12345 });
+      const { dataset } = await generator.generateDataset(sequenceSchema);
+      const tables = buildSqlTables(
+        sequenceSchema,
+        dataset,
+        generator.topologicalSort(sequenceSchema)
+      );
+      const typeOf = (table: string, column: string) =>
+        tables.find((t) => t.name === table)?.columns.find((c) => c.name === column)?.type;
+
+      expect(typeOf('users', 'id')).toBe('integer');
+      expect(typeOf('orders', 'userId')).toBe('integer');
+      expect(typeOf('orders', 'id')).toBe('text');
+      expect(typeOf('memberships_roles', 'roleId')).toBe('integer');
+      expect(typeOf('memberships_roles', 'membershipId')).toBe('text');
+    });
+  });
+
+  describe('exportDatasetToSql', () => {
+    it('should emit postgres DDL with primary and foreign keys', async () => {
+      const { dataset, order } = await generate();
+      const sql = exportDatasetToSql(schema, dataset, order);
+
+      expect(sql).toContain('CREATE TABLE "users"');
+      expect(sql).toContain('PRIMARY KEY ("id")');
+      expect(sql).toContain('FOREIGN KEY ("userId") REFERENCES "users" ("id")');
+      expect(sql).toContain('PRIMARY KEY ("membershipId", "roleId")');
+      expect(sql).toContain('FOREIGN KEY ("roleId") REFERENCES "roles" ("id")');
+      expect(sql).toContain('"address_city" TEXT NOT NULL');
+    });
+
+    it('should create every table before the first INSERT', async () => {
+      const { dataset, order } = await generate();
+      const sql = exportDatasetToSql(schema, dataset, order);
+
+      expect(sql.lastIndexOf('CREATE TABLE')).toBeLessThan(sql.indexOf('INSERT INTO'));
+    });
+
+    it('should escape single quotes in string values', () => {
+      const rolesOnly: DatasetSchema = {
+        entities: { roles: schema.entities.roles ?? { count: 0, type: EntityType.CUSTOM } },
+      };
+      const dataset = { roles: [{ id: 'roles_1', name: "admin's" }] };
+
+      expect(exportDatasetToSql(rolesOnly, dataset, ['roles'])).toContain(
+        "('roles_1', 'admin''s')"
+      );
+      expect(
+        exportDatasetToSql(rolesOnly, { roles: [{ id: 'roles_1', name: 'C:\\' }] }, ['roles'], {
+          dialect: SqlDialect.MYSQL,
+        })
+      ).toContain("'C:\\\\'");
+    });
+
+    it('should use dialect-specific quoting and types', async () => {
+      const { dataset, order } = await generate();
+      const mysql = exportDatasetToSql(schema, dataset, order, { dialect: SqlDialect.MYSQL });
+      const sqlite = exportDatasetToSql(schema, dataset, order, { dialect: SqlDialect.SQLITE });
+
+      expect(mysql).toContain('CREATE TABLE `users`');
+      expect(mysql).toContain('`id` VARCHAR(255) NOT NULL');
+      expect(sqlite).toContain('"total" REAL');
+      expect(sqlite).not.toContain('JSONB');
+    });
+
+    it('should keep UUID types and nullability from an imported schema', async () => {
+      const { schema: imported } = importDatasetSchema(
+        `CREATE TABLE teams (id UUID PRIMARY KEY, name TEXT NOT NULL, motto TEXT);
+CREATE TABLE players (id UUID PRIMARY KEY, team_id UUID NOT NULL REFERENCES teams(id), badge UUID);`,
+        SchemaSourceFormat.SQL
+      );
+      const generator = new DatasetGenerator({ seed: 3 });
+      const { dataset } = await generator.generateDataset(imported);
+      const order = generator.topologicalSort(imported);
+      const [postgres, mysql, sqlite] = [
+        SqlDialect.POSTGRES,
+        SqlDialect.MYSQL,
+        SqlDialect.SQLITE,
+      ].map((dialect) => exportDatasetToSql(imported, dataset, order, { dialect }));
+
+      expect(postgres).toContain('"id" UUID NOT NULL');
+      expect(postgres).toContain('"team_id" UUID NOT NULL');
+      expect(postgres).toContain('"name" TEXT NOT NULL');
+      expect(postgres).toMatch(/"motto" TEXT,\n/);
+      expect(postgres).toMatch(/"badge" UUID,\n/);
+      expect(mysql).toContain('`team_id` CHAR(36) NOT NULL');
+      expect(mysql).toMatch(/`badge` CHAR\(36\),\n/);
+      expect(sqlite).toContain('"team_id" TEXT NOT NULL');
+    });
+
+    it('should split INSERT statements by batch size', async () => {
+      const { dataset, order } = await generate();
+      const sql = exportDatasetToSql(schema, dataset, order, { batchSize: 2 });
+
+      expect(sql.match(/INSERT INTO "orders"/g)).toHaveLength(3);
+      expect(sql.match(/INSERT INTO "users"/g)).toHaveLength(2);
+    });
+
+    it('should be reproducible for the same seed', async () => {
+      const first = await generate();
+      const second = await generate();
+
+      expect(exportDatasetToSql(schema, first.dataset, first.order)).toBe(
+        exportDatasetToSql(schema, second.dataset, second.order)
+      );
+    });
+  });
+});
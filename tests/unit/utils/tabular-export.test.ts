@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+import { OutputFormat } from '../../../src/types/schema.js';
+import {
+  flattenRecord,
+  formatRecords,
+  toDelimited,
+  toNdjson,
+} from '../../../src/utils/tabular-export.js';
+
+/**
+ * Unit tests for tabular export utilities
+ */
+describe('tabular-export', () => {
+  describe('flattenRecord', () => {
+    it('should flatten nested objects into dotted columns', () => {
+      expect(
+        flattenRecord({ id: 'p1', address: { city: 'Paris', geo: { lat: 1 } }, tags: ['a'] })
+      ).toEqual({ id: 'p1', 'address.city': 'Paris', 'address.geo.lat': 1, tags: ['a'] });
+    });
+
+    it('should support a custom separator', () => {
+      expect(flattenRecord({ address: { city: 'Paris' } }, '_')).toEqual({
+        address_city: 'Paris',
+      });
+    });
+  });
+
+  describe('toDelimited', () => {
+    it('should write a header row and one line per record', () => {
+      const csv = toDelimited(
+        [
+          { id: 1, name: 'Ada' },
+          { id: 2, name: 'Grace' },
+        ],
+        OutputFormat.CSV
+      );
+
+      expect(csv).toBe('id,name\n1,Ada\n2,Grace\n');
+    });
+
+    it('should quote CSV cells containing delimiters, quotes and line breaks', () => {
+      const csv = toDelimited(
+        [{ name: 'Doe, John', quote: 'say "hi"', note: 'line\nbreak' }],
+        OutputFormat.CSV
+      );
+
+      expect(csv).toBe('name,quote,note\n"Doe, John","say ""hi""","line\nbreak"\n');
+    });
+
+    it('should escape tabs, line breaks and backslashes in TSV cells', () => {
+      const tsv = toDelimited([{ a: 'x\ty', b: 'l1\nl2', c: 'C:\\' }], OutputFormat.TSV);
+
+      expect(tsv).toBe('a\tb\tc\nx\\ty\tl1\\nl2\tC:\\\\\n');
+    });
+
+    it('should use the union of columns and leave missing or null values empty', () => {
+      const csv = toDelimited(
+        [
+          { id: 1, address: { city: 'Paris' } },
+          { id: 2, phone: null },
+        ],
+        OutputFormat.CSV
+      );
+
+      expect(csv).toBe('id,address.city,phone\n1,Paris,\n2,,\n');
+    });
+
+    it('should write arrays as JSON', () => {
+      expect(toDelimited([{ ids: ['a', 'b'] }], OutputFormat.CSV)).toBe('ids\n"[""a"",""b""]"\n');
+    });
+  });
+
+  describe('toNdjson', () => {
+    it('should write one compact JSON object per line without flattening', () => {
+      const ndjson = toNdjson([{ id: 1, address: { city: 'Paris' } }, { id: 2 }]);
+
+      expect(ndjson).toBe('{"id":1,"address":{"city":"Paris"}}\n{"id":2}\n');
+    });
+  });
+
+  describe('formatRecords', () => {
+    it('should dispatch on the output format', () => {
+      const records = [{ id: 1 }];
+
+      expect(formatRecords(records, OutputFormat.CSV)).toBe('id\n1\n');
+      expect(formatRecords(records, OutputFormat.TSV)).toBe('id\n1\n');
+      expect(formatRecords(records, OutputFormat.NDJSON)).toBe('{"id":1}\n');
+    });
+  });
+});
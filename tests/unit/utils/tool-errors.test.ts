@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import {
+  fromSchemaIssues,
+  fromZodError,
+  toJsonPath,
+  ToolError,
+  ToolErrorCode,
+  toolErrorResult,
+} from '../../../src/utils/tool-errors.js';
+
+/**
+ * Unit tests for structured tool errors
+ */
+describe('tool errors', () => {
+  const ParamsSchema = z.object({
+    count: z.number().int().min(1).max(100),
+    locale: z.enum(['en', 'fr']),
+    tags: z.array(z.string()).optional(),
+    name: z.string(),
+  });
+
+  const parseError = (args: unknown) => {
+    const result = ParamsSchema.safeParse(args);
+    if (result.success) {
+      throw new Error('Expected validation to fail');
+    }
+    return fromZodError(result.error, args);
+  };
+
+  it('should format JSON paths with bracketed indexes and non-identifier keys', () => {
+    expect(toJsonPath([])).toBe('$');
+    expect(toJsonPath(['schema', 'entities', 'order-items', 'fields', 0])).toBe(
+      "$.schema.entities['order-items'].fields[0]"
+    );
+  });
+
+  it('should describe each Zod issue with path, value, constraint and fix', () => {
+    const error = parseError({ count: 500, locale: 'xx', tags: ['a', 3] });
+
+    expect(error).toBeInstanceOf(ToolError);
+    expect(error.code).toBe(ToolErrorCode.INVALID_PARAMETERS);
+    expect(error.message).toMatch(/^Invalid parameters: count: /);
+    expect(error.details).toEqual([
+      expect.objectContaining({
+        code: 'too_big',
+        path: '$.count',
+        value: 500,
+        expected: '<= 100',
+        suggestion: 'Use a value of at most 100',
+      }),
+      expect.objectContaining({
+        code: 'invalid_enum_value',
+        path: '$.locale',
+        value: 'xx',
+        expected: 'one of: en, fr',
+      }),
+      expect.objectContaining({
+        code: 'invalid_type',
+        path: '$.tags[1]',
+        value: 3,
+        expected: 'string',
+        suggestion: 'Pass a string instead of a number',
+      }),
+      expect.objectContaining({
+        code: 'invalid_type',
+        path: '$.name',
+        suggestion: "Provide 'name', it is required",
+      }),
+    ]);
+    expect(error.details[3]).not.toHaveProperty('value');
+  });
+
+  it('should classify schema issues and move their paths under the schema argument', () => {
+    const circular = fromSchemaIssues(
+      'Invalid dataset schema',
+      [{ code: 'circular_dependency', path: '$.entities.a', message: 'Circular' }],
+      ['schema']
+    );
+    const mixed = fromSchemaIssues('Invalid dataset schema', [
+      { code: 'invalid_regex', path: '$.entities.a.fields[0]', message: 'Bad regex' },
+      { code: 'invalid_count', path: '$.entities.a.count', message: 'Bad count' },
+    ]);
+
+    expect(circular.code).toBe(ToolErrorCode.CIRCULAR_DEPENDENCY);
+    expect(circular.details[0]?.path).toBe('$.schema.entities.a');
+    expect(mixed.code).toBe(ToolErrorCode.INVALID_SCHEMA);
+    expect(mixed.message).toBe('Invalid dataset schema: Bad regex, Bad count');
+  });
+
+  it('should build isError results with a JSON payload', () => {
+    const structured = toolErrorResult(parseError({ count: 0, locale: 'en', name: 'x' }));
+    const plain = toolErrorResult(new Error('boom'));
+
+    expect(structured.isError).toBe(true);
+    expect(structured.content[0]?.text).toMatch(/^Tool execution failed: Invalid parameters/);
+    expect(JSON.parse(structured.content[1]?.text ?? '')).toMatchObject({
+      error: { code: 'invalid_parameters', details: [{ path: '$.count', expected: '>= 1' }] },
+    });
+    expect(JSON.parse(plain.content[1]?.text ?? '')).toEqual({
+      error: { code: 'tool_execution_failed', message: 'boom', details: [] },
+    });
+  });
+});
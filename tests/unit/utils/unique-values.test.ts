@@ -0,0 +1,109 @@
+import { describe, it, expect } from 'vitest';
+import { FieldType, PatternType } from '../../../src/types/schema.js';
+import { ToolErrorCode } from '../../../src/utils/tool-errors.js';
+import {
+  estimateFieldTypeValueSpace,
+  estimatePatternValueSpace,
+  MAX_UNIQUE_ATTEMPTS,
+  UniqueValuesExhaustedError,
+  UniqueValueTracker,
+} from '../../../src/utils/unique-values.js';
+
+/**
+ * Unit tests for unique value tracking and value space estimates
+ */
+describe('unique values', () => {
+  describe('UniqueValueTracker', () => {
+    it('should redraw duplicates of unique fields and draw other fields once', () => {
+      const unique = new UniqueValueTracker(['code']);
+      const draws = ['a', 'a', 'b'];
+      let calls = 0;
+      const draw = () => draws[calls++] as string;
+
+      expect(unique.isUnique('code')).toBe(true);
+      expect(unique.isUnique('name')).toBe(false);
+      expect(unique.next('code', draw)).toBe('a');
+      expect(unique.next('code', draw)).toBe('b');
+      expect(calls).toBe(3);
+
+      expect(unique.next('name', () => 'x')).toBe('x');
+      expect(unique.next('name', () => 'x')).toBe('x');
+    });
+
+    it('should compare objects by content unless a key is given', () => {
+      const unique = new UniqueValueTracker(['point', 'person']);
+
+      unique.next('point', () => ({ x: 1 }));
+      expect(() => unique.next('point', () => ({ x: 1 }))).toThrow(UniqueValuesExhaustedError);
+
+      unique.next(
+        'person',
+        () => ({ name: 'Ann', age: 30 }),
+        (person) => person.name
+      );
+      expect(() =>
+        unique.next(
+          'person',
+          () => ({ name: 'Ann', age: 31 }),
+          (p) => p.name
+        )
+      ).toThrow(UniqueValuesExhaustedError);
+    });
+
+    it('should give up after the retry budget with a value space error', () => {
+      const unique = new UniqueValueTracker(['flag']);
+      unique.next('flag', () => true);
+      let calls = 0;
+
+      let error: unknown;
+      try {
+        unique.next('flag', () => {
+          calls++;
+          return true;
+        });
+      } catch (caught) {
+        error = caught;
+      }
+
+      expect(calls).toBe(MAX_UNIQUE_ATTEMPTS);
+      expect(error).toBeInstanceOf(UniqueValuesExhaustedError);
+      expect(error).toMatchObject({
+        code: ToolErrorCode.VALUE_SPACE_TOO_SMALL,
+        field: 'flag',
+        distinct: 1,
+      });
+    });
+  });
+
+  describe('estimatePatternValueSpace', () => {
+    it('should count the values of each pattern type', () => {
+      expect(estimatePatternValueSpace({ type: PatternType.REGEX, value: '[A-Z]{2}' })).toBe(676);
+      expect(estimatePatternValueSpace({ type: PatternType.REGEX, value: '(a|bc)\\d' })).toBe(20);
+      expect(estimatePatternValueSpace({ type: PatternType.REGEX, value: '[A-Z]+' })).toBe(
+        Infinity
+      );
+      expect(estimatePatternValueSpace({ type: PatternType.ENUM, value: ['a', 'b', 'a'] })).toBe(2);
+      expect(
+        estimatePatternValueSpace({ type: PatternType.RANGE, value: { min: 1, max: 10 } })
+      ).toBe(10);
+      expect(
+        estimatePatternValueSpace({
+          type: PatternType.RANGE,
+          value: { min: 0, max: 1, precision: 2 },
+        })
+      ).toBe(101);
+      expect(
+        estimatePatternValueSpace({ type: PatternType.FORMAT, value: 'INV-{{number:3}}' })
+      ).toBe(1000);
+      expect(estimatePatternValueSpace({ type: PatternType.FORMAT, value: '{{year}}' })).toBe(1);
+    });
+  });
+
+  describe('estimateFieldTypeValueSpace', () => {
+    it('should bound booleans and typed integers only', () => {
+      expect(estimateFieldTypeValueSpace(FieldType.BOOLEAN)).toBe(2);
+      expect(estimateFieldTypeValueSpace(FieldType.INTEGER)).toBe(1000);
+      expect(estimateFieldTypeValueSpace(FieldType.UUID)).toBe(Infinity);
+    });
+  });
+});
@@ -1,5 +1,14 @@
 import { describe, it, expect } from 'vitest';
-import { EntityType, RelationshipType, type DatasetSchema } from '../../../src/types/schema.js';
+import {
+  ConstraintOperator,
+  EntityType,
+  FieldType,
+  IdStrategyType,
+  PatternType,
+  PersonUniqueField,
+  RelationshipType,
+  type DatasetSchema,
+} from '../../../src/types/schema.js';
 import {
   isValidEmail,
   isValidUrl,
@@ -8,9 +17,17 @@ import {
   isValidPhone,
   isValidString,
   isInRange,
+  isValidSparsity,
   isValidRegex,
   isNonEmptyArray,
+  validateDatasetSchema,
+  validateManyToMany,
+  validateCardinality,
+  collectDatasetSchemaIssues,
+  collectIdStrategyIssues,
+  validatePatterns,
 } from '../../../src/utils/validators.js';
+import { ToolError, ToolErrorCode } from '../../../src/utils/tool-errors.js';
 
 /**
  * Unit tests for validation utilities
@@ -111,6 +128,18 @@ describe('validators', () => {
       });
     });
 
+    describe('isValidSparsity', () => {
+      it('should accept rates that add up to at most 1', () => {
+        expect(isValidSparsity({})).toBe(true);
+        expect(isValidSparsity({ nullRate: 0.4, omitRate: 0.6 })).toBe(true);
+      });
+
+      it('should reject rates outside 0-1 or adding up to more than 1', () => {
+        expect(isValidSparsity({ nullRate: 1.5 })).toBe(false);
+        expect(isValidSparsity({ nullRate: 0.7, omitRate: 0.5 })).toBe(false);
+      });
+    });
+
     describe('isValidRegex', () => {
       it('should validate correct regex patterns', () => {
         expect(isValidRegex('[a-z]+')).toBe(true);
@@ -630,4 +659,525 @@ describe('validators', () => {
       expect(schema.entities['companies']?.fields).toBeUndefined();
     });
   });
+
+  describe('many-to-many validation', () => {
+    it('should accept many-to-many options', () => {
+      expect(
+        validateManyToMany({
+          type: RelationshipType.MANY_TO_MANY,
+          through: 'users_roles',
+          minLinks: 0,
+          maxLinks: 2,
+        })
+      ).toEqual([]);
+    });
+
+    it('should reject minLinks greater than maxLinks', () => {
+      expect(
+        validateManyToMany({ type: RelationshipType.MANY_TO_MANY, minLinks: 3, maxLinks: 1 })
+      ).toEqual(['minLinks (3) must be less than or equal to maxLinks (1)']);
+    });
+
+    it('should reject junction options on one-to-many relationships', () => {
+      expect(
+        validateManyToMany({ type: RelationshipType.ONE_TO_MANY, through: 'users_roles' })
+      ).toHaveLength(1);
+    });
+
+    it('should reject junction names that clash with entities', () => {
+      const result = validateDatasetSchema({
+        entities: {
+          roles: { count: 3, type: EntityType.CUSTOM, fields: ['title'] },
+          users: {
+            count: 10,
+            type: EntityType.PERSON,
+            relationships: {
+              roles: {
+                references: 'roles',
+                type: RelationshipType.MANY_TO_MANY,
+                through: 'roles',
+              },
+            },
+          },
+        },
+      });
+
+      expect(result.valid).toBe(false);
+      expect(result.errors[0]).toContain("junction 'roles' clashes with an existing entity");
+    });
+
+    it('should reject junction names used twice', () => {
+      const relationship = {
+        references: 'roles',
+        type: RelationshipType.MANY_TO_MANY,
+        through: 'links',
+      };
+      const result = validateDatasetSchema({
+        entities: {
+          roles: { count: 3, type: EntityType.CUSTOM, fields: ['title'] },
+          users: { count: 10, type: EntityType.PERSON, relationships: { roles: relationship } },
+          groups: { count: 2, type: EntityType.COMPANY, relationships: { roles: relationship } },
+        },
+      });
+
+      expect(result.valid).toBe(false);
+      expect(result.errors.some((e) => e.includes('already used by another relationship'))).toBe(
+        true
+      );
+    });
+  });
+
+  describe('order line item validation', () => {
+    const products = { count: 5, type: EntityType.PRODUCT };
+
+    it('should accept one many-to-many relationship to a product entity', () => {
+      const result = validateDatasetSchema({
+        entities: {
+          products,
+          users: { count: 3, type: EntityType.PERSON },
+          orders: {
+            count: 10,
+            type: EntityType.ORDER,
+            relationships: {
+              customerId: { references: 'users', type: RelationshipType.ONE_TO_MANY },
+              items: { references: 'products', type: RelationshipType.MANY_TO_MANY, maxLinks: 4 },
+            },
+          },
+        },
+      });
+
+      expect(result).toEqual({ valid: true, errors: [] });
+    });
+
+    it('should reject line items that are one-to-many, use a junction or come twice', () => {
+      const result = validateDatasetSchema({
+        entities: {
+          products,
+          orders: {
+            count: 10,
+            type: EntityType.ORDER,
+            relationships: {
+              productId: { references: 'products', type: RelationshipType.ONE_TO_MANY },
+              items: {
+                references: 'products',
+                type: RelationshipType.MANY_TO_MANY,
+                through: 'order_items',
+              },
+            },
+          },
+        },
+      });
+
+      expect(result.errors).toEqual([
+        "Entity 'orders' field 'productId': order line items need a many-to-many relationship without through",
+        "Entity 'orders' field 'items': order line items need a many-to-many relationship without through",
+        "Entity 'orders' field 'items': order 'orders' already takes its line items from 'productId'",
+      ]);
+    });
+  });
+
+  describe('field definition validation', () => {
+    it('should accept fields with valid patterns', () => {
+      const result = validateDatasetSchema({
+        entities: {
+          orders: {
+            count: 5,
+            type: EntityType.CUSTOM,
+            fields: [
+              'amount',
+              { name: 'status', pattern: { type: PatternType.ENUM, value: ['open', 'closed'] } },
+            ],
+          },
+        },
+      });
+
+      expect(result).toEqual({ valid: true, errors: [] });
+    });
+
+    it('should reject fields with invalid patterns', () => {
+      const result = validateDatasetSchema({
+        entities: {
+          orders: {
+            count: 5,
+            type: EntityType.CUSTOM,
+            fields: [{ name: 'sku', pattern: { type: PatternType.REGEX, value: '[invalid(' } }],
+          },
+        },
+      });
+
+      expect(result.valid).toBe(false);
+      expect(result.errors[0]).toContain("Entity 'orders' field 'sku': invalid pattern");
+    });
+
+    it('should reject patterns on relationship fields', () => {
+      const result = validateDatasetSchema({
+        entities: {
+          users: { count: 5, type: EntityType.PERSON },
+          orders: {
+            count: 5,
+            type: EntityType.CUSTOM,
+            fields: [
+              { name: 'userId', pattern: { type: PatternType.FORMAT, value: 'U-{{number:3}}' } },
+            ],
+            relationships: {
+              userId: { references: 'users', type: RelationshipType.ONE_TO_MANY },
+            },
+          },
+        },
+      });
+
+      expect(result.errors).toContain(
+        "Entity 'orders' field 'userId' is a relationship and cannot have a pattern"
+      );
+    });
+
+    it('should reject duplicate field names', () => {
+      const result = validateDatasetSchema({
+        entities: {
+          orders: { count: 5, type: EntityType.CUSTOM, fields: ['amount', { name: 'amount' }] },
+        },
+      });
+
+      expect(result.errors).toContain("Entity 'orders' field 'amount' is defined more than once");
+    });
+  });
+
+  describe('cardinality validation', () => {
+    const relationship = (cardinality: object, nullable = false) => ({
+      references: 'users',
+      type: RelationshipType.ONE_TO_MANY,
+      nullable,
+      cardinality,
+    });
+
+    it('should accept satisfiable cardinality', () => {
+      expect(validateCardinality('orders', 50, relationship({ min: 1, max: 10 }), 10)).toEqual([]);
+    });
+
+    it('should reject min greater than max', () => {
+      expect(validateCardinality('orders', 50, relationship({ min: 5, max: 2 }), 10)).toEqual([
+        'cardinality min (5) must be less than or equal to max (2)',
+      ]);
+    });
+
+    it('should reject too few children for the minimum', () => {
+      expect(validateCardinality('orders', 5, relationship({ min: 1 }), 10)).toEqual([
+        'cardinality min 1 needs at least 10 records, but count is 5',
+      ]);
+    });
+
+    it('should reject too many children for the maximum unless nullable', () => {
+      expect(validateCardinality('orders', 50, relationship({ max: 2 }), 10)).toEqual([
+        'cardinality max 2 allows at most 20 records, but count is 50',
+      ]);
+      expect(validateCardinality('orders', 50, relationship({ max: 2 }, true), 10)).toEqual([]);
+    });
+
+    it('should reject cardinality on many-to-many and self references', () => {
+      expect(
+        validateCardinality(
+          'orders',
+          5,
+          { references: 'users', type: RelationshipType.MANY_TO_MANY, cardinality: { min: 1 } },
+          5
+        )
+      ).toHaveLength(1);
+      expect(
+        validateCardinality(
+          'users',
+          5,
+          { references: 'users', type: RelationshipType.ONE_TO_MANY, cardinality: { min: 1 } },
+          5
+        )
+      ).toHaveLength(1);
+    });
+
+    it('should report cardinality errors from validateDatasetSchema', () => {
+      const result = validateDatasetSchema({
+        entities: {
+          users: { count: 10, type: EntityType.PERSON },
+          orders: {
+            count: 5,
+            type: EntityType.CUSTOM,
+            fields: ['userId'],
+            relationships: { userId: relationship({ min: 1 }) },
+          },
+        },
+      });
+
+      expect(result.errors).toEqual([
+        "Entity 'orders' field 'userId': cardinality min 1 needs at least 10 records, but count is 5",
+      ]);
+    });
+  });
+
+  describe('collectDatasetSchemaIssues', () => {
+    it('should locate issues with their value, constraint and fix', () => {
+      const issues = collectDatasetSchemaIssues({
+        entities: {
+          users: { count: 0, type: EntityType.PERSON },
+          orders: {
+            count: 5,
+            type: EntityType.CUSTOM,
+            fields: [{ name: 'sku', pattern: { type: PatternType.REGEX, value: '[A-Z' } }],
+            relationships: {
+              productId: { references: 'products', type: RelationshipType.ONE_TO_MANY },
+            },
+          },
+        },
+      });
+
+      expect(issues).toEqual([
+        expect.objectContaining({
+          code: 'invalid_count',
+          path: '$.entities.users.count',
+          value: 0,
+          expected: 'an integer between 1 and 10000',
+        }),
+        expect.objectContaining({
+          code: 'invalid_regex',
+          path: '$.entities.orders.fields[0].pattern.value',
+          value: '[A-Z',
+        }),
+        expect.objectContaining({
+          code: 'unknown_reference',
+          path: '$.entities.orders.relationships.productId.references',
+          value: 'products',
+          expected: 'one of: users, orders',
+        }),
+      ]);
+    });
+
+    it('should point circular dependencies at the relationship leaving the cycle start', () => {
+      const [issue] = collectDatasetSchemaIssues({
+        entities: {
+          a: {
+            count: 1,
+            type: EntityType.CUSTOM,
+            fields: ['bId'],
+            relationships: { bId: { references: 'b', type: RelationshipType.ONE_TO_MANY } },
+          },
+          b: {
+            count: 1,
+            type: EntityType.CUSTOM,
+            fields: ['aId'],
+            relationships: { aId: { references: 'a', type: RelationshipType.ONE_TO_MANY } },
+          },
+        },
+      });
+
+      expect(issue).toMatchObject({
+        code: 'circular_dependency',
+        path: '$.entities.a.relationships.bId',
+        value: ['a -> b -> a'],
+      });
+    });
+
+    it('should throw ToolErrors locating invalid custom patterns', () => {
+      try {
+        validatePatterns({ code: { type: PatternType.REGEX, value: '(unclosed' } });
+        expect.unreachable();
+      } catch (error) {
+        expect(error).toBeInstanceOf(ToolError);
+        expect((error as ToolError).code).toBe(ToolErrorCode.INVALID_PATTERN);
+        expect((error as ToolError).details[0]).toMatchObject({
+          code: 'invalid_regex',
+          path: '$.patterns.code.value',
+          value: '(unclosed',
+        });
+      }
+    });
+
+    it('should check that unique keys and constraints name fields of custom entities', () => {
+      const issues = collectDatasetSchemaIssues({
+        entities: {
+          users: { count: 5, type: EntityType.PERSON, uniqueKeys: [['email']] },
+          bookings: {
+            count: 5,
+            type: EntityType.CUSTOM,
+            fields: ['startDate', 'endDate'],
+            uniqueKeys: [['id', 'roomId']],
+            constraints: [
+              { field: 'endDate', operator: ConstraintOperator.GREATER_THAN, other: 'startDate' },
+              { field: 'endDate', operator: ConstraintOperator.NOT_EQUAL, other: 'endDate' },
+            ],
+          },
+        },
+      });
+
+      expect(issues).toEqual([
+        expect.objectContaining({
+          code: 'unsupported_entity_rule',
+          path: '$.entities.users.uniqueKeys',
+        }),
+        expect.objectContaining({
+          code: 'unknown_field',
+          path: '$.entities.bookings.uniqueKeys[0][1]',
+          value: 'roomId',
+          expected: 'one of: startDate, endDate, id',
+        }),
+        expect.objectContaining({
+          code: 'invalid_constraint',
+          path: '$.entities.bookings.constraints[1]',
+        }),
+      ]);
+    });
+
+    it('should check primary keys and references to entities with a composite one', () => {
+      const issues = collectDatasetSchemaIssues({
+        entities: {
+          users: { count: 5, type: EntityType.PERSON, primaryKey: ['userId'] },
+          accounts: {
+            count: 5,
+            type: EntityType.CUSTOM,
+            fields: ['accountId', 'name'],
+            primaryKey: ['accountId'],
+          },
+          lines: {
+            count: 5,
+            type: EntityType.CUSTOM,
+            fields: ['orderId', 'qty'],
+            primaryKey: ['orderId', 'sku'],
+          },
+          refunds: {
+            count: 5,
+            type: EntityType.CUSTOM,
+            fields: ['lineId'],
+            relationships: {
+              lineId: { references: 'lines', type: RelationshipType.ONE_TO_MANY },
+            },
+          },
+        },
+      });
+
+      expect(issues).toEqual([
+        expect.objectContaining({
+          code: 'unsupported_entity_rule',
+          path: '$.entities.users.primaryKey',
+        }),
+        expect.objectContaining({
+          code: 'invalid_primary_key',
+          path: '$.entities.accounts.primaryKey[0]',
+        }),
+        expect.objectContaining({
+          code: 'unknown_field',
+          path: '$.entities.lines.primaryKey[1]',
+          value: 'sku',
+          expected: 'one of: orderId, qty',
+        }),
+        expect.objectContaining({
+          code: 'invalid_relationship',
+          path: '$.entities.refunds.relationships.lineId',
+          message:
+            "Entity 'refunds' field 'lineId': 'lines' has a composite primary key and cannot be referenced",
+        }),
+      ]);
+    });
+
+    it('should reject null rates on non-nullable relationships and rates on foreign keys', () => {
+      const issues = collectDatasetSchemaIssues({
+        entities: {
+          users: { count: 5, type: EntityType.PERSON },
+          orders: {
+            count: 5,
+            type: EntityType.CUSTOM,
+            fields: [{ name: 'userId', omitRate: 0.1 }, 'note'],
+            relationships: {
+              userId: { references: 'users', type: RelationshipType.ONE_TO_MANY, nullRate: 0.5 },
+            },
+          },
+        },
+      });
+
+      expect(issues).toEqual([
+        expect.objectContaining({
+          code: 'sparsity_on_relationship',
+          path: '$.entities.orders.fields[0]',
+        }),
+        expect.objectContaining({
+          code: 'invalid_relationship',
+          path: '$.entities.orders.relationships.userId.nullRate',
+          value: 0.5,
+        }),
+      ]);
+    });
+
+    it('should reject unique fields whose value space is smaller than the count', () => {
+      const issues = collectDatasetSchemaIssues({
+        entities: {
+          users: { count: 5, type: EntityType.PERSON, unique: [PersonUniqueField.EMAIL] },
+          tickets: {
+            count: 30,
+            type: EntityType.CUSTOM,
+            unique: [PersonUniqueField.EMAIL],
+            fields: [
+              { name: 'row', pattern: { type: PatternType.REGEX, value: '[A-E]' }, unique: true },
+              { name: 'vip', type: FieldType.BOOLEAN, unique: true },
+              {
+                name: 'code',
+                pattern: { type: PatternType.REGEX, value: '[A-Z]{2}' },
+                unique: true,
+              },
+            ],
+          },
+        },
+      });
+
+      expect(issues).toEqual([
+        expect.objectContaining({
+          code: 'value_space_too_small',
+          path: '$.entities.tickets.fields[0].unique',
+          value: '[A-E]',
+          expected: 'at least 30 distinct values',
+        }),
+        expect.objectContaining({
+          code: 'value_space_too_small',
+          path: '$.entities.tickets.fields[1].unique',
+        }),
+        expect.objectContaining({
+          code: 'invalid_unique_field',
+          path: '$.entities.tickets.unique[0]',
+        }),
+      ]);
+      expect(() =>
+        validatePatterns(
+          { day: { type: PatternType.ENUM, value: ['mon', 'tue'], unique: true } },
+          3
+        )
+      ).toThrow('can produce at most 2 distinct values, fewer than the 3 requested');
+    });
+  });
+
+  describe('collectIdStrategyIssues', () => {
+    it('should check that ID patterns compile and have room for every record', () => {
+      const pattern = (value: string) => ({ type: IdStrategyType.PATTERN, pattern: value });
+
+      expect(collectIdStrategyIssues(pattern('ORD-[0-9]{4}'), 500, ['idStrategy'])).toEqual([]);
+      expect(collectIdStrategyIssues({ type: IdStrategyType.ULID }, 500, ['idStrategy'])).toEqual(
+        []
+      );
+      expect(collectIdStrategyIssues(pattern('ORD-[0-9'), 5, ['idStrategy'])).toEqual([
+        expect.objectContaining({ code: 'invalid_regex', path: '$.idStrategy.pattern' }),
+      ]);
+
+      const issues = collectDatasetSchemaIssues({
+        entities: {
+          orders: {
+            count: 20,
+            type: EntityType.CUSTOM,
+            fields: ['total'],
+            idStrategy: pattern('[0-9]'),
+          },
+        },
+      });
+      expect(issues).toEqual([
+        expect.objectContaining({
+          code: 'value_space_too_small',
+          path: '$.entities.orders.idStrategy.pattern',
+          value: '[0-9]',
+          expected: 'at least 20 distinct values',
+        }),
+      ]);
+    });
+  });
 });
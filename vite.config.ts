@@ -11,10 +11,11 @@ export default defineConfig({
     rollupOptions: {
       external: [
         /^node:.*/,
-        '@modelcontextprotocol/sdk',
+        /^@modelcontextprotocol\/sdk(\/.*)?$/,
         '@faker-js/faker',
         'zod',
         'zod-to-json-schema',
+        'yaml',
       ],
     },
     target: 'node18',